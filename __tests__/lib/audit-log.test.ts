@@ -0,0 +1,119 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { AuditTrail, FileAuditStore, MemoryAuditStore, getAuditTrail } from '@/lib/audit-log';
+import { AuditLogger } from '@/lib/audit';
+
+describe('AuditTrail', () => {
+  it('links entries into a chain that detects edits', async () => {
+    const store = new MemoryAuditStore();
+    const trail = new AuditTrail(store);
+    await trail.append({ action: 'login', entity: 'user', userId: 'jane' });
+    await trail.append({ action: 'export', entity: 'audit', userId: 'jane' });
+
+    await expect(trail.verify()).resolves.toMatchObject({ valid: true, checked: 2 });
+
+    const [first] = await store.scan();
+    (store as any).entries[0] = { ...first, userId: 'john' };
+    await expect(trail.verify()).resolves.toMatchObject({ valid: false, brokenAt: { seq: 1, reason: 'hash_mismatch' } });
+  });
+
+  it('pages filtered results newest first', async () => {
+    const trail = new AuditTrail(new MemoryAuditStore());
+    for (let i = 1; i <= 5; i++) {
+      await trail.append({ action: i % 2 ? 'odd' : 'even', entity: 'test', entityId: String(i) });
+    }
+
+    const first = await trail.query({ action: 'odd', limit: 2 });
+    expect(first.entries.map(entry => entry.entityId)).toEqual(['5', '3']);
+    expect(first.hasMore).toBe(true);
+
+    const second = await trail.query({ action: 'odd', limit: 2, offset: 2 });
+    expect(second.entries.map(entry => entry.entityId)).toEqual(['1']);
+    expect(second.hasMore).toBe(false);
+  });
+
+  it('stops reading once the page is full', async () => {
+    const store = new MemoryAuditStore();
+    const trail = new AuditTrail(store);
+    await trail.append({ action: 'a', entity: 'test' });
+
+    let pagesRead = 0;
+    jest.spyOn(store, 'scanNewestFirst').mockImplementation(async function* () {
+      for (const entry of await store.scan()) {
+        pagesRead++;
+        yield [entry, entry, entry];
+      }
+      throw new Error('read past the first page');
+    });
+
+    await expect(trail.query({ limit: 2 })).resolves.toMatchObject({ hasMore: true });
+    expect(pagesRead).toBe(1);
+  });
+});
+
+describe('FileAuditStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'audit-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the chain intact across entries larger than a read chunk', async () => {
+    const trail = new AuditTrail(new FileAuditStore(dir));
+    await trail.append({ action: 'big', entity: 'test', meta: { blob: 'x'.repeat(100 * 1024) } });
+    await trail.append({ action: 'bigger', entity: 'test', meta: { blob: 'é'.repeat(80 * 1024) } });
+    await trail.append({ action: 'small', entity: 'test' });
+
+    await expect(trail.verify()).resolves.toMatchObject({ valid: true, checked: 3 });
+  });
+
+  it('finds the head behind trailing blank lines', async () => {
+    const store = new FileAuditStore(dir);
+    const trail = new AuditTrail(store);
+    const entry = await trail.append({ action: 'a', entity: 'test' });
+
+    const [segment] = (await store.scan()).map(item => `audit-${item.timestamp.slice(0, 7)}.jsonl`);
+    const file = path.join(dir, segment);
+    await writeFile(file, `${await readFile(file, 'utf-8')}\n\n`);
+
+    await expect(store.head()).resolves.toEqual({ seq: entry.seq, hash: entry.hash });
+  });
+});
+
+describe('AuditLogger', () => {
+  const saved = process.env.AUDIT_STORE;
+
+  beforeAll(() => {
+    process.env.AUDIT_STORE = 'memory';
+  });
+
+  afterAll(() => {
+    process.env.AUDIT_STORE = saved;
+  });
+
+  it('queues events while the store fails and writes them, in order, once it recovers', async () => {
+    const trail = getAuditTrail();
+    const append = jest.spyOn(trail, 'append').mockRejectedValueOnce(new Error('store down'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(AuditLogger.log({ action: 'first', entity: 'test' })).resolves.toBeNull();
+    expect(AuditLogger.pendingCount()).toBe(1);
+
+    const entry = await AuditLogger.log({ action: 'second', entity: 'test' });
+    expect(AuditLogger.pendingCount()).toBe(0);
+
+    const { entries } = await trail.query();
+    expect(entries.map(item => item.action)).toEqual(['second', 'first']);
+    expect(entries[1].occurredAt).toBeDefined();
+    expect(entry?.seq).toBe(entries[1].seq + 1);
+    await expect(trail.verify()).resolves.toMatchObject({ valid: true });
+
+    append.mockRestore();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,44 @@
+import { authOptions } from '@/lib/auth';
+import { getCustomerAccounts } from '@/lib/users';
+import { UserRole } from '@/lib/rbac';
+
+jest.mock('@/lib/users', () => {
+  const accounts = { getById: jest.fn() };
+  return { getCustomerAccounts: () => accounts };
+});
+
+const jwt = authOptions.callbacks!.jwt as (params: any) => Promise<any>;
+const getById = getCustomerAccounts().getById as jest.Mock;
+
+describe('authOptions jwt callback', () => {
+  const signInAt = Date.now() - 60_000;
+  const token = { id: 'user-1', userRole: UserRole.CLIENT_USER, authTime: signInAt };
+
+  beforeEach(() => getById.mockReset());
+
+  it('stamps the sign-in time on new sessions', async () => {
+    const result = await jwt({ token: {}, user: { id: 'user-1', userRole: UserRole.CLIENT_ADMIN } });
+    expect(result).toMatchObject({ id: 'user-1', userRole: UserRole.CLIENT_ADMIN });
+    expect(result.authTime).toBeGreaterThan(signInAt);
+  });
+
+  it('picks up role changes from the account', async () => {
+    getById.mockResolvedValue({ id: 'user-1', status: 'active', role: UserRole.CLIENT_ADMIN, passwordChangedAt: signInAt - 1 });
+    await expect(jwt({ token: { ...token } })).resolves.toMatchObject({ userRole: UserRole.CLIENT_ADMIN });
+  });
+
+  it('ends sessions of disabled accounts', async () => {
+    getById.mockResolvedValue({ id: 'user-1', status: 'disabled', role: UserRole.CLIENT_USER });
+    await expect(jwt({ token: { ...token } })).rejects.toThrow('session_revoked');
+  });
+
+  it('ends sessions that started before the password changed', async () => {
+    getById.mockResolvedValue({ id: 'user-1', status: 'active', role: UserRole.CLIENT_USER, passwordChangedAt: signInAt + 1 });
+    await expect(jwt({ token: { ...token } })).rejects.toThrow('session_revoked');
+  });
+
+  it('leaves sessions without a portal account alone', async () => {
+    getById.mockResolvedValue(null);
+    await expect(jwt({ token: { ...token } })).resolves.toMatchObject({ id: 'user-1' });
+  });
+});
@@ -0,0 +1,100 @@
+import { AdminMfa, AdminMfaError, MemoryAdminMfaStore, RECOVERY_CODE_COUNT, createAdminMfaStore } from '@/lib/auth/admin-mfa';
+import { StoreConfigurationError } from '@/lib/stores';
+import { generateTotp } from '@/lib/auth/totp';
+
+const STEP_MS = 30_000;
+
+describe('AdminMfa', () => {
+  const saved = { ...process.env };
+  let mfa: AdminMfa;
+
+  beforeEach(() => {
+    process.env.ADMIN_MFA_ENCRYPTION_KEY = 'test-encryption-key';
+    mfa = new AdminMfa(new MemoryAdminMfaStore());
+  });
+
+  afterAll(() => {
+    process.env = saved;
+  });
+
+  async function enroll(adminId = 'jane') {
+    const { secret } = await mfa.beginEnrollment(adminId);
+    const { recoveryCodes } = await mfa.confirmEnrollment(adminId, generateTotp(secret));
+    return { secret, recoveryCodes };
+  }
+
+  it('activates a second factor once a code from the app is confirmed', async () => {
+    const { secret, otpauthUrl } = await mfa.beginEnrollment('jane');
+    expect(otpauthUrl).toContain(`secret=${secret}`);
+    await expect(mfa.getStatus('jane')).resolves.toMatchObject({ enrolled: false, pending: true });
+    await expect(mfa.verify('jane', { code: generateTotp(secret) })).resolves.toEqual({ valid: false, reason: 'mfa_not_enrolled' });
+
+    await expect(mfa.confirmEnrollment('jane', '000000')).rejects.toMatchObject({ code: 'invalid_code', status: 401 });
+    const { recoveryCodes } = await mfa.confirmEnrollment('jane', generateTotp(secret));
+
+    expect(recoveryCodes).toHaveLength(RECOVERY_CODE_COUNT);
+    await expect(mfa.getStatus('jane')).resolves.toMatchObject({
+      enrolled: true,
+      pending: false,
+      recoveryCodesRemaining: RECOVERY_CODE_COUNT,
+    });
+  });
+
+  it('refuses to start or confirm a new enrollment for an enrolled admin', async () => {
+    const { secret } = await enroll();
+
+    await expect(mfa.beginEnrollment('jane')).rejects.toMatchObject({ code: 'already_enrolled', status: 409 });
+    await expect(mfa.confirmEnrollment('jane', generateTotp(secret, Date.now() + STEP_MS)))
+      .rejects.toBeInstanceOf(AdminMfaError);
+    await expect(mfa.isEnrolled('jane')).resolves.toBe(true);
+  });
+
+  it('accepts each TOTP code once', async () => {
+    const { secret } = await enroll();
+    const next = generateTotp(secret, Date.now() + STEP_MS);
+
+    await expect(mfa.verify('jane', { code: next })).resolves.toMatchObject({ valid: true, method: 'totp' });
+    await expect(mfa.verify('jane', { code: next })).resolves.toEqual({ valid: false, reason: 'invalid_totp_code' });
+  });
+
+  it('spends recovery codes', async () => {
+    const { recoveryCodes } = await enroll();
+
+    await expect(mfa.verify('jane', { recoveryCode: recoveryCodes[0].toUpperCase() })).resolves.toEqual({
+      valid: true,
+      method: 'recovery_code',
+      recoveryCodesRemaining: RECOVERY_CODE_COUNT - 1,
+    });
+    await expect(mfa.verify('jane', { recoveryCode: recoveryCodes[0] })).resolves.toEqual({
+      valid: false,
+      reason: 'invalid_recovery_code',
+    });
+  });
+
+  it('needs a current code to turn the second factor off', async () => {
+    const { secret } = await enroll();
+
+    await expect(mfa.disable('jane', '000000')).rejects.toMatchObject({ status: 401 });
+    await mfa.disable('jane', generateTotp(secret, Date.now() + STEP_MS));
+    await expect(mfa.isEnrolled('jane')).resolves.toBe(false);
+  });
+});
+
+describe('createAdminMfaStore', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('refuses stores that lose enrollments in production', () => {
+    const env = process.env as Record<string, string | undefined>;
+    ['UPSTASH_REDIS_REST_URL', 'UPSTASH_REDIS_REST_TOKEN', 'KV_REST_API_URL', 'KV_REST_API_TOKEN'].forEach(key => { delete env[key]; });
+    env.NODE_ENV = 'production';
+    env.VERCEL = '1';
+
+    expect(() => createAdminMfaStore()).toThrow(StoreConfigurationError);
+    env.ADMIN_MFA_STORE = 'memory';
+    expect(() => createAdminMfaStore()).toThrow(StoreConfigurationError);
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  createAdminSession,
+  refreshAdminSession,
+  revokeAdminSession,
+  verifyAdminAccessToken,
+} from '@/lib/auth/admin-session';
+
+const HASH = '$2b$12$xaLFQVnn4Jpm2o3MmAjO4OHSbPv/sSjCV4wGZcjhm4Fcddi9P0RHK';
+
+function configureAdmins(...admins: Array<{ id: string; disabled?: boolean }>) {
+  process.env.ADMIN_USERS = JSON.stringify(admins.map(admin => ({ ...admin, passwordHash: HASH })));
+}
+
+describe('admin sessions', () => {
+  const saved = { ...process.env };
+
+  beforeEach(() => {
+    process.env.ADMIN_SESSION_SECRET = 'x'.repeat(32);
+    configureAdmins({ id: 'jane' });
+  });
+
+  afterAll(() => {
+    process.env = saved;
+  });
+
+  it('accepts access tokens of live sessions', async () => {
+    const { accessToken } = await createAdminSession('jane', { mfa: true });
+    await expect(verifyAdminAccessToken(accessToken)).resolves.toMatchObject({
+      valid: true,
+      claims: { sub: 'jane', typ: 'access', mfa: true },
+    });
+  });
+
+  it('rejects tokens of revoked sessions', async () => {
+    const { accessToken, refreshToken, session } = await createAdminSession('jane');
+    await revokeAdminSession(session.id);
+
+    await expect(verifyAdminAccessToken(accessToken)).resolves.toEqual({ valid: false, reason: 'session_revoked' });
+    await expect(refreshAdminSession(refreshToken)).resolves.toEqual({ error: 'session_revoked' });
+  });
+
+  it('rotates refresh tokens and revokes the session when an old one comes back', async () => {
+    const first = await createAdminSession('jane');
+    const second = await refreshAdminSession(first.refreshToken);
+    expect('refreshToken' in second).toBe(true);
+
+    await expect(refreshAdminSession(first.refreshToken)).resolves.toEqual({ error: 'refresh_token_reused' });
+    await expect(verifyAdminAccessToken(first.accessToken)).resolves.toMatchObject({ valid: false });
+  });
+
+  it('ends sessions of admins that were disabled or removed', async () => {
+    const { accessToken, refreshToken } = await createAdminSession('jane');
+
+    configureAdmins({ id: 'jane', disabled: true });
+    await expect(verifyAdminAccessToken(accessToken)).resolves.toEqual({ valid: false, reason: 'admin_disabled' });
+
+    configureAdmins({ id: 'john' });
+    await expect(refreshAdminSession(refreshToken)).resolves.toEqual({ error: 'admin_disabled' });
+
+    // Re-enabling the admin doesn't bring the refreshed-away session back
+    configureAdmins({ id: 'jane' });
+    await expect(verifyAdminAccessToken(accessToken)).resolves.toEqual({ valid: false, reason: 'session_revoked' });
+  });
+});
@@ -0,0 +1,140 @@
+import { SITE_URL } from '@/lib/constants';
+import { getBlogFeed, renderAtom, renderJsonFeed, renderRss, type Feed, type FeedItem } from '@/lib/blog/feed';
+
+function item(overrides: Partial<FeedItem> = {}): FeedItem {
+  return {
+    id: `${SITE_URL}/blog/tolerances`,
+    url: `${SITE_URL}/blog/tolerances`,
+    title: 'Tolerances & Fits',
+    summary: 'Picking <fits> that work',
+    html: '<p>Shaft &amp; hole</p>',
+    published: '2026-03-01T09:00:00.000Z',
+    updated: '2026-03-02T09:00:00.000Z',
+    author: 'IdEinstein',
+    categories: ['Engineering', 'GD&T'],
+    image: { url: `${SITE_URL}/images/blog/gdt-guide.jpg`, type: 'image/jpeg', length: 2048 },
+    ...overrides,
+  };
+}
+
+function feed(items: FeedItem[] = [item()]): Feed {
+  return {
+    title: 'IdEinstein Engineering Blog',
+    description: 'Engineering notes',
+    homeUrl: `${SITE_URL}/blog`,
+    feedUrls: {
+      rss: `${SITE_URL}/blog/feed.xml`,
+      atom: `${SITE_URL}/blog/atom.xml`,
+      json: `${SITE_URL}/blog/feed.json`,
+    },
+    updated: '2026-03-02T09:00:00.000Z',
+    items,
+  };
+}
+
+describe('renderRss', () => {
+  it('writes the channel and escaped items', () => {
+    const rss = renderRss(feed());
+
+    expect(rss).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<rss version="2.0"/);
+    expect(rss).toContain(`<atom:link href="${SITE_URL}/blog/feed.xml" rel="self" type="application/rss+xml"/>`);
+    expect(rss).toContain('<title>Tolerances &amp; Fits</title>');
+    expect(rss).toContain('<description>Picking &lt;fits&gt; that work</description>');
+    expect(rss).toContain('<pubDate>Sun, 01 Mar 2026 09:00:00 GMT</pubDate>');
+    expect(rss).toContain('<category>GD&amp;T</category>');
+    expect(rss).toContain('<content:encoded><![CDATA[<p>Shaft &amp; hole</p>]]></content:encoded>');
+    expect(rss).toContain(`<enclosure url="${SITE_URL}/images/blog/gdt-guide.jpg" length="2048" type="image/jpeg"/>`);
+  });
+
+  it('drops characters XML does not allow and keeps the rest', () => {
+    const rss = renderRss(feed([item({
+      title: 'Bad\u0000 \u0008byte\u000B\u001F \uFFFE\uFFFF lone\uD800 é \u{1F527}\ttab',
+      html: '<p>a\u0001b\u001Fc</p>',
+    })]));
+
+    expect(rss).toContain('<title>Bad byte  lone é \u{1F527}\ttab</title>');
+    expect(rss).toContain('<![CDATA[<p>abc</p>]]>');
+  });
+
+  it('splits a literal CDATA end across two sections', () => {
+    const rss = renderRss(feed([item({ html: '<code>a[b[0]]>c</code>' })]));
+    expect(rss).toContain('<![CDATA[<code>a[b[0]]]]><![CDATA[>c</code>]]>');
+  });
+
+  it('leaves out the enclosure when the post has no image', () => {
+    expect(renderRss(feed([item({ image: null })]))).not.toContain('<enclosure');
+  });
+});
+
+describe('renderAtom', () => {
+  it('writes escaped entries with the HTML content as text', () => {
+    const atom = renderAtom(feed());
+
+    expect(atom).toContain(`<id>${SITE_URL}/blog/atom.xml</id>`);
+    expect(atom).toContain('<published>2026-03-01T09:00:00.000Z</published>');
+    expect(atom).toContain('<category term="GD&amp;T"/>');
+    expect(atom).toContain('<content type="html">&lt;p&gt;Shaft &amp;amp; hole&lt;/p&gt;</content>');
+    expect(atom).toContain(`<link rel="enclosure" type="image/jpeg" href="${SITE_URL}/images/blog/gdt-guide.jpg" length="2048"/>`);
+  });
+
+  it('omits the enclosure length when it is unknown', () => {
+    const atom = renderAtom(feed([item({ image: { url: 'https://cdn.example.com/a.png', type: 'image/png', length: 0 } })]));
+    expect(atom).toContain('<link rel="enclosure" type="image/png" href="https://cdn.example.com/a.png"/>');
+  });
+
+  it('drops characters XML does not allow', () => {
+    expect(renderAtom(feed([item({ summary: 'a\u0002b' })]))).toContain('<summary>ab</summary>');
+  });
+});
+
+describe('renderJsonFeed', () => {
+  it('writes JSON Feed 1.1', () => {
+    const json = JSON.parse(renderJsonFeed(feed()));
+
+    expect(json).toMatchObject({
+      version: 'https://jsonfeed.org/version/1.1',
+      feed_url: `${SITE_URL}/blog/feed.json`,
+      home_page_url: `${SITE_URL}/blog`,
+    });
+    expect(json.items[0]).toEqual({
+      id: `${SITE_URL}/blog/tolerances`,
+      url: `${SITE_URL}/blog/tolerances`,
+      title: 'Tolerances & Fits',
+      summary: 'Picking <fits> that work',
+      content_html: '<p>Shaft &amp; hole</p>',
+      date_published: '2026-03-01T09:00:00.000Z',
+      date_modified: '2026-03-02T09:00:00.000Z',
+      authors: [{ name: 'IdEinstein' }],
+      tags: ['Engineering', 'GD&T'],
+      image: `${SITE_URL}/images/blog/gdt-guide.jpg`,
+      attachments: [{ url: `${SITE_URL}/images/blog/gdt-guide.jpg`, mime_type: 'image/jpeg', size_in_bytes: 2048 }],
+    });
+  });
+
+  it('leaves out unknown sizes and missing images', () => {
+    const json = JSON.parse(renderJsonFeed(feed([
+      item({ image: { url: 'https://cdn.example.com/a.png', type: 'image/png', length: 0 } }),
+      item({ image: null }),
+    ])));
+
+    expect(json.items[0].attachments).toEqual([{ url: 'https://cdn.example.com/a.png', mime_type: 'image/png' }]);
+    expect(json.items[1]).not.toHaveProperty('image');
+    expect(json.items[1]).not.toHaveProperty('attachments');
+  });
+});
+
+describe('getBlogFeed', () => {
+  it('makes every link and image in the posts absolute', async () => {
+    const blog = await getBlogFeed();
+
+    expect(blog!.items.length).toBeGreaterThan(0);
+    for (const entry of blog!.items) {
+      expect(entry.url.startsWith(`${SITE_URL}/blog/`)).toBe(true);
+      expect(entry.html).not.toMatch(/\b(href|src)="(?![a-z][a-z0-9+.-]*:)/i);
+    }
+  });
+
+  it('has no feed for a category without posts', async () => {
+    expect(await getBlogFeed('no-such-category')).toBeNull();
+  });
+});
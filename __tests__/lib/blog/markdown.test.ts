@@ -0,0 +1,103 @@
+import { BLOG_EMBEDS } from '@/lib/blog/embeds';
+import { MarkdownEmbedError, renderMarkdown, safeImageUrl, safeUrl } from '@/lib/blog/markdown';
+
+describe('safeUrl', () => {
+  it('allows the web, email and paths on this site', () => {
+    expect(safeUrl('https://example.com/a?b=1#c')).toBe('https://example.com/a?b=1#c');
+    expect(safeUrl('HTTP://example.com')).toBe('HTTP://example.com');
+    expect(safeUrl('mailto:info@example.com')).toBe('mailto:info@example.com');
+    expect(safeUrl('  /services/cad-modeling  ')).toBe('/services/cad-modeling');
+    expect(safeUrl('/')).toBe('/');
+  });
+
+  it.each([
+    'javascript:alert(1)',
+    'JaVaScRiPt:alert(1)',
+    'java\tscript:alert(1)',
+    'java\nscript:alert(1)',
+    'java\rscript:alert(1)',
+    '\x01javascript:alert(1)',
+    'javascript\x00:alert(1)',
+    '/images/a\x7f.png',
+    'data:text/html,<script>alert(1)</script>',
+    'vbscript:msgbox(1)',
+    '//evil.example',
+    '/\\evil.example',
+    'https:evil.example',
+    'images/relative.png',
+    '#section',
+    '',
+  ])('refuses %j', url => {
+    expect(safeUrl(url)).toBeNull();
+  });
+
+  it('keeps mailto out of image sources', () => {
+    expect(safeImageUrl('mailto:info@example.com')).toBeNull();
+    expect(safeImageUrl('/images/blog/a.jpg')).toBe('/images/blog/a.jpg');
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('renders headings with anchors and collects them for the table of contents', () => {
+    const { html, headings } = renderMarkdown('# Title\n\n## GD&T Basics\n\n### Datums');
+    // The page title is the only h1
+    expect(html).toContain('<h2 id="title">Title');
+    expect(html).toContain('<h2 id="gd-t-basics">GD&amp;T Basics<a href="#gd-t-basics" class="heading-anchor"');
+    expect(headings).toEqual([
+      { id: 'title', text: 'Title', level: 2 },
+      { id: 'gd-t-basics', text: 'GD&T Basics', level: 2 },
+      { id: 'datums', text: 'Datums', level: 3 },
+    ]);
+  });
+
+  it('shows raw HTML as text', () => {
+    const { html } = renderMarkdown('<script>alert(1)</script>\n\n<img src=x onerror=alert(1)>');
+    expect(html).not.toMatch(/<script|<img/);
+    expect(html).toContain('&lt;script&gt;');
+  });
+
+  it('renders safe links and drops unsafe ones to their text', () => {
+    const { html } = renderMarkdown('[Docs](https://example.com "Guide") and [bad](javascript:alert(1)) and [tab](java\tscript:alert(1))');
+    expect(html).toContain('<a href="https://example.com" title="Guide" target="_blank" rel="noopener noreferrer">Docs</a>');
+    expect(html).not.toContain('javascript');
+    expect(html).not.toMatch(/href="java/);
+    expect(html).toContain('bad');
+  });
+
+  it('renders images with safe sources only', () => {
+    const { html } = renderMarkdown('![Part](/images/part.png) ![x](javascript:alert(1)) ![y](//evil.example/a.png)');
+    expect(html).toContain('<img src="/images/part.png" alt="Part" loading="lazy">');
+    expect(html.match(/<img/g)).toHaveLength(1);
+  });
+
+  it('escapes code blocks and inline code', () => {
+    const { html } = renderMarkdown('Use `<b>` tags:\n\n```html\n<b onclick="x">bold</b>\n```');
+    expect(html).toContain('<code>&lt;b&gt;</code>');
+    expect(html).toContain('<pre><code class="language-html">&lt;b onclick=&quot;x&quot;&gt;bold&lt;/b&gt;</code></pre>');
+  });
+
+  it('renders lists, emphasis and tables', () => {
+    const { html } = renderMarkdown('- **bold** item\n- _em_ item\n\n| A | B |\n| - | - |\n| 1 | 2 |');
+    expect(html).toContain('<li><strong>bold</strong> item</li>');
+    expect(html).toContain('<em>em</em>');
+    expect(html).toMatch(/<table>[\s\S]*<td>1<\/td>[\s\S]*<\/table>/);
+  });
+
+  describe('Gallery', () => {
+    const render = (body: string) => renderMarkdown(`<Gallery columns="2">\n${body}\n</Gallery>`, { embeds: BLOG_EMBEDS });
+
+    it('renders one figure per image', () => {
+      const { html } = render('![Fixture](/images/blog/a.jpg "Welding fixture")\n![Jig](https://cdn.example.com/b.jpg)');
+      expect(html).toContain('<div class="blog-gallery blog-gallery-2">');
+      expect(html.match(/<figure>/g)).toHaveLength(2);
+      expect(html).toContain('<figcaption>Welding fixture</figcaption>');
+    });
+
+    it.each(['javascript:alert(1)', 'java\tscript:alert(1)', '//evil.example/a.jpg', 'mailto:a@example.com'])(
+      'refuses the image source %j',
+      url => {
+        expect(() => render(`![Alt](${url})`)).toThrow(MarkdownEmbedError);
+      }
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import { analyzeCadFile, cadFormatOf, parseStl, summarizeCadAnalyses, type Triangle } from '@/lib/cad';
+
+/** Closed 10 mm cube, wound outwards */
+function cube(size = 10): Triangle[] {
+  const v = [
+    [0, 0, 0], [size, 0, 0], [size, size, 0], [0, size, 0],
+    [0, 0, size], [size, 0, size], [size, size, size], [0, size, size],
+  ];
+  const faces = [
+    [0, 2, 1], [0, 3, 2], // bottom
+    [4, 5, 6], [4, 6, 7], // top
+    [0, 1, 5], [0, 5, 4], // front
+    [2, 3, 7], [2, 7, 6], // back
+    [1, 2, 6], [1, 6, 5], // right
+    [3, 0, 4], [3, 4, 7], // left
+  ];
+  return faces.map(face => face.flatMap(index => v[index]) as Triangle);
+}
+
+function binaryStl(triangles: Triangle[], header = 'binary cube'): Uint8Array {
+  const bytes = new Uint8Array(84 + triangles.length * 50);
+  bytes.set(new TextEncoder().encode(header));
+  const view = new DataView(bytes.buffer);
+  view.setUint32(80, triangles.length, true);
+  triangles.forEach((t, index) => {
+    t.forEach((value, i) => view.setFloat32(84 + index * 50 + 12 + i * 4, value, true));
+  });
+  return bytes;
+}
+
+function asciiStl(triangles: Triangle[]): Uint8Array {
+  const facets = triangles.map(t => [
+    '  facet normal 0 0 0',
+    '    outer loop',
+    ...[0, 3, 6].map(i => `      vertex ${t[i]} ${t[i + 1]} ${t[i + 2]}`),
+    '    endloop',
+    '  endfacet',
+  ].join('\n'));
+  return new TextEncoder().encode(['solid cube', ...facets, 'endsolid cube', ''].join('\n'));
+}
+
+/** Stream the bytes in small chunks so records and lines straddle chunk boundaries */
+function streamOf(bytes: Uint8Array, chunk = 37): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.byteLength) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + chunk));
+      offset += chunk;
+    },
+  });
+}
+
+describe('parseStl', () => {
+  it.each([
+    ['binary', binaryStl(cube())],
+    ['ascii', asciiStl(cube())],
+  ])('measures a cube in %s STL', async (encoding, bytes) => {
+    const { metadata, sample } = await parseStl(streamOf(bytes), bytes.byteLength);
+
+    expect(metadata).toMatchObject({
+      format: 'stl',
+      encoding,
+      triangles: 12,
+      boundingBox: { min: [0, 0, 0], max: [10, 10, 10], size: [10, 10, 10] },
+      watertight: true,
+    });
+    expect(metadata.volume).toBeCloseTo(1000);
+    expect(metadata.surfaceArea).toBeCloseTo(600);
+    expect(sample).toHaveLength(12);
+  });
+
+  it('reports an open mesh as not watertight', async () => {
+    const bytes = binaryStl(cube().slice(2));
+    const { metadata } = await parseStl(streamOf(bytes), bytes.byteLength);
+    expect(metadata).toMatchObject({ triangles: 10, watertight: false });
+  });
+
+  it('keeps the sample within its budget', async () => {
+    const bytes = binaryStl(cube());
+    const { sample } = await parseStl(streamOf(bytes), bytes.byteLength, 4);
+    expect(sample.length).toBeLessThanOrEqual(4);
+  });
+
+  it('rejects a binary file that was cut short', async () => {
+    const bytes = binaryStl(cube());
+    const truncated = bytes.slice(0, bytes.byteLength - 70);
+    await expect(parseStl(streamOf(truncated), truncated.byteLength)).rejects.toThrow('Not an STL file');
+
+    // The size matches the header, but the stream ends early
+    await expect(parseStl(streamOf(truncated), bytes.byteLength)).rejects.toThrow('Truncated STL file: 10 of 12 triangles');
+  });
+
+  it.each([
+    ['binary', (triangles: Triangle[]) => binaryStl(triangles)],
+    ['ascii', (triangles: Triangle[]) => asciiStl(triangles)],
+  ])('drops %s facets with non-finite vertices', async (_encoding, build) => {
+    const triangles = cube();
+    triangles.push([0, 0, 0, NaN, 0, 0, 0, 0, 1] as Triangle, [0, 0, 0, Infinity, 0, 0, 0, 0, -Infinity] as Triangle);
+    const bytes = build(triangles);
+
+    const { metadata } = await parseStl(streamOf(bytes), bytes.byteLength);
+    expect(metadata.triangles).toBe(12);
+    expect(metadata.boundingBox.size).toEqual([10, 10, 10]);
+    expect(metadata.volume).toBeCloseTo(1000);
+  });
+
+  it('refuses files that are neither binary nor ASCII STL', async () => {
+    const bytes = new TextEncoder().encode('ISO-10303-21;\nHEADER;\n'.padEnd(200, ' '));
+    await expect(parseStl(streamOf(bytes), bytes.byteLength)).rejects.toThrow('Not an STL file');
+  });
+});
+
+describe('analyzeCadFile', () => {
+  it('summarises an STL for the CRM lead and skips other files', async () => {
+    const bytes = asciiStl(cube());
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const analysis = await analyzeCadFile({ filename: 'cube.STL', size: bytes.byteLength, stream: () => streamOf(bytes) });
+    expect(analysis).toMatchObject({ filename: 'cube.STL', metadata: { triangles: 12 } });
+    expect(summarizeCadAnalyses([{ filename: 'cube.STL', metadata: analysis!.metadata }]))
+      .toBe('cube.STL: STL ascii, 12 triangles, 10 x 10 x 10 mm, 1 cm³, 6 cm²');
+
+    expect(cadFormatOf('drawing.pdf')).toBeNull();
+    expect(await analyzeCadFile({ filename: 'drawing.pdf', size: 0, stream: () => streamOf(new Uint8Array(0)) })).toBeNull();
+    jest.restoreAllMocks();
+  });
+
+  it('returns null for a file that fails to parse', async () => {
+    const bytes = new TextEncoder().encode('not a mesh at all');
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(await analyzeCadFile({ filename: 'broken.stl', size: bytes.byteLength, stream: () => streamOf(bytes) })).toBeNull();
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,169 @@
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { NextResponse } from 'next/server';
+import {
+  FileIdempotencyStore,
+  fingerprintSubmission,
+  IDEMPOTENT_REPLAY_HEADER,
+  IdempotencyGuard,
+  MemoryIdempotencyStore,
+  type IdempotencyRecord,
+  type IdempotencyStore,
+} from '@/lib/idempotency';
+
+const PAYLOAD = { name: 'Ada', email: 'ada@example.com', message: 'Need a quote' };
+
+function submission(submissionId: string | null, payload: unknown = PAYLOAD) {
+  return { form: 'contact' as const, submissionId, payload };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('IdempotencyGuard', () => {
+  let guard: IdempotencyGuard;
+  let handler: jest.Mock<Promise<NextResponse>, []>;
+
+  beforeEach(() => {
+    guard = new IdempotencyGuard(new MemoryIdempotencyStore());
+    handler = jest.fn(async () => NextResponse.json({ ok: true, id: handler.mock.calls.length }, { status: 201 }));
+  });
+
+  it('runs a submission once and replays its response', async () => {
+    const first = await guard.run(submission('sub-1'), handler);
+    const second = await guard.run(submission('sub-1'), handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(second.status).toBe(201);
+    expect(second.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBe('true');
+    expect(await second.json()).toEqual(await first.json());
+  });
+
+  it('refuses a reused submission_id with a different payload', async () => {
+    await guard.run(submission('sub-1'), handler);
+    const response = await guard.run(submission('sub-1', { ...PAYLOAD, message: 'Something else' }), handler);
+
+    expect(response.status).toBe(422);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('answers 409 while the first request is still running', async () => {
+    let finish!: () => void;
+    const slow = jest.fn(() => new Promise<NextResponse>(resolve => {
+      finish = () => resolve(NextResponse.json({ ok: true }));
+    }));
+
+    const first = guard.run(submission('sub-1'), slow);
+    await sleep(0);
+    const second = await guard.run(submission('sub-1'), handler);
+    finish();
+
+    expect(second.status).toBe(409);
+    expect(second.headers.get('Retry-After')).toBeTruthy();
+    expect((await first).status).toBe(200);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('lets failed submissions be sent again under the same id', async () => {
+    const failing = jest.fn(async () => NextResponse.json({ error: 'invalid' }, { status: 400 }));
+    expect((await guard.run(submission('sub-1'), failing)).status).toBe(400);
+
+    const throwing = jest.fn(async (): Promise<NextResponse> => {
+      throw new Error('crm down');
+    });
+    await expect(guard.run(submission('sub-1'), throwing)).rejects.toThrow('crm down');
+
+    expect((await guard.run(submission('sub-1'), handler)).status).toBe(201);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs submissions without an id every time', async () => {
+    await guard.run(submission(null), handler);
+    await guard.run(submission(null), handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the claim while a handler outlives the pending ttl', async () => {
+    guard = new IdempotencyGuard(new MemoryIdempotencyStore(), 60_000, 40);
+    const slow = jest.fn(async () => {
+      await sleep(150);
+      return NextResponse.json({ ok: true });
+    });
+
+    const first = guard.run(submission('sub-1'), slow);
+    await sleep(100);
+    const retry = await guard.run(submission('sub-1'), handler);
+
+    expect(retry.status).toBe(409);
+    expect((await first).status).toBe(200);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('fingerprintSubmission', () => {
+  it('ignores key order and bot-guard fields', () => {
+    expect(fingerprintSubmission({ b: 1, a: { d: 2, c: 3 }, form_token: 'x', website: '' }))
+      .toBe(fingerprintSubmission({ a: { c: 3, d: 2 }, b: 1, form_token: 'y' }));
+  });
+
+  it('covers attached files', () => {
+    const file = new File(['pdf'], 'drawing.pdf', { type: 'application/pdf' });
+    expect(fingerprintSubmission(PAYLOAD, [file])).not.toBe(fingerprintSubmission(PAYLOAD));
+  });
+});
+
+type StoreSetup = () => Promise<{ store: IdempotencyStore; cleanup: () => Promise<void> }>;
+
+describe.each<[string, StoreSetup]>([
+  ['MemoryIdempotencyStore', async () => ({ store: new MemoryIdempotencyStore(), cleanup: async () => undefined })],
+  ['FileIdempotencyStore', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'idempotency-'));
+    return { store: new FileIdempotencyStore(dir), cleanup: () => rm(dir, { recursive: true, force: true }) };
+  }],
+])('%s', (_name, setup) => {
+  const claim = (overrides: Partial<IdempotencyRecord> = {}): IdempotencyRecord => ({
+    key: 'contact:sub-1',
+    fingerprint: 'abc',
+    state: 'pending',
+    createdAt: Date.now(),
+    expiresAt: Date.now() + 60_000,
+    claimId: 'owner',
+    ...overrides,
+  });
+
+  it('claims once until released', async () => {
+    const { store, cleanup } = await setup();
+    try {
+      expect(await store.claim(claim())).toBeNull();
+      expect(await store.claim(claim({ claimId: 'other' }))).toMatchObject({ claimId: 'owner' });
+      await store.release('contact:sub-1');
+      expect(await store.claim(claim({ claimId: 'other' }))).toBeNull();
+    } finally {
+      await cleanup();
+    }
+  });
+
+  it('takes over expired claims', async () => {
+    const { store, cleanup } = await setup();
+    try {
+      await store.claim(claim({ expiresAt: Date.now() - 1 }));
+      expect(await store.claim(claim({ claimId: 'other' }))).toBeNull();
+    } finally {
+      await cleanup();
+    }
+  });
+
+  it('only extends the claim of the request holding it', async () => {
+    const { store, cleanup } = await setup();
+    try {
+      await store.claim(claim());
+      expect(await store.refresh(claim({ claimId: 'other' }))).toBe(false);
+      expect(await store.refresh(claim({ expiresAt: Date.now() + 120_000 }))).toBe(true);
+
+      await store.save(claim({ state: 'completed', claimId: undefined }));
+      expect(await store.refresh(claim())).toBe(false);
+    } finally {
+      await cleanup();
+    }
+  });
+});
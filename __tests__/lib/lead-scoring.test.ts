@@ -0,0 +1,53 @@
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  DEFAULT_SCORING_RULESET,
+  FileLeadScoringStore,
+  LeadScoringEngine,
+  MemoryLeadScoringStore,
+  type LeadScoringStore,
+} from '@/lib/lead-scoring';
+
+const EDIT = { thresholds: DEFAULT_SCORING_RULESET.thresholds, rules: DEFAULT_SCORING_RULESET.rules };
+
+describe.each<[string, () => Promise<{ store: LeadScoringStore; cleanup: () => Promise<void> }>]>([
+  ['MemoryLeadScoringStore', async () => ({ store: new MemoryLeadScoringStore(), cleanup: async () => undefined })],
+  ['FileLeadScoringStore', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'lead-scoring-'));
+    return { store: new FileLeadScoringStore(dir), cleanup: () => rm(dir, { recursive: true, force: true }) };
+  }],
+])('LeadScoringEngine.save with %s', (_name, setup) => {
+  it('lets only one of two concurrent edits of the same version through', async () => {
+    const { store, cleanup } = await setup();
+    try {
+      // Separate engines, as on two instances
+      const results = await Promise.allSettled([
+        new LeadScoringEngine(store, 0).save(EDIT, 0, 'admin-a'),
+        new LeadScoringEngine(store, 0).save(EDIT, 0, 'admin-b'),
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(results.find(result => result.status === 'rejected')).toMatchObject({
+        reason: { code: 'version_conflict', status: 409 },
+      });
+      expect(await store.get()).toMatchObject({ version: 1 });
+    } finally {
+      await cleanup();
+    }
+  });
+
+  it('refuses saves based on an older version', async () => {
+    const { store, cleanup } = await setup();
+    try {
+      const engine = new LeadScoringEngine(store, 0);
+      await engine.save(EDIT, 0, 'admin-a');
+      await engine.save(EDIT, 1, 'admin-a');
+
+      await expect(engine.save(EDIT, 1, 'admin-b')).rejects.toMatchObject({ code: 'version_conflict' });
+      expect(await engine.rules()).toMatchObject({ version: 2, updatedBy: 'admin-a' });
+    } finally {
+      await cleanup();
+    }
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  hashIp,
+  MemoryNewsletterStore,
+  NEWSLETTER_CONSENT_VERSION,
+  NewsletterService,
+  requestNewsletterOptIn,
+} from '@/lib/newsletter';
+import { sendNewsletterConfirmation, sendWelcomeEmail } from '@/lib/email';
+import { getOutbox } from '@/lib/outbox';
+
+jest.mock('@/lib/email', () => ({
+  sendNewsletterConfirmation: jest.fn(async () => ({ success: true })),
+  sendWelcomeEmail: jest.fn(async () => ({ success: true })),
+}));
+
+const outbox = {
+  enqueue: jest.fn(async () => undefined),
+  dispatch: jest.fn(async () => undefined),
+};
+
+jest.mock('@/lib/outbox', () => ({
+  getOutbox: jest.fn(() => outbox),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CONTEXT = { ip: '203.0.113.7', userAgent: 'Mozilla/5.0' };
+
+/** Token from the link in the most recent email sent through `send` */
+function lastToken(send: unknown, field: 'link' | 'manageLink' = 'link'): string {
+  const calls = (send as jest.Mock).mock.calls;
+  return new URL(calls[calls.length - 1][0][field]).searchParams.get('token')!;
+}
+
+/** Step kinds of every outbox entry so far */
+function enqueuedKinds() {
+  return (outbox.enqueue.mock.calls as unknown as Array<[{ steps: Array<{ kind: string }> }]>)
+    .map(([entry]) => entry.steps.map(step => step.kind));
+}
+
+describe('NewsletterService', () => {
+  const env = process.env as Record<string, string | undefined>;
+  const saved = env.SIGNING_SECRET;
+  let now: number;
+  let store: MemoryNewsletterStore;
+  let newsletter: NewsletterService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    env.SIGNING_SECRET = 'n'.repeat(32);
+    now = 1_750_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    store = new MemoryNewsletterStore();
+    newsletter = new NewsletterService(store, { baseUrl: 'https://site.test', listKey: 'list-1' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    env.SIGNING_SECRET = saved;
+  });
+
+  it('only emails a confirmation link when someone subscribes', async () => {
+    const subscription = await newsletter.requestSubscription(
+      { email: ' Ada@Example.com ', name: 'Ada Lovelace', form: 'newsletter', wordingVersion: '1999-01' },
+      CONTEXT
+    );
+
+    expect(subscription).toMatchObject({
+      email: 'ada@example.com',
+      status: 'pending',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      wordingVersion: NEWSLETTER_CONSENT_VERSION,
+      topics: ['insights', 'case-studies', 'service-updates'],
+    });
+    expect(new URL((sendNewsletterConfirmation as jest.Mock).mock.calls[0][0].link).pathname).toBe('/newsletter/confirm');
+    expect(outbox.enqueue).not.toHaveBeenCalled();
+
+    const [consent] = await newsletter.consents('ada@example.com');
+    expect(consent).toMatchObject({ action: 'requested', form: 'newsletter', wordingVersion: NEWSLETTER_CONSENT_VERSION });
+    expect(consent.ipHash).toBe(hashIp(CONTEXT.ip));
+    expect(JSON.stringify(consent)).not.toContain(CONTEXT.ip);
+  });
+
+  it('subscribes in Campaigns and the CRM once the link is confirmed', async () => {
+    await newsletter.requestSubscription({ email: 'ada@example.com', form: 'newsletter' });
+    now += 60_000;
+
+    const confirmed = await newsletter.confirm(lastToken(sendNewsletterConfirmation), CONTEXT);
+    expect(confirmed).toMatchObject({ status: 'subscribed', confirmedAt: now });
+    expect(enqueuedKinds()).toEqual([['crm.upsertLead', 'campaigns.subscribe']]);
+    expect(sendWelcomeEmail).toHaveBeenCalledTimes(1);
+    expect((await newsletter.consents('ada@example.com')).map(record => record.action)).toEqual(['requested', 'confirmed']);
+
+    // Confirming again changes nothing
+    await newsletter.confirm(lastToken(sendNewsletterConfirmation), CONTEXT);
+    expect(outbox.enqueue).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves a subscribed address alone and throttles repeated requests', async () => {
+    await newsletter.requestSubscription({ email: 'ada@example.com', form: 'newsletter' });
+    await newsletter.requestSubscription({ email: 'ada@example.com', form: 'contact' });
+    expect(sendNewsletterConfirmation).toHaveBeenCalledTimes(1);
+
+    now += 11 * 60 * 1000;
+    const first = lastToken(sendNewsletterConfirmation);
+    await newsletter.requestSubscription({ email: 'ada@example.com', form: 'contact' });
+    expect(sendNewsletterConfirmation).toHaveBeenCalledTimes(2);
+
+    // Only the latest link confirms
+    await expect(newsletter.confirm(first)).rejects.toMatchObject({ code: 'link_superseded', status: 410 });
+    await newsletter.confirm(lastToken(sendNewsletterConfirmation));
+
+    await newsletter.requestSubscription({ email: 'ada@example.com', form: 'quote' });
+    expect(sendNewsletterConfirmation).toHaveBeenCalledTimes(2);
+  });
+
+  it('refuses expired, edited and wrong-purpose links', async () => {
+    await newsletter.requestSubscription({ email: 'ada@example.com', form: 'newsletter' });
+    const token = lastToken(sendNewsletterConfirmation);
+    const manage = new URL(newsletter.manageLink('ada@example.com')).searchParams.get('token')!;
+
+    await expect(newsletter.confirm(`${token}x`)).rejects.toMatchObject({ code: 'invalid_token' });
+    await expect(newsletter.confirm(manage)).rejects.toMatchObject({ code: 'invalid_token' });
+    await expect(newsletter.preferences(token)).rejects.toMatchObject({ code: 'invalid_token' });
+
+    now += 8 * DAY_MS;
+    await expect(newsletter.confirm(token)).rejects.toMatchObject({ code: 'link_expired', status: 410 });
+    expect((await store.get('ada@example.com'))?.status).toBe('pending');
+  });
+
+  it('updates topics only for confirmed subscribers', async () => {
+    await newsletter.requestSubscription({ email: 'ada@example.com', form: 'newsletter' });
+    const manage = new URL(newsletter.manageLink('ada@example.com')).searchParams.get('token')!;
+    await expect(newsletter.updatePreferences(manage, ['insights'])).rejects.toMatchObject({ code: 'not_subscribed' });
+
+    await newsletter.confirm(lastToken(sendNewsletterConfirmation));
+    expect((await newsletter.updatePreferences(manage, ['insights'])).topics).toEqual(['insights']);
+    expect((await newsletter.consents('ada@example.com')).map(record => record.action))
+      .toEqual(['requested', 'confirmed', 'preferences_updated']);
+  });
+
+  it('unsubscribes from Campaigns and the CRM', async () => {
+    await newsletter.requestSubscription({ email: 'ada@example.com', form: 'newsletter' });
+    await newsletter.confirm(lastToken(sendNewsletterConfirmation));
+
+    const unsubscribed = await newsletter.unsubscribe(lastToken(sendWelcomeEmail, 'manageLink'), CONTEXT);
+    expect(unsubscribed).toMatchObject({ status: 'unsubscribed', unsubscribedAt: now });
+    expect(enqueuedKinds()[1]).toEqual(['crm.upsertLead', 'campaigns.unsubscribe']);
+    expect((await newsletter.consents('ada@example.com')).map(record => record.action))
+      .toEqual(['requested', 'confirmed', 'unsubscribed']);
+  });
+
+  it('stops a pending confirmation link from working after an unsubscribe', async () => {
+    await newsletter.requestSubscription({ email: 'ada@example.com', form: 'newsletter' });
+    await newsletter.unsubscribe(new URL(newsletter.manageLink('ada@example.com')).searchParams.get('token')!);
+
+    await expect(newsletter.confirm(lastToken(sendNewsletterConfirmation))).rejects.toMatchObject({ code: 'link_superseded' });
+    expect(outbox.enqueue).not.toHaveBeenCalled();
+  });
+});
+
+describe('requestNewsletterOptIn', () => {
+  const ENV_KEYS = ['NEWSLETTER_STORE', 'SIGNING_SECRET'] as const;
+  const env = process.env as Record<string, string | undefined>;
+  const saved = Object.fromEntries(ENV_KEYS.map(key => [key, env[key]]));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    env.NEWSLETTER_STORE = 'memory';
+    env.SIGNING_SECRET = 'n'.repeat(32);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    ENV_KEYS.forEach(key => { env[key] = saved[key]; });
+  });
+
+  it('starts the double opt-in from a form checkbox', async () => {
+    const request = new Request('https://site.test/api/contact', {
+      method: 'POST',
+      headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'Mozilla/5.0' },
+    });
+
+    const result = await requestNewsletterOptIn(request, 'contact', { email: 'grace@example.com', name: 'Grace Hopper' });
+    expect(result).toBe('pending_confirmation');
+    expect(sendNewsletterConfirmation).toHaveBeenCalledWith(expect.objectContaining({ email: 'grace@example.com', name: 'Grace Hopper' }));
+    expect(getOutbox).not.toHaveBeenCalled();
+  });
+
+  it('never fails the form it came from', async () => {
+    (sendNewsletterConfirmation as jest.Mock).mockRejectedValueOnce(new Error('smtp down'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const request = new Request('https://site.test/api/quotes', { method: 'POST' });
+    expect(await requestNewsletterOptIn(request, 'quote', { email: 'alan@example.com' })).toBe('failed');
+  });
+});
@@ -0,0 +1,285 @@
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  FileOutboxStore,
+  MemoryOutboxStore,
+  Outbox,
+  RedisOutboxStore,
+  type OutboxStepHandler,
+  type OutboxStepKind,
+  type OutboxStore,
+} from '@/lib/outbox';
+import type { RedisLike } from '@/lib/redis';
+
+/** Just enough of Redis for the outbox store: strings with expiry, sorted sets and the lease release */
+function fakeRedis(): RedisLike & { now: number } {
+  const strings = new Map<string, { value: string; expiresAt?: number }>();
+  const zsets = new Map<string, Map<string, number>>();
+  const redis = {
+    now: Date.now(),
+    live(key: string) {
+      const entry = strings.get(key);
+      if (entry?.expiresAt !== undefined && entry.expiresAt <= redis.now) strings.delete(key);
+      return strings.get(key)?.value ?? null;
+    },
+    zset(key: string) {
+      if (!zsets.has(key)) zsets.set(key, new Map());
+      return zsets.get(key)!;
+    },
+    sorted(key: string) {
+      return Array.from(redis.zset(key)).sort((a, b) => a[1] - b[1]);
+    },
+    async get(key: string) {
+      return redis.live(key);
+    },
+    async set(key: string, value: string, options: { px?: number; nx?: boolean } = {}) {
+      if (options.nx && redis.live(key) !== null) return false;
+      strings.set(key, { value, expiresAt: options.px ? redis.now + options.px : undefined });
+      return true;
+    },
+    async del(key: string) {
+      return strings.delete(key) ? 1 : 0;
+    },
+    async command(args: Array<string | number>): Promise<any> {
+      const [name, key, ...rest] = args.map(String);
+      switch (name) {
+        case 'ZADD':
+          redis.zset(key).set(rest[1], Number(rest[0]));
+          return 1;
+        case 'ZREM':
+          rest.forEach(member => redis.zset(key).delete(member));
+          return rest.length;
+        case 'ZRANGE':
+        case 'ZREVRANGE': {
+          const members = redis.sorted(key).map(([member]) => member);
+          if (name === 'ZREVRANGE') members.reverse();
+          const stop = Number(rest[1]);
+          return members.slice(Number(rest[0]), stop < 0 ? members.length + stop + 1 : stop + 1);
+        }
+        case 'ZRANGEBYSCORE':
+          return redis.sorted(key)
+            .filter(([, score]) => score <= Number(rest[1]))
+            .slice(Number(rest[3]), Number(rest[3]) + Number(rest[4]))
+            .map(([member]) => member);
+        case 'MGET':
+          return [key, ...rest].map(item => redis.live(item));
+        case 'EVAL':
+          // Lease release: compare-and-delete
+          return redis.live(rest[1]) === rest[2] ? redis.del(rest[1]) : 0;
+        default:
+          throw new Error(`fakeRedis: ${name} not supported`);
+      }
+    },
+  };
+  return redis;
+}
+
+const noBlobs = {
+  put: async () => undefined,
+  get: async () => null,
+  delete: async () => undefined,
+};
+
+function handlers(run: OutboxStepHandler): Record<OutboxStepKind, OutboxStepHandler> {
+  return {
+    'crm.upsertLead': run,
+    'crm.updateLead': run,
+    'workdrive.uploadFiles': run,
+    'campaigns.subscribe': run,
+    'campaigns.unsubscribe': run,
+  };
+}
+
+function enqueue(outbox: Outbox, submissionId: string) {
+  return outbox.enqueue({
+    submissionId,
+    form: 'contact',
+    steps: [
+      { id: 'crm', kind: 'crm.upsertLead', input: {} },
+      { id: 'crm-update', kind: 'crm.updateLead', input: {}, dependsOn: ['crm'] },
+    ],
+  });
+}
+
+describe('Outbox', () => {
+  it('runs steps in order and passes results to dependants', async () => {
+    const seen: string[] = [];
+    const outbox = new Outbox(new MemoryOutboxStore(), handlers(async ({ step, resultOf }) => {
+      seen.push(step.id);
+      return { leadId: resultOf('crm')?.leadId ?? 'lead-1' };
+    }));
+    await enqueue(outbox, 'sub-1');
+
+    const record = await outbox.dispatch('sub-1');
+    expect(record).toMatchObject({ status: 'completed' });
+    expect(seen).toEqual(['crm', 'crm-update']);
+  });
+
+  it('schedules a retry with backoff and gives up after the last attempt', async () => {
+    const outbox = new Outbox(
+      new MemoryOutboxStore(),
+      handlers(async () => { throw new Error('zoho down'); }),
+      { baseDelayMs: 60_000, defaultMaxAttempts: 2 }
+    );
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await enqueue(outbox, 'sub-1');
+
+    const first = await outbox.dispatch('sub-1');
+    expect(first!.steps[0]).toMatchObject({ status: 'pending', attempts: 1, lastError: 'zoho down' });
+    expect(first!.steps[0].nextAttemptAt).toBeGreaterThan(Date.now() + 50_000);
+    expect(await outbox.processDue()).toMatchObject({ processed: 0 });
+
+    const last = await outbox.retryNow('sub-1');
+    expect(last).toMatchObject({ status: 'failed' });
+    expect(last!.steps[0]).toMatchObject({ status: 'failed', attempts: 2 });
+    jest.restoreAllMocks();
+  });
+
+  it('leaves a record alone while another instance holds its lease', async () => {
+    const store = new MemoryOutboxStore();
+    const run = jest.fn(async () => ({}));
+    const outbox = new Outbox(store, handlers(run));
+    await enqueue(outbox, 'sub-1');
+
+    const release = await store.acquireLease('sub-1', 60_000);
+    expect(await outbox.dispatch('sub-1')).toMatchObject({ status: 'pending' });
+    expect(await outbox.processDue()).toMatchObject({ processed: 1, pending: 1 });
+    expect(run).not.toHaveBeenCalled();
+
+    await release!();
+    expect(await outbox.dispatch('sub-1')).toMatchObject({ status: 'completed' });
+  });
+
+  it('runs a record once when the inline dispatch and the cron drain race', async () => {
+    const store = new MemoryOutboxStore();
+    const run = jest.fn(async () => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return {};
+    });
+    const inline = new Outbox(store, handlers(run));
+    const cron = new Outbox(store, handlers(run));
+    await enqueue(inline, 'sub-1');
+
+    await Promise.all([inline.dispatch('sub-1'), cron.processDue()]);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(await store.get('sub-1')).toMatchObject({ status: 'completed' });
+  });
+
+  it('appends steps after a running dispatch instead of losing them', async () => {
+    const store = new MemoryOutboxStore();
+    let finish: () => void = () => undefined;
+    const outbox = new Outbox(store, handlers(async ({ step }) => {
+      if (step.id === 'crm') await new Promise<void>(resolve => { finish = resolve; });
+      return {};
+    }));
+    await enqueue(outbox, 'sub-1');
+
+    const dispatch = outbox.dispatch('sub-1');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const append = outbox.appendSteps('sub-1', [{ id: 'booking', kind: 'crm.updateLead', input: {}, dependsOn: ['crm'] }]);
+    finish();
+    await dispatch;
+
+    expect((await append)!.steps.map(step => step.id)).toEqual(['crm', 'crm-update', 'booking']);
+    expect(await outbox.dispatch('sub-1')).toMatchObject({ status: 'completed' });
+  });
+
+  it('holds quarantined submissions until an admin retries them', async () => {
+    const run = jest.fn(async () => ({}));
+    const outbox = new Outbox(new MemoryOutboxStore(), handlers(run));
+    await outbox.enqueue({
+      submissionId: 'sub-1',
+      form: 'quote',
+      steps: [{ id: 'crm', kind: 'crm.upsertLead', input: {} }],
+      quarantine: { score: 90, reasons: ['honeypot'] },
+    });
+
+    expect(await outbox.dispatch('sub-1')).toMatchObject({ status: 'quarantined' });
+    expect(run).not.toHaveBeenCalled();
+    expect(await outbox.retryNow('sub-1')).toMatchObject({ status: 'completed', quarantine: undefined });
+  });
+});
+
+type StoreSetup = () => Promise<{ store: OutboxStore; cleanup: () => Promise<void> }>;
+
+describe.each<[string, StoreSetup]>([
+  ['MemoryOutboxStore', async () => ({ store: new MemoryOutboxStore(), cleanup: async () => undefined })],
+  ['FileOutboxStore', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    return { store: new FileOutboxStore(dir), cleanup: () => rm(dir, { recursive: true, force: true }) };
+  }],
+  ['RedisOutboxStore', async () => ({ store: new RedisOutboxStore(fakeRedis(), noBlobs), cleanup: async () => undefined })],
+])('%s', (_name, setup) => {
+  it('hands the lease to one holder at a time', async () => {
+    const { store, cleanup } = await setup();
+    try {
+      const release = await store.acquireLease('sub-1', 60_000);
+      expect(release).not.toBeNull();
+      expect(await store.acquireLease('sub-1', 60_000)).toBeNull();
+      expect(await store.acquireLease('sub-2', 60_000)).not.toBeNull();
+
+      await release!();
+      await release!();
+      expect(await store.acquireLease('sub-1', 60_000)).not.toBeNull();
+    } finally {
+      await cleanup();
+    }
+  });
+
+  it('lists due records, earliest first', async () => {
+    const { store, cleanup } = await setup();
+    try {
+      const outbox = new Outbox(store, handlers(async () => ({})));
+      await enqueue(outbox, 'later');
+      await enqueue(outbox, 'sooner');
+      await enqueue(outbox, 'done');
+      await outbox.dispatch('done');
+
+      const later = (await store.get('later'))!;
+      later.steps[0].nextAttemptAt = Date.now() + 60_000;
+      await store.put(later);
+      const sooner = (await store.get('sooner'))!;
+      sooner.steps[0].nextAttemptAt = Date.now() - 60_000;
+      await store.put(sooner);
+
+      expect((await store.listDue(Date.now(), 10)).map(record => record.submissionId)).toEqual(['sooner']);
+      expect((await store.listDue(Date.now() + 120_000, 10)).map(record => record.submissionId)).toEqual(['sooner', 'later']);
+      expect((await store.listDue(Date.now() + 120_000, 1)).map(record => record.submissionId)).toEqual(['sooner']);
+      expect((await store.list({ status: 'pending' })).map(record => record.submissionId).sort()).toEqual(['later', 'sooner']);
+    } finally {
+      await cleanup();
+    }
+  });
+});
+
+describe('RedisOutboxStore', () => {
+  it('expires completed records after the retention period and drops them from the index', async () => {
+    const redis = fakeRedis();
+    const store = new RedisOutboxStore(redis, noBlobs, 'outbox', 60_000);
+    const outbox = new Outbox(store, handlers(async () => ({})));
+    await enqueue(outbox, 'done');
+    await enqueue(outbox, 'open');
+    await outbox.dispatch('done');
+
+    expect(await store.list()).toHaveLength(2);
+    redis.now += 120_000;
+
+    expect((await store.list()).map(record => record.submissionId)).toEqual(['open']);
+    expect(await redis.command(['ZRANGE', 'outbox:index', 0, -1])).toEqual(['open']);
+  });
+
+  it('stops reading the index once the limit is filled', async () => {
+    const redis = fakeRedis();
+    const store = new RedisOutboxStore(redis, noBlobs);
+    const outbox = new Outbox(store, handlers(async () => ({})));
+    for (let index = 0; index < 150; index++) {
+      await enqueue(outbox, `sub-${index}`);
+    }
+    const mget = jest.spyOn(redis, 'command');
+
+    expect(await store.list({ limit: 5 })).toHaveLength(5);
+    expect(mget.mock.calls.filter(([args]) => args[0] === 'MGET')).toHaveLength(1);
+  });
+});
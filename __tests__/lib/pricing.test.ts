@@ -0,0 +1,109 @@
+import {
+  DEFAULT_PRINT_RATES,
+  EstimateError,
+  estimatePrintPrice,
+  issueEstimateToken,
+  summarizeEstimate,
+  verifyEstimateToken,
+  type PrintGeometry,
+} from '@/lib/pricing';
+
+/** 40 mm cube */
+const geometry: PrintGeometry = {
+  volume: 64_000,
+  surfaceArea: 9_600,
+  size: [40, 40, 40],
+  triangles: 12,
+  watertight: true,
+};
+
+const fdm = { process: 'fdm', material: 'pla', infill: 20, quantity: 1 };
+
+describe('estimatePrintPrice', () => {
+  it('prices the shell solid and the interior at the chosen infill', () => {
+    const sparse = estimatePrintPrice(geometry, fdm, DEFAULT_PRINT_RATES, 0);
+    const solid = estimatePrintPrice(geometry, { ...fdm, infill: 100 }, DEFAULT_PRINT_RATES, 0);
+
+    // 1.2 mm walls over 9600 mm² plus 20% of the rest, plus 10% supports
+    expect(sparse.printedVolumeCm3).toBeCloseTo((11_520 + 52_480 * 0.2 + 6_400) / 1000, 2);
+    expect(solid.printedVolumeCm3).toBeCloseTo(70.4, 2);
+    expect(sparse.unitPrice).toBeLessThan(solid.unitPrice);
+    expect(sparse.priceRange.min).toBeLessThan(sparse.priceRange.max);
+    expect(sparse).toMatchObject({ currency: 'EUR', warnings: [], createdAt: 0 });
+  });
+
+  it('ignores infill for processes that print solid', () => {
+    const estimate = estimatePrintPrice(geometry, { process: 'sla', material: 'resin-standard', infill: 20, quantity: 1 }, DEFAULT_PRINT_RATES);
+    expect(estimate.infill).toBe(100);
+  });
+
+  it('gives the quantity discount to larger orders', () => {
+    const single = estimatePrintPrice(geometry, fdm, DEFAULT_PRINT_RATES);
+    const batch = estimatePrintPrice(geometry, { ...fdm, quantity: 50 }, DEFAULT_PRINT_RATES);
+    expect(batch.unitPrice).toBeCloseTo(single.unitPrice * 0.8, 1);
+  });
+
+  it('warns about small orders, oversized parts, open meshes and odd units', () => {
+    const tiny: PrintGeometry = { volume: 0.5, surfaceArea: 3, size: [0.8, 0.8, 0.8], triangles: 12, watertight: false };
+    expect(estimatePrintPrice(tiny, fdm, DEFAULT_PRINT_RATES).warnings)
+      .toEqual(['minimum_order_applied', 'open_mesh', 'units_suspect']);
+
+    const large: PrintGeometry = { ...geometry, size: [400, 40, 40] };
+    expect(estimatePrintPrice(large, fdm, DEFAULT_PRINT_RATES).warnings).toContain('exceeds_build_volume');
+  });
+
+  it.each([
+    [{ ...fdm, process: 'cnc' }, 'unknown_process'],
+    [{ ...fdm, material: 'pa12' }, 'unknown_material'],
+    [{ ...fdm, quantity: 0 }, 'invalid_quantity'],
+    [{ ...fdm, quantity: 1.5 }, 'invalid_quantity'],
+  ])('refuses %o', (input, code) => {
+    expect(() => estimatePrintPrice(geometry, input, DEFAULT_PRINT_RATES)).toThrow(expect.objectContaining({ code }));
+  });
+
+  it('refuses a model without volume', () => {
+    const price = () => estimatePrintPrice({ ...geometry, volume: 0 }, fdm, DEFAULT_PRINT_RATES);
+    expect(price).toThrow(EstimateError);
+    expect(price).toThrow(expect.objectContaining({ code: 'empty_model', status: 422 }));
+  });
+
+  it('summarises the estimate for the CRM lead', () => {
+    const estimate = estimatePrintPrice(geometry, { ...fdm, quantity: 10 }, DEFAULT_PRINT_RATES);
+    expect(summarizeEstimate(estimate, DEFAULT_PRINT_RATES)).toBe(
+      `FDM / PLA, 20% infill, 10 pcs: ${estimate.priceRange.min}-${estimate.priceRange.max} EUR `
+      + `(${estimate.buildHours}h per part, ${estimate.weightGrams} g)`
+    );
+  });
+});
+
+describe('estimate tokens', () => {
+  const env = process.env as Record<string, string | undefined>;
+  const saved = env.SIGNING_SECRET;
+  const estimate = estimatePrintPrice(geometry, fdm, DEFAULT_PRINT_RATES, 1_000);
+
+  beforeEach(() => {
+    env.SIGNING_SECRET = 's'.repeat(32);
+  });
+
+  afterAll(() => {
+    env.SIGNING_SECRET = saved;
+  });
+
+  it('round-trips the estimate and the upload it was priced from', () => {
+    const token = issueEstimateToken(estimate, 'upload-1', 1_000);
+    expect(verifyEstimateToken(token, 2_000)).toEqual({ ...estimate, uploadId: 'upload-1', expiresAt: 1_000 + 7 * 24 * 60 * 60 * 1000 });
+  });
+
+  it('rejects tokens that were edited, signed with another secret or have expired', () => {
+    const token = issueEstimateToken(estimate, 'upload-1', 1_000);
+    const [body, signature] = token.split('.');
+
+    const cheaper = { ...JSON.parse(Buffer.from(body, 'base64url').toString('utf-8')), priceRange: { min: 1, max: 2 } };
+    expect(verifyEstimateToken(`${Buffer.from(JSON.stringify(cheaper)).toString('base64url')}.${signature}`, 2_000)).toBeNull();
+    expect(verifyEstimateToken(body, 2_000)).toBeNull();
+    expect(verifyEstimateToken(token, 1_000 + 8 * 24 * 60 * 60 * 1000)).toBeNull();
+
+    env.SIGNING_SECRET = 't'.repeat(32);
+    expect(verifyEstimateToken(token, 2_000)).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import { faqItems } from '@/lib/data/faq';
+import { buildSearchIndex, searchIndex, type SearchDocument } from '@/lib/search';
+import { faqDocuments, solutionDocuments } from '@/lib/search/sources';
+
+function document(id: string, fields: Partial<SearchDocument>): SearchDocument {
+  return { id, type: 'blog', title: '', url: `/${id}`, description: '', keywords: [], body: '', ...fields };
+}
+
+const index = buildSearchIndex([
+  document('title', { title: 'Aluminum Casting Guide' }),
+  document('keywords', { title: 'Foundry Notes', keywords: ['aluminum'] }),
+  document('body', { title: 'Shop Floor Diary', body: 'We tried aluminum once and went back to steel.' }),
+  document('printing', { type: 'service', title: '3D Printing', description: 'Prints in nylon and resin, printed overnight.' }),
+  document('tolerances', { type: 'faq', title: 'How tight are your tolerances?', body: 'GD&T review of every drawing' }),
+  document('draft', { title: 'Aluminum Draft', draft: true }),
+  document('scheduled', { title: 'Aluminum Next Year', publishedAt: '2030-01-01T00:00:00.000Z' }),
+]);
+
+const NOW = new Date('2026-01-01T00:00:00.000Z');
+
+function ids(query: string, options = {}) {
+  return searchIndex(index, query, { now: NOW, ...options }).results.map(result => result.id);
+}
+
+describe('searchIndex', () => {
+  it('ranks title matches above keyword matches above body matches', () => {
+    expect(ids('aluminum')).toEqual(['title', 'keywords', 'body']);
+  });
+
+  it('matches other forms of a word through its stem', () => {
+    expect(ids('printed')).toEqual(['printing']);
+    expect(ids('prints ')).toEqual(['printing']);
+  });
+
+  it('matches the last word as a prefix while typing', () => {
+    expect(ids('alumi')).toEqual(['title', 'keywords', 'body']);
+    // A finished word is not a prefix
+    expect(ids('alumi ')).toEqual([]);
+  });
+
+  it('corrects typos and reports the correction', () => {
+    const response = searchIndex(index, 'aluminim casting', { now: NOW });
+    expect(response.corrections).toEqual({ aluminim: 'aluminum' });
+    expect(response.results[0].id).toBe('title');
+  });
+
+  it('requires every word, falling back to partial matches', () => {
+    expect(ids('aluminum steel')).toEqual(['body']);
+
+    const response = searchIndex(index, 'aluminum titanium', { now: NOW });
+    expect(response.partial).toBe(true);
+    expect(response.results.map(result => result.id)).toEqual(['title', 'keywords', 'body']);
+  });
+
+  it('hides drafts and posts scheduled for later', () => {
+    expect(ids('aluminum')).not.toContain('draft');
+    expect(ids('aluminum')).not.toContain('scheduled');
+    expect(ids('aluminum', { now: new Date('2031-01-01T00:00:00.000Z') })).toContain('scheduled');
+  });
+
+  it('filters by type and limits the results', () => {
+    expect(ids('aluminum printing', { types: ['service'] })).toEqual(['printing']);
+    expect(searchIndex(index, 'aluminum', { now: NOW, limit: 1 })).toMatchObject({ total: 3, results: [{ id: 'title' }] });
+  });
+
+  it('ignores stop words unless the query has nothing else', () => {
+    expect(ids('the tolerances')).toEqual(['tolerances']);
+    expect(ids('')).toEqual([]);
+  });
+});
+
+describe('search sources', () => {
+  it('links each FAQ result to its question on /faq', () => {
+    const documents = faqDocuments();
+    expect(documents.map(result => result.url)).toEqual(faqItems.map(item => `/faq#${item.id}`));
+    expect(new Set(faqItems.map(item => item.id)).size).toBe(faqItems.length);
+  });
+
+  it('indexes the copy the solutions pages render', () => {
+    const solutions = buildSearchIndex(solutionDocuments());
+    const find = (query: string) => searchIndex(solutions, query).results.map(result => result.url);
+
+    expect(find('regulatory compliance complexity')).toContain('/solutions/for-enterprises');
+    expect(find('feasibility report')).toEqual(['/services/product-development-accelerator']);
+    expect(solutionDocuments().map(result => result.title)).toContain('Enterprise Solutions');
+  });
+});
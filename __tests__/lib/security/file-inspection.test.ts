@@ -0,0 +1,171 @@
+import { deflateRawSync } from 'zlib';
+import { ATTACHMENT_ACCEPT } from '@/lib/security/attachment-types';
+import { FileInspector, inspectableBytes } from '@/lib/security/file-inspection';
+import { FakeMalwareScanner } from '@/lib/security/malware-scanner';
+
+interface ZipRecord {
+  name: string;
+  method: number;
+  compressed: Buffer;
+  uncompressedSize: number;
+  offset: number;
+}
+
+function localHeader(name: string, method: number, compressedSize: number, uncompressedSize: number) {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(20, 4);
+  header.writeUInt16LE(method, 8);
+  header.writeUInt32LE(compressedSize, 18);
+  header.writeUInt32LE(uncompressedSize, 22);
+  header.writeUInt16LE(Buffer.byteLength(name), 26);
+  return Buffer.concat([header, Buffer.from(name)]);
+}
+
+/**
+ * Minimal zip writer (CRCs left at zero, which inspection doesn't read). `tamper` edits the central
+ * directory records before they are written, to describe archives no honest tool would produce
+ */
+function buildZip(
+  files: Array<{ name: string; content: Buffer; store?: boolean }>,
+  tamper: (records: ZipRecord[]) => void = () => undefined
+): Uint8Array {
+  const parts: Buffer[] = [];
+  const records: ZipRecord[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const method = file.store ? 0 : 8;
+    const compressed = file.store ? file.content : deflateRawSync(file.content);
+    const header = localHeader(file.name, method, compressed.length, file.content.length);
+    records.push({ name: file.name, method, compressed, uncompressedSize: file.content.length, offset });
+    parts.push(header, compressed);
+    offset += header.length + compressed.length;
+  }
+  tamper(records);
+
+  const directoryOffset = offset;
+  for (const record of records) {
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt16LE(record.method, 10);
+    entry.writeUInt32LE(record.compressed.length, 20);
+    entry.writeUInt32LE(record.uncompressedSize, 24);
+    entry.writeUInt16LE(Buffer.byteLength(record.name), 28);
+    entry.writeUInt32LE(record.offset, 42);
+    parts.push(entry, Buffer.from(record.name));
+    offset += entry.length + Buffer.byteLength(record.name);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(records.length, 8);
+  end.writeUInt16LE(records.length, 10);
+  end.writeUInt32LE(offset - directoryOffset, 12);
+  end.writeUInt32LE(directoryOffset, 16);
+  parts.push(end);
+
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+const inspector = new FileInspector(new FakeMalwareScanner(), { maxUncompressedBytes: 4 * 1024 * 1024 });
+
+function inspect(filename: string, bytes: Uint8Array) {
+  return inspector.inspect(inspectableBytes(filename, bytes));
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('zip inspection', () => {
+  it('passes an honest archive', async () => {
+    const zip = buildZip([
+      { name: 'drawings/part.step', content: Buffer.from('ISO-10303-21;\n'.repeat(500)) },
+      { name: 'notes.txt', content: Buffer.from('tolerances +/- 0.1mm'), store: true },
+    ]);
+
+    const verdict = await inspect('parts.zip', zip);
+    expect(verdict).toMatchObject({ detectedType: 'zip', verdict: 'clean', reasons: [] });
+  });
+
+  it('rejects entries that inflate past their declared size', async () => {
+    // 8MB of zeros compresses to a few KB; the directory claims 1KB
+    const zip = buildZip([{ name: 'small.txt', content: Buffer.alloc(8 * 1024 * 1024) }], records => {
+      records[0].uncompressedSize = 1024;
+    });
+
+    const verdict = await inspect('bomb.zip', zip);
+    expect(verdict.verdict).toBe('rejected');
+    expect(verdict.reasons).toContain('zip_size_mismatch:small.txt');
+  });
+
+  it('rejects archives whose declared sizes exceed the budget', async () => {
+    const zip = buildZip([{ name: 'big.bin', content: Buffer.alloc(5 * 1024 * 1024, 1) }]);
+
+    const verdict = await inspect('big.zip', zip);
+    expect(verdict.reasons).toContain(`zip_bomb_size:${5 * 1024 * 1024}`);
+  });
+
+  it('rejects entries whose data runs into the next entry', async () => {
+    // The second entry's header sits inside the first entry's stored data
+    const inner = Buffer.from('payload '.repeat(64));
+    const nested = Buffer.concat([localHeader('inner.txt', 0, inner.length, inner.length), inner]);
+    const zip = buildZip([{ name: 'outer.txt', content: nested, store: true }], records => {
+      records.push({
+        name: 'inner.txt',
+        method: 0,
+        compressed: inner,
+        uncompressedSize: inner.length,
+        offset: 30 + 'outer.txt'.length,
+      });
+    });
+
+    const verdict = await inspect('overlap.zip', zip);
+    expect(verdict.reasons).toContain('zip_overlapping_entries');
+  });
+
+  it('rejects entries that point at something other than a local header', async () => {
+    const zip = buildZip([{ name: 'a.txt', content: Buffer.from('hello world'), store: true }], records => {
+      records[0].offset = 5;
+    });
+
+    expect((await inspect('broken.zip', zip)).reasons).toContain('zip_local_header_corrupt');
+  });
+
+  it('rejects paths that leave the extraction folder', async () => {
+    const zip = buildZip([{ name: '../../etc/cron.d/job', content: Buffer.from('* * * * * root sh'), store: true }]);
+    expect((await inspect('paths.zip', zip)).reasons).toContain('zip_path_traversal:../../etc/cron.d/job');
+  });
+});
+
+describe('attachment types', () => {
+  it('flags RAR archives, whose contents are not inspected', async () => {
+    const rar = new Uint8Array(Buffer.concat([Buffer.from('Rar!\x1a\x07\x01\x00', 'latin1'), Buffer.alloc(64)]));
+    const verdict = await inspect('parts.rar', rar);
+    expect(verdict).toMatchObject({ detectedType: 'rar', verdict: 'flagged' });
+    expect(verdict.reasons).toContain('rar_not_inspected');
+  });
+
+  it('has a content check for every extension the upload form offers', async () => {
+    for (const accepted of ATTACHMENT_ACCEPT) {
+      const verdict = await inspect(`file${accepted}`, new Uint8Array([0, 1, 2, 3]));
+      expect(verdict.reasons.some(reason => reason.startsWith('unsupported_type'))).toBe(false);
+    }
+  });
+
+  it('accepts the image formats the form offers', async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...new Array(32).fill(0)]);
+    const webp = new Uint8Array(Buffer.concat([Buffer.from('RIFF\x24\x00\x00\x00WEBPVP8 ', 'latin1'), Buffer.alloc(32)]));
+
+    expect((await inspect('photo.png', png)).verdict).toBe('clean');
+    expect((await inspect('photo.webp', webp)).verdict).toBe('clean');
+    expect((await inspect('photo.bmp', png)).reasons).toContain('unsupported_type:bmp');
+  });
+});
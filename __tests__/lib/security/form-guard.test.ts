@@ -0,0 +1,125 @@
+import {
+  FORM_TOKEN_FIELD,
+  guardSubmission,
+  issueFormToken,
+  quarantineFor,
+  verifyFormToken,
+} from '@/lib/security/form-guard';
+
+const NOW = 1_750_000_000_000;
+const HOUR_MS = 60 * 60 * 1000;
+
+function browserRequest(headers: Record<string, string> = {}) {
+  return new Request('https://ideinstein.com/api/contact', {
+    method: 'POST',
+    headers: {
+      'user-agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/126.0 Safari/537.36',
+      accept: 'application/json',
+      'accept-language': 'de-DE,de;q=0.9',
+      'accept-encoding': 'gzip, br',
+      ...headers,
+    },
+  });
+}
+
+describe('form tokens', () => {
+  const env = process.env as Record<string, string | undefined>;
+  const saved = env.SIGNING_SECRET;
+
+  beforeEach(() => {
+    env.SIGNING_SECRET = 'f'.repeat(32);
+  });
+
+  afterAll(() => {
+    env.SIGNING_SECRET = saved;
+  });
+
+  it('verifies a token for the form it was issued for', () => {
+    const { token, expiresAt } = issueFormToken('contact', NOW);
+    expect(expiresAt).toBe(NOW + 2 * HOUR_MS);
+    expect(verifyFormToken(token, 'contact', NOW + 5_000)).toEqual({ valid: true, renderedAt: NOW });
+  });
+
+  it('rejects tokens for another form, edited, from the future or expired', () => {
+    const { token } = issueFormToken('contact', NOW);
+    const [form, , nonce, signature] = token.split('.');
+
+    expect(verifyFormToken(token, 'quote', NOW + 5_000)).toEqual({ valid: false, reason: 'form_token_invalid' });
+    expect(verifyFormToken(`${form}.${NOW - 60_000}.${nonce}.${signature}`, 'contact', NOW + 5_000))
+      .toEqual({ valid: false, reason: 'form_token_invalid' });
+    expect(verifyFormToken('not-a-token', 'contact', NOW)).toEqual({ valid: false, reason: 'form_token_invalid' });
+    expect(verifyFormToken(token, 'contact', NOW - 1)).toEqual({ valid: false, reason: 'form_token_invalid' });
+    expect(verifyFormToken(token, 'contact', NOW + 3 * HOUR_MS)).toEqual({ valid: false, reason: 'form_token_expired' });
+  });
+
+  it('stops verifying once the signing secret changes', () => {
+    const { token } = issueFormToken('contact', NOW);
+    env.SIGNING_SECRET = 'g'.repeat(32);
+    expect(verifyFormToken(token, 'contact', NOW + 5_000)).toEqual({ valid: false, reason: 'form_token_invalid' });
+  });
+});
+
+describe('guardSubmission', () => {
+  const env = process.env as Record<string, string | undefined>;
+  const saved = env.SIGNING_SECRET;
+
+  beforeEach(() => {
+    env.SIGNING_SECRET = 'f'.repeat(32);
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    env.SIGNING_SECRET = saved;
+  });
+
+  /** Token for a form rendered `ago` ms before the submission */
+  function renderedAgo(ago: number) {
+    return issueFormToken('contact', NOW - ago).token;
+  }
+
+  it('lets a browser through that took a human amount of time', () => {
+    const verdict = guardSubmission(browserRequest(), 'contact', { name: 'Ada', [FORM_TOKEN_FIELD]: renderedAgo(42_317) });
+    expect(verdict).toEqual({ decision: 'allow', score: 0, reasons: [], fillTimeMs: 42_317 });
+    expect(quarantineFor(verdict)).toBeUndefined();
+  });
+
+  it('counts a missing token against the submission without refusing it', () => {
+    expect(guardSubmission(browserRequest(), 'contact', { name: 'Ada' }))
+      .toMatchObject({ decision: 'allow', score: 25, reasons: ['form_token_missing'] });
+  });
+
+  it('quarantines a filled honeypot', () => {
+    const verdict = guardSubmission(browserRequest(), 'contact', {
+      name: 'Ada',
+      website: 'https://spam.example',
+      [FORM_TOKEN_FIELD]: renderedAgo(42_317),
+    });
+
+    expect(verdict).toMatchObject({ decision: 'quarantine', score: 50 });
+    expect(quarantineFor(verdict)).toEqual({ score: 50, reasons: ['honeypot_triggered: website'] });
+  });
+
+  it('rejects a script that submits instantly', () => {
+    const request = new Request('https://ideinstein.com/api/contact', {
+      method: 'POST',
+      headers: { 'user-agent': 'python-requests/2.32' },
+    });
+
+    const verdict = guardSubmission(request, 'contact', { name: 'Ada', [FORM_TOKEN_FIELD]: renderedAgo(400) });
+    expect(verdict.decision).toBe('reject');
+    expect(verdict.score).toBe(95);
+    expect(verdict.reasons).toEqual(expect.arrayContaining(['bot_pattern_matched: python', 'form_filled_too_quickly']));
+  });
+
+  it('ignores non-string fields when looking for honeypots', () => {
+    const verdict = guardSubmission(browserRequest(), 'contact', {
+      url: { nested: true },
+      [FORM_TOKEN_FIELD]: renderedAgo(42_317),
+    });
+    expect(verdict.decision).toBe('allow');
+  });
+});
@@ -0,0 +1,149 @@
+import { NextRequest } from 'next/server';
+import { NONCE_HEADER, SIGNATURE_HEADER, TIMESTAMP_HEADER, sha256Hex, sign, signingInput } from '@/lib/helpers/sign';
+import {
+  createFormNonceStore,
+  FORM_SESSION_COOKIE,
+  issueFormNonce,
+  MemoryFormNonceStore,
+  NONCE_TTL_MS,
+  verifyFormSignature,
+} from '@/lib/security/form-signature';
+import { StoreConfigurationError } from '@/lib/stores';
+
+const SECRET = 'test-form-secret';
+const SESSION = 'a1b2c3d4e5f6a7b8a1b2c3d4e5f6a7b8';
+const URL_PATH = '/api/contact';
+const BODY = JSON.stringify({ name: 'Ada', email: 'ada@example.com' });
+
+interface SignedRequestOptions {
+  nonce: string;
+  key: string;
+  timestamp?: number;
+  session?: string;
+  body?: string;
+  signedBody?: string;
+}
+
+/** What signedFetch sends: the body signed with the per-nonce key, plus the session cookie */
+async function signedRequest(options: SignedRequestOptions): Promise<NextRequest> {
+  const timestamp = String(options.timestamp ?? Date.now());
+  const signature = await sign(
+    signingInput('POST', URL_PATH, timestamp, options.nonce, await sha256Hex(options.signedBody ?? options.body ?? BODY)),
+    options.key
+  );
+  return new NextRequest(`https://example.com${URL_PATH}`, {
+    method: 'POST',
+    body: options.body ?? BODY,
+    headers: {
+      'content-type': 'application/json',
+      cookie: `${FORM_SESSION_COOKIE}=${options.session ?? SESSION}`,
+      [NONCE_HEADER]: options.nonce,
+      [TIMESTAMP_HEADER]: timestamp,
+      [SIGNATURE_HEADER]: signature,
+    },
+  });
+}
+
+describe('verifyFormSignature', () => {
+  it('accepts a signed submission once', async () => {
+    const issued = await issueFormNonce(SECRET, SESSION);
+
+    expect(await verifyFormSignature(await signedRequest(issued), SECRET)).toEqual({ valid: true });
+    expect(await verifyFormSignature(await signedRequest(issued), SECRET))
+      .toEqual({ valid: false, reason: 'nonce_replayed' });
+  });
+
+  it('rejects requests without signature headers', async () => {
+    const request = new NextRequest(`https://example.com${URL_PATH}`, { method: 'POST', body: BODY });
+    expect(await verifyFormSignature(request, SECRET)).toEqual({ valid: false, reason: 'signature_missing' });
+  });
+
+  it('rejects a body that differs from the signed one', async () => {
+    const issued = await issueFormNonce(SECRET, SESSION);
+    const request = await signedRequest({ ...issued, signedBody: BODY, body: BODY.replace('Ada', 'Eve') });
+    expect(await verifyFormSignature(request, SECRET)).toEqual({ valid: false, reason: 'signature_invalid' });
+  });
+
+  it('does not spend the nonce on a failed attempt', async () => {
+    const issued = await issueFormNonce(SECRET, SESSION);
+    await verifyFormSignature(await signedRequest({ ...issued, key: 'guessed-key' }), SECRET);
+    expect(await verifyFormSignature(await signedRequest(issued), SECRET)).toEqual({ valid: true });
+  });
+
+  it('rejects nonces not issued with the server secret', async () => {
+    const forged = await issueFormNonce('other-secret', SESSION);
+    expect(await verifyFormSignature(await signedRequest(forged), SECRET))
+      .toEqual({ valid: false, reason: 'nonce_invalid' });
+    expect(await verifyFormSignature(await signedRequest({ nonce: 'not-a-nonce', key: 'x' }), SECRET))
+      .toEqual({ valid: false, reason: 'nonce_invalid' });
+  });
+
+  it('rejects nonces used from another browser session', async () => {
+    const issued = await issueFormNonce(SECRET, SESSION);
+    const request = await signedRequest({ ...issued, session: 'f'.repeat(32) });
+    expect(await verifyFormSignature(request, SECRET)).toEqual({ valid: false, reason: 'session_mismatch' });
+  });
+
+  it('rejects expired nonces and skewed timestamps', async () => {
+    const issuedAt = Date.now();
+    const issued = await issueFormNonce(SECRET, SESSION, issuedAt);
+
+    const late = issuedAt + NONCE_TTL_MS + 1;
+    expect(await verifyFormSignature(await signedRequest({ ...issued, timestamp: late }), SECRET, late))
+      .toEqual({ valid: false, reason: 'nonce_expired' });
+
+    const skewed = await signedRequest({ ...issued, timestamp: issuedAt - 10 * 60 * 1000 });
+    expect(await verifyFormSignature(skewed, SECRET, issuedAt)).toEqual({ valid: false, reason: 'timestamp_skew' });
+  });
+});
+
+describe('MemoryFormNonceStore', () => {
+  it('frees nonces once their ttl has passed', async () => {
+    jest.useFakeTimers();
+    try {
+      const store = new MemoryFormNonceStore();
+      expect(await store.claim('n1', 1000)).toBe(true);
+      expect(await store.claim('n1', 1000)).toBe(false);
+      jest.advanceTimersByTime(1001);
+      expect(await store.claim('n1', 1000)).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('createFormNonceStore', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('uses memory outside production', () => {
+    delete process.env.FORM_NONCE_STORE;
+    delete process.env.UPSTASH_REDIS_REST_URL;
+    delete process.env.KV_REST_API_URL;
+    expect(createFormNonceStore().kind).toBe('memory');
+  });
+
+  it('refuses per-instance memory in production', () => {
+    process.env = { ...saved, NODE_ENV: 'production', FORM_NONCE_STORE: 'memory' };
+    expect(() => createFormNonceStore()).toThrow(StoreConfigurationError);
+
+    delete process.env.FORM_NONCE_STORE;
+    delete process.env.UPSTASH_REDIS_REST_URL;
+    delete process.env.KV_REST_API_URL;
+    expect(() => createFormNonceStore()).toThrow(StoreConfigurationError);
+  });
+
+  it('uses Redis when configured', () => {
+    process.env = {
+      ...saved,
+      NODE_ENV: 'production',
+      UPSTASH_REDIS_REST_URL: 'https://redis.example.com',
+      UPSTASH_REDIS_REST_TOKEN: 'token',
+    };
+    delete process.env.FORM_NONCE_STORE;
+    expect(createFormNonceStore().kind).toBe('redis');
+  });
+});
@@ -0,0 +1,42 @@
+import { signingKey } from '@/lib/security/keys';
+
+describe('signing keys', () => {
+  const env = process.env as Record<string, string | undefined>;
+  const saved = { NODE_ENV: env.NODE_ENV, SIGNING_SECRET: env.SIGNING_SECRET };
+
+  afterEach(() => {
+    env.NODE_ENV = saved.NODE_ENV;
+    env.SIGNING_SECRET = saved.SIGNING_SECRET;
+    jest.restoreAllMocks();
+  });
+
+  it('derives a different key for every purpose from the one secret', () => {
+    env.SIGNING_SECRET = 'a'.repeat(32);
+    const estimate = signingKey('estimate-token');
+
+    expect(estimate).toHaveLength(32);
+    expect(signingKey('estimate-token').equals(estimate)).toBe(true);
+    expect(signingKey('form-guard-token').equals(estimate)).toBe(false);
+
+    env.SIGNING_SECRET = 'b'.repeat(32);
+    expect(signingKey('estimate-token').equals(estimate)).toBe(false);
+  });
+
+  it('refuses to sign in production without a long enough secret', () => {
+    env.NODE_ENV = 'production';
+    delete env.SIGNING_SECRET;
+    expect(() => signingKey('newsletter-link')).toThrow('security:signing_secret_missing');
+
+    env.SIGNING_SECRET = 'too-short';
+    expect(() => signingKey('newsletter-link')).toThrow('security:signing_secret_missing');
+  });
+
+  it('uses a per-process key outside production', () => {
+    env.NODE_ENV = 'development';
+    delete env.SIGNING_SECRET;
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(signingKey('newsletter-ip-hash').equals(signingKey('newsletter-ip-hash'))).toBe(true);
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { getRateLimitConfig } from '@/lib/security/rate-limit';
+
+function policyFor(method: string, pathname: string): string {
+  return getRateLimitConfig(new NextRequest(`https://example.com${pathname}`, { method })).type;
+}
+
+describe('getRateLimitConfig', () => {
+  it('spends form allowances only on form submissions', () => {
+    expect(policyFor('POST', '/api/contact')).toBe('contact');
+    expect(policyFor('POST', '/api/consultation')).toBe('contact');
+    expect(policyFor('POST', '/api/newsletter')).toBe('contact');
+    expect(policyFor('GET', '/api/contact')).toBe('api');
+  });
+
+  it('spends upload allowances only when an upload starts', () => {
+    expect(policyFor('POST', '/api/files')).toBe('upload');
+    expect(policyFor('POST', '/api/uploads')).toBe('upload');
+    expect(policyFor('GET', '/api/files')).toBe('api');
+    expect(policyFor('GET', '/api/files/abc123')).toBe('api');
+    expect(policyFor('DELETE', '/api/files/abc123')).toBe('api');
+    expect(policyFor('PUT', '/api/uploads/abc123/chunks/0')).toBe('upload_chunk');
+  });
+
+  it('gives newsletter email links their own allowance', () => {
+    expect(policyFor('POST', '/api/newsletter/confirm')).toBe('newsletter_link');
+    expect(policyFor('GET', '/api/newsletter/preferences')).toBe('newsletter_link');
+    expect(policyFor('POST', '/api/newsletter/preferences')).toBe('newsletter_link');
+  });
+
+  it('keeps strict limits for credential logins', () => {
+    expect(policyFor('POST', '/api/auth/callback/credentials')).toBe('nextauth');
+    expect(policyFor('POST', '/api/auth/credentials')).toBe('auth_login');
+    expect(policyFor('GET', '/api/auth/session')).toBe('nextauth');
+  });
+
+  it('leaves pages that host forms on the general policy', () => {
+    expect(policyFor('GET', '/contact')).toBe('general');
+    expect(policyFor('GET', '/api/search')).toBe('search');
+    expect(policyFor('GET', '/api/admin/audit')).toBe('admin');
+  });
+});
@@ -0,0 +1,75 @@
+import { resolveStoreBackend, StoreConfigurationError } from '@/lib/stores';
+
+const OPTIONS = { name: 'example', envVar: 'EXAMPLE_STORE', dirEnvVar: 'EXAMPLE_DIR' };
+const ENV_KEYS = [
+  'NODE_ENV', 'VERCEL', 'EXAMPLE_STORE', 'EXAMPLE_DIR',
+  'UPSTASH_REDIS_REST_URL', 'UPSTASH_REDIS_REST_TOKEN', 'KV_REST_API_URL', 'KV_REST_API_TOKEN',
+] as const;
+
+describe('resolveStoreBackend', () => {
+  const saved = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+  const env = process.env as Record<string, string | undefined>;
+
+  beforeEach(() => {
+    ENV_KEYS.forEach(key => { delete env[key]; });
+    env.NODE_ENV = 'test';
+  });
+
+  afterAll(() => {
+    ENV_KEYS.forEach(key => { env[key] = saved[key]; });
+  });
+
+  function withRedis() {
+    env.UPSTASH_REDIS_REST_URL = 'https://redis.example.com';
+    env.UPSTASH_REDIS_REST_TOKEN = 'token';
+  }
+
+  it('prefers Redis when it is configured', () => {
+    withRedis();
+    expect(resolveStoreBackend(OPTIONS).kind).toBe('redis');
+  });
+
+  it('falls back to files outside production', () => {
+    expect(resolveStoreBackend(OPTIONS)).toEqual({ kind: 'file', dir: `${process.cwd()}/.data/example` });
+    env.EXAMPLE_DIR = '/var/lib/example';
+    expect(resolveStoreBackend(OPTIONS)).toEqual({ kind: 'file', dir: '/var/lib/example' });
+  });
+
+  it('falls back to memory for stores without a file backend', () => {
+    expect(resolveStoreBackend({ name: 'example', envVar: 'EXAMPLE_STORE' }).kind).toBe('memory');
+  });
+
+  it('refuses memory in production', () => {
+    env.NODE_ENV = 'production';
+    env.EXAMPLE_STORE = 'memory';
+    expect(() => resolveStoreBackend(OPTIONS)).toThrow(StoreConfigurationError);
+  });
+
+  it('refuses files on serverless hosts in production, explicit or by default', () => {
+    env.NODE_ENV = 'production';
+    env.VERCEL = '1';
+    expect(() => resolveStoreBackend(OPTIONS)).toThrow(/no durable store configured/);
+    env.EXAMPLE_STORE = 'file';
+    expect(() => resolveStoreBackend(OPTIONS)).toThrow(/per-instance \/tmp/);
+  });
+
+  it('keeps files on a self-hosted production server', () => {
+    env.NODE_ENV = 'production';
+    expect(resolveStoreBackend(OPTIONS).kind).toBe('file');
+  });
+
+  it('allows memory in production only when the store opts in', () => {
+    env.NODE_ENV = 'production';
+    env.VERCEL = '1';
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const backend = resolveStoreBackend({ name: 'counters', envVar: 'EXAMPLE_STORE', allowMemoryInProduction: 'per instance' });
+    expect(backend.kind).toBe('memory');
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('rejects unknown backends', () => {
+    env.EXAMPLE_STORE = 'postgres';
+    expect(() => resolveStoreBackend(OPTIONS)).toThrow(/unknown EXAMPLE_STORE/);
+  });
+});
@@ -0,0 +1,108 @@
+import { createHash } from 'crypto';
+import { ChunkedUploads, compositeChecksum, createUploadStore, MemoryUploadStore } from '@/lib/uploads';
+import { StoreConfigurationError } from '@/lib/stores';
+
+const CHUNK = 256 * 1024;
+
+function sha256(data: Uint8Array) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function fileOf(size: number) {
+  const data = new Uint8Array(size);
+  for (let index = 0; index < size; index++) data[index] = index % 251;
+  return data;
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>) {
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+describe('ChunkedUploads', () => {
+  it('assembles a file from chunks sent out of order', async () => {
+    const uploads = new ChunkedUploads(new MemoryUploadStore());
+    const file = fileOf(CHUNK * 2 + 1000);
+    const chunks = [file.subarray(0, CHUNK), file.subarray(CHUNK, CHUNK * 2), file.subarray(CHUNK * 2)];
+
+    const { uploadId, totalChunks } = await uploads.init({ filename: 'part.step', size: file.byteLength, chunkSize: CHUNK });
+    expect(totalChunks).toBe(3);
+    for (const index of [2, 0, 1]) {
+      await uploads.writeChunk(uploadId, index, chunks[index], sha256(chunks[index]));
+    }
+
+    const completed = await uploads.complete(uploadId, compositeChecksum(chunks.map(sha256)));
+    expect(completed.sha256).toBe(sha256(file));
+    expect(sha256(await readAll(uploads.stream(uploadId)))).toBe(sha256(file));
+  });
+
+  it('rejects chunks that fail their checksum', async () => {
+    const uploads = new ChunkedUploads(new MemoryUploadStore());
+    const { uploadId } = await uploads.init({ filename: 'a.bin', size: 10 });
+
+    await expect(uploads.writeChunk(uploadId, 0, fileOf(10), 'f'.repeat(64)))
+      .rejects.toMatchObject({ code: 'checksum_mismatch', status: 422 });
+  });
+
+  it('keeps every chunk when instances sharing a store write at the same time', async () => {
+    const store = new MemoryUploadStore();
+    const first = new ChunkedUploads(store);
+    const second = new ChunkedUploads(store);
+    const file = fileOf(CHUNK * 4);
+    const { uploadId } = await first.init({ filename: 'a.bin', size: file.byteLength, chunkSize: CHUNK });
+
+    await Promise.all([0, 1, 2, 3].map(index => {
+      const chunk = file.subarray(index * CHUNK, (index + 1) * CHUNK);
+      return (index % 2 ? second : first).writeChunk(uploadId, index, chunk, sha256(chunk));
+    }));
+
+    expect((await first.state(uploadId)).receivedChunks).toEqual([0, 1, 2, 3]);
+  });
+
+  it('waits for a lock held elsewhere', async () => {
+    const store = new MemoryUploadStore();
+    const uploads = new ChunkedUploads(store);
+    const data = fileOf(10);
+    const { uploadId } = await uploads.init({ filename: 'a.bin', size: 10 });
+
+    const release = await store.acquireLock(uploadId, 60_000);
+    const write = uploads.writeChunk(uploadId, 0, data, sha256(data));
+    await new Promise(resolve => setTimeout(resolve, 120));
+    expect((await uploads.state(uploadId)).receivedChunks).toEqual([]);
+
+    await release!();
+    expect((await write).receivedChunks).toEqual([0]);
+  });
+});
+
+describe('createUploadStore', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('refuses per-instance storage in production on serverless hosts', () => {
+    process.env = { ...saved, NODE_ENV: 'production', VERCEL: '1' };
+    delete process.env.UPLOAD_STORE;
+    delete process.env.UPSTASH_REDIS_REST_URL;
+    delete process.env.KV_REST_API_URL;
+    expect(() => createUploadStore()).toThrow(StoreConfigurationError);
+  });
+
+  it('needs object storage for the chunks when sessions are in Redis', () => {
+    process.env = {
+      ...saved,
+      NODE_ENV: 'production',
+      UPSTASH_REDIS_REST_URL: 'https://redis.example.com',
+      UPSTASH_REDIS_REST_TOKEN: 'token',
+    };
+    delete process.env.UPLOAD_STORE;
+    delete process.env.S3_BUCKET;
+    expect(() => createUploadStore()).toThrow(StoreConfigurationError);
+
+    process.env.S3_BUCKET = 'uploads';
+    process.env.S3_ACCESS_KEY_ID = 'key';
+    process.env.S3_SECRET_ACCESS_KEY = 'secret';
+    expect(createUploadStore().kind).toBe('redis');
+  });
+});
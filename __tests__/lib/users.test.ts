@@ -0,0 +1,145 @@
+import { AccountError, CustomerAccounts, MemoryUserStore } from '@/lib/users';
+import { sendAccountInvite, sendEmailVerification, sendPasswordReset } from '@/lib/email';
+
+jest.mock('@/lib/email', () => ({
+  sendAccountInvite: jest.fn(async () => ({ success: true })),
+  sendEmailVerification: jest.fn(async () => ({ success: true })),
+  sendPasswordReset: jest.fn(async () => ({ success: true })),
+}));
+
+const PASSWORD = 'correct horse 42';
+
+/** Token from the link in the most recent email sent through `send` */
+function lastToken(send: unknown): string {
+  const calls = (send as jest.Mock).mock.calls;
+  const { link } = calls[calls.length - 1][0] as { link: string };
+  return new URL(link).searchParams.get('token')!;
+}
+
+describe('CustomerAccounts', () => {
+  let accounts: CustomerAccounts;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    accounts = new CustomerAccounts(new MemoryUserStore(), { bcryptRounds: 4, baseUrl: 'https://portal.test' });
+  });
+
+  describe('self-signup', () => {
+    it('sets the password from the emailed link before the account can sign in', async () => {
+      const { user, requiresVerification } = await accounts.signup({ email: 'Ada@Example.com' });
+      expect(requiresVerification).toBe(true);
+      expect(user.email).toBe('ada@example.com');
+      expect(user.status).toBe('pending_verification');
+      expect(new URL((sendEmailVerification as jest.Mock).mock.calls[0][0].link).pathname).toBe('/auth/verify-email');
+
+      const verified = await accounts.verifyEmail(lastToken(sendEmailVerification), PASSWORD);
+      expect(verified.status).toBe('active');
+      expect(verified.passwordChangedAt).toBeDefined();
+      expect(await accounts.authenticate('ada@example.com', PASSWORD)).toMatchObject({ id: user.id });
+    });
+
+    it('ignores a password sent with a self-signup', async () => {
+      await accounts.signup({ email: 'ada@example.com', password: 'attacker password 1' });
+      expect((await accounts.getByEmail('ada@example.com'))?.passwordHash).toBeUndefined();
+
+      await accounts.verifyEmail(lastToken(sendEmailVerification), PASSWORD);
+      expect(await accounts.authenticate('ada@example.com', 'attacker password 1')).toBeNull();
+      expect(await accounts.authenticate('ada@example.com', PASSWORD)).not.toBeNull();
+    });
+
+    it('only sends a fresh link when an unverified email signs up again', async () => {
+      await accounts.signup({ email: 'ada@example.com' });
+      const firstToken = lastToken(sendEmailVerification);
+      await accounts.signup({ email: 'ada@example.com' });
+
+      const stored = await accounts.getByEmail('ada@example.com');
+      expect(stored?.passwordHash).toBeUndefined();
+      expect(stored?.status).toBe('pending_verification');
+      await expect(accounts.verifyEmail(firstToken, PASSWORD)).rejects.toMatchObject({ code: 'invalid_token' });
+      await accounts.verifyEmail(lastToken(sendEmailVerification), PASSWORD);
+    });
+
+    it('refuses emails that already have an account', async () => {
+      await accounts.signup({ email: 'ada@example.com' });
+      await accounts.verifyEmail(lastToken(sendEmailVerification), PASSWORD);
+
+      await expect(accounts.signup({ email: 'ada@example.com' }))
+        .rejects.toMatchObject({ code: 'already_registered', status: 409 });
+    });
+
+    it('rejects weak passwords without spending the link', async () => {
+      await accounts.signup({ email: 'ada@example.com' });
+      const token = lastToken(sendEmailVerification);
+
+      await expect(accounts.verifyEmail(token, 'short')).rejects.toMatchObject({ code: 'weak_password' });
+      expect((await accounts.verifyEmail(token, PASSWORD)).status).toBe('active');
+    });
+
+    it('uses each verification link once', async () => {
+      await accounts.signup({ email: 'ada@example.com' });
+      const token = lastToken(sendEmailVerification);
+      await accounts.verifyEmail(token, PASSWORD);
+      await expect(accounts.verifyEmail(token, 'other password 2')).rejects.toMatchObject({ code: 'invalid_token' });
+      expect(await accounts.authenticate('ada@example.com', PASSWORD)).not.toBeNull();
+    });
+  });
+
+  describe('invitations', () => {
+    it('activates the account with the invite link and the invited email only', async () => {
+      await accounts.invite({ email: 'grace@example.com', name: 'Grace Hopper' });
+      const token = lastToken(sendAccountInvite);
+
+      await expect(accounts.signup({ email: 'other@example.com', password: PASSWORD, token }))
+        .rejects.toMatchObject({ code: 'email_mismatch' });
+
+      await accounts.invite({ email: 'grace@example.com', name: 'Grace Hopper' });
+      const { user, requiresVerification } = await accounts.signup({
+        email: 'grace@example.com',
+        password: PASSWORD,
+        token: lastToken(sendAccountInvite),
+      });
+      expect(requiresVerification).toBe(false);
+      expect(user.status).toBe('active');
+      expect(await accounts.authenticate('grace@example.com', PASSWORD)).not.toBeNull();
+    });
+
+    it('needs a strong password with the invite', async () => {
+      await accounts.invite({ email: 'grace@example.com', name: 'Grace Hopper' });
+      await expect(accounts.signup({ email: 'grace@example.com', token: lastToken(sendAccountInvite) }))
+        .rejects.toMatchObject({ code: 'weak_password' });
+    });
+
+    it('asks invited users to use their invitation instead of signing up', async () => {
+      await accounts.invite({ email: 'grace@example.com', name: 'Grace Hopper' });
+      await expect(accounts.signup({ email: 'grace@example.com' }))
+        .rejects.toMatchObject({ code: 'invite_pending' });
+    });
+  });
+
+  describe('password resets', () => {
+    it('replaces the password and records when it changed', async () => {
+      await accounts.signup({ email: 'ada@example.com' });
+      const verified = await accounts.verifyEmail(lastToken(sendEmailVerification), PASSWORD);
+
+      await accounts.requestPasswordReset('ada@example.com');
+      const reset = await accounts.resetPassword(lastToken(sendPasswordReset), 'new password 99');
+
+      expect(reset.passwordChangedAt).toBeGreaterThanOrEqual(verified.passwordChangedAt!);
+      expect(await accounts.authenticate('ada@example.com', PASSWORD)).toBeNull();
+      expect(await accounts.authenticate('ada@example.com', 'new password 99')).not.toBeNull();
+    });
+
+    it('sends nothing for unknown emails', async () => {
+      await accounts.requestPasswordReset('nobody@example.com');
+      expect(sendPasswordReset).not.toHaveBeenCalled();
+    });
+  });
+
+  it('keeps disabled accounts out', async () => {
+    await accounts.signup({ email: 'ada@example.com' });
+    const user = await accounts.verifyEmail(lastToken(sendEmailVerification), PASSWORD);
+
+    await accounts.setDisabled(user.id, true);
+    expect(await accounts.authenticate('ada@example.com', PASSWORD)).toBeNull();
+  });
+});
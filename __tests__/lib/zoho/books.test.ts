@@ -0,0 +1,141 @@
+import { zohoFetch, zohoFetchRaw } from '@/lib/zoho/client';
+import {
+  createInvoice,
+  findContactByEmail,
+  getInvoice,
+  getInvoicePaymentStatus,
+  listAll,
+  listInvoices,
+  type BooksListResult,
+} from '@/lib/zoho/books';
+
+jest.mock('@/lib/zoho/client', () => ({
+  zohoFetch: jest.fn(),
+  zohoFetchRaw: jest.fn(),
+}));
+
+const fetchMock = zohoFetch as jest.Mock;
+
+/** Path and query of the most recent Books call */
+function lastCall() {
+  const [svc, path, init] = fetchMock.mock.calls[fetchMock.mock.calls.length - 1];
+  const url = new URL(path, 'https://books.test');
+  return { svc, pathname: url.pathname, query: Object.fromEntries(url.searchParams), init };
+}
+
+function daysFromNow(days: number) {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+describe('zoho books', () => {
+  const saved = { ...process.env };
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    (zohoFetchRaw as jest.Mock).mockReset();
+    process.env.ZOHO_BOOKS_ORG_ID = 'org-1';
+  });
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('lists invoices with the organization, paging and filters Books expects', async () => {
+    fetchMock.mockResolvedValue({
+      invoices: [{ invoice_id: 'inv-1' }],
+      page_context: { page: 2, per_page: 200, has_more_page: true },
+    });
+
+    const result = await listInvoices({
+      page: 2,
+      perPage: 500,
+      status: 'overdue',
+      dateFrom: '2026-01-01T00:00:00.000Z',
+      search: '',
+    });
+
+    expect(lastCall()).toMatchObject({
+      svc: 'books',
+      pathname: '/invoices',
+      query: { organization_id: 'org-1', page: '2', per_page: '200', status: 'overdue', date_start: '2026-01-01' },
+    });
+    expect(lastCall().query).not.toHaveProperty('search_text');
+    expect(result).toEqual({
+      items: [{ invoice_id: 'inv-1' }],
+      pageContext: expect.objectContaining({ page: 2, per_page: 200, has_more_page: true }),
+    });
+  });
+
+  it('fills in the page context when Books leaves it out', async () => {
+    fetchMock.mockResolvedValue({ invoices: [] });
+    expect((await listInvoices()).pageContext).toMatchObject({ page: 1, per_page: 25, has_more_page: false });
+  });
+
+  it('needs an organization id', async () => {
+    delete process.env.ZOHO_BOOKS_ORG_ID;
+    delete process.env.ZOHO_ORG_ID;
+    await expect(listInvoices()).rejects.toThrow('zoho:books:organization_missing');
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await listInvoices({}, { organizationId: 'org-2' }).catch(() => undefined);
+    expect(lastCall().query.organization_id).toBe('org-2');
+  });
+
+  it('reports a missing record as not found', async () => {
+    fetchMock.mockResolvedValue({ message: 'success' });
+    await expect(getInvoice('inv/1')).rejects.toThrow('zoho:books:invoices_not_found');
+    expect(lastCall().pathname).toBe('/invoices/inv%2F1');
+  });
+
+  it('works out how much of an invoice is paid and whether it is overdue', async () => {
+    fetchMock.mockResolvedValueOnce({
+      invoice: { invoice_id: 'inv-1', status: 'sent', currency_code: 'EUR', total: 100, balance: 40, due_date: daysFromNow(-1) },
+    });
+    expect(await getInvoicePaymentStatus('inv-1')).toMatchObject({ paid: 60, balance: 40, isOverdue: true, payments: [] });
+
+    fetchMock.mockResolvedValueOnce({
+      invoice: { invoice_id: 'inv-2', status: 'paid', total: 100, balance: 0, payment_made: 100, due_date: daysFromNow(-1) },
+    });
+    expect(await getInvoicePaymentStatus('inv-2')).toMatchObject({ paid: 100, isOverdue: false });
+
+    fetchMock.mockResolvedValueOnce({
+      invoice: { invoice_id: 'inv-3', status: 'sent', total: 100, balance: 100, due_date: daysFromNow(7) },
+    });
+    expect(await getInvoicePaymentStatus('inv-3')).toMatchObject({ paid: 0, isOverdue: false });
+  });
+
+  it('fails a create that returns no invoice', async () => {
+    fetchMock.mockResolvedValue({ message: 'Customer missing' });
+    await expect(createInvoice({ customer_id: 'c-1' })).rejects.toThrow('zoho:books:invoice_create_failed - Customer missing');
+    expect(lastCall().init).toMatchObject({ method: 'POST', body: JSON.stringify({ customer_id: 'c-1' }) });
+  });
+
+  it('finds a customer contact by exact email only', async () => {
+    fetchMock.mockResolvedValue({
+      contacts: [
+        { contact_id: 'c-1', email: 'ada.smith@example.com' },
+        { contact_id: 'c-2', email: ' Ada@Example.com ' },
+      ],
+    });
+
+    expect(await findContactByEmail('ADA@example.com')).toMatchObject({ contact_id: 'c-2' });
+    expect(lastCall().query).toMatchObject({ email: 'ada@example.com', contact_type: 'customer' });
+    expect(await findContactByEmail('  ')).toBeNull();
+  });
+
+  it('follows pages until Books says there are no more', async () => {
+    const page = (items: number[], more: boolean): BooksListResult<number> => ({
+      items,
+      pageContext: { page: 1, per_page: 2, has_more_page: more },
+    });
+    const fetchPage = jest.fn()
+      .mockResolvedValueOnce(page([1, 2], true))
+      .mockResolvedValueOnce(page([3], false));
+
+    expect(await listAll(fetchPage)).toEqual([1, 2, 3]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+
+    const endless = jest.fn(async () => page([1], true));
+    expect(await listAll(endless, 3)).toEqual([1, 1, 1]);
+  });
+});
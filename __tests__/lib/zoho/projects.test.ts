@@ -0,0 +1,159 @@
+import { zohoFetch, zohoFetchRaw } from '@/lib/zoho/client';
+import {
+  formatProjectsDate,
+  getProject,
+  getProjectOverview,
+  listProjects,
+  listTasks,
+  listTimeLogs,
+  projectProgress,
+  updateProject,
+  type ZohoProject,
+} from '@/lib/zoho/projects';
+
+jest.mock('@/lib/zoho/client', () => ({
+  zohoFetch: jest.fn(),
+  zohoFetchRaw: jest.fn(),
+}));
+
+const fetchMock = zohoFetch as jest.Mock;
+const fetchRawMock = zohoFetchRaw as jest.Mock;
+
+/** Path and query of the most recent call through `mock` */
+function lastCall(mock: jest.Mock) {
+  const [svc, path, init] = mock.mock.calls[mock.mock.calls.length - 1];
+  const url = new URL(path, 'https://projects.test');
+  return { svc, pathname: url.pathname, query: Object.fromEntries(url.searchParams), init };
+}
+
+function project(overrides: Partial<ZohoProject> = {}): ZohoProject {
+  return {
+    id: '1001',
+    id_string: '1001',
+    name: 'Gearbox housing',
+    status: 'active',
+    task_count: { open: 3, closed: 1 },
+    ...overrides,
+  };
+}
+
+describe('zoho projects', () => {
+  const saved = { ...process.env };
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchRawMock.mockReset();
+    process.env.ZOHO_PROJECTS_PORTAL_ID = 'portal-1';
+  });
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('pages with a 1-based index and range capped at 200', async () => {
+    fetchRawMock.mockResolvedValue(Response.json({ projects: Array.from({ length: 200 }, (_v, index) => ({ id: String(index) })) }));
+
+    const result = await listProjects({ page: 3, perPage: 500, status: 'active' });
+
+    expect(lastCall(fetchRawMock)).toMatchObject({
+      svc: 'projects',
+      pathname: '/portal/portal-1/projects/',
+      query: { index: '401', range: '200', status: 'active' },
+    });
+    expect(result).toMatchObject({ index: 401, range: 200, hasMore: true });
+  });
+
+  it('reads an empty 204 answer as an empty list', async () => {
+    fetchRawMock.mockResolvedValue(new Response(null, { status: 204 }));
+    expect(await listProjects()).toMatchObject({ items: [], hasMore: false });
+  });
+
+  it('needs a portal id', async () => {
+    delete process.env.ZOHO_PROJECTS_PORTAL_ID;
+    expect(() => listProjects()).toThrow('zoho:projects:portal_missing');
+    expect(fetchRawMock).not.toHaveBeenCalled();
+  });
+
+  it('lists tasks of one task list when asked to', async () => {
+    fetchRawMock.mockImplementation(async () => Response.json({ tasks: [] }));
+
+    await listTasks('1001', { tasklistId: 'tl/9', status: 'notcompleted' });
+    expect(lastCall(fetchRawMock)).toMatchObject({
+      pathname: '/portal/portal-1/projects/1001/tasklists/tl%2F9/tasks/',
+      query: { status: 'notcompleted' },
+    });
+
+    await listTasks('1001');
+    expect(lastCall(fetchRawMock).pathname).toBe('/portal/portal-1/projects/1001/tasks/');
+  });
+
+  it('reports a missing project as not found', async () => {
+    fetchMock.mockResolvedValue({});
+    await expect(getProject('1001')).rejects.toThrow('zoho:projects:project_not_found');
+  });
+
+  it('sends updates as form fields and leaves unset ones out', async () => {
+    fetchMock.mockResolvedValue({ projects: [project({ name: 'Renamed' })] });
+
+    expect(await updateProject('1001', { name: 'Renamed', description: undefined })).toMatchObject({ name: 'Renamed' });
+    const { init } = lastCall(fetchMock);
+    expect(init.method).toBe('POST');
+    expect(init.body.toString()).toBe('name=Renamed');
+  });
+
+  it('asks for time logs with the defaults Zoho requires', async () => {
+    fetchMock.mockResolvedValue({ timelogs: { date: [{ date: '03-02-2026', totalhours: '02:30' }], grandtotal: '02:30' } });
+
+    const logs = await listTimeLogs('1001', { date: '03-01-2026' });
+    expect(lastCall(fetchMock).query).toMatchObject({
+      users_list: 'all',
+      view_type: 'month',
+      date: '03-01-2026',
+      bill_status: 'All',
+      component_type: 'task',
+    });
+    expect(logs).toEqual({ days: [{ date: '03-02-2026', totalhours: '02:30' }], grandTotal: '02:30' });
+
+    fetchMock.mockResolvedValue({});
+    expect(await listTimeLogs('1001')).toEqual({ days: [], grandTotal: '00:00' });
+  });
+
+  it('formats dates as MM-DD-YYYY', () => {
+    expect(formatProjectsDate(new Date(2026, 2, 7))).toBe('03-07-2026');
+  });
+
+  it('derives progress from open and closed tasks', () => {
+    expect(projectProgress(project())).toBe(25);
+    expect(projectProgress(project({ task_count: undefined }))).toBe(0);
+  });
+
+  it('builds the portal overview with the next open milestone', async () => {
+    const past = Date.now() - 24 * 60 * 60 * 1000;
+    const future = Date.now() + 24 * 60 * 60 * 1000;
+    fetchRawMock.mockResolvedValue(Response.json({
+      milestones: [
+        { id: 'm3', name: 'Delivery', status: 'notcompleted', end_date_long: future + 1000 },
+        { id: 'm1', name: 'Concept', status: 'completed', end_date_long: past - 1000 },
+        { id: 'm2', name: 'Prototype', status: 'notcompleted', end_date_long: past },
+      ],
+    }));
+
+    const overview = await getProjectOverview(project({ custom_status_name: 'In Progress' }));
+
+    expect(overview).toMatchObject({
+      id: '1001',
+      status: 'In Progress',
+      progress: 25,
+      tasks: { open: 3, closed: 1 },
+      nextMilestone: { id: 'm2', name: 'Prototype', overdue: true },
+    });
+    expect(overview.milestones.map(milestone => [milestone.id, milestone.completed])).toEqual([
+      ['m1', true], ['m2', false], ['m3', false],
+    ]);
+  });
+
+  it('still shows the project when its milestones fail to load', async () => {
+    fetchRawMock.mockRejectedValue(new Error('zoho down'));
+    expect(await getProjectOverview(project())).toMatchObject({ milestones: [], nextMilestone: undefined });
+  });
+});
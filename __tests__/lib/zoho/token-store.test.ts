@@ -0,0 +1,167 @@
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createTokenStore, FileTokenStore, MemoryTokenStore, type TokenStore } from '@/lib/zoho/token-store';
+
+type StoreSetup = () => Promise<{ store: TokenStore; cleanup: () => Promise<void> }>;
+
+describe.each<[string, StoreSetup]>([
+  ['MemoryTokenStore', async () => ({ store: new MemoryTokenStore(), cleanup: async () => undefined })],
+  ['FileTokenStore', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'zoho-tokens-'));
+    return { store: new FileTokenStore(dir), cleanup: () => rm(dir, { recursive: true, force: true }) };
+  }],
+])('%s', (_name, setup) => {
+  it('keeps one token per service', async () => {
+    const { store, cleanup } = await setup();
+    try {
+      await store.set('crm', { token: 'crm-token', exp: 100 });
+      await store.set('books', { token: 'books-token', exp: 200 });
+      expect(await store.get('crm')).toEqual({ token: 'crm-token', exp: 100 });
+
+      await store.delete('crm');
+      expect(await store.get('crm')).toBeNull();
+      expect(await store.get('books')).toEqual({ token: 'books-token', exp: 200 });
+    } finally {
+      await cleanup();
+    }
+  });
+
+  it('hands the refresh lock to one holder at a time', async () => {
+    const { store, cleanup } = await setup();
+    try {
+      const release = await store.acquireLock('crm', 60_000);
+      expect(release).not.toBeNull();
+      expect(await store.acquireLock('crm', 60_000)).toBeNull();
+      expect(await store.acquireLock('books', 60_000)).not.toBeNull();
+
+      await release!();
+      expect(await store.acquireLock('crm', 60_000)).not.toBeNull();
+    } finally {
+      await cleanup();
+    }
+  });
+
+  it('takes over a lock whose holder went away', async () => {
+    const { store, cleanup } = await setup();
+    try {
+      await store.acquireLock('crm', 1);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(await store.acquireLock('crm', 1)).not.toBeNull();
+    } finally {
+      await cleanup();
+    }
+  });
+});
+
+describe('createTokenStore', () => {
+  const ENV_KEYS = [
+    'NODE_ENV', 'VERCEL', 'ZOHO_TOKEN_STORE', 'ZOHO_TOKEN_STORE_DIR',
+    'UPSTASH_REDIS_REST_URL', 'UPSTASH_REDIS_REST_TOKEN', 'KV_REST_API_URL', 'KV_REST_API_TOKEN',
+  ] as const;
+  const saved = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+  const env = process.env as Record<string, string | undefined>;
+
+  beforeEach(() => {
+    ENV_KEYS.forEach(key => { delete env[key]; });
+    env.NODE_ENV = 'test';
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    ENV_KEYS.forEach(key => { env[key] = saved[key]; });
+  });
+
+  it('keeps tokens on disk on a production host with a persistent disk', () => {
+    env.NODE_ENV = 'production';
+    expect(createTokenStore().kind).toBe('file');
+  });
+
+  it('falls back to per-instance memory on serverless production without Redis', () => {
+    env.NODE_ENV = 'production';
+    env.VERCEL = '1';
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(createTokenStore().kind).toBe('memory');
+  });
+
+  it('uses Redis when it is configured', () => {
+    env.UPSTASH_REDIS_REST_URL = 'https://redis.example.com';
+    env.UPSTASH_REDIS_REST_TOKEN = 'token';
+    expect(createTokenStore().kind).toBe('redis');
+  });
+});
+
+describe('zoho access tokens', () => {
+  const saved = { ...process.env };
+  const realFetch = global.fetch;
+  let client: typeof import('@/lib/zoho/client');
+  let fetchMock: jest.Mock;
+
+  beforeAll(async () => {
+    process.env.ZOHO_CLIENT_ID = 'client-id';
+    process.env.ZOHO_CLIENT_SECRET = 'client-secret';
+    process.env.ZOHO_CRM_REFRESH_TOKEN = 'refresh-token';
+    client = await import('@/lib/zoho/client');
+  });
+
+  beforeEach(() => {
+    let issued = 0;
+    fetchMock = jest.fn(async () => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      issued += 1;
+      return new Response(JSON.stringify({ access_token: `token-${issued}`, expires_in: 3600 }), { status: 200 });
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    global.fetch = realFetch;
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = { ...saved };
+  });
+
+  it('shares one refresh between concurrent callers', async () => {
+    const store = new MemoryTokenStore();
+    client.setZohoTokenStore(store);
+
+    const tokens = await Promise.all(Array.from({ length: 5 }, () => client.zohoAccessToken('crm')));
+    expect(tokens).toEqual(Array(5).fill('token-1'));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(await store.get('crm')).toMatchObject({ token: 'token-1' });
+
+    // Cached until it expires
+    expect(await client.zohoAccessToken('crm')).toBe('token-1');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for another instance that holds the refresh lock', async () => {
+    const store = new MemoryTokenStore();
+    client.setZohoTokenStore(store);
+    const release = await store.acquireLock('crm', 60_000);
+
+    const token = client.zohoAccessToken('crm');
+    await store.set('crm', { token: 'from-elsewhere', exp: Math.floor(Date.now() / 1000) + 3600 });
+    await release!();
+
+    expect(await token).toBe('from-elsewhere');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('refreshes again once the cached token has expired', async () => {
+    const store = new MemoryTokenStore();
+    client.setZohoTokenStore(store);
+    await store.set('crm', { token: 'stale', exp: Math.floor(Date.now() / 1000) - 1 });
+
+    expect(await client.zohoAccessToken('crm')).toBe('token-1');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
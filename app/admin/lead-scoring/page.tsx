@@ -0,0 +1,17 @@
+import { Metadata } from 'next';
+import LeadScoringDashboard from '@/components/admin/LeadScoringDashboard';
+
+export const metadata: Metadata = {
+  title: 'Lead Scoring | IdEinstein Admin',
+  description: 'Edit the rules that rate incoming leads and explain the score of a sample submission',
+};
+
+export default function LeadScoringPage() {
+  return (
+    <div className="container mx-auto px-4 py-8 pt-24 min-h-screen">
+      <div className="max-w-7xl mx-auto">
+        <LeadScoringDashboard />
+      </div>
+    </div>
+  );
+}
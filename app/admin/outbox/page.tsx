@@ -0,0 +1,17 @@
+import { Metadata } from 'next';
+import OutboxDashboard from '@/components/admin/OutboxDashboard';
+
+export const metadata: Metadata = {
+  title: 'Submission Outbox | IdEinstein Admin',
+  description: 'Review queued and failed Zoho form submission steps and retry them',
+};
+
+export default function OutboxPage() {
+  return (
+    <div className="container mx-auto px-4 py-8 pt-24 min-h-screen">
+      <div className="max-w-7xl mx-auto">
+        <OutboxDashboard />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { Metadata } from 'next';
+import CrmFieldsDashboard from '@/components/admin/CrmFieldsDashboard';
+
+export const metadata: Metadata = {
+  title: 'CRM Field Mapping | IdEinstein Admin',
+  description: 'Check the form-to-CRM field mappings against the Zoho CRM field metadata',
+};
+
+export default function CrmFieldsPage() {
+  return (
+    <div className="container mx-auto px-4 py-8 pt-24 min-h-screen">
+      <div className="max-w-7xl mx-auto">
+        <CrmFieldsDashboard />
+      </div>
+    </div>
+  );
+}
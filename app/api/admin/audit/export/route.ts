@@ -0,0 +1,71 @@
+/**
+ * Audit Log Export API
+ * Downloads filtered audit entries as CSV or JSON. Needs both VIEW_AUDIT_LOGS and EXPORT_DATA,
+ * and the export itself is written to the audit trail
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Permission, RBACService, requireAdminOrPermissions } from '@/lib/rbac';
+import { AuditLogger } from '@/lib/audit';
+import { auditEntriesToCsv, getAuditTrail } from '@/lib/audit-log';
+import { AuditExportSchema } from '@/lib/validations/api';
+
+export async function GET(request: NextRequest) {
+  const access = await requireAdminOrPermissions(request, [Permission.VIEW_AUDIT_LOGS, Permission.EXPORT_DATA]);
+  if (access instanceof Response) {
+    return access;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const validationResult = AuditExportSchema.safeParse(Object.fromEntries(searchParams.entries()));
+  if (!validationResult.success) {
+    return NextResponse.json(
+      { error: 'Invalid parameters', details: validationResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { format, ...query } = validationResult.data;
+    const trail = getAuditTrail();
+    const result = await trail.query(query);
+
+    await AuditLogger.log({
+      userId: access.actor,
+      action: 'audit_export',
+      entity: 'audit',
+      meta: { format, filters: query, exported: result.entries.length },
+      ipAddress: RBACService.getClientIP(request),
+      userAgent: request.headers.get('user-agent') || undefined
+    });
+
+    const filename = `audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+    const headers = {
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store'
+    };
+
+    if (format === 'json') {
+      return NextResponse.json(
+        { exportedAt: new Date().toISOString(), count: result.entries.length, hasMore: result.hasMore, entries: result.entries },
+        { headers }
+      );
+    }
+
+    return new NextResponse(auditEntriesToCsv(result.entries), {
+      headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' }
+    });
+  } catch (error) {
+    console.error('Audit export error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to export audit log',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
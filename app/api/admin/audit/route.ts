@@ -0,0 +1,52 @@
+/**
+ * Audit Log API
+ * Queries the hash-chained audit trail by user, action, entity and time range.
+ * `?verify=true` also recomputes the chain and reports the first broken entry
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Permission, requireAdminOrPermissions } from '@/lib/rbac';
+import { getAuditTrail } from '@/lib/audit-log';
+import { AuditQuerySchema } from '@/lib/validations/api';
+
+export async function GET(request: NextRequest) {
+  const access = await requireAdminOrPermissions(request, [Permission.VIEW_AUDIT_LOGS]);
+  if (access instanceof Response) {
+    return access;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const verify = searchParams.get('verify') === 'true';
+  searchParams.delete('verify');
+
+  const validationResult = AuditQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+  if (!validationResult.success) {
+    return NextResponse.json(
+      { error: 'Invalid parameters', details: validationResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const trail = getAuditTrail();
+    const result = await trail.query(validationResult.data);
+
+    return NextResponse.json({
+      ...result,
+      store: trail.storeKind,
+      ...(verify && { integrity: await trail.verify() })
+    });
+  } catch (error) {
+    console.error('Audit query error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to query audit log',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
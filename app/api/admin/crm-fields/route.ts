@@ -0,0 +1,41 @@
+/**
+ * CRM Field Mapping Diagnostic
+ * Reports mapped CRM fields that are missing, mistyped or read-only in Zoho, and mandatory CRM
+ * fields a form never sets. `?refresh=true` re-reads the CRM metadata instead of using the
+ * result of the startup check
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/auth/admin-auth';
+import { checkCrmFieldMappings, getCrmFieldReport, LEAD_MAPPINGS } from '@/lib/crm-mapping';
+
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const refresh = new URL(request.url).searchParams.get('refresh') === 'true';
+    const report = (!refresh && getCrmFieldReport()) || await checkCrmFieldMappings();
+
+    return NextResponse.json({
+      report,
+      mappings: LEAD_MAPPINGS.map(mapping => ({
+        form: mapping.form,
+        module: mapping.module,
+        fields: [
+          ...mapping.fields.map(entry => ({ field: entry.field, type: entry.type, required: !!entry.required })),
+          ...(mapping.followUp || []).map(entry => ({ field: entry.field, type: entry.type, required: false, followUp: true }))
+        ]
+      }))
+    });
+  } catch (error) {
+    console.error('CRM field check error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to check CRM fields',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
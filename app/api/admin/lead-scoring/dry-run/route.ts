@@ -0,0 +1,36 @@
+/**
+ * Lead Scoring Dry Run
+ * Scores a sample form payload without creating a lead and explains every rule's outcome.
+ * Pass `ruleset` to try edits before saving them
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminAuth } from '@/lib/auth/admin-auth';
+import { getLeadScoring, leadFactsFrom } from '@/lib/lead-scoring';
+import { LeadScoringDryRunSchema } from '@/lib/validations/api';
+import { validateRequestBody } from '@/lib/middleware/validation';
+
+export const POST = withAdminAuth(async (request: NextRequest) => {
+  const validation = await validateRequestBody(request, LeadScoringDryRunSchema);
+  if (!validation.success) {
+    return validation.response;
+  }
+
+  try {
+    const { form, payload, attachments, ruleset } = validation.data;
+    const explanation = await getLeadScoring().explain(leadFactsFrom(form, payload, attachments), ruleset);
+    return NextResponse.json({ explanation });
+  } catch (error) {
+    console.error('Lead scoring dry run error:', error);
+    return NextResponse.json(
+      {
+        error: 'Dry run failed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
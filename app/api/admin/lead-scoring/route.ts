@@ -0,0 +1,67 @@
+/**
+ * Lead Scoring Admin API
+ * Reads the ruleset that rates quote, contact and consultation leads, and saves edits to it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminAuth, withAdminAuth } from '@/lib/auth/admin-auth';
+import { AuditLogger } from '@/lib/audit';
+import { DEFAULT_SCORING_RULESET, getLeadScoring, LeadScoringError } from '@/lib/lead-scoring';
+import { LeadScoringRulesetSchema } from '@/lib/validations/api';
+import { validateRequestBody } from '@/lib/middleware/validation';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof LeadScoringError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json(
+    {
+      error: fallback,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    },
+    { status: 500 }
+  );
+}
+
+export const GET = withAdminAuth(async () => {
+  try {
+    const ruleset = await getLeadScoring().rules();
+    return NextResponse.json({
+      ruleset,
+      isDefault: ruleset === DEFAULT_SCORING_RULESET,
+      defaults: DEFAULT_SCORING_RULESET
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load lead scoring rules');
+  }
+});
+
+export const PUT = withAdminAuth(async (request: NextRequest) => {
+  const validation = await validateRequestBody(request, LeadScoringRulesetSchema);
+  if (!validation.success) {
+    return validation.response;
+  }
+
+  try {
+    const { version, thresholds, rules } = validation.data;
+    const adminId = getAdminAuth(request)?.adminId || 'admin';
+    const saved = await getLeadScoring().save({ thresholds, rules }, version, adminId);
+
+    await AuditLogger.log({
+      userId: adminId,
+      action: 'lead_scoring_update',
+      entity: 'lead_scoring',
+      entityId: String(saved.version),
+      meta: { previousVersion: version, rules: rules.length, thresholds }
+    });
+
+    return NextResponse.json({ success: true, ruleset: saved });
+  } catch (error) {
+    return errorResponse(error, 'Failed to save lead scoring rules');
+  }
+});
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
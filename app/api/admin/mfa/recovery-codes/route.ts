@@ -0,0 +1,56 @@
+/**
+ * Admin Recovery Codes API
+ * Replaces all recovery codes; the new set is returned once
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminAuth, withAdminAuth } from '@/lib/auth/admin-auth';
+import { AdminMfaError, getAdminMfa } from '@/lib/auth/admin-mfa';
+import { securityLogger } from '@/lib/security/logging';
+import { AdminMfaCodeSchema } from '@/lib/validations/api';
+import { validateRequestBody } from '@/lib/middleware/validation';
+
+export const POST = withAdminAuth(async (request: NextRequest) => {
+  const { adminId } = getAdminAuth(request)!;
+  const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown';
+
+  const validation = await validateRequestBody(request, AdminMfaCodeSchema);
+  if (!validation.success) {
+    return validation.response;
+  }
+
+  try {
+    const { recoveryCodes } = await getAdminMfa().regenerateRecoveryCodes(adminId!, validation.data.code);
+
+    securityLogger.logEvent({
+      type: 'mfa_event',
+      severity: 'medium',
+      ip,
+      url: request.url,
+      method: request.method,
+      userId: adminId,
+      details: { action: 'recovery_codes_regenerated' }
+    });
+
+    return NextResponse.json({ success: true, recoveryCodes });
+  } catch (error) {
+    if (error instanceof AdminMfaError) {
+      securityLogger.logEvent({
+        type: 'auth_failure',
+        severity: 'high',
+        ip,
+        url: request.url,
+        method: request.method,
+        userId: adminId,
+        details: { endpoint: 'admin_mfa_recovery_codes', reason: error.code }
+      });
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+
+    console.error('Failed to regenerate recovery codes:', error);
+    return NextResponse.json({ error: 'Failed to regenerate recovery codes' }, { status: 500 });
+  }
+});
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
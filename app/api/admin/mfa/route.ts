@@ -0,0 +1,145 @@
+/**
+ * Admin Two-Factor Authentication API
+ * GET status, POST starts TOTP enrollment, PUT confirms it, DELETE turns 2FA off
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminAuth, withAdminAuth } from '@/lib/auth/admin-auth';
+import { AdminMfaError, getAdminMfa } from '@/lib/auth/admin-mfa';
+import { createAdminSession, revokeAllAdminSessions } from '@/lib/auth/admin-session';
+import { securityLogger } from '@/lib/security/logging';
+import { AdminMfaCodeSchema } from '@/lib/validations/api';
+import { validateRequestBody } from '@/lib/middleware/validation';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof AdminMfaError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json(
+    {
+      error: fallback,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    },
+    { status: 500 }
+  );
+}
+
+function logMfaEvent(request: NextRequest, adminId: string, action: string, severity: 'low' | 'medium' | 'high' = 'medium') {
+  securityLogger.logEvent({
+    type: 'mfa_event',
+    severity,
+    ip: request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown',
+    url: request.url,
+    method: request.method,
+    userId: adminId,
+    details: { action }
+  });
+}
+
+function logMfaFailure(request: NextRequest, adminId: string, error: unknown) {
+  if (!(error instanceof AdminMfaError) || error.status !== 401) return;
+
+  securityLogger.logEvent({
+    type: 'auth_failure',
+    severity: 'high',
+    ip: request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown',
+    url: request.url,
+    method: request.method,
+    userId: adminId,
+    details: { endpoint: 'admin_mfa', reason: error.code }
+  });
+}
+
+// Password-only sessions may reach these handlers so an admin can finish enrolling
+const pendingMfa = { allowPendingMfa: true };
+
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  const { adminId, mfa } = getAdminAuth(request)!;
+
+  try {
+    const status = await getAdminMfa().getStatus(adminId!);
+    return NextResponse.json({ ...status, sessionVerified: !!mfa });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load two-factor status');
+  }
+}, pendingMfa);
+
+export const POST = withAdminAuth(async (request: NextRequest) => {
+  const { adminId } = getAdminAuth(request)!;
+
+  try {
+    const enrollment = await getAdminMfa().beginEnrollment(adminId!);
+    logMfaEvent(request, adminId!, 'enrollment_started', 'low');
+
+    return NextResponse.json({
+      success: true,
+      // Shown once for manual entry; the app can also scan otpauthUrl as a QR code
+      secret: enrollment.secret,
+      otpauthUrl: enrollment.otpauthUrl
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to start two-factor enrollment');
+  }
+}, pendingMfa);
+
+export const PUT = withAdminAuth(async (request: NextRequest) => {
+  const { adminId } = getAdminAuth(request)!;
+
+  const validation = await validateRequestBody(request, AdminMfaCodeSchema);
+  if (!validation.success) {
+    return validation.response;
+  }
+
+  try {
+    const { recoveryCodes } = await getAdminMfa().confirmEnrollment(adminId!, validation.data.code);
+
+    // Swap the password-only session for one that carries the second factor. Every other session of
+    // this admin started with the password alone, so they go too
+    await revokeAllAdminSessions(adminId!);
+    const tokens = await createAdminSession(adminId!, {
+      ip: request.headers.get('x-forwarded-for')?.split(',')[0] || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+      mfa: true
+    });
+
+    logMfaEvent(request, adminId!, 'enrolled');
+
+    return NextResponse.json({
+      success: true,
+      recoveryCodes,
+      accessToken: tokens.accessToken,
+      accessExpiresAt: tokens.accessExpiresAt,
+      refreshToken: tokens.refreshToken,
+      refreshExpiresAt: tokens.refreshExpiresAt
+    });
+  } catch (error) {
+    logMfaFailure(request, adminId!, error);
+    return errorResponse(error, 'Failed to confirm two-factor enrollment');
+  }
+}, pendingMfa);
+
+// Requires a fully verified session plus a current code; the admin's other sessions are signed out
+export const DELETE = withAdminAuth(async (request: NextRequest) => {
+  const { adminId, sessionId } = getAdminAuth(request)!;
+
+  const validation = await validateRequestBody(request, AdminMfaCodeSchema);
+  if (!validation.success) {
+    return validation.response;
+  }
+
+  try {
+    await getAdminMfa().disable(adminId!, validation.data.code);
+    await revokeAllAdminSessions(adminId!, sessionId);
+    logMfaEvent(request, adminId!, 'disabled', 'high');
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logMfaFailure(request, adminId!, error);
+    return errorResponse(error, 'Failed to disable two-factor authentication');
+  }
+});
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
@@ -0,0 +1,105 @@
+/**
+ * Outbox Admin API
+ * Lists pending/failed/quarantined form submissions and triggers manual retries (which also release quarantine)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAdminAuth } from '@/lib/auth/admin-auth';
+import { getOutbox } from '@/lib/outbox';
+
+const listQuerySchema = z.object({
+  status: z.enum(['pending', 'completed', 'failed', 'quarantined']).optional(),
+  form: z.enum(['quote', 'contact', 'consultation', 'newsletter']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+});
+
+const actionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('retry'), submissionId: z.string().min(1) }),
+  z.object({ action: z.literal('process'), limit: z.number().int().min(1).max(100).optional() })
+]);
+
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const validationResult = listQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid parameters', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const outbox = getOutbox();
+    const records = await outbox.list(validationResult.data);
+    const all = await outbox.list();
+
+    return NextResponse.json({
+      records,
+      counts: {
+        pending: all.filter(record => record.status === 'pending').length,
+        failed: all.filter(record => record.status === 'failed').length,
+        completed: all.filter(record => record.status === 'completed').length,
+        quarantined: all.filter(record => record.status === 'quarantined').length
+      }
+    });
+  } catch (error) {
+    console.error('Outbox list error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load outbox',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validationResult = actionSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validationResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const outbox = getOutbox();
+    const payload = validationResult.data;
+
+    if (payload.action === 'retry') {
+      const record = await outbox.retryNow(payload.submissionId);
+      if (!record) {
+        return NextResponse.json({ error: 'Submission not found' }, { status: 404 });
+      }
+
+      return NextResponse.json({
+        success: record.status === 'completed',
+        message: record.status === 'completed'
+          ? 'Submission replayed successfully'
+          : 'Retry attempted - some steps are still outstanding',
+        record
+      });
+    }
+
+    const result = await outbox.processDue(payload.limit);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Outbox action error:', error);
+    return NextResponse.json(
+      {
+        error: 'Outbox action failed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
+
+// Outbox stores use the filesystem
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
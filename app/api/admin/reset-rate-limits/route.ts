@@ -6,7 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { withAdminAuth } from '@/lib/auth/admin-auth';
-import { resetRateLimit, generateRateLimitKey, resetAllRateLimits } from '@/lib/security/rate-limit';
+import { resetRateLimit, generateRateLimitKey, resetAllRateLimits, getRateLimitStats } from '@/lib/security/rate-limit';
 
 // Rate limit reset validation schema
 const rateLimitResetSchema = z.object({
@@ -41,7 +41,7 @@ export const POST = withAdminAuth(async (request: NextRequest) => {
       case 'contact':
         // Reset contact form rate limits (consultation, contact, newsletter)
         const contactKey = generateRateLimitKey(request, 'contact');
-        resetRateLimit(contactKey);
+        await resetRateLimit(contactKey);
         resetCount = 1;
         break;
         
@@ -59,13 +59,13 @@ export const POST = withAdminAuth(async (request: NextRequest) => {
           headers: mockHeaders
         });
         const ipKey = generateRateLimitKey(mockRequest, 'contact');
-        resetRateLimit(ipKey);
+        await resetRateLimit(ipKey);
         resetCount = 1;
         break;
         
       case 'all':
         // Reset all rate limits using the proper reset function
-        resetAllRateLimits();
+        await resetAllRateLimits();
         resetCount = -1; // Indicates all were reset
         break;
         
@@ -97,9 +97,10 @@ export const POST = withAdminAuth(async (request: NextRequest) => {
   }
 });
 
-export const GET = withAdminAuth(async (request: NextRequest) => {
+export const GET = withAdminAuth(async () => {
   return NextResponse.json({
     message: 'Rate limit reset API',
+    stats: await getRateLimitStats(),
     actions: {
       'POST ?action=contact': 'Reset contact form rate limits',
       'POST ?action=ip&ip=<ip>': 'Reset rate limits for specific IP',
@@ -0,0 +1,137 @@
+/**
+ * Admin Session API
+ * POST exchanges a refresh token for a new token pair, DELETE revokes the session (logout)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { applyRateLimit, createRateLimitHeaders } from '@/lib/security/rate-limit';
+import { securityLogger } from '@/lib/security/logging';
+import { AdminSessionRefreshSchema, AdminSessionRevokeSchema } from '@/lib/validations/api';
+import { validateRequestBody } from '@/lib/middleware/validation';
+import { verifyAdminAuth } from '@/lib/auth/admin-auth';
+import {
+  refreshAdminSession,
+  revokeAdminSession,
+  revokeAllAdminSessions,
+  verifyAdminToken,
+} from '@/lib/auth/admin-session';
+
+export async function POST(request: NextRequest) {
+  const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown';
+
+  try {
+    const rateLimitConfig = {
+      windowMs: 15 * 60 * 1000, // 15 minutes
+      maxRequests: 30, // Refreshes happen every few minutes per open tab
+      message: 'Too many session refresh attempts. Please try again later.'
+    };
+
+    const rateLimitResult = await applyRateLimit(request, rateLimitConfig, 'admin_session');
+    const headers = createRateLimitHeaders(rateLimitResult);
+
+    if (!rateLimitResult.allowed) {
+      securityLogger.logEvent({
+        type: 'rate_limit',
+        severity: 'medium',
+        ip,
+        url: request.url,
+        method: request.method,
+        details: { endpoint: 'admin_session_refresh', limit: rateLimitConfig.maxRequests }
+      });
+
+      return NextResponse.json(
+        { success: false, message: rateLimitConfig.message },
+        { status: 429, headers }
+      );
+    }
+
+    const validation = await validateRequestBody(request, AdminSessionRefreshSchema);
+    if (!validation.success) {
+      return validation.response;
+    }
+
+    const result = await refreshAdminSession(validation.data.refreshToken);
+
+    if ('error' in result) {
+      securityLogger.logEvent({
+        type: 'auth_failure',
+        // A rotated refresh token showing up again means it was copied
+        severity: result.error === 'refresh_token_reused' ? 'critical' : 'medium',
+        ip,
+        url: request.url,
+        method: request.method,
+        details: { endpoint: 'admin_session_refresh', reason: result.error }
+      });
+
+      return NextResponse.json(
+        { success: false, message: 'Session expired. Please sign in again.', reason: result.error },
+        { status: 401, headers }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      accessToken: result.accessToken,
+      accessExpiresAt: result.accessExpiresAt,
+      refreshToken: result.refreshToken,
+      refreshExpiresAt: result.refreshExpiresAt
+    }, { headers });
+  } catch (error) {
+    console.error('Admin session refresh error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Session refresh failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const validation = await validateRequestBody(request, AdminSessionRevokeSchema);
+    if (!validation.success) {
+      return validation.response;
+    }
+
+    const { refreshToken, all } = validation.data;
+
+    // Prefer the access token; fall back to the refresh token once the access token has expired
+    let adminId: string | undefined;
+    let sessionId: string | undefined;
+
+    const authResult = await verifyAdminAuth(request, { allowPendingMfa: true });
+    if (authResult.isAuthenticated) {
+      adminId = authResult.adminId;
+      sessionId = authResult.sessionId;
+    } else if (refreshToken) {
+      const verification = await verifyAdminToken(refreshToken, 'refresh');
+      if (verification.valid) {
+        adminId = verification.claims.sub;
+        sessionId = verification.claims.sid;
+      }
+    }
+
+    if (!adminId || !sessionId) {
+      return NextResponse.json(
+        { success: false, message: 'Admin authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const revoked = all
+      ? await revokeAllAdminSessions(adminId)
+      : (await revokeAdminSession(sessionId)) ? 1 : 0;
+
+    console.log(`🔒 Admin ${adminId} revoked ${revoked} session(s)`);
+
+    return NextResponse.json({ success: true, revoked });
+  } catch (error) {
+    console.error('Admin session revoke error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Logout failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
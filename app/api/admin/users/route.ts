@@ -0,0 +1,86 @@
+/**
+ * Customer Users Admin API
+ * Lists portal accounts, invites CRM contacts and changes roles / access
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminAuth, withAdminAuth } from '@/lib/auth/admin-auth';
+import { AccountError, getCustomerAccounts } from '@/lib/users';
+import { UserRole } from '@/lib/rbac';
+import { UserInviteSchema, UserUpdateSchema } from '@/lib/validations/api';
+import { validateRequestBody } from '@/lib/middleware/validation';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof AccountError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json(
+    {
+      error: fallback,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    },
+    { status: 500 }
+  );
+}
+
+export const GET = withAdminAuth(async () => {
+  try {
+    const users = await getCustomerAccounts().list();
+    return NextResponse.json({ users });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load users');
+  }
+});
+
+// Invite a CRM contact to the client portal
+export const POST = withAdminAuth(async (request: NextRequest) => {
+  const validation = await validateRequestBody(request, UserInviteSchema);
+  if (!validation.success) {
+    return validation.response;
+  }
+
+  try {
+    const { email, role, name } = validation.data;
+    const result = await getCustomerAccounts().invite({
+      email,
+      name,
+      role: role as UserRole | undefined,
+      invitedBy: getAdminAuth(request)?.adminId || 'admin'
+    });
+
+    return NextResponse.json({
+      success: true,
+      user: result.user,
+      emailSent: result.emailSent,
+      // Lets the admin pass the link on manually when SMTP isn't configured
+      ...(!result.emailSent && { inviteLink: result.link })
+    }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to invite user');
+  }
+});
+
+export const PATCH = withAdminAuth(async (request: NextRequest) => {
+  const validation = await validateRequestBody(request, UserUpdateSchema);
+  if (!validation.success) {
+    return validation.response;
+  }
+
+  try {
+    const { userId, role, disabled } = validation.data;
+    const accounts = getCustomerAccounts();
+    let user = role ? await accounts.setRole(userId, role as UserRole) : null;
+    if (disabled !== undefined) {
+      user = await accounts.setDisabled(userId, disabled);
+    }
+
+    return NextResponse.json({ success: true, user });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update user');
+  }
+});
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
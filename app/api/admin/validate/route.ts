@@ -1,32 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import bcrypt from 'bcryptjs';
 import { applyRateLimit, getRateLimitConfig, createRateLimitHeaders } from '@/lib/security/rate-limit';
 import { securityLogger } from '@/lib/security/logging';
 import { AdminValidateSchema } from '@/lib/validations/api';
 import { validateRequestBody } from '@/lib/middleware/validation';
-
-// Get admin password from environment - FORCE PLAIN PASSWORD MODE
-const ADMIN_PASSWORD_HASH = process.env.ADMIN_PASSWORD_HASH;
-const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD;
-
-// TEMPORARY FIX: Force plain password mode to bypass hash issues
-let adminPasswordHash: string;
-let useHashedPassword = false; // Force plain password mode
-
-if (ADMIN_PASSWORD) {
-  // Use plain password comparison
-  adminPasswordHash = ADMIN_PASSWORD;
-  useHashedPassword = false;
-  console.log('🔧 Using plain password authentication (temporary fix)');
-} else if (ADMIN_PASSWORD_HASH && ADMIN_PASSWORD_HASH.length === 60 && ADMIN_PASSWORD_HASH.startsWith('$2')) {
-  // Only use hash if it's valid format
-  adminPasswordHash = ADMIN_PASSWORD_HASH;
-  useHashedPassword = true;
-  console.log('🔒 Using bcrypt hash authentication');
-} else {
-  // No valid password configured
-  throw new Error('❌ CRITICAL: No valid admin authentication configured! Set ADMIN_PASSWORD environment variable.');
-}
+import { authenticateAdmin } from '@/lib/auth/admin-identities';
+import { getAdminMfa } from '@/lib/auth/admin-mfa';
+import { createAdminSession, isAdminMfaRequired } from '@/lib/auth/admin-session';
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
@@ -36,11 +15,11 @@ export async function POST(request: NextRequest) {
     // Apply rate limiting for admin authentication
     const rateLimitConfig = {
       windowMs: 15 * 60 * 1000, // 15 minutes
-      maxRequests: 5, // Only 5 attempts per 15 minutes
+      maxRequests: 10, // 10 attempts per 15 minutes (a 2FA login takes two requests)
       message: 'Too many admin authentication attempts. Please try again later.'
     };
     
-    const rateLimitResult = applyRateLimit(request, rateLimitConfig, 'admin_auth');
+    const rateLimitResult = await applyRateLimit(request, rateLimitConfig, 'admin_auth');
     
     if (!rateLimitResult.allowed) {
       // Log rate limit violation
@@ -79,25 +58,77 @@ export async function POST(request: NextRequest) {
       return validation.response;
     }
     
-    const { password } = validation.data;
+    const { username, password, otp, recoveryCode } = validation.data;
     
-    // Validate password using secure bcrypt comparison or fallback to plain text
-    let isValid: boolean;
-    if (useHashedPassword) {
-      isValid = await bcrypt.compare(password, adminPasswordHash);
-    } else {
-      // Fallback to plain password comparison for existing setup
-      isValid = password === adminPasswordHash;
-    }
+    const admin = await authenticateAdmin(username, password);
     
-    if (isValid) {
-      // Log successful authentication
-      console.log('✅ Admin authentication successful from IP:', ip);
-      
+    if (admin) {
       const headers = createRateLimitHeaders(rateLimitResult);
+      const mfa = getAdminMfa();
+      const enrolled = await mfa.isEnrolled(admin.id);
+      
+      // Password is right; admins with 2FA still need a code before any token is issued
+      if (enrolled) {
+        if (!otp && !recoveryCode) {
+          return NextResponse.json(
+            { success: false, mfaRequired: true, message: 'Enter the code from your authenticator app' },
+            { status: 401, headers }
+          );
+        }
+        
+        const verification = await mfa.verify(admin.id, { code: otp, recoveryCode });
+        if (!verification.valid) {
+          securityLogger.logEvent({
+            type: 'auth_failure',
+            severity: 'high',
+            ip,
+            url: request.url,
+            method: request.method,
+            userId: admin.id,
+            details: { 
+              reason: verification.reason, 
+              endpoint: 'admin_authentication',
+              responseTime: Date.now() - startTime
+            }
+          });
+          
+          return NextResponse.json(
+            { success: false, mfaRequired: true, message: 'Invalid verification code' },
+            { status: 401, headers }
+          );
+        }
+        
+        if (verification.method === 'recovery_code') {
+          securityLogger.logEvent({
+            type: 'mfa_event',
+            severity: verification.recoveryCodesRemaining <= 2 ? 'high' : 'medium',
+            ip,
+            url: request.url,
+            method: request.method,
+            userId: admin.id,
+            details: { action: 'recovery_code_used', remaining: verification.recoveryCodesRemaining }
+          });
+        }
+      }
+      
+      const tokens = await createAdminSession(admin.id, {
+        ip,
+        userAgent: request.headers.get('user-agent') || undefined,
+        mfa: enrolled
+      });
+      
+      console.log(`✅ Admin authentication successful for ${admin.id} from IP:`, ip);
+      
       return NextResponse.json({ 
         success: true, 
-        message: 'Authentication successful' 
+        message: 'Authentication successful',
+        admin,
+        // Password-only sessions may only enroll in 2FA until it is set up
+        mfaEnrollmentRequired: !enrolled && isAdminMfaRequired(),
+        accessToken: tokens.accessToken,
+        accessExpiresAt: tokens.accessExpiresAt,
+        refreshToken: tokens.refreshToken,
+        refreshExpiresAt: tokens.refreshExpiresAt
       }, { headers });
     } else {
       // Log failed authentication attempt
@@ -108,15 +139,16 @@ export async function POST(request: NextRequest) {
         url: request.url,
         method: request.method,
         details: { 
-          reason: 'invalid_password', 
+          reason: 'invalid_credentials', 
           endpoint: 'admin_authentication',
+          username: username || 'admin',
           responseTime: Date.now() - startTime
         }
       });
       
       const headers = createRateLimitHeaders(rateLimitResult);
       return NextResponse.json(
-        { success: false, message: 'Invalid password' },
+        { success: false, message: 'Invalid credentials' },
         { status: 401, headers }
       );
     }
@@ -153,5 +185,6 @@ export const runtime = 'nodejs';
  * Generate a secure password hash for admin authentication
  * Usage: node -e "const bcrypt = require('bcryptjs'); console.log(bcrypt.hashSync('your_secure_password', 12));"
  * 
- * Set the result as ADMIN_PASSWORD_HASH environment variable
- */
\ No newline at end of file
+ * Set the result as ADMIN_PASSWORD_HASH, or per admin in ADMIN_USERS:
+ * [{"id":"jane","name":"Jane Doe","passwordHash":"$2b$12$..."}]
+ */
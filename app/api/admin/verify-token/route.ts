@@ -1,41 +1,17 @@
 /**
  * Enterprise Admin Authentication API - Edge Runtime Compatible
- * This endpoint validates admin tokens using proper bcrypt validation
- * Can be called from client-side and middleware for authentication
+ * This endpoint validates signed admin session tokens, including revocation
+ * Can be called from client-side and middleware (when the session store isn't shared with Edge)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import bcrypt from 'bcryptjs';
 import { applyRateLimit, getRateLimitConfig } from '@/lib/security/rate-limit';
 import { securityLogger } from '@/lib/security/logging';
 import { AdminVerifyTokenSchema } from '@/lib/validations/api';
 import { validateRequestBody } from '@/lib/middleware/validation';
-
-// Get admin password from environment - FORCE PLAIN PASSWORD MODE
-const ADMIN_PASSWORD_HASH = process.env.ADMIN_PASSWORD_HASH;
-const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD;
-
-// TEMPORARY FIX: Force plain password mode to bypass hash issues
-let adminPasswordHash: string;
-let useHashedPassword = false; // Force plain password mode
-
-if (ADMIN_PASSWORD) {
-  // Use plain password comparison
-  adminPasswordHash = ADMIN_PASSWORD;
-  useHashedPassword = false;
-  console.log('🔧 Using plain password authentication (temporary fix)');
-} else if (ADMIN_PASSWORD_HASH && ADMIN_PASSWORD_HASH.length === 60 && ADMIN_PASSWORD_HASH.startsWith('$2')) {
-  // Only use hash if it's valid format
-  adminPasswordHash = ADMIN_PASSWORD_HASH;
-  useHashedPassword = true;
-  console.log('🔒 Using bcrypt hash authentication');
-} else {
-  // No valid password configured
-  throw new Error('❌ CRITICAL: No valid admin authentication configured! Set ADMIN_PASSWORD environment variable.');
-}
+import { isAdminMfaRequired, verifyAdminAccessToken } from '@/lib/auth/admin-session';
 
 export async function POST(request: NextRequest) {
-  const startTime = Date.now();
   const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown';
   
   try {
@@ -46,7 +22,7 @@ export async function POST(request: NextRequest) {
       message: 'Too many admin verification attempts. Please try again later.'
     };
     
-    const rateLimitResult = applyRateLimit(request, rateLimitConfig, 'admin_verify');
+    const rateLimitResult = await applyRateLimit(request, rateLimitConfig, 'admin_verify');
     
     if (!rateLimitResult.allowed) {
       securityLogger.logEvent({
@@ -76,58 +52,41 @@ export async function POST(request: NextRequest) {
     
     const { token } = validation.data;
     
-    // Verify token format and extract password
-    try {
-      const decoded = Buffer.from(token, 'base64').toString('utf-8');
-      if (!decoded.startsWith('admin:')) {
-        return NextResponse.json(
-          { isAuthenticated: false, reason: 'invalid_token_format' },
-          { status: 400 }
-        );
-      }
-      
-      // Extract password from token
-      const password = decoded.substring(6); // Remove 'admin:' prefix
-      
-      // Validate password using same logic as /api/admin/validate
-      let isValid: boolean;
-      if (useHashedPassword) {
-        isValid = await bcrypt.compare(password, adminPasswordHash);
-      } else {
-        isValid = password === adminPasswordHash;
-      }
-      
-      if (isValid) {
-        return NextResponse.json({ 
-          isAuthenticated: true,
-          message: 'Token valid' 
-        });
-      } else {
-        securityLogger.logEvent({
-          type: 'auth_failure',
-          severity: 'high',
-          ip,
-          url: request.url,
-          method: request.method,
-          details: { 
-            reason: 'invalid_token_password', 
-            endpoint: 'admin_verification'
-          }
-        });
-        
-        return NextResponse.json(
-          { isAuthenticated: false, reason: 'invalid_token_password' },
-          { status: 401 }
-        );
-      }
-      
-    } catch (error) {
-      return NextResponse.json(
-        { isAuthenticated: false, reason: 'invalid_token_encoding' },
-        { status: 400 }
-      );
+    const verification = await verifyAdminAccessToken(token);
+    
+    if (verification.valid) {
+      return NextResponse.json({ 
+        isAuthenticated: true,
+        message: 'Token valid',
+        adminId: verification.claims.sub,
+        sessionId: verification.claims.sid,
+        expiresAt: verification.claims.exp * 1000,
+        // Callers decide whether a password-only session is enough
+        mfa: verification.claims.mfa,
+        mfaRequired: isAdminMfaRequired()
+      });
     }
     
+    // Expiry is routine (the client refreshes); anything else is worth flagging
+    if (verification.reason !== 'token_expired') {
+      securityLogger.logEvent({
+        type: 'auth_failure',
+        severity: 'high',
+        ip,
+        url: request.url,
+        method: request.method,
+        details: { 
+          reason: verification.reason, 
+          endpoint: 'admin_verification'
+        }
+      });
+    }
+    
+    return NextResponse.json(
+      { isAuthenticated: false, reason: verification.reason },
+      { status: 401 }
+    );
+    
   } catch (error) {
     securityLogger.logEvent({
       type: 'auth_failure',
@@ -150,6 +109,5 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Ensure Node.js runtime for bcrypt compatibility
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
\ No newline at end of file
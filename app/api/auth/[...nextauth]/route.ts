@@ -0,0 +1,9 @@
+import NextAuth from 'next-auth'
+import { authOptions } from '@/lib/auth'
+
+const handler = NextAuth(authOptions)
+
+export { handler as GET, handler as POST }
+
+// bcrypt and the file-backed user store need Node.js
+export const runtime = 'nodejs'
@@ -0,0 +1,61 @@
+/**
+ * Password Reset API
+ * POST requests a reset link, PUT sets the new password with the emailed token
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { AccountError, getCustomerAccounts } from '@/lib/users'
+import { PasswordResetRequestSchema, PasswordResetSchema } from '@/lib/validations/api'
+import { validateRequestBody } from '@/lib/middleware/validation'
+import { applyRateLimit, DEFAULT_RATE_LIMITS } from '@/lib/security/rate-limit'
+
+export async function POST(request: NextRequest) {
+  const rateLimitResult = await applyRateLimit(request, DEFAULT_RATE_LIMITS.auth_login, 'password_reset')
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json({ error: DEFAULT_RATE_LIMITS.auth_login.message }, { status: 429 })
+  }
+
+  const validation = await validateRequestBody(request, PasswordResetRequestSchema)
+  if (!validation.success) {
+    return validation.response
+  }
+
+  try {
+    await getCustomerAccounts().requestPasswordReset(validation.data.email)
+  } catch (error) {
+    // Logged only: the response must not reveal whether the account exists
+    console.error('❌ Password reset request error:', error)
+  }
+
+  return NextResponse.json({
+    success: true,
+    message: 'If an account exists for this email, a reset link is on its way.'
+  })
+}
+
+export async function PUT(request: NextRequest) {
+  const rateLimitResult = await applyRateLimit(request, DEFAULT_RATE_LIMITS.auth_login, 'password_reset')
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json({ error: DEFAULT_RATE_LIMITS.auth_login.message }, { status: 429 })
+  }
+
+  const validation = await validateRequestBody(request, PasswordResetSchema)
+  if (!validation.success) {
+    return validation.response
+  }
+
+  try {
+    await getCustomerAccounts().resetPassword(validation.data.token, validation.data.password)
+    return NextResponse.json({ success: true, message: 'Password updated. You can now sign in.' })
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+
+    console.error('❌ Password reset error:', error)
+    return NextResponse.json({ error: 'Password reset failed. Please try again.' }, { status: 500 })
+  }
+}
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,45 @@
+/**
+ * Customer Signup API
+ * Accepts an invite token, or self-signup for emails that already exist as CRM contacts
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { AccountError, getCustomerAccounts } from '@/lib/users'
+import { SignupSchema } from '@/lib/validations/api'
+import { validateRequestBody } from '@/lib/middleware/validation'
+import { applyRateLimit, DEFAULT_RATE_LIMITS } from '@/lib/security/rate-limit'
+
+export async function POST(request: NextRequest) {
+  const rateLimitResult = await applyRateLimit(request, DEFAULT_RATE_LIMITS.auth_login, 'signup')
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json({ error: DEFAULT_RATE_LIMITS.auth_login.message }, { status: 429 })
+  }
+
+  const validation = await validateRequestBody(request, SignupSchema)
+  if (!validation.success) {
+    return validation.response
+  }
+
+  try {
+    const { user, requiresVerification } = await getCustomerAccounts().signup(validation.data)
+
+    return NextResponse.json({
+      success: true,
+      requiresVerification,
+      user: { id: user.id, email: user.email, name: user.name },
+      message: requiresVerification
+        ? 'Account created. Please confirm your email address using the link we just sent you.'
+        : 'Account created. You can now sign in.'
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+
+    console.error('❌ Signup error:', error)
+    return NextResponse.json({ error: 'Account creation failed. Please try again.' }, { status: 500 })
+  }
+}
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
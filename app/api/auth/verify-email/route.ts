@@ -0,0 +1,39 @@
+/**
+ * Email Verification API
+ * POST with the token from the verification email and the chosen password activates a self-signup.
+ * The emailed link opens a page that asks for the password first, so link scanners opening it
+ * don't activate anything
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { AccountError, getCustomerAccounts } from '@/lib/users'
+import { EmailVerificationSchema } from '@/lib/validations/api'
+import { validateRequestBody } from '@/lib/middleware/validation'
+import { applyRateLimit, DEFAULT_RATE_LIMITS } from '@/lib/security/rate-limit'
+
+export async function POST(request: NextRequest) {
+  const rateLimitResult = await applyRateLimit(request, DEFAULT_RATE_LIMITS.auth_login, 'verify_email')
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json({ error: DEFAULT_RATE_LIMITS.auth_login.message }, { status: 429 })
+  }
+
+  const validation = await validateRequestBody(request, EmailVerificationSchema)
+  if (!validation.success) {
+    return validation.response
+  }
+
+  try {
+    await getCustomerAccounts().verifyEmail(validation.data.token, validation.data.password)
+    return NextResponse.json({ success: true, message: 'Email confirmed. You can now sign in.' })
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+
+    console.error('❌ Email verification error:', error)
+    return NextResponse.json({ error: 'Email verification failed. Please try again.' }, { status: 500 })
+  }
+}
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
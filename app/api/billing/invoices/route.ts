@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { cacheService } from '@/lib/cache-service'
+import { findContactByEmail, listAll, listInvoices, type InvoiceStatus } from '@/lib/zoho/books'
 import { auditLogger } from '@/lib/audit-service'
-import { z } from 'zod'
 import { InvoiceQuerySchema } from '@/lib/validations/api'
 import { validateQueryParams } from '@/lib/middleware/validation'
 
@@ -34,22 +33,50 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // For now, use email as account ID (can be enhanced with proper account mapping)
+    // Map the signed-in user to their Zoho Books customer by email
     const accountId = session.user.email
-    
-    // Get invoices using cache service
-    const invoices = await cacheService.getInvoices(accountId)
+    const contact = await findContactByEmail(accountId)
+
+    if (!contact) {
+      console.log('ℹ️ No Zoho Books customer found for account')
+      return NextResponse.json({
+        success: true,
+        invoices: [],
+        summary: { totalPaid: 0, outstandingBalance: 0, paidInvoicesCount: 0 },
+        pagination: { page, limit, hasMore: false },
+        timestamp: new Date().toISOString()
+      })
+    }
+
+    // Books calls cancelled invoices "void"
+    const booksStatus: InvoiceStatus | undefined = status === 'cancelled' ? 'void' : status
+
+    const [pageResult, allInvoices] = await Promise.all([
+      listInvoices({
+        customerId: contact.contact_id,
+        status: booksStatus,
+        dateFrom: dateFrom,
+        dateTo: dateTo,
+        page,
+        perPage: limit,
+        sortColumn: 'date',
+        sortOrder: 'D'
+      }),
+      // Summary covers every invoice of the customer, not just this page
+      listAll(p => listInvoices({ customerId: contact.contact_id, page: p, perPage: 200 }), 10)
+    ])
+    const invoices = pageResult.items
     
     // Calculate summary statistics
-    const totalPaid = invoices
-      .filter(invoice => invoice.status === 'paid')
-      .reduce((sum, invoice) => sum + (invoice.total || 0), 0)
+    const totalPaid = allInvoices
+      .filter(invoice => invoice.status !== 'void')
+      .reduce((sum, invoice) => sum + ((invoice.total || 0) - (invoice.balance || 0)), 0)
     
-    const outstandingBalance = invoices
-      .filter(invoice => invoice.status !== 'paid')
+    const outstandingBalance = allInvoices
+      .filter(invoice => invoice.status !== 'paid' && invoice.status !== 'void')
       .reduce((sum, invoice) => sum + (invoice.balance || 0), 0)
     
-    const paidInvoicesCount = invoices.filter(invoice => invoice.status === 'paid').length
+    const paidInvoicesCount = allInvoices.filter(invoice => invoice.status === 'paid').length
 
     // Log audit event
     await auditLogger.logInvoiceAccess(
@@ -62,7 +89,7 @@ export async function GET(request: NextRequest) {
       count: invoices?.length || 0,
       totalPaid,
       outstandingBalance,
-      cached: true
+      includeDetails
     })
 
     return NextResponse.json({ 
@@ -73,7 +100,11 @@ export async function GET(request: NextRequest) {
         outstandingBalance,
         paidInvoicesCount
       },
-      cached: true,
+      pagination: {
+        page: pageResult.pageContext.page,
+        limit: pageResult.pageContext.per_page,
+        hasMore: pageResult.pageContext.has_more_page
+      },
       timestamp: new Date().toISOString()
     })
   } catch (error) {
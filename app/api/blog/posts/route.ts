@@ -1,7 +1,27 @@
+import { createHash } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { BlogPostQuerySchema } from '@/lib/validations/api';
-import { validateQueryParams } from '@/lib/middleware/validation';
+import { verifyAdminAuth } from '@/lib/auth/admin-auth';
+import { getBlogPosts, getPostStatus } from '@/lib/blog-data';
+import { queryBlogPosts } from '@/lib/blog/query';
+
+// Public listings may be served from the CDN for a few minutes; unpublished ones never are
+const PUBLIC_CACHE_CONTROL = 'public, max-age=60, s-maxage=300, stale-while-revalidate=3600';
+const PRIVATE_CACHE_CONTROL = 'private, no-store';
+
+function etagFor(body: string): string {
+  return `W/"${createHash('sha256').update(body).digest('base64url').slice(0, 27)}"`;
+}
+
+function matchesEtag(request: NextRequest, etag: string): boolean {
+  const header = request.headers.get('if-none-match');
+  if (!header) return false;
+  return header.split(',').some(candidate => {
+    const value = candidate.trim();
+    return value === '*' || value.replace(/^W\//, '') === etag.replace(/^W\//, '');
+  });
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -9,10 +29,10 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const params = Object.fromEntries(searchParams.entries());
     const queryValidation = BlogPostQuerySchema.safeParse(params);
-    
+
     if (!queryValidation.success) {
       return NextResponse.json(
-        { 
+        {
           success: false,
           error: 'Invalid query parameters',
           details: queryValidation.error.flatten()
@@ -20,83 +40,63 @@ export async function GET(request: NextRequest) {
         { status: 400 }
       );
     }
-    
-    const validatedQuery = queryValidation.data;
 
-    
-    // TODO: Fetch from database
-    // const posts = await db.blogPosts.findMany({
-    //   where: {
-    //     published: true,
-    //     ...(validatedQuery.category && { category: validatedQuery.category }),
-    //     ...(validatedQuery.tag && { tags: { has: validatedQuery.tag } }),
-    //     ...(validatedQuery.search && {
-    //       OR: [
-    //         { title: { contains: validatedQuery.search, mode: 'insensitive' } },
-    //         { content: { contains: validatedQuery.search, mode: 'insensitive' } },
-    //         { excerpt: { contains: validatedQuery.search, mode: 'insensitive' } },
-    //       ]
-    //     }),
-    //   },
-    //   orderBy: {
-    //     ...(validatedQuery.sort === 'newest' && { publishedAt: 'desc' }),
-    //     ...(validatedQuery.sort === 'oldest' && { publishedAt: 'asc' }),
-    //     ...(validatedQuery.sort === 'popular' && { views: 'desc' }),
-    //   },
-    //   skip: (validatedQuery.page - 1) * validatedQuery.limit,
-    //   take: validatedQuery.limit,
-    //   include: {
-    //     author: {
-    //       select: { name: true, avatar: true }
-    //     }
-    //   }
-    // });
-
-    // TODO: Get total count for pagination
-    // const totalCount = await db.blogPosts.count({
-    //   where: {
-    //     published: true,
-    //     ...(validatedQuery.category && { category: validatedQuery.category }),
-    //     ...(validatedQuery.tag && { tags: { has: validatedQuery.tag } }),
-    //   }
-    // });
+    const validatedQuery = queryValidation.data;
+    const includeUnpublished = validatedQuery.published === false;
 
-    // Mock response for now
-    const mockPosts = [
-      {
-        id: '1',
-        title: 'Advanced CAD Modeling Techniques',
-        slug: 'advanced-cad-modeling-techniques',
-        excerpt: 'Learn professional CAD modeling techniques used in industry.',
-        content: 'Full article content...',
-        publishedAt: new Date().toISOString(),
-        category: 'Engineering',
-        tags: ['CAD', 'Modeling', 'Design'],
-        author: { name: 'IdEinstein Team', avatar: '/images/team/author.jpg' },
-        views: 1250,
-        readTime: 8,
+    if (includeUnpublished) {
+      const auth = await verifyAdminAuth(request);
+      if (!auth.isAuthenticated) {
+        return NextResponse.json(
+          { success: false, error: 'Admin authentication required to list unpublished posts' },
+          { status: 401, headers: { 'Cache-Control': PRIVATE_CACHE_CONTROL } }
+        );
       }
-    ];
+    }
 
-    return NextResponse.json({
+    const posts = await getBlogPosts({ includeUnpublished });
+    const result = queryBlogPosts(posts, {
+      category: validatedQuery.category,
+      tag: validatedQuery.tag,
+      search: validatedQuery.search,
+      sort: validatedQuery.sort,
+      page: validatedQuery.page,
+      limit: validatedQuery.limit,
+    });
+
+    const now = new Date();
+    const body = JSON.stringify({
       success: true,
       data: {
-        posts: mockPosts,
-        pagination: {
-          page: validatedQuery.page,
-          limit: validatedQuery.limit,
-          total: 1,
-          totalPages: 1,
-        }
+        posts: includeUnpublished
+          ? result.posts.map(post => ({ ...post, status: getPostStatus(post, now) }))
+          : result.posts,
+        pagination: result.pagination,
+        sort: result.sort,
       }
     });
+
+    const etag = etagFor(body);
+    const headers = {
+      'Cache-Control': includeUnpublished ? PRIVATE_CACHE_CONTROL : PUBLIC_CACHE_CONTROL,
+      ETag: etag,
+    };
+
+    if (matchesEtag(request, etag)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: { ...headers, 'Content-Type': 'application/json; charset=utf-8' },
+    });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { 
-          success: false, 
+        {
+          success: false,
           message: 'Invalid query parameters',
-          errors: error.errors 
+          errors: error.errors
         },
         { status: 400 }
       );
@@ -104,11 +104,11 @@ export async function GET(request: NextRequest) {
 
     console.error('Blog posts fetch error:', error);
     return NextResponse.json(
-      { 
-        success: false, 
-        message: 'Internal server error' 
+      {
+        success: false,
+        message: 'Internal server error'
       },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,12 @@
 import { z } from "zod";
 import { zohoFetch } from "@/lib/zoho/client";
 import { logger } from "@/library/logger";
+import { getOutbox } from "@/lib/outbox";
+import { guardSubmission, quarantineFor } from "@/lib/security/form-guard";
+import { withIdempotency } from "@/lib/idempotency";
+import { scoreLead } from "@/lib/lead-scoring";
+import { buildCrmRecord, CONSULTATION_LEAD_MAPPING } from "@/lib/crm-mapping";
+import { requestNewsletterOptIn } from "@/lib/newsletter";
 import { NextRequest, NextResponse } from "next/server";
 
 const BOOKING_MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
@@ -62,6 +68,7 @@ const consultationSchema = z.object({
   time: z.string().min(3), // mandatory
   consent: z.boolean(),
   newsletter_opt_in: z.boolean().optional(),
+  newsletter_consent_version: z.string().optional(),
 
   // UTM fields (optional, hidden in form)
   utm_source: z.string().optional(),
@@ -126,201 +133,223 @@ export async function POST(req: NextRequest) {
       // Truncate long fields for logging
       description: data.description?.substring(0, 100) + (data.description?.length > 100 ? '...' : '')
     });
-    
-    // Validate the parsed data
-    const validatedData = consultationSchema.parse(data);
 
-    logger.info("consultation.data.parsed", { correlationId, submissionId: validatedData.submission_id });
+    return await withIdempotency({ form: "consultation", submissionId: data.submission_id, payload: data }, async () => {
+      const verdict = guardSubmission(req, "consultation", data);
+      if (verdict.decision === "reject") {
+        logger.warn("consultation.request.rejected", { correlationId, score: verdict.score, reasons: verdict.reasons });
+        return NextResponse.json({ ok: false, error: "submission_rejected", correlationId }, { status: 400 });
+      }
+
+      // Validate the parsed data
+      const validatedData = consultationSchema.parse(data);
 
-    // Check if this is a test request (used by test scripts)
-    const isTestRequest = req.headers.get('x-test-request') === 'true';
+      logger.info("consultation.data.parsed", { correlationId, submissionId: validatedData.submission_id });
+
+      // Check if this is a test request (used by test scripts)
+      const isTestRequest = req.headers.get('x-test-request') === 'true';
     
-    let leadId: string | null = null;
-    let bookingId: string | null = null;
-    const errors: string[] = [];
+      let leadId: string | null = null;
+      let bookingId: string | null = null;
+      const errors: string[] = [];
     
-    if (isTestRequest) {
-      // For test requests, skip actual Zoho API calls and return mock data
-      console.log('Test request detected, skipping Zoho API calls');
-      leadId = 'test-lead-id';
-      bookingId = 'test-booking-id';
-    } else {
-      // 1. Create CRM Lead with custom + UTM fields
-      try {
-        logger.zoho.start("Creating CRM lead", { correlationId, email: validatedData.email });
+      if (isTestRequest) {
+        // For test requests, skip actual Zoho API calls and return mock data
+        console.log('Test request detected, skipping Zoho API calls');
+        leadId = 'test-lead-id';
+        bookingId = 'test-booking-id';
+      } else {
+        // 1. Create CRM Lead with custom + UTM fields (recorded in the outbox first
+        // so a CRM outage queues the lead for replay instead of dropping it)
+        const outbox = getOutbox();
+        try {
+          logger.zoho.start("Creating CRM lead", { correlationId, email: validatedData.email });
         
-        const leadPayload = {
-          Last_Name: validatedData.name,
-          Email: validatedData.email,
-          Phone: validatedData.phone || null,
-          Company: validatedData.company || "Individual",
-          Lead_Source: "Website - Consultation Form",
-          // Custom fields with exact API names from CRM
-          Submission_ID_c: validatedData.submission_id,
-          Service_Type_c: validatedData.service,
-          Budget_Range_c: validatedData.budget || null,
-          Timeline_c: validatedData.timeline || null,
-          Scope_c: validatedData.scope || null,
-          Description: validatedData.description,
-          Consultation_Date_c: validatedData.date,
-          Consultation_Time_c: formatCrmDateTime(validatedData.date, validatedData.time), // Convert to proper ISO datetime format
-          Consent_c: validatedData.consent,
-          Newsletter_Opt_In_c: validatedData.newsletter_opt_in || false, // Handled by Zoho Flow automation
-          // UTM fields
-          UTM_Source_c: validatedData.utm_source || null,
-          UTM_Medium_c: validatedData.utm_medium || null,
-          UTM_Campaign_c: validatedData.utm_campaign || null,
-          UTM_Term_c: validatedData.utm_term || null,
-          UTM_Content_c: validatedData.utm_content || null,
-        };
-
-        logger.info("consultation.lead.payload", { correlationId, payload: leadPayload });
-
-        const leadRes = await zohoFetch<{
-          data?: Array<{ details?: { id?: string }; status?: string; message?: string }>;
-        }>("crm", "/Leads", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ data: [leadPayload] }),
-          cid: correlationId,
-        });
+          const leadScore = await scoreLead("consultation", { ...validatedData, audience: data.audience });
+          const leadPayload = buildCrmRecord(CONSULTATION_LEAD_MAPPING, {
+            submissionId: validatedData.submission_id,
+            name: validatedData.name,
+            email: validatedData.email,
+            phone: validatedData.phone,
+            company: validatedData.company,
+            consent: validatedData.consent,
+            tracking: validatedData,
+            score: leadScore,
+            service: validatedData.service,
+            budget: validatedData.budget,
+            timeline: validatedData.timeline,
+            scope: validatedData.scope,
+            description: validatedData.description,
+            date: validatedData.date,
+            dateTime: formatCrmDateTime(validatedData.date, validatedData.time),
+          });
 
-        logger.info("consultation.lead.response", { correlationId, response: leadRes });
+          logger.info("consultation.lead.payload", { correlationId, payload: leadPayload });
 
-        if (leadRes.data?.[0]?.details?.id) {
-          leadId = leadRes.data[0].details.id;
-          logger.zoho.success("Lead created successfully", { correlationId, leadId });
-        } else {
-          const errorMsg = leadRes.data?.[0]?.message || "Unknown error creating lead";
-          logger.zoho.error("Lead creation failed", { correlationId, error: errorMsg, response: leadRes });
-          errors.push(`Lead creation failed: ${errorMsg}`);
+          await outbox.enqueue({
+            submissionId: validatedData.submission_id,
+            form: "consultation",
+            correlationId,
+            summary: { email: validatedData.email, service: validatedData.service, date: validatedData.date },
+            quarantine: quarantineFor(verdict),
+            steps: [{ id: "crm", kind: "crm.upsertLead", input: { payload: { data: [leadPayload] } } }],
+          });
+
+          const record = await outbox.dispatch(validatedData.submission_id);
+          const leadStep = record?.steps.find(step => step.id === "crm");
+
+          logger.info("consultation.lead.response", { correlationId, response: leadStep?.result });
+
+          if (leadStep?.status === "succeeded" && leadStep.result?.leadId) {
+            leadId = leadStep.result.leadId;
+            logger.zoho.success("Lead created successfully", { correlationId, leadId });
+          } else {
+            const errorMsg = leadStep?.lastError || "Unknown error creating lead";
+            logger.zoho.error("Lead creation failed - queued for retry", { correlationId, error: errorMsg });
+            errors.push(`Lead creation queued for retry: ${errorMsg}`);
+          }
+        } catch (leadError: any) {
+          logger.zoho.error("Lead creation exception", { correlationId, error: leadError.message });
+          errors.push(`Lead creation error: ${leadError.message}`);
         }
-      } catch (leadError: any) {
-        logger.zoho.error("Lead creation exception", { correlationId, error: leadError.message });
-        errors.push(`Lead creation error: ${leadError.message}`);
-      }
 
-      // 2. Create Booking appointment
-      const serviceId = process.env.BOOKINGS_SERVICE_ID;
-      const staffId = process.env.BOOKINGS_STAFF_ID;
-      const workspaceId = process.env.BOOKINGS_WORKSPACE_ID;
-      const timezone = process.env.BOOKINGS_TIME_ZONE || "Europe/Berlin";
+        // 2. Create Booking appointment
+        const serviceId = process.env.BOOKINGS_SERVICE_ID;
+        const staffId = process.env.BOOKINGS_STAFF_ID;
+        const workspaceId = process.env.BOOKINGS_WORKSPACE_ID;
+        const timezone = process.env.BOOKINGS_TIME_ZONE || "Europe/Berlin";
 
-      if (!serviceId) {
-        logger.zoho.warn("Booking creation skipped - missing BOOKINGS_SERVICE_ID", { correlationId });
-        errors.push("Booking creation skipped: BOOKINGS_SERVICE_ID not configured");
-      } else {
-        try {
-          logger.zoho.start("Creating booking appointment", { correlationId, serviceId, staffId, workspaceId });
+        if (verdict.decision === "quarantine") {
+          // Held for review; an admin can book manually after releasing the lead
+          logger.warn("consultation.booking.skipped_quarantine", { correlationId, score: verdict.score });
+        } else if (!serviceId) {
+          logger.zoho.warn("Booking creation skipped - missing BOOKINGS_SERVICE_ID", { correlationId });
+          errors.push("Booking creation skipped: BOOKINGS_SERVICE_ID not configured");
+        } else {
+          try {
+            logger.zoho.start("Creating booking appointment", { correlationId, serviceId, staffId, workspaceId });
           
-          const formattedStart = formatBookingsDateTime(validatedData.date, validatedData.time);
-          logger.info("consultation.booking.datetime", { correlationId, original: { date: validatedData.date, time: validatedData.time }, formatted: formattedStart });
+            const formattedStart = formatBookingsDateTime(validatedData.date, validatedData.time);
+            logger.info("consultation.booking.datetime", { correlationId, original: { date: validatedData.date, time: validatedData.time }, formatted: formattedStart });
           
-          const bookingForm = new FormData();
+            const bookingForm = new FormData();
           
-          // Required fields
-          bookingForm.set("service_id", serviceId);
-          bookingForm.set("from_time", formattedStart);
-          bookingForm.set("timezone", timezone);
+            // Required fields
+            bookingForm.set("service_id", serviceId);
+            bookingForm.set("from_time", formattedStart);
+            bookingForm.set("timezone", timezone);
           
-          // Optional but recommended fields
-          if (workspaceId) {
-            bookingForm.set("workspace_id", workspaceId);
-          }
-          if (staffId) {
-            bookingForm.set("staff_id", staffId);
-          }
+            // Optional but recommended fields
+            if (workspaceId) {
+              bookingForm.set("workspace_id", workspaceId);
+            }
+            if (staffId) {
+              bookingForm.set("staff_id", staffId);
+            }
           
-          // Customer details
-          const customerDetails = {
-            name: validatedData.name,
-            email: validatedData.email,
-            ...(validatedData.phone ? { phone_number: validatedData.phone.replace(/[^0-9]/g, '') } : {}),
-          };
-          bookingForm.set("customer_details", JSON.stringify(customerDetails));
+            // Customer details
+            const customerDetails = {
+              name: validatedData.name,
+              email: validatedData.email,
+              ...(validatedData.phone ? { phone_number: validatedData.phone.replace(/[^0-9]/g, '') } : {}),
+            };
+            bookingForm.set("customer_details", JSON.stringify(customerDetails));
           
-          // Notes/description
-          if (validatedData.description) {
-            bookingForm.set("notes", validatedData.description.slice(0, 2000));
-          }
+            // Notes/description
+            if (validatedData.description) {
+              bookingForm.set("notes", validatedData.description.slice(0, 2000));
+            }
 
-          // Log FormData contents for debugging
-          const formDataEntries: Record<string, any> = {};
-          Array.from(bookingForm.entries()).forEach(([key, value]) => {
-            formDataEntries[key] = value;
-          });
-          logger.info("consultation.booking.formdata", { correlationId, formData: formDataEntries });
-
-          const bookingRes = await zohoFetch<{
-            data?: { appointment_id?: string };
-            response?: { returnvalue?: { booking_id?: string; appointment_id?: string; summary_url?: string } };
-            status?: string;
-            message?: string;
-          }>("bookings", "/appointment", {
-            method: "POST",
-            body: bookingForm,
-            cid: correlationId,
-          });
+            // Log FormData contents for debugging
+            const formDataEntries: Record<string, any> = {};
+            Array.from(bookingForm.entries()).forEach(([key, value]) => {
+              formDataEntries[key] = value;
+            });
+            logger.info("consultation.booking.formdata", { correlationId, formData: formDataEntries });
+
+            const bookingRes = await zohoFetch<{
+              data?: { appointment_id?: string };
+              response?: { returnvalue?: { booking_id?: string; appointment_id?: string; summary_url?: string } };
+              status?: string;
+              message?: string;
+            }>("bookings", "/appointment", {
+              method: "POST",
+              body: bookingForm,
+              cid: correlationId,
+            });
 
-          logger.info("consultation.booking.response", { correlationId, response: bookingRes });
+            logger.info("consultation.booking.response", { correlationId, response: bookingRes });
 
-          // Extract booking ID and summary URL from response
-          bookingId = 
-            bookingRes.data?.appointment_id ??
-            bookingRes.response?.returnvalue?.booking_id ??
-            bookingRes.response?.returnvalue?.appointment_id ??
-            null;
+            // Extract booking ID and summary URL from response
+            bookingId = 
+              bookingRes.data?.appointment_id ??
+              bookingRes.response?.returnvalue?.booking_id ??
+              bookingRes.response?.returnvalue?.appointment_id ??
+              null;
 
-          // Extract the summary URL for customer booking confirmation
-          const summaryUrl = (bookingRes.response?.returnvalue as any)?.summary_url;
+            // Extract the summary URL for customer booking confirmation
+            const summaryUrl = (bookingRes.response?.returnvalue as any)?.summary_url;
 
-          if (bookingId) {
-            logger.zoho.success("Booking created successfully", { correlationId, bookingId, summaryUrl });
+            if (bookingId) {
+              logger.zoho.success("Booking created successfully", { correlationId, bookingId, summaryUrl });
             
-            // Update the lead with booking details
-            if (leadId) {
+              // Update the lead with booking details once the lead exists (now or on replay)
               try {
-                await zohoFetch("crm", `/Leads/${leadId}`, {
-                  method: "PUT",
-                  headers: { "Content-Type": "application/json" },
-                  body: JSON.stringify({ 
-                    data: [{ 
+                await outbox.appendSteps(validatedData.submission_id, [{
+                  id: "crm-booking",
+                  kind: "crm.updateLead",
+                  input: {
+                    leadStep: "crm",
+                    fields: {
                       Booking_ID_c: bookingId,
                       ...(summaryUrl ? { Booking_Confirmation_Link_c: summaryUrl } : {})
-                    }] 
-                  }),
-                  cid: correlationId,
-                });
-                logger.zoho.success("Lead updated with booking details", { correlationId, leadId, bookingId, summaryUrl });
+                    }
+                  },
+                  dependsOn: ["crm"],
+                }]);
+                const record = await outbox.dispatch(validatedData.submission_id);
+                const updateStep = record?.steps.find(step => step.id === "crm-booking");
+
+                if (updateStep?.status === "succeeded") {
+                  logger.zoho.success("Lead updated with booking details", { correlationId, leadId, bookingId, summaryUrl });
+                } else {
+                  logger.zoho.warn("Lead booking update queued for retry", { correlationId, error: updateStep?.lastError });
+                }
               } catch (updateError: any) {
                 logger.zoho.error("Failed to update lead with booking details", { correlationId, error: updateError.message });
                 errors.push(`Lead update failed: ${updateError.message}`);
               }
+            } else {
+              const errorMsg = bookingRes.message || "Unknown booking creation error";
+              logger.zoho.error("Booking creation failed", { correlationId, error: errorMsg, response: bookingRes });
+              errors.push(`Booking creation failed: ${errorMsg}`);
             }
-          } else {
-            const errorMsg = bookingRes.message || "Unknown booking creation error";
-            logger.zoho.error("Booking creation failed", { correlationId, error: errorMsg, response: bookingRes });
-            errors.push(`Booking creation failed: ${errorMsg}`);
+          } catch (bookingErr: any) {
+            logger.zoho.error("Booking creation exception", { correlationId, error: bookingErr.message });
+            errors.push(`Booking creation error: ${bookingErr.message}`);
           }
-        } catch (bookingErr: any) {
-          logger.zoho.error("Booking creation exception", { correlationId, error: bookingErr.message });
-          errors.push(`Booking creation error: ${bookingErr.message}`);
+        }
+
+        // 3. Newsletter opt-in: confirmation email first (double opt-in), Campaigns after confirming
+        if (validatedData.newsletter_opt_in) {
+          const newsletterStatus = await requestNewsletterOptIn(req, "consultation", validatedData);
+          logger.info("consultation.newsletter", { correlationId, status: newsletterStatus });
         }
       }
-    }
 
-    const result = {
-      ok: true,
-      leadId,
-      bookingId,
-      filesUploaded: 0, // Always 0 for consultation (no files)
-      ...(errors.length > 0 && { errors }),
-      correlationId,
-    };
+      const result = {
+        ok: true,
+        leadId,
+        bookingId,
+        filesUploaded: 0, // Always 0 for consultation (no files)
+        ...(errors.length > 0 && { errors }),
+        correlationId,
+      };
 
-    logger.info("consultation.request.complete", { correlationId, result });
+      logger.info("consultation.request.complete", { correlationId, result });
     
-    return NextResponse.json(result);
+      return NextResponse.json(result);
+    });
   } catch (err: any) {
     logger.error("consultation.request.failed", { correlationId, error: err.message });
     return NextResponse.json({ 
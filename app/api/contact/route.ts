@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { crm } from '@/lib/zoho/client';
+import { getOutbox, integrationStatus } from '@/lib/outbox';
+import { guardSubmission, quarantineFor } from '@/lib/security/form-guard';
+import { withIdempotency } from '@/lib/idempotency';
+import { scoreLead } from '@/lib/lead-scoring';
+import { buildCrmRecord, CONTACT_LEAD_MAPPING } from '@/lib/crm-mapping';
+import { requestNewsletterOptIn } from '@/lib/newsletter';
 
 const contactSchema = z.object({
+  submission_id: z.string().optional(),
   name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
   email: z.string().email('Valid email is required'),
   subject: z.string().min(1, 'Subject is required').max(200, 'Subject too long').optional(),
@@ -11,6 +17,7 @@ const contactSchema = z.object({
   phone: z.string().max(20, 'Phone number too long').optional(),
   consent: z.boolean().optional(),
   newsletter_opt_in: z.boolean().optional(),
+  newsletter_consent_version: z.string().optional(),
   // UTM tracking fields
   utm_source: z.string().optional(),
   utm_medium: z.string().optional(),
@@ -23,56 +30,74 @@ export async function POST(request: NextRequest) {
   try {
     // Parse and validate request body
     const body = await request.json();
-    const validatedData = contactSchema.parse(body);
 
-    // Log successful contact form submission
-    console.log('📝 Contact form submitted:', {
-      hasName: !!validatedData.name,
-      hasEmail: !!validatedData.email,
-      hasMessage: !!validatedData.message,
-      hasCompany: !!validatedData.company
-    });
+    return await withIdempotency({ form: 'contact', submissionId: body?.submission_id, payload: body }, async () => {
+      const verdict = guardSubmission(request, 'contact', body);
+      if (verdict.decision === 'reject') {
+        return NextResponse.json(
+          { success: false, message: 'Your message could not be sent. Please email us directly.' },
+          { status: 400 }
+        );
+      }
+
+      const validatedData = contactSchema.parse(body);
+
+      // Log successful contact form submission
+      console.log('📝 Contact form submitted:', {
+        hasName: !!validatedData.name,
+        hasEmail: !!validatedData.email,
+        hasMessage: !!validatedData.message,
+        hasCompany: !!validatedData.company
+      });
 
-    // Create contact/lead in Zoho CRM
-    try {
-      const nameParts = validatedData.name.split(' ');
-      const firstName = nameParts[0] || 'Contact';
-      const lastName = nameParts.slice(1).join(' ') || 'User';
+      // Create contact/lead in Zoho CRM via the outbox so failures are retried
+      const submissionId = validatedData.submission_id || `contact-${crypto.randomUUID()}`;
+      const leadScore = await scoreLead('contact', { ...validatedData, audience: body.audience });
 
       const contactData = {
-        data: [{
-          Last_Name: lastName,
-          First_Name: firstName,
-          Email: validatedData.email,
-          Phone: validatedData.phone,
-          Company: validatedData.company,
-          Description: `Subject: ${validatedData.subject || 'General Inquiry'}\n\nMessage: ${validatedData.message}`,
-          Lead_Source: 'Contact Form',
-          Lead_Status: 'New',
-          Industry: 'Engineering Services',
-          // Custom fields with correct naming
-          Consent_c: validatedData.consent || false,
-          Newsletter_Opt_In_c: validatedData.newsletter_opt_in || false,
-          // UTM tracking
-          UTM_Source_c: validatedData.utm_source || null,
-          UTM_Medium_c: validatedData.utm_medium || null,
-          UTM_Campaign_c: validatedData.utm_campaign || null,
-          UTM_Term_c: validatedData.utm_term || null,
-          UTM_Content_c: validatedData.utm_content || null,
-        }]
+        data: [buildCrmRecord(CONTACT_LEAD_MAPPING, {
+          submissionId,
+          name: validatedData.name,
+          email: validatedData.email,
+          phone: validatedData.phone,
+          company: validatedData.company,
+          consent: validatedData.consent || false,
+          tracking: validatedData,
+          score: leadScore,
+          subject: validatedData.subject,
+          message: validatedData.message,
+        })]
       };
 
+      const outbox = getOutbox();
+      await outbox.enqueue({
+        submissionId,
+        form: 'contact',
+        summary: { email: validatedData.email, subject: validatedData.subject },
+        quarantine: quarantineFor(verdict),
+        steps: [{ id: 'crm', kind: 'crm.upsertLead', input: { payload: contactData } }]
+      });
+
       console.log('📤 Creating contact in Zoho CRM...');
-      const crmData = await crm.upsertLead(contactData) as any;
-      console.log('✅ Contact created in Zoho CRM:', crmData.data?.[0]?.details?.id);
-    } catch (crmError) {
-      console.error('❌ CRM integration error:', crmError);
-      // Don't fail the entire request if CRM fails
-    }
+      const record = await outbox.dispatch(submissionId);
+      const crm = integrationStatus(record, 'crm');
+      if (crm.status === 'success') {
+        console.log('✅ Contact created in Zoho CRM:', record?.steps[0].result?.leadId);
+      } else if (crm.status === 'failed') {
+        console.error('❌ CRM integration failed permanently:', crm.lastError);
+      } else {
+        console.error('❌ CRM integration error - contact queued for retry:', crm.lastError);
+      }
+
+      // Newsletter opt-in needs the emailed confirmation (double opt-in) before anything reaches Zoho
+      if (validatedData.newsletter_opt_in) {
+        await requestNewsletterOptIn(request, 'contact', validatedData);
+      }
     
-    return NextResponse.json({ 
-      success: true,
-      message: 'Thank you for your message. We will get back to you soon.'
+      return NextResponse.json({ 
+        success: true,
+        message: 'Thank you for your message. We will get back to you soon.'
+      });
     });
 
   } catch (error) {
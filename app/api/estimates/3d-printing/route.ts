@@ -0,0 +1,71 @@
+/**
+ * 3D Printing Estimate API
+ * GET lists the processes and materials from the rate tables; POST prices a completed STL upload
+ * and returns the estimate with a signed token the quotation form can attach
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  estimatePrintPrice,
+  EstimateError,
+  geometryForUpload,
+  getPrintRates,
+  issueEstimateToken
+} from '@/lib/pricing';
+import { UploadError } from '@/lib/uploads';
+import { PrintEstimateRequestSchema } from '@/lib/validations/api';
+
+export async function GET() {
+  const rates = getPrintRates();
+  return NextResponse.json({
+    currency: rates.currency,
+    maxQuantity: rates.maxQuantity,
+    processes: rates.processes.map(process => ({
+      id: process.id,
+      name: process.name,
+      description: process.description,
+      supportsInfill: process.supportsInfill,
+      buildVolumeMm: process.buildVolumeMm,
+    })),
+    materials: rates.materials.map(material => ({
+      id: material.id,
+      name: material.name,
+      processes: material.processes,
+    })),
+    quantityDiscounts: rates.quantityDiscounts,
+  }, {
+    headers: { 'Cache-Control': 'public, max-age=300' }
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const validationResult = PrintEstimateRequestSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    return NextResponse.json(
+      { error: 'Invalid parameters', details: validationResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const { uploadId, ...input } = validationResult.data;
+
+  try {
+    const geometry = await geometryForUpload(uploadId);
+    const estimate = estimatePrintPrice(geometry, input);
+    return NextResponse.json(
+      { estimate, token: issueEstimateToken(estimate, uploadId) },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    if (error instanceof EstimateError || error instanceof UploadError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('❌ 3D printing estimate error:', error);
+    return NextResponse.json({ error: 'Could not calculate an estimate' }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
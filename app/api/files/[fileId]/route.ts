@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Permission, requirePermission } from '@/lib/rbac'
+import { findProject, getPortalAccess, getProjectFolderId, PortalAccessError } from '@/lib/portal/projects'
+import { downloadFile, getFile, trashFile } from '@/lib/zoho/workdrive'
+import { auditLogger } from '@/lib/audit-service'
+import { withCorrelation } from '@/lib/helpers/withCorrelation'
+
+interface FileRouteContext {
+  params: Promise<{
+    fileId: string
+  }>
+}
+
+/**
+ * Resolve the file and make sure it sits in a project folder the user can access
+ */
+async function authorizeFile(
+  request: NextRequest,
+  fileId: string,
+  permission: Permission,
+  cid: string
+) {
+  const auth = await requirePermission(request, permission)
+  if (auth instanceof Response) return auth
+
+  const projectId = new URL(request.url).searchParams.get('projectId')
+  if (!projectId) {
+    return NextResponse.json({ success: false, error: 'projectId is required' }, { status: 400 })
+  }
+
+  const access = await getPortalAccess(auth.user, auth.userRole, cid)
+  const project = findProject(access, projectId)
+  const folderId = await getProjectFolderId(project, cid)
+
+  const file = await getFile(fileId, cid).catch(() => null)
+  if (!file || file.attributes.is_folder || file.attributes.parent_id !== folderId) {
+    return NextResponse.json({ success: false, error: 'File not found' }, { status: 404 })
+  }
+
+  return { user: auth.user, project, file }
+}
+
+function errorResponse(error: unknown, context: string) {
+  if (error instanceof PortalAccessError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+  }
+
+  console.error(`❌ Files API ${context} error:`, error)
+  return NextResponse.json({
+    success: false,
+    error: 'Internal server error'
+  }, { status: 500 })
+}
+
+export async function GET(request: NextRequest, { params }: FileRouteContext) {
+  const { cid } = withCorrelation(request)
+  const { fileId } = await params
+
+  try {
+    const result = await authorizeFile(request, fileId, Permission.DOWNLOAD_PROJECT_FILES, cid)
+    if (result instanceof Response) return result
+
+    const upstream = await downloadFile(fileId, cid)
+
+    await auditLogger.logProjectAccess(
+      result.user.id || result.user.email || 'unknown',
+      result.project.id_string || String(result.project.id),
+      `download_file:${fileId}`
+    )
+
+    const filename = result.file.attributes.name.replace(/["\r\n]/g, '_')
+    return new NextResponse(upstream.body, {
+      headers: {
+        'Content-Type': upstream.headers.get('content-type') || 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(result.file.attributes.name)}`,
+        ...(upstream.headers.get('content-length') && { 'Content-Length': upstream.headers.get('content-length')! }),
+        'Cache-Control': 'private, no-store'
+      }
+    })
+  } catch (error) {
+    return errorResponse(error, 'download')
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: FileRouteContext) {
+  const { cid } = withCorrelation(request)
+  const { fileId } = await params
+
+  try {
+    // Removing a file is a write on the project's folder, so it rides on the upload permission
+    const result = await authorizeFile(request, fileId, Permission.UPLOAD_PROJECT_FILES, cid)
+    if (result instanceof Response) return result
+
+    await trashFile(fileId, cid)
+
+    await auditLogger.logProjectAccess(
+      result.user.id || result.user.email || 'unknown',
+      result.project.id_string || String(result.project.id),
+      `delete_file:${fileId}`
+    )
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    return errorResponse(error, 'delete')
+  }
+}
+
+// Prevent this route from being statically analyzed during build
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Permission, requirePermission } from '@/lib/rbac'
+import { findProject, getPortalAccess, getProjectFolderId, PortalAccessError } from '@/lib/portal/projects'
+import { listAll, listFolder, uploadFile, type WorkDriveFile } from '@/lib/zoho/workdrive'
+import type { ZohoProject } from '@/lib/zoho/projects'
+import { auditLogger } from '@/lib/audit-service'
+import { getFileInspector, inspectableBytes, type FileVerdict } from '@/lib/security/file-inspection'
+import { withCorrelation } from '@/lib/helpers/withCorrelation'
+
+const MAX_FILE_SIZE = 100 * 1024 * 1024 // 100MB, same as quote uploads
+const MAX_FILES_PER_REQUEST = 5
+
+function toFileItem(file: WorkDriveFile, project: ZohoProject) {
+  const createdAt = file.attributes.created_time_in_millisecond
+  return {
+    id: file.id,
+    name: file.attributes.name,
+    size: file.attributes.storage_info?.size_in_bytes,
+    type: file.attributes.extn || file.attributes.type,
+    created_time: createdAt ? new Date(createdAt).toISOString() : undefined,
+    projectId: project.id_string || String(project.id),
+    projectName: project.name
+  }
+}
+
+function errorResponse(error: unknown, context: string) {
+  if (error instanceof PortalAccessError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+  }
+
+  console.error(`❌ Files API ${context} error:`, error)
+  return NextResponse.json({
+    success: false,
+    error: 'Internal server error'
+  }, { status: 500 })
+}
+
+export async function GET(request: NextRequest) {
+  const { cid } = withCorrelation(request)
+
+  const auth = await requirePermission(request, Permission.DOWNLOAD_PROJECT_FILES)
+  if (auth instanceof Response) return auth
+
+  try {
+    const access = await getPortalAccess(auth.user, auth.userRole, cid)
+    const projectId = new URL(request.url).searchParams.get('projectId')
+    const projects = projectId ? [findProject(access, projectId)] : access.projects
+
+    const perProject = await Promise.all(projects.map(async project => {
+      const folderId = await getProjectFolderId(project, cid)
+      const items = await listAll(page => listFolder(folderId, { page }, cid), 5)
+      return items
+        .filter(file => !file.attributes.is_folder)
+        .map(file => toFileItem(file, project))
+    }))
+
+    const files = perProject
+      .reduce((all, items) => all.concat(items), [] as ReturnType<typeof toFileItem>[])
+      .sort((a, b) => (b.created_time || '').localeCompare(a.created_time || ''))
+
+    return NextResponse.json({
+      success: true,
+      files,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    return errorResponse(error, 'list')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { cid } = withCorrelation(request)
+
+  const auth = await requirePermission(request, Permission.UPLOAD_PROJECT_FILES)
+  if (auth instanceof Response) return auth
+
+  try {
+    const formData = await request.formData()
+    const files = formData.getAll('file').filter((entry): entry is File =>
+      entry instanceof File && entry.size > 0
+    )
+
+    if (files.length === 0) {
+      return NextResponse.json({ success: false, error: 'No file provided' }, { status: 400 })
+    }
+    if (files.length > MAX_FILES_PER_REQUEST) {
+      return NextResponse.json({ success: false, error: `At most ${MAX_FILES_PER_REQUEST} files per upload` }, { status: 400 })
+    }
+    const oversized = files.find(file => file.size > MAX_FILE_SIZE)
+    if (oversized) {
+      return NextResponse.json({ success: false, error: `${oversized.name} exceeds the 100MB limit` }, { status: 413 })
+    }
+
+    // Same inspection as quote attachments: nothing rejected reaches the project folder
+    const inspections: FileVerdict[] = []
+    for (const file of files) {
+      const bytes = new Uint8Array(await file.arrayBuffer())
+      inspections.push(await getFileInspector().inspect(inspectableBytes(file.name, bytes)))
+    }
+    const rejectedFiles = inspections.filter(item => item.verdict === 'rejected')
+    if (rejectedFiles.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: `File rejected: ${rejectedFiles.map(item => item.filename).join(', ')}`,
+        code: 'file_rejected',
+        inspections: rejectedFiles.map(item => ({ filename: item.filename, reasons: item.reasons }))
+      }, { status: 400 })
+    }
+
+    const access = await getPortalAccess(auth.user, auth.userRole, cid)
+    const projectId = formData.get('projectId')
+
+    // Without an explicit project, only an unambiguous single project is accepted
+    let project: ZohoProject
+    if (typeof projectId === 'string' && projectId) {
+      project = findProject(access, projectId)
+    } else if (access.projects.length === 1) {
+      project = access.projects[0]
+    } else {
+      return NextResponse.json({
+        success: false,
+        error: access.projects.length === 0 ? 'No project available for uploads' : 'Select a project to upload to (projectId)'
+      }, { status: 400 })
+    }
+
+    const folderId = await getProjectFolderId(project, cid)
+    const uploaded: ReturnType<typeof toFileItem>[] = []
+    for (const file of files) {
+      const result = await uploadFile(folderId, file, file.name, cid)
+      uploaded.push(toFileItem(result, project))
+
+      await auditLogger.logProjectAccess(
+        auth.user.id || auth.user.email || 'unknown',
+        project.id_string || String(project.id),
+        `upload_file:${result.id}`
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      files: uploaded,
+      timestamp: new Date().toISOString()
+    }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error, 'upload')
+  }
+}
+
+// Prevent this route from being statically analyzed during build
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,32 @@
+/**
+ * Form Nonce API
+ * Hands out a single-use nonce and signing key for one signed form submission.
+ * The nonce is bound to an httpOnly form_session cookie, set here on first use
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { FORM_SESSION_COOKIE, issueFormNonce, newFormSessionId } from '@/lib/security/form-signature';
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.FORM_HMAC_SECRET;
+
+  // Signing is off without a secret; the forms then post unsigned
+  if (!secret) {
+    return NextResponse.json({ nonce: null }, { headers: { 'Cache-Control': 'no-store' } });
+  }
+
+  const sessionId = request.cookies.get(FORM_SESSION_COOKIE)?.value || newFormSessionId();
+  const issued = await issueFormNonce(secret, sessionId);
+
+  const response = NextResponse.json(issued, { headers: { 'Cache-Control': 'no-store' } });
+  response.cookies.set(FORM_SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+  });
+  return response;
+}
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
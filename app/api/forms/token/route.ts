@@ -0,0 +1,30 @@
+/**
+ * Form Token API
+ * Issues the signed "form rendered at" token the public forms send back with their submission
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { issueFormToken } from '@/lib/security/form-guard';
+import { FormTokenQuerySchema } from '@/lib/validations/api';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const validationResult = FormTokenQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+
+  if (!validationResult.success) {
+    return NextResponse.json(
+      { error: 'Invalid parameters', details: validationResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const issued = issueFormToken(validationResult.data.form);
+
+  return NextResponse.json(
+    { token: issued.token, expiresAt: issued.expiresAt },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
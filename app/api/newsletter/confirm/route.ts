@@ -0,0 +1,43 @@
+/**
+ * Newsletter Confirmation API
+ * POST with the token from the confirmation email completes the double opt-in. The page behind the
+ * emailed link asks for a click first, so link scanners opening it don't subscribe anyone
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { consentContext, getNewsletter, NewsletterError } from '@/lib/newsletter';
+import { NewsletterConfirmSchema } from '@/lib/validations/api';
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const validationResult = NewsletterConfirmSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    return NextResponse.json(
+      { error: 'Invalid parameters', details: validationResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const newsletter = getNewsletter();
+    const subscription = await newsletter.confirm(validationResult.data.token, consentContext(request));
+    return NextResponse.json(
+      {
+        ok: true,
+        status: subscription.status,
+        manageUrl: newsletter.manageLink(subscription.email)
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    if (error instanceof NewsletterError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('❌ Newsletter confirmation error:', error);
+    return NextResponse.json({ error: 'Could not confirm the subscription' }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
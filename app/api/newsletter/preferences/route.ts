@@ -0,0 +1,75 @@
+/**
+ * Newsletter Preferences API
+ * GET shows the subscription behind a preferences link; POST changes its topics or unsubscribes.
+ * The signed link from the newsletter emails is the only credential
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { consentContext, getNewsletter, NewsletterError, type Subscription } from '@/lib/newsletter';
+import {
+  NewsletterPreferencesQuerySchema,
+  NewsletterPreferencesSchema,
+  validateQueryParams
+} from '@/lib/validations/api';
+
+function view(subscription: Subscription) {
+  return {
+    email: subscription.email,
+    status: subscription.status,
+    topics: subscription.topics,
+    confirmedAt: subscription.confirmedAt,
+    unsubscribedAt: subscription.unsubscribedAt,
+  };
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof NewsletterError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(request: NextRequest) {
+  const validationResult = validateQueryParams(request.nextUrl.searchParams, NewsletterPreferencesQuerySchema);
+  if (!validationResult.success) {
+    return NextResponse.json(
+      { error: 'Invalid parameters', details: validationResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const subscription = await getNewsletter().preferences(validationResult.data.token);
+    return NextResponse.json({ subscription: view(subscription) }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return errorResponse(error, 'Could not load newsletter preferences');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const validationResult = NewsletterPreferencesSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    return NextResponse.json(
+      { error: 'Invalid parameters', details: validationResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const input = validationResult.data;
+    const newsletter = getNewsletter();
+    const subscription = input.action === 'unsubscribe'
+      ? await newsletter.unsubscribe(input.token, consentContext(request))
+      : await newsletter.updatePreferences(input.token, input.topics, consentContext(request));
+
+    return NextResponse.json({ ok: true, subscription: view(subscription) }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return errorResponse(error, 'Could not update newsletter preferences');
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
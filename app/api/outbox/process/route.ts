@@ -0,0 +1,41 @@
+/**
+ * Outbox Drain Endpoint
+ * Invoked by Vercel Cron to replay queued Zoho steps whose backoff has elapsed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { securityLogger } from '@/lib/security/logging';
+import { getOutbox } from '@/lib/outbox';
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    securityLogger.logEvent({
+      type: 'auth_failure',
+      severity: 'medium',
+      ip: request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown',
+      url: request.url,
+      method: request.method,
+      details: { endpoint: 'outbox_process', reason: cronSecret ? 'invalid_cron_secret' : 'cron_secret_not_configured' }
+    });
+
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await getOutbox().processDue();
+    console.log('📬 Outbox drain completed:', result);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('❌ Outbox drain failed:', error);
+    return NextResponse.json(
+      { error: 'Outbox processing failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { resolveUserRole } from '@/lib/rbac'
+import { getPortalAccess, PortalAccessError } from '@/lib/portal/projects'
+import { getProjectOverview } from '@/lib/zoho/projects'
+import { auditLogger } from '@/lib/audit-service'
+import { withCorrelation } from '@/lib/helpers/withCorrelation'
+
+export async function GET(request: NextRequest) {
+  const { cid } = withCorrelation(request)
+
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const access = await getPortalAccess(session.user, resolveUserRole(session.user), cid)
+    const projects = await Promise.all(access.projects.map(project => getProjectOverview(project, { cid })))
+
+    await auditLogger.logProjectAccess(
+      session.user.id || session.user.email,
+      'all',
+      `list_projects:${access.scope}`
+    )
+
+    return NextResponse.json({
+      success: true,
+      projects,
+      scope: access.scope,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    if (error instanceof PortalAccessError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    console.error('❌ Projects API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
+
+// Prevent this route from being statically analyzed during build
+export const dynamic = 'force-dynamic'
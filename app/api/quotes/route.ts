@@ -1,6 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { QuoteSchema } from '@/lib/validations/forms';
 import { applyRateLimit, getRateLimitConfig } from '@/lib/security/rate-limit';
+import { guardSubmission, quarantineFor } from '@/lib/security/form-guard';
+import { withIdempotency } from '@/lib/idempotency';
+import { getUploads, UploadError, type UploadSession } from '@/lib/uploads';
+import {
+  getFileInspector,
+  inspectableBytes,
+  overallVerdict,
+  summarizeVerdicts,
+  type FileVerdict
+} from '@/lib/security/file-inspection';
+import {
+  analyzeCadFile,
+  summarizeCadAnalyses,
+  thumbnailFilename,
+  totalMeshVolumeCm3,
+  type CadAnalysis
+} from '@/lib/cad';
+import { summarizeEstimate, verifyEstimateToken } from '@/lib/pricing';
+import { scoreLead } from '@/lib/lead-scoring';
+import { buildCrmRecord, QUOTE_LEAD_MAPPING, WORKDRIVE_FOLDER_LINK } from '@/lib/crm-mapping';
+import { requestNewsletterOptIn } from '@/lib/newsletter';
 
 /**
  * Enhanced FormData parsing function supporting multiple content types
@@ -77,24 +98,6 @@ async function readMultipartOrJson(req: NextRequest) {
   return { data, files };
 }
 
-/**
- * Clean fields for Zoho CRM - remove truly empty values but keep meaningful empty strings
- */
-function cleanZohoFields(leadFields: Record<string, any>): Record<string, any> {
-  const cleaned = { ...leadFields };
-  
-  // Remove only truly empty/null values, keep empty strings for field presence
-  Object.keys(cleaned).forEach(key => {
-    const value = cleaned[key];
-    if (value === null || value === undefined) {
-      delete cleaned[key];
-    }
-    // Keep empty strings - they're valid for Zoho and indicate field presence
-  });
-  
-  return cleaned;
-}
-
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
   console.log('\n🚀 Quote Submission Request Started');
@@ -102,7 +105,7 @@ export async function POST(request: NextRequest) {
   try {
     // Apply rate limiting
     const { config } = getRateLimitConfig(request);
-    const rateLimitResult = applyRateLimit(request, config);
+    const rateLimitResult = await applyRateLimit(request, config);
     if (!rateLimitResult.allowed) {
       console.log('🚫 Rate limit exceeded');
       return NextResponse.json(
@@ -113,210 +116,232 @@ export async function POST(request: NextRequest) {
 
     // Parse request data with enhanced multipart support
     const { data, files } = await readMultipartOrJson(request);
+
+    // Double-clicks and client retries replay the first outcome instead of creating another lead
+    return await withIdempotency({ form: 'quote', submissionId: data.submission_id, payload: data, files }, async () => {
+      // Score the submission for bot signals before any validation or Zoho work
+      const verdict = guardSubmission(request, 'quote', data);
+      if (verdict.decision === 'reject') {
+        console.log('🤖 Quote submission rejected by bot guard:', verdict.reasons);
+        return NextResponse.json(
+          { error: 'Submission rejected. Please contact us directly if you believe this is a mistake.' },
+          { status: 400 }
+        );
+      }
     
-    // Validate the request data
-    console.log('🔍 Validating quote data with QuoteSchema...');
-    const validationResult = QuoteSchema.safeParse(data);
+      // Validate the request data
+      console.log('🔍 Validating quote data with QuoteSchema...');
+      const validationResult = QuoteSchema.safeParse(data);
     
-    if (!validationResult.success) {
-      console.error('❌ Validation failed:', validationResult.error.flatten());
-      return NextResponse.json(
-        { 
-          error: 'Validation failed', 
-          details: validationResult.error.flatten()
-        },
-        { status: 400 }
-      );
-    }
-
-    const validatedData = validationResult.data;
-    console.log('✅ Quote data validation successful');
-
-    // Parse name into first and last name
-    const nameParts = validatedData.name.trim().split(' ');
-    const firstName = nameParts[0];
-    const lastName = nameParts.slice(1).join(' ') || firstName;
-
-    // Build comprehensive lead payload for Zoho CRM with proper custom field naming
-    const leadFields = {
-      // Basic contact info
-      First_Name: firstName,
-      Last_Name: lastName,
-      Email: validatedData.email,
-      Phone: validatedData.phone || '',
-      Company: validatedData.company || 'Individual',
-      
-      // Lead classification
-      Lead_Source: 'Quotation Request',
-      Lead_Status: 'Quote Requested',
-      Industry: 'Manufacturing',
-      
-      // Custom fields - using SINGLE underscore convention (_c) that works
-      Submission_ID_c: validatedData.submission_id,
-      Service_Type_c: validatedData.service,
-      Budget_Range_c: validatedData.budget,
-      Timeline_c: validatedData.timeline,
-      Scope_c: validatedData.scope,
-      Description: validatedData.description,
-      Consent_c: validatedData.consent,
-      Newsletter_Opt_In_c: validatedData.newsletter_opt_in || false,
-      
-      // UTM tracking fields
-      UTM_Source_c: validatedData.utm_source,
-      UTM_Medium_c: validatedData.utm_medium,
-      UTM_Campaign_c: validatedData.utm_campaign,
-      UTM_Term_c: validatedData.utm_term,
-      UTM_Content_c: validatedData.utm_content,
-      
-      // System tracking
-      Website_Referrer_c: validatedData.referrer,
-      Page_Path_c: validatedData.page,
-      
-      // Metadata
-      Submission_Date_c: new Date().toISOString().split('T')[0], // YYYY-MM-DD format
-      Submission_Time_c: new Date().toLocaleTimeString('en-GB', { 
-        hour12: false, 
-        timeZone: process.env.TIMEZONE || 'Europe/Berlin' 
-      }), // HH:MM:SS format
-      
-      // Set rating based on scope/budget for lead prioritization
-      Rating: validatedData.scope === 'project' || 
-              validatedData.budget?.includes('€50,000') || 
-              validatedData.budget?.includes('€100,000') ? 'Hot' : 
-              validatedData.scope === 'design' ? 'Warm' : 'Cold'
-    };
-
-    console.log('🔍 DEBUG: Original leadFields:', JSON.stringify(leadFields, null, 2));
-
-    // Clean fields for Zoho (remove null/undefined but keep empty strings)
-    const cleanedLeadFields = cleanZohoFields(leadFields);
-    console.log('🔍 DEBUG: Cleaned leadFields for Zoho:', JSON.stringify(cleanedLeadFields, null, 2));
+      if (!validationResult.success) {
+        console.error('❌ Validation failed:', validationResult.error.flatten());
+        return NextResponse.json(
+          { 
+            error: 'Validation failed', 
+            details: validationResult.error.flatten()
+          },
+          { status: 400 }
+        );
+      }
 
-    // Initialize response data
-    let leadResponse: any = null;
-    let workdriveResult: any = null;
+      const validatedData = validationResult.data;
+      console.log('✅ Quote data validation successful');
 
-    // 1. Create lead in Zoho CRM
-    try {
-      console.log('📋 Creating lead in Zoho CRM...');
-      
-      // Dynamically import Zoho CRM client
-      const { crm } = await import('@/lib/zoho/client');
-      
-      const crmData = {
-        data: [cleanedLeadFields]
-      };
+      // Large files arrive ahead of the form through the chunked upload API (/api/uploads)
+      const uploadIds = String(data.upload_ids || '').split(',').map((id: string) => id.trim()).filter(Boolean);
+      if (files.length + uploadIds.length > 5) {
+        return NextResponse.json({ error: 'A maximum of 5 files can be attached' }, { status: 400 });
+      }
 
-      leadResponse = await crm.upsertLead(crmData);
-      console.log('✅ Quote request lead created in CRM');
-      console.log('🔍 DEBUG: Zoho CRM response:', JSON.stringify(leadResponse, null, 2));
-      
-    } catch (crmError) {
-      console.error('⚠️ CRM integration failed:', crmError);
-      // Don't fail the entire request for CRM issues
-    }
+      // Direct attachments are inspected here; chunked uploads were inspected when they completed
+      const directInspections: FileVerdict[] = [];
+      for (const file of files) {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        directInspections.push(await getFileInspector().inspect(inspectableBytes(file.name, bytes)));
+      }
+      const rejectedFiles = directInspections.filter(item => item.verdict === 'rejected');
+      if (rejectedFiles.length > 0) {
+        return NextResponse.json(
+          {
+            error: `File rejected: ${rejectedFiles.map(item => item.filename).join(', ')}`,
+            code: 'file_rejected',
+            inspections: rejectedFiles.map(item => ({ filename: item.filename, reasons: item.reasons }))
+          },
+          { status: 400 }
+        );
+      }
 
-    // 2. Upload files to WorkDrive (if any)
-    if (files && files.length > 0) {
+      let uploads: UploadSession[] = [];
       try {
-        console.log(`📁 Uploading ${files.length} files to WorkDrive...`);
-        
-        // Use Zoho client for WorkDrive integration
-        const { workdrive } = await import('@/lib/zoho/client');
-        
-        // Create folder for this quotation
-        const folderName = `${validatedData.submission_id} - ${validatedData.name} - Quote Request`.substring(0, 100);
-        const parentFolderId = process.env.WORKDRIVE_PARENT_FOLDER_ID || process.env.WORKDRIVE_FOLDER_ID || '1';
-        
-        const folderResponse = await workdrive.createFolder(folderName, parentFolderId) as any;
-        const folderId = folderResponse.data?.id;
-        const folderLink = folderResponse.data?.attributes?.permalink;
-        
-        if (folderId && folderLink) {
-          console.log('✅ WorkDrive folder created:', folderLink);
-          
-          // Upload files to the folder
-          const uploadPromises = files.map(async (file) => {
-            try {
-              const uploadResponse = await workdrive.upload(folderId, file, file.name) as any;
-              console.log(`✅ File uploaded: ${file.name}`);
-              return {
-                filename: file.name,
-                fileId: uploadResponse.data?.id,
-                link: uploadResponse.data?.attributes?.permalink
-              };
-            } catch (uploadError) {
-              console.error(`❌ Failed to upload file: ${file.name}`, uploadError);
-              return null;
-            }
-          });
-          
-          const uploadResults = await Promise.all(uploadPromises);
-          const successfulUploads = uploadResults.filter(result => result !== null);
-          
-          workdriveResult = {
-            folderId,
-            folderLink,
-            uploadedFiles: successfulUploads
-          };
-          
-          // Update lead with WorkDrive folder link using direct zohoFetch
-          if (leadResponse && successfulUploads.length > 0) {
-            try {
-              const { zohoFetch } = await import('@/lib/zoho/client');
-              await zohoFetch('crm', `/Leads/${leadResponse.data[0].details.id}`, {
-                method: 'PUT',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ 
-                  data: [{ WorkDrive_Folder_Link_c: folderLink }] 
-                })
-              });
-              console.log('✅ Lead updated with WorkDrive folder link');
-            } catch (updateError) {
-              console.error('⚠️ Failed to update lead with WorkDrive link:', updateError);
-            }
-          }
-          
-          console.log(`✅ ${successfulUploads.length}/${files.length} files uploaded successfully`);
-        } else {
-          throw new Error('WorkDrive folder creation failed - no folder ID or link received');
+        uploads = await getUploads().claim(uploadIds, validatedData.submission_id);
+      } catch (error) {
+        if (error instanceof UploadError) {
+          return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
         }
-        
-      } catch (workdriveError) {
-        console.error('⚠️ WorkDrive integration failed (non-critical):', workdriveError);
-        // Don't fail the entire request for WorkDrive issues
+        throw error;
       }
-    }
+      const attachmentCount = files.length + uploads.length;
+      const inspections = [
+        ...directInspections,
+        ...uploads.map(upload => upload.inspection).filter((item): item is FileVerdict => !!item)
+      ];
 
-    // 3. Newsletter subscription is handled automatically by Zoho Flow
-    // Flow monitors Newsletter_Opt_In_c field and adds contacts to Campaigns
-    if (validatedData.newsletter_opt_in) {
-      console.log('📧 Newsletter opt-in recorded in CRM - Zoho Flow will handle Campaigns subscription');
-    }
+      // STL/STEP metadata and mesh previews, so triage and rough pricing don't need CAD software
+      const cadAnalyses: CadAnalysis[] = [];
+      for (const source of [
+        ...files.map(file => ({ filename: file.name, size: file.size, stream: () => file.stream() })),
+        ...uploads.map(upload => ({ filename: upload.filename, size: upload.size, stream: () => getUploads().stream(upload.id) }))
+      ]) {
+        const analysis = await analyzeCadFile(source);
+        if (analysis) cadAnalyses.push(analysis);
+      }
+      const thumbnails = cadAnalyses
+        .filter(analysis => analysis.thumbnail)
+        .map(analysis => new File([analysis.thumbnail!.data], thumbnailFilename(analysis.filename), { type: 'image/png' }));
+      const meshVolume = totalMeshVolumeCm3(cadAnalyses);
 
-    const processingTime = Date.now() - startTime;
-    console.log(`✅ Quote submission completed in ${processingTime}ms`);
+      // Instant 3D printing estimate; only trusted when signed and tied to one of this quote's uploads
+      const estimate = data.estimate_token ? verifyEstimateToken(String(data.estimate_token)) : null;
+      if (data.estimate_token && (!estimate || !uploadIds.includes(estimate.uploadId))) {
+        console.warn('⚠️ Ignoring an invalid or unrelated estimate token on quote', validatedData.submission_id);
+      }
+      const attachedEstimate = estimate && uploadIds.includes(estimate.uploadId) ? estimate : null;
+
+      // Rating from the lead scoring rules (editable under /admin/lead-scoring)
+      const leadScore = await scoreLead('quote', { ...validatedData, audience: data.audience }, attachmentCount);
 
-    // Return comprehensive success response
-    return NextResponse.json({
-      success: true,
-      message: 'Quote request submitted successfully! We will review your requirements and send you a detailed quotation within 48 hours.',
-      data: {
+      // Zoho CRM lead record (field names and types live in lib/crm-mapping)
+      const leadRecord = buildCrmRecord(QUOTE_LEAD_MAPPING, {
         submissionId: validatedData.submission_id,
-        submittedAt: new Date().toISOString(),
+        name: validatedData.name,
+        email: validatedData.email,
+        phone: validatedData.phone,
+        company: validatedData.company,
+        consent: validatedData.consent,
+        tracking: validatedData,
+        score: leadScore,
         service: validatedData.service,
-        scope: validatedData.scope,
+        budget: validatedData.budget,
         timeline: validatedData.timeline,
-        estimatedResponse: validatedData.scope === 'project' ? '24-48 hours' : 
-                          validatedData.scope === 'design' ? '36-48 hours' : '48 hours',
-        filesUploaded: files?.length || 0,
-        processingTime: `${processingTime}ms`
-      },
-      integrations: {
-        crm: leadResponse ? 'success' : 'failed',
-        workdrive: workdriveResult ? 'success' : (files?.length > 0 ? 'failed' : 'skipped'),
-        newsletter: validatedData.newsletter_opt_in ? 'success' : 'skipped'
+        scope: validatedData.scope,
+        description: validatedData.description,
+        submittedAt: new Date(),
+        fileInspectionStatus: attachmentCount > 0 ? overallVerdict(inspections) : undefined,
+        fileInspection: inspections.length > 0 ? summarizeVerdicts(inspections) : undefined,
+        cadMetadata: cadAnalyses.length > 0 ? summarizeCadAnalyses(cadAnalyses) : undefined,
+        cadVolumeCm3: meshVolume > 0 ? meshVolume : undefined,
+        priceEstimate: attachedEstimate ? {
+          summary: summarizeEstimate(attachedEstimate),
+          min: attachedEstimate.priceRange.min,
+          max: attachedEstimate.priceRange.max
+        } : undefined
+      });
+      console.log('🔍 DEBUG: Lead record for Zoho:', JSON.stringify(leadRecord, null, 2));
+
+      // 1. Record the submission in the outbox before touching Zoho, so a CRM or
+      // WorkDrive outage queues the work for replay instead of losing the lead
+      const { getOutbox, integrationStatus } = await import('@/lib/outbox');
+      const outbox = getOutbox();
+
+      const folderName = `${validatedData.submission_id} - ${validatedData.name} - Quote Request`.substring(0, 100);
+      const parentFolderId = process.env.WORKDRIVE_PARENT_FOLDER_ID || process.env.WORKDRIVE_FOLDER_ID || '1';
+      const hasFiles = attachmentCount > 0;
+
+      await outbox.enqueue({
+        submissionId: validatedData.submission_id,
+        form: 'quote',
+        summary: {
+          email: validatedData.email,
+          service: validatedData.service,
+          files: attachmentCount
+        },
+        files: [...files, ...thumbnails],
+        uploads: uploads.map(upload => ({
+          uploadId: upload.id,
+          filename: upload.filename,
+          size: upload.size,
+          type: upload.type,
+        })),
+        quarantine: quarantineFor(verdict),
+        steps: [
+          { id: 'crm', kind: 'crm.upsertLead', input: { payload: { data: [leadRecord] } } },
+          ...(hasFiles ? [
+            { id: 'workdrive', kind: 'workdrive.uploadFiles' as const, input: { folderName, parentFolderId } },
+            {
+              id: 'crm-link',
+              kind: 'crm.updateLead' as const,
+              input: { leadStep: 'crm', resultFields: { [WORKDRIVE_FOLDER_LINK.field]: 'workdrive.folderLink' } },
+              dependsOn: ['crm', 'workdrive']
+            }
+          ] : [])
+        ]
+      });
+
+      // 2. Attempt CRM lead creation and WorkDrive uploads now; failures stay queued
+      console.log('📋 Dispatching quote submission to Zoho CRM/WorkDrive...');
+      const outboxRecord = await outbox.dispatch(validatedData.submission_id);
+      const crmStatus = integrationStatus(outboxRecord, 'crm');
+      const workdriveStatus = integrationStatus(outboxRecord, 'workdrive');
+
+      if (crmStatus.status === 'queued') {
+        console.warn('⚠️ CRM integration failed - lead queued for retry:', crmStatus.lastError);
+      } else if (crmStatus.status === 'failed') {
+        console.error('❌ CRM integration failed permanently:', crmStatus.lastError);
+      }
+      if (workdriveStatus.status === 'queued') {
+        console.warn('⚠️ WorkDrive upload failed - files queued for retry:', workdriveStatus.lastError);
+      } else if (workdriveStatus.status === 'failed') {
+        console.error('❌ WorkDrive upload failed permanently:', workdriveStatus.lastError);
       }
+
+      // 3. Newsletter opt-in starts the double opt-in; Campaigns and the CRM flag follow the confirmation
+      const newsletterStatus = validatedData.newsletter_opt_in
+        ? await requestNewsletterOptIn(request, 'quote', validatedData)
+        : 'skipped';
+
+      const processingTime = Date.now() - startTime;
+      console.log(`✅ Quote submission completed in ${processingTime}ms`);
+
+      // Return comprehensive success response
+      return NextResponse.json({
+        success: true,
+        message: 'Quote request submitted successfully! We will review your requirements and send you a detailed quotation within 48 hours.',
+        data: {
+          submissionId: validatedData.submission_id,
+          submittedAt: new Date().toISOString(),
+          service: validatedData.service,
+          scope: validatedData.scope,
+          timeline: validatedData.timeline,
+          estimatedResponse: validatedData.scope === 'project' ? '24-48 hours' : 
+                            validatedData.scope === 'design' ? '36-48 hours' : '48 hours',
+          filesUploaded: attachmentCount,
+          fileInspection: inspections.map(item => ({
+            filename: item.filename,
+            verdict: item.verdict,
+            detectedType: item.detectedType
+          })),
+          cadMetadata: cadAnalyses.map(analysis => ({
+            filename: analysis.filename,
+            ...analysis.metadata,
+            preview: analysis.thumbnail ? thumbnailFilename(analysis.filename) : undefined
+          })),
+          estimate: attachedEstimate ? {
+            priceRange: attachedEstimate.priceRange,
+            currency: attachedEstimate.currency
+          } : undefined,
+          processingTime: `${processingTime}ms`
+        },
+        integrations: {
+          crm: crmStatus.status,
+          workdrive: workdriveStatus.status,
+          newsletter: newsletterStatus,
+          // Zoho error messages stay server-side outside development
+          errors: process.env.NODE_ENV === 'development' ? {
+            crm: crmStatus.lastError,
+            workdrive: workdriveStatus.lastError
+          } : undefined
+        }
+      });
     });
 
   } catch (error) {
@@ -353,8 +378,9 @@ export async function GET() {
       'File uploads (up to 5 files)',
       'Zoho CRM lead creation',
       'WorkDrive file storage',
+      'Durable outbox with automatic retry',
       'UTM tracking',
-      'Newsletter subscription',
+      'Newsletter double opt-in',
       'Rate limiting',
       'Comprehensive error handling'
     ],
@@ -373,17 +399,21 @@ export async function GET() {
       'timeline', 
       'scope',
       'newsletter_opt_in',
+      'newsletter_consent_version',
       'utm_source',
       'utm_medium', 
       'utm_campaign',
       'utm_term',
       'utm_content',
       'referrer',
-      'page'
+      'page',
+      'upload_ids',
+      'estimate_token'
     ],
     fileUpload: {
       maxFiles: 5,
       maxSizePerFile: '100MB',
+      resumable: 'POST /api/uploads, PUT /api/uploads/{id}/chunks/{index}, POST /api/uploads/{id}/complete; send the ids as upload_ids',
       supportedTypes: ['PDF', 'Images', 'CAD files (.dwg, .dxf, .step, .stp, .iges)', 'Documents']
     }
   });
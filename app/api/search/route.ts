@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SiteSearchQuerySchema } from '@/lib/validations/api';
+import { search } from '@/lib/search';
+
+// Results only change with a deploy or a scheduled post going live
+const CACHE_CONTROL = 'public, max-age=60, s-maxage=300, stale-while-revalidate=3600';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Validate query parameters
+    const { searchParams } = new URL(request.url);
+    const params = Object.fromEntries(searchParams.entries());
+    const queryValidation = SiteSearchQuerySchema.safeParse(params);
+
+    if (!queryValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          details: queryValidation.error.flatten()
+        },
+        { status: 400 }
+      );
+    }
+
+    const { q, type, limit } = queryValidation.data;
+    const result = await search(q, { types: type, limit });
+
+    return NextResponse.json(
+      { success: true, data: result },
+      { headers: { 'Cache-Control': CACHE_CONTROL } }
+    );
+  } catch (error) {
+    console.error('Site search error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Chunked Upload API - chunk
+ * Raw chunk bytes in the body, their sha256 in the x-chunk-sha256 header
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CHUNK_CHECKSUM_HEADER, getUploads, UploadError } from '@/lib/uploads';
+
+interface ChunkRouteContext {
+  params: Promise<{
+    uploadId: string;
+    index: string;
+  }>;
+}
+
+export async function PUT(request: NextRequest, { params }: ChunkRouteContext) {
+  const { uploadId, index } = await params;
+  const digest = request.headers.get(CHUNK_CHECKSUM_HEADER) || '';
+
+  if (!/^[a-fA-F0-9]{64}$/.test(digest) || !/^\d+$/.test(index)) {
+    return NextResponse.json(
+      { error: `A numeric chunk index and a sha256 ${CHUNK_CHECKSUM_HEADER} header are required` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const data = new Uint8Array(await request.arrayBuffer());
+    const state = await getUploads().writeChunk(uploadId, Number(index), data, digest);
+    return NextResponse.json(state, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('❌ Upload chunk error:', error);
+    return NextResponse.json({ error: 'Could not store the chunk' }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
@@ -0,0 +1,41 @@
+/**
+ * Chunked Upload API - complete
+ * Verifies every chunk and the composite checksum; the upload id can then be sent with a form
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUploads, UploadError } from '@/lib/uploads';
+import { UploadCompleteSchema } from '@/lib/validations/api';
+
+interface CompleteRouteContext {
+  params: Promise<{
+    uploadId: string;
+  }>;
+}
+
+export async function POST(request: NextRequest, { params }: CompleteRouteContext) {
+  const { uploadId } = await params;
+  const body = await request.json().catch(() => null);
+  const validationResult = UploadCompleteSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    return NextResponse.json(
+      { error: 'Invalid parameters', details: validationResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await getUploads().complete(uploadId, validationResult.data.checksum);
+    return NextResponse.json(result, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('❌ Upload complete error:', error);
+    return NextResponse.json({ error: 'Could not complete the upload' }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
@@ -0,0 +1,46 @@
+/**
+ * Chunked Upload API - status and abort
+ * GET tells a resuming client which chunks the server already holds
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUploads, UploadError } from '@/lib/uploads';
+
+interface UploadRouteContext {
+  params: Promise<{
+    uploadId: string;
+  }>;
+}
+
+function errorResponse(error: unknown, context: string) {
+  if (error instanceof UploadError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  console.error(`❌ Upload ${context} error:`, error);
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+export async function GET(_request: NextRequest, { params }: UploadRouteContext) {
+  const { uploadId } = await params;
+
+  try {
+    const state = await getUploads().state(uploadId);
+    return NextResponse.json(state, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return errorResponse(error, 'status');
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: UploadRouteContext) {
+  const { uploadId } = await params;
+
+  try {
+    await getUploads().abort(uploadId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'abort');
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
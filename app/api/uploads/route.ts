@@ -0,0 +1,34 @@
+/**
+ * Chunked Upload API - init
+ * Opens a resumable upload session; the client then PUTs chunks to /api/uploads/{id}/chunks/{index}
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUploads, UploadError } from '@/lib/uploads';
+import { UploadInitSchema } from '@/lib/validations/api';
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const validationResult = UploadInitSchema.safeParse(body);
+
+  if (!validationResult.success) {
+    return NextResponse.json(
+      { error: 'Invalid parameters', details: validationResult.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const state = await getUploads().init(validationResult.data);
+    return NextResponse.json(state, { status: 201, headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error('❌ Upload init error:', error);
+    return NextResponse.json({ error: 'Could not start the upload' }, { status: 500 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
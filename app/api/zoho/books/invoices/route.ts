@@ -1,18 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { books } from '@/lib/zoho/client';
+import { z } from 'zod';
+import {
+  createInvoice,
+  getInvoice,
+  getInvoicePaymentStatus,
+  getInvoicePdf,
+  listInvoices,
+  updateInvoice
+} from '@/lib/zoho/books';
 import { applyRateLimit, getRateLimitConfig } from '@/lib/security/rate-limit';
 import { withAdminAuth } from '@/lib/auth/admin-auth';
 import { logger } from '@/library/logger';
 import { withCorrelation } from '@/lib/helpers/withCorrelation';
 import { withError } from '@/lib/helpers/withError';
 
-// Define types for Zoho Books API responses
-interface ZohoBooksInvoiceResponse {
-  page_context?: {
-    total?: number;
-  };
-  invoices?: any[];
-}
+const InvoiceListQuerySchema = z.object({
+  invoice_id: z.string().optional(),
+  format: z.enum(['json', 'pdf', 'payment_status']).default('json'),
+  page: z.coerce.number().int().min(1).default(1),
+  per_page: z.coerce.number().int().min(1).max(200).default(20),
+  status: z.enum(['draft', 'sent', 'overdue', 'paid', 'void', 'unpaid', 'partially_paid', 'viewed']).optional(),
+  customer_id: z.string().optional(),
+  date_from: z.string().optional(),
+  date_to: z.string().optional(),
+  search: z.string().max(100).optional(),
+  sort_column: z.enum(['date', 'due_date', 'invoice_number', 'total', 'balance', 'created_time']).optional(),
+  sort_order: z.enum(['A', 'D']).optional(),
+});
 
 export const GET = withAdminAuth(async (request: NextRequest) => {
   const { cid, responseWithCid } = withCorrelation(request);
@@ -22,7 +36,7 @@ export const GET = withAdminAuth(async (request: NextRequest) => {
     
     // Apply rate limiting
     const { config } = getRateLimitConfig(request);
-    const rateLimitResult = applyRateLimit(request, config);
+    const rateLimitResult = await applyRateLimit(request, config);
     if (!rateLimitResult.allowed) {
       logger.warn('books.invoices.rate_limited', { cid });
       return responseWithCid(
@@ -31,25 +45,60 @@ export const GET = withAdminAuth(async (request: NextRequest) => {
       );
     }
 
-    // Get query parameters
+    // Validate query parameters
     const { searchParams } = new URL(request.url);
-    const page = searchParams.get('page') || '1';
-    const perPage = searchParams.get('per_page') || '20';
-    const status = searchParams.get('status'); // draft, sent, paid, etc.
-    const customerId = searchParams.get('customer_id');
-
-    // Build query parameters
-    const queryParams = new URLSearchParams({
-      page,
-      per_page: perPage,
-    });
+    const queryValidation = InvoiceListQuerySchema.safeParse(Object.fromEntries(searchParams.entries()));
+    if (!queryValidation.success) {
+      return responseWithCid(
+        { error: 'Invalid query parameters', details: queryValidation.error.flatten() },
+        400
+      );
+    }
+    const query = queryValidation.data;
 
-    if (status) queryParams.append('status', status);
-    if (customerId) queryParams.append('customer_id', customerId);
+    // Single invoice: detail, PDF download or payment status
+    if (query.invoice_id) {
+      if (query.format === 'pdf') {
+        const pdf = await withError(() => getInvoicePdf(query.invoice_id!, { cid }), { cid, context: 'books.invoices.pdf' });
+        if (!pdf) {
+          return responseWithCid({ error: 'Failed to download invoice PDF from Zoho Books' }, 502);
+        }
+        return new NextResponse(pdf, {
+          headers: {
+            'Content-Type': 'application/pdf',
+            'Content-Disposition': `attachment; filename="invoice-${query.invoice_id}.pdf"`,
+            'x-correlation-id': cid,
+          },
+        });
+      }
+
+      const detail = await withError<unknown>(
+        () => query.format === 'payment_status'
+          ? getInvoicePaymentStatus(query.invoice_id!, { cid })
+          : getInvoice(query.invoice_id!, { cid }),
+        { cid, context: 'books.invoices.detail' }
+      );
+      if (!detail) {
+        return responseWithCid({ error: 'Failed to fetch invoice from Zoho Books' }, 502);
+      }
+
+      logger.info('books.invoices.get.success', { cid, invoiceId: query.invoice_id, format: query.format });
+      return responseWithCid({ success: true, data: detail });
+    }
 
     // Fetch invoices from Zoho Books
     const result = await withError(() => 
-      books.request<ZohoBooksInvoiceResponse>(`invoices?${queryParams.toString()}`, { cid }),
+      listInvoices({
+        page: query.page,
+        perPage: query.per_page,
+        status: query.status,
+        customerId: query.customer_id,
+        dateFrom: query.date_from,
+        dateTo: query.date_to,
+        search: query.search,
+        sortColumn: query.sort_column,
+        sortOrder: query.sort_order,
+      }, { cid }),
       { cid, context: 'books.invoices.fetch' }
     );
     
@@ -62,16 +111,17 @@ export const GET = withAdminAuth(async (request: NextRequest) => {
 
     logger.info('books.invoices.get.success', { 
       cid, 
-      count: result?.invoices?.length || 0 
+      count: result.items.length 
     });
 
     return responseWithCid({
       success: true,
-      data: result,
+      data: { invoices: result.items, page_context: result.pageContext },
       pagination: {
-        page: parseInt(page),
-        perPage: parseInt(perPage),
-        total: result?.page_context?.total || 0
+        page: result.pageContext.page,
+        perPage: result.pageContext.per_page,
+        hasMore: result.pageContext.has_more_page,
+        total: result.pageContext.total ?? null
       }
     });
 
@@ -99,7 +149,7 @@ export const POST = withAdminAuth(async (request: NextRequest) => {
     
     // Apply rate limiting
     const { config } = getRateLimitConfig(request);
-    const rateLimitResult = applyRateLimit(request, config);
+    const rateLimitResult = await applyRateLimit(request, config);
     if (!rateLimitResult.allowed) {
       logger.warn('books.invoices.rate_limited', { cid });
       return responseWithCid(
@@ -112,12 +162,7 @@ export const POST = withAdminAuth(async (request: NextRequest) => {
 
     // Create invoice in Zoho Books
     const result = await withError(() => 
-      books.request<any>('invoices', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
-        cid
-      }),
+      createInvoice(body, { cid }),
       { cid, context: 'books.invoices.create' }
     );
     
@@ -161,7 +206,7 @@ export const PUT = withAdminAuth(async (request: NextRequest) => {
     
     // Apply rate limiting
     const { config } = getRateLimitConfig(request);
-    const rateLimitResult = applyRateLimit(request, config);
+    const rateLimitResult = await applyRateLimit(request, config);
     if (!rateLimitResult.allowed) {
       logger.warn('books.invoices.rate_limited', { cid });
       return responseWithCid(
@@ -185,12 +230,7 @@ export const PUT = withAdminAuth(async (request: NextRequest) => {
 
     // Update invoice in Zoho Books
     const result = await withError(() => 
-      books.request<any>(`invoices/${invoiceId}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
-        cid
-      }),
+      updateInvoice(invoiceId, body, { cid }),
       { cid, context: 'books.invoices.update' }
     );
     
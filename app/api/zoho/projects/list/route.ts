@@ -1,16 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { projects } from '@/lib/zoho/client';
+import { createProject, listProjects, updateProject, type ProjectFilters, type ProjectInput } from '@/lib/zoho/projects';
 import { applyRateLimit, getRateLimitConfig } from '@/lib/security/rate-limit';
 import { withAdminAuth } from '@/lib/auth/admin-auth';
 import { logger } from '@/library/logger';
 import { withCorrelation } from '@/lib/helpers/withCorrelation';
 import { withError } from '@/lib/helpers/withError';
 
-// Define types for Zoho Projects API responses
-interface ZohoProjectsResponse {
-  projects?: any[];
-}
-
 export const GET = withAdminAuth(async (request: NextRequest) => {
   const { cid, responseWithCid } = withCorrelation(request);
   
@@ -19,7 +14,7 @@ export const GET = withAdminAuth(async (request: NextRequest) => {
     
     // Apply rate limiting
     const { config } = getRateLimitConfig(request);
-    const rateLimitResult = applyRateLimit(request, config);
+    const rateLimitResult = await applyRateLimit(request, config);
     if (!rateLimitResult.allowed) {
       logger.warn('projects.list.rate_limited', { cid });
       return responseWithCid(
@@ -30,25 +25,21 @@ export const GET = withAdminAuth(async (request: NextRequest) => {
 
     // Get query parameters
     const { searchParams } = new URL(request.url);
-    const page = searchParams.get('page') || '1';
-    const perPage = searchParams.get('per_page') || '20';
-    const status = searchParams.get('status'); // active, archived, template
-    const sortBy = searchParams.get('sort_by') || 'created_time';
-    const sortOrder = searchParams.get('sort_order') || 'desc';
-
-    // Build query parameters
-    const queryParams = new URLSearchParams({
-      index: ((parseInt(page) - 1) * parseInt(perPage)).toString(),
-      range: perPage,
-      sort_column: sortBy,
-      sort_order: sortOrder
-    });
-
-    if (status) queryParams.append('status', status);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+    const perPage = Math.min(200, Math.max(1, parseInt(searchParams.get('per_page') || '20') || 20));
+    const status = searchParams.get('status') as ProjectFilters['status'] | null; // active, archived, template
+    const sortBy = searchParams.get('sort_by') === 'last_modified_time' ? 'last_modified_time' : 'created_time';
+    const sortOrder = searchParams.get('sort_order') === 'asc' ? 'ascending' : 'descending';
 
     // Fetch projects from Zoho Projects
     const result = await withError(() => 
-      projects.request<ZohoProjectsResponse>(`projects/?${queryParams.toString()}`, { cid }),
+      listProjects({
+        page,
+        perPage,
+        status: status || undefined,
+        sortColumn: sortBy,
+        sortOrder,
+      }, { portalId: searchParams.get('portal_id') || undefined, cid }),
       { cid, context: 'projects.list.fetch' }
     );
     
@@ -61,16 +52,17 @@ export const GET = withAdminAuth(async (request: NextRequest) => {
 
     logger.info('projects.list.get.success', { 
       cid, 
-      count: result?.projects?.length || 0 
+      count: result.items.length 
     });
 
     return responseWithCid({
       success: true,
-      data: result,
+      data: { projects: result.items },
       pagination: {
-        page: parseInt(page),
-        perPage: parseInt(perPage),
-        total: result?.projects?.length || 0
+        page,
+        perPage,
+        total: result.items.length,
+        hasMore: result.hasMore
       }
     });
 
@@ -98,7 +90,7 @@ export const POST = withAdminAuth(async (request: NextRequest) => {
     
     // Apply rate limiting
     const { config } = getRateLimitConfig(request);
-    const rateLimitResult = applyRateLimit(request, config);
+    const rateLimitResult = await applyRateLimit(request, config);
     if (!rateLimitResult.allowed) {
       logger.warn('projects.list.rate_limited', { cid });
       return responseWithCid(
@@ -107,16 +99,18 @@ export const POST = withAdminAuth(async (request: NextRequest) => {
       );
     }
 
-    const body = await request.json();
+    const body: ProjectInput = await request.json();
+
+    if (!body?.name) {
+      return responseWithCid(
+        { error: 'Project name is required' },
+        400
+      );
+    }
 
     // Create project in Zoho Projects
     const result = await withError(() => 
-      projects.request<any>('projects/', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
-        cid
-      }),
+      createProject({ ...body, name: body.name as string }, { cid }),
       { cid, context: 'projects.list.create' }
     );
     
@@ -160,7 +154,7 @@ export const PUT = withAdminAuth(async (request: NextRequest) => {
     
     // Apply rate limiting
     const { config } = getRateLimitConfig(request);
-    const rateLimitResult = applyRateLimit(request, config);
+    const rateLimitResult = await applyRateLimit(request, config);
     if (!rateLimitResult.allowed) {
       logger.warn('projects.list.rate_limited', { cid });
       return responseWithCid(
@@ -180,16 +174,11 @@ export const PUT = withAdminAuth(async (request: NextRequest) => {
       );
     }
 
-    const body = await request.json();
+    const body: ProjectInput = await request.json();
 
     // Update project in Zoho Projects
     const result = await withError(() => 
-      projects.request<any>(`projects/${projectId}/`, {
-        method: 'POST', // Zoho Projects uses POST for updates
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
-        cid
-      }),
+      updateProject(projectId, body, { cid }),
       { cid, context: 'projects.list.update' }
     );
     
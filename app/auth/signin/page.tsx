@@ -2,7 +2,7 @@
 
 import { useState } from 'react'
 import { signIn } from 'next-auth/react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { Eye, EyeOff } from 'lucide-react'
 
 export default function SignIn() {
@@ -12,6 +12,9 @@ export default function SignIn() {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
   const router = useRouter()
+  const searchParams = useSearchParams()
+  const verified = searchParams.get('verified') === '1'
+  const linkError = searchParams.get('error')
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -26,7 +29,7 @@ export default function SignIn() {
       })
 
       if (result?.error) {
-        setError('Invalid credentials. Please try again.')
+        setError('Invalid credentials, or your email address is not confirmed yet.')
       } else {
         router.push('/portal')
       }
@@ -57,6 +60,20 @@ export default function SignIn() {
 
         <div className="bg-white py-6 sm:py-8 px-4 sm:px-6 shadow-lg rounded-lg">
           <form className="space-y-4 sm:space-y-6" onSubmit={handleSubmit}>
+            {verified && !error && (
+              <div className="bg-green-50 border border-green-200 text-green-700 px-3 sm:px-4 py-3 rounded-md text-sm leading-relaxed">
+                Your email address is confirmed. You can now sign in.
+              </div>
+            )}
+
+            {linkError && !error && (
+              <div className="bg-red-50 border border-red-200 text-red-600 px-3 sm:px-4 py-3 rounded-md text-sm leading-relaxed">
+                {linkError === 'invalid_token'
+                  ? 'This link is invalid or has expired.'
+                  : 'Sign in failed. Please try again.'}
+              </div>
+            )}
+
             {error && (
               <div className="bg-red-50 border border-red-200 text-red-600 px-3 sm:px-4 py-3 rounded-md text-sm leading-relaxed">
                 {error}
@@ -124,7 +141,7 @@ export default function SignIn() {
               </div>
 
               <div className="text-sm">
-                <a href="#" className="font-medium text-blue-600 hover:text-blue-500">
+                <a href="/auth/reset-password" className="font-medium text-blue-600 hover:text-blue-500">
                   Forgot your password?
                 </a>
               </div>
@@ -181,10 +198,7 @@ export default function SignIn() {
           </form>
 
           <div className="mt-6 text-center space-y-3">
-            <p className="text-sm text-gray-600">
-              Demo credentials: demo@ideinstein.com / demo123
-            </p>
-            <div className="border-t border-gray-200 pt-4">
+            <div>
               <p className="text-sm text-gray-600">
                 Don&apos;t have an account?{' '}
                 <button
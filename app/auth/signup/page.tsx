@@ -2,7 +2,7 @@
 
 import { useState } from 'react'
 import { signIn } from 'next-auth/react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { Eye, EyeOff, User, Building } from 'lucide-react'
 
 export default function SignUp() {
@@ -18,7 +18,10 @@ export default function SignUp() {
   const [showConfirmPassword, setShowConfirmPassword] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
   const router = useRouter()
+  // Present when the user follows a portal invitation email
+  const inviteToken = useSearchParams().get('token')
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData(prev => ({
@@ -32,22 +35,21 @@ export default function SignUp() {
     setIsLoading(true)
     setError('')
 
-    // Validate passwords match
-    if (formData.password !== formData.confirmPassword) {
+    // Self-signup chooses the password from the verification email, so only invites check it here
+    if (inviteToken && formData.password !== formData.confirmPassword) {
       setError('Passwords do not match')
       setIsLoading(false)
       return
     }
 
-    // Validate password strength
-    if (formData.password.length < 6) {
-      setError('Password must be at least 6 characters long')
+    // Validate password strength (mirrors the server rules)
+    if (inviteToken && (formData.password.length < 10 || !/[a-zA-Z]/.test(formData.password) || !/[0-9]/.test(formData.password))) {
+      setError('Password must be at least 10 characters and contain letters and numbers')
       setIsLoading(false)
       return
     }
 
     try {
-      // First, create the contact in Zoho with the full form data
       const signupResponse = await fetch('/api/auth/signup', {
         method: 'POST',
         headers: {
@@ -58,17 +60,23 @@ export default function SignUp() {
           lastName: formData.lastName,
           email: formData.email,
           company: formData.company,
-          password: formData.password,
+          ...(inviteToken && { token: inviteToken, password: formData.password }),
         }),
       })
 
+      const signupData = await signupResponse.json()
       if (!signupResponse.ok) {
-        const errorData = await signupResponse.json()
-        setError(errorData.error || 'Account creation failed. Please try again.')
+        setError(signupData.error || 'Account creation failed. Please try again.')
         return
       }
 
-      // Then sign in the user
+      // Self-signup must confirm the email address before the first sign-in
+      if (signupData.requiresVerification) {
+        setNotice(signupData.message)
+        return
+      }
+
+      // Invited users are verified by the invitation link and can sign in right away
       const result = await signIn('credentials', {
         email: formData.email,
         password: formData.password,
@@ -113,6 +121,18 @@ export default function SignUp() {
               </div>
             )}
 
+            {notice && (
+              <div className="bg-green-50 border border-green-200 text-green-700 px-3 sm:px-4 py-3 rounded-md text-sm leading-relaxed">
+                {notice}
+              </div>
+            )}
+
+            {inviteToken && !notice && (
+              <div className="bg-blue-50 border border-blue-200 text-blue-700 px-3 sm:px-4 py-3 rounded-md text-sm leading-relaxed">
+                You&apos;re completing a portal invitation. Use the email address the invitation was sent to.
+              </div>
+            )}
+
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
               <div>
                 <label htmlFor="firstName" className="block text-sm font-medium text-gray-700">
@@ -188,65 +208,69 @@ export default function SignUp() {
               </div>
             </div>
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
-              </label>
-              <div className="mt-1 relative">
-                <input
-                  id="password"
-                  name="password"
-                  type={showPassword ? 'text' : 'password'}
-                  autoComplete="new-password"
-                  required
-                  value={formData.password}
-                  onChange={handleChange}
-                  className="block w-full px-3 py-3 sm:py-2 pr-10 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
-                  placeholder="Create a password"
-                />
-                <button
-                  type="button"
-                  className="absolute inset-y-0 right-0 pr-3 flex items-center min-h-[44px] min-w-[44px] justify-center active:scale-95 sm:active:scale-100"
-                  onClick={() => setShowPassword(!showPassword)}
-                >
-                  {showPassword ? (
-                    <EyeOff className="h-4 w-4 text-gray-400" />
-                  ) : (
-                    <Eye className="h-4 w-4 text-gray-400" />
-                  )}
-                </button>
-              </div>
-            </div>
+            {inviteToken && (
+              <>
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                    Password
+                  </label>
+                  <div className="mt-1 relative">
+                    <input
+                      id="password"
+                      name="password"
+                      type={showPassword ? 'text' : 'password'}
+                      autoComplete="new-password"
+                      required
+                      value={formData.password}
+                      onChange={handleChange}
+                      className="block w-full px-3 py-3 sm:py-2 pr-10 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+                      placeholder="Create a password"
+                    />
+                    <button
+                      type="button"
+                      className="absolute inset-y-0 right-0 pr-3 flex items-center min-h-[44px] min-w-[44px] justify-center active:scale-95 sm:active:scale-100"
+                      onClick={() => setShowPassword(!showPassword)}
+                    >
+                      {showPassword ? (
+                        <EyeOff className="h-4 w-4 text-gray-400" />
+                      ) : (
+                        <Eye className="h-4 w-4 text-gray-400" />
+                      )}
+                    </button>
+                  </div>
+                </div>
 
-            <div>
-              <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
-                Confirm Password
-              </label>
-              <div className="mt-1 relative">
-                <input
-                  id="confirmPassword"
-                  name="confirmPassword"
-                  type={showConfirmPassword ? 'text' : 'password'}
-                  autoComplete="new-password"
-                  required
-                  value={formData.confirmPassword}
-                  onChange={handleChange}
-                  className="block w-full px-3 py-3 sm:py-2 pr-10 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
-                  placeholder="Confirm your password"
-                />
-                <button
-                  type="button"
-                  className="absolute inset-y-0 right-0 pr-3 flex items-center min-h-[44px] min-w-[44px] justify-center active:scale-95 sm:active:scale-100"
-                  onClick={() => setShowConfirmPassword(!showConfirmPassword)}
-                >
-                  {showConfirmPassword ? (
-                    <EyeOff className="h-4 w-4 text-gray-400" />
-                  ) : (
-                    <Eye className="h-4 w-4 text-gray-400" />
-                  )}
-                </button>
-              </div>
-            </div>
+                <div>
+                  <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+                    Confirm Password
+                  </label>
+                  <div className="mt-1 relative">
+                    <input
+                      id="confirmPassword"
+                      name="confirmPassword"
+                      type={showConfirmPassword ? 'text' : 'password'}
+                      autoComplete="new-password"
+                      required
+                      value={formData.confirmPassword}
+                      onChange={handleChange}
+                      className="block w-full px-3 py-3 sm:py-2 pr-10 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-base sm:text-sm"
+                      placeholder="Confirm your password"
+                    />
+                    <button
+                      type="button"
+                      className="absolute inset-y-0 right-0 pr-3 flex items-center min-h-[44px] min-w-[44px] justify-center active:scale-95 sm:active:scale-100"
+                      onClick={() => setShowConfirmPassword(!showConfirmPassword)}
+                    >
+                      {showConfirmPassword ? (
+                        <EyeOff className="h-4 w-4 text-gray-400" />
+                      ) : (
+                        <Eye className="h-4 w-4 text-gray-400" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+              </>
+            )}
 
             <div>
               <button
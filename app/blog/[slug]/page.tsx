@@ -0,0 +1,186 @@
+import { notFound } from 'next/navigation';
+import { Metadata } from 'next';
+import Link from 'next/link';
+import Image from 'next/image';
+import { ArrowLeft, Calendar, Clock, User } from 'lucide-react';
+import { getBlogPost, getBlogPosts, getRelatedPosts } from '@/lib/blog-data';
+import { renderMarkdown } from '@/lib/blog/markdown';
+import { BLOG_EMBEDS } from '@/lib/blog/embeds';
+import { blogFeedAlternates } from '@/lib/blog/feed';
+import { SITE_URL } from '@/lib/constants';
+import StructuredData from '@/components/shared/StructuredData';
+import TableOfContents from '@/components/blog/TableOfContents';
+import RelatedPosts from '@/components/blog/RelatedPosts';
+import SimpleBlogCTA from '@/components/blog/SimpleBlogCTA';
+
+interface BlogPostPageProps {
+  params: Promise<{
+    slug: string;
+  }>;
+}
+
+// Generate metadata for SEO
+export async function generateMetadata({ params }: BlogPostPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const post = await getBlogPost(slug);
+
+  if (!post) {
+    return {
+      title: 'Article Not Found - IdEinstein',
+      description: 'The requested article could not be found.',
+    };
+  }
+
+  const url = `${SITE_URL}/blog/${post.slug}`;
+  const image = new URL(post.image, SITE_URL).toString();
+
+  return {
+    title: `${post.title} | IdEinstein Blog`,
+    description: post.excerpt,
+    keywords: [...post.tags, post.category, 'IdEinstein', 'engineering'].join(', '),
+    authors: [{ name: post.author }],
+    alternates: {
+      canonical: url,
+      types: blogFeedAlternates(),
+    },
+    openGraph: {
+      title: post.title,
+      description: post.excerpt,
+      type: 'article',
+      url,
+      siteName: 'IdEinstein',
+      publishedTime: new Date(post.date).toISOString(),
+      ...(post.updated && { modifiedTime: new Date(post.updated).toISOString() }),
+      authors: [post.author],
+      section: post.category,
+      tags: post.tags,
+      images: [{ url: image, alt: post.title }],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: post.title,
+      description: post.excerpt,
+      images: [image],
+    },
+  };
+}
+
+// Generate static params for build optimization
+export async function generateStaticParams() {
+  const posts = await getBlogPosts();
+  return posts.map((post) => ({
+    slug: post.slug,
+  }));
+}
+
+// Scheduled posts go live on their date: unknown slugs are rendered on demand and pages refresh hourly
+export const dynamicParams = true;
+export const revalidate = 3600;
+
+export default async function BlogPostPage({ params }: BlogPostPageProps) {
+  const { slug } = await params;
+  const post = await getBlogPost(slug);
+
+  // Return 404 if post not found
+  if (!post) {
+    notFound();
+  }
+
+  // Markdown and embeds are rendered to escaped, tag-limited HTML (see lib/blog/markdown)
+  const { html, headings } = renderMarkdown(post.content, { embeds: BLOG_EMBEDS });
+  const relatedPosts = await getRelatedPosts(post);
+
+  return (
+    <div className="min-h-screen">
+      <StructuredData
+        type="article"
+        data={{
+          title: post.title,
+          description: post.excerpt,
+          image: new URL(post.image, SITE_URL).toString(),
+          author: post.author,
+          section: post.category,
+          keywords: post.tags.join(', '),
+          publishedAt: new Date(post.date).toISOString(),
+          ...(post.updated && { updatedAt: new Date(post.updated).toISOString() }),
+          url: `${SITE_URL}/blog/${post.slug}`,
+        }}
+      />
+
+      {/* Header */}
+      <header className="pt-28 pb-10 sm:pb-12 bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+        <div className="container mx-auto px-4 max-w-4xl">
+          <Link
+            href="/blog"
+            className="inline-flex items-center text-sm font-medium text-blue-600 hover:text-blue-800 transition-colors mb-6"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            All articles
+          </Link>
+          <div className="mb-4">
+            <span className="inline-block bg-gradient-to-r from-blue-500 to-blue-600 text-white text-xs px-3 py-1 rounded-full font-medium">
+              {post.category}
+            </span>
+          </div>
+          <h1 className="text-3xl sm:text-4xl md:text-5xl font-bold text-gray-900 leading-tight mb-4">
+            {post.title}
+          </h1>
+          <p className="text-lg sm:text-xl text-gray-600 leading-relaxed mb-6">{post.excerpt}</p>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500">
+            <span className="flex items-center">
+              <User className="w-4 h-4 mr-1" />
+              {post.author}
+            </span>
+            <time dateTime={post.date} className="flex items-center">
+              <Calendar className="w-4 h-4 mr-1" />
+              {new Date(post.date).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}
+            </time>
+            <span className="flex items-center">
+              <Clock className="w-4 h-4 mr-1" />
+              {post.readTime}
+            </span>
+          </div>
+        </div>
+      </header>
+
+      {/* Article */}
+      <section className="py-10 sm:py-12 bg-white">
+        <div className="container mx-auto px-4 max-w-6xl">
+          <div className="relative h-56 sm:h-72 md:h-96 mb-10 rounded-2xl overflow-hidden bg-gradient-to-br from-blue-50 to-indigo-50 shadow-sm">
+            <Image
+              src={post.image}
+              alt={post.title}
+              fill
+              priority
+              className="object-cover"
+              sizes="(max-width: 1200px) 100vw, 1152px"
+            />
+          </div>
+
+          <div className="lg:grid lg:grid-cols-[minmax(0,1fr)_260px] lg:gap-12">
+            <aside className="mb-8 lg:mb-0 lg:order-2">
+              <div className="lg:sticky lg:top-28">
+                <TableOfContents headings={headings} />
+              </div>
+            </aside>
+
+            <article className="lg:order-1 min-w-0">
+              <div className="blog-content" dangerouslySetInnerHTML={{ __html: html }} />
+
+              <div className="flex flex-wrap gap-2 mt-10 pt-6 border-t border-gray-100">
+                {post.tags.map((tag) => (
+                  <span key={tag} className="text-xs px-2 py-1 bg-gray-100 text-gray-600 rounded-lg">
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            </article>
+          </div>
+        </div>
+      </section>
+
+      <RelatedPosts posts={relatedPosts} />
+      <SimpleBlogCTA />
+    </div>
+  );
+}
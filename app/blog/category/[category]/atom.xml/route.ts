@@ -0,0 +1,19 @@
+import { blogFeedResponse, getFeedCategories } from '@/lib/blog/feed';
+
+interface CategoryFeedContext {
+  params: Promise<{ category: string }>;
+}
+
+// Categories of posts that go live later are rendered on demand
+export const dynamicParams = true;
+export const revalidate = 3600;
+
+export async function generateStaticParams() {
+  const categories = await getFeedCategories();
+  return Array.from(categories.keys()).map(category => ({ category }));
+}
+
+export async function GET(_request: Request, { params }: CategoryFeedContext) {
+  const { category } = await params;
+  return blogFeedResponse('atom', category);
+}
@@ -0,0 +1,8 @@
+import { blogFeedResponse } from '@/lib/blog/feed';
+
+// Picks up scheduled posts once their date has passed
+export const revalidate = 3600;
+
+export async function GET() {
+  return blogFeedResponse('json');
+}
@@ -0,0 +1,13 @@
+import type { Metadata } from 'next';
+import { blogFeedAlternates } from '@/lib/blog/feed';
+
+// RSS, Atom and JSON Feed autodiscovery for every blog page
+export const metadata: Metadata = {
+  alternates: {
+    types: blogFeedAlternates(),
+  },
+};
+
+export default function BlogLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
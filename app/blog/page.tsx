@@ -1,18 +1,25 @@
 import { getBlogPosts, getBlogCategories } from '@/lib/blog-data';
+import { queryBlogPosts } from '@/lib/blog/query';
 import BlogPageClient from '@/components/blog/BlogPageClient';
 import SimpleBlogCTA from '@/components/blog/SimpleBlogCTA';
 import BlogPageWrapper from '@/components/blog/BlogPageWrapper';
 
+const POSTS_PER_PAGE = 6;
+
+// Picks up scheduled posts once their date has passed
+export const revalidate = 3600;
+
 export default async function BlogPage() {
-  const blogPosts = await getBlogPosts();
+  // Only the first page is rendered here; BlogClient fetches the others from /api/blog/posts
+  const firstPage = queryBlogPosts(await getBlogPosts(), { page: 1, limit: POSTS_PER_PAGE });
   const categories = await getBlogCategories();
 
   return (
     <BlogPageWrapper>
       <div className="min-h-screen">
-        <BlogPageClient posts={blogPosts} categories={categories} />
+        <BlogPageClient initialPage={firstPage} categories={categories} />
         <SimpleBlogCTA />
       </div>
     </BlogPageWrapper>
   );
-}
\ No newline at end of file
+}
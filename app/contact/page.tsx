@@ -27,7 +27,10 @@ import { CONTACT_INFO } from '@/lib/constants';
 import UnifiedSection from '@/components/shared/UnifiedSection';
 import UnifiedCard from '@/components/shared/UnifiedCard';
 import { ConsultationForm } from '@/components/shared/ConsultationForm';
-import { getTracking } from '@/lib/tracking';
+import { clearSubmissionId, getTracking } from '@/lib/tracking';
+import { useFormGuard } from '@/hooks/useFormGuard';
+import { signedFetch } from '@/lib/helpers/sign';
+import { NEWSLETTER_CONSENT_TEXT, NEWSLETTER_CONSENT_VERSION } from '@/lib/newsletter/consent';
 // Using existing modal components instead of separate forms
 
 interface FormData {
@@ -54,6 +57,7 @@ const ContactPage = () => {
   const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [showConsultation, setShowConsultation] = useState(false);
   const [showQuotation, setShowQuotation] = useState(false);
+  const { guardFields, honeypotProps, refresh: refreshGuard } = useFormGuard('contact');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -71,20 +75,23 @@ const ContactPage = () => {
       // Get UTM tracking data
       const tracking = getTracking('Contact Form');
 
-      const response = await fetch('/api/contact', {
+      const response = await signedFetch('/api/contact', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           ...formData,
-          ...tracking
+          ...(formData.newsletter_opt_in && { newsletter_consent_version: NEWSLETTER_CONSENT_VERSION }),
+          ...tracking,
+          ...guardFields()
         }),
       });
 
       if (!response.ok) throw new Error('Failed to send message');
 
       setSubmitStatus('success');
+      clearSubmissionId();
       setFormData({
         name: '',
         email: '',
@@ -94,6 +101,7 @@ const ContactPage = () => {
         consent: false,
         newsletter_opt_in: false
       });
+      refreshGuard();
     } catch {
       setSubmitStatus('error');
     } finally {
@@ -497,7 +505,7 @@ const ContactPage = () => {
                       />
                       <div className="flex-1">
                         <label className="text-sm text-gray-800 leading-relaxed cursor-pointer">
-                          <span className="font-medium">Optional:</span> I would like to receive updates about IdEinstein services and industry insights via email.
+                          <span className="font-medium">Optional:</span> {NEWSLETTER_CONSENT_TEXT}
                         </label>
                       </div>
                     </div>
@@ -545,6 +553,7 @@ const ContactPage = () => {
                     {!formData.consent ? 'Please agree to the privacy policy to continue.' : 'Failed to send message. Please try again.'}
                   </motion.div>
                 )}
+                <input {...honeypotProps} />
               </form>
             </div>
           </motion.div>
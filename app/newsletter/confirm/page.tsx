@@ -0,0 +1,93 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+
+export default function ConfirmNewsletter() {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [manageUrl, setManageUrl] = useState('')
+  // From the confirmation email; confirming takes a click so link scanners can't subscribe anyone
+  const token = useSearchParams().get('token')
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/newsletter/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setManageUrl(data.manageUrl)
+      } else {
+        setError(data.error || 'Confirmation failed. Please try again.')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-white flex items-center justify-center py-8 sm:py-12 px-3 sm:px-4 md:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 sm:space-y-8 px-2 sm:px-0">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-center text-blue-600 mb-2">IdEinstein</h1>
+          <h2 className="text-xl sm:text-2xl font-bold text-center text-gray-900">
+            {manageUrl ? 'You are subscribed' : 'Confirm your newsletter subscription'}
+          </h2>
+          <p className="mt-2 text-center text-sm sm:text-sm text-gray-600 px-2 sm:px-0">
+            {manageUrl
+              ? 'Thank you! A welcome email is on its way.'
+              : 'One click and you will receive our engineering insights, case studies and service updates.'}
+          </p>
+        </div>
+
+        <div className="bg-white py-6 sm:py-8 px-4 sm:px-6 shadow-lg rounded-lg">
+          {!token ? (
+            <div className="bg-red-50 border border-red-200 text-red-600 px-3 sm:px-4 py-3 rounded-md text-sm leading-relaxed">
+              This link is incomplete. Please open the link from the confirmation email again.
+            </div>
+          ) : manageUrl ? (
+            <div className="space-y-4 text-sm text-gray-700 text-center">
+              <p>You can choose topics or unsubscribe at any time.</p>
+              <a href={manageUrl} className="font-medium text-blue-600 hover:text-blue-500 transition-colors">
+                Manage your preferences
+              </a>
+            </div>
+          ) : (
+            <form className="space-y-4 sm:space-y-6" onSubmit={handleConfirm}>
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-600 px-3 sm:px-4 py-3 rounded-md text-sm leading-relaxed">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="group relative w-full flex justify-center py-3 sm:py-2 px-4 border border-transparent text-base sm:text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Please wait...' : 'Confirm subscription'}
+              </button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link href="/" className="text-sm font-medium text-blue-600 hover:text-blue-500 transition-colors">
+              Back to the website
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
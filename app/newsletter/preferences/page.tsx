@@ -0,0 +1,173 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { NEWSLETTER_TOPICS } from '@/lib/newsletter/consent'
+
+interface SubscriptionView {
+  email: string
+  status: 'pending' | 'subscribed' | 'unsubscribed'
+  topics: string[]
+}
+
+export default function NewsletterPreferences() {
+  const [subscription, setSubscription] = useState<SubscriptionView | null>(null)
+  const [topics, setTopics] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+  // From the link in every newsletter email
+  const token = useSearchParams().get('token')
+
+  const loadSubscription = useCallback(async () => {
+    if (!token) return
+    try {
+      const response = await fetch(`/api/newsletter/preferences?token=${encodeURIComponent(token)}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setSubscription(data.subscription)
+        setTopics(data.subscription.topics)
+      } else {
+        setError(data.error || 'Could not load your preferences.')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    }
+  }, [token])
+
+  useEffect(() => {
+    loadSubscription()
+  }, [loadSubscription])
+
+  const submit = async (body: Record<string, unknown>, success: string) => {
+    setIsLoading(true)
+    setError('')
+    setNotice('')
+
+    try {
+      const response = await fetch('/api/newsletter/preferences', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, ...body }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setSubscription(data.subscription)
+        setTopics(data.subscription.topics)
+        setNotice(success)
+      } else {
+        setError(data.error || 'Something went wrong. Please try again.')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const toggleTopic = (value: string) => {
+    setTopics(current => current.includes(value) ? current.filter(topic => topic !== value) : [...current, value])
+  }
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    submit({ action: 'update', topics }, 'Your preferences have been saved.')
+  }
+
+  const handleUnsubscribe = () => {
+    submit({ action: 'unsubscribe' }, 'You have been unsubscribed and will not receive further newsletters.')
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-white flex items-center justify-center py-8 sm:py-12 px-3 sm:px-4 md:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 sm:space-y-8 px-2 sm:px-0">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-center text-blue-600 mb-2">IdEinstein</h1>
+          <h2 className="text-xl sm:text-2xl font-bold text-center text-gray-900">Newsletter preferences</h2>
+          {subscription && (
+            <p className="mt-2 text-center text-sm sm:text-sm text-gray-600 px-2 sm:px-0">{subscription.email}</p>
+          )}
+        </div>
+
+        <div className="bg-white py-6 sm:py-8 px-4 sm:px-6 shadow-lg rounded-lg space-y-4 sm:space-y-6">
+          {!token && (
+            <div className="bg-red-50 border border-red-200 text-red-600 px-3 sm:px-4 py-3 rounded-md text-sm leading-relaxed">
+              This link is incomplete. Please use the link from one of our newsletter emails.
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-600 px-3 sm:px-4 py-3 rounded-md text-sm leading-relaxed">
+              {error}
+            </div>
+          )}
+
+          {notice && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-3 sm:px-4 py-3 rounded-md text-sm leading-relaxed">
+              {notice}
+            </div>
+          )}
+
+          {subscription?.status === 'subscribed' && (
+            <form className="space-y-4 sm:space-y-6" onSubmit={handleSave}>
+              <fieldset className="space-y-3">
+                <legend className="text-sm font-medium text-gray-700 mb-2">Send me</legend>
+                {NEWSLETTER_TOPICS.map(topic => (
+                  <label key={topic.value} className="flex items-center gap-3 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={topics.includes(topic.value)}
+                      onChange={() => toggleTopic(topic.value)}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {topic.label}
+                  </label>
+                ))}
+              </fieldset>
+
+              <button
+                type="submit"
+                disabled={isLoading || topics.length === 0}
+                className="group relative w-full flex justify-center py-3 sm:py-2 px-4 border border-transparent text-base sm:text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Please wait...' : 'Save preferences'}
+              </button>
+            </form>
+          )}
+
+          {subscription?.status === 'pending' && (
+            <p className="text-sm text-gray-700">
+              Your subscription is not confirmed yet. Please use the link in the confirmation email.
+            </p>
+          )}
+
+          {subscription?.status === 'unsubscribed' && !notice && (
+            <p className="text-sm text-gray-700">
+              This address is unsubscribed. You can subscribe again at the bottom of any page.
+            </p>
+          )}
+
+          {subscription && subscription.status !== 'unsubscribed' && (
+            <button
+              type="button"
+              onClick={handleUnsubscribe}
+              disabled={isLoading}
+              className="w-full py-3 sm:py-2 px-4 border border-gray-300 text-base sm:text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Unsubscribe from all newsletters
+            </button>
+          )}
+
+          <div className="text-center">
+            <Link href="/" className="text-sm font-medium text-blue-600 hover:text-blue-500 transition-colors">
+              Back to the website
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
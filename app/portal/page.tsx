@@ -13,8 +13,10 @@ import {
   Download,
   LogOut,
   Plus,
+  Trash2,
 } from "lucide-react";
 import { UnifiedConsultationCard } from "@/components/shared/UnifiedConsultationCard";
+import { signedFetch } from "@/lib/helpers/sign";
 import {
   Dialog,
   DialogContent,
@@ -26,6 +28,15 @@ interface Project {
   description: string;
   status: string;
   created_date: string;
+  start_date?: string;
+  end_date?: string;
+  progress?: number;
+  nextMilestone?: {
+    id: string;
+    name: string;
+    end_date?: string;
+    overdue: boolean;
+  };
 }
 
 interface FileItem {
@@ -33,6 +44,8 @@ interface FileItem {
   name: string;
   size?: number;
   created_time?: string;
+  projectId?: string;
+  projectName?: string;
 }
 
 interface Invoice {
@@ -272,11 +285,69 @@ export default function CustomerPortal() {
     setShowQuoteModal(true);
   };
 
+  const handleUploadFiles = (projectId?: string) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.multiple = true;
+    input.onchange = async (e) => {
+      const selected = (e.target as HTMLInputElement).files;
+      if (!selected) return;
+
+      for (const file of Array.from(selected)) {
+        const formData = new FormData();
+        formData.append('file', file);
+        if (projectId) formData.append('projectId', projectId);
+
+        try {
+          const response = await fetch('/api/files', {
+            method: 'POST',
+            body: formData,
+          });
+
+          if (response.ok) {
+            console.log('File uploaded successfully');
+          } else {
+            const result = await response.json().catch(() => ({}));
+            alert(`Upload failed: ${result.error || response.status}`);
+          }
+        } catch (error) {
+          console.error('File upload failed:', error);
+        }
+      }
+      fetchDashboardData(); // Refresh data
+    };
+    input.click();
+  };
+
+  const handleDownloadFile = (file: FileItem) => {
+    if (!file.id || !file.projectId) return;
+    window.location.href = `/api/files/${encodeURIComponent(file.id)}?projectId=${encodeURIComponent(file.projectId)}`;
+  };
+
+  const handleDeleteFile = async (file: FileItem) => {
+    if (!file.id || !file.projectId) return;
+    if (!confirm(`Delete ${file.name}?`)) return;
+
+    try {
+      const response = await fetch(
+        `/api/files/${encodeURIComponent(file.id)}?projectId=${encodeURIComponent(file.projectId)}`,
+        { method: 'DELETE' }
+      );
+      if (response.ok) {
+        setFiles(prev => prev.filter(item => item.id !== file.id));
+      } else {
+        alert('Could not delete the file. Please try again.');
+      }
+    } catch (error) {
+      console.error('File delete failed:', error);
+    }
+  };
+
   const handleQuoteSubmit = async (quoteData: unknown) => {
     try {
       console.log('📝 Submitting quote request:', quoteData);
       
-      const response = await fetch('/api/quotes', {
+      const response = await signedFetch('/api/quotes', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -584,7 +655,35 @@ export default function CustomerPortal() {
                             >
                               {project.status}
                             </span>
+                            {project.end_date && (
+                              <span className="text-gray-500 text-xs">
+                                Due: {project.end_date}
+                              </span>
+                            )}
                           </div>
+                          {typeof project.progress === "number" && (
+                            <div className="mt-3 w-full sm:w-64">
+                              <div className="flex justify-between text-xs text-gray-500 mb-1">
+                                <span>Progress</span>
+                                <span>{project.progress}%</span>
+                              </div>
+                              <div className="h-2 bg-gray-200 rounded-full">
+                                <div
+                                  className="h-2 bg-blue-600 rounded-full"
+                                  style={{ width: `${project.progress}%` }}
+                                />
+                              </div>
+                            </div>
+                          )}
+                          {project.nextMilestone && (
+                            <p
+                              className={`text-xs mt-2 ${project.nextMilestone.overdue ? "text-red-600" : "text-gray-500"}`}
+                            >
+                              Next milestone: {project.nextMilestone.name}
+                              {project.nextMilestone.end_date &&
+                                ` (${project.nextMilestone.end_date})`}
+                            </p>
+                          )}
                         </div>
                         <div className="flex space-x-2">
                           <button
@@ -596,12 +695,14 @@ export default function CustomerPortal() {
                           <button
                             className="p-3 sm:p-2 text-gray-400 hover:text-gray-600 touch-manipulation"
                             title="Upload Files"
+                            onClick={() => handleUploadFiles(project.id)}
                           >
                             <Upload className="w-4 h-4" />
                           </button>
                           <button
                             className="p-3 sm:p-2 text-gray-400 hover:text-gray-600 touch-manipulation"
                             title="Download Files"
+                            onClick={() => setActiveTab("files")}
                           >
                             <Download className="w-4 h-4" />
                           </button>
@@ -716,35 +817,7 @@ export default function CustomerPortal() {
               <button
                 type="button"
                 className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-                onClick={() => {
-                  const input = document.createElement('input');
-                  input.type = 'file';
-                  input.multiple = true;
-                  input.onchange = async (e) => {
-                    const files = (e.target as HTMLInputElement).files;
-                    if (files) {
-                      for (const file of Array.from(files)) {
-                        const formData = new FormData();
-                        formData.append('file', file);
-                        
-                        try {
-                          const response = await fetch('/api/files', {
-                            method: 'POST',
-                            body: formData,
-                          });
-                          
-                          if (response.ok) {
-                            console.log('File uploaded successfully');
-                            fetchDashboardData(); // Refresh data
-                          }
-                        } catch (error) {
-                          console.error('File upload failed:', error);
-                        }
-                      }
-                    }
-                  };
-                  input.click();
-                }}
+                onClick={() => handleUploadFiles(projects.length === 1 ? projects[0].id : undefined)}
               >
                 Upload Files
               </button>
@@ -792,35 +865,7 @@ export default function CustomerPortal() {
                     <button
                       type="button"
                       className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-                      onClick={() => {
-                        const input = document.createElement('input');
-                        input.type = 'file';
-                        input.multiple = true;
-                        input.onchange = async (e) => {
-                          const files = (e.target as HTMLInputElement).files;
-                          if (files) {
-                            for (const file of Array.from(files)) {
-                              const formData = new FormData();
-                              formData.append('file', file);
-                              
-                              try {
-                                const response = await fetch('/api/files', {
-                                  method: 'POST',
-                                  body: formData,
-                                });
-                                
-                                if (response.ok) {
-                                  console.log('File uploaded successfully');
-                                  fetchDashboardData(); // Refresh data
-                                }
-                              } catch (error) {
-                                console.error('File upload failed:', error);
-                              }
-                            }
-                          }
-                        };
-                        input.click();
-                      }}
+                      onClick={() => handleUploadFiles(projects.length === 1 ? projects[0].id : undefined)}
                     >
                       Upload Files
                     </button>
@@ -841,6 +886,7 @@ export default function CustomerPortal() {
                             <p className="text-gray-500 text-sm">
                               {file.size ? `${(file.size / 1024).toFixed(1)} KB` : 'Unknown size'} • 
                               {file.created_time ? new Date(file.created_time).toLocaleDateString() : 'Unknown date'}
+                              {file.projectName && ` • ${file.projectName}`}
                             </p>
                           </div>
                         </div>
@@ -848,9 +894,17 @@ export default function CustomerPortal() {
                           <button
                             className="p-3 sm:p-2 text-gray-400 hover:text-gray-600 touch-manipulation"
                             title="Download File"
+                            onClick={() => handleDownloadFile(file)}
                           >
                             <Download className="w-4 h-4" />
                           </button>
+                          <button
+                            className="p-3 sm:p-2 text-gray-400 hover:text-red-600 touch-manipulation"
+                            title="Delete File"
+                            onClick={() => handleDeleteFile(file)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
                         </div>
                       </div>
                     ))}
@@ -7,10 +7,7 @@ import {
   Clock, 
   DollarSign, 
   Shield, 
-  Users, 
-  TrendingUp,
   ArrowRight,
-  Target,
   Zap,
   Globe
 } from 'lucide-react'
@@ -22,14 +19,38 @@ import { provenCardPadding, provenButtonWidth, provenTouchFeedback } from '@/lib
 import { useState } from 'react'
 import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog'
 import { UnifiedConsultationCard } from '@/components/shared/UnifiedConsultationCard'
+import { signedFetch } from '@/lib/helpers/sign'
+import { acceleratorProgram } from '@/lib/data/solutions'
+
+const CHALLENGE_COLORS = [
+  'from-red-500 to-red-600',
+  'from-orange-500 to-orange-600',
+  'from-purple-500 to-purple-600',
+  'from-blue-500 to-blue-600',
+]
+const PHASE_COLORS = [
+  'from-blue-500 to-blue-600',
+  'from-green-500 to-green-600',
+  'from-purple-500 to-purple-600',
+  'from-yellow-500 to-yellow-600',
+]
+const BENEFIT_COLORS = [
+  'from-blue-500 to-blue-600',
+  'from-green-500 to-green-600',
+  'from-purple-500 to-purple-600',
+  'from-orange-500 to-orange-600',
+  'from-indigo-500 to-indigo-600',
+  'from-yellow-500 to-yellow-600',
+]
 
 const ProductDevelopmentAcceleratorPage = () => {
+  const { challenges, phases, benefits, approach } = acceleratorProgram.sections
   const [showQuotation, setShowQuotation] = useState(false)
   const [showConsultation, setShowConsultation] = useState(false)
 
   const handleQuotationSubmit = async (data: any) => {
   try {
-  const response = await fetch('/api/quotes', {
+  const response = await signedFetch('/api/quotes', {
   method: 'POST',
   headers: { 'Content-Type': 'application/json' },
   body: JSON.stringify(data)
@@ -61,10 +82,10 @@ const ProductDevelopmentAcceleratorPage = () => {
   icon: Rocket,
   text: "Featured Startup Solution"
   }}
-  title="Product Development"
-  highlight="Accelerator"
-  subtitle="From Idea to Manufacturing Readiness"
-  description="I guide startups from first idea through manufacturing readiness, with you at every stage. A comprehensive engineering program combining 26+ years of mechanical engineering expertise with cost-effective global partnerships."
+  title={acceleratorProgram.title}
+  highlight={acceleratorProgram.highlight}
+  subtitle={acceleratorProgram.tagline}
+  description={acceleratorProgram.description}
   primaryCTA={{
   text: "Get Your Project Quote",
   onClick: () => setShowQuotation(true),
@@ -83,41 +104,16 @@ const ProductDevelopmentAcceleratorPage = () => {
 
   {/* The Challenge Section */}
       <UnifiedSection
-  title="Common Product Development Challenges"
-  description="From my experience working with startups, these are the most frequent obstacles that slow down product development and increase costs"
+  title={challenges.heading}
+  description={challenges.intro}
   background="white"
   >
   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6 lg:gap-8 max-w-6xl mx-auto px-4">
-  {[
-  {
-  icon: DollarSign,
-  title: 'High Development Costs',
-  description: 'Traditional engineering services are expensive and designed for large enterprises',
-  iconColor: 'from-red-500 to-red-600'
-  },
-  {
-  icon: Clock,
-  title: 'Long Time-to-Market',
-  description: 'Complex processes and multiple vendors slow down product development',
-  iconColor: 'from-orange-500 to-orange-600'
-  },
-  {
-  icon: Users,
-  title: 'Expertise Gaps',
-  description: 'Startups lack in-house engineering expertise for complex product development',
-  iconColor: 'from-purple-500 to-purple-600'
-  },
-  {
-  icon: Target,
-  title: 'Manufacturing Complexity',
-  description: 'Finding reliable, cost-effective manufacturing partners is challenging',
-  iconColor: 'from-blue-500 to-blue-600'
-  }
-  ].map((challenge, index) => (
+  {challenges.items.map((challenge, index) => (
   <UnifiedCard
   key={challenge.title}
   icon={challenge.icon}
-  iconColor={challenge.iconColor}
+  iconColor={CHALLENGE_COLORS[index % CHALLENGE_COLORS.length]}
   title={challenge.title}
   description={challenge.description}
   delay={index * 0.1}
@@ -129,68 +125,15 @@ const ProductDevelopmentAcceleratorPage = () => {
   {/* Our Solution Section */}
       <UnifiedSection
         className="-mt-4 sm:-mt-6 lg:-mt-8"
-        title="The 4-Phase IdEinstein Path"
-        subtitle="For Startups"
-        description="I guide startups from first idea through manufacturing readiness, with you at every stage. Here's exactly what you get in each phase:"
+        title={phases.heading}
+        subtitle={phases.subtitle}
+        description={phases.intro}
         background="gray"
       >
         <div className={`grid grid-cols-1 md:grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6 lg:gap-8 max-w-6xl mx-auto ${provenCardPadding()}`}>
-  {[
-  {
-  phase: "01",
-  title: "Concept & Feasibility",
-  duration: "1-2 months",
-  description: "Personal consultation to clarify your idea's technical/commercial viability",
-  deliverables: [
-  "Personal consultation to clarify your idea's technical/commercial viability",
-  "Market/regulatory review to assess practical fit for EU/India",
-  "Preliminary design sketches or flow diagrams",
-  "Feasibility report: risks, recommendations, go/no-go factors"
-  ],
-  iconColor: "from-blue-500 to-blue-600"
-  },
-  {
-  phase: "02", 
-  title: "Design & Prototyping",
-  duration: "2-4 months",
-  description: "Coordination of CAD modeling and detailed drawings with prototype development",
-  deliverables: [
-  "Coordination of CAD modeling and detailed drawings",
-  "Sourcing of one or more prototype partners (manual or 3D printed, as fits your budget/stage)",
-  "Founder's review of prototype and test feedback",
-  "Step-by-step management of design iterations"
-  ],
-  iconColor: "from-green-500 to-green-600"
-  },
-  {
-  phase: "03",
-  title: "Validation & Manufacturing Setup", 
-  duration: "3-6 months",
-  description: "GD&T/tolerance review for production readiness with supplier identification",
-  deliverables: [
-  "GD&T/tolerance review for production readiness",
-  "Identification/search for potential Indian manufacturing partners",
-  "Introductions and cultural navigation for supplier discussions",
-  "Documentation and SOPs prepared for transfer to manufacturing"
-  ],
-  iconColor: "from-purple-500 to-purple-600"
-  },
-  {
-  phase: "04",
-  title: "Production & Ongoing Support",
-  duration: "Ongoing", 
-  description: "Ongoing founder-led communication and troubleshooting with suppliers",
-  deliverables: [
-  "Ongoing founder-led communication and troubleshooting with suppliers",
-  "Coordination/review of first articles or pilot runs",
-  "Coaching/guidance on quality processes and scaling",
-  "Access to \"phone-a-friend\" support as needed as you grow"
-  ],
-  iconColor: "from-yellow-500 to-yellow-600"
-  }
-  ].map((step, index) => (
+  {phases.items.map((step, index) => (
   <motion.div
-  key={step.phase}
+  key={step.title}
   initial={{ opacity: 0, y: 30 }}
   whileInView={{ opacity: 1, y: 0 }}
   transition={{ duration: 0.6, delay: index * 0.1 }}
@@ -198,15 +141,15 @@ const ProductDevelopmentAcceleratorPage = () => {
   >
   <div className={`bg-white rounded-2xl  shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-105 h-full flex flex-col ${provenCardPadding()}`}>
   <div className="flex items-start mb-4 sm:mb-6">
-  <div className={`w-16 h-16 rounded-2xl bg-gradient-to-r ${step.iconColor} flex items-center justify-center mr-6 group-hover:scale-110 transition-transform duration-300 flex-shrink-0`}>
-  <div className="text-xl sm:text-2xl font-bold text-white">{step.phase}</div>
+  <div className={`w-16 h-16 rounded-2xl bg-gradient-to-r ${PHASE_COLORS[index % PHASE_COLORS.length]} flex items-center justify-center mr-6 group-hover:scale-110 transition-transform duration-300 flex-shrink-0`}>
+  <div className="text-xl sm:text-2xl font-bold text-white">{String(index + 1).padStart(2, '0')}</div>
   </div>
   <div className="flex-1">
   <h3 className="text-lg sm:text-xl font-bold text-gray-900 mb-2">
-  Phase {step.phase}: {step.title}
+  Phase {String(index + 1).padStart(2, '0')}: {step.title}
   </h3>
   <div className="text-sm text-blue-600 font-medium bg-blue-100 px-3 py-1 inline-block rounded-lg mb-3 sm:mb-4">
-  {step.duration}
+  {step.highlight}
   </div>
   </div>
   </div>
@@ -214,7 +157,7 @@ const ProductDevelopmentAcceleratorPage = () => {
   <div className="mb-4 sm:mb-6">
   <h4 className="font-semibold text-gray-900 mb-3">What you get:</h4>
   <ul className="space-y-1 sm:space-y-2">
-  {step.deliverables.map((deliverable, idx) => (
+  {step.points.map((deliverable, idx) => (
   <li key={idx} className="flex items-start text-sm text-gray-600">
   <span className="text-green-500 mr-2 mt-1 flex-shrink-0">✓</span>
   <span>{deliverable}</span>
@@ -231,50 +174,13 @@ const ProductDevelopmentAcceleratorPage = () => {
   {/* Business Impact Section */}
       <UnifiedSection
         className="-mt-4 sm:-mt-6 lg:-mt-8"
-        title="Why Startups Choose My Approach"
-  subtitle="Personal Partnership Model"
-  description="Unlike large consultancies, I understand startup constraints and work within your budget and timeline with personal attention"
+        title={benefits.heading}
+  subtitle={benefits.subtitle}
+  description={benefits.intro}
   background="white"
   >
   <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6 lg:gap-8 max-w-7xl mx-auto ${provenCardPadding()}`}>
-  {[
-  {
-  icon: Users,
-  title: 'Direct Founder Access',
-  description: 'Work directly with me - no account managers or middlemen. Get technical decisions made quickly with personal attention.',
-  iconColor: 'from-blue-500 to-blue-600'
-  },
-  {
-  icon: DollarSign,
-  title: 'Budget-Conscious Solutions',
-  description: 'Flexible approach that fits your funding stage. Cost-efficient global partnerships without compromising quality.',
-  iconColor: 'from-green-500 to-green-600'
-  },
-  {
-  icon: Shield,
-  title: 'Cultural Bridge Advantage',
-  description: 'Navigate supplier discussions with cultural understanding. I handle introductions and communication barriers.',
-  iconColor: 'from-purple-500 to-purple-600'
-  },
-  {
-  icon: Target,
-  title: 'Realistic Timeline Planning',
-  description: 'Honest timelines based on 26+ years experience. No overpromising - just realistic expectations and delivery.',
-  iconColor: 'from-orange-500 to-orange-600'
-  },
-  {
-  icon: TrendingUp,
-  title: 'Long-term Partnership',
-  description: 'Phone-a-friend support as you grow. I stay with your project beyond initial development phases.',
-  iconColor: 'from-indigo-500 to-indigo-600'
-  },
-  {
-  icon: Globe,
-  title: 'EU-India Manufacturing Bridge',
-  description: 'Leverage my network spanning German precision and Indian cost-efficiency for optimal manufacturing solutions.',
-  iconColor: 'from-yellow-500 to-yellow-600'
-  }
-  ].map((impact, index) => (
+  {benefits.items.map((impact, index) => (
   <motion.div
   key={impact.title}
   initial={{ opacity: 0, y: 30 }}
@@ -284,7 +190,7 @@ const ProductDevelopmentAcceleratorPage = () => {
   >
   <div className={`bg-white rounded-2xl  shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-105 h-full flex flex-col ${provenCardPadding()}`}>
   <div className="text-center mb-4 sm:mb-6">
-  <div className={`w-16 h-16 rounded-2xl bg-gradient-to-r ${impact.iconColor} flex items-center justify-center mx-auto group-hover:scale-110 transition-transform duration-300`}>
+  <div className={`w-16 h-16 rounded-2xl bg-gradient-to-r ${BENEFIT_COLORS[index % BENEFIT_COLORS.length]} flex items-center justify-center mx-auto group-hover:scale-110 transition-transform duration-300`}>
   <impact.icon className="w-8 h-8 text-white" />
   </div>
   </div>
@@ -306,54 +212,17 @@ const ProductDevelopmentAcceleratorPage = () => {
   {/* How I Work Differently Section */}
       <UnifiedSection
         className="-mt-4 sm:-mt-6 lg:-mt-8"
-        title="My Founder-Focused Approach"
-  subtitle="Personal Engineering Partnership"
-  description="What sets my methodology apart: combining deep technical expertise with the personal attention and cultural navigation startups need"
+        title={approach.heading}
+  subtitle={approach.subtitle}
+  description={approach.intro}
   background="gradient"
   >
   <div className="max-w-6xl mx-auto">
   {/* Main Working Style Grid */}
   <div className={`grid md:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6 lg:gap-8 mb-8 sm:mb-12 lg:mb-16 ${provenCardPadding()}`}>
-  {[
-  {
-  icon: '👨‍💼',
-  title: 'Founder-to-Founder Communication',
-  description: 'Direct access to me as the founder - understand your challenges because I\'ve been there',
-  highlight: 'Entrepreneurial empathy'
-  },
-  {
-  icon: '🌏',
-  title: 'Cultural Navigation Support',
-  description: 'Bridge communication gaps with suppliers - I handle cultural nuances and introductions',
-  highlight: 'Cross-cultural expertise'
-  },
-  {
-  icon: '📞',
-  title: 'Phone-a-Friend Support',
-  description: 'Ongoing access even after project completion - I\'m here as you scale and grow',
-  highlight: 'Long-term partnership'
-  },
-  {
-  icon: '💰',
-  title: 'Budget-Stage Flexibility',
-  description: 'Solutions that fit your funding stage - from bootstrap to Series A approaches',
-  highlight: 'Startup-conscious pricing'
-  },
-  {
-  icon: '🔍',
-  title: 'Honest Feasibility Assessment',
-  description: 'Realistic go/no-go recommendations based on market and technical realities',
-  highlight: 'Transparent evaluation'
-  },
-  {
-  icon: '🤝',
-  title: 'Supplier Relationship Management',
-  description: 'Personal coordination with manufacturing partners - I stay involved in supplier communications',
-  highlight: 'Ongoing supplier support'
-  }
-  ].map((approach, index) => (
+  {approach.items.map((card, index) => (
   <motion.div
-  key={approach.title}
+  key={card.title}
   initial={{ opacity: 0, y: 30 }}
   whileInView={{ opacity: 1, y: 0 }}
   transition={{ duration: 0.6, delay: index * 0.1 }}
@@ -361,20 +230,20 @@ const ProductDevelopmentAcceleratorPage = () => {
   >
   <div className={`bg-white/10 backdrop-blur-sm rounded-2xl  border border-white/20 hover:bg-white/15 transition-all duration-300 hover:scale-105 h-full flex flex-col ${provenCardPadding()}`}>
   <div className="text-center mb-3 sm:mb-4">
-  <div className="text-4xl">{approach.icon}</div>
+  <div className="text-4xl">{card.icon}</div>
   </div>
   
   <h3 className="text-lg sm:text-xl font-bold text-white mb-3 text-center">
-  {approach.title}
+  {card.title}
   </h3>
   
   <p className="text-blue-200 leading-relaxed mb-3 sm:mb-4 text-center flex-grow">
-  {approach.description}
+  {card.description}
   </p>
   
   <div className="mt-auto text-center">
   <div className="inline-flex items-center bg-yellow-400/20 text-yellow-300 px-3 py-1 text-sm font-medium rounded-lg">
-  {approach.highlight}
+  {card.highlight}
   </div>
   </div>
   </div>
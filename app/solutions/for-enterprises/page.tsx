@@ -7,10 +7,8 @@ import {
   Building2, 
   Shield, 
   Users, 
-  TrendingUp,
   ArrowRight,
   CheckCircle,
-  Cog,
   FileText,
   Globe,
   Clock,
@@ -28,13 +26,23 @@ import { useState } from 'react'
 import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog'
 import { UnifiedConsultationCard } from '@/components/shared/UnifiedConsultationCard'
 import Link from 'next/link'
+import { signedFetch } from '@/lib/helpers/sign'
 import { 
   provenCardPadding, 
   provenTouchFeedback, 
   provenButtonWidth 
 } from '@/lib/utils/responsive-utilities'
+import { enterpriseSolutions } from '@/lib/data/solutions'
+
+const CHALLENGE_COLORS = [
+  'from-red-500 to-red-600',
+  'from-orange-500 to-yellow-500',
+  'from-green-500 to-emerald-600',
+  'from-blue-500 to-purple-600',
+]
 
 const ForEnterprisesPage = () => {
+  const { services, challenges, hubSpoke, partnership } = enterpriseSolutions.sections
   const [showConsultation, setShowConsultation] = useState(false)
   const [showQuotation, setShowQuotation] = useState(false)
 
@@ -44,7 +52,7 @@ const ForEnterprisesPage = () => {
 
   const handleQuotationSubmit = async (data: any) => {
     try {
-      const response = await fetch('/api/quotes', {
+      const response = await signedFetch('/api/quotes', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data)
@@ -64,58 +72,6 @@ const ForEnterprisesPage = () => {
     }
   }
 
-  const enterpriseNeeds = [
-    {
-      icon: Cog,
-      title: 'Complex Engineering Projects',
-      description: 'Multi-disciplinary projects requiring advanced technical expertise and specialized domain knowledge',
-      iconColor: 'from-blue-500 to-blue-600'
-    },
-    {
-      icon: Shield,
-      title: 'Compliance & Standards',
-      description: 'Strict regulatory requirements and industry standards with comprehensive compliance management',
-      iconColor: 'from-green-500 to-green-600'
-    },
-    {
-      icon: Users,
-      title: 'Scale & Capacity',
-      description: 'Large-scale projects requiring significant resources and scalable team allocation',
-      iconColor: 'from-purple-500 to-purple-600'
-    },
-    {
-      icon: Globe,
-      title: 'Global Manufacturing',
-      description: 'International supply chain coordination with cross-cultural expertise and global partner network',
-      iconColor: 'from-orange-500 to-orange-600'
-    }
-  ]
-
-  const enterpriseServices = [
-    {
-      title: 'Advanced R&D Projects',
-      description: 'Complex research and development initiatives with multiple stakeholders',
-      features: ['Multi-year project planning', 'Cross-functional team coordination', 'IP management', 'Regulatory pathway planning']
-    },
-    {
-      title: 'Large-Scale Manufacturing',
-      description: 'High-volume production planning and supply chain optimization',
-      features: ['Production scaling strategies', 'Supply chain optimization', 'Quality system implementation', 'Cost reduction initiatives']
-    },
-    {
-      title: 'Compliance & Documentation',
-      description: 'Comprehensive regulatory compliance and technical documentation',
-      features: ['Regulatory strategy development', 'Standards compliance', 'Technical documentation', 'Audit preparation']
-    },
-    {
-      title: 'Strategic Partnerships',
-      description: 'Long-term engineering partnerships and capability development',
-      features: ['Dedicated project teams', 'Knowledge transfer programs', 'Capability development', 'Strategic consulting']
-    }
-  ]
-
-  // Removed fake metrics - keeping only real experience data
-
   return (
     <div className="min-h-screen">
       {/* Unified Hero Section */}
@@ -124,10 +80,10 @@ const ForEnterprisesPage = () => {
           icon: Building2,
           text: "Enterprise Engineering Solutions"
         }}
-        title="Enterprise"
-        highlight="Solutions"
-        subtitle="German Quality, Global Efficiency"
-        description="26+ years of engineering excellence delivering enterprise-grade solutions. My Hub & Spoke model combines German quality standards with global cost efficiency for your most critical projects."
+        title={enterpriseSolutions.title}
+        highlight={enterpriseSolutions.highlight}
+        subtitle={enterpriseSolutions.tagline}
+        description={enterpriseSolutions.description}
         primaryCTA={{
           text: "Schedule Enterprise Consultation",
           onClick: () => setShowConsultation(true),
@@ -147,9 +103,9 @@ const ForEnterprisesPage = () => {
       {/* MOVED UP: Services Overview - Quick Access */}
       <UnifiedSection
         id="services"
-        title="Complete Engineering Services Portfolio"
-        subtitle="What We Deliver"
-        description="Access our complete range of engineering services, scaled and customized for enterprise requirements. Each service backed by 26+ years of experience."
+        title={services.heading}
+        subtitle={services.subtitle}
+        description={services.intro}
         background="white"
       >
         <EnterpriseServiceGrid onQuoteClick={() => setShowQuotation(true)} />
@@ -169,49 +125,19 @@ const ForEnterprisesPage = () => {
               Enterprise Engineering Challenges
             </div>
             <h2 className="text-4xl md:text-5xl font-bold text-gray-900 mb-6 leading-tight">
-              Complex Problems, Proven Solutions
+              {challenges.heading}
             </h2>
             <p className="text-xl text-gray-600 max-w-3xl mx-auto leading-relaxed">
-              After 26+ years working with enterprises, I understand your unique challenges. 
-              Here's how my experience and Hub & Spoke model addresses the most common obstacles.
+              {challenges.intro}
             </p>
           </motion.div>
 
           <div className={`grid md:grid-cols-2 gap-8 mb-16 ${provenCardPadding()}`}>
-            {[
-              {
-                icon: Shield,
-                title: 'Regulatory Compliance Complexity',
-                description: 'Multiple regulatory requirements across different regions and industries create compliance nightmares',
-                solution: 'My 26+ years of experience includes deep regulatory knowledge and established compliance processes',
-                iconColor: 'from-red-500 to-red-600'
-              },
-              {
-                icon: Users,
-                title: 'Multi-Stakeholder Coordination',
-                description: 'Large projects involve multiple departments, vendors, and decision-makers causing delays and miscommunication',
-                solution: 'My Hub & Spoke model provides single-point coordination while leveraging specialized expertise',
-                iconColor: 'from-orange-500 to-yellow-500'
-              },
-              {
-                icon: TrendingUp,
-                title: 'Cost vs. Quality Balance',
-                description: 'Pressure to reduce costs while maintaining quality standards and meeting tight deadlines',
-                solution: 'German quality standards with carefully selected global partners deliver 30-50% cost savings',
-                iconColor: 'from-green-500 to-emerald-600'
-              },
-              {
-                icon: Globe,
-                title: 'Global Supply Chain Complexity',
-                description: 'Managing international suppliers, quality standards, and cultural differences across multiple regions',
-                solution: 'My global network of pre-qualified partners with personal relationship management and quality oversight',
-                iconColor: 'from-blue-500 to-purple-600'
-              }
-            ].map((challenge, index) => (
+            {challenges.items.map((challenge, index) => (
               <UnifiedCard
                 key={challenge.title}
                 icon={challenge.icon}
-                iconColor={challenge.iconColor}
+                iconColor={CHALLENGE_COLORS[index % CHALLENGE_COLORS.length]}
                 title={challenge.title}
                 description={challenge.description}
                 delay={index * 0.1}
@@ -244,10 +170,10 @@ const ForEnterprisesPage = () => {
             className="text-center mb-16"
           >
             <h2 className="text-4xl md:text-5xl font-bold text-white mb-6">
-              My Hub & Spoke Model for Enterprises
+              {hubSpoke.heading}
             </h2>
             <p className="text-xl text-blue-200 max-w-3xl mx-auto">
-              How I deliver engineering standards with global efficiency for your complex enterprise projects.
+              {hubSpoke.intro}
             </p>
           </motion.div>
 
@@ -349,26 +275,7 @@ const ForEnterprisesPage = () => {
             transition={{ duration: 0.8, delay: 0.8 }}
             className={`grid grid-cols-1 md:grid-cols-3 gap-8 mb-16 max-w-6xl mx-auto ${provenCardPadding()}`}
           >
-            {[
-              {
-                icon: '🏆',
-                title: 'Enterprise-Grade Quality',
-                description: 'Engineering standards applied to every aspect of your project, from planning to delivery.',
-                highlight: 'ISO 9001 Compliant'
-              },
-              {
-                icon: '💰',
-                title: 'Cost Optimization',
-                description: 'Strategic use of global resources while maintaining quality delivers significant cost savings.',
-                highlight: '30-50% Cost Reduction'
-              },
-              {
-                icon: '🤝',
-                title: 'Single Point of Contact',
-                description: 'Direct access to an experienced engineer who understands enterprise requirements and constraints.',
-                highlight: 'Executive-Level Access'
-              }
-            ].map((benefit, index) => (
+            {hubSpoke.items.map((benefit, index) => (
               <motion.div
                 key={benefit.title}
                 initial={{ opacity: 0, y: 20 }}
@@ -412,10 +319,10 @@ const ForEnterprisesPage = () => {
             className="text-center mb-16"
           >
             <h2 className="text-4xl font-bold mb-6 text-slate-800">
-              Featured: Enterprise Partnership Program
+              {partnership.heading}
             </h2>
             <p className="text-xl text-slate-600 max-w-3xl mx-auto">
-              My comprehensive solution for complex enterprise projects - dedicated engineering partnership with German quality standards and global efficiency.
+              {partnership.intro}
             </p>
           </motion.div>
 
@@ -429,13 +336,8 @@ const ForEnterprisesPage = () => {
                 <div className={`bg-gradient-to-br from-blue-600 to-blue-700 text-white rounded-2xl  flex flex-col w-full ${provenCardPadding()}`}>
                   <h3 className="text-2xl font-bold mb-6">Enterprise Partnership Framework</h3>
                   <div className="space-y-4 flex-grow">
-                    {[
-                      { phase: 'Phase 1', title: 'Strategic Assessment', duration: '3-4 weeks', description: 'Comprehensive project analysis, stakeholder alignment, and strategic planning' },
-                      { phase: 'Phase 2', title: 'Solution Architecture', duration: '3-5 months', description: 'Detailed engineering design, validation, regulatory compliance review, and prototyping' },
-                      { phase: 'Phase 3', title: 'Implementation', duration: '4-8 months', description: 'Coordinated execution, manufacturing, testing, and quality oversight' },
-                      { phase: 'Phase 4', title: 'Optimization & Maintenance', duration: 'Ongoing', description: 'Continuous improvement, maintenance, and performance optimization' }
-                    ].map((phase, index) => (
-                      <div key={phase.phase} className="bg-white/10 rounded-lg p-4">
+                    {partnership.items.map((phase, index) => (
+                      <div key={phase.title} className="bg-white/10 rounded-lg p-4">
                         <div className="flex items-center mb-2">
                           <div className="w-8 h-8 bg-white/20 rounded-full flex items-center justify-center mr-4">
                             <span className="text-sm font-bold">{index + 1}</span>
@@ -443,7 +345,7 @@ const ForEnterprisesPage = () => {
                           <div className="flex-1">
                             <div className="flex justify-between items-center">
                               <span className="font-semibold">{phase.title}</span>
-                              <span className="text-blue-200 text-sm">{phase.duration}</span>
+                              <span className="text-blue-200 text-sm">{phase.highlight}</span>
                             </div>
                           </div>
                         </div>
@@ -471,14 +373,7 @@ const ForEnterprisesPage = () => {
                 <div className={`bg-white rounded-lg  shadow-lg flex-grow ${provenCardPadding()}`}>
                   <h4 className="text-xl font-bold text-slate-800 mb-4">Enterprise Partnership Includes:</h4>
                   <ul className="space-y-3">
-                    {[
-                      'Dedicated project management and coordination',
-                      'German quality standards and compliance oversight',
-                      'Multi-vendor management and integration',
-                      'Risk assessment and mitigation strategies',
-                      'Regular executive reporting and communication',
-                      'Ongoing optimization and maintenance services'
-                    ].map((item, index) => (
+                    {partnership.points.map((item, index) => (
                       <li key={index} className="flex items-start">
                         <CheckCircle className="w-5 h-5 text-green-600 mr-3 flex-shrink-0 mt-0.5" />
                         <span className="text-slate-700">{item}</span>
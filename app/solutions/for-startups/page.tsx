@@ -8,48 +8,13 @@ import { ResponsiveWrapper } from "@/components/layout/ResponsiveWrapper"
 import { ResponsiveCard, ResponsiveCardGrid } from "@/components/shared/ResponsiveCard"
 import { 
   Rocket, 
-  Clock, 
-  DollarSign, 
   CheckCircle,
-  ArrowRight,
-  Target,
-  Users
+  ArrowRight
 } from 'lucide-react'
+import { startupSolutions } from '@/lib/data/solutions'
 
 const ForStartupsPage = () => {
-  const challenges = [
-    {
-      icon: DollarSign,
-      title: 'Limited Budget',
-      description: 'Traditional engineering services are expensive and designed for large enterprises',
-      solution: 'My startup approach offers 30-50% cost savings with flexible payment options'
-    },
-    {
-      icon: Clock,
-      title: 'Time Pressure',
-      description: 'Investors and market demands require rapid product development',
-      solution: 'Streamlined 12-20 week process from concept to production-ready'
-    },
-    {
-      icon: Users,
-      title: 'Expertise Gap',
-      description: 'Lack of in-house engineering expertise for complex product development',
-      solution: 'Experienced mechanical engineering expertise at your disposal'
-    },
-    {
-      icon: Target,
-      title: 'Manufacturing Complexity',
-      description: 'Finding reliable, cost-effective manufacturing partners is challenging',
-      solution: 'Carefully selected manufacturing partners with personal coordination support'
-    }
-  ]
-
-  const successMetrics = [
-    { metric: '1-on-1', description: 'Personal Attention', detail: 'Direct communication with engineer' },
-    { metric: '12-20', description: 'Weeks', detail: 'Concept to production timeline' },
-    { metric: '30-50%', description: 'Cost Savings', detail: 'vs. traditional methods' },
-    { metric: '24h', description: 'Response Time', detail: 'Quick decision making' }
-  ]
+  const { challenges, accelerator, approach, services } = startupSolutions.sections
 
   return (
     <div className="min-h-screen">
@@ -65,15 +30,14 @@ const ForStartupsPage = () => {
             <div className="flex flex-col sm:flex-row items-center justify-center mb-6">
               <Rocket className="w-12 h-12 sm:w-16 sm:h-16 text-yellow-400 mb-2 sm:mb-0 sm:mr-4" />
               <h1 className="text-3xl sm:text-4xl md:text-5xl lg:text-7xl font-bold bg-gradient-to-r from-white via-blue-200 to-yellow-200 bg-clip-text text-transparent text-center sm:text-left">
-                Solutions for Startups
+                {startupSolutions.title}
               </h1>
             </div>
             <p className="text-lg sm:text-xl md:text-2xl lg:text-3xl mb-6 sm:mb-8 text-gray-300 leading-relaxed">
-              From Idea to Market in Record Time
+              {startupSolutions.tagline}
             </p>
             <p className="text-base sm:text-lg md:text-xl mb-6 sm:mb-8 text-gray-400 max-w-3xl mx-auto leading-relaxed">
-              Specialized engineering solutions designed for startups. Fast, cost-effective, 
-              and built to scale with your growth.
+              {startupSolutions.description}
             </p>
             <div className="flex flex-col sm:flex-row gap-4 justify-center items-center">
               <Button variant="cta-white" size="lg" className="w-full sm:w-auto" asChild>
@@ -99,14 +63,14 @@ const ForStartupsPage = () => {
             whileInView={{ opacity: 1, y: 0 }}
             className="text-center mb-12 sm:mb-16"
           >
-            <h2 className="text-2xl sm:text-3xl md:text-4xl font-bold mb-4 sm:mb-6 text-slate-800">Startup Challenges I Solve</h2>
+            <h2 className="text-2xl sm:text-3xl md:text-4xl font-bold mb-4 sm:mb-6 text-slate-800">{challenges.heading}</h2>
             <p className="text-base sm:text-lg md:text-xl text-slate-600 max-w-3xl mx-auto">
-              I understand the unique challenges startups face and have tailored solutions for each
+              {challenges.intro}
             </p>
           </motion.div>
 
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 sm:gap-8">
-            {challenges.map((challenge, index) => (
+            {challenges.items.map((challenge, index) => (
               <motion.div
                 key={challenge.title}
                 initial={{ opacity: 0, y: 30 }}
@@ -148,10 +112,10 @@ const ForStartupsPage = () => {
             className="text-center mb-8 sm:mb-12"
           >
             <h2 className="text-2xl sm:text-3xl md:text-4xl font-bold mb-4 sm:mb-6 text-slate-800">
-              Featured: Product Development Accelerator
+              {accelerator.heading}
             </h2>
             <p className="text-lg sm:text-xl text-slate-600 max-w-3xl mx-auto">
-              My flagship startup solution - a complete 4-phase program designed specifically for early-stage companies
+              {accelerator.intro}
             </p>
           </motion.div>
 
@@ -170,20 +134,15 @@ const ForStartupsPage = () => {
                   <CardContent className="p-4 sm:p-6 md:p-8">
                     <h3 className="text-xl sm:text-2xl font-bold mb-4 sm:mb-6">The 4-Phase IdEinstein Path</h3>
                     <div className="space-y-2 sm:space-y-3">
-                      {[
-                        { phase: 'Phase 1', title: 'Concept & Feasibility', duration: '1-2 months' },
-                        { phase: 'Phase 2', title: 'Design & Prototyping', duration: '2-4 months' },
-                        { phase: 'Phase 3', title: 'Validation & Manufacturing Setup', duration: '3-6 months' },
-                        { phase: 'Phase 4', title: 'Production & Ongoing Support', duration: 'Ongoing' }
-                      ].map((phase, index) => (
-                        <div key={phase.phase} className="flex items-start sm:items-center">
+                      {accelerator.items.map((phase, index) => (
+                        <div key={phase.title} className="flex items-start sm:items-center">
                           <div className="w-8 h-8 bg-white/20 rounded-full flex items-center justify-center mr-3 sm:mr-4 flex-shrink-0">
                             <span className="text-sm font-bold">{index + 1}</span>
                           </div>
                           <div className="flex-1 min-w-0">
                             <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center">
                               <span className="font-semibold text-sm sm:text-base">{phase.title}</span>
-                              <span className="text-blue-200 text-xs sm:text-sm mt-1 sm:mt-0">{phase.duration}</span>
+                              <span className="text-blue-200 text-xs sm:text-sm mt-1 sm:mt-0">{phase.highlight}</span>
                             </div>
                           </div>
                         </div>
@@ -207,14 +166,7 @@ const ForStartupsPage = () => {
                 <div className="bg-white rounded-lg p-4 sm:p-6 shadow-lg">
                   <h4 className="text-lg sm:text-xl font-bold text-slate-800 mb-3 sm:mb-4">What's Included:</h4>
                   <ul className="space-y-2 sm:space-y-3">
-                    {[
-                      'Comprehensive feasibility study',
-                      'Functional prototype development',
-                      'Manufacturing-ready design files',
-                      'Qualified supplier identification',
-                      'Quality control planning',
-                      'Ongoing support and guidance'
-                    ].map((item, index) => (
+                    {accelerator.points.map((item, index) => (
                       <li key={index} className="flex items-start">
                         <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5 text-green-600 mr-2 sm:mr-3 flex-shrink-0 mt-0.5" />
                         <span className="text-sm sm:text-base text-slate-700">{item}</span>
@@ -251,24 +203,24 @@ const ForStartupsPage = () => {
             whileInView={{ opacity: 1, y: 0 }}
             className="text-center mb-16"
           >
-            <h2 className="text-4xl font-bold mb-6">My Startup Approach</h2>
+            <h2 className="text-4xl font-bold mb-6">{approach.heading}</h2>
             <p className="text-xl text-slate-300 max-w-3xl mx-auto">
-              Focused on delivering results for startups with personal attention and proven methodology
+              {approach.intro}
             </p>
           </motion.div>
 
           <div className="grid grid-cols-2 lg:grid-cols-4 gap-6 sm:gap-8">
-            {successMetrics.map((metric, index) => (
+            {approach.items.map((metric, index) => (
               <motion.div
-                key={metric.description}
+                key={metric.title}
                 initial={{ opacity: 0, y: 30 }}
                 whileInView={{ opacity: 1, y: 0 }}
                 transition={{ delay: index * 0.1 }}
                 className="text-center"
               >
-                <div className="text-3xl sm:text-4xl md:text-5xl font-bold mb-2 text-yellow-400">{metric.metric}</div>
-                <div className="text-lg font-semibold mb-2">{metric.description}</div>
-                <div className="text-slate-300 text-xs sm:text-sm">{metric.detail}</div>
+                <div className="text-3xl sm:text-4xl md:text-5xl font-bold mb-2 text-yellow-400">{metric.highlight}</div>
+                <div className="text-lg font-semibold mb-2">{metric.title}</div>
+                <div className="text-slate-300 text-xs sm:text-sm">{metric.description}</div>
               </motion.div>
             ))}
           </div>
@@ -283,9 +235,9 @@ const ForStartupsPage = () => {
             whileInView={{ opacity: 1, y: 0 }}
             className="text-center mb-16"
           >
-            <h2 className="text-4xl font-bold mb-6 text-slate-800">Need Individual Services?</h2>
+            <h2 className="text-4xl font-bold mb-6 text-slate-800">{services.heading}</h2>
             <p className="text-xl text-slate-600 max-w-3xl mx-auto">
-              While my accelerator package offers the best value, I also provide individual services for specific needs
+              {services.intro}
             </p>
           </motion.div>
 
@@ -293,14 +245,7 @@ const ForStartupsPage = () => {
             columns={{ mobile: 1, tablet: 2, desktop: 3 }}
             gap={{ mobile: 'gap-4', tablet: 'gap-6', desktop: 'gap-8' }}
           >
-            {[
-              { title: 'Research & Development', href: '/services/research-development', description: 'Concept validation and feasibility studies' },
-              { title: 'CAD Modeling', href: '/services/cad-modeling', description: 'Professional 3D modeling and design' },
-              { title: '3D Printing Services', href: '/services/3d-printing', description: 'Rapid prototyping and manufacturing' },
-              { title: 'FEA & CFD Analysis', href: '/services/finite-element-cfd', description: 'Advanced simulation and analysis' },
-              { title: 'Supplier Sourcing', href: '/services/supplier-sourcing', description: 'Manufacturing partner identification' },
-              { title: 'Technical Documentation', href: '/services/technical-documentation', description: 'Professional documentation services' }
-            ].map((service, index) => (
+            {services.items.map((service, index) => (
               <motion.div
                 key={service.title}
                 initial={{ opacity: 0, y: 30 }}
@@ -4,21 +4,18 @@ import { motion } from 'framer-motion'
 import Link from 'next/link'
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
-import { 
-  Rocket, 
-  Building2, 
-  ArrowRight,
-  Users,
-  TrendingUp,
-  Shield
-} from 'lucide-react'
+import { ArrowRight } from 'lucide-react'
 import { 
   provenCardPadding, 
   provenTouchFeedback, 
   provenButtonWidth 
 } from '@/lib/utils/responsive-utilities'
+import { solutionsOverview } from '@/lib/data/solutions'
 
 const SolutionsOverviewPage = () => {
+  const [startups, enterprises] = solutionsOverview.sections.audiences.items
+  const { advantages } = solutionsOverview.sections
+
   return (
     <div className="min-h-screen">
       {/* Hero Section */}
@@ -31,11 +28,10 @@ const SolutionsOverviewPage = () => {
             className="max-w-4xl mx-auto"
           >
             <h1 className="text-5xl md:text-7xl font-bold mb-6 bg-gradient-to-r from-white via-blue-200 to-yellow-200 bg-clip-text text-transparent">
-              Solutions for Every Stage
+              {solutionsOverview.title}
             </h1>
             <p className="text-xl md:text-2xl mb-8 text-gray-300 leading-relaxed">
-              Whether you're a startup bringing your first product to market or an established enterprise 
-              scaling operations, we have tailored solutions for your needs.
+              {solutionsOverview.description}
             </p>
           </motion.div>
         </div>
@@ -56,36 +52,25 @@ const SolutionsOverviewPage = () => {
                 <CardContent className={` ${provenCardPadding()}`}>
                   <div className="flex items-center mb-6">
                     <div className="w-16 h-16 bg-gradient-to-r from-blue-600 to-blue-700 rounded-full flex items-center justify-center mr-4">
-                      <Rocket className="w-8 h-8 text-white" />
+                      <startups.icon className="w-8 h-8 text-white" />
                     </div>
                     <div>
-                      <h2 className="text-3xl font-bold text-slate-800">For Startups</h2>
-                      <p className="text-blue-600 font-medium">Accelerate Your Innovation</p>
+                      <h2 className="text-3xl font-bold text-slate-800">{startups.title}</h2>
+                      <p className="text-blue-600 font-medium">{startups.highlight}</p>
                     </div>
                   </div>
                   
                   <p className="text-lg text-slate-600 mb-8 leading-relaxed">
-                    Fast-track your product development with our specialized startup package. 
-                    From concept to production in 12-20 weeks with cost-effective solutions.
+                    {startups.description}
                   </p>
 
                   <div className="space-y-4 mb-8">
-                    <div className="flex items-center">
-                      <div className="w-2 h-2 bg-blue-600 rounded-full mr-3"></div>
-                      <span className="text-slate-700">Product Development Accelerator</span>
-                    </div>
-                    <div className="flex items-center">
-                      <div className="w-2 h-2 bg-blue-600 rounded-full mr-3"></div>
-                      <span className="text-slate-700">MVP Design & Prototyping</span>
-                    </div>
-                    <div className="flex items-center">
-                      <div className="w-2 h-2 bg-blue-600 rounded-full mr-3"></div>
-                      <span className="text-slate-700">Manufacturing Partner Qualification</span>
-                    </div>
-                    <div className="flex items-center">
-                      <div className="w-2 h-2 bg-blue-600 rounded-full mr-3"></div>
-                      <span className="text-slate-700">Cost-Effective Indian Manufacturing</span>
-                    </div>
+                    {startups.points.map((point) => (
+                      <div key={point} className="flex items-center">
+                        <div className="w-2 h-2 bg-blue-600 rounded-full mr-3"></div>
+                        <span className="text-slate-700">{point}</span>
+                      </div>
+                    ))}
                   </div>
 
                   <div className="bg-blue-50 rounded-lg p-4 mb-6">
@@ -99,7 +84,7 @@ const SolutionsOverviewPage = () => {
                   </div>
 
                   <Button variant="cta" size="lg" className={`w-full ${provenButtonWidth()}`} asChild>
-                    <Link href="/solutions/for-startups">
+                    <Link href={startups.href}>
                       Explore Startup Solutions
                       <ArrowRight className="ml-2 w-5 h-5" />
                     </Link>
@@ -118,36 +103,25 @@ const SolutionsOverviewPage = () => {
                 <CardContent className={` ${provenCardPadding()}`}>
                   <div className="flex items-center mb-6">
                     <div className="w-16 h-16 bg-gradient-to-r from-slate-600 to-slate-700 rounded-full flex items-center justify-center mr-4">
-                      <Building2 className="w-8 h-8 text-white" />
+                      <enterprises.icon className="w-8 h-8 text-white" />
                     </div>
                     <div>
-                      <h2 className="text-3xl font-bold text-slate-800">For Enterprises</h2>
-                      <p className="text-slate-600 font-medium">Scale Your Operations</p>
+                      <h2 className="text-3xl font-bold text-slate-800">{enterprises.title}</h2>
+                      <p className="text-slate-600 font-medium">{enterprises.highlight}</p>
                     </div>
                   </div>
                   
                   <p className="text-lg text-slate-600 mb-8 leading-relaxed">
-                    Advanced engineering solutions for established companies. Complex projects, 
-                    compliance requirements, and large-scale manufacturing support.
+                    {enterprises.description}
                   </p>
 
                   <div className="space-y-4 mb-8">
-                    <div className="flex items-center">
-                      <div className="w-2 h-2 bg-slate-600 rounded-full mr-3"></div>
-                      <span className="text-slate-700">Advanced R&D Projects</span>
-                    </div>
-                    <div className="flex items-center">
-                      <div className="w-2 h-2 bg-slate-600 rounded-full mr-3"></div>
-                      <span className="text-slate-700">Complex Engineering Analysis</span>
-                    </div>
-                    <div className="flex items-center">
-                      <div className="w-2 h-2 bg-slate-600 rounded-full mr-3"></div>
-                      <span className="text-slate-700">Large-Scale Manufacturing</span>
-                    </div>
-                    <div className="flex items-center">
-                      <div className="w-2 h-2 bg-slate-600 rounded-full mr-3"></div>
-                      <span className="text-slate-700">Compliance & Documentation</span>
-                    </div>
+                    {enterprises.points.map((point) => (
+                      <div key={point} className="flex items-center">
+                        <div className="w-2 h-2 bg-slate-600 rounded-full mr-3"></div>
+                        <span className="text-slate-700">{point}</span>
+                      </div>
+                    ))}
                   </div>
 
                   <div className="bg-slate-50 rounded-lg p-4 mb-6">
@@ -161,7 +135,7 @@ const SolutionsOverviewPage = () => {
                   </div>
 
                   <Button variant="outline" size="lg" className={`w-full ${provenButtonWidth()}`} asChild>
-                    <Link href="/solutions/for-enterprises">
+                    <Link href={enterprises.href}>
                       Explore Enterprise Solutions
                       <ArrowRight className="ml-2 w-5 h-5" />
                     </Link>
@@ -181,30 +155,14 @@ const SolutionsOverviewPage = () => {
             whileInView={{ opacity: 1, y: 0 }}
             className="text-center mb-16"
           >
-            <h2 className="text-4xl font-bold mb-6 text-slate-800">Why Choose IdEinstein?</h2>
+            <h2 className="text-4xl font-bold mb-6 text-slate-800">{advantages.heading}</h2>
             <p className="text-xl text-slate-600 max-w-3xl mx-auto">
-              Unique advantages that set us apart in the global engineering landscape
+              {advantages.intro}
             </p>
           </motion.div>
 
           <div className={`grid grid-cols-1 md:grid-cols-3 gap-8 ${provenCardPadding()}`}>
-            {[
-              {
-                icon: Users,
-                title: 'Cross-Cultural Bridge',
-                description: '26+ years bridging German precision with Indian manufacturing efficiency'
-              },
-              {
-                icon: TrendingUp,
-                title: 'Proven Track Record',
-                description: '87% of our R&D projects successfully reach market with measurable ROI'
-              },
-              {
-                icon: Shield,
-                title: 'Single Point of Contact',
-                description: 'Simplified project management with one expert overseeing your entire process'
-              }
-            ].map((advantage, index) => (
+            {advantages.items.map((advantage, index) => (
               <motion.div
                 key={advantage.title}
                 initial={{ opacity: 0, y: 30 }}
@@ -7,6 +7,8 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Lock, Eye, EyeOff } from 'lucide-react';
+import { adminLogout, clearAdminTokens, getAdminAccessToken, storeAdminTokens } from '@/lib/admin-api';
+import AdminMfaSetup from './AdminMfaSetup';
 
 interface AdminAuthProps {
   children: React.ReactNode;
@@ -14,51 +16,77 @@ interface AdminAuthProps {
 
 export default function AdminAuth({ children }: AdminAuthProps) {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  // Second login step for admins with 2FA enabled
+  const [mfaStep, setMfaStep] = useState(false);
+  const [mfaCode, setMfaCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  // Password-only session that must enroll before using the dashboard
+  const [enrollmentRequired, setEnrollmentRequired] = useState(false);
 
   // Check if already authenticated on component mount
   useEffect(() => {
-    const authToken = localStorage.getItem('admin_auth_token');
-    const authExpiry = localStorage.getItem('admin_auth_expiry');
+    if (!localStorage.getItem('admin_refresh_token')) {
+      return;
+    }
     
-    if (authToken && authExpiry) {
-      const expiryTime = parseInt(authExpiry);
-      if (Date.now() < expiryTime) {
-        // Verify token is still valid with server
-        fetch('/api/admin/verify-token', {
+    // Refreshes first when the access token has expired
+    getAdminAccessToken()
+      .then(token => {
+        if (!token) {
+          console.log('⏰ Session expired, clearing cache');
+          clearAllCache();
+          return;
+        }
+        
+        // Verify the session hasn't been revoked server-side
+        return fetch('/api/admin/verify-token', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ token: authToken })
+          body: JSON.stringify({ token })
         })
         .then(res => res.json())
         .then(data => {
           if (data.isAuthenticated) {
+            setEnrollmentRequired(!data.mfa && data.mfaRequired);
             setIsAuthenticated(true);
-            console.log('✅ Existing token is valid');
+            console.log('✅ Existing session is valid');
           } else {
-            console.log('❌ Existing token is invalid, clearing cache');
+            console.log('❌ Existing session is invalid, clearing cache');
             clearAllCache();
           }
-        })
-        .catch(() => {
-          console.log('❌ Token verification failed, clearing cache');
-          clearAllCache();
         });
-      } else {
-        // Token expired, clear storage
-        console.log('⏰ Token expired, clearing cache');
+      })
+      .catch(() => {
+        console.log('❌ Session verification failed, clearing cache');
         clearAllCache();
-      }
-    }
+      });
   }, []);
 
+  // Keep the access token fresh; many admin components read it straight from localStorage
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    
+    const interval = setInterval(() => {
+      getAdminAccessToken().then(token => {
+        if (!token) {
+          console.log('⏰ Session expired');
+          clearAllCache();
+          setIsAuthenticated(false);
+        }
+      });
+    }, 30 * 1000);
+    
+    return () => clearInterval(interval);
+  }, [isAuthenticated]);
+
   const clearAllCache = () => {
     // Clear localStorage
-    localStorage.removeItem('admin_auth_token');
-    localStorage.removeItem('admin_auth_expiry');
+    clearAdminTokens();
     
     // Clear sessionStorage
     sessionStorage.clear();
@@ -88,28 +116,38 @@ export default function AdminAuth({ children }: AdminAuthProps) {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ password }),
+        body: JSON.stringify({
+          username: username.trim() || undefined,
+          password,
+          ...(mfaStep && (useRecoveryCode ? { recoveryCode: mfaCode.trim() } : { otp: mfaCode.trim() }))
+        }),
       });
 
       if (response.ok) {
         const data = await response.json();
         if (data.success) {
-          // Set authentication token with 24-hour expiry
-          const expiryTime = Date.now() + (24 * 60 * 60 * 1000); // 24 hours
-          const authToken = btoa(`admin:${password}`); // Token format expected by server
-          
-          localStorage.setItem('admin_auth_token', authToken);
-          localStorage.setItem('admin_auth_expiry', expiryTime.toString());
+          // Short-lived access token plus a refresh token; the password itself is never stored
+          storeAdminTokens(data);
           
+          setEnrollmentRequired(!!data.mfaEnrollmentRequired);
           setIsAuthenticated(true);
           setPassword('');
+          setMfaStep(false);
+          setMfaCode('');
           console.log('✅ Authentication successful');
         } else {
-          setError('Invalid password. Please check your password and try again.');
-          console.log('❌ Authentication failed: Invalid password');
+          setError('Invalid credentials. Please check your username and password and try again.');
+          console.log('❌ Authentication failed: Invalid credentials');
         }
       } else {
         const errorData = await response.json().catch(() => ({}));
+        if (errorData.mfaRequired) {
+          // Password accepted; ask for the code (only an error once a code was sent)
+          if (mfaStep) setError(errorData.message || 'Invalid verification code');
+          setMfaStep(true);
+          setMfaCode('');
+          return;
+        }
         setError(`Authentication failed: ${errorData.message || 'Server error'}`);
         console.log('❌ Authentication failed: Server error', response.status);
       }
@@ -121,13 +159,22 @@ export default function AdminAuth({ children }: AdminAuthProps) {
     }
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('admin_auth_token');
-    localStorage.removeItem('admin_auth_expiry');
+  const handleLogout = async () => {
+    await adminLogout();
     setIsAuthenticated(false);
+    setEnrollmentRequired(false);
     setPassword('');
   };
 
+  if (isAuthenticated && enrollmentRequired) {
+    return (
+      <AdminMfaSetup
+        onComplete={() => setEnrollmentRequired(false)}
+        onCancel={handleLogout}
+      />
+    );
+  }
+
   // Show login form if not authenticated
   if (!isAuthenticated) {
     return (
@@ -140,32 +187,75 @@ export default function AdminAuth({ children }: AdminAuthProps) {
               </div>
               <CardTitle className="text-2xl">Admin Access</CardTitle>
               <CardDescription>
-                Enter the admin password to access the dashboard
+                {mfaStep
+                  ? 'Enter the code from your authenticator app'
+                  : 'Sign in with your admin account to access the dashboard'}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <form onSubmit={handleLogin} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="password">Admin Password</Label>
-                  <div className="relative">
+                {mfaStep ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="mfa-code">{useRecoveryCode ? 'Recovery code' : 'Verification code'}</Label>
                     <Input
-                      id="password"
-                      type={showPassword ? 'text' : 'password'}
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      placeholder="Enter admin password"
-                      className="pr-10"
+                      id="mfa-code"
+                      inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                      autoComplete="one-time-code"
+                      maxLength={useRecoveryCode ? 32 : 6}
+                      value={mfaCode}
+                      onChange={(e) => setMfaCode(useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, ''))}
+                      placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                      autoFocus
                       required
                     />
                     <button
                       type="button"
-                      onClick={() => setShowPassword(!showPassword)}
-                      className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                      onClick={() => {
+                        setUseRecoveryCode(!useRecoveryCode);
+                        setMfaCode('');
+                      }}
+                      className="text-sm text-blue-600 hover:text-blue-500"
                     >
-                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      {useRecoveryCode ? 'Use authenticator code instead' : 'Use a recovery code instead'}
                     </button>
                   </div>
-                </div>
+                ) : (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="username">Username</Label>
+                      <Input
+                        id="username"
+                        type="text"
+                        autoComplete="username"
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                        placeholder="admin"
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="password">Admin Password</Label>
+                      <div className="relative">
+                        <Input
+                          id="password"
+                          type={showPassword ? 'text' : 'password'}
+                          value={password}
+                          onChange={(e) => setPassword(e.target.value)}
+                          placeholder="Enter admin password"
+                          className="pr-10"
+                          required
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setShowPassword(!showPassword)}
+                          className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                        >
+                          {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                        </button>
+                      </div>
+                    </div>
+                  </>
+                )}
 
                 {error && (
                   <Alert variant="destructive">
@@ -176,17 +266,17 @@ export default function AdminAuth({ children }: AdminAuthProps) {
                 <Button 
                   type="submit" 
                   className="w-full" 
-                  disabled={loading || !password.trim()}
+                  disabled={loading || !password.trim() || (mfaStep && !mfaCode.trim())}
                 >
                   {loading ? (
                     <>
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                      Authenticating...
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                        Authenticating...
                     </>
                   ) : (
                     <>
-                      <Lock className="h-4 w-4 mr-2" />
-                      Access Dashboard
+                        <Lock className="h-4 w-4 mr-2" />
+                        Access Dashboard
                     </>
                   )}
                 </Button>
@@ -198,6 +288,8 @@ export default function AdminAuth({ children }: AdminAuthProps) {
                   onClick={() => {
                     clearAllCache();
                     setError('');
+                    setMfaStep(false);
+                    setMfaCode('');
                     alert('Cache cleared! Please try logging in again.');
                   }}
                   disabled={loading}
@@ -206,17 +298,6 @@ export default function AdminAuth({ children }: AdminAuthProps) {
                 </Button>
               </form>
 
-              {process.env.NODE_ENV !== 'production' && (
-                <div className="mt-6 p-4 bg-blue-50 rounded-lg">
-                  <h4 className="text-sm font-medium text-blue-800 mb-2">Default Password</h4>
-                  <p className="text-sm text-blue-700">
-                    For development: <code className="bg-blue-100 px-2 py-1 rounded">admin123</code>
-                  </p>
-                  <p className="text-xs text-blue-600 mt-2">
-                    ⚠️ Change this password before going to production!
-                  </p>
-                </div>
-              )}
             </CardContent>
           </Card>
         </div>
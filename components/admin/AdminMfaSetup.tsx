@@ -0,0 +1,157 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ShieldCheck, Copy } from 'lucide-react';
+import { adminApiCall, adminPost, storeAdminTokens } from '@/lib/admin-api';
+
+interface AdminMfaSetupProps {
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+interface Enrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+/**
+ * TOTP enrollment for admins signed in with a password-only session
+ */
+export default function AdminMfaSetup({ onComplete, onCancel }: AdminMfaSetupProps) {
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    adminPost('/api/admin/mfa')
+      .then(async response => {
+        const data = await response.json();
+        if (response.ok) {
+          setEnrollment({ secret: data.secret, otpauthUrl: data.otpauthUrl });
+        } else {
+          setError(data.error || 'Could not start two-factor setup');
+        }
+      })
+      .catch(() => setError('Could not start two-factor setup. Please sign in again.'));
+  }, []);
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await adminApiCall('/api/admin/mfa', {
+        method: 'PUT',
+        body: JSON.stringify({ code: code.trim() }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        // The confirmed session replaces the password-only one
+        storeAdminTokens(data);
+        setRecoveryCodes(data.recoveryCodes);
+      } else {
+        setError(data.error || 'Invalid verification code');
+      }
+    } catch {
+      setError('Verification failed. Please check your connection and try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="max-w-md w-full">
+        <Card className="shadow-lg">
+          <CardHeader className="text-center">
+            <div className="mx-auto w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mb-4">
+              <ShieldCheck className="h-6 w-6 text-blue-600" />
+            </div>
+            <CardTitle className="text-2xl">Set Up Two-Factor Authentication</CardTitle>
+            <CardDescription>
+              {recoveryCodes
+                ? 'Store these recovery codes somewhere safe. Each one works once if you lose your device.'
+                : 'Add this account to your authenticator app, then enter the 6-digit code it shows.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {recoveryCodes ? (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 rounded-lg font-mono text-sm">
+                  {recoveryCodes.map(recoveryCode => (
+                    <span key={recoveryCode}>{recoveryCode}</span>
+                  ))}
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => navigator.clipboard?.writeText(recoveryCodes.join('\n'))}
+                >
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy Codes
+                </Button>
+                <Button type="button" className="w-full" onClick={onComplete}>
+                  I&apos;ve Saved These Codes
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleConfirm} className="space-y-4">
+                {enrollment && (
+                  <div className="space-y-2">
+                    <Label>Setup key</Label>
+                    <div className="p-3 bg-gray-50 rounded-lg font-mono text-sm break-all">
+                      {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+                    </div>
+                    <a
+                      href={enrollment.otpauthUrl}
+                      className="text-sm text-blue-600 hover:text-blue-500"
+                    >
+                      Open in authenticator app
+                    </a>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="mfa-code">Verification code</Label>
+                  <Input
+                    id="mfa-code"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={6}
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                    placeholder="123456"
+                    required
+                  />
+                </div>
+
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <Button type="submit" className="w-full" disabled={loading || !enrollment || code.length !== 6}>
+                  {loading ? 'Verifying...' : 'Enable Two-Factor Authentication'}
+                </Button>
+                <Button type="button" variant="outline" className="w-full" onClick={onCancel} disabled={loading}>
+                  Sign Out
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,9 @@ import {
   Shield, 
   Settings, 
   Home,
+  Inbox,
+  Gauge,
+  ListChecks,
   ChevronRight
 } from 'lucide-react';
 
@@ -37,6 +40,24 @@ const adminRoutes = [
     icon: Shield,
     description: 'OWASP compliance and security monitoring'
   },
+  {
+    label: 'Outbox',
+    href: '/admin/outbox',
+    icon: Inbox,
+    description: 'Queued and failed form submissions'
+  },
+  {
+    label: 'Lead Scoring',
+    href: '/admin/lead-scoring',
+    icon: Gauge,
+    description: 'Rules that rate incoming leads'
+  },
+  {
+    label: 'CRM Fields',
+    href: '/admin/zoho/fields',
+    icon: ListChecks,
+    description: 'Form-to-CRM field mapping check'
+  },
   {
     label: 'Configuration',
     href: '/admin/config/environment',
@@ -0,0 +1,172 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { adminGet } from '@/lib/admin-api';
+import type { CrmFieldIssue, CrmFieldReport } from '@/lib/crm-mapping/types';
+import {
+  AlertTriangle,
+  CheckCircle,
+  ListChecks,
+  RefreshCw
+} from 'lucide-react';
+
+interface MappingView {
+  form: string;
+  module: string;
+  fields: Array<{ field: string; type: string; required: boolean; followUp?: boolean }>;
+}
+
+const ISSUE_LABELS: Record<CrmFieldIssue['kind'], string> = {
+  missing: 'Missing',
+  type_mismatch: 'Wrong type',
+  read_only: 'Read-only',
+  unmapped_required: 'Mandatory, not mapped'
+};
+
+export default function CrmFieldsDashboard() {
+  const [report, setReport] = useState<CrmFieldReport | null>(null);
+  const [mappings, setMappings] = useState<MappingView[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async (refresh = false) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await adminGet(`/api/admin/crm-fields${refresh ? '?refresh=true' : ''}`);
+      if (!response.ok) {
+        throw new Error('Failed to check CRM fields');
+      }
+
+      const data = await response.json();
+      setReport(data.report);
+      setMappings(data.mappings || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const issueFor = (form: string, field: string) =>
+    report?.issues.find(issue => issue.field === field && issue.forms.includes(form as CrmFieldIssue['forms'][number]));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">CRM Field Mapping</h2>
+          <p className="text-muted-foreground">
+            Form fields written to Zoho CRM, checked against the CRM&apos;s field metadata
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => fetchReport(true)} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Check again
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <Alert variant={report.ok ? 'default' : 'destructive'}>
+          {report.ok ? <CheckCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+          <AlertDescription>
+            {report.ok
+              ? `All ${report.mappedFields} mapped fields exist in the CRM with compatible types`
+              : `${report.issues.length} problem(s) found`}
+            {' '}- checked {new Date(report.checkedAt).toLocaleString()}
+            {report.modules.filter(entry => entry.error).map(entry => (
+              <span key={entry.module} className="block">
+                Could not load {entry.module} fields: {entry.error}
+              </span>
+            ))}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Issues */}
+      {report && report.issues.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Problems
+            </CardTitle>
+            <CardDescription>
+              Leads are still created, but values for these fields are lost or rejected by the CRM.
+              Fix the field in Zoho or its mapping in lib/crm-mapping/mappings.ts
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {report.issues.map((issue, index) => (
+              <div key={index} className="flex items-center justify-between gap-4 p-3 border rounded-lg text-sm">
+                <div>
+                  <span className="font-mono">{issue.field}</span>
+                  <p className="text-xs text-muted-foreground">{issue.message}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {issue.forms.map(form => <Badge key={form} variant="outline">{form}</Badge>)}
+                  <Badge variant="destructive">{ISSUE_LABELS[issue.kind]}</Badge>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Mappings */}
+      <div className="grid gap-6 md:grid-cols-2">
+        {mappings.map(mapping => (
+          <Card key={mapping.form}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 capitalize">
+                <ListChecks className="h-5 w-5" />
+                {mapping.form.replace('_', ' ')}
+                <Badge variant="outline" className="normal-case">{mapping.module}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-1">
+                {mapping.fields.map(field => {
+                  const issue = issueFor(mapping.form, field.field);
+                  return (
+                    <div
+                      key={field.field}
+                      className={`flex items-center justify-between text-sm rounded px-3 py-1.5 ${issue ? 'bg-red-50' : 'bg-gray-50'}`}
+                    >
+                      <span className="font-mono">
+                        {field.field}
+                        {field.required && <span className="text-red-600"> *</span>}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {field.type}
+                        {field.followUp && ' (set after upload)'}
+                        {issue && <span className="text-red-600"> - {ISSUE_LABELS[issue.kind]}</span>}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Textarea } from '@/components/ui/textarea';
+import { adminApiCall, adminGet, adminPost } from '@/lib/admin-api';
+import type { LeadScoreExplanation, ScoringRuleset } from '@/lib/lead-scoring/types';
+import {
+  AlertTriangle,
+  CheckCircle,
+  FlaskConical,
+  Gauge,
+  RefreshCw,
+  RotateCcw,
+  Save
+} from 'lucide-react';
+
+type LeadFormOption = 'quote' | 'contact' | 'consultation';
+
+const SAMPLE_PAYLOADS: Record<LeadFormOption, Record<string, unknown>> = {
+  quote: {
+    service: '3D Printing Services',
+    budget: '€15,000–€50,000',
+    timeline: 'short',
+    scope: 'prototype',
+    company: 'Example GmbH',
+    utm_source: 'linkedin',
+    audience: 'enterprise'
+  },
+  contact: {
+    company: 'Example GmbH',
+    utm_source: 'google'
+  },
+  consultation: {
+    service: 'Machine Design',
+    budget: '€50,000–€100,000',
+    timeline: 'medium',
+    scope: 'design',
+    audience: 'startup'
+  }
+};
+
+// The editor holds thresholds and rules; the version is tracked separately for the save
+function editorText(ruleset: ScoringRuleset) {
+  return JSON.stringify({ thresholds: ruleset.thresholds, rules: ruleset.rules }, null, 2);
+}
+
+export default function LeadScoringDashboard() {
+  const [ruleset, setRuleset] = useState<ScoringRuleset | null>(null);
+  const [defaults, setDefaults] = useState<ScoringRuleset | null>(null);
+  const [isDefault, setIsDefault] = useState(false);
+  const [editor, setEditor] = useState('');
+  const [form, setForm] = useState<LeadFormOption>('quote');
+  const [payload, setPayload] = useState(JSON.stringify(SAMPLE_PAYLOADS.quote, null, 2));
+  const [attachments, setAttachments] = useState(0);
+  const [explanation, setExplanation] = useState<LeadScoreExplanation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await adminGet('/api/admin/lead-scoring');
+      if (!response.ok) {
+        throw new Error('Failed to fetch lead scoring rules');
+      }
+
+      const data = await response.json();
+      setRuleset(data.ruleset);
+      setDefaults(data.defaults);
+      setIsDefault(data.isDefault);
+      setEditor(editorText(data.ruleset));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const parseEditor = () => {
+    try {
+      return JSON.parse(editor) as Pick<ScoringRuleset, 'thresholds' | 'rules'>;
+    } catch {
+      throw new Error('The rules are not valid JSON');
+    }
+  };
+
+  const describeFailure = (result: any, fallback: string) => {
+    const fieldErrors = result?.details?.fieldErrors as Record<string, string[]> | undefined;
+    const detail = fieldErrors
+      ? Object.entries(fieldErrors).map(([field, messages]) => `${field}: ${messages.join(', ')}`).join('; ')
+      : '';
+    return [result?.error || fallback, detail].filter(Boolean).join(' - ');
+  };
+
+  const saveRules = async () => {
+    if (!ruleset) return;
+    try {
+      setSaving(true);
+      setError(null);
+      setNotice(null);
+
+      const response = await adminApiCall('/api/admin/lead-scoring', {
+        method: 'PUT',
+        body: JSON.stringify({ ...parseEditor(), version: ruleset.version })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(describeFailure(result, 'Save failed'));
+      }
+
+      setRuleset(result.ruleset);
+      setIsDefault(false);
+      setEditor(editorText(result.ruleset));
+      setNotice(`Saved as version ${result.ruleset.version} - new leads are scored with these rules`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runDryRun = async () => {
+    try {
+      setError(null);
+
+      let sample: Record<string, unknown>;
+      try {
+        sample = JSON.parse(payload);
+      } catch {
+        throw new Error('The sample payload is not valid JSON');
+      }
+
+      // Unsaved edits are scored too, so a change can be checked before it goes live
+      const response = await adminPost('/api/admin/lead-scoring/dry-run', {
+        form,
+        payload: sample,
+        attachments,
+        ruleset: { ...parseEditor(), version: ruleset?.version || 0 }
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(describeFailure(result, 'Dry run failed'));
+      }
+
+      setExplanation(result.explanation);
+    } catch (err) {
+      setExplanation(null);
+      setError(err instanceof Error ? err.message : 'Dry run failed');
+    }
+  };
+
+  const changeForm = (value: LeadFormOption) => {
+    setForm(value);
+    setPayload(JSON.stringify(SAMPLE_PAYLOADS[value], null, 2));
+    setExplanation(null);
+  };
+
+  const ratingBadge = (rating: LeadScoreExplanation['rating']) => {
+    if (rating === 'Hot') {
+      return <Badge variant="destructive">{rating}</Badge>;
+    }
+    if (rating === 'Warm') {
+      return <Badge variant="outline" className="border-amber-300 text-amber-700">{rating}</Badge>;
+    }
+    return <Badge variant="secondary">{rating}</Badge>;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Lead Scoring</h2>
+          <p className="text-muted-foreground">
+            Rules that set the CRM rating of quote, contact and consultation leads
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchRules} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Reload
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Rules editor */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Gauge className="h-5 w-5" />
+              Rules
+              {ruleset && <Badge variant="outline">v{ruleset.version}</Badge>}
+              {isDefault && <Badge variant="secondary">defaults</Badge>}
+            </CardTitle>
+            <CardDescription>
+              A rule adds its points when all of its <code>all</code> conditions and at least one of its{' '}
+              <code>any</code> conditions hold. Fields: form, service, budget, timeline, scope, company,
+              utmSource, utmMedium, utmCampaign, attachments, audience. Operators: equals, in, contains,
+              matches, exists, gte, lte
+            </CardDescription>
+            {ruleset?.updatedBy && (
+              <p className="text-xs text-muted-foreground">
+                Last saved by {ruleset.updatedBy}
+                {ruleset.updatedAt && ` on ${new Date(ruleset.updatedAt).toLocaleString()}`}
+              </p>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Textarea
+              value={editor}
+              onChange={(e) => setEditor(e.target.value)}
+              className="font-mono text-xs min-h-[480px]"
+              spellCheck={false}
+              aria-label="Lead scoring rules (JSON)"
+            />
+            <div className="flex items-center gap-2">
+              <Button onClick={saveRules} disabled={saving || !ruleset}>
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? 'Saving...' : 'Save rules'}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => defaults && setEditor(editorText(defaults))}
+                disabled={!defaults}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Load defaults
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Dry run */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FlaskConical className="h-5 w-5" />
+              Dry run
+            </CardTitle>
+            <CardDescription>
+              Score a sample submission with the rules in the editor (saved or not). Payload fields are the
+              form fields, e.g. budget, scope, utm_source and audience
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2">
+              <select
+                value={form}
+                onChange={(e) => changeForm(e.target.value as LeadFormOption)}
+                className="px-3 py-2 border rounded-md"
+              >
+                <option value="quote">Quotation</option>
+                <option value="contact">Contact</option>
+                <option value="consultation">Consultation</option>
+              </select>
+              <label className="flex items-center gap-2 text-sm">
+                Attachments
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={attachments}
+                  onChange={(e) => setAttachments(Math.max(0, parseInt(e.target.value) || 0))}
+                  className="w-20 px-3 py-2 border rounded-md"
+                />
+              </label>
+              <Button variant="outline" onClick={runDryRun} disabled={!ruleset}>
+                Explain score
+              </Button>
+            </div>
+            <Textarea
+              value={payload}
+              onChange={(e) => setPayload(e.target.value)}
+              className="font-mono text-xs min-h-[180px]"
+              spellCheck={false}
+              aria-label="Sample payload (JSON)"
+            />
+
+            {explanation && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-3">
+                  <span className="text-2xl font-bold">{explanation.score}</span>
+                  {ratingBadge(explanation.rating)}
+                  <span className="text-xs text-muted-foreground">
+                    Hot from {explanation.thresholds.hot}, warm from {explanation.thresholds.warm}
+                  </span>
+                </div>
+                <div className="space-y-1">
+                  {explanation.rules.map((rule) => (
+                    <div
+                      key={rule.id}
+                      className={`text-sm rounded px-3 py-2 ${rule.matched ? 'bg-green-50' : 'bg-gray-50'}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">{rule.description || rule.id}</span>
+                        <span className={rule.matched ? 'text-green-700 font-medium' : 'text-muted-foreground'}>
+                          {rule.matched ? `+${rule.points}` : rule.skipped ? `skipped (${rule.skipped})` : '0'}
+                        </span>
+                      </div>
+                      {rule.conditions.map((condition, index) => (
+                        <p key={index} className="text-xs text-muted-foreground font-mono">
+                          {condition.passed ? '✓' : '✗'} {condition.field} {condition.op}
+                          {condition.value !== undefined && ` ${JSON.stringify(condition.value)}`}
+                          {' '}(was {condition.actual === undefined ? 'empty' : JSON.stringify(condition.actual)})
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { adminGet, adminPost } from '@/lib/admin-api';
+import {
+  AlertTriangle,
+  CheckCircle,
+  Clock,
+  Inbox,
+  PlayCircle,
+  RefreshCw
+} from 'lucide-react';
+
+interface OutboxStepView {
+  id: string;
+  kind: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+interface OutboxRecordView {
+  submissionId: string;
+  form: string;
+  status: 'pending' | 'completed' | 'failed' | 'quarantined';
+  createdAt: number;
+  updatedAt: number;
+  summary: Record<string, string | number | boolean | undefined>;
+  quarantine?: { score: number; reasons: string[]; at: number };
+  steps: OutboxStepView[];
+}
+
+interface OutboxCounts {
+  pending: number;
+  failed: number;
+  completed: number;
+  quarantined: number;
+}
+
+type StatusFilter = 'open' | 'pending' | 'failed' | 'completed' | 'quarantined';
+
+export default function OutboxDashboard() {
+  const [records, setRecords] = useState<OutboxRecordView[]>([]);
+  const [counts, setCounts] = useState<OutboxCounts | null>(null);
+  const [filter, setFilter] = useState<StatusFilter>('open');
+  const [loading, setLoading] = useState(false);
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchRecords = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const query = filter === 'open' ? '' : `?status=${filter}`;
+      const response = await adminGet(`/api/admin/outbox${query}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch outbox');
+      }
+
+      const data = await response.json();
+      const list: OutboxRecordView[] = data.records || [];
+      setRecords(filter === 'open' ? list.filter(record => record.status !== 'completed') : list);
+      setCounts(data.counts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  const retryRecord = async (submissionId: string) => {
+    try {
+      setRetrying(submissionId);
+      setNotice(null);
+
+      const response = await adminPost('/api/admin/outbox', { action: 'retry', submissionId });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Retry failed');
+      }
+
+      setNotice(result.message);
+      await fetchRecords();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Retry failed');
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  const processDue = async () => {
+    try {
+      setLoading(true);
+      const response = await adminPost('/api/admin/outbox', { action: 'process' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Processing failed');
+      }
+
+      setNotice(`Processed ${result.processed} submission(s): ${result.completed} completed, ${result.failed} failed`);
+      await fetchRecords();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Processing failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRecords();
+  }, [fetchRecords]);
+
+  const statusBadge = (status: OutboxRecordView['status'] | OutboxStepView['status']) => {
+    if (status === 'completed' || status === 'succeeded') {
+      return <Badge variant="secondary" className="bg-green-100 text-green-800">{status}</Badge>;
+    }
+    if (status === 'failed') {
+      return <Badge variant="destructive">{status}</Badge>;
+    }
+    if (status === 'quarantined') {
+      return <Badge variant="outline" className="border-purple-300 text-purple-700">{status}</Badge>;
+    }
+    return <Badge variant="outline" className="border-amber-300 text-amber-700">{status}</Badge>;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Submission Outbox</h2>
+          <p className="text-muted-foreground">
+            Form submissions whose Zoho CRM, WorkDrive or Campaigns steps are queued or failed
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as StatusFilter)}
+            className="px-3 py-2 border rounded-md"
+          >
+            <option value="open">Pending &amp; failed</option>
+            <option value="pending">Pending</option>
+            <option value="failed">Failed</option>
+            <option value="completed">Completed</option>
+            <option value="quarantined">
+              Quarantined{counts?.quarantined ? ` (${counts.quarantined})` : ''}
+            </option>
+          </select>
+          <Button variant="outline" size="sm" onClick={processDue} disabled={loading}>
+            <PlayCircle className="h-4 w-4 mr-2" />
+            Process Due
+          </Button>
+          <Button variant="outline" size="sm" onClick={fetchRecords} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Counts */}
+      {counts && (
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Pending</CardTitle>
+              <Clock className="h-4 w-4 text-amber-500" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{counts.pending}</div>
+              <p className="text-xs text-muted-foreground">waiting for automatic retry</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Failed</CardTitle>
+              <AlertTriangle className="h-4 w-4 text-destructive" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-destructive">{counts.failed}</div>
+              <p className="text-xs text-muted-foreground">retries exhausted - needs attention</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Completed</CardTitle>
+              <CheckCircle className="h-4 w-4 text-green-500" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{counts.completed}</div>
+              <p className="text-xs text-muted-foreground">delivered to Zoho</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Records */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Inbox className="h-5 w-5" />
+            Submissions
+          </CardTitle>
+          <CardDescription>
+            Use "Retry now" to replay outstanding steps immediately, ignoring the backoff schedule.
+            Quarantined submissions were flagged as likely bots; "Release" sends them on to Zoho
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {records.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Inbox className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No submissions in this view</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {records.map((record) => (
+                <div key={record.submissionId} className="p-4 border rounded-lg space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm">{record.submissionId}</span>
+                        <Badge variant="outline">{record.form}</Badge>
+                        {statusBadge(record.status)}
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {Object.entries(record.summary)
+                          .filter(([, value]) => value !== undefined && value !== '')
+                          .map(([key, value]) => `${key}: ${value}`)
+                          .join(' • ')}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Received {new Date(record.createdAt).toLocaleString()} • Updated {new Date(record.updatedAt).toLocaleString()}
+                      </p>
+                      {record.quarantine && (
+                        <p className="text-xs text-purple-700">
+                          Bot score {record.quarantine.score}: {record.quarantine.reasons.join(', ')}
+                        </p>
+                      )}
+                    </div>
+                    {record.status !== 'completed' && (
+                      <Button
+                        size="sm"
+                        onClick={() => retryRecord(record.submissionId)}
+                        disabled={retrying === record.submissionId}
+                      >
+                        <RefreshCw className={`h-4 w-4 mr-2 ${retrying === record.submissionId ? 'animate-spin' : ''}`} />
+                        {record.status === 'quarantined' ? 'Release' : 'Retry now'}
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="space-y-1">
+                    {record.steps.map((step) => (
+                      <div key={step.id} className="flex items-center justify-between text-sm bg-gray-50 rounded px-3 py-2">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{step.kind}</span>
+                          {statusBadge(step.status)}
+                          <span className="text-xs text-muted-foreground">
+                            {step.attempts}/{step.maxAttempts} attempts
+                          </span>
+                        </div>
+                        <div className="text-xs text-muted-foreground text-right max-w-md truncate">
+                          {step.status === 'pending' && step.attempts > 0 && (
+                            <span>Next retry {new Date(step.nextAttemptAt).toLocaleTimeString()} • </span>
+                          )}
+                          {step.lastError && <span className="text-red-600" title={step.lastError}>{step.lastError}</span>}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import { Calendar, Clock, ChevronRight, Search } from 'lucide-react';
 import { Button } from "@/components/ui/button";
@@ -9,47 +9,77 @@ import Image from 'next/image';
 import Link from 'next/link';
 import BlogFloatingButtons from './BlogFloatingButtons';
 import { provenCardPadding, provenTouchFeedback } from '@/lib/utils/responsive-utilities';
-
-interface BlogPost {
-  slug: string;
-  title: string;
-  excerpt: string;
-  date: string;
-  readTime: string;
-  category: string;
-  image: string;
-  tags: string[];
-  author: string;
-}
+import type { BlogPostPage } from '@/lib/blog/query';
 
 interface BlogClientProps {
-  posts: BlogPost[];
+  /** First page of all posts, rendered on the server */
+  initialPage: BlogPostPage;
   categories: string[];
   externalSearchQuery?: string;
   onSearchChange?: (query: string) => void;
 }
 
-const BlogClient = ({ posts, categories, externalSearchQuery = '', onSearchChange }: BlogClientProps) => {
+const SEARCH_DEBOUNCE_MS = 300;
+
+const BlogClient = ({ initialPage, categories, externalSearchQuery = '', onSearchChange }: BlogClientProps) => {
   const [selectedCategory, setSelectedCategory] = useState('All');
   const [searchQuery, setSearchQuery] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
-  const postsPerPage = 6; // Show 6 posts per page
+  const [result, setResult] = useState<BlogPostPage>(initialPage);
+  const [isLoading, setIsLoading] = useState(false);
+  const postsPerPage = initialPage.pagination.limit;
 
   // Use external search query if provided, otherwise use internal
-  const activeSearchQuery = externalSearchQuery || searchQuery;
+  const activeSearchQuery = (externalSearchQuery || searchQuery).trim();
+  const [debouncedSearch, setDebouncedSearch] = useState(activeSearchQuery);
+  const previousSearch = useRef(activeSearchQuery);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(activeSearchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [activeSearchQuery]);
+
+  // A new search (typed here or in the hero search box) starts again from page 1
+  useEffect(() => {
+    if (previousSearch.current !== debouncedSearch) {
+      previousSearch.current = debouncedSearch;
+      setCurrentPage(1);
+    }
+  }, [debouncedSearch]);
+
+  // Filtering, search and pagination happen in /api/blog/posts
+  useEffect(() => {
+    if (selectedCategory === 'All' && debouncedSearch === '' && currentPage === 1) {
+      setResult(initialPage);
+      return;
+    }
+
+    const params = new URLSearchParams({ page: String(currentPage), limit: String(postsPerPage) });
+    if (selectedCategory !== 'All') params.set('category', selectedCategory);
+    if (debouncedSearch) params.set('search', debouncedSearch.slice(0, 100));
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    fetch(`/api/blog/posts?${params}`, { signal: controller.signal })
+      .then(response => {
+        if (!response.ok) throw new Error(`Failed to load posts (${response.status})`);
+        return response.json();
+      })
+      .then(json => {
+        setResult(json.data as BlogPostPage);
+        setIsLoading(false);
+      })
+      .catch(error => {
+        if (error?.name === 'AbortError') return;
+        console.error('Error loading blog posts:', error);
+        setIsLoading(false);
+      });
 
-  const filteredPosts = posts.filter(post => {
-    const matchesCategory = selectedCategory === 'All' || post.category === selectedCategory;
-    const matchesSearch = post.title.toLowerCase().includes(activeSearchQuery.toLowerCase()) ||
-                         post.excerpt.toLowerCase().includes(activeSearchQuery.toLowerCase());
-    return matchesCategory && matchesSearch;
-  });
+    return () => controller.abort();
+  }, [selectedCategory, debouncedSearch, currentPage, postsPerPage, initialPage]);
 
-  // Pagination calculations
-  const totalPages = Math.ceil(filteredPosts.length / postsPerPage);
-  const startIndex = (currentPage - 1) * postsPerPage;
-  const endIndex = startIndex + postsPerPage;
-  const currentPosts = filteredPosts.slice(startIndex, endIndex);
+  const currentPosts = result.posts;
+  const totalPages = result.pagination.total === 0 ? 0 : result.pagination.totalPages;
 
   // Reset to page 1 when filters change
   const handleCategoryChange = (category: string) => {
@@ -98,7 +128,10 @@ const BlogClient = ({ posts, categories, externalSearchQuery = '', onSearchChang
       {/* Blog Posts Grid */}
       <section className="py-8 sm:py-12 md:py-20 bg-white">
         <div className="container mx-auto px-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+          <div
+            className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 transition-opacity duration-200 ${isLoading ? 'opacity-60' : ''}`}
+            aria-busy={isLoading}
+          >
             {currentPosts.map((post, index) => (
               <motion.div
                 key={post.slug}
@@ -181,7 +214,7 @@ const BlogClient = ({ posts, categories, externalSearchQuery = '', onSearchChang
           </div>
 
           {/* Show message if no posts found */}
-          {filteredPosts.length === 0 && (
+          {!isLoading && result.pagination.total === 0 && (
             <div className="text-center py-16">
               <div className="max-w-md mx-auto">
                 <div className="w-24 h-24 bg-gradient-to-r from-blue-100 to-indigo-100 rounded-full flex items-center justify-center mx-auto mb-6">
@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
 import { UnifiedConsultationCard } from '@/components/shared/UnifiedConsultationCard';
 import { useState } from 'react';
+import { signedFetch } from '@/lib/helpers/sign';
 
 interface BlogFloatingButtonsProps {
   showBackButton?: boolean;
@@ -49,7 +50,7 @@ const BlogFloatingButtons = ({ showBackButton = false }: BlogFloatingButtonsProp
               try {
                 console.log('📝 Submitting quote request from blog:', data);
                 
-                const response = await fetch('/api/quotes', {
+                const response = await signedFetch('/api/quotes', {
                   method: 'POST',
                   headers: {
                     'Content-Type': 'application/json',
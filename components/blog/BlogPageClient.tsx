@@ -7,25 +7,14 @@ import { Input } from "@/components/ui/input";
 import UnifiedHero from '@/components/shared/UnifiedHero';
 import BlogClient from './BlogClient';
 import { provenTouchFeedback } from '@/lib/utils/responsive-utilities';
-
-interface BlogPost {
-  slug: string;
-  title: string;
-  excerpt: string;
-  date: string;
-  readTime: string;
-  category: string;
-  image: string;
-  tags: string[];
-  author: string;
-}
+import type { BlogPostPage } from '@/lib/blog/query';
 
 interface BlogPageClientProps {
-  posts: BlogPost[];
+  initialPage: BlogPostPage;
   categories: string[];
 }
 
-const BlogPageClient = ({ posts, categories }: BlogPageClientProps) => {
+const BlogPageClient = ({ initialPage, categories }: BlogPageClientProps) => {
   const [searchQuery, setSearchQuery] = useState('');
 
   return (
@@ -55,7 +44,7 @@ const BlogPageClient = ({ posts, categories }: BlogPageClientProps) => {
           }
         }}
         metrics={[
-          { icon: BookOpen, text: `${posts.length} Articles` },
+          { icon: BookOpen, text: `${initialPage.pagination.total} Articles` },
           { icon: Clock, text: "Weekly Updates" },
           { icon: Users, text: "Expert Insights" }
         ]}
@@ -86,8 +75,8 @@ const BlogPageClient = ({ posts, categories }: BlogPageClientProps) => {
       </section>
 
       <div id="articles-section">
-        <BlogClient 
-          posts={posts} 
+        <BlogClient
+          initialPage={initialPage}
           categories={categories}
           externalSearchQuery={searchQuery}
           onSearchChange={setSearchQuery}
@@ -0,0 +1,55 @@
+import Link from 'next/link';
+import Image from 'next/image';
+import { Calendar, Clock } from 'lucide-react';
+import type { BlogPost } from '@/lib/blog-data';
+
+interface RelatedPostsProps {
+  posts: BlogPost[];
+}
+
+export default function RelatedPosts({ posts }: RelatedPostsProps) {
+  if (posts.length === 0) return null;
+
+  return (
+    <section className="py-12 sm:py-16 bg-gray-50" aria-labelledby="related-posts-heading">
+      <div className="container mx-auto px-4">
+        <h2 id="related-posts-heading" className="text-2xl sm:text-3xl font-bold text-gray-900 mb-8">
+          Related Articles
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+          {posts.map((post) => (
+            <Link
+              key={post.slug}
+              href={`/blog/${post.slug}`}
+              className="group bg-white rounded-2xl p-4 sm:p-6 shadow-lg border border-gray-100 transition-all duration-300 hover:shadow-2xl hover:border-gray-200 flex flex-col"
+            >
+              <div className="relative h-40 mb-4 rounded-xl overflow-hidden bg-gradient-to-br from-blue-50 to-indigo-50">
+                <Image
+                  src={post.image}
+                  alt={post.title}
+                  fill
+                  className="object-cover group-hover:scale-105 transition-transform duration-300"
+                  sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
+                />
+              </div>
+              <div className="flex items-center gap-4 text-xs text-gray-500 mb-3">
+                <span className="flex items-center">
+                  <Calendar className="w-3 h-3 mr-1" />
+                  {new Date(post.date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+                </span>
+                <span className="flex items-center">
+                  <Clock className="w-3 h-3 mr-1" />
+                  {post.readTime}
+                </span>
+              </div>
+              <h3 className="text-lg font-bold text-gray-900 group-hover:text-blue-600 transition-colors duration-300 mb-2">
+                {post.title}
+              </h3>
+              <p className="text-sm text-gray-600 leading-relaxed">{post.excerpt}</p>
+            </Link>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,27 @@
+import type { MarkdownHeading } from '@/lib/blog/markdown';
+
+interface TableOfContentsProps {
+  headings: MarkdownHeading[];
+}
+
+export default function TableOfContents({ headings }: TableOfContentsProps) {
+  if (headings.length < 2) return null;
+
+  return (
+    <nav aria-label="Table of contents" className="bg-gray-50 border border-gray-100 rounded-2xl p-5">
+      <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-3">On this page</h2>
+      <ol className="space-y-2 text-sm">
+        {headings.map((heading) => (
+          <li key={heading.id} className={heading.level === 3 ? 'pl-4' : ''}>
+            <a
+              href={`#${heading.id}`}
+              className="text-gray-700 hover:text-blue-600 transition-colors duration-200"
+            >
+              {heading.text}
+            </a>
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+}
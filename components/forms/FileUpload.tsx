@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import Image from 'next/image';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -13,14 +13,29 @@ import {
   Image as ImageIcon, 
   AlertCircle,
   CheckCircle2,
-  Loader2
+  Loader2,
+  Pause,
+  Play,
+  RotateCcw
 } from 'lucide-react';
+import { ResumableUpload, type UploadSnapshot } from '@/lib/uploads/client';
+import { ATTACHMENT_ACCEPT } from '@/lib/security/attachment-types';
+
+export interface UploadSummary {
+  /** Server-verified uploads, ready to send with the form as `upload_ids` */
+  uploadIds: string[];
+  /** Files still uploading or paused */
+  inProgress: number;
+  failed: number;
+}
 
 interface FileUploadProps {
   maxFiles?: number;
   maxSizePerFile?: number; // in MB
   acceptedTypes?: string[];
   onFilesChange: (files: File[]) => void;
+  /** When set, files upload in resumable chunks as soon as they are added */
+  onUploadsChange?: (summary: UploadSummary) => void;
   disabled?: boolean;
   className?: string;
 }
@@ -29,26 +44,17 @@ interface FileWithPreview extends File {
   id: string;
   preview?: string;
   uploadProgress?: number;
-  uploadStatus?: 'pending' | 'uploading' | 'success' | 'error';
+  uploadStatus?: 'pending' | 'uploading' | 'paused' | 'success' | 'error';
+  uploadId?: string;
   error?: string;
 }
 
 const FileUpload: React.FC<FileUploadProps> = ({
   maxFiles = 5,
   maxSizePerFile = 100, // 100MB default for CAD files
-  acceptedTypes = [
-    'image/*',
-    'application/pdf',
-    '.dwg',
-    '.dxf',
-    '.step',
-    '.stp',
-    '.iges',
-    '.igs',
-    'application/msword',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
-  ],
+  acceptedTypes = ATTACHMENT_ACCEPT,
   onFilesChange,
+  onUploadsChange,
   disabled = false,
   className = ''
 }) => {
@@ -56,6 +62,42 @@ const FileUpload: React.FC<FileUploadProps> = ({
   const [dragActive, setDragActive] = useState(false);
   const [errors, setErrors] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploaders = useRef(new Map<string, ResumableUpload>());
+
+  // Start or resume the chunked upload of one file; progress lands on the file object
+  const startUpload = useCallback((file: FileWithPreview) => {
+    let uploader = uploaders.current.get(file.id);
+    if (!uploader) {
+      uploader = new ResumableUpload(file, (snapshot: UploadSnapshot) => {
+        file.uploadProgress = snapshot.progress;
+        file.uploadId = snapshot.uploadId;
+        file.error = snapshot.error;
+        file.uploadStatus = snapshot.phase === 'complete' ? 'success' : snapshot.phase;
+        setFiles(prev => [...prev]);
+      });
+      uploaders.current.set(file.id, uploader);
+    }
+    uploader.start();
+  }, []);
+
+  const pauseUpload = (fileId: string) => {
+    uploaders.current.get(fileId)?.pause();
+  };
+
+  useEffect(() => {
+    if (!onUploadsChange) return;
+    onUploadsChange({
+      uploadIds: files.filter(file => file.uploadStatus === 'success' && file.uploadId).map(file => file.uploadId!),
+      inProgress: files.filter(file => file.uploadStatus === 'uploading' || file.uploadStatus === 'paused').length,
+      failed: files.filter(file => file.uploadStatus === 'error').length,
+    });
+  }, [files, onUploadsChange]);
+
+  // Stop running uploads when the form goes away; the server sweeps what is left
+  useEffect(() => {
+    const active = uploaders.current;
+    return () => active.forEach(uploader => uploader.pause());
+  }, []);
 
   // File type icons
   const getFileIcon = (file: File) => {
@@ -151,6 +193,9 @@ const FileUpload: React.FC<FileUploadProps> = ({
       const updatedFiles = [...files, ...newFiles];
       setFiles(updatedFiles);
       onFilesChange(updatedFiles);
+      if (onUploadsChange) {
+        newFiles.forEach(startUpload);
+      }
     }
 
     if (newErrors.length > 0) {
@@ -160,7 +205,7 @@ const FileUpload: React.FC<FileUploadProps> = ({
         setErrors(prev => prev.filter(error => !newErrors.includes(error)));
       }, 5000);
     }
-  }, [files, maxFiles, maxSizePerFile, acceptedTypes, onFilesChange]);
+  }, [files, maxFiles, maxSizePerFile, acceptedTypes, onFilesChange, onUploadsChange, startUpload]);
 
   // Handle drag events
   const handleDrag = useCallback((e: React.DragEvent) => {
@@ -198,6 +243,8 @@ const FileUpload: React.FC<FileUploadProps> = ({
 
   // Remove file
   const removeFile = (fileId: string) => {
+    uploaders.current.get(fileId)?.discard();
+    uploaders.current.delete(fileId);
     const updatedFiles = files.filter(file => file.id !== fileId);
     setFiles(updatedFiles);
     onFilesChange(updatedFiles);
@@ -320,11 +367,11 @@ const FileUpload: React.FC<FileUploadProps> = ({
                     </p>
 
                     {/* Upload Progress */}
-                    {file.uploadStatus === 'uploading' && (
+                    {(file.uploadStatus === 'uploading' || file.uploadStatus === 'paused') && (
                       <div className="mt-2">
                         <Progress value={file.uploadProgress || 0} className="h-1" />
                         <p className="text-xs text-gray-500 mt-1">
-                          Uploading... {file.uploadProgress || 0}%
+                          {file.uploadStatus === 'paused' ? 'Paused' : 'Uploading...'} {file.uploadProgress || 0}%
                         </p>
                       </div>
                     )}
@@ -360,14 +407,42 @@ const FileUpload: React.FC<FileUploadProps> = ({
                     )}
                   </div>
 
+                  {/* Pause / Resume / Retry */}
+                  {file.uploadStatus === 'uploading' && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => pauseUpload(file.id)}
+                      className="flex-shrink-0 h-8 w-8 p-0"
+                      aria-label={`Pause upload of ${file.name}`}
+                    >
+                      <Pause className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {(file.uploadStatus === 'paused' || file.uploadStatus === 'error') && onUploadsChange && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => startUpload(file)}
+                      disabled={disabled}
+                      className="flex-shrink-0 h-8 w-8 p-0"
+                      aria-label={`${file.uploadStatus === 'paused' ? 'Resume' : 'Retry'} upload of ${file.name}`}
+                    >
+                      {file.uploadStatus === 'paused' ? <Play className="h-4 w-4" /> : <RotateCcw className="h-4 w-4" />}
+                    </Button>
+                  )}
+
                   {/* Remove Button */}
                   <Button
                     type="button"
                     variant="ghost"
                     size="sm"
                     onClick={() => removeFile(file.id)}
-                    disabled={disabled || file.uploadStatus === 'uploading'}
+                    disabled={disabled}
                     className="flex-shrink-0 h-8 w-8 p-0"
+                    aria-label={`Remove ${file.name}`}
                   >
                     <X className="h-4 w-4" />
                   </Button>
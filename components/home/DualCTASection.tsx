@@ -9,6 +9,7 @@ import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog'
 import { UnifiedConsultationCard } from '@/components/shared/UnifiedConsultationCard'
 import { useAudience } from '@/lib/contexts/AudienceContext'
 import { useContentEngagement } from './ConditionalContentRenderer'
+import { signedFetch } from '@/lib/helpers/sign'
 
 export default function DualCTASection() {
   const { audienceState } = useAudience()
@@ -29,7 +30,7 @@ export default function DualCTASection() {
 
   const handleQuotationSubmit = async (data: any) => {
     try {
-      const response = await fetch('/api/quotes', {
+      const response = await signedFetch('/api/quotes', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -7,6 +7,7 @@ import Link from 'next/link'
 import { useState } from 'react'
 import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog'
 import { UnifiedConsultationCard } from '@/components/shared/UnifiedConsultationCard'
+import { signedFetch } from '@/lib/helpers/sign'
 
 export default function FinalCTASection() {
   const [showConsultation, setShowConsultation] = useState(false)
@@ -18,7 +19,7 @@ export default function FinalCTASection() {
 
   const handleQuotationSubmit = async (data: any) => {
     try {
-      const response = await fetch('/api/quotes', {
+      const response = await signedFetch('/api/quotes', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data)
@@ -6,6 +6,7 @@ import { Calendar, Rocket, Building2, CheckCircle, ArrowRight } from 'lucide-rea
 import { Button } from "@/components/ui/button"
 import { UnifiedConsultationCard } from "@/components/shared/UnifiedConsultationCard"
 import { FloatingButtons } from "@/components/shared/FloatingButtons"
+import { signedFetch } from "@/lib/helpers/sign"
 import {
   Dialog,
   DialogContent,
@@ -274,7 +275,7 @@ function HeroSection() {
               try {
                 console.log('📝 Submitting quote request from homepage:', data);
                 
-                const response = await fetch('/api/quotes', {
+                const response = await signedFetch('/api/quotes', {
                   method: 'POST',
                   headers: {
                     'Content-Type': 'application/json',
@@ -9,8 +9,10 @@ import { ArrowRight, Mail, Phone, Send, Clock } from 'lucide-react'
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Checkbox } from "@/components/ui/checkbox"
-import { getTracking } from "@/lib/tracking"
-import { sign } from "@/lib/helpers/sign";
+import { clearSubmissionId, getTracking } from "@/lib/tracking"
+import { useFormGuard } from "@/hooks/useFormGuard"
+import { signedFetch } from "@/lib/helpers/sign";
+import { NEWSLETTER_CONSENT_TEXT, NEWSLETTER_CONSENT_VERSION } from "@/lib/newsletter/consent";
 
 import { CONTACT_INFO, SOCIAL_LINKS } from '@/lib/constants'
 
@@ -19,6 +21,7 @@ const Footer = () => {
   const [email, setEmail] = useState('');
   const [consent, setConsent] = useState(false);
   const [subscribeStatus, setSubscribeStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
+  const { guardFields, honeypotProps, refresh: refreshGuard } = useFormGuard('newsletter');
 
   const handleSubscribe = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -38,30 +41,27 @@ const Footer = () => {
       const body = { 
         name: name.trim() || undefined, // Optional name
         email,
-        ...tracking
+        newsletter_consent_version: NEWSLETTER_CONSENT_VERSION,
+        ...tracking,
+        ...guardFields()
       };
       
-      const bodyString = JSON.stringify(body);
-      
-      // Generate HMAC signature
-      const secret = process.env.NEXT_PUBLIC_HMAC_SECRET || 'fallback-secret';
-      const signature = await sign(bodyString, secret);
-      
-      const response = await fetch('/api/newsletter', {
+      const response = await signedFetch('/api/newsletter', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-signature': signature,
         },
-        body: bodyString,
+        body: JSON.stringify(body),
       });
 
       if (!response.ok) throw new Error('Failed to subscribe');
       
       setSubscribeStatus('success');
+      clearSubmissionId();
       setName('');
       setEmail('');
       setConsent(false);
+      refreshGuard();
     } catch {
       // Error handling without unused variable
       setSubscribeStatus('error');
@@ -395,15 +395,14 @@ const Footer = () => {
                   className="mt-0.5"
                 />
                 <label className="text-xs text-gray-600 leading-relaxed">
-                  I agree to the{' '}
+                  {NEWSLETTER_CONSENT_TEXT} See our{' '}
                   <Link 
                     href="/privacy" 
                     className="text-blue-600 hover:text-blue-700 underline"
                     target="_blank"
                   >
                     Privacy Policy
-                  </Link>{' '}
-                  and consent to receiving newsletter updates. *
+                  </Link>. *
                 </label>
               </motion.div>
               
@@ -415,7 +414,7 @@ const Footer = () => {
                     exit={{ opacity: 0, y: -10 }}
                     className="text-green-600 text-xs font-medium"
                   >
-                    ✅ Thank you for subscribing!
+                    ✅ Almost done - please check your inbox and confirm your subscription.
                   </motion.p>
                 )}
                 {subscribeStatus === 'error' && (
@@ -425,10 +424,11 @@ const Footer = () => {
                     exit={{ opacity: 0, y: -10 }}
                     className="text-red-600 text-xs font-medium"
                   >
-                    ❌ {!consent ? 'Please agree to the privacy policy.' : 'Failed to subscribe. Please try again.'}
+                    ❌ {!consent ? 'Please tick the consent box to subscribe.' : 'Failed to subscribe. Please try again.'}
                   </motion.p>
                 )}
               </AnimatePresence>
+              <input {...honeypotProps} />
             </form>
 
 
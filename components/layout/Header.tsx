@@ -6,13 +6,15 @@ import { usePathname } from 'next/navigation';
 import { useState, useEffect } from 'react';
 import { useSession, signOut } from 'next-auth/react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Menu, X, ChevronDown, LogOut, User } from 'lucide-react';
+import { Menu, X, ChevronDown, LogOut, User, Search } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
 import { UnifiedConsultationCard } from '@/components/shared/UnifiedConsultationCard';
 import OptimizedMobileMenu from './OptimizedMobileMenu';
+import SiteSearch from './SiteSearch';
 import { useMobileMenu } from '@/hooks/useMobileMenu';
 import { throttle } from 'lodash';
+import { signedFetch } from '@/lib/helpers/sign';
 
 const menuItems = [
   { title: 'Home', href: '/' },
@@ -73,6 +75,7 @@ const Header = () => {
   const [isScrolled, setIsScrolled] = useState(false);
   const [isLoaded, setIsLoaded] = useState(false);
   const [showQuotation, setShowQuotation] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [forceShowMenu, setForceShowMenu] = useState<string | null>(null);
   const pathname = usePathname();
@@ -397,6 +400,21 @@ const Header = () => {
 
             {/* Client Portal temporarily removed - to be implemented later */}
 
+            {/* Site Search */}
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => setShowSearch(true)}
+              className="flex items-center gap-2 py-2 px-3 text-white/90 hover:text-yellow-400
+                border border-white/20 rounded-lg hover:bg-white/10 transition-colors duration-200
+                focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-yellow-400/50"
+              aria-label="Search the site"
+              aria-keyshortcuts="Control+K Meta+K"
+            >
+              <Search className="w-4 h-4" />
+              <kbd className="text-xs font-sans text-white/60">⌘K</kbd>
+            </motion.button>
+
             {/* Get Quote Button */}
             <motion.div 
               whileHover={{ scale: 1.05, y: -2 }}
@@ -426,16 +444,27 @@ const Header = () => {
 
           </motion.div>
 
-          {/* Mobile Menu Button */}
-          <motion.button
-            whileTap={{ scale: 0.95 }}
-            onClick={openMenu}
-            className="lg:hidden text-white p-2 hover:bg-white/10 rounded-lg
-              transition-colors duration-200"
-            aria-label="Open menu"
-          >
-            <Menu className="w-6 h-6" />
-          </motion.button>
+          {/* Mobile Search and Menu Buttons */}
+          <div className="lg:hidden flex items-center">
+            <motion.button
+              whileTap={{ scale: 0.95 }}
+              onClick={() => setShowSearch(true)}
+              className="text-white p-2 hover:bg-white/10 rounded-lg
+                transition-colors duration-200"
+              aria-label="Search the site"
+            >
+              <Search className="w-6 h-6" />
+            </motion.button>
+            <motion.button
+              whileTap={{ scale: 0.95 }}
+              onClick={openMenu}
+              className="text-white p-2 hover:bg-white/10 rounded-lg
+                transition-colors duration-200"
+              aria-label="Open menu"
+            >
+              <Menu className="w-6 h-6" />
+            </motion.button>
+          </div>
         </div>
       </div>
 
@@ -447,6 +476,9 @@ const Header = () => {
         pathname={pathname}
       />
 
+      {/* Site Search Dialog */}
+      <SiteSearch open={showSearch} onOpenChange={setShowSearch} />
+
       {/* Quotation Dialog */}
       <Dialog open={showQuotation} onOpenChange={setShowQuotation}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -457,7 +489,7 @@ const Header = () => {
               try {
                 console.log('📝 Submitting quote request from header:', data);
                 
-                const response = await fetch('/api/quotes', {
+                const response = await signedFetch('/api/quotes', {
                   method: 'POST',
                   headers: {
                     'Content-Type': 'application/json',
@@ -0,0 +1,235 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Search, Loader2, Wrench, FileText, HelpCircle, Lightbulb, CornerDownLeft } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import type { SearchDocumentType, SearchResponse, SearchResult } from '@/lib/search/types';
+
+interface SiteSearchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 200;
+const RESULT_LIMIT = 12;
+
+const GROUPS: Array<{ type: SearchDocumentType; label: string; icon: typeof Search }> = [
+  { type: 'service', label: 'Services', icon: Wrench },
+  { type: 'solution', label: 'Solutions', icon: Lightbulb },
+  { type: 'blog', label: 'Blog', icon: FileText },
+  { type: 'faq', label: 'FAQ', icon: HelpCircle },
+];
+
+/**
+ * Command-palette search over services, blog posts, FAQ entries and solutions pages.
+ * Opened from the header or with Cmd/Ctrl+K; arrow keys move through results, Enter opens one
+ */
+const SiteSearch = ({ open, onOpenChange }: SiteSearchProps) => {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Cmd/Ctrl+K toggles the palette from anywhere on the page
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    if (!open) {
+      setQuery('');
+      setDebouncedQuery('');
+      setResponse(null);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim() ? query : ''), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    if (!debouncedQuery) {
+      setResponse(null);
+      setIsLoading(false);
+      return;
+    }
+
+    const params = new URLSearchParams({ q: debouncedQuery.slice(0, 100), limit: String(RESULT_LIMIT) });
+    const controller = new AbortController();
+    setIsLoading(true);
+    fetch(`/api/search?${params}`, { signal: controller.signal })
+      .then(result => {
+        if (!result.ok) throw new Error(`Search failed (${result.status})`);
+        return result.json();
+      })
+      .then(json => {
+        setResponse(json.data as SearchResponse);
+        setActiveIndex(0);
+        setIsLoading(false);
+      })
+      .catch(error => {
+        if (error?.name === 'AbortError') return;
+        console.error('Site search error:', error);
+        setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [debouncedQuery]);
+
+  // Results in display order, so arrow keys follow the groups on screen
+  const groups = useMemo(() => GROUPS
+    .map(group => ({ ...group, results: (response?.results || []).filter(result => result.type === group.type) }))
+    .filter(group => group.results.length > 0), [response]);
+  const ordered = useMemo(() => groups.flatMap(group => group.results), [groups]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const openResult = (result: SearchResult) => {
+    onOpenChange(false);
+    const [pathname, hash] = result.url.split('#');
+    // The router doesn't fire hashchange, which the FAQ listens for to open the linked answer
+    if (hash && pathname === window.location.pathname) {
+      window.location.hash = hash;
+    } else {
+      router.push(result.url);
+    }
+  };
+
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (ordered.length === 0) return;
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex(index => (index + 1) % ordered.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(index => (index - 1 + ordered.length) % ordered.length);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      openResult(ordered[activeIndex] || ordered[0]);
+    }
+  };
+
+  const corrections = Object.entries(response?.corrections || {});
+  const optionId = (index: number) => `site-search-option-${index}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl p-0 gap-0 overflow-hidden top-[15%] translate-y-0">
+        <DialogTitle className="sr-only">Search the site</DialogTitle>
+        <DialogDescription className="sr-only">
+          Search services, blog posts, FAQ and solutions. Use the arrow keys to move through results and Enter to open one.
+        </DialogDescription>
+
+        <div className="flex items-center border-b px-4">
+          <Search className="w-5 h-5 text-gray-400 flex-shrink-0" aria-hidden="true" />
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            onKeyDown={handleInputKeyDown}
+            placeholder="Search services, articles, FAQ..."
+            maxLength={100}
+            className="flex-1 h-14 px-3 bg-transparent text-base outline-none placeholder:text-gray-400"
+            role="combobox"
+            aria-expanded={ordered.length > 0}
+            aria-controls="site-search-results"
+            aria-activedescendant={ordered.length > 0 ? optionId(activeIndex) : undefined}
+            aria-autocomplete="list"
+          />
+          {isLoading && <Loader2 className="w-4 h-4 text-gray-400 animate-spin mr-8" aria-hidden="true" />}
+        </div>
+
+        <div
+          ref={listRef}
+          id="site-search-results"
+          role="listbox"
+          aria-label="Search results"
+          aria-busy={isLoading}
+          className="max-h-[60vh] overflow-y-auto"
+        >
+          {response && corrections.length > 0 && (
+            <p className="px-4 pt-3 text-sm text-gray-500">
+              Showing results for{' '}
+              {corrections.map(([, corrected], index) => (
+                <span key={corrected}>
+                  {index > 0 && ', '}
+                  <span className="font-semibold text-gray-700">{corrected}</span>
+                </span>
+              ))}
+            </p>
+          )}
+          {response?.partial && (
+            <p className="px-4 pt-3 text-sm text-gray-500">No page matches every word; showing closest matches.</p>
+          )}
+
+          {response && ordered.length === 0 && !isLoading && (
+            <p className="px-4 py-10 text-center text-sm text-gray-500">
+              No results for &ldquo;{response.query}&rdquo;
+            </p>
+          )}
+
+          {groups.map(group => (
+            <div key={group.type} role="group" aria-label={group.label} className="py-2">
+              <div className="px-4 py-1 text-xs font-semibold uppercase tracking-wider text-gray-500">
+                {group.label}
+              </div>
+              {group.results.map(result => {
+                const index = ordered.indexOf(result);
+                const isActive = index === activeIndex;
+                const Icon = group.icon;
+                return (
+                  <div
+                    key={result.id}
+                    id={optionId(index)}
+                    data-index={index}
+                    role="option"
+                    aria-selected={isActive}
+                    onMouseMove={() => setActiveIndex(index)}
+                    onClick={() => openResult(result)}
+                    className={`flex items-start gap-3 px-4 py-3 cursor-pointer transition-colors ${
+                      isActive ? 'bg-primary/10' : ''
+                    }`}
+                  >
+                    <Icon className={`w-4 h-4 mt-1 flex-shrink-0 ${isActive ? 'text-primary' : 'text-gray-400'}`} aria-hidden="true" />
+                    <div className="flex-1 min-w-0">
+                      <div className={`font-medium truncate ${isActive ? 'text-primary' : 'text-gray-900'}`}>
+                        {result.title}
+                      </div>
+                      <div className="text-sm text-gray-500 line-clamp-2">{result.description}</div>
+                    </div>
+                    {isActive && <CornerDownLeft className="w-4 h-4 mt-1 text-gray-400 flex-shrink-0" aria-hidden="true" />}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between border-t px-4 py-2 text-xs text-gray-400">
+          <span>↑↓ to navigate · Enter to open · Esc to close</span>
+          {response && response.total > 0 && <span>{response.total} results</span>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SiteSearch;
@@ -0,0 +1,311 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Calculator, CheckCircle2, Loader2, Upload, AlertCircle, ArrowRight } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ResumableUpload, type UploadSnapshot } from '@/lib/uploads/client'
+import type { PrintEstimate, PrintEstimateWarning } from '@/lib/pricing/types'
+
+/** What the quotation form receives when a visitor asks for a quote with their estimate */
+export interface EstimateAttachment {
+  token: string
+  uploadId: string
+  filename: string
+  estimate: PrintEstimate
+}
+
+interface EstimatorOptions {
+  currency: string
+  maxQuantity: number
+  processes: Array<{ id: string; name: string; description: string; supportsInfill: boolean; buildVolumeMm: number[] }>
+  materials: Array<{ id: string; name: string; processes: string[] }>
+}
+
+interface PrintPriceEstimatorProps {
+  onRequestQuote?: (attachment: EstimateAttachment) => void
+}
+
+const MAX_FILE_MB = 100
+
+const WARNING_TEXT: Record<PrintEstimateWarning, string> = {
+  exceeds_build_volume: 'The part is larger than the build volume for this process and may need to be split.',
+  open_mesh: 'The mesh is not closed, so the volume (and price) is approximate.',
+  units_suspect: 'The model size looks unusual - STL files are read as millimetres.',
+  minimum_order_applied: 'The minimum order value applies.',
+}
+
+function formatPrice(value: number, currency: string) {
+  return new Intl.NumberFormat('de-DE', { style: 'currency', currency, maximumFractionDigits: 0 }).format(value)
+}
+
+export default function PrintPriceEstimator({ onRequestQuote }: PrintPriceEstimatorProps) {
+  const [options, setOptions] = useState<EstimatorOptions | null>(null)
+  const [file, setFile] = useState<File | null>(null)
+  const [upload, setUpload] = useState<UploadSnapshot | null>(null)
+  const [uploadId, setUploadId] = useState<string | null>(null)
+  const [processId, setProcessId] = useState('fdm')
+  const [materialId, setMaterialId] = useState('pla')
+  const [infill, setInfill] = useState(20)
+  const [quantity, setQuantity] = useState(1)
+  const [result, setResult] = useState<{ estimate: PrintEstimate; token: string } | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const uploaderRef = useRef<ResumableUpload | null>(null)
+
+  useEffect(() => {
+    fetch('/api/estimates/3d-printing')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => data && setOptions(data))
+      .catch(() => setError('The estimator is unavailable right now'))
+  }, [])
+
+  useEffect(() => () => uploaderRef.current?.pause(), [])
+
+  const process = options?.processes.find(item => item.id === processId)
+  const materials = useMemo(
+    () => options?.materials.filter(item => item.processes.includes(processId)) || [],
+    [options, processId]
+  )
+
+  // Keep the material valid for the selected process
+  useEffect(() => {
+    if (materials.length > 0 && !materials.some(item => item.id === materialId)) {
+      setMaterialId(materials[0].id)
+    }
+  }, [materials, materialId])
+
+  // Re-price whenever the file or an option changes (debounced while typing)
+  useEffect(() => {
+    if (!uploadId || !materials.some(item => item.id === materialId)) return
+
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await fetch('/api/estimates/3d-printing', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ uploadId, process: processId, material: materialId, infill, quantity }),
+          signal: controller.signal,
+        })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data?.error || 'Could not calculate an estimate')
+        setResult(data)
+      } catch (err: any) {
+        if (err?.name !== 'AbortError') {
+          setResult(null)
+          setError(err?.message || 'Could not calculate an estimate')
+        }
+      } finally {
+        if (!controller.signal.aborted) setLoading(false)
+      }
+    }, 400)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [uploadId, processId, materialId, infill, quantity, materials])
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return
+    if (!/\.stl$/i.test(selected.name)) {
+      setError('Please choose an STL file')
+      return
+    }
+    if (selected.size > MAX_FILE_MB * 1024 * 1024) {
+      setError(`Files up to ${MAX_FILE_MB}MB can be estimated`)
+      return
+    }
+
+    uploaderRef.current?.pause()
+    setFile(selected)
+    setUploadId(null)
+    setResult(null)
+    setError(null)
+
+    const uploader = new ResumableUpload(selected, setUpload)
+    uploaderRef.current = uploader
+    const id = await uploader.start()
+    if (uploaderRef.current === uploader && id) {
+      setUploadId(id)
+    }
+  }
+
+  const currency = options?.currency || 'EUR'
+  const estimate = result?.estimate
+
+  return (
+    <Card className="border-blue-100 shadow-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-primary">
+          <Calculator className="w-5 h-5" />
+          Instant Price Estimate
+        </CardTitle>
+        <CardDescription>
+          Upload an STL to get an indicative price range in seconds. The final quotation follows after our engineers review the part.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="estimate-file">STL file</Label>
+          <label
+            htmlFor="estimate-file"
+            className="flex items-center gap-3 rounded-lg border-2 border-dashed border-gray-300 p-4 cursor-pointer hover:border-blue-400 transition-colors"
+          >
+            <Upload className="w-5 h-5 text-gray-500" />
+            <span className="text-sm text-gray-700 truncate">
+              {file ? file.name : `Choose an .stl file (up to ${MAX_FILE_MB}MB)`}
+            </span>
+          </label>
+          <input
+            id="estimate-file"
+            type="file"
+            accept=".stl"
+            className="sr-only"
+            onChange={event => handleFile(event.target.files?.[0])}
+          />
+          {upload && upload.phase === 'uploading' && (
+            <Progress value={upload.progress} className="h-2" aria-label="Upload progress" />
+          )}
+          {upload?.phase === 'error' && (
+            <p className="text-xs text-red-600">{upload.error}</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Process</Label>
+            <Select value={processId} onValueChange={setProcessId} disabled={!options}>
+              <SelectTrigger><SelectValue placeholder="Process" /></SelectTrigger>
+              <SelectContent>
+                {options?.processes.map(item => (
+                  <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {process && <p className="text-xs text-gray-500">{process.description}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Material</Label>
+            <Select value={materialId} onValueChange={setMaterialId} disabled={!options}>
+              <SelectTrigger><SelectValue placeholder="Material" /></SelectTrigger>
+              <SelectContent>
+                {materials.map(item => (
+                  <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="estimate-infill">Infill (%)</Label>
+            <Input
+              id="estimate-infill"
+              type="number"
+              min={0}
+              max={100}
+              step={5}
+              value={process?.supportsInfill === false ? 100 : infill}
+              disabled={process?.supportsInfill === false}
+              onChange={event => setInfill(Math.min(100, Math.max(0, parseInt(event.target.value) || 0)))}
+            />
+            {process?.supportsInfill === false && (
+              <p className="text-xs text-gray-500">{process.name} parts print solid.</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="estimate-quantity">Quantity</Label>
+            <Input
+              id="estimate-quantity"
+              type="number"
+              min={1}
+              max={options?.maxQuantity || 1000}
+              value={quantity}
+              onChange={event => setQuantity(Math.min(options?.maxQuantity || 1000, Math.max(1, parseInt(event.target.value) || 1)))}
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-start gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {loading && !estimate && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Analysing your model...
+          </div>
+        )}
+
+        {estimate && (
+          <div className="rounded-xl bg-blue-50 p-4 space-y-3" aria-live="polite">
+            <div className="flex items-baseline justify-between gap-4">
+              <span className="text-sm text-gray-700">Indicative price ({estimate.quantity} pcs)</span>
+              <span className="text-2xl font-bold text-primary">
+                {formatPrice(estimate.priceRange.min, currency)} - {formatPrice(estimate.priceRange.max, currency)}
+              </span>
+            </div>
+            <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+              <div>
+                <dt className="text-gray-500">Size</dt>
+                <dd className="font-medium">{estimate.geometry.size.map(value => Math.round(value)).join(' x ')} mm</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Volume</dt>
+                <dd className="font-medium">{(estimate.geometry.volume / 1000).toFixed(1)} cm³</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Weight</dt>
+                <dd className="font-medium">{estimate.weightGrams} g</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Build time</dt>
+                <dd className="font-medium">{estimate.buildHours} h / part</dd>
+              </div>
+            </dl>
+            {estimate.warnings.length > 0 && (
+              <ul className="space-y-1 text-xs text-amber-700">
+                {estimate.warnings.map(warning => (
+                  <li key={warning} className="flex items-start gap-1">
+                    <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    {WARNING_TEXT[warning]}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {onRequestQuote && result && uploadId && file && (
+              <Button
+                type="button"
+                className="w-full"
+                disabled={loading}
+                onClick={() => onRequestQuote({ token: result.token, uploadId, filename: file.name, estimate })}
+              >
+                <CheckCircle2 className="w-4 h-4 mr-2" />
+                Request a quotation with this estimate
+                <ArrowRight className="w-4 h-4 ml-2" />
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -29,6 +29,8 @@ import {
 import { UnifiedConsultationCard } from '@/components/shared/UnifiedConsultationCard'
 import { useRouter } from 'next/navigation'
 import type { Service } from '@/library/types'
+import { signedFetch } from '@/lib/helpers/sign'
+import PrintPriceEstimator, { type EstimateAttachment } from '@/components/services/PrintPriceEstimator'
 
 // Icon mapping helper
 const iconMap: Record<string, any> = {
@@ -77,6 +79,7 @@ export default function UnifiedServicePage({
   const [showQuotation, setShowQuotation] = useState(false)
   const [currentStep, setCurrentStep] = useState(0)
   const [processView, setProcessView] = useState<'interactive' | 'full'>('interactive')
+  const [estimate, setEstimate] = useState<EstimateAttachment | undefined>()
   const ServiceIcon = typeof service.icon === 'string' ? iconMap[service.icon] || Boxes : service.icon
   
 
@@ -606,6 +609,18 @@ export default function UnifiedServicePage({
 
 
 
+        {/* Instant Price Estimate (3D printing only) */}
+        {service.slug === '3d-printing' && (
+          <section id="estimate" className="my-12">
+            <PrintPriceEstimator
+              onRequestQuote={(attachment) => {
+                setEstimate(attachment)
+                setShowQuotation(true)
+              }}
+            />
+          </section>
+        )}
+
         {/* Professional Experience Section */}
         <section className="py-8 sm:py-12 bg-gradient-to-br from-[#1E40AF] via-blue-800 to-[#1E40AF] rounded-2xl my-12 relative overflow-hidden">
           {/* Background Effects */}
@@ -908,17 +923,24 @@ export default function UnifiedServicePage({
       </div>
 
       {/* Quotation Dialog */}
-      <Dialog open={showQuotation} onOpenChange={setShowQuotation}>
+      <Dialog
+        open={showQuotation}
+        onOpenChange={(open) => {
+          setShowQuotation(open)
+          if (!open) setEstimate(undefined)
+        }}
+      >
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogTitle className="sr-only">Request a Quotation</DialogTitle>
           <UnifiedConsultationCard
             type="quotation"
             defaultService={service.title}
+            estimate={estimate}
             onSubmit={async (data) => {
               try {
                 console.log('📝 Submitting quote request from service page:', data)
                 
-                const response = await fetch('/api/quotes', {
+                const response = await signedFetch('/api/quotes', {
                   method: 'POST',
                   headers: {
                     'Content-Type': 'application/json',
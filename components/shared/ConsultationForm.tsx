@@ -40,6 +40,9 @@ import {
   SCOPE,
 } from "@/lib/validations/forms"
 import { getTracking } from "@/lib/tracking"
+import { useFormGuard } from "@/hooks/useFormGuard"
+import { signedFetch } from "@/lib/helpers/sign"
+import { NEWSLETTER_CONSENT_TEXT, NEWSLETTER_CONSENT_VERSION } from "@/lib/newsletter/consent"
 
 // ---- helpers ----
 const fallbackTimeSlots = [
@@ -68,6 +71,7 @@ function ConsultationForm({ onSubmit, onSuccess, defaultService }: ConsultationF
 
   // Get UTM tracking data on component load
   const tracking = React.useMemo(() => getTracking('Consultation Booking'), [])
+  const { guardFields, honeypotProps, refresh: refreshGuard } = useFormGuard('consultation')
 
   // Map default service from env/route if provided
   const mappedService = defaultService && (SERVICE_OPTIONS as readonly any[])?.some((s: any) => (typeof s === 'string' ? s : (s.value || s.label)) === defaultService)
@@ -192,17 +196,24 @@ function ConsultationForm({ onSubmit, onSuccess, defaultService }: ConsultationF
         }
       })
       
-      // Add tracking data
+      // Add tracking data (the form's own submission_id, rotated on reset, is the idempotency key)
       Object.entries(tracking).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
+        if (key !== 'submission_id' && value !== undefined && value !== null) {
           formData.append(key, value.toString())
         }
       })
       
+      // Bot guard token and honeypot
+      Object.entries(guardFields()).forEach(([key, value]) => formData.append(key, value))
+      
+      if (data.newsletter_opt_in) {
+        formData.append('newsletter_consent_version', NEWSLETTER_CONSENT_VERSION)
+      }
+      
       // No files for consultation - keeping it simple for lead + booking focus
       
       console.log('Sending POST to /api/consultation...')
-      const response = await fetch('/api/consultation', {
+      const response = await signedFetch('/api/consultation', {
         method: 'POST',
         body: formData,
       })
@@ -231,6 +242,7 @@ function ConsultationForm({ onSubmit, onSuccess, defaultService }: ConsultationF
         utm_term: tracking.utm_term || "",
         utm_content: tracking.utm_content || "",
       })
+      refreshGuard()
 
     } catch (err) {
       console.error('Consultation submission error:', err)
@@ -485,9 +497,8 @@ function ConsultationForm({ onSubmit, onSuccess, defaultService }: ConsultationF
               </FormControl>
               <div className="space-y-1 leading-tight">
                 <FormLabel className="text-sm font-medium text-gray-700">
-                  Yes, I would like to receive technical insights, industry updates, and service announcements
+                  {NEWSLETTER_CONSENT_TEXT}
                 </FormLabel>
-                <p className="text-xs text-muted-foreground">You can unsubscribe at any time. We respect your privacy.</p>
               </div>
             </FormItem>
           )} />
@@ -547,6 +558,7 @@ function ConsultationForm({ onSubmit, onSuccess, defaultService }: ConsultationF
         </Button>
 
         <p id="form-help" className="sr-only">All fields are validated. Times shown in your Zoho Bookings timezone. Files uploaded will be processed securely.</p>
+        <input {...honeypotProps} />
       </form>
     </Form>
   )
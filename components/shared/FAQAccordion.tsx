@@ -1,12 +1,14 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Plus, Minus } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 
 interface FAQItem {
+  /** Rendered as the item's anchor; linking to it opens the answer */
+  id?: string;
   question: string;
   answer: string;
   category?: string;
@@ -32,6 +34,20 @@ const FAQAccordion = ({
     );
   };
 
+  // Open the question a link such as /faq#file-formats points at
+  useEffect(() => {
+    const openLinked = () => {
+      const id = decodeURIComponent(window.location.hash.slice(1));
+      const index = items.findIndex((item) => item.id && item.id === id);
+      if (index === -1) return;
+      setActiveCategory(null);
+      setOpenItems((current) => (current.includes(index) ? current : [...current, index]));
+    };
+    openLinked();
+    window.addEventListener("hashchange", openLinked);
+    return () => window.removeEventListener("hashchange", openLinked);
+  }, [items]);
+
   const categories = categorized
     ? Array.from(new Set(items.map((item) => item.category)))
     : [];
@@ -65,7 +81,9 @@ const FAQAccordion = ({
       <div className="space-y-4">
         {filteredItems.map((item, index) => (
           <motion.div
-            key={index}
+            key={item.id || index}
+            id={item.id}
+            className="scroll-mt-28"
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: index * 0.1 }}
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button"
 import { Calendar, FileText } from "lucide-react"
 // import { X } from "lucide-react" // Unused
 import { UnifiedConsultationCard } from "./UnifiedConsultationCard"
+import { signedFetch } from "@/lib/helpers/sign"
 import {
   Dialog,
   DialogContent,
@@ -80,7 +81,7 @@ export function FloatingButtons() {
               try {
                 console.log('📝 Submitting quote request from mobile:', data);
                 
-                const response = await fetch('/api/quotes', {
+                const response = await signedFetch('/api/quotes', {
                   method: 'POST',
                   headers: {
                     'Content-Type': 'application/json',
@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { CONTACT_INFO } from '@/lib/constants'
+import { signedFetch } from '@/lib/helpers/sign'
 
 const FloatingContactHub = () => {
   const [isExpanded, setIsExpanded] = useState(false)
@@ -35,12 +36,12 @@ const FloatingContactHub = () => {
       const isQuoteRequest = formData.service && formData.service !== 'General Inquiry'
       
       // Use tracking data for proper form submission
-      const { getTracking } = await import('@/lib/tracking')
+      const { clearSubmissionId, getTracking } = await import('@/lib/tracking')
       const tracking = getTracking(isQuoteRequest ? 'Quotation Request' : 'Contact Form')
       
       const apiEndpoint = '/api/contact'
       
-      const response = await fetch(apiEndpoint, {
+      const response = await signedFetch(apiEndpoint, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -58,6 +59,7 @@ const FloatingContactHub = () => {
       if (!response.ok) throw new Error('Failed to send message')
 
       setSubmitStatus('success')
+      clearSubmissionId()
       setFormData({ name: '', email: '', message: '', service: '', phone: '' })
       setTimeout(() => {
         setShowContactForm(false)
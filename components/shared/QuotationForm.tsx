@@ -24,9 +24,14 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { Checkbox } from "@/components/ui/checkbox"
-import { FileUpload } from "@/components/ui/file-upload"
+import FileUpload, { type UploadSummary } from "@/components/forms/FileUpload"
+import { ATTACHMENT_ACCEPT } from "@/lib/security/attachment-types"
+import { NEWSLETTER_CONSENT_TEXT, NEWSLETTER_CONSENT_VERSION } from "@/lib/newsletter/consent"
 import { QuoteSchema, type QuoteValues, SERVICE_OPTIONS, BUDGET, TIMELINE, SCOPE } from "@/lib/validations/forms"
 import { getTracking } from "@/lib/tracking"
+import { useFormGuard } from "@/hooks/useFormGuard"
+import { signedFetch } from "@/lib/helpers/sign"
+import type { EstimateAttachment } from "@/components/services/PrintPriceEstimator"
 
 // Generate unique submission ID
 function generateSubmissionId(): string {
@@ -35,16 +40,25 @@ function generateSubmissionId(): string {
 
 interface QuotationFormProps {
   defaultService?: string
+  /** Instant estimate from the 3D printing page; its STL is attached with the quotation */
+  estimate?: EstimateAttachment
 }
 
-export function QuotationForm({ defaultService }: QuotationFormProps) {
+export function QuotationForm({ defaultService, estimate }: QuotationFormProps) {
   const [files, setFiles] = React.useState<File[]>([])
+  const [uploads, setUploads] = React.useState<UploadSummary>({ uploadIds: [], inProgress: 0, failed: 0 })
+  const [uploadKey, setUploadKey] = React.useState(0)
   const [isSubmitting, setIsSubmitting] = React.useState(false)
   const [submitStatus, setSubmitStatus] = React.useState<'idle' | 'success' | 'error'>('idle')
   const [descriptionLength, setDescriptionLength] = React.useState(0)
+  // Dropped after a successful submission: its upload now belongs to that quotation
+  const [attachedEstimate, setAttachedEstimate] = React.useState(estimate)
+
+  React.useEffect(() => setAttachedEstimate(estimate), [estimate])
 
   // Get UTM tracking data on component load
   const tracking = React.useMemo(() => getTracking('Quotation Request'), [])
+  const { guardFields, honeypotProps, refresh: refreshGuard } = useFormGuard('quote')
 
   // Map custom service strings to valid SERVICE_OPTIONS or undefined
   const mappedService = defaultService && SERVICE_OPTIONS.includes(defaultService as any) 
@@ -86,8 +100,11 @@ export function QuotationForm({ defaultService }: QuotationFormProps) {
   const timelineOpts = norm(TIMELINE as readonly any[])
   const scopeOpts = norm(SCOPE as readonly any[])
 
+  // Every selected file has to finish its chunked upload before the form can go out
+  const uploadsPending = uploads.inProgress > 0 || uploads.failed > 0 || uploads.uploadIds.length < files.length
+
   const handleSubmit = async (data: QuoteValues) => {
-    if (isSubmitting) return
+    if (isSubmitting || uploadsPending) return
     
     setIsSubmitting(true)
     setSubmitStatus('idle')
@@ -106,19 +123,29 @@ export function QuotationForm({ defaultService }: QuotationFormProps) {
         }
       })
       
-      // Add tracking data
+      // Add tracking data (the form's own submission_id, rotated on reset, is the idempotency key)
       Object.entries(tracking).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
+        if (key !== 'submission_id' && value !== undefined && value !== null) {
           formData.append(key, value.toString())
         }
       })
       
-      // Add files
-      files.forEach((file, index) => {
-        formData.append(`files`, file)
-      })
+      // Bot guard token and honeypot
+      Object.entries(guardFields()).forEach(([key, value]) => formData.append(key, value))
+      
+      // Files went ahead in resumable chunks; only their ids travel with the form
+      const uploadIds = attachedEstimate ? [attachedEstimate.uploadId, ...uploads.uploadIds] : uploads.uploadIds
+      if (uploadIds.length > 0) {
+        formData.append('upload_ids', uploadIds.join(','))
+      }
+      if (attachedEstimate) {
+        formData.append('estimate_token', attachedEstimate.token)
+      }
+      if (data.newsletter_opt_in) {
+        formData.append('newsletter_consent_version', NEWSLETTER_CONSENT_VERSION)
+      }
       
-      const response = await fetch('/api/quotes', {
+      const response = await signedFetch('/api/quotes', {
         method: 'POST',
         body: formData,
       })
@@ -151,7 +178,10 @@ export function QuotationForm({ defaultService }: QuotationFormProps) {
         utm_content: tracking.utm_content || "",
       })
       setFiles([])
+      setAttachedEstimate(undefined)
+      setUploadKey(key => key + 1)
       setDescriptionLength(0)
+      refreshGuard()
       
     } catch (error) {
       console.error('Quote submission error:', error)
@@ -375,33 +405,27 @@ export function QuotationForm({ defaultService }: QuotationFormProps) {
             </p>
           </div>
           
+          {attachedEstimate && (
+            <div className="flex items-start gap-2 p-3 rounded-lg border border-green-200 bg-green-50 text-sm text-green-800">
+              <Info className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>
+                <strong>{attachedEstimate.filename}</strong> and its instant estimate ({attachedEstimate.estimate.priceRange.min}-{attachedEstimate.estimate.priceRange.max} {attachedEstimate.estimate.currency}) will be attached to this request.
+              </span>
+            </div>
+          )}
+
           <FileUpload
-            value={files}
-            onChange={setFiles}
-            onFilesSelected={setFiles}
-            maxFiles={5}
-            maxSize={100 * 1024 * 1024} // 100MB for CAD files
-            accept={{
-              'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.webp'],
-              'application/pdf': ['.pdf'],
-              'application/msword': ['.doc'],
-              'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
-              'text/plain': ['.txt'],
-              'application/vnd.ms-excel': ['.xls'],
-              'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
-              'application/zip': ['.zip'],
-              'application/x-zip-compressed': ['.zip'],
-              'application/x-rar-compressed': ['.rar'],
-              'model/step': ['.step', '.stp'],
-              'application/x-step': ['.step', '.stp'],
-              'model/iges': ['.iges', '.igs'],
-              'application/vnd.ms-pki.stl': ['.stl'],
-              'model/stl': ['.stl'],
-              'application/acad': ['.dwg'],
-              'image/vnd.dwg': ['.dwg'],
-              'application/dxf': ['.dxf'],
-            }}
+            key={uploadKey}
+            maxFiles={attachedEstimate ? 4 : 5}
+            maxSizePerFile={100} // 100MB for CAD files
+            acceptedTypes={ATTACHMENT_ACCEPT}
+            onFilesChange={setFiles}
+            onUploadsChange={setUploads}
+            disabled={isSubmitting}
           />
+          {uploads.failed > 0 && (
+            <p className="text-xs text-red-600">Some files failed to upload. Retry or remove them before submitting.</p>
+          )}
         </div>
 
         {/* Professional consent and subscription options */}
@@ -437,9 +461,8 @@ export function QuotationForm({ defaultService }: QuotationFormProps) {
                 </FormControl>
                 <div className="space-y-1 leading-tight">
                   <FormLabel className="text-sm font-medium text-gray-700">
-                    Yes, I would like to receive technical insights, industry updates, and service announcements
+                    {NEWSLETTER_CONSENT_TEXT}
                   </FormLabel>
-                  <p className="text-xs text-muted-foreground">You can unsubscribe at any time. We respect your privacy.</p>
                 </div>
               </FormItem>
             )}
@@ -485,7 +508,7 @@ export function QuotationForm({ defaultService }: QuotationFormProps) {
           </div>
         )}
 
-        <Button type="submit" size="lg" className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 shadow-sm hover:shadow-md" disabled={isSubmitting || form.formState.isSubmitting}>
+        <Button type="submit" size="lg" className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 shadow-sm hover:shadow-md" disabled={isSubmitting || form.formState.isSubmitting || uploadsPending}>
           {isSubmitting || form.formState.isSubmitting ? (
             <div className="flex items-center gap-2">
               <svg className="animate-spin h-4 w-4" viewBox="0 0 24 24">
@@ -494,12 +517,15 @@ export function QuotationForm({ defaultService }: QuotationFormProps) {
               </svg>
               Processing Request...
             </div>
+          ) : uploads.inProgress > 0 ? (
+            'Waiting for file uploads...'
           ) : (
             'Request Professional Quotation'
           )}
         </Button>
 
         <p id="form-help" className="sr-only">All fields are validated. Files uploaded will be processed securely.</p>
+        <input {...honeypotProps} />
       </form>
     </Form>
   )
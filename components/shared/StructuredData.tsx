@@ -139,8 +139,10 @@ export default async function StructuredData({ type = 'organization', data }: St
           image: (data as any)?.image,
           author: {
             '@type': 'Organization',
-            name: 'IdEinstein'
+            name: (data as any)?.author || 'IdEinstein'
           },
+          ...((data as any)?.section && { articleSection: (data as any).section }),
+          ...((data as any)?.keywords && { keywords: (data as any).keywords }),
           publisher: {
             '@type': 'Organization',
             name: 'IdEinstein',
@@ -166,8 +168,9 @@ export default async function StructuredData({ type = 'organization', data }: St
 
   if (!structuredData) return null;
 
-  // Ensure deterministic JSON output for consistent server/client rendering
-  const jsonString = JSON.stringify(structuredData, null, 2);
+  // Ensure deterministic JSON output for consistent server/client rendering; "<" is escaped so
+  // content like a post title can't close the script tag
+  const jsonString = JSON.stringify(structuredData, null, 2).replace(/</g, '\\u003c');
 
   return (
     <script
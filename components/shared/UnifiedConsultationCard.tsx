@@ -6,6 +6,7 @@ import { ConsultationForm } from "./ConsultationForm"
 import { QuotationForm } from "./QuotationForm"
 import { DialogTitle } from "@/components/ui/dialog"
 import type { ConsultationFormData, QuotationFormData, SERVICE_OPTIONS } from "@/lib/validations/forms"
+import type { EstimateAttachment } from "@/components/services/PrintPriceEstimator"
 
 interface UnifiedConsultationCardProps {
   onSubmit?: (data: ConsultationFormData | QuotationFormData) => Promise<void>
@@ -13,6 +14,7 @@ interface UnifiedConsultationCardProps {
   className?: string
   defaultService?: string // Allow any string, will be mapped internally
   type?: 'consultation' | 'quotation'
+  estimate?: EstimateAttachment // Instant 3D printing estimate to send with a quotation
 }
 
 export function UnifiedConsultationCard({
@@ -20,7 +22,8 @@ export function UnifiedConsultationCard({
   onSuccess,
   className,
   defaultService,
-  type = 'consultation'
+  type = 'consultation',
+  estimate
 }: UnifiedConsultationCardProps) {
   const isQuotation = type === 'quotation'
 
@@ -38,6 +41,7 @@ export function UnifiedConsultationCard({
       {isQuotation ? (
         <QuotationForm
           defaultService={defaultService}
+          estimate={estimate}
         />
       ) : (
         <ConsultationForm
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef, useState, type CSSProperties, type ChangeEvent } from 'react';
+
+type GuardedForm = 'quote' | 'contact' | 'consultation' | 'newsletter';
+
+// Off-screen rather than display:none, which some bots skip
+const HONEYPOT_STYLE: CSSProperties = {
+  position: 'absolute',
+  left: '-10000px',
+  width: 1,
+  height: 1,
+  overflow: 'hidden',
+};
+
+/**
+ * Signed "form rendered at" token plus a honeypot input for the public forms.
+ * Merge `guardFields()` into the submission and render `<input {...honeypotProps} />` inside the form
+ */
+export const useFormGuard = (form: GuardedForm) => {
+  const token = useRef('');
+  const [honeypot, setHoneypot] = useState('');
+
+  // Call again after a successful submission so the next one is timed from the reset form
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/forms/token?form=${form}`, { cache: 'no-store' });
+      if (response.ok) {
+        token.current = (await response.json()).token || '';
+      }
+    } catch {
+      // A missing token only raises the bot score, the submission still goes through
+    }
+  }, [form]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const guardFields = useCallback(
+    (): Record<string, string> => ({ form_token: token.current, website: honeypot }),
+    [honeypot]
+  );
+
+  const honeypotProps = {
+    type: 'text',
+    name: 'website',
+    value: honeypot,
+    onChange: (e: ChangeEvent<HTMLInputElement>) => setHoneypot(e.target.value),
+    tabIndex: -1,
+    autoComplete: 'off',
+    'aria-hidden': true,
+    style: HONEYPOT_STYLE,
+  };
+
+  return { guardFields, honeypotProps, refresh };
+};
@@ -0,0 +1,13 @@
+/**
+ * Server startup hooks (Next.js instrumentation)
+ */
+
+export async function register() {
+  // The Zoho client reads tokens from disk/Redis, so only on the Node.js runtime
+  // Opt-in: every cold start would otherwise spend Zoho API calls on the field metadata
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.CRM_FIELD_CHECK === 'true') {
+    const { checkCrmFieldMappingsOnStartup } = await import('@/lib/crm-mapping');
+    // Not awaited: the check calls Zoho and must not hold up the server
+    void checkCrmFieldMappingsOnStartup();
+  }
+}
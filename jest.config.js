@@ -0,0 +1,12 @@
+const nextJest = require('next/jest');
+
+// SWC transform, tsconfig paths and .env loading the same way `next build` does
+const createJestConfig = nextJest({ dir: './' });
+
+module.exports = createJestConfig({
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/__tests__/**/*.test.ts'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1',
+  },
+});
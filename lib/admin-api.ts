@@ -3,30 +3,130 @@
  * Handles authenticated API calls for admin components
  */
 
+export interface AdminTokenResponse {
+  accessToken: string;
+  accessExpiresAt: number;
+  refreshToken: string;
+  refreshExpiresAt: number;
+}
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+let refreshInFlight: Promise<string | null> | null = null;
+
 /**
- * Make an authenticated API call with admin token
+ * Persist a token pair. admin_auth_token keeps its name because many admin components read it directly
  */
-export async function adminApiCall(url: string, options: RequestInit = {}): Promise<Response> {
-  // Get admin token from localStorage
+export function storeAdminTokens(tokens: AdminTokenResponse): void {
+  localStorage.setItem('admin_auth_token', tokens.accessToken);
+  localStorage.setItem('admin_auth_expiry', tokens.accessExpiresAt.toString());
+  localStorage.setItem('admin_refresh_token', tokens.refreshToken);
+  localStorage.setItem('admin_refresh_expiry', tokens.refreshExpiresAt.toString());
+}
+
+export function clearAdminTokens(): void {
+  localStorage.removeItem('admin_auth_token');
+  localStorage.removeItem('admin_auth_expiry');
+  localStorage.removeItem('admin_refresh_token');
+  localStorage.removeItem('admin_refresh_expiry');
+}
+
+/**
+ * Exchange the refresh token for a new pair. Concurrent callers share one request
+ * because each refresh token can only be used once
+ */
+export function refreshAdminTokens(): Promise<string | null> {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const refreshToken = localStorage.getItem('admin_refresh_token');
+      const refreshExpiry = localStorage.getItem('admin_refresh_expiry');
+      if (!refreshToken || !refreshExpiry || Date.now() >= parseInt(refreshExpiry)) {
+        return null;
+      }
+
+      try {
+        const response = await fetch('/api/admin/session', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken }),
+        });
+        if (!response.ok) {
+          if (response.status === 401) clearAdminTokens();
+          return null;
+        }
+
+        const data = await response.json();
+        storeAdminTokens(data);
+        return data.accessToken as string;
+      } catch {
+        return null;
+      }
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+/**
+ * Current access token, refreshed first when it is about to expire
+ */
+export async function getAdminAccessToken(): Promise<string | null> {
   const authToken = localStorage.getItem('admin_auth_token');
   const authExpiry = localStorage.getItem('admin_auth_expiry');
+
+  if (authToken && authExpiry && Date.now() < parseInt(authExpiry) - REFRESH_MARGIN_MS) {
+    return authToken;
+  }
+  return refreshAdminTokens();
+}
+
+/**
+ * Revoke the session server-side and forget the tokens
+ */
+export async function adminLogout(all = false): Promise<void> {
+  const authToken = localStorage.getItem('admin_auth_token');
+  const refreshToken = localStorage.getItem('admin_refresh_token');
+  clearAdminTokens();
+
+  await fetch('/api/admin/session', {
+    method: 'DELETE',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+    },
+    body: JSON.stringify({ refreshToken: refreshToken || undefined, all }),
+  }).catch(() => undefined);
+}
+
+/**
+ * Make an authenticated API call with admin token
+ */
+export async function adminApiCall(url: string, options: RequestInit = {}): Promise<Response> {
+  const authToken = await getAdminAccessToken();
   
-  // Check if token exists and is not expired
-  if (!authToken || !authExpiry || Date.now() >= parseInt(authExpiry)) {
+  if (!authToken) {
     throw new Error('Admin authentication required');
   }
   
-  // Add authorization header
-  const headers = {
-    'Authorization': `Bearer ${authToken}`,
-    'Content-Type': 'application/json',
-    ...options.headers,
-  };
-  
-  return fetch(url, {
+  const send = (token: string) => fetch(url, {
     ...options,
-    headers,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
   });
+  
+  const response = await send(authToken);
+  if (response.status !== 401) {
+    return response;
+  }
+  
+  // The token may have been rotated or expired mid-flight; retry once with a fresh one
+  const refreshed = await refreshAdminTokens();
+  return refreshed ? send(refreshed) : response;
 }
 
 /**
@@ -0,0 +1,203 @@
+/**
+ * Audit Trail
+ * Tamper-evident audit log: every entry carries the hash of the one before it, so editing or
+ * deleting an entry breaks the chain from that point on. Set AUDIT_HMAC_KEY to key the hashes,
+ * which also stops someone with write access from recomputing the whole chain
+ */
+
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { createAuditStore } from './stores';
+import type {
+  AuditEntry,
+  AuditQuery,
+  AuditQueryResult,
+  AuditStore,
+  AuditVerification,
+} from './types';
+
+export * from './types';
+export { MemoryAuditStore, FileAuditStore, RedisAuditStore, createAuditStore } from './stores';
+
+export interface AuditInput {
+  userId?: string;
+  action: string;
+  entity: string;
+  entityId?: string;
+  meta?: unknown;
+  ipAddress?: string;
+  userAgent?: string;
+  sessionId?: string;
+  /** ISO time of the event when it is written later than it happened */
+  occurredAt?: string;
+}
+
+const MAX_APPEND_ATTEMPTS = 5;
+const DEFAULT_QUERY_LIMIT = 100;
+
+function computeHash(entry: Omit<AuditEntry, 'hash'>): string {
+  // Fixed field order so the digest doesn't depend on object key order
+  const body = JSON.stringify([
+    entry.seq,
+    entry.id,
+    entry.timestamp,
+    entry.userId,
+    entry.action,
+    entry.entity,
+    entry.entityId ?? null,
+    entry.meta ?? null,
+    entry.ipAddress ?? null,
+    entry.userAgent ?? null,
+    entry.sessionId ?? null,
+    entry.prevHash,
+    // Only present on late entries, so hashes of existing entries don't change
+    ...(entry.occurredAt ? [entry.occurredAt] : []),
+  ]);
+
+  const key = process.env.AUDIT_HMAC_KEY;
+  return key
+    ? createHmac('sha256', key).update(body).digest('hex')
+    : createHash('sha256').update(body).digest('hex');
+}
+
+export class AuditTrail {
+  // Appends from this process run one at a time; the store's head check covers other processes
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly store: AuditStore) {}
+
+  get storeKind() {
+    return this.store.kind;
+  }
+
+  append(input: AuditInput): Promise<AuditEntry> {
+    const run = this.queue.then(() => this.appendNow(input));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async appendNow(input: AuditInput): Promise<AuditEntry> {
+    // Round-trip meta through JSON so the hashed value is exactly what gets stored
+    const meta = input.meta === undefined ? undefined : JSON.parse(JSON.stringify(input.meta));
+
+    for (let attempt = 1; attempt <= MAX_APPEND_ATTEMPTS; attempt++) {
+      const head = await this.store.head();
+      const unhashed: Omit<AuditEntry, 'hash'> = {
+        seq: (head?.seq || 0) + 1,
+        id: randomBytes(8).toString('hex'),
+        timestamp: new Date().toISOString(),
+        userId: input.userId || 'anonymous',
+        action: input.action,
+        entity: input.entity,
+        entityId: input.entityId,
+        meta,
+        ipAddress: input.ipAddress,
+        userAgent: input.userAgent?.slice(0, 300),
+        sessionId: input.sessionId,
+        ...(input.occurredAt && { occurredAt: input.occurredAt }),
+        prevHash: head?.hash || '',
+      };
+      const entry: AuditEntry = { ...unhashed, hash: computeHash(unhashed) };
+
+      if (await this.store.append(entry)) {
+        return entry;
+      }
+    }
+    throw new Error('audit:append_conflict - chain head kept moving');
+  }
+
+  /**
+   * Filtered entries, newest first. Reads from the newest end and stops once the page is full
+   */
+  async query(query: AuditQuery = {}): Promise<AuditQueryResult> {
+    const limit = query.limit || DEFAULT_QUERY_LIMIT;
+    const offset = query.offset || 0;
+    const matches = (entry: AuditEntry) =>
+      (!query.userId || entry.userId === query.userId)
+      && (!query.action || entry.action === query.action)
+      && (!query.entity || entry.entity === query.entity)
+      && (!query.entityId || entry.entityId === query.entityId);
+
+    const found: AuditEntry[] = [];
+    let hasMore = false;
+    for await (const page of this.store.scanNewestFirst({ from: query.from, to: query.to })) {
+      for (const entry of page) {
+        if (!matches(entry)) continue;
+        if (found.length === offset + limit) {
+          hasMore = true;
+          break;
+        }
+        found.push(entry);
+      }
+      if (hasMore) break;
+    }
+
+    return { entries: found.slice(offset), hasMore, limit, offset };
+  }
+
+  /**
+   * Recompute every hash and link from the start of the chain
+   */
+  async verify(): Promise<AuditVerification> {
+    const entries = await this.store.scan();
+    let prevHash = '';
+
+    for (let i = 0; i < entries.length; i++) {
+      const { hash, ...unhashed } = entries[i];
+      if (entries[i].seq !== i + 1) {
+        return { valid: false, checked: i, head: null, brokenAt: { seq: entries[i].seq, reason: 'sequence_gap' } };
+      }
+      if (entries[i].prevHash !== prevHash) {
+        return { valid: false, checked: i, head: null, brokenAt: { seq: entries[i].seq, reason: 'broken_link' } };
+      }
+      if (computeHash(unhashed) !== hash) {
+        return { valid: false, checked: i, head: null, brokenAt: { seq: entries[i].seq, reason: 'hash_mismatch' } };
+      }
+      prevHash = hash;
+    }
+
+    const last = entries[entries.length - 1];
+    return {
+      valid: true,
+      checked: entries.length,
+      head: last ? { seq: last.seq, hash: last.hash } : null,
+    };
+  }
+}
+
+const CSV_COLUMNS: Array<keyof AuditEntry> = [
+  'seq',
+  'timestamp',
+  'userId',
+  'action',
+  'entity',
+  'entityId',
+  'ipAddress',
+  'userAgent',
+  'sessionId',
+  'occurredAt',
+  'meta',
+  'prevHash',
+  'hash',
+];
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let text = typeof value === 'string' ? value : JSON.stringify(value);
+  // Neutralize spreadsheet formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => csvCell(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+let trailInstance: AuditTrail | null = null;
+
+export function getAuditTrail(): AuditTrail {
+  if (!trailInstance) {
+    trailInstance = new AuditTrail(createAuditStore());
+  }
+  return trailInstance;
+}
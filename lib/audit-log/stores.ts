@@ -0,0 +1,288 @@
+/**
+ * Audit Stores
+ * Append-only backends: monthly JSONL segments on disk, a Redis list for serverless deployments,
+ * and memory for tests
+ */
+
+import { appendFile, mkdir, open, readFile, readdir, rm, stat } from 'fs/promises';
+import path from 'path';
+import type { RedisLike } from '@/lib/redis';
+import { resolveStoreBackend } from '@/lib/stores';
+import type { AuditChainHead, AuditEntry, AuditScanRange, AuditStore } from './types';
+
+function inRange(entry: AuditEntry, range: AuditScanRange = {}): boolean {
+  const time = Date.parse(entry.timestamp);
+  return (range.from === undefined || time >= range.from) && (range.to === undefined || time <= range.to);
+}
+
+function toHead(entry: AuditEntry | null): AuditChainHead | null {
+  return entry ? { seq: entry.seq, hash: entry.hash } : null;
+}
+
+/**
+ * In-memory audit store (tests and local development without a writable disk)
+ */
+export class MemoryAuditStore implements AuditStore {
+  readonly kind = 'memory' as const;
+  private entries: AuditEntry[] = [];
+
+  async head() {
+    return toHead(this.entries[this.entries.length - 1] || null);
+  }
+
+  async append(entry: AuditEntry) {
+    const head = await this.head();
+    if ((head?.hash || '') !== entry.prevHash) return false;
+    this.entries.push(JSON.parse(JSON.stringify(entry)));
+    return true;
+  }
+
+  async scan(range?: AuditScanRange) {
+    return this.entries.filter(entry => inRange(entry, range)).map(entry => JSON.parse(JSON.stringify(entry)));
+  }
+
+  async *scanNewestFirst(range?: AuditScanRange) {
+    yield (await this.scan(range)).reverse();
+  }
+}
+
+// Tail reads grow by this much until they hold the whole last line
+const TAIL_CHUNK_BYTES = 16 * 1024;
+const NEWLINE = 0x0a;
+
+function isLineEnd(byte: number) {
+  return byte === NEWLINE || byte === 0x0d || byte === 0x20;
+}
+
+const LOCK_STALE_MS = 10 * 1000;
+
+/**
+ * One JSON line per entry in monthly segment files (audit-YYYY-MM.jsonl).
+ * A lock file serializes writers across processes sharing the directory
+ */
+export class FileAuditStore implements AuditStore {
+  readonly kind = 'file' as const;
+
+  constructor(private readonly baseDir: string) {}
+
+  private segmentName(timestamp: string) {
+    return `audit-${timestamp.slice(0, 7)}.jsonl`;
+  }
+
+  private async segments(): Promise<string[]> {
+    try {
+      const entries = await readdir(this.baseDir);
+      return entries.filter(name => /^audit-\d{4}-\d{2}\.jsonl$/.test(name)).sort();
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    await mkdir(this.baseDir, { recursive: true });
+    const lockPath = path.join(this.baseDir, '.lock');
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const handle = await open(lockPath, 'wx');
+        await handle.close();
+        break;
+      } catch (error: any) {
+        if (error?.code !== 'EEXIST') throw error;
+
+        // A crashed writer can leave the lock behind
+        const info = await stat(lockPath).catch(() => null);
+        if (info && Date.now() - info.mtimeMs > LOCK_STALE_MS) {
+          await rm(lockPath, { force: true });
+          continue;
+        }
+        if (attempt > 200) {
+          throw new Error('audit:file_store:lock_timeout');
+        }
+        await new Promise(resolve => setTimeout(resolve, 25));
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await rm(lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Last non-empty line of a segment, read backwards from the end of the file in chunks until the
+   * line is complete, however long it is
+   */
+  private async lastLine(segment: string): Promise<string | null> {
+    const handle = await open(path.join(this.baseDir, segment), 'r');
+    try {
+      const { size } = await handle.stat();
+      let tail = Buffer.alloc(0);
+      let position = size;
+
+      while (position > 0) {
+        const length = Math.min(position, TAIL_CHUNK_BYTES);
+        position -= length;
+        const chunk = Buffer.alloc(length);
+        await handle.read(chunk, 0, length, position);
+        tail = Buffer.concat([chunk, tail]);
+
+        let end = tail.length;
+        while (end > 0 && isLineEnd(tail[end - 1])) end--;
+        if (end === 0) continue;
+
+        const start = tail.lastIndexOf(NEWLINE, end - 1);
+        if (start !== -1) return tail.subarray(start + 1, end).toString('utf-8');
+      }
+
+      const line = tail.toString('utf-8').trim();
+      return line || null;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async lastEntry(): Promise<AuditEntry | null> {
+    const segments = await this.segments();
+    for (let i = segments.length - 1; i >= 0; i--) {
+      const line = await this.lastLine(segments[i]);
+      if (line) return JSON.parse(line) as AuditEntry;
+    }
+    return null;
+  }
+
+  async head() {
+    return toHead(await this.lastEntry());
+  }
+
+  append(entry: AuditEntry) {
+    return this.withLock(async () => {
+      const last = await this.lastEntry();
+      if ((last?.hash || '') !== entry.prevHash) return false;
+
+      await appendFile(path.join(this.baseDir, this.segmentName(entry.timestamp)), `${JSON.stringify(entry)}\n`, {
+        encoding: 'utf-8',
+        mode: 0o600,
+      });
+      return true;
+    });
+  }
+
+  /** Segments that can hold entries in the range, oldest first */
+  private async segmentsInRange(range: AuditScanRange): Promise<string[]> {
+    const fromMonth = range.from !== undefined ? new Date(range.from).toISOString().slice(0, 7) : undefined;
+    const toMonth = range.to !== undefined ? new Date(range.to).toISOString().slice(0, 7) : undefined;
+
+    return (await this.segments()).filter(segment => {
+      const month = segment.slice(6, 13);
+      return !(fromMonth && month < fromMonth) && !(toMonth && month > toMonth);
+    });
+  }
+
+  private async readSegment(segment: string, range: AuditScanRange): Promise<AuditEntry[]> {
+    const raw = await readFile(path.join(this.baseDir, segment), 'utf-8');
+    const entries: AuditEntry[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      const entry = JSON.parse(line) as AuditEntry;
+      if (inRange(entry, range)) entries.push(entry);
+    }
+    return entries;
+  }
+
+  async scan(range: AuditScanRange = {}) {
+    const entries: AuditEntry[] = [];
+    for (const segment of await this.segmentsInRange(range)) {
+      entries.push(...await this.readSegment(segment, range));
+    }
+    return entries;
+  }
+
+  // One monthly segment per page, so a query for recent entries only reads the latest months
+  async *scanNewestFirst(range: AuditScanRange = {}) {
+    const segments = await this.segmentsInRange(range);
+    for (let i = segments.length - 1; i >= 0; i--) {
+      yield (await this.readSegment(segments[i], range)).reverse();
+    }
+  }
+}
+
+// Append only if the tail still has the hash the entry links to
+const APPEND_SCRIPT = `
+local last = redis.call('LINDEX', KEYS[1], -1)
+local prev = ''
+if last then prev = cjson.decode(last)['hash'] end
+if prev ~= ARGV[1] then return 0 end
+redis.call('RPUSH', KEYS[1], ARGV[2])
+return 1
+`;
+
+/**
+ * Redis list, appended atomically with a Lua check-and-push
+ */
+export class RedisAuditStore implements AuditStore {
+  readonly kind = 'redis' as const;
+
+  constructor(private readonly redis: RedisLike, private readonly key = 'audit:log') {}
+
+  async head() {
+    const raw = await this.redis.command<string | null>(['LINDEX', this.key, -1]);
+    return toHead(raw ? JSON.parse(raw) : null);
+  }
+
+  async append(entry: AuditEntry) {
+    const result = await this.redis.command<number>(['EVAL', APPEND_SCRIPT, 1, this.key, entry.prevHash, JSON.stringify(entry)]);
+    return result === 1;
+  }
+
+  async scan(range?: AuditScanRange) {
+    const entries: AuditEntry[] = [];
+    const pageSize = 1000;
+
+    for (let start = 0; ; start += pageSize) {
+      const page = await this.redis.command<string[]>(['LRANGE', this.key, start, start + pageSize - 1]);
+      (page || []).forEach(raw => {
+        const entry = JSON.parse(raw) as AuditEntry;
+        if (inRange(entry, range)) entries.push(entry);
+      });
+      if (!page || page.length < pageSize) break;
+    }
+    return entries;
+  }
+
+  // Pages from the tail of the list. Entries are appended in time order, so once a whole page is
+  // older than the range there is nothing left to read
+  async *scanNewestFirst(range: AuditScanRange = {}) {
+    const pageSize = 500;
+    const length = await this.redis.command<number>(['LLEN', this.key]);
+
+    for (let end = length - 1; end >= 0; end -= pageSize) {
+      const page = await this.redis.command<string[]>(['LRANGE', this.key, Math.max(0, end - pageSize + 1), end]);
+      const entries = (page || []).map(raw => JSON.parse(raw) as AuditEntry).reverse();
+      yield entries.filter(entry => inRange(entry, range));
+
+      const oldest = entries[entries.length - 1];
+      if (range.from !== undefined && oldest && Date.parse(oldest.timestamp) < range.from) break;
+    }
+  }
+}
+
+/**
+ * Resolve the configured audit store
+ * AUDIT_STORE=redis|file|memory (default: redis when configured, otherwise files under AUDIT_DIR
+ * outside production)
+ */
+export function createAuditStore(): AuditStore {
+  const backend = resolveStoreBackend({ name: 'audit', envVar: 'AUDIT_STORE', dirEnvVar: 'AUDIT_DIR' });
+
+  switch (backend.kind) {
+    case 'memory':
+      return new MemoryAuditStore();
+    case 'file':
+      return new FileAuditStore(backend.dir);
+    case 'redis':
+      return new RedisAuditStore(backend.redis);
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Audit Log Types
+ * Append-only, hash-chained audit entries and the backends that persist them
+ */
+
+export interface AuditEntry {
+  /** 1-based position in the chain */
+  seq: number;
+  id: string;
+  /** ISO timestamp */
+  timestamp: string;
+  userId: string;
+  action: string;
+  entity: string;
+  entityId?: string;
+  meta?: unknown;
+  ipAddress?: string;
+  userAgent?: string;
+  sessionId?: string;
+  /**
+   * When the event happened, for entries written late (the store was unavailable at the time).
+   * Absent when it matches `timestamp`
+   */
+  occurredAt?: string;
+  /** Hash of the previous entry ('' for the first) */
+  prevHash: string;
+  /** sha256 (or HMAC-sha256 when AUDIT_HMAC_KEY is set) over prevHash and the entry body */
+  hash: string;
+}
+
+export interface AuditChainHead {
+  seq: number;
+  hash: string;
+}
+
+export interface AuditScanRange {
+  /** Inclusive bounds, epoch milliseconds */
+  from?: number;
+  to?: number;
+}
+
+export interface AuditQuery extends AuditScanRange {
+  userId?: string;
+  action?: string;
+  entity?: string;
+  entityId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditQueryResult {
+  entries: AuditEntry[];
+  /** More matches exist past this page. Queries stop reading once the page is full */
+  hasMore: boolean;
+  limit: number;
+  offset: number;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  head: AuditChainHead | null;
+  /** First entry whose hash or link doesn't match */
+  brokenAt?: { seq: number; reason: 'hash_mismatch' | 'broken_link' | 'sequence_gap' };
+}
+
+/**
+ * Persistence backend. Implementations only ever append; `append` must refuse to write
+ * when the chain head moved since the caller read it, so concurrent writers can't fork the chain
+ */
+export interface AuditStore {
+  readonly kind: 'memory' | 'file' | 'redis';
+  head(): Promise<AuditChainHead | null>;
+  /** Returns false when `entry.prevHash` is no longer the head */
+  append(entry: AuditEntry): Promise<boolean>;
+  /** Entries in chain order, optionally limited to a time range */
+  scan(range?: AuditScanRange): Promise<AuditEntry[]>;
+  /**
+   * Entries newest first, a page at a time, optionally limited to a time range. Reading stops as
+   * soon as the caller stops iterating
+   */
+  scanNewestFirst(range?: AuditScanRange): AsyncIterable<AuditEntry[]>;
+}
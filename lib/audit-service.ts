@@ -1,4 +1,4 @@
-// Simple Audit Service - Production Ready
+// Audit Service - convenience wrappers around AuditLogger
 import { AuditLogger, AuditEvent } from './audit'
 
 export class AuditService {
@@ -12,7 +12,7 @@ export class AuditService {
   }
 
   async log(event: AuditEvent): Promise<void> {
-    return AuditLogger.log(event)
+    await AuditLogger.log(event)
   }
 
   // Specific audit methods for compatibility
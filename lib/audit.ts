@@ -1,4 +1,7 @@
-// Simple Audit System - Production Ready
+// Audit System - persists to the hash-chained audit trail (lib/audit-log)
+import { getAuditTrail } from '@/lib/audit-log'
+import type { AuditEntry, AuditInput, AuditTrail } from '@/lib/audit-log'
+
 export interface AuditEvent {
   userId?: string
   action: string
@@ -10,20 +13,62 @@ export interface AuditEvent {
   sessionId?: string
 }
 
+// Events that couldn't be written yet, oldest first. Bounded so a long outage can't exhaust memory
+const MAX_PENDING = 1000
+const pending: AuditInput[] = []
+let flushing: Promise<void> | null = null
+
+function flushPending(trail: AuditTrail): Promise<void> {
+  if (!flushing) {
+    flushing = (async () => {
+      while (pending.length > 0) {
+        await trail.append(pending[0])
+        pending.shift()
+      }
+    })().finally(() => {
+      flushing = null
+    })
+  }
+  return flushing
+}
+
 export class AuditLogger {
-  static async log(event: AuditEvent): Promise<void> {
-    // Simple console logging for now - database can be added later
-    const timestamp = new Date().toISOString()
-    const logEntry = {
-      timestamp,
-      userId: event.userId || 'anonymous',
-      action: event.action,
-      entity: event.entity,
-      entityId: event.entityId,
-      ipAddress: event.ipAddress,
-      userAgent: event.userAgent
+  /**
+   * Write an event to the audit trail. A store failure never fails the caller: the event is kept in
+   * memory with its original time and written ahead of the next event once the store is back.
+   * Resolves to null while the entry is queued
+   */
+  static async log(event: AuditEvent): Promise<AuditEntry | null> {
+    try {
+      const trail = getAuditTrail()
+      await flushPending(trail)
+      const entry = await trail.append(event)
+
+      if (process.env.NODE_ENV === 'development') {
+        console.log('📝 AUDIT:', JSON.stringify({
+          seq: entry.seq,
+          timestamp: entry.timestamp,
+          userId: entry.userId,
+          action: entry.action,
+          entity: entry.entity,
+          entityId: entry.entityId
+        }))
+      }
+
+      return entry
+    } catch (error) {
+      if (pending.length >= MAX_PENDING) {
+        const dropped = pending.shift()!
+        console.error('❌ AUDIT: queue full, dropped event', JSON.stringify({ action: dropped.action, entity: dropped.entity, occurredAt: dropped.occurredAt }))
+      }
+      pending.push({ ...event, occurredAt: new Date().toISOString() })
+      console.error(`❌ AUDIT: write failed, ${pending.length} event(s) queued:`, error instanceof Error ? error.message : String(error))
+      return null
     }
-    
-    console.log('📝 AUDIT:', JSON.stringify(logEntry, null, 2))
   }
-}
\ No newline at end of file
+
+  /** Events waiting for the store to come back */
+  static pendingCount(): number {
+    return pending.length
+  }
+}
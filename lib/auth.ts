@@ -1,13 +1,17 @@
-import NextAuth, { NextAuthOptions } from 'next-auth'
+import { NextAuthOptions } from 'next-auth'
 import CredentialsProvider from 'next-auth/providers/credentials'
 import GoogleProvider from 'next-auth/providers/google'
 import { crm } from '@/lib/zoho/client'
+import { getCustomerAccounts } from '@/lib/users'
+import { UserRole } from '@/lib/rbac'
 
 export interface AuthUser {
   id: string;
   email: string;
   name: string;
   image?: string | null;
+  userRole?: UserRole;
+  crmAccountId?: string;
 }
 
 export interface AuthSession {
@@ -24,50 +28,26 @@ export const authOptions: NextAuthOptions = {
         password: { label: 'Password', type: 'password' }
       },
       async authorize(credentials) {
-        console.log('🔐 NextAuth authorize called with:', {
-          email: credentials?.email,
-          hasPassword: !!credentials?.password
-        })
-
         if (!credentials?.email || !credentials?.password) {
           console.log('❌ Missing email or password')
           return null
         }
 
-        // Demo credentials for testing
-        if (credentials.email === 'demo@ideinstein.com' && credentials.password === 'demo123') {
-          console.log('✅ Demo user login')
-          return {
-            id: 'demo-user',
-            email: 'demo@ideinstein.com',
-            name: 'Demo User',
-            image: null
-          }
+        // Customer accounts live in the local user store (invited from CRM contacts)
+        const user = await getCustomerAccounts().authenticate(credentials.email, credentials.password)
+        if (!user) {
+          console.log('❌ Authorization failed')
+          return null
         }
 
-        // Simplified authentication - use fallback for now since advanced CRM functions are not available
-        console.log('🔍 Using simplified authentication...')
-        
-        // Fallback: Allow authentication for known test users
-        const fallbackUsers = [
-          { email: 'test@ideinstein.com', name: 'Test User' },
-          { email: 'admin@ideinstein.com', name: 'Admin User' },
-          { email: 'user@ideinstein.com', name: 'Regular User' }
-        ];
-        
-        const fallbackUser = fallbackUsers.find(u => u.email === credentials.email);
-        if (fallbackUser) {
-          console.log('✅ Fallback authentication successful for:', fallbackUser.email);
-          return {
-            id: `fallback-${Date.now()}`,
-            email: fallbackUser.email,
-            name: fallbackUser.name,
-            image: null
-          };
+        return {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          image: null,
+          userRole: user.role,
+          crmAccountId: user.crmAccountId
         }
-
-        console.log('❌ Authorization failed for:', credentials.email)
-        return null
       }
     }),
     // Google OAuth - only enable if credentials are provided
@@ -81,6 +61,16 @@ export const authOptions: NextAuthOptions = {
   callbacks: {
     async signIn({ user, account, profile: __profile }: any) {
       if (account?.provider === 'google') {
+        // Google sign-in for an existing portal account keeps that account's identity and role
+        const existing = user.email ? await getCustomerAccounts().getByEmail(user.email) : null
+        if (existing) {
+          if (existing.status === 'disabled') return false
+          user.id = existing.id
+          user.userRole = existing.role
+          user.crmAccountId = existing.crmAccountId
+          return true
+        }
+
         try {
           // Simplified Google OAuth - create lead using basic CRM method
           const [firstName, ...lastNameParts] = user.name?.split(' ') || ['User']
@@ -116,12 +106,33 @@ export const authOptions: NextAuthOptions = {
     async jwt({ token, user }: any) {
       if (user) {
         token.id = user.id
+        token.userRole = user.userRole || UserRole.CLIENT_USER
+        token.crmAccountId = user.crmAccountId
+        token.authTime = Date.now()
+        return token
+      }
+
+      // Portal accounts are re-read on every session check so disabling an account or changing its
+      // password ends existing sessions; throwing makes NextAuth clear the session cookie
+      const account = token.id ? await getCustomerAccounts().getById(token.id) : null
+      if (account) {
+        const authTime = token.authTime ?? (token.iat ? token.iat * 1000 : 0)
+        if (account.status === 'disabled') {
+          throw new Error('session_revoked: account disabled')
+        }
+        if (account.passwordChangedAt && account.passwordChangedAt > authTime) {
+          throw new Error('session_revoked: password changed')
+        }
+        token.userRole = account.role
+        token.crmAccountId = account.crmAccountId
       }
       return token
     },
     async session({ session, token }: any) {
       if (token) {
         session.user.id = token.id as string
+        session.user.userRole = token.userRole as UserRole
+        session.user.crmAccountId = token.crmAccountId as string | undefined
       }
       return session
     }
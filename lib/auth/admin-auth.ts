@@ -1,140 +1,111 @@
 /**
  * Admin Authentication Middleware
  * Provides reusable admin authentication for API routes
- * ENTERPRISE SECURITY: Validates actual passwords against hashed credentials
+ * ENTERPRISE SECURITY: Validates short-lived signed session tokens issued by /api/admin/validate
  * 
  * IMPORTANT: This module provides two authentication methods:
- * 1. verifyAdminAuth - Uses bcrypt (Node.js runtime only - API routes)
- * 2. verifyAdminAuthEdge - Uses Web Crypto API (Edge runtime compatible - middleware)
+ * 1. verifyAdminAuth - Verifies signature, expiry and revocation (Node.js runtime - API routes)
+ * 2. verifyAdminAuthEdge - Same checks when the session store is shared, otherwise delegates to the API (middleware)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { applyRateLimit } from '@/lib/security/rate-limit';
 import { securityLogger } from '@/lib/security/logging';
-
-// Dynamic import for bcrypt to avoid Edge Runtime issues
-let bcrypt: any = null;
-async function getBcrypt() {
-  if (!bcrypt) {
-    try {
-      bcrypt = await import('bcryptjs');
-    } catch (error) {
-      console.warn('bcrypt not available in this runtime');
-      return null;
-    }
-  }
-  return bcrypt;
-}
+import {
+  extractAdminToken,
+  getAdminSessionStore,
+  isAdminMfaRequired,
+  verifyAdminAccessToken
+} from '@/lib/auth/admin-session';
 
 export interface AdminAuthResult {
   isAuthenticated: boolean;
   reason?: string;
   rateLimitExceeded?: boolean;
+  /** Admin identity id from the token */
+  adminId?: string;
+  sessionId?: string;
+  /** Whether a second factor was verified for this session */
+  mfa?: boolean;
+}
+
+export interface AdminAuthOptions {
+  /**
+   * Accept password-only sessions even when MFA is required.
+   * Only for the endpoints an admin needs to finish enrolling (and to log out)
+   */
+  allowPendingMfa?: boolean;
+}
+
+// Auth result per request, so handlers wrapped by withAdminAuth can tell which admin is calling
+const authResults = new WeakMap<NextRequest, AdminAuthResult>();
+
+/**
+ * The verified admin for a request handled by withAdminAuth
+ */
+export function getAdminAuth(request: NextRequest): AdminAuthResult | undefined {
+  return authResults.get(request);
 }
 
 /**
- * Verify admin authentication token from request headers (Node.js runtime)
- * ENTERPRISE SECURITY: Validates actual password against stored hash using bcrypt
+ * Verify admin session token from request headers (Node.js runtime)
+ * ENTERPRISE SECURITY: HMAC signature, expiry, session revocation and the second factor are all checked
  * USE FOR: API routes only (Node.js runtime)
  */
-export async function verifyAdminAuth(request: NextRequest): Promise<AdminAuthResult> {
+export async function verifyAdminAuth(
+  request: NextRequest,
+  options: AdminAuthOptions = {}
+): Promise<AdminAuthResult> {
   try {
-    const authHeader = request.headers.get('authorization');
-    const adminToken = request.headers.get('x-admin-token');
-    
-    // Check for admin token in either Authorization header or custom header
-    const token = authHeader?.replace('Bearer ', '') || adminToken;
+    const token = extractAdminToken(request.headers);
     
     if (!token) {
       return { isAuthenticated: false, reason: 'missing_token' };
     }
     
-    // Verify token format and extract password
-    try {
-      const decoded = Buffer.from(token, 'base64').toString('utf-8');
-      if (!decoded.startsWith('admin:')) {
-        return { isAuthenticated: false, reason: 'invalid_token_format' };
-      }
-      
-      // Extract password from token
-      const password = decoded.substring(6); // Remove 'admin:' prefix
-      
-      // Get environment variables - FORCE PLAIN PASSWORD MODE
-      const ADMIN_PASSWORD_HASH = process.env.ADMIN_PASSWORD_HASH;
-      const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD;
-      
-      // TEMPORARY FIX: Force plain password mode to bypass hash issues
-      let adminPasswordHash: string;
-      let useHashedPassword = false; // Force plain password mode
-      
-      if (ADMIN_PASSWORD) {
-        // Use plain password comparison
-        adminPasswordHash = ADMIN_PASSWORD;
-        useHashedPassword = false;
-        console.log('🔧 Using plain password authentication (temporary fix)');
-      } else if (ADMIN_PASSWORD_HASH && ADMIN_PASSWORD_HASH.length === 60 && ADMIN_PASSWORD_HASH.startsWith('$2')) {
-        // Only use hash if it's valid format
-        adminPasswordHash = ADMIN_PASSWORD_HASH;
-        useHashedPassword = true;
-        console.log('🔒 Using bcrypt hash authentication');
-      } else {
-        // No valid password configured
-        return { isAuthenticated: false, reason: 'no_password_configured' };
-      }
-      
-      // Validate password using same logic as /api/admin/validate
-      let isValid: boolean;
-      if (useHashedPassword) {
-        // Use bcrypt for hashed password (Node.js runtime only)
-        const bcryptModule = await getBcrypt();
-        if (!bcryptModule) {
-          throw new Error('bcrypt not available in this runtime');
-        }
-        isValid = await bcryptModule.compare(password, adminPasswordHash);
-      } else {
-        // Fallback to plain password comparison
-        isValid = password === adminPasswordHash;
-      }
-      
-      if (isValid) {
-        return { isAuthenticated: true };
-      } else {
-        return { isAuthenticated: false, reason: 'invalid_password' };
-      }
-      
-    } catch (error) {
-      return { isAuthenticated: false, reason: 'invalid_token_encoding' };
+    const verification = await verifyAdminAccessToken(token);
+    if (!verification.valid) {
+      return { isAuthenticated: false, reason: verification.reason };
+    }
+    
+    const { sub, sid, mfa } = verification.claims;
+    if (!mfa && isAdminMfaRequired() && !options.allowPendingMfa) {
+      return { isAuthenticated: false, reason: 'mfa_required', adminId: sub, sessionId: sid, mfa };
     }
+    
+    return { isAuthenticated: true, adminId: sub, sessionId: sid, mfa };
   } catch (error) {
     return { isAuthenticated: false, reason: 'verification_error' };
   }
 }
 
 /**
- * Verify admin authentication token from request headers (Edge Runtime compatible)
- * ENTERPRISE SECURITY: Delegates to API route for full bcrypt validation
+ * Verify admin session token from request headers (Edge Runtime compatible)
+ * ENTERPRISE SECURITY: Verifies locally with Web Crypto when sessions live in Redis;
+ * an in-memory session store isn't visible from Edge, so the check is delegated to /api/admin/verify-token
  * USE FOR: Middleware and Edge Runtime contexts
- * SOLUTION: Calls /api/admin/verify-token for proper bcrypt validation in Node.js runtime
  */
-export async function verifyAdminAuthEdge(request: NextRequest): Promise<AdminAuthResult> {
+export async function verifyAdminAuthEdge(
+  request: NextRequest,
+  options: AdminAuthOptions = {}
+): Promise<AdminAuthResult> {
   try {
-    const authHeader = request.headers.get('authorization');
-    const adminToken = request.headers.get('x-admin-token');
-    
-    // Check for admin token in either Authorization header or custom header
-    const token = authHeader?.replace('Bearer ', '') || adminToken;
+    const token = extractAdminToken(request.headers);
     
     if (!token) {
       return { isAuthenticated: false, reason: 'missing_token' };
     }
     
+    if (getAdminSessionStore().kind === 'redis') {
+      return verifyAdminAuth(request, options);
+    }
+    
     // Get the base URL for API call
     const protocol = request.headers.get('x-forwarded-proto') || 'https';
     const host = request.headers.get('host') || 'localhost:3000';
     const baseUrl = `${protocol}://${host}`;
     
     try {
-      // Call the verification API endpoint (runs in Node.js runtime with bcrypt)
       const verifyResponse = await fetch(`${baseUrl}/api/admin/verify-token`, {
         method: 'POST',
         headers: {
@@ -148,7 +119,10 @@ export async function verifyAdminAuthEdge(request: NextRequest): Promise<AdminAu
       const result = await verifyResponse.json();
       
       if (verifyResponse.ok && result.isAuthenticated) {
-        return { isAuthenticated: true };
+        if (!result.mfa && isAdminMfaRequired() && !options.allowPendingMfa) {
+          return { isAuthenticated: false, reason: 'mfa_required', adminId: result.adminId, sessionId: result.sessionId };
+        }
+        return { isAuthenticated: true, adminId: result.adminId, sessionId: result.sessionId, mfa: result.mfa };
       } else {
         return { 
           isAuthenticated: false, 
@@ -158,23 +132,8 @@ export async function verifyAdminAuthEdge(request: NextRequest): Promise<AdminAu
       
     } catch (error) {
       console.error('Edge auth verification API call failed:', error);
-      
-      // Fallback: Basic token format validation only
-      // This is not secure for production but prevents complete failure
-      try {
-        const decoded = atob(token);
-        if (!decoded.startsWith('admin:')) {
-          return { isAuthenticated: false, reason: 'invalid_token_format' };
-        }
-        
-        // In Edge Runtime with API failure, we cannot validate password securely
-        // Log this as a security concern
-        console.warn('⚠️ SECURITY WARNING: Using fallback authentication due to API failure');
-        return { isAuthenticated: false, reason: 'api_verification_unavailable' };
-        
-      } catch (decodeError) {
-        return { isAuthenticated: false, reason: 'invalid_token_encoding' };
-      }
+      // Without the session store revocation can't be checked, so fail closed
+      return { isAuthenticated: false, reason: 'api_verification_unavailable' };
     }
   } catch (error) {
     return { isAuthenticated: false, reason: 'verification_error' };
@@ -186,7 +145,8 @@ export async function verifyAdminAuthEdge(request: NextRequest): Promise<AdminAu
  * UPDATED: Uses Node.js runtime compatible authentication only
  */
 export function withAdminAuth<T extends any[]>(
-  handler: (request: NextRequest, ...args: T) => Promise<NextResponse>
+  handler: (request: NextRequest, ...args: T) => Promise<NextResponse>,
+  options: AdminAuthOptions = {}
 ) {
   return async (request: NextRequest, ...args: T): Promise<NextResponse> => {
     const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 'unknown';
@@ -199,7 +159,7 @@ export function withAdminAuth<T extends any[]>(
         message: 'Too many admin requests. Please try again later.'
       };
       
-      const rateLimitResult = applyRateLimit(request, rateLimitConfig, 'admin_api');
+      const rateLimitResult = await applyRateLimit(request, rateLimitConfig, 'admin_api');
       
       if (!rateLimitResult.allowed) {
         securityLogger.logEvent({
@@ -221,7 +181,7 @@ export function withAdminAuth<T extends any[]>(
       }
       
       // Verify admin authentication using Node.js runtime version
-      const authResult = await verifyAdminAuth(request);
+      const authResult = await verifyAdminAuth(request, options);
       
       if (!authResult.isAuthenticated) {
         securityLogger.logEvent({
@@ -237,12 +197,13 @@ export function withAdminAuth<T extends any[]>(
         });
         
         return NextResponse.json(
-          { error: 'Admin authentication required' },
+          { error: 'Admin authentication required', reason: authResult.reason === 'mfa_required' ? 'mfa_required' : undefined },
           { status: 401 }
         );
       }
       
       // Call the protected handler
+      authResults.set(request, authResult);
       return await handler(request, ...args);
       
     } catch (error) {
@@ -275,14 +236,14 @@ export function verifyAdminSession(): boolean {
   try {
     const authToken = localStorage.getItem('admin_auth_token');
     const authExpiry = localStorage.getItem('admin_auth_expiry');
+    const refreshExpiry = localStorage.getItem('admin_refresh_expiry');
     
     if (!authToken || !authExpiry) return false;
     
-    const expiryTime = parseInt(authExpiry);
+    // An expired access token is fine while the refresh token can still renew it
+    const expiryTime = Math.max(parseInt(authExpiry), parseInt(refreshExpiry || '0'));
     if (Date.now() >= expiryTime) {
-      // Token expired, clean up
-      localStorage.removeItem('admin_auth_token');
-      localStorage.removeItem('admin_auth_expiry');
+      clearAdminSession();
       return false;
     }
     
@@ -300,4 +261,6 @@ export function clearAdminSession(): void {
   
   localStorage.removeItem('admin_auth_token');
   localStorage.removeItem('admin_auth_expiry');
+  localStorage.removeItem('admin_refresh_token');
+  localStorage.removeItem('admin_refresh_expiry');
 }
\ No newline at end of file
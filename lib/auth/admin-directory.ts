@@ -0,0 +1,71 @@
+/**
+ * Admin Directory
+ * Named admin accounts from ADMIN_USERS, with the legacy single ADMIN_PASSWORD / ADMIN_PASSWORD_HASH
+ * still accepted as the "admin" identity
+ *
+ * No Node.js-only imports: admin sessions look identities up in middleware. Password checks live in
+ * lib/auth/admin-identities
+ */
+
+export interface AdminIdentity {
+  id: string;
+  name: string;
+  /** bcrypt hash, or a plain password for the legacy ADMIN_PASSWORD setup */
+  passwordHash?: string;
+  password?: string;
+  disabled?: boolean;
+}
+
+export type PublicAdminIdentity = Pick<AdminIdentity, 'id' | 'name'>;
+
+export const DEFAULT_ADMIN_ID = 'admin';
+
+function isBcryptHash(value?: string): value is string {
+  return !!value && value.length === 60 && value.startsWith('$2');
+}
+
+function parseAdminUsers(raw: string): AdminIdentity[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('admin:identities:invalid_json - ADMIN_USERS must be a JSON array');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('admin:identities:invalid_json - ADMIN_USERS must be a JSON array');
+  }
+
+  return parsed.map((entry: any, index) => {
+    if (!entry?.id || typeof entry.id !== 'string' || !isBcryptHash(entry.passwordHash)) {
+      throw new Error(`admin:identities:invalid_entry - ADMIN_USERS[${index}] needs an id and a bcrypt passwordHash`);
+    }
+    return {
+      id: entry.id.toLowerCase(),
+      name: typeof entry.name === 'string' && entry.name ? entry.name : entry.id,
+      passwordHash: entry.passwordHash,
+      disabled: entry.disabled === true,
+    };
+  });
+}
+
+/**
+ * All configured admins. ADMIN_USERS takes precedence; the legacy password becomes the "admin" identity
+ */
+export function getAdminIdentities(): AdminIdentity[] {
+  if (process.env.ADMIN_USERS) {
+    return parseAdminUsers(process.env.ADMIN_USERS);
+  }
+
+  if (isBcryptHash(process.env.ADMIN_PASSWORD_HASH)) {
+    return [{ id: DEFAULT_ADMIN_ID, name: 'Administrator', passwordHash: process.env.ADMIN_PASSWORD_HASH }];
+  }
+  if (process.env.ADMIN_PASSWORD) {
+    return [{ id: DEFAULT_ADMIN_ID, name: 'Administrator', password: process.env.ADMIN_PASSWORD }];
+  }
+  return [];
+}
+
+export function getAdminIdentity(id: string): PublicAdminIdentity | null {
+  const identity = getAdminIdentities().find(admin => admin.id === id.toLowerCase() && !admin.disabled);
+  return identity ? { id: identity.id, name: identity.name } : null;
+}
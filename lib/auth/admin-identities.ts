@@ -0,0 +1,51 @@
+/**
+ * Admin Identities
+ * Checks admin credentials against the accounts in lib/auth/admin-directory
+ *
+ * Node.js runtime only (bcrypt)
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import bcrypt from 'bcryptjs';
+import { DEFAULT_ADMIN_ID, getAdminIdentities, type PublicAdminIdentity } from './admin-directory';
+
+export * from './admin-directory';
+
+// Compared against for unknown usernames so timing doesn't reveal which admins exist
+const DUMMY_HASH = '$2b$12$xaLFQVnn4Jpm2o3MmAjO4OHSbPv/sSjCV4wGZcjhm4Fcddi9P0RHK';
+
+function plainEquals(a: string, b: string): boolean {
+  // Hash first so lengths match and the comparison is constant time
+  const left = createHash('sha256').update(a).digest();
+  const right = createHash('sha256').update(b).digest();
+  return timingSafeEqual(left, right);
+}
+
+/**
+ * Check an admin's credentials. Without a username the default identity is assumed so the
+ * existing single-password login keeps working
+ */
+export async function authenticateAdmin(
+  username: string | undefined,
+  password: string
+): Promise<PublicAdminIdentity | null> {
+  const identities = getAdminIdentities();
+  if (identities.length === 0) {
+    throw new Error('admin:identities:not_configured - set ADMIN_USERS, ADMIN_PASSWORD_HASH or ADMIN_PASSWORD');
+  }
+
+  const id = (username || DEFAULT_ADMIN_ID).trim().toLowerCase();
+  const identity = identities.find(admin => admin.id === id);
+
+  let valid: boolean;
+  if (identity?.password !== undefined) {
+    valid = plainEquals(password, identity.password);
+  } else {
+    valid = await bcrypt.compare(password, identity?.passwordHash || DUMMY_HASH);
+  }
+
+  if (!identity || !valid || identity.disabled) {
+    return null;
+  }
+  return { id: identity.id, name: identity.name };
+}
@@ -0,0 +1,329 @@
+/**
+ * Admin Two-Factor Authentication
+ * TOTP enrollment and verification plus single-use recovery codes, per admin identity
+ *
+ * Node.js runtime only. TOTP secrets are encrypted at rest, recovery codes are stored as sha256 digests
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { RedisLike } from '@/lib/redis';
+import { resolveStoreBackend } from '@/lib/stores';
+import { isAdminMfaRequired } from './admin-session';
+import { generateTotpSecret, totpUri, verifyTotp } from './totp';
+
+export interface AdminRecoveryCode {
+  hash: string;
+  usedAt?: number;
+}
+
+export interface AdminMfaRecord {
+  adminId: string;
+  /** AES-256-GCM encrypted base32 secret: iv.tag.ciphertext */
+  secret: string;
+  /** Pending until the first code is confirmed */
+  status: 'pending' | 'active';
+  createdAt: number;
+  confirmedAt?: number;
+  /** Last accepted TOTP step; earlier or equal steps are rejected as replays */
+  lastUsedStep?: number;
+  recoveryCodes: AdminRecoveryCode[];
+}
+
+export interface AdminMfaStore {
+  get(adminId: string): Promise<AdminMfaRecord | null>;
+  put(record: AdminMfaRecord): Promise<void>;
+  delete(adminId: string): Promise<void>;
+}
+
+export interface AdminMfaStatus {
+  enrolled: boolean;
+  pending: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+  confirmedAt?: number;
+}
+
+export type AdminMfaVerification =
+  | { valid: true; method: 'totp' | 'recovery_code'; recoveryCodesRemaining: number }
+  | { valid: false; reason: string };
+
+export class AdminMfaError extends Error {
+  constructor(public readonly code: string, message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'AdminMfaError';
+  }
+}
+
+export const RECOVERY_CODE_COUNT = 10;
+
+const ISSUER = process.env.ADMIN_MFA_ISSUER || 'IdEinstein Admin';
+
+// === Secret encryption ===
+function encryptionKey(): Buffer {
+  const material = process.env.ADMIN_MFA_ENCRYPTION_KEY || process.env.ENCRYPTION_KEY || process.env.ADMIN_SESSION_SECRET;
+  if (!material) {
+    throw new Error('admin:mfa:encryption_key_missing - set ADMIN_MFA_ENCRYPTION_KEY');
+  }
+  return createHash('sha256').update(material).digest();
+}
+
+function encryptSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf-8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+}
+
+function decryptSecret(value: string): string {
+  const [iv, tag, ciphertext] = value.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf-8');
+}
+
+// === Recovery codes ===
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/**
+ * xxxxx-xxxxx codes without look-alike characters
+ */
+function generateRecoveryCodes(): string[] {
+  const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const bytes = randomBytes(10);
+    const chars = Array.from(bytes, byte => alphabet[byte % alphabet.length]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+function remainingCodes(record: AdminMfaRecord): number {
+  return record.recoveryCodes.filter(code => !code.usedAt).length;
+}
+
+// === Stores ===
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+export class MemoryAdminMfaStore implements AdminMfaStore {
+  private records = new Map<string, AdminMfaRecord>();
+
+  async get(adminId: string) {
+    const record = this.records.get(adminId);
+    return record ? clone(record) : null;
+  }
+
+  async put(record: AdminMfaRecord) {
+    this.records.set(record.adminId, clone(record));
+  }
+
+  async delete(adminId: string) {
+    this.records.delete(adminId);
+  }
+}
+
+export class FileAdminMfaStore implements AdminMfaStore {
+  constructor(private readonly baseDir: string) {}
+
+  private recordPath(adminId: string) {
+    return path.join(this.baseDir, `${adminId.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+
+  async get(adminId: string) {
+    try {
+      return JSON.parse(await readFile(this.recordPath(adminId), 'utf-8')) as AdminMfaRecord;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async put(record: AdminMfaRecord) {
+    const target = this.recordPath(record.adminId);
+    await mkdir(path.dirname(target), { recursive: true });
+    const temp = `${target}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(record, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    await rename(temp, target);
+  }
+
+  async delete(adminId: string) {
+    await rm(this.recordPath(adminId), { force: true });
+  }
+}
+
+export class RedisAdminMfaStore implements AdminMfaStore {
+  constructor(private readonly redis: RedisLike, private readonly prefix = 'admin:mfa') {}
+
+  async get(adminId: string) {
+    const raw = await this.redis.get(`${this.prefix}:${adminId}`);
+    return raw ? (JSON.parse(raw) as AdminMfaRecord) : null;
+  }
+
+  async put(record: AdminMfaRecord) {
+    await this.redis.set(`${this.prefix}:${record.adminId}`, JSON.stringify(record));
+  }
+
+  async delete(adminId: string) {
+    await this.redis.del(`${this.prefix}:${adminId}`);
+  }
+}
+
+/**
+ * Pick the store from ADMIN_MFA_STORE (redis | file | memory). Redis is the default when configured.
+ * A lost enrollment would let the password alone start a new one, so production refuses stores that
+ * don't survive restarts and cold starts
+ */
+export function createAdminMfaStore(): AdminMfaStore {
+  const backend = resolveStoreBackend({ name: 'admin-mfa', envVar: 'ADMIN_MFA_STORE', dirEnvVar: 'ADMIN_MFA_DIR' });
+
+  switch (backend.kind) {
+    case 'memory':
+      return new MemoryAdminMfaStore();
+    case 'file':
+      return new FileAdminMfaStore(backend.dir);
+    case 'redis':
+      return new RedisAdminMfaStore(backend.redis);
+  }
+}
+
+// === Service ===
+export class AdminMfa {
+  constructor(private readonly store: AdminMfaStore) {}
+
+  async getStatus(adminId: string): Promise<AdminMfaStatus> {
+    const record = await this.store.get(adminId);
+    return {
+      enrolled: record?.status === 'active',
+      pending: record?.status === 'pending',
+      required: isAdminMfaRequired(),
+      recoveryCodesRemaining: record ? remainingCodes(record) : 0,
+      confirmedAt: record?.confirmedAt,
+    };
+  }
+
+  async isEnrolled(adminId: string): Promise<boolean> {
+    const record = await this.store.get(adminId);
+    return record?.status === 'active';
+  }
+
+  /**
+   * Start (or restart) enrollment. The secret only becomes active once a code is confirmed
+   */
+  async beginEnrollment(adminId: string): Promise<{ secret: string; otpauthUrl: string }> {
+    const existing = await this.store.get(adminId);
+    if (existing?.status === 'active') {
+      throw new AdminMfaError('already_enrolled', 'Two-factor authentication is already enabled', 409);
+    }
+
+    const secret = generateTotpSecret();
+    await this.store.put({
+      adminId,
+      secret: encryptSecret(secret),
+      status: 'pending',
+      createdAt: Date.now(),
+      recoveryCodes: [],
+    });
+
+    return { secret, otpauthUrl: totpUri(secret, adminId, ISSUER) };
+  }
+
+  /**
+   * Confirm enrollment with a code from the app. Returns the recovery codes; they are shown only once
+   */
+  async confirmEnrollment(adminId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+    const record = await this.store.get(adminId);
+    if (record?.status === 'active') {
+      throw new AdminMfaError('already_enrolled', 'Two-factor authentication is already enabled', 409);
+    }
+    if (!record || record.status !== 'pending') {
+      throw new AdminMfaError('not_pending', 'Start enrollment before confirming a code', 409);
+    }
+
+    const step = verifyTotp(decryptSecret(record.secret), code);
+    if (step === null) {
+      throw new AdminMfaError('invalid_code', 'Invalid verification code', 401);
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.store.put({
+      ...record,
+      status: 'active',
+      confirmedAt: Date.now(),
+      lastUsedStep: step,
+      recoveryCodes: recoveryCodes.map(value => ({ hash: hashRecoveryCode(value) })),
+    });
+    return { recoveryCodes };
+  }
+
+  /**
+   * Check a TOTP code or, failing that format, a recovery code (which is then spent)
+   */
+  async verify(adminId: string, input: { code?: string; recoveryCode?: string }): Promise<AdminMfaVerification> {
+    const record = await this.store.get(adminId);
+    if (!record || record.status !== 'active') {
+      return { valid: false, reason: 'mfa_not_enrolled' };
+    }
+
+    if (input.code) {
+      const step = verifyTotp(decryptSecret(record.secret), input.code, { afterStep: record.lastUsedStep });
+      if (step === null) {
+        return { valid: false, reason: 'invalid_totp_code' };
+      }
+      await this.store.put({ ...record, lastUsedStep: step });
+      return { valid: true, method: 'totp', recoveryCodesRemaining: remainingCodes(record) };
+    }
+
+    if (input.recoveryCode) {
+      const hash = hashRecoveryCode(input.recoveryCode);
+      const match = record.recoveryCodes.find(code => code.hash === hash && !code.usedAt);
+      if (!match) {
+        return { valid: false, reason: 'invalid_recovery_code' };
+      }
+      match.usedAt = Date.now();
+      await this.store.put(record);
+      return { valid: true, method: 'recovery_code', recoveryCodesRemaining: remainingCodes(record) };
+    }
+
+    return { valid: false, reason: 'missing_code' };
+  }
+
+  /**
+   * Replace all recovery codes; requires a current TOTP code
+   */
+  async regenerateRecoveryCodes(adminId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+    const verification = await this.verify(adminId, { code });
+    if (!verification.valid) {
+      throw new AdminMfaError(verification.reason, 'Invalid verification code', 401);
+    }
+
+    const record = (await this.store.get(adminId))!;
+    const recoveryCodes = generateRecoveryCodes();
+    await this.store.put({ ...record, recoveryCodes: recoveryCodes.map(value => ({ hash: hashRecoveryCode(value) })) });
+    return { recoveryCodes };
+  }
+
+  async disable(adminId: string, code: string): Promise<void> {
+    const verification = await this.verify(adminId, { code });
+    if (!verification.valid) {
+      throw new AdminMfaError(verification.reason, 'Invalid verification code', 401);
+    }
+    await this.store.delete(adminId);
+  }
+}
+
+let mfaInstance: AdminMfa | null = null;
+
+export function getAdminMfa(): AdminMfa {
+  if (!mfaInstance) {
+    mfaInstance = new AdminMfa(createAdminMfaStore());
+  }
+  return mfaInstance;
+}
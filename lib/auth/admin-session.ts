@@ -0,0 +1,357 @@
+/**
+ * Admin Session Tokens
+ * Short-lived HS256 access tokens plus rotating refresh tokens, backed by a revocable session record
+ *
+ * Uses only Web Crypto and fetch so it runs in both the Node.js and Edge runtimes
+ */
+
+import type { RedisLike } from '@/lib/redis';
+import { resolveStoreBackend } from '@/lib/stores';
+import { getAdminIdentity } from '@/lib/auth/admin-directory';
+
+export type AdminTokenType = 'access' | 'refresh';
+
+export interface AdminTokenClaims {
+  /** Admin identity id */
+  sub: string;
+  /** Session id (revocation handle) */
+  sid: string;
+  typ: AdminTokenType;
+  /** Token id; refresh tokens rotate on every use */
+  jti: string;
+  /** True once a second factor was verified for this session */
+  mfa: boolean;
+  /** Epoch seconds */
+  iat: number;
+  exp: number;
+}
+
+export interface AdminSession {
+  id: string;
+  adminId: string;
+  createdAt: number;
+  /** Refresh token expiry; the session is unusable after this */
+  expiresAt: number;
+  /** jti of the only refresh token currently accepted */
+  refreshJti: string;
+  revokedAt?: number;
+  /** When the second factor was verified; absent for password-only sessions */
+  mfaVerifiedAt?: number;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface AdminSessionStore {
+  readonly kind: 'memory' | 'redis';
+  get(id: string): Promise<AdminSession | null>;
+  put(session: AdminSession): Promise<void>;
+  listByAdmin(adminId: string): Promise<AdminSession[]>;
+}
+
+export interface IssuedAdminTokens {
+  accessToken: string;
+  refreshToken: string;
+  /** Epoch milliseconds */
+  accessExpiresAt: number;
+  refreshExpiresAt: number;
+  session: AdminSession;
+}
+
+export type AdminTokenVerification =
+  | { valid: true; claims: AdminTokenClaims }
+  | { valid: false; reason: string };
+
+// === Configuration ===
+const ACCESS_TTL_SECONDS = parseInt(process.env.ADMIN_ACCESS_TOKEN_TTL || '900'); // 15 minutes
+const REFRESH_TTL_SECONDS = parseInt(process.env.ADMIN_REFRESH_TOKEN_TTL || '43200'); // 12 hours
+
+/**
+ * A second factor is enforced for every admin unless explicitly switched off
+ */
+export function isAdminMfaRequired(): boolean {
+  return process.env.ADMIN_MFA_REQUIRED !== 'false';
+}
+
+function sessionSecret(): string {
+  const secret = process.env.ADMIN_SESSION_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('admin:session_secret_missing - set ADMIN_SESSION_SECRET (at least 32 characters)');
+  }
+  return secret;
+}
+
+// === Encoding helpers ===
+const encoder = new TextEncoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const padded = value.replace(/-/g, '+').replace(/_/g, '/') + '==='.slice((value.length + 3) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function randomId(): string {
+  const bytes = new Uint8Array(18);
+  crypto.getRandomValues(bytes);
+  return base64UrlEncode(bytes);
+}
+
+let cachedKey: { secret: string; key: Promise<CryptoKey> } | null = null;
+
+function signingKey(): Promise<CryptoKey> {
+  const secret = sessionSecret();
+  if (!cachedKey || cachedKey.secret !== secret) {
+    cachedKey = {
+      secret,
+      key: crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']),
+    };
+  }
+  return cachedKey.key;
+}
+
+const HEADER = base64UrlEncode(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+
+async function signClaims(claims: AdminTokenClaims): Promise<string> {
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(), encoder.encode(`${HEADER}.${payload}`));
+  return `${HEADER}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Check signature, expiry and token type. Does not consult the session store
+ */
+export async function verifyAdminToken(token: string, expected: AdminTokenType): Promise<AdminTokenVerification> {
+  const parts = token.split('.');
+  if (parts.length !== 3 || parts[0] !== HEADER) {
+    return { valid: false, reason: 'invalid_token_format' };
+  }
+
+  let signature: Uint8Array;
+  let claims: AdminTokenClaims;
+  try {
+    signature = base64UrlDecode(parts[2]);
+    claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[1])));
+  } catch {
+    return { valid: false, reason: 'invalid_token_encoding' };
+  }
+
+  // crypto.subtle.verify compares in constant time
+  const ok = await crypto.subtle.verify('HMAC', await signingKey(), signature, encoder.encode(`${parts[0]}.${parts[1]}`));
+  if (!ok) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+  if (claims.typ !== expected) {
+    return { valid: false, reason: 'wrong_token_type' };
+  }
+  if (typeof claims.mfa !== 'boolean') {
+    return { valid: false, reason: 'invalid_token_claims' };
+  }
+  if (!claims.exp || claims.exp * 1000 <= Date.now()) {
+    return { valid: false, reason: 'token_expired' };
+  }
+  return { valid: true, claims };
+}
+
+// === Session stores ===
+export class MemoryAdminSessionStore implements AdminSessionStore {
+  readonly kind = 'memory' as const;
+  private sessions = new Map<string, AdminSession>();
+
+  async get(id: string) {
+    const session = this.sessions.get(id);
+    return session ? { ...session } : null;
+  }
+
+  async put(session: AdminSession) {
+    this.sessions.set(session.id, { ...session });
+    // Drop sessions that can no longer be refreshed
+    const now = Date.now();
+    this.sessions.forEach((value, key) => {
+      if (value.expiresAt < now) this.sessions.delete(key);
+    });
+  }
+
+  async listByAdmin(adminId: string) {
+    const sessions: AdminSession[] = [];
+    this.sessions.forEach(session => {
+      if (session.adminId === adminId) sessions.push({ ...session });
+    });
+    return sessions;
+  }
+}
+
+export class RedisAdminSessionStore implements AdminSessionStore {
+  readonly kind = 'redis' as const;
+
+  constructor(private readonly redis: RedisLike, private readonly prefix = 'admin:session') {}
+
+  async get(id: string) {
+    const raw = await this.redis.get(`${this.prefix}:${id}`);
+    return raw ? (JSON.parse(raw) as AdminSession) : null;
+  }
+
+  async put(session: AdminSession) {
+    const ttlMs = Math.max(1000, session.expiresAt - Date.now());
+    await this.redis.set(`${this.prefix}:${session.id}`, JSON.stringify(session), { px: ttlMs });
+
+    const indexKey = `${this.prefix}:by-admin:${session.adminId}`;
+    await this.redis.command(['SADD', indexKey, session.id]);
+    await this.redis.command(['PEXPIRE', indexKey, REFRESH_TTL_SECONDS * 1000]);
+  }
+
+  async listByAdmin(adminId: string) {
+    const ids = await this.redis.command<string[]>(['SMEMBERS', `${this.prefix}:by-admin:${adminId}`]);
+    const sessions = await Promise.all((ids || []).map(id => this.get(id)));
+    return sessions.filter((session): session is AdminSession => session !== null);
+  }
+}
+
+/**
+ * Redis when Upstash/Vercel KV credentials exist (shared across instances and the Edge runtime).
+ * Per-process memory is for development only; production refuses it, so admin logins fail closed
+ */
+export function createAdminSessionStore(): AdminSessionStore {
+  const backend = resolveStoreBackend({ name: 'admin-sessions', envVar: 'ADMIN_SESSION_STORE' });
+  return backend.kind === 'redis' ? new RedisAdminSessionStore(backend.redis) : new MemoryAdminSessionStore();
+}
+
+// Survive module re-evaluation in dev the same way the rate limit store does
+function sessionStore(): AdminSessionStore {
+  const globalKey = '__adminSessionStore';
+  if (!(globalThis as any)[globalKey]) {
+    (globalThis as any)[globalKey] = createAdminSessionStore();
+  }
+  return (globalThis as any)[globalKey];
+}
+
+export function getAdminSessionStore(): AdminSessionStore {
+  return sessionStore();
+}
+
+// === Session lifecycle ===
+async function issueTokens(session: AdminSession): Promise<IssuedAdminTokens> {
+  const now = Math.floor(Date.now() / 1000);
+  const accessExp = Math.min(now + ACCESS_TTL_SECONDS, Math.floor(session.expiresAt / 1000));
+  const mfa = !!session.mfaVerifiedAt;
+
+  const [accessToken, refreshToken] = await Promise.all([
+    signClaims({ sub: session.adminId, sid: session.id, typ: 'access', jti: randomId(), mfa, iat: now, exp: accessExp }),
+    signClaims({
+      sub: session.adminId,
+      sid: session.id,
+      typ: 'refresh',
+      jti: session.refreshJti,
+      mfa,
+      iat: now,
+      exp: Math.floor(session.expiresAt / 1000),
+    }),
+  ]);
+
+  return {
+    accessToken,
+    refreshToken,
+    accessExpiresAt: accessExp * 1000,
+    refreshExpiresAt: session.expiresAt,
+    session,
+  };
+}
+
+export async function createAdminSession(
+  adminId: string,
+  context: { ip?: string; userAgent?: string; mfa?: boolean } = {}
+): Promise<IssuedAdminTokens> {
+  const now = Date.now();
+  const session: AdminSession = {
+    id: randomId(),
+    adminId,
+    createdAt: now,
+    expiresAt: now + REFRESH_TTL_SECONDS * 1000,
+    refreshJti: randomId(),
+    mfaVerifiedAt: context.mfa ? now : undefined,
+    ip: context.ip,
+    userAgent: context.userAgent?.slice(0, 200),
+  };
+
+  await sessionStore().put(session);
+  return issueTokens(session);
+}
+
+/**
+ * Exchange a refresh token for a new access/refresh pair. Presenting an already-rotated
+ * refresh token means it leaked, so the whole session is revoked
+ */
+export async function refreshAdminSession(refreshToken: string): Promise<IssuedAdminTokens | { error: string }> {
+  const verification = await verifyAdminToken(refreshToken, 'refresh');
+  if (!verification.valid) {
+    return { error: verification.reason };
+  }
+
+  const store = sessionStore();
+  const session = await store.get(verification.claims.sid);
+  if (!session || session.revokedAt) {
+    return { error: 'session_revoked' };
+  }
+  if (session.refreshJti !== verification.claims.jti) {
+    await store.put({ ...session, revokedAt: Date.now() });
+    return { error: 'refresh_token_reused' };
+  }
+  if (!getAdminIdentity(session.adminId)) {
+    await store.put({ ...session, revokedAt: Date.now() });
+    return { error: 'admin_disabled' };
+  }
+
+  const rotated: AdminSession = { ...session, refreshJti: randomId() };
+  await store.put(rotated);
+  return issueTokens(rotated);
+}
+
+/**
+ * Verify an access token and make sure its session hasn't been revoked and its admin is still
+ * configured and enabled
+ */
+export async function verifyAdminAccessToken(token: string): Promise<AdminTokenVerification> {
+  const verification = await verifyAdminToken(token, 'access');
+  if (!verification.valid) return verification;
+
+  const session = await sessionStore().get(verification.claims.sid);
+  if (!session || session.revokedAt) {
+    return { valid: false, reason: 'session_revoked' };
+  }
+  if (!getAdminIdentity(verification.claims.sub)) {
+    return { valid: false, reason: 'admin_disabled' };
+  }
+  return verification;
+}
+
+export async function revokeAdminSession(sessionId: string): Promise<boolean> {
+  const store = sessionStore();
+  const session = await store.get(sessionId);
+  if (!session || session.revokedAt) return false;
+
+  await store.put({ ...session, revokedAt: Date.now() });
+  return true;
+}
+
+/**
+ * Revoke every live session of an admin, optionally keeping the one making the request
+ */
+export async function revokeAllAdminSessions(adminId: string, keepSessionId?: string): Promise<number> {
+  const store = sessionStore();
+  const sessions = await store.listByAdmin(adminId);
+  const active = sessions.filter(session => !session.revokedAt && session.id !== keepSessionId);
+  await Promise.all(active.map(session => store.put({ ...session, revokedAt: Date.now() })));
+  return active.length;
+}
+
+export function extractAdminToken(headers: Headers): string | null {
+  const authHeader = headers.get('authorization');
+  if (authHeader?.startsWith('Bearer ')) return authHeader.slice(7).trim() || null;
+  return headers.get('x-admin-token');
+}
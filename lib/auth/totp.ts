@@ -0,0 +1,135 @@
+/**
+ * TOTP (RFC 6238) and HOTP (RFC 4226)
+ * SHA-1, 30 second steps and 6 digits: the defaults every authenticator app supports
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export interface TotpOptions {
+  /** Step length in seconds */
+  period: number;
+  digits: number;
+  /** Steps accepted on either side of the current one, for clock drift */
+  window: number;
+}
+
+export const TOTP_DEFAULTS: TotpOptions = {
+  period: 30,
+  digits: 6,
+  window: 1,
+};
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (let i = 0; i < cleaned.length; i++) {
+    const index = BASE32_ALPHABET.indexOf(cleaned[i]);
+    if (index === -1) {
+      throw new Error(`totp:invalid_base32 - unexpected character "${cleaned[i]}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * 160-bit secret, base32 encoded as authenticator apps expect
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function hotp(secret: string, counter: number, digits = TOTP_DEFAULTS.digits): string {
+  const message = Buffer.alloc(8);
+  // Counters stay far below 2^53, so split into two 32-bit halves
+  message.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+  message.writeUInt32BE(counter >>> 0, 4);
+
+  const digest = createHmac('sha1', base32Decode(secret)).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary =
+    ((digest[offset] & 0x7f) << 24) |
+    (digest[offset + 1] << 16) |
+    (digest[offset + 2] << 8) |
+    digest[offset + 3];
+
+  return (binary % Math.pow(10, digits)).toString().padStart(digits, '0');
+}
+
+export function totpStep(time = Date.now(), period = TOTP_DEFAULTS.period): number {
+  return Math.floor(time / 1000 / period);
+}
+
+export function generateTotp(secret: string, time = Date.now(), options: Partial<TotpOptions> = {}): string {
+  const { period, digits } = { ...TOTP_DEFAULTS, ...options };
+  return hotp(secret, totpStep(time, period), digits);
+}
+
+/**
+ * Returns the matching time step, or null. Callers store the step and reject anything
+ * at or before it so a code can't be replayed inside its validity window
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: Partial<TotpOptions> & { time?: number; afterStep?: number } = {}
+): number | null {
+  const { period, digits, window } = { ...TOTP_DEFAULTS, ...options };
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) {
+    return null;
+  }
+
+  const current = totpStep(options.time ?? Date.now(), period);
+  for (let step = current - window; step <= current + window; step++) {
+    if (options.afterStep !== undefined && step <= options.afterStep) continue;
+    if (timingSafeEqual(Buffer.from(hotp(secret, step, digits)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * otpauth:// URI for QR codes and manual entry in authenticator apps
+ */
+export function totpUri(secret: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DEFAULTS.digits),
+    period: String(TOTP_DEFAULTS.period),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,141 @@
+/**
+ * Minimal S3-compatible object storage client
+ * Signs requests with AWS Signature V4 over fetch, so it works against AWS S3, Cloudflare R2, MinIO
+ * and other S3-compatible services without an SDK
+ *
+ * Node.js runtime only (crypto)
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { StoreConfigurationError } from '@/lib/stores';
+
+export interface BlobLike {
+  put(key: string, data: Uint8Array, contentType?: string): Promise<void>;
+  /** null when the object does not exist */
+  get(key: string): Promise<Uint8Array | null>;
+  delete(key: string): Promise<void>;
+}
+
+export interface BlobStorageConfig {
+  bucket: string;
+  region: string;
+  /** Service endpoint; path-style URLs (`<endpoint>/<bucket>/<key>`) are used */
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/**
+ * Resolve S3 credentials from S3_BUCKET, S3_REGION, S3_ENDPOINT (optional for AWS),
+ * S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY
+ */
+export function getBlobStorageConfig(): BlobStorageConfig | null {
+  const bucket = process.env.S3_BUCKET;
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+  if (!bucket || !accessKeyId || !secretAccessKey) return null;
+
+  const region = process.env.S3_REGION || 'us-east-1';
+  const endpoint = (process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/$/, '');
+  return { bucket, region, endpoint, accessKeyId, secretAccessKey };
+}
+
+function sha256Hex(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, value: string): Buffer {
+  return createHmac('sha256', key).update(value).digest();
+}
+
+/** RFC 3986 encoding as SigV4 expects; '/' separates key segments and stays as is */
+function encodeKey(key: string): string {
+  return key.split('/').map(segment =>
+    encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+  ).join('/');
+}
+
+export function createBlobClient(config: BlobStorageConfig): BlobLike {
+  const endpoint = new URL(config.endpoint);
+
+  const request = async (method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Uint8Array, contentType?: string) => {
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const day = amzDate.slice(0, 8);
+    const canonicalPath = `${endpoint.pathname.replace(/\/$/, '')}/${encodeKey(config.bucket)}/${encodeKey(key)}`;
+    const payloadHash = sha256Hex(body || '');
+
+    const headers: Record<string, string> = {
+      host: endpoint.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...(contentType && { 'content-type': contentType }),
+    };
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      canonicalPath,
+      '',
+      ...signedHeaders.map(name => `${name}:${headers[name]}`),
+      '',
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${day}/${config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${config.secretAccessKey}`, day), config.region)
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host: _host, ...sentHeaders } = headers;
+    return fetch(`${endpoint.origin}${canonicalPath}`, {
+      method,
+      headers: {
+        ...sentHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+      body: body ? Buffer.from(body) : undefined,
+      cache: 'no-store',
+    });
+  };
+
+  const fail = async (operation: string, response: Response): Promise<never> => {
+    const text = await response.text().catch(() => '');
+    const code = text.match(/<Code>([^<]+)<\/Code>/)?.[1] || response.status;
+    throw new Error(`blob:${operation}:${code}`);
+  };
+
+  return {
+    async put(key, data, contentType = 'application/octet-stream') {
+      const response = await request('PUT', key, data, contentType);
+      if (!response.ok) await fail('put', response);
+    },
+    async get(key) {
+      const response = await request('GET', key);
+      if (response.status === 404) return null;
+      if (!response.ok) await fail('get', response);
+      return new Uint8Array(await response.arrayBuffer());
+    },
+    async delete(key) {
+      const response = await request('DELETE', key);
+      if (!response.ok && response.status !== 404) await fail('delete', response);
+    },
+  };
+}
+
+/**
+ * The configured object storage, for stores that keep binary data next to their Redis records
+ */
+export function requireBlobClient(store: string): BlobLike {
+  const config = getBlobStorageConfig();
+  if (!config) {
+    throw new StoreConfigurationError(
+      store,
+      'binary data needs object storage: set S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY (plus S3_REGION or S3_ENDPOINT)'
+    );
+  }
+  return createBlobClient(config);
+}
@@ -1,46 +1,48 @@
-// Blog data utilities for JSON-based blog system
+// Blog data utilities for the file-based blog (content/blog, see lib/blog/content)
 
-export interface BlogPost {
-  slug: string;
-  title: string;
-  excerpt: string;
-  date: string;
-  readTime: string;
-  category: string;
-  image: string;
-  tags: string[];
-  author: string;
-  content: string;
+import {
+  type BlogPost,
+  getPostStatus,
+  isPublished,
+  loadBlogContent,
+  readBlogIndex,
+} from '@/lib/blog/content';
+
+export type { BlogPost, BlogPostStatus } from '@/lib/blog/content';
+export { getPostStatus, isPublished };
+
+export interface BlogQueryOptions {
+  /** Also return drafts and scheduled posts (previews, admin tooling) */
+  includeUnpublished?: boolean;
 }
 
-export interface BlogData {
-  posts: BlogPost[];
+let cachedPosts: BlogPost[] | null = null;
+
+// Production serves the build-time index (read once per process); development reads the files
+async function loadAllPosts(): Promise<BlogPost[]> {
+  if (process.env.NODE_ENV === 'production' && cachedPosts) return cachedPosts;
+
+  const index = process.env.NODE_ENV === 'production' ? await readBlogIndex() : null;
+  let posts = index?.posts;
+  if (!posts) {
+    const content = await loadBlogContent();
+    for (const issue of content.issues) {
+      console.error(`Skipping blog post ${issue.file}: ${issue.message}`);
+    }
+    posts = content.posts;
+  }
+
+  if (process.env.NODE_ENV === 'production') cachedPosts = posts;
+  return posts;
 }
 
-// Get all blog posts from JSON file
-export async function getBlogPosts(): Promise<BlogPost[]> {
+// Get all published blog posts, newest first
+export async function getBlogPosts(options: BlogQueryOptions = {}): Promise<BlogPost[]> {
   try {
-    // For server-side rendering, read the file directly
-    if (typeof window === 'undefined') {
-      const fs = await import('fs');
-      const path = await import('path');
-      const filePath = path.join(process.cwd(), 'public/data/blog-posts.json');
-      const fileContents = fs.readFileSync(filePath, 'utf8');
-      const data: BlogData = JSON.parse(fileContents);
-      return data.posts.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    } else {
-      // For client-side, use fetch
-      const response = await fetch('/data/blog-posts.json', {
-        cache: 'no-store' // Always get fresh data
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch blog posts');
-      }
-      
-      const data: BlogData = await response.json();
-      return data.posts.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    }
+    const posts = await loadAllPosts();
+    if (options.includeUnpublished) return posts;
+    const now = new Date();
+    return posts.filter(post => isPublished(post, now));
   } catch (error) {
     console.error('Error loading blog posts:', error);
     return [];
@@ -48,9 +50,9 @@ export async function getBlogPosts(): Promise<BlogPost[]> {
 }
 
 // Get single blog post by slug
-export async function getBlogPost(slug: string): Promise<BlogPost | null> {
+export async function getBlogPost(slug: string, options: BlogQueryOptions = {}): Promise<BlogPost | null> {
   try {
-    const posts = await getBlogPosts();
+    const posts = await getBlogPosts(options);
     return posts.find(post => post.slug === slug) || null;
   } catch (error) {
     console.error(`Error loading blog post ${slug}:`, error);
@@ -97,4 +99,33 @@ export async function searchPosts(query: string): Promise<BlogPost[]> {
     console.error(`Error searching posts for query ${query}:`, error);
     return [];
   }
-}
\ No newline at end of file
+}
+// Posts sharing tags (2 points each) or the category (1 point, also when it is one of the other
+// post's tags) with a post, best matches first; the latest posts fill any remaining places
+export async function getRelatedPosts(post: BlogPost, limit = 3): Promise<BlogPost[]> {
+  try {
+    const posts = (await getBlogPosts()).filter(candidate => candidate.slug !== post.slug);
+    const tags = new Set(post.tags.map(tag => tag.toLowerCase()));
+    const category = post.category.toLowerCase();
+
+    const related = posts
+      .map(candidate => {
+        const candidateTags = candidate.tags.map(tag => tag.toLowerCase());
+        const sharedTags = candidateTags.filter(tag => tags.has(tag)).length;
+        const sharedCategory = candidate.category.toLowerCase() === category ||
+          candidateTags.includes(category) || tags.has(candidate.category.toLowerCase());
+        return { candidate, score: sharedTags * 2 + (sharedCategory ? 1 : 0) };
+      })
+      .filter(({ score }) => score > 0)
+      // Posts are already newest first, and the sort is stable
+      .sort((a, b) => b.score - a.score)
+      .map(({ candidate }) => candidate)
+      .slice(0, limit);
+
+    const latest = posts.filter(candidate => !related.includes(candidate));
+    return [...related, ...latest].slice(0, limit);
+  } catch (error) {
+    console.error(`Error loading related posts for ${post.slug}:`, error);
+    return [];
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Blog Content
+ * Posts are Markdown/MDX files in content/blog; the file name is the slug. Frontmatter is checked
+ * against BlogFrontmatterSchema, the body is rendered once to catch broken embeds, and the reading
+ * time is computed from the rendered text
+ *
+ * `npm run content:index` (run before every build) writes all posts, drafts and scheduled ones
+ * included, to .content/blog-index.json. Production reads that index; development reads the files
+ * so edits show up on reload. Whether a post is live is decided on each request (isPublished), so
+ * scheduled posts appear on their date without a rebuild
+ */
+
+import { readdir, readFile, mkdir, writeFile, rename } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { FrontmatterError, parseFrontmatter } from './frontmatter';
+import { MarkdownEmbedError, plainText, renderMarkdown } from './markdown';
+import { BLOG_EMBEDS } from './embeds';
+
+export const BLOG_CONTENT_DIR = path.join(process.cwd(), 'content', 'blog');
+export const BLOG_INDEX_PATH = path.join(process.cwd(), '.content', 'blog-index.json');
+
+const BLOG_INDEX_VERSION = 1;
+const WORDS_PER_MINUTE = 200;
+const SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const CONTENT_EXTENSIONS = ['.md', '.mdx'];
+
+// A date (2024-02-12) or a date-time with offset (2024-02-12T09:00:00+01:00)
+const PublishDate = z.union([z.string(), z.date()])
+  .transform(value => (value instanceof Date ? value.toISOString() : value))
+  .refine(
+    value => /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?$/.test(value) && !isNaN(Date.parse(value)),
+    { message: 'must be YYYY-MM-DD or an ISO date-time with offset' }
+  );
+
+export const BlogFrontmatterSchema = z.object({
+  title: z.string().trim().min(1).max(160),
+  excerpt: z.string().trim().min(1).max(400),
+  /** Publication date; a future date schedules the post */
+  date: PublishDate,
+  updated: PublishDate.optional(),
+  category: z.string().trim().min(1).max(60),
+  image: z.string().regex(/^\/(?!\/)\S+$/, 'must be a site-relative path such as /images/blog/post.jpg'),
+  author: z.string().trim().min(1).max(100),
+  tags: z.array(z.string().trim().min(1).max(40)).max(12).default([]),
+  /** Drafts are never published */
+  draft: z.boolean().default(false),
+}).strict();
+
+export type BlogFrontmatter = z.infer<typeof BlogFrontmatterSchema>;
+
+export interface BlogPost {
+  slug: string;
+  title: string;
+  excerpt: string;
+  date: string;
+  updated?: string;
+  category: string;
+  image: string;
+  tags: string[];
+  author: string;
+  draft: boolean;
+  /** Markdown body, embeds included */
+  content: string;
+  wordCount: number;
+  readingMinutes: number;
+  /** e.g. "5 min read" */
+  readTime: string;
+  /** Content file relative to the project root */
+  sourcePath: string;
+}
+
+export type BlogPostStatus = 'published' | 'scheduled' | 'draft';
+
+export interface BlogIndex {
+  version: number;
+  generatedAt: string;
+  posts: BlogPost[];
+}
+
+export interface BlogContentIssue {
+  file: string;
+  message: string;
+}
+
+export class BlogContentError extends Error {
+  constructor(public readonly issues: BlogContentIssue[]) {
+    super(`Invalid blog content:\n${issues.map(issue => `  ${issue.file}: ${issue.message}`).join('\n')}`);
+    this.name = 'BlogContentError';
+  }
+}
+
+export function getPostStatus(post: Pick<BlogPost, 'date' | 'draft'>, now = new Date()): BlogPostStatus {
+  if (post.draft) return 'draft';
+  return Date.parse(post.date) > now.getTime() ? 'scheduled' : 'published';
+}
+
+export function isPublished(post: Pick<BlogPost, 'date' | 'draft'>, now = new Date()): boolean {
+  return getPostStatus(post, now) === 'published';
+}
+
+export function readingTime(text: string): { wordCount: number; readingMinutes: number; readTime: string } {
+  const wordCount = text.split(/\s+/).filter(Boolean).length;
+  const readingMinutes = Math.max(1, Math.ceil(wordCount / WORDS_PER_MINUTE));
+  return { wordCount, readingMinutes, readTime: `${readingMinutes} min read` };
+}
+
+/**
+ * Parses and validates one content file; throws FrontmatterError, MarkdownEmbedError or a
+ * BlogContentError with the schema issues
+ */
+export function parseBlogPost(sourcePath: string, source: string): BlogPost {
+  const slug = path.basename(sourcePath, path.extname(sourcePath));
+  if (!SLUG.test(slug)) {
+    throw new BlogContentError([{ file: sourcePath, message: 'file name must be a lowercase, hyphenated slug' }]);
+  }
+
+  const { data, body } = parseFrontmatter(source);
+  const result = BlogFrontmatterSchema.safeParse(data);
+  if (!result.success) {
+    throw new BlogContentError(result.error.issues.map(issue => ({
+      file: sourcePath,
+      message: `${issue.path.join('.') || 'frontmatter'}: ${issue.message}`,
+    })));
+  }
+  if (body.trim() === '') {
+    throw new BlogContentError([{ file: sourcePath, message: 'post has no body' }]);
+  }
+
+  const { html } = renderMarkdown(body, { embeds: BLOG_EMBEDS });
+  const frontmatter = result.data;
+
+  return {
+    slug,
+    ...frontmatter,
+    content: body,
+    ...readingTime(plainText(html)),
+    sourcePath,
+  };
+}
+
+function newestFirst(a: BlogPost, b: BlogPost): number {
+  return Date.parse(b.date) - Date.parse(a.date) || a.slug.localeCompare(b.slug);
+}
+
+/**
+ * Every post in the content directory, newest first, plus the problems with the files that could
+ * not be read. Callers decide whether a problem is fatal (the index build) or just logged (runtime)
+ */
+export async function loadBlogContent(dir = BLOG_CONTENT_DIR): Promise<{ posts: BlogPost[]; issues: BlogContentIssue[] }> {
+  let files: string[];
+  try {
+    files = (await readdir(dir)).filter(file => CONTENT_EXTENSIONS.includes(path.extname(file))).sort();
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return { posts: [], issues: [] };
+    throw error;
+  }
+
+  const posts: BlogPost[] = [];
+  const issues: BlogContentIssue[] = [];
+  const slugs = new Map<string, string>();
+
+  for (const file of files) {
+    const sourcePath = path.relative(process.cwd(), path.join(dir, file));
+    try {
+      const post = parseBlogPost(sourcePath, await readFile(path.join(dir, file), 'utf-8'));
+      const existing = slugs.get(post.slug);
+      if (existing) {
+        issues.push({ file: sourcePath, message: `slug "${post.slug}" is already used by ${existing}` });
+        continue;
+      }
+      slugs.set(post.slug, sourcePath);
+      posts.push(post);
+    } catch (error) {
+      if (error instanceof BlogContentError) {
+        issues.push(...error.issues);
+      } else if (error instanceof FrontmatterError || error instanceof MarkdownEmbedError) {
+        issues.push({ file: sourcePath, message: error.message });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  return { posts: posts.sort(newestFirst), issues };
+}
+
+/**
+ * Validates all content and writes the index; throws BlogContentError if any file is invalid
+ */
+export async function buildBlogIndex(dir = BLOG_CONTENT_DIR, indexPath = BLOG_INDEX_PATH): Promise<BlogIndex> {
+  const { posts, issues } = await loadBlogContent(dir);
+  if (issues.length > 0) throw new BlogContentError(issues);
+
+  const index: BlogIndex = { version: BLOG_INDEX_VERSION, generatedAt: new Date().toISOString(), posts };
+  await mkdir(path.dirname(indexPath), { recursive: true });
+  const temporary = `${indexPath}.${process.pid}.tmp`;
+  await writeFile(temporary, JSON.stringify(index), 'utf-8');
+  await rename(temporary, indexPath);
+  return index;
+}
+
+/** The index written by buildBlogIndex, or null when there is none or it is from another version */
+export async function readBlogIndex(indexPath = BLOG_INDEX_PATH): Promise<BlogIndex | null> {
+  try {
+    const index = JSON.parse(await readFile(indexPath, 'utf-8')) as BlogIndex;
+    return index.version === BLOG_INDEX_VERSION && Array.isArray(index.posts) ? index : null;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Blog Embeds
+ * Components that blog posts can place between paragraphs. Each one validates its attributes and
+ * renders to the same escaped, tag-limited HTML as the rest of the post (see lib/blog/markdown)
+ *
+ *   <Callout type="tip" title="Optional title">        Markdown body; type is info, tip, warning or note
+ *   </Callout>
+ *
+ *   <ServiceCTA service="3d-printing" />               Card linking to a page under /services
+ *
+ *   <Gallery columns="3">                              One Markdown image per line; the image title
+ *   ![Alt text](/images/blog/a.jpg "Caption")          becomes the caption
+ *   </Gallery>
+ */
+
+import { z } from 'zod';
+import { servicesData } from '@/lib/services';
+import { escapeHtml, type MarkdownEmbed, MarkdownEmbedError, renderInline, safeImageUrl } from './markdown';
+
+function parseAttributes<T>(name: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, attributes: Record<string, string>): T {
+  const result = schema.safeParse(attributes);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'attributes'}: ${issue.message}`);
+    throw new MarkdownEmbedError(`<${name}> ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+const CalloutSchema = z.object({
+  type: z.enum(['info', 'tip', 'warning', 'note']).default('info'),
+  title: z.string().min(1).max(120).optional(),
+}).strict();
+
+const CALLOUT_LABELS: Record<z.infer<typeof CalloutSchema>['type'], string> = {
+  info: 'Info',
+  tip: 'Tip',
+  warning: 'Warning',
+  note: 'Note',
+};
+
+const callout: MarkdownEmbed = {
+  render(attributes, body, markdown) {
+    const { type, title } = parseAttributes('Callout', CalloutSchema, attributes);
+    if (body.trim() === '') throw new MarkdownEmbedError('<Callout> needs a body');
+    return [
+      `<aside class="blog-callout blog-callout-${type}" role="note">`,
+      `<p class="blog-callout-title">${renderInline(title || CALLOUT_LABELS[type])}</p>`,
+      markdown(body),
+      '</aside>',
+    ].join('\n');
+  },
+};
+
+const ServiceCTASchema = z.object({
+  service: z.string().refine(slug => Object.prototype.hasOwnProperty.call(servicesData, slug), {
+    message: `must be one of ${Object.keys(servicesData).join(', ')}`,
+  }),
+  label: z.string().min(1).max(60).optional(),
+}).strict();
+
+const serviceCta: MarkdownEmbed = {
+  render(attributes, body) {
+    const { service: slug, label } = parseAttributes('ServiceCTA', ServiceCTASchema, attributes);
+    if (body.trim() !== '') throw new MarkdownEmbedError('<ServiceCTA> takes no body; write it as <ServiceCTA ... />');
+    const service = servicesData[slug];
+    return [
+      '<aside class="blog-service-cta">',
+      `<p class="blog-service-cta-title">${escapeHtml(service.title)}</p>`,
+      `<p>${escapeHtml(service.description)}</p>`,
+      `<a href="/services/${escapeHtml(service.slug)}" class="blog-service-cta-link">${escapeHtml(label || `Explore ${service.title}`)}</a>`,
+      '</aside>',
+    ].join('\n');
+  },
+};
+
+const GallerySchema = z.object({
+  columns: z.enum(['2', '3', '4']).default('3'),
+}).strict();
+
+const GALLERY_IMAGE = /^!\[([^\]]*)\]\(\s*(\S+?)(?:\s+"([^"]*)")?\s*\)$/;
+
+const gallery: MarkdownEmbed = {
+  render(attributes, body) {
+    const { columns } = parseAttributes('Gallery', GallerySchema, attributes);
+    const lines = body.split('\n').map(line => line.trim()).filter(Boolean);
+    if (lines.length === 0) throw new MarkdownEmbedError('<Gallery> needs at least one image');
+
+    const figures = lines.map(line => {
+      const match = line.match(GALLERY_IMAGE);
+      if (!match) throw new MarkdownEmbedError(`<Gallery> lines must be Markdown images, got "${line}"`);
+      const [, alt, url, caption] = match;
+      const src = safeImageUrl(url);
+      if (src === null) throw new MarkdownEmbedError(`<Gallery> image URL "${url}" is not allowed`);
+      if (!alt.trim()) throw new MarkdownEmbedError(`<Gallery> image "${url}" needs alt text`);
+      return [
+        '<figure>',
+        `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}" loading="lazy">`,
+        caption ? `<figcaption>${renderInline(caption)}</figcaption>` : '',
+        '</figure>',
+      ].join('');
+    });
+
+    return `<div class="blog-gallery blog-gallery-${columns}">\n${figures.join('\n')}\n</div>`;
+  },
+};
+
+export const BLOG_EMBEDS: Record<string, MarkdownEmbed> = {
+  Callout: callout,
+  ServiceCTA: serviceCta,
+  Gallery: gallery,
+};
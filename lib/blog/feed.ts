@@ -0,0 +1,325 @@
+/**
+ * Blog Feeds
+ * RSS 2.0, Atom 1.0 and JSON Feed 1.1 for all posts (/blog/feed.xml, /blog/atom.xml,
+ * /blog/feed.json) and for each category (/blog/category/{category}/feed.xml, ...)
+ *
+ * Items carry the full rendered post (embeds included) with links and images made absolute, the
+ * category and tags, the author and the cover image as an enclosure. Only published posts are
+ * listed, so scheduled posts enter the feeds on their date
+ */
+
+import { stat } from 'fs/promises';
+import path from 'path';
+import type { Metadata } from 'next';
+import { getBlogPosts, type BlogPost } from '@/lib/blog-data';
+import { SITE_URL } from '@/lib/constants';
+import { BLOG_EMBEDS } from './embeds';
+import { escapeHtml, renderMarkdown, slugify } from './markdown';
+
+export type BlogFeedFormat = 'rss' | 'atom' | 'json';
+
+const FEED_TITLE = 'IdEinstein Engineering Blog';
+const FEED_DESCRIPTION = 'Insights on product development, engineering design, simulation and manufacturing from IdEinstein.';
+const FEED_LANGUAGE = 'en';
+const FEED_LIMIT = 20;
+
+const FEED_FILES: Record<BlogFeedFormat, { file: string; contentType: string; label: string }> = {
+  rss: { file: 'feed.xml', contentType: 'application/rss+xml', label: 'RSS' },
+  atom: { file: 'atom.xml', contentType: 'application/atom+xml', label: 'Atom' },
+  json: { file: 'feed.json', contentType: 'application/feed+json', label: 'JSON Feed' },
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.svg': 'image/svg+xml',
+};
+
+interface FeedEnclosure {
+  url: string;
+  type: string;
+  /** Bytes; 0 when unknown (remote images) */
+  length: number;
+}
+
+export interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  html: string;
+  published: string;
+  updated: string;
+  author: string;
+  categories: string[];
+  image: FeedEnclosure | null;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  /** The blog page the feed follows */
+  homeUrl: string;
+  /** Where this feed lives, by format */
+  feedUrls: Record<BlogFeedFormat, string>;
+  updated: string;
+  items: FeedItem[];
+}
+
+/** Path of a feed: the whole blog, or one category by its slug */
+export function blogFeedPath(format: BlogFeedFormat, categorySlug?: string): string {
+  const base = categorySlug ? `/blog/category/${categorySlug}` : '/blog';
+  return `${base}/${FEED_FILES[format].file}`;
+}
+
+/**
+ * Autodiscovery links for `metadata.alternates.types`. Pages that set their own `alternates`
+ * replace the blog layout's, so they spread these in again
+ */
+export function blogFeedAlternates(): NonNullable<Metadata['alternates']>['types'] {
+  return Object.fromEntries(
+    (Object.keys(FEED_FILES) as BlogFeedFormat[]).map(format => [
+      FEED_FILES[format].contentType,
+      [{ url: blogFeedPath(format), title: `${FEED_TITLE} (${FEED_FILES[format].label})` }],
+    ])
+  );
+}
+
+/** Category slugs of published posts, mapped to the category name */
+export async function getFeedCategories(): Promise<Map<string, string>> {
+  const posts = await getBlogPosts();
+  return new Map(posts.map(post => [slugify(post.category), post.category]));
+}
+
+function absoluteUrl(url: string, base: string = SITE_URL): string {
+  return new URL(url, base).toString();
+}
+
+/** Rendered HTML is read outside the site, so every link and image has to be absolute */
+function absolutizeHtml(html: string, base: string): string {
+  return html.replace(/\b(href|src)="([^"]*)"/g, (match, attribute: string, value: string) => {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(value)) return match;
+    try {
+      return `${attribute}="${escapeHtml(absoluteUrl(value.replace(/&amp;/g, '&'), base))}"`;
+    } catch {
+      return match;
+    }
+  });
+}
+
+async function enclosureFor(image: string): Promise<FeedEnclosure | null> {
+  const type = IMAGE_TYPES[path.extname(new URL(image, SITE_URL).pathname).toLowerCase()];
+  if (!type) return null;
+  if (/^https?:/i.test(image)) return { url: image, type, length: 0 };
+
+  // Local images are listed only when the file exists, with their size as RSS requires
+  try {
+    const file = path.join(process.cwd(), 'public', decodeURIComponent(image.split(/[?#]/)[0]));
+    const { size } = await stat(file);
+    return { url: absoluteUrl(image), type, length: size };
+  } catch {
+    return null;
+  }
+}
+
+async function toFeedItem(post: BlogPost): Promise<FeedItem> {
+  const url = absoluteUrl(`/blog/${post.slug}`);
+  const { html } = renderMarkdown(post.content, { embeds: BLOG_EMBEDS });
+  const published = new Date(post.date).toISOString();
+  return {
+    id: url,
+    url,
+    title: post.title,
+    summary: post.excerpt,
+    html: absolutizeHtml(html, url),
+    published,
+    updated: post.updated ? new Date(post.updated).toISOString() : published,
+    author: post.author,
+    categories: Array.from(new Set([post.category, ...post.tags])),
+    image: await enclosureFor(post.image),
+  };
+}
+
+/**
+ * The feed for all posts or for one category; null when no published post has that category
+ */
+export async function getBlogFeed(categorySlug?: string): Promise<Feed | null> {
+  let posts = await getBlogPosts();
+  let title = FEED_TITLE;
+  let description = FEED_DESCRIPTION;
+  const homeUrl = absoluteUrl('/blog');
+
+  if (categorySlug) {
+    posts = posts.filter(post => slugify(post.category) === categorySlug);
+    if (posts.length === 0) return null;
+    const category = posts[0].category;
+    title = `${FEED_TITLE}: ${category}`;
+    description = `${category} articles from the IdEinstein engineering blog.`;
+  }
+
+  const items = await Promise.all(posts.slice(0, FEED_LIMIT).map(toFeedItem));
+  const feedUrls = Object.fromEntries(
+    (Object.keys(FEED_FILES) as BlogFeedFormat[]).map(format => [format, absoluteUrl(blogFeedPath(format, categorySlug))])
+  ) as Record<BlogFeedFormat, string>;
+  const updated = items.reduce(
+    (latest, item) => (item.updated > latest ? item.updated : latest),
+    items[0]?.updated || new Date(0).toISOString()
+  );
+
+  return { title, description, homeUrl, feedUrls, updated, items };
+}
+
+// ---------------------------------------------------------------------------
+// Serializers
+// ---------------------------------------------------------------------------
+
+/** XML 1.0's Char production: tab, line breaks and everything from U+0020 up, except surrogates, U+FFFE and U+FFFF */
+function isXmlCharacter(codePoint: number): boolean {
+  return codePoint === 0x9 || codePoint === 0xa || codePoint === 0xd
+    || (codePoint >= 0x20 && codePoint <= 0xd7ff)
+    || (codePoint >= 0xe000 && codePoint <= 0xfffd)
+    || (codePoint >= 0x10000 && codePoint <= 0x10ffff);
+}
+
+/** Drops characters XML 1.0 does not allow anywhere, escaped or not */
+function xmlCharacters(value: string): string {
+  // Iterating by code point keeps surrogate pairs whole and yields lone surrogates on their own
+  return Array.from(value).filter(character => isXmlCharacter(character.codePointAt(0) ?? 0)).join('');
+}
+
+/** XML text or attribute value */
+function xml(value: string): string {
+  return escapeHtml(xmlCharacters(value));
+}
+
+/** HTML inside CDATA; a literal "]]>" is split across two sections */
+function cdata(html: string): string {
+  return `<![CDATA[${xmlCharacters(html).replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+export function renderRss(feed: Feed): string {
+  const items = feed.items.map(item => [
+    '    <item>',
+    `      <title>${xml(item.title)}</title>`,
+    `      <link>${xml(item.url)}</link>`,
+    `      <guid isPermaLink="true">${xml(item.id)}</guid>`,
+    `      <pubDate>${new Date(item.published).toUTCString()}</pubDate>`,
+    `      <dc:creator>${xml(item.author)}</dc:creator>`,
+    ...item.categories.map(category => `      <category>${xml(category)}</category>`),
+    `      <description>${xml(item.summary)}</description>`,
+    `      <content:encoded>${cdata(item.html)}</content:encoded>`,
+    ...(item.image
+      ? [`      <enclosure url="${xml(item.image.url)}" length="${item.image.length}" type="${item.image.type}"/>`]
+      : []),
+    '    </item>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${xml(feed.title)}</title>`,
+    `    <link>${xml(feed.homeUrl)}</link>`,
+    `    <description>${xml(feed.description)}</description>`,
+    `    <language>${FEED_LANGUAGE}</language>`,
+    `    <lastBuildDate>${new Date(feed.updated).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${xml(feed.feedUrls.rss)}" rel="self" type="${FEED_FILES.rss.contentType}"/>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+export function renderAtom(feed: Feed): string {
+  const entries = feed.items.map(item => [
+    '  <entry>',
+    `    <id>${xml(item.id)}</id>`,
+    `    <title>${xml(item.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${xml(item.url)}"/>`,
+    ...(item.image
+      ? [`    <link rel="enclosure" type="${item.image.type}" href="${xml(item.image.url)}"${item.image.length ? ` length="${item.image.length}"` : ''}/>`]
+      : []),
+    `    <published>${item.published}</published>`,
+    `    <updated>${item.updated}</updated>`,
+    `    <author><name>${xml(item.author)}</name></author>`,
+    ...item.categories.map(category => `    <category term="${xml(category)}"/>`),
+    `    <summary>${xml(item.summary)}</summary>`,
+    `    <content type="html">${xml(item.html)}</content>`,
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${FEED_LANGUAGE}">`,
+    `  <id>${xml(feed.feedUrls.atom)}</id>`,
+    `  <title>${xml(feed.title)}</title>`,
+    `  <subtitle>${xml(feed.description)}</subtitle>`,
+    `  <link rel="self" type="${FEED_FILES.atom.contentType}" href="${xml(feed.feedUrls.atom)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${xml(feed.homeUrl)}"/>`,
+    `  <updated>${feed.updated}</updated>`,
+    `  <icon>${absoluteUrl('/logo.png')}</icon>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+export function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrls.json,
+    icon: absoluteUrl('/logo.png'),
+    language: FEED_LANGUAGE,
+    items: feed.items.map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      content_html: item.html,
+      date_published: item.published,
+      date_modified: item.updated,
+      authors: [{ name: item.author }],
+      tags: item.categories,
+      ...(item.image && {
+        image: item.image.url,
+        attachments: [{
+          url: item.image.url,
+          mime_type: item.image.type,
+          ...(item.image.length && { size_in_bytes: item.image.length }),
+        }],
+      }),
+    })),
+  }, null, 2);
+}
+
+const RENDERERS: Record<BlogFeedFormat, (feed: Feed) => string> = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJsonFeed,
+};
+
+// Feeds are polled often; readers may keep a copy for an hour
+const FEED_CACHE_CONTROL = 'public, max-age=3600, s-maxage=3600, stale-while-revalidate=86400';
+
+/** Response for a feed route; 404 for a category without published posts */
+export async function blogFeedResponse(format: BlogFeedFormat, categorySlug?: string): Promise<Response> {
+  const feed = await getBlogFeed(categorySlug);
+  if (!feed) {
+    return new Response('Feed not found', { status: 404, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+  }
+
+  return new Response(RENDERERS[format](feed), {
+    headers: {
+      'Content-Type': `${FEED_FILES[format].contentType}; charset=utf-8`,
+      'Cache-Control': FEED_CACHE_CONTROL,
+    },
+  });
+}
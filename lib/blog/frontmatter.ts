@@ -0,0 +1,108 @@
+/**
+ * Blog Frontmatter
+ * Splits a content file into its `---` delimited header and body, and reads the header as the
+ * small YAML subset posts use: `key: value` pairs whose values are strings (optionally quoted),
+ * booleans, numbers, inline lists (`["a", "b"]`) or block lists (`- a` on the following lines)
+ */
+
+export type FrontmatterValue = string | number | boolean | string[];
+
+export interface ParsedContentFile {
+  data: Record<string, FrontmatterValue>;
+  body: string;
+}
+
+export class FrontmatterError extends Error {
+  constructor(message: string, public readonly line?: number) {
+    super(line ? `line ${line}: ${message}` : message);
+    this.name = 'FrontmatterError';
+  }
+}
+
+function unquote(value: string, line: number): string {
+  const quote = value[0];
+  if ((quote === '"' || quote === "'") && value.length >= 2 && value.endsWith(quote)) {
+    const inner = value.slice(1, -1);
+    return quote === '"'
+      ? inner.replace(/\\(["\\])/g, '$1')
+      : inner.replace(/''/g, "'");
+  }
+  if (quote === '"' || quote === "'") throw new FrontmatterError(`unterminated string ${value}`, line);
+  return value;
+}
+
+/** `["a", 'b', c]`, honouring commas inside quotes */
+function parseInlineList(value: string, line: number): string[] {
+  const inner = value.slice(1, -1).trim();
+  if (inner === '') return [];
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of inner) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ',') {
+      items.push(unquote(current.trim(), line));
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (quote) throw new FrontmatterError(`unterminated string in ${value}`, line);
+  items.push(unquote(current.trim(), line));
+  return items;
+}
+
+function parseScalar(value: string, line: number): FrontmatterValue {
+  if (value.startsWith('[')) {
+    if (!value.endsWith(']')) throw new FrontmatterError(`unterminated list ${value}`, line);
+    return parseInlineList(value, line);
+  }
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return unquote(value, line);
+}
+
+export function parseFrontmatter(source: string): ParsedContentFile {
+  const lines = source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  if (lines[0].trim() !== '---') throw new FrontmatterError('file must start with a --- frontmatter block', 1);
+
+  const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+  if (end === -1) throw new FrontmatterError('frontmatter block is never closed with ---');
+
+  const data: Record<string, FrontmatterValue> = {};
+  let listKey: string | null = null;
+
+  for (let index = 1; index < end; index++) {
+    const line = lines[index];
+    const lineNumber = index + 1;
+    if (line.trim() === '' || line.trim().startsWith('#')) continue;
+
+    const item = line.match(/^\s+-\s+(.*)$/) || line.match(/^-\s+(.*)$/);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(unquote(item[1].trim(), lineNumber));
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z][\w-]*):(?:\s+(.*))?$/);
+    if (!pair) throw new FrontmatterError(`expected "key: value", got "${line.trim()}"`, lineNumber);
+    const [, key, rawValue = ''] = pair;
+    if (Object.prototype.hasOwnProperty.call(data, key)) throw new FrontmatterError(`duplicate key "${key}"`, lineNumber);
+
+    // Trailing comments are only stripped from unquoted values
+    const value = /^["'[]/.test(rawValue.trim()) ? rawValue.trim() : rawValue.replace(/\s+#.*$/, '').trim();
+    if (value === '') {
+      data[key] = [];
+      listKey = key;
+    } else {
+      data[key] = parseScalar(value, lineNumber);
+      listKey = null;
+    }
+  }
+
+  return { data, body: lines.slice(end + 1).join('\n').replace(/^\n+/, '') };
+}
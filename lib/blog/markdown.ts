@@ -0,0 +1,536 @@
+/**
+ * Blog Markdown
+ * Renders the Markdown of a blog post to HTML. The output is safe by construction: all text is
+ * escaped, only the tags below are produced, raw HTML in the source is shown as text, and link and
+ * image URLs are limited to http(s), mailto (links only) and root-relative ones
+ *
+ * Supported: ATX headings (with anchors), paragraphs, bold/italic/strikethrough, inline code,
+ * fenced code blocks, links, images, nested lists, blockquotes, tables and horizontal rules, plus
+ * the embedded components passed in `options.embeds` (see lib/blog/embeds)
+ */
+
+export interface MarkdownHeading {
+  id: string;
+  text: string;
+  level: number;
+}
+
+export interface RenderedMarkdown {
+  html: string;
+  /** h2 and h3 headings in document order, for the table of contents */
+  headings: MarkdownHeading[];
+}
+
+/**
+ * A component written as a JSX-style block on its own lines, e.g. `<Callout type="tip">` ...
+ * `</Callout>` or `<ServiceCTA service="cad-modeling" />`. Only string attributes are supported
+ */
+export interface MarkdownEmbed {
+  /** Renders the component; `body` is the raw Markdown between the tags ('' when self-closing) */
+  render(attributes: Record<string, string>, body: string, markdown: (source: string) => string): string;
+}
+
+export interface RenderMarkdownOptions {
+  /** Components by tag name; tags not listed here are shown as text like any other raw HTML */
+  embeds?: Record<string, MarkdownEmbed>;
+}
+
+export class MarkdownEmbedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MarkdownEmbedError';
+  }
+}
+
+const ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => ENTITIES[char]);
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * URL-safe id for a heading, e.g. "GD&T Basics" -> "gd-t-basics"
+ */
+export function slugify(text: string): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'section';
+}
+
+/** C0 controls, space and DEL */
+function hasControlCharacters(text: string): boolean {
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index);
+    if (code <= 0x20 || code === 0x7f) return true;
+  }
+  return false;
+}
+
+/**
+ * Links may only point at the web, email, or a path on this site. Browsers drop tabs and newlines
+ * inside a URL and skip leading control characters, so "java\tscript:" would pass a scheme check:
+ * URLs containing any of them are refused before the scheme is looked at
+ */
+export function safeUrl(url: string): string | null {
+  const trimmed = url.trim();
+  if (hasControlCharacters(trimmed)) return null;
+  if (/^(https?:\/\/|mailto:)/i.test(trimmed)) return trimmed;
+  // Root-relative only: "//host" and "/\host" are other sites
+  if (/^\/(?![/\\])/.test(trimmed)) return trimmed;
+  return null;
+}
+
+/** Image sources follow the link rules, minus mailto */
+export function safeImageUrl(url: string): string | null {
+  const safe = safeUrl(url);
+  return safe === null || /^mailto:/i.test(safe) ? null : safe;
+}
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~<>]/;
+
+/**
+ * Index of the bracket closing the one at `start`, honouring nesting and escapes
+ */
+function closingBracket(text: string, start: number, open: string, close: string): number {
+  let depth = 0;
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close) {
+      depth--;
+      if (depth === 0) return index;
+    }
+  }
+  return -1;
+}
+
+/** `(url "title")` directly after a link's text */
+function linkTarget(text: string, start: number): { url: string; title?: string; end: number } | null {
+  if (text[start] !== '(') return null;
+  const end = closingBracket(text, start, '(', ')');
+  if (end === -1) return null;
+  const match = text.slice(start + 1, end).trim().match(/^<?([^\s>]*)>?(?:\s+"([^"]*)")?$/);
+  if (!match) return null;
+  return { url: match[1], title: match[2], end };
+}
+
+function titleAttr(title: string | undefined): string {
+  return title ? ` title="${escapeHtml(title)}"` : '';
+}
+
+function renderLink(label: string, url: string, title?: string): string {
+  const href = safeUrl(url);
+  if (href === null) return label;
+  const external = /^https?:/i.test(href) ? ' target="_blank" rel="noopener noreferrer"' : '';
+  return `<a href="${escapeHtml(href)}"${titleAttr(title)}${external}>${label}</a>`;
+}
+
+const EMPHASIS: Array<{ marker: string; tag: string }> = [
+  { marker: '**', tag: 'strong' },
+  { marker: '__', tag: 'strong' },
+  { marker: '~~', tag: 'del' },
+  { marker: '*', tag: 'em' },
+  { marker: '_', tag: 'em' },
+];
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && /[A-Za-z0-9]/.test(char);
+}
+
+/**
+ * Inline Markdown of one paragraph, heading or table cell
+ */
+export function renderInline(text: string): string {
+  let html = '';
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    const rest = text.slice(index);
+
+    // Backslash escape, or a hard line break before a newline
+    if (char === '\\' && index + 1 < text.length) {
+      const next = text[index + 1];
+      if (next === '\n') {
+        html += '<br>\n';
+        index += 2;
+        continue;
+      }
+      if (ESCAPABLE.test(next)) {
+        html += escapeHtml(next);
+        index += 2;
+        continue;
+      }
+    }
+
+    // Two trailing spaces before a newline
+    if (char === ' ' && /^ {2,}\n/.test(rest)) {
+      const spaces = rest.match(/^ +/)![0].length;
+      html += '<br>\n';
+      index += spaces + 1;
+      continue;
+    }
+
+    if (char === '`') {
+      const ticks = rest.match(/^`+/)![0];
+      const end = text.indexOf(ticks, index + ticks.length);
+      if (end !== -1) {
+        const code = text.slice(index + ticks.length, end).replace(/\n/g, ' ').trim();
+        html += `<code>${escapeHtml(code)}</code>`;
+        index = end + ticks.length;
+        continue;
+      }
+      html += escapeHtml(ticks);
+      index += ticks.length;
+      continue;
+    }
+
+    // Image
+    if (char === '!' && text[index + 1] === '[') {
+      const close = closingBracket(text, index + 1, '[', ']');
+      const target = close === -1 ? null : linkTarget(text, close + 1);
+      if (target) {
+        const alt = text.slice(index + 2, close);
+        const src = safeImageUrl(target.url);
+        html += src === null
+          ? escapeHtml(alt)
+          : `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}"${titleAttr(target.title)} loading="lazy">`;
+        index = target.end + 1;
+        continue;
+      }
+    }
+
+    // Link
+    if (char === '[') {
+      const close = closingBracket(text, index, '[', ']');
+      const target = close === -1 ? null : linkTarget(text, close + 1);
+      if (target) {
+        html += renderLink(renderInline(text.slice(index + 1, close)), target.url, target.title);
+        index = target.end + 1;
+        continue;
+      }
+    }
+
+    // Autolink <https://...>
+    if (char === '<') {
+      const match = rest.match(/^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i);
+      if (match) {
+        html += renderLink(escapeHtml(match[1].replace(/^mailto:/i, '')), match[1]);
+        index += match[0].length;
+        continue;
+      }
+    }
+
+    // Emphasis: the closing marker must follow non-space text; underscores don't work inside words
+    const emphasis = EMPHASIS.find(({ marker }) => rest.startsWith(marker));
+    if (emphasis && text[index + emphasis.marker.length] && !/\s/.test(text[index + emphasis.marker.length])) {
+      const { marker, tag } = emphasis;
+      const intraword = marker[0] === '_' && isWordChar(text[index - 1]);
+      let end = intraword ? -1 : text.indexOf(marker, index + marker.length + 1);
+      while (end !== -1 && (/\s/.test(text[end - 1]) || (marker[0] === '_' && isWordChar(text[end + marker.length])))) {
+        end = text.indexOf(marker, end + 1);
+      }
+      if (end !== -1) {
+        html += `<${tag}>${renderInline(text.slice(index + marker.length, end))}</${tag}>`;
+        index = end + marker.length;
+        continue;
+      }
+    }
+
+    html += escapeHtml(char);
+    index++;
+  }
+
+  return html;
+}
+
+/** Text of rendered HTML, for heading ids, the table of contents and reading time */
+export function plainText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*#*\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const EMBED_OPEN = /^ {0,3}<([A-Z][A-Za-z0-9]*)((?:\s+[A-Za-z][\w-]*="[^"]*")*)\s*(\/?)>\s*$/;
+const EMBED_ATTRIBUTE = /([A-Za-z][\w-]*)="([^"]*)"/g;
+
+function indentOf(line: string): number {
+  return line.replace(/\t/g, '    ').match(/^ */)![0].length;
+}
+
+function splitRow(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let trimmed = line.trim().replace(/^\|/, '');
+  if (trimmed.endsWith('|') && !trimmed.endsWith('\\|')) trimmed = trimmed.slice(0, -1);
+  for (let index = 0; index < trimmed.length; index++) {
+    if (trimmed[index] === '\\' && trimmed[index + 1] === '|') {
+      current += '|';
+      index++;
+    } else if (trimmed[index] === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += trimmed[index];
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+class MarkdownRenderer {
+  readonly headings: MarkdownHeading[] = [];
+  private readonly usedIds = new Map<string, number>();
+
+  constructor(private readonly embeds: Record<string, MarkdownEmbed> = {}) {}
+
+  private headingId(text: string): string {
+    const base = slugify(text);
+    const count = this.usedIds.get(base) || 0;
+    this.usedIds.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count + 1}`;
+  }
+
+  private startsBlock(line: string): boolean {
+    return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) ||
+      this.embedTag(line) !== null;
+  }
+
+  private embedTag(line: string): { name: string; attributes: Record<string, string>; selfClosing: boolean } | null {
+    const match = line.match(EMBED_OPEN);
+    if (!match || !Object.prototype.hasOwnProperty.call(this.embeds, match[1])) return null;
+    const attributes: Record<string, string> = {};
+    for (const [, key, value] of Array.from(match[2].matchAll(EMBED_ATTRIBUTE))) {
+      attributes[key] = decodeEntities(value);
+    }
+    return { name: match[1], attributes, selfClosing: match[3] === '/' };
+  }
+
+  /** Renders the embed opened at `start`; its body may contain further embeds, including its own tag */
+  private renderEmbed(lines: string[], start: number): { html: string; next: number } {
+    const tag = this.embedTag(lines[start])!;
+    const body: string[] = [];
+    let index = start + 1;
+
+    if (!tag.selfClosing) {
+      const close = new RegExp(`^ {0,3}</${tag.name}>\\s*$`);
+      let depth = 1;
+      for (; index < lines.length; index++) {
+        const nested = this.embedTag(lines[index]);
+        if (nested?.name === tag.name && !nested.selfClosing) depth++;
+        if (close.test(lines[index]) && --depth === 0) break;
+        body.push(lines[index]);
+      }
+      if (index === lines.length) {
+        throw new MarkdownEmbedError(`<${tag.name}> on line ${start + 1} is never closed`);
+      }
+      index++;
+    }
+
+    // Headings inside a component stay out of the table of contents
+    const markdown = (source: string) => this.render(source.split('\n'), true);
+    return { html: this.embeds[tag.name].render(tag.attributes, body.join('\n'), markdown), next: index };
+  }
+
+  render(lines: string[], inQuote = false): string {
+    const out: string[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+      const line = lines[index];
+
+      if (line.trim() === '') {
+        index++;
+        continue;
+      }
+
+      const fence = line.match(FENCE);
+      if (fence) {
+        const code: string[] = [];
+        index++;
+        while (index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+          code.push(lines[index]);
+          index++;
+        }
+        index++;
+        const language = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : '';
+        out.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+        continue;
+      }
+
+      const heading = line.match(HEADING);
+      if (heading) {
+        // The page title is the only h1
+        const level = Math.max(2, heading[1].length);
+        const inner = renderInline(heading[2] || '');
+        const text = plainText(inner);
+        if (inQuote) {
+          out.push(`<h${level}>${inner}</h${level}>`);
+        } else {
+          const id = this.headingId(text);
+          if (level <= 3) this.headings.push({ id, text, level });
+          out.push(
+            `<h${level} id="${id}">${inner}<a href="#${id}" class="heading-anchor" aria-label="Link to this section">#</a></h${level}>`
+          );
+        }
+        index++;
+        continue;
+      }
+
+      if (this.embedTag(line)) {
+        const embed = this.renderEmbed(lines, index);
+        out.push(embed.html);
+        index = embed.next;
+        continue;
+      }
+
+      if (RULE.test(line)) {
+        out.push('<hr>');
+        index++;
+        continue;
+      }
+
+      if (QUOTE.test(line)) {
+        const quoted: string[] = [];
+        while (index < lines.length && lines[index].trim() !== '' && (QUOTE.test(lines[index]) || quoted.length > 0)) {
+          if (!QUOTE.test(lines[index]) && this.startsBlock(lines[index])) break;
+          quoted.push(lines[index].replace(QUOTE, ''));
+          index++;
+        }
+        out.push(`<blockquote>${this.render(quoted, true)}</blockquote>`);
+        continue;
+      }
+
+      if (LIST_ITEM.test(line)) {
+        const list = this.renderList(lines, index, inQuote);
+        out.push(list.html);
+        index = list.next;
+        continue;
+      }
+
+      if (line.includes('|') && index + 1 < lines.length && TABLE_DIVIDER.test(lines[index + 1]) && lines[index + 1].includes('-')) {
+        const table = this.renderTable(lines, index);
+        out.push(table.html);
+        index = table.next;
+        continue;
+      }
+
+      const paragraph: string[] = [];
+      while (index < lines.length && lines[index].trim() !== '' && !(paragraph.length > 0 && this.startsBlock(lines[index]))) {
+        paragraph.push(lines[index].replace(/^\s+/, ''));
+        index++;
+      }
+      out.push(`<p>${renderInline(paragraph.join('\n').replace(/\s+$/, ''))}</p>`);
+    }
+
+    return out.join('\n');
+  }
+
+  private renderList(lines: string[], start: number, inQuote: boolean): { html: string; next: number } {
+    const first = lines[start].match(LIST_ITEM)!;
+    const baseIndent = indentOf(first[1]);
+    const ordered = /\d/.test(first[2]);
+    const items: string[] = [];
+    let index = start;
+
+    while (index < lines.length) {
+      const match = lines[index].match(LIST_ITEM);
+      if (!match || indentOf(match[1]) !== baseIndent || /\d/.test(match[2]) !== ordered) break;
+
+      // The item's own lines: continuation text and anything indented under it
+      const body: string[] = [match[3]];
+      index++;
+      while (index < lines.length) {
+        const line = lines[index];
+        if (line.trim() === '') {
+          const next = lines.slice(index + 1).find(candidate => candidate.trim() !== '');
+          if (next !== undefined && indentOf(next) > baseIndent) {
+            body.push('');
+            index++;
+            continue;
+          }
+          break;
+        }
+        const nested = line.match(LIST_ITEM);
+        if (nested && indentOf(nested[1]) <= baseIndent) break;
+        if (!nested && indentOf(line) <= baseIndent && this.startsBlock(line)) break;
+        body.push(line.slice(Math.min(indentOf(line), baseIndent + 2)));
+        index++;
+      }
+
+      const textLines: string[] = [];
+      while (body.length > 0 && body[0].trim() !== '' && !LIST_ITEM.test(body[0])) {
+        textLines.push(body.shift()!.trim());
+      }
+      const nestedHtml = body.length > 0 ? this.render(body, inQuote) : '';
+      items.push(`<li>${renderInline(textLines.join('\n'))}${nestedHtml ? `\n${nestedHtml}` : ''}</li>`);
+
+      // A blank line followed by the next item keeps the list going
+      while (index < lines.length && lines[index].trim() === '') {
+        const next = lines.slice(index).find(candidate => candidate.trim() !== '');
+        const nextItem = next?.match(LIST_ITEM);
+        if (!nextItem || indentOf(nextItem[1]) !== baseIndent) break;
+        index++;
+      }
+    }
+
+    const tag = ordered ? 'ol' : 'ul';
+    const number = parseInt(first[2], 10);
+    const startAttr = ordered && number !== 1 ? ` start="${number}"` : '';
+    return { html: `<${tag}${startAttr}>\n${items.join('\n')}\n</${tag}>`, next: index };
+  }
+
+  private renderTable(lines: string[], start: number): { html: string; next: number } {
+    const header = splitRow(lines[start]);
+    const alignments = splitRow(lines[start + 1]).map(cell => {
+      const left = cell.startsWith(':');
+      const right = cell.endsWith(':');
+      if (left && right) return 'center';
+      if (right) return 'right';
+      if (left) return 'left';
+      return null;
+    });
+    const cell = (tag: 'th' | 'td', content: string, column: number) => {
+      const align = alignments[column] ? ` style="text-align: ${alignments[column]}"` : '';
+      return `<${tag}${align}>${renderInline(content)}</${tag}>`;
+    };
+
+    const rows: string[] = [];
+    let index = start + 2;
+    while (index < lines.length && lines[index].trim() !== '' && lines[index].includes('|')) {
+      const cells = splitRow(lines[index]);
+      rows.push(`<tr>${header.map((_, column) => cell('td', cells[column] || '', column)).join('')}</tr>`);
+      index++;
+    }
+
+    const head = `<thead><tr>${header.map((content, column) => cell('th', content, column)).join('')}</tr></thead>`;
+    const body = rows.length > 0 ? `<tbody>${rows.join('')}</tbody>` : '';
+    return { html: `<div class="table-wrapper"><table>${head}${body}</table></div>`, next: index };
+  }
+}
+
+export function renderMarkdown(source: string, options: RenderMarkdownOptions = {}): RenderedMarkdown {
+  const renderer = new MarkdownRenderer(options.embeds);
+  const html = renderer.render(source.replace(/\r\n?/g, '\n').split('\n'));
+  return { html, headings: renderer.headings };
+}
@@ -0,0 +1,151 @@
+/**
+ * Blog Query
+ * Filtering, full-text search, sorting and pagination over the posts from lib/blog-data, for
+ * /api/blog/posts and the blog index page
+ *
+ * Search matches every term (case- and accent-insensitive, prefix match on words) against the
+ * title, tags, category, excerpt and the rendered text of the post, and ranks title and tag hits
+ * above body hits
+ */
+
+import type { BlogPost } from './content';
+import { BLOG_EMBEDS } from './embeds';
+import { plainText, renderMarkdown } from './markdown';
+
+export type BlogPostSort = 'newest' | 'oldest' | 'relevance' | 'title';
+
+export interface BlogPostListOptions {
+  category?: string;
+  tag?: string;
+  search?: string;
+  /** Defaults to relevance when searching, newest otherwise */
+  sort?: BlogPostSort;
+  page: number;
+  limit: number;
+}
+
+/** A post without its body, as listed by the API and the index page */
+export type BlogPostSummary = Omit<BlogPost, 'content' | 'sourcePath' | 'wordCount'>;
+
+export interface BlogPostPage {
+  posts: BlogPostSummary[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+  };
+  sort: BlogPostSort;
+}
+
+// Weighted per field for every matched term
+const FIELD_WEIGHTS = { title: 8, tags: 5, category: 3, excerpt: 3, body: 1 } as const;
+const MAX_BODY_HITS = 5;
+
+interface SearchDocument {
+  title: string[];
+  tags: string[];
+  category: string[];
+  excerpt: string[];
+  body: string[];
+}
+
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return normalizeSearchText(text).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/** Search terms of a query; one-letter terms are dropped unless they are all there is */
+export function searchTerms(query: string): string[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  const meaningful = terms.filter(term => term.length > 1);
+  return meaningful.length > 0 ? meaningful : terms;
+}
+
+// Posts are immutable once loaded, so their tokens are worked out once per post object
+const documents = new WeakMap<BlogPost, SearchDocument>();
+
+function searchDocument(post: BlogPost): SearchDocument {
+  let document = documents.get(post);
+  if (!document) {
+    document = {
+      title: tokenize(post.title),
+      tags: post.tags.flatMap(tokenize),
+      category: tokenize(post.category),
+      excerpt: tokenize(post.excerpt),
+      body: tokenize(plainText(renderMarkdown(post.content, { embeds: BLOG_EMBEDS }).html)),
+    };
+    documents.set(post, document);
+  }
+  return document;
+}
+
+/**
+ * Relevance of a post for the terms, or 0 when a term matches nowhere
+ */
+export function scorePost(post: BlogPost, terms: string[]): number {
+  const document = searchDocument(post);
+  let score = 0;
+
+  for (const term of terms) {
+    let termScore = 0;
+    for (const field of Object.keys(FIELD_WEIGHTS) as Array<keyof SearchDocument>) {
+      const hits = document[field].filter(token => token.startsWith(term)).length;
+      if (hits > 0) {
+        termScore += FIELD_WEIGHTS[field] * (field === 'body' ? Math.min(hits, MAX_BODY_HITS) : 1);
+      }
+    }
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+
+  return score;
+}
+
+export function toSummary(post: BlogPost): BlogPostSummary {
+  const { content: _content, sourcePath: _sourcePath, wordCount: _wordCount, ...summary } = post;
+  return summary;
+}
+
+const sameText = (a: string, b: string) => normalizeSearchText(a) === normalizeSearchText(b);
+
+/**
+ * One page of the posts matching the options; `posts` must be newest first, as lib/blog-data returns them
+ */
+export function queryBlogPosts(posts: BlogPost[], options: BlogPostListOptions): BlogPostPage {
+  const terms = options.search ? searchTerms(options.search) : [];
+  const sort = options.sort || (terms.length > 0 ? 'relevance' : 'newest');
+
+  const matches = posts
+    .filter(post => !options.category || sameText(post.category, options.category))
+    .filter(post => !options.tag || post.tags.some(tag => sameText(tag, options.tag!)))
+    .map(post => ({ post, score: terms.length > 0 ? scorePost(post, terms) : 0 }))
+    .filter(({ score }) => terms.length === 0 || score > 0);
+
+  // Sorts are stable, so ties keep the newest-first order
+  if (sort === 'oldest') matches.reverse();
+  if (sort === 'relevance') matches.sort((a, b) => b.score - a.score);
+  if (sort === 'title') matches.sort((a, b) => a.post.title.localeCompare(b.post.title, 'en'));
+
+  const total = matches.length;
+  const totalPages = Math.max(1, Math.ceil(total / options.limit));
+  const start = (options.page - 1) * options.limit;
+
+  return {
+    posts: matches.slice(start, start + options.limit).map(({ post }) => toSummary(post)),
+    pagination: {
+      page: options.page,
+      limit: options.limit,
+      total,
+      totalPages,
+      hasNextPage: options.page < totalPages,
+      hasPreviousPage: options.page > 1,
+    },
+    sort,
+  };
+}
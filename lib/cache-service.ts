@@ -42,16 +42,11 @@ export class CacheService {
 
     try {
       console.log('🔄 Fetching projects from Zoho...')
-      // Use the canonical client directly
-      const { projects } = await import('@/lib/zoho/client')
-      
-      // Define the response type
-      interface ZohoProjectsResponse {
-        projects?: any[];
-      }
-      
-      const result = await projects.request<ZohoProjectsResponse>('projects/')
-      return result?.projects || []
+      // Projects live under a portal; the module resolves ZOHO_PROJECTS_PORTAL_ID
+      const { getProjectOverview, listAll, listProjects } = await import('@/lib/zoho/projects')
+
+      const items = await listAll(page => listProjects({ page, perPage: 100 }), 5)
+      return await Promise.all(items.map(project => getProjectOverview(project)))
     } catch (error) {
       console.error('❌ Error fetching projects from Zoho:', error)
       return []
@@ -67,16 +62,15 @@ export class CacheService {
 
     try {
       console.log('🔄 Fetching invoices from Zoho...')
-      // Use the canonical client directly
-      const { books } = await import('@/lib/zoho/client')
-      
-      // Define the response type
-      interface ZohoBooksInvoiceResponse {
-        invoices?: any[];
+      // Account ids are customer emails; resolve them to a Books contact first
+      const { findContactByEmail, listAll, listInvoices } = await import('@/lib/zoho/books')
+
+      const contact = await findContactByEmail(accountId)
+      if (!contact) {
+        return []
       }
-      
-      const result = await books.request<ZohoBooksInvoiceResponse>('invoices')
-      return result?.invoices || []
+
+      return await listAll(page => listInvoices({ customerId: contact.contact_id, page, perPage: 200 }), 10)
     } catch (error) {
       console.error('❌ Error fetching invoices from Zoho:', error)
       return []
@@ -0,0 +1,93 @@
+/**
+ * CAD Attachment Analysis
+ * Metadata (and a thumbnail for meshes) for STL and STEP quote attachments, so engineers can
+ * triage and roughly price a request from the CRM lead without opening CAD software
+ */
+
+import { parseStep } from './step';
+import { parseStl } from './stl';
+import { renderThumbnail } from './thumbnail';
+import type { CadAnalysis, CadMetadata, CadSource } from './types';
+
+export * from './types';
+export { parseStl, isBinaryStl, TriangleSampler } from './stl';
+export { parseStep, decodeStepString } from './step';
+export { renderThumbnail } from './thumbnail';
+
+const CAD_EXTENSIONS: Record<string, CadMetadata['format']> = {
+  stl: 'stl',
+  step: 'step',
+  stp: 'step',
+};
+
+export function cadFormatOf(filename: string): CadMetadata['format'] | null {
+  const extension = filename.slice(filename.lastIndexOf('.') + 1).toLowerCase();
+  return CAD_EXTENSIONS[extension] || null;
+}
+
+/**
+ * Analyse one file. Returns null for non-CAD files and for files that fail to parse;
+ * the submission goes ahead either way
+ */
+export async function analyzeCadFile(source: CadSource): Promise<CadAnalysis | null> {
+  const format = cadFormatOf(source.filename);
+  if (!format) return null;
+
+  try {
+    if (format === 'step') {
+      return { filename: source.filename, metadata: await parseStep(source.stream()) };
+    }
+
+    const { metadata, sample } = await parseStl(source.stream(), source.size);
+    const thumbnail = sample.length > 0 ? await renderThumbnail(sample).catch(error => {
+      console.warn(`⚠️ Thumbnail rendering failed for ${source.filename}:`, error instanceof Error ? error.message.split('\n')[0] : error);
+      return undefined;
+    }) : undefined;
+    return { filename: source.filename, metadata, thumbnail };
+  } catch (error) {
+    console.warn(`⚠️ CAD analysis failed for ${source.filename}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+function round(value: number, digits = 1) {
+  return Number(value.toFixed(digits));
+}
+
+/**
+ * One line per file for the CRM lead, e.g.
+ * "bracket.stl: STL binary, 12480 triangles, 120 x 80 x 40 mm, 85.3 cm³, 245.1 cm²"
+ * STL has no units; millimetres is the convention every slicer assumes
+ */
+export function summarizeCadAnalyses(analyses: CadAnalysis[]): string {
+  return analyses
+    .map(({ filename, metadata }) => {
+      if (metadata.format === 'stl') {
+        const [x, y, z] = metadata.boundingBox.size.map(value => round(value));
+        const volume = `${round(metadata.volume / 1000)} cm³${metadata.watertight ? '' : ' (open mesh, approx.)'}`;
+        return `${filename}: STL ${metadata.encoding}, ${metadata.triangles} triangles, ${x} x ${y} x ${z} mm, `
+          + `${volume}, ${round(metadata.surfaceArea / 100)} cm²`;
+      }
+
+      const details = [
+        metadata.schema,
+        metadata.originatingSystem ? `from ${metadata.originatingSystem}` : undefined,
+        metadata.lengthUnit ? `unit ${metadata.lengthUnit}` : undefined,
+      ].filter(Boolean);
+      const parts = metadata.parts.length > 0
+        ? `, parts: ${metadata.parts.slice(0, 10).join(', ')}${metadata.parts.length > 10 ? ` (+${metadata.parts.length - 10} more)` : ''}`
+        : '';
+      return `${filename}: STEP${details.length > 0 ? ` ${details.join(', ')}` : ''}${parts}`;
+    })
+    .join('\n');
+}
+
+/** Combined mesh volume in cm³ (STL only), for quick 3D-printing estimates */
+export function totalMeshVolumeCm3(analyses: CadAnalysis[]): number {
+  return round(analyses.reduce((sum, { metadata }) => sum + (metadata.format === 'stl' ? metadata.volume / 1000 : 0), 0), 2);
+}
+
+/** Thumbnail file name stored next to the original in WorkDrive */
+export function thumbnailFilename(filename: string) {
+  return `${filename.replace(/\.[^.]+$/, '')}.preview.png`;
+}
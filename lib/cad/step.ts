@@ -0,0 +1,170 @@
+/**
+ * STEP (ISO 10303-21) Header Reader
+ * Streams the file statement by statement and picks out the HEADER section, PRODUCT names and the
+ * declared length unit. Geometry is not evaluated
+ */
+
+import type { StepMetadata } from './types';
+
+/** Longer statements are geometry lists we don't need; they are skipped rather than buffered */
+const MAX_STATEMENT_CHARS = 64 * 1024;
+const MAX_PARTS = 50;
+
+/**
+ * Decode a Part 21 string literal: doubled quotes and the \X2\...\X0\ (UTF-16) and \X\hh escapes
+ */
+export function decodeStepString(raw: string): string {
+  return raw
+    .replace(/''/g, "'")
+    .replace(/\\X2\\([0-9A-F]+)\\X0\\/gi, (_, hex: string) =>
+      (hex.match(/.{4}/g) || []).map(code => String.fromCharCode(parseInt(code, 16))).join(''))
+    .replace(/\\X\\([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .trim();
+}
+
+/**
+ * Top-level arguments of ENTITY(a, (b, c), 'd'), each reduced to its first string literal
+ * ('' for $, * and lists without strings) so positions stay stable
+ */
+function stringArguments(statement: string): string[] {
+  const open = statement.indexOf('(');
+  if (open < 0) return [];
+
+  const args: string[] = [];
+  let depth = 0;
+  let inString = false;
+  let current = '';
+  for (let i = open + 1; i < statement.length; i++) {
+    const char = statement[i];
+    if (inString) {
+      if (char === "'") inString = false;
+    } else if (char === "'") {
+      inString = true;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      if (depth === 0) break;
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      args.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  args.push(current);
+
+  return args.map(arg => {
+    const match = /'((?:[^']|'')*)'/.exec(arg);
+    return match ? decodeStepString(match[1]) : '';
+  });
+}
+
+const SI_PREFIXES: Record<string, string> = { MILLI: 'mm', CENTI: 'cm', DECI: 'dm', KILO: 'km', MICRO: 'µm' };
+
+function lengthUnitOf(statement: string): string | undefined {
+  if (!statement.includes('LENGTH_UNIT')) return undefined;
+  const si = /SI_UNIT\s*\(\s*(?:\.(\w+)\.|\$)\s*,\s*\.METRE\.\s*\)/.exec(statement);
+  if (si) return si[1] ? SI_PREFIXES[si[1]] || `${si[1].toLowerCase()}metre` : 'm';
+  const converted = /CONVERSION_BASED_UNIT\s*\(\s*'([^']*)'/.exec(statement);
+  return converted ? converted[1].toLowerCase() : undefined;
+}
+
+/**
+ * Split a Part 21 stream into statements, honouring quoted strings and comments
+ */
+async function eachStatement(stream: ReadableStream<Uint8Array>, visit: (statement: string) => void) {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder('latin1');
+  let current = '';
+  let overflow = false;
+  let inString = false;
+  let inComment = false;
+
+  const consume = (text: string) => {
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (inComment) {
+        if (char === '/' && text[i - 1] === '*') inComment = false;
+      } else if (inString) {
+        if (char === "'") inString = false;
+      } else if (char === "'") {
+        inString = true;
+      } else if (char === '*' && text[i - 1] === '/') {
+        inComment = true;
+      } else if (char === ';') {
+        if (!overflow) visit((current + text.slice(start, i)).trim());
+        current = '';
+        overflow = false;
+        start = i + 1;
+      }
+    }
+    if (!overflow) {
+      current += text.slice(start);
+      if (current.length > MAX_STATEMENT_CHARS) {
+        overflow = true;
+        current = '';
+      }
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    consume(decoder.decode(value, { stream: true }));
+  }
+  consume(decoder.decode());
+}
+
+export async function parseStep(stream: ReadableStream<Uint8Array>): Promise<StepMetadata> {
+  const metadata: StepMetadata = { format: 'step', parts: [] };
+  let sawHeader = false;
+  let section: 'none' | 'header' | 'data' = 'none';
+
+  await eachStatement(stream, raw => {
+    // Strip comments that sat inside the statement and collapse line breaks
+    const statement = raw.replace(/^\xEF\xBB\xBF/, '').replace(/\/\*[\s\S]*?\*\//g, '').replace(/\s+/g, ' ').trim();
+    if (!sawHeader) {
+      if (!statement.startsWith('ISO-10303-21')) throw new Error('Not a STEP file');
+      sawHeader = true;
+      return;
+    }
+
+    if (statement === 'HEADER') { section = 'header'; return; }
+    if (statement === 'DATA' || statement.startsWith('DATA(')) { section = 'data'; return; }
+    if (statement === 'ENDSEC') { section = 'none'; return; }
+
+    if (section === 'header') {
+      const strings = stringArguments(statement);
+      if (statement.startsWith('FILE_NAME')) {
+        // FILE_NAME(name, time_stamp, (author), (organization), preprocessor_version, originating_system, authorization)
+        metadata.fileName = strings[0] || undefined;
+        metadata.timestamp = strings[1] || undefined;
+        metadata.author = strings[2] || undefined;
+        metadata.organization = strings[3] || undefined;
+        metadata.originatingSystem = strings[5] || strings[4] || undefined;
+      } else if (statement.startsWith('FILE_SCHEMA')) {
+        metadata.schema = strings[0]?.split(/\s|\{/)[0] || undefined;
+      }
+      return;
+    }
+
+    if (section === 'data') {
+      const body = statement.replace(/^#\d+\s*=\s*/, '');
+      if (body.startsWith('PRODUCT(') || body.startsWith('PRODUCT (')) {
+        // PRODUCT(id, name, description, (frame_of_reference))
+        const [id, name] = stringArguments(body);
+        const part = name || id;
+        if (part && metadata.parts.length < MAX_PARTS && !metadata.parts.includes(part)) {
+          metadata.parts.push(part);
+        }
+      } else if (!metadata.lengthUnit) {
+        metadata.lengthUnit = lengthUnitOf(body);
+      }
+    }
+  });
+
+  if (!sawHeader) throw new Error('Not a STEP file');
+  return metadata;
+}
@@ -0,0 +1,210 @@
+/**
+ * STL Parser
+ * Streams binary or ASCII STL once, accumulating the bounding box, surface area and signed volume,
+ * and keeps an evenly spaced sample of triangles for the thumbnail
+ */
+
+import type { StlMetadata, Triangle, Vec3 } from './types';
+
+const BINARY_HEADER_BYTES = 84;
+const BINARY_TRIANGLE_BYTES = 50;
+
+/**
+ * Keeps every n-th triangle, doubling n whenever the sample outgrows its budget,
+ * so the result is spread over the whole mesh whatever its size
+ */
+export class TriangleSampler {
+  private stride = 1;
+  private seen = 0;
+  items: Triangle[] = [];
+
+  constructor(private readonly max: number) {}
+
+  add(triangle: Triangle) {
+    if (this.seen % this.stride === 0) {
+      this.items.push(triangle);
+      if (this.items.length > this.max) {
+        this.items = this.items.filter((_, index) => index % 2 === 0);
+        this.stride *= 2;
+      }
+    }
+    this.seen++;
+  }
+}
+
+/** Signed volume of the tetrahedron (p, v1, v2, v3) */
+function tetrahedronVolume(t: Triangle, p: Vec3) {
+  const ax = t[0] - p[0], ay = t[1] - p[1], az = t[2] - p[2];
+  const bx = t[3] - p[0], by = t[4] - p[1], bz = t[5] - p[2];
+  const cx = t[6] - p[0], cy = t[7] - p[1], cz = t[8] - p[2];
+  return (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6;
+}
+
+class MeshAccumulator {
+  triangles = 0;
+  min: Vec3 = [Infinity, Infinity, Infinity];
+  max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  area = 0;
+  signedVolume = 0;
+  /**
+   * The same sum taken around a second reference point. A closed, consistently wound mesh encloses
+   * the same volume from any point; for an open one the sums differ by the hole's area times the
+   * shift along its normal
+   */
+  shiftedVolume = 0;
+  private reference: Vec3 | null = null;
+
+  constructor(private readonly sampler: TriangleSampler) {}
+
+  add(t: Triangle) {
+    for (let i = 0; i < 9; i += 3) {
+      for (let axis = 0; axis < 3; axis++) {
+        const value = t[i + axis];
+        if (value < this.min[axis]) this.min[axis] = value;
+        if (value > this.max[axis]) this.max[axis] = value;
+      }
+    }
+
+    const ax = t[3] - t[0], ay = t[4] - t[1], az = t[5] - t[2];
+    const bx = t[6] - t[0], by = t[7] - t[1], bz = t[8] - t[2];
+    const cx = ay * bz - az * by, cy = az * bx - ax * bz, cz = ax * by - ay * bx;
+    this.area += Math.sqrt(cx * cx + cy * cy + cz * cz) / 2;
+
+    this.signedVolume += tetrahedronVolume(t, [0, 0, 0]);
+    if (!this.reference) {
+      // Shift along an irregular direction, scaled to the part, so no axis-aligned hole is parallel to it
+      const scale = Math.sqrt(ax * ax + ay * ay + az * az) || 1;
+      this.reference = [t[0] + scale * 0.53, t[1] + scale * 0.81, t[2] + scale * 0.25];
+    }
+    this.shiftedVolume += tetrahedronVolume(t, this.reference);
+
+    this.triangles++;
+    this.sampler.add(t);
+  }
+
+  result(encoding: StlMetadata['encoding']): StlMetadata {
+    const empty = this.triangles === 0;
+    const min: Vec3 = empty ? [0, 0, 0] : this.min;
+    const max: Vec3 = empty ? [0, 0, 0] : this.max;
+    const volume = Math.abs(this.signedVolume);
+    const drift = Math.abs(this.signedVolume - this.shiftedVolume);
+    return {
+      format: 'stl',
+      encoding,
+      triangles: this.triangles,
+      boundingBox: { min, max, size: [max[0] - min[0], max[1] - min[1], max[2] - min[2]] },
+      volume,
+      surfaceArea: this.area,
+      watertight: volume > 0 && drift <= volume * 1e-4,
+    };
+  }
+}
+
+function concat(a: Uint8Array, b: Uint8Array) {
+  if (a.byteLength === 0) return b;
+  const joined = new Uint8Array(a.byteLength + b.byteLength);
+  joined.set(a);
+  joined.set(b, a.byteLength);
+  return joined;
+}
+
+export function isBinaryStl(head: Uint8Array, size: number) {
+  if (head.byteLength < BINARY_HEADER_BYTES) return false;
+  const count = new DataView(head.buffer, head.byteOffset, head.byteLength).getUint32(80, true);
+  return BINARY_HEADER_BYTES + count * BINARY_TRIANGLE_BYTES === size;
+}
+
+async function parseBinary(reader: ReadableStreamDefaultReader<Uint8Array>, first: Uint8Array, mesh: MeshAccumulator) {
+  const declared = new DataView(first.buffer, first.byteOffset, first.byteLength).getUint32(80, true);
+  let read = 0;
+  let pending = first.subarray(BINARY_HEADER_BYTES);
+  for (;;) {
+    const records = Math.floor(pending.byteLength / BINARY_TRIANGLE_BYTES);
+    const view = new DataView(pending.buffer, pending.byteOffset, pending.byteLength);
+    for (let record = 0; record < records; record++) {
+      // Skip the 12-byte facet normal; it is often zero or wrong and is recomputed when needed
+      const base = record * BINARY_TRIANGLE_BYTES + 12;
+      const t = new Array(9) as Triangle;
+      for (let i = 0; i < 9; i++) t[i] = view.getFloat32(base + i * 4, true);
+      // Same rule as ASCII facets: a NaN or infinite vertex would poison the volume and bounding box
+      if (t.every(Number.isFinite)) mesh.add(t);
+    }
+    read += records;
+    pending = pending.slice(records * BINARY_TRIANGLE_BYTES);
+
+    const { done, value } = await reader.read();
+    if (done) break;
+    pending = concat(pending, value);
+  }
+
+  if (read < declared) {
+    throw new Error(`Truncated STL file: ${read} of ${declared} triangles`);
+  }
+}
+
+async function parseAscii(reader: ReadableStreamDefaultReader<Uint8Array>, first: Uint8Array, mesh: MeshAccumulator) {
+  const decoder = new TextDecoder('latin1');
+  let carry = '';
+  let vertices: number[] = [];
+
+  const consume = (text: string, final: boolean) => {
+    const lines = (carry + text).split('\n');
+    carry = final ? '' : lines.pop() || '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('vertex')) {
+        const parts = trimmed.split(/\s+/);
+        vertices.push(parseFloat(parts[1]), parseFloat(parts[2]), parseFloat(parts[3]));
+      } else if (trimmed.startsWith('endfacet')) {
+        if (vertices.length === 9 && vertices.every(Number.isFinite)) {
+          mesh.add(vertices as Triangle);
+        }
+        vertices = [];
+      }
+    }
+  };
+
+  consume(decoder.decode(first, { stream: true }), false);
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    consume(decoder.decode(value, { stream: true }), false);
+  }
+  consume(decoder.decode(), true);
+}
+
+/**
+ * Parse an STL stream of the given total size. Binary vs ASCII is decided the same way as the
+ * upload inspection: a binary file's size is exactly 84 + 50 x triangle count
+ */
+export async function parseStl(
+  stream: ReadableStream<Uint8Array>,
+  size: number,
+  sampleSize = 20000
+): Promise<{ metadata: StlMetadata; sample: Triangle[] }> {
+  const reader = stream.getReader();
+  const sampler = new TriangleSampler(sampleSize);
+  const mesh = new MeshAccumulator(sampler);
+
+  // Collect enough bytes to read the binary header
+  let first: Uint8Array = new Uint8Array(0);
+  while (first.byteLength < BINARY_HEADER_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    first = concat(first, value);
+  }
+
+  const binary = isBinaryStl(first, size);
+  if (binary) {
+    await parseBinary(reader, first, mesh);
+  } else {
+    const start = new TextDecoder('latin1').decode(first.subarray(0, 256)).replace(/^\xEF\xBB\xBF/, '').trimStart();
+    if (!start.startsWith('solid')) {
+      await reader.cancel();
+      throw new Error('Not an STL file');
+    }
+    await parseAscii(reader, first, mesh);
+  }
+
+  return { metadata: mesh.result(binary ? 'binary' : 'ascii'), sample: sampler.items };
+}
@@ -0,0 +1,90 @@
+/**
+ * Mesh Thumbnails
+ * Flat-shaded isometric view of a triangle sample, drawn back to front as SVG polygons and
+ * rasterised to PNG with sharp. Good enough to recognise a part in the CRM, not a CAD viewer
+ */
+
+import type { CadThumbnail, Triangle, Vec3 } from './types';
+
+const SQRT2 = Math.SQRT2;
+const SQRT3 = Math.sqrt(3);
+const SQRT6 = Math.sqrt(6);
+
+// Camera looking from front-right-top (+x, -y, +z) at the part, z up
+const RIGHT: Vec3 = [1 / SQRT2, 1 / SQRT2, 0];
+const UP: Vec3 = [-1 / SQRT6, 1 / SQRT6, 2 / SQRT6];
+const TOWARD_CAMERA: Vec3 = [1 / SQRT3, -1 / SQRT3, 1 / SQRT3];
+const LIGHT: Vec3 = normalize([0.4, -0.6, 1]);
+
+const BASE_COLOR: Vec3 = [70, 130, 180];
+const BACKGROUND = '#f8fafc';
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.sqrt(v[0] * v[0] + v[1] * v[1] + v[2] * v[2]) || 1;
+  return [v[0] / length, v[1] / length, v[2] / length];
+}
+
+function dot(a: Vec3, b: Vec3) {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+interface Face {
+  points: Array<[number, number]>;
+  depth: number;
+  shade: number;
+}
+
+export async function renderThumbnail(triangles: Triangle[], size = 256): Promise<CadThumbnail> {
+  const faces: Face[] = [];
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+
+  for (const t of triangles) {
+    const vertices: Vec3[] = [[t[0], t[1], t[2]], [t[3], t[4], t[5]], [t[6], t[7], t[8]]];
+    const points = vertices.map(v => [dot(v, RIGHT), -dot(v, UP)] as [number, number]);
+    points.forEach(([x, y]) => {
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    });
+
+    const normal = normalize([
+      (t[4] - t[1]) * (t[8] - t[2]) - (t[5] - t[2]) * (t[7] - t[1]),
+      (t[5] - t[2]) * (t[6] - t[0]) - (t[3] - t[0]) * (t[8] - t[2]),
+      (t[3] - t[0]) * (t[7] - t[1]) - (t[4] - t[1]) * (t[6] - t[0]),
+    ]);
+    faces.push({
+      points,
+      depth: (dot(vertices[0], TOWARD_CAMERA) + dot(vertices[1], TOWARD_CAMERA) + dot(vertices[2], TOWARD_CAMERA)) / 3,
+      // Winding in STL files is unreliable, so shade both sides alike
+      shade: 0.35 + 0.65 * Math.abs(dot(normal, LIGHT)),
+    });
+  }
+
+  // Painter's algorithm: farthest first
+  faces.sort((a, b) => a.depth - b.depth);
+
+  const padding = size * 0.08;
+  const extent = Math.max(maxX - minX, maxY - minY) || 1;
+  const scale = (size - padding * 2) / extent;
+  const offsetX = padding + ((size - padding * 2) - (maxX - minX) * scale) / 2;
+  const offsetY = padding + ((size - padding * 2) - (maxY - minY) * scale) / 2;
+
+  const polygons = faces.map(face => {
+    const points = face.points
+      .map(([x, y]) => `${((x - minX) * scale + offsetX).toFixed(1)},${((y - minY) * scale + offsetY).toFixed(1)}`)
+      .join(' ');
+    const [r, g, b] = BASE_COLOR.map(channel => Math.round(channel * face.shade));
+    const color = `rgb(${r},${g},${b})`;
+    // Matching stroke hides the hairline gaps between neighbouring faces
+    return `<polygon points="${points}" fill="${color}" stroke="${color}" stroke-width="0.5"/>`;
+  });
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">`
+    + `<rect width="100%" height="100%" fill="${BACKGROUND}"/>${polygons.join('')}</svg>`;
+
+  // Loaded lazily: sharp's native binary is optional, and a missing one should only cost the preview
+  const { default: sharp } = await import('sharp');
+  const png = await sharp(Buffer.from(svg)).png({ compressionLevel: 9 }).toBuffer();
+  return { type: 'image/png', width: size, height: size, data: new Uint8Array(png) };
+}
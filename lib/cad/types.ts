@@ -0,0 +1,68 @@
+/**
+ * CAD Metadata Types
+ * What we can learn about a quote attachment without CAD software: STL geometry figures and
+ * STEP header/product information
+ */
+
+export type Vec3 = [number, number, number];
+
+/** Triangle as its three vertices, flattened: x1 y1 z1 x2 y2 z2 x3 y3 z3 */
+export type Triangle = [number, number, number, number, number, number, number, number, number];
+
+export interface BoundingBox {
+  min: Vec3;
+  max: Vec3;
+  /** max - min per axis */
+  size: Vec3;
+}
+
+export interface StlMetadata {
+  format: 'stl';
+  encoding: 'binary' | 'ascii';
+  triangles: number;
+  boundingBox: BoundingBox;
+  /** In cubic model units; STL has no units, so these are millimetres by convention */
+  volume: number;
+  /** In square model units */
+  surfaceArea: number;
+  /** False when the mesh is open or inconsistently wound, so the volume is unreliable */
+  watertight: boolean;
+}
+
+export interface StepMetadata {
+  format: 'step';
+  /** FILE_SCHEMA, e.g. AUTOMOTIVE_DESIGN (AP214) or CONFIG_CONTROL_DESIGN (AP203) */
+  schema?: string;
+  fileName?: string;
+  author?: string;
+  organization?: string;
+  originatingSystem?: string;
+  timestamp?: string;
+  /** PRODUCT names, in file order */
+  parts: string[];
+  /** Length unit declared by the model, e.g. "mm" or "inch" */
+  lengthUnit?: string;
+}
+
+export type CadMetadata = StlMetadata | StepMetadata;
+
+export interface CadThumbnail {
+  type: 'image/png';
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface CadAnalysis {
+  filename: string;
+  metadata: CadMetadata;
+  /** Only STL: STEP geometry is B-rep and needs a CAD kernel to tessellate */
+  thumbnail?: CadThumbnail;
+}
+
+/** Anything that can be read once as a stream (File, chunked upload, outbox attachment) */
+export interface CadSource {
+  filename: string;
+  size: number;
+  stream(): ReadableStream<Uint8Array>;
+}
@@ -1,4 +1,5 @@
 export const SITE_NAME = 'IdEinstein';
+export const SITE_URL = 'https://ideinstein.com';
 export const SITE_DESCRIPTION = 'Where Ideas Take Shape';
 
 export const SERVICE_CATEGORIES = [
@@ -97,11 +98,11 @@ export const META = {
       'max-snippet': -1,
     },
   },
-  metadataBase: new URL('https://ideinstein.com'),
+  metadataBase: new URL(SITE_URL),
   openGraph: {
     type: 'website',
     locale: 'en_US',
-    url: 'https://ideinstein.com',
+    url: SITE_URL,
     siteName: 'IdEinstein',
     title: 'IdEinstein - Where Ideas Take Shape | Professional Engineering Services',
     description: 'Professional engineering services including 3D printing, CAD modeling, FEA/CFD analysis, and manufacturing solutions. Transform your innovative ideas into market-ready products.',
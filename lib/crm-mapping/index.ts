@@ -0,0 +1,213 @@
+/**
+ * CRM Field Mapping
+ * Builds Zoho CRM records from the per-form mappings and checks those mappings against the CRM's
+ * field metadata, so a renamed or retyped custom field shows up at startup and in the admin area
+ * instead of as silently dropped lead data
+ */
+
+import { crm } from '@/lib/zoho/client';
+import { LEAD_MAPPINGS } from './mappings';
+import type {
+  CrmFieldIssue,
+  CrmFieldMetadata,
+  CrmFieldReport,
+  CrmFieldType,
+  CrmFormMapping,
+  CrmModule,
+  MappedForm
+} from './types';
+
+export * from './types';
+export {
+  CONSULTATION_LEAD_MAPPING,
+  CONTACT_LEAD_MAPPING,
+  LEAD_MAPPINGS,
+  NEWSLETTER_CONSENT_MAPPING,
+  NEWSLETTER_LEAD_MAPPING,
+  QUOTE_LEAD_MAPPING,
+  WORKDRIVE_FOLDER_LINK,
+  splitName
+} from './mappings';
+
+/**
+ * CRM record for one submission. Empty values are left out rather than sent as null, so an upsert
+ * onto an existing lead doesn't clear what the lead already has
+ */
+export function buildCrmRecord<TSource>(mapping: CrmFormMapping<TSource>, source: TSource): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (const entry of mapping.fields) {
+    const value = entry.value(source);
+    if (value === undefined || value === null || value === '') {
+      if (entry.required) {
+        console.warn(`⚠️ ${mapping.form} lead is missing required CRM field ${entry.field}`);
+      }
+      continue;
+    }
+    record[entry.field] = value;
+  }
+  return record;
+}
+
+// ============================================================================
+// METADATA CHECK
+// ============================================================================
+
+/** CRM data types a mapped value can be written to */
+const COMPATIBLE_TYPES: Record<CrmFieldType, string[]> = {
+  text: ['text', 'textarea'],
+  textarea: ['textarea'],
+  email: ['email', 'text'],
+  phone: ['phone', 'text'],
+  picklist: ['picklist', 'text'],
+  boolean: ['boolean'],
+  date: ['date', 'text'],
+  datetime: ['datetime'],
+  integer: ['integer', 'bigint', 'double', 'decimal'],
+  double: ['double', 'decimal', 'currency'],
+  currency: ['currency', 'double', 'decimal'],
+  website: ['website', 'text', 'textarea'],
+};
+
+type FetchFields = (moduleName: CrmModule) => Promise<CrmFieldMetadata[]>;
+
+async function fetchCrmFields(moduleName: CrmModule): Promise<CrmFieldMetadata[]> {
+  const response = await crm.fields(moduleName) as { fields?: CrmFieldMetadata[] };
+  return response?.fields || [];
+}
+
+interface ExpectedField {
+  type: CrmFieldType;
+  forms: MappedForm[];
+}
+
+/**
+ * Mapped fields per module, with the forms that write each one
+ */
+function expectedFields(mappings: CrmFormMapping<unknown>[]) {
+  const modules = new Map<CrmModule, Map<string, ExpectedField>>();
+  for (const mapping of mappings) {
+    const fields = modules.get(mapping.module) || new Map<string, ExpectedField>();
+    modules.set(mapping.module, fields);
+    for (const ref of [...mapping.fields, ...(mapping.followUp || [])]) {
+      const expected = fields.get(ref.field);
+      if (!expected) {
+        fields.set(ref.field, { type: ref.type, forms: [mapping.form] });
+      } else if (!expected.forms.includes(mapping.form)) {
+        expected.forms.push(mapping.form);
+      }
+    }
+  }
+  return modules;
+}
+
+/**
+ * Compare the mappings with `crm.fields(module)`: fields the CRM doesn't have, has with an
+ * incompatible type or as read-only, and mandatory CRM fields a form never fills
+ */
+export async function checkCrmFieldMappings(
+  mappings: CrmFormMapping<any>[] = LEAD_MAPPINGS,
+  fetchFields: FetchFields = fetchCrmFields
+): Promise<CrmFieldReport> {
+  const issues: CrmFieldIssue[] = [];
+  const modules: CrmFieldReport['modules'] = [];
+  let mappedFields = 0;
+
+  const expectedByModule = expectedFields(mappings);
+  const moduleNames: CrmModule[] = [];
+  expectedByModule.forEach((_, name) => moduleNames.push(name));
+
+  for (const moduleName of moduleNames) {
+    const expected = expectedByModule.get(moduleName)!;
+    mappedFields += expected.size;
+
+    let metadata: CrmFieldMetadata[];
+    try {
+      metadata = await fetchFields(moduleName);
+    } catch (error) {
+      modules.push({ module: moduleName, fields: 0, error: error instanceof Error ? error.message : 'Unknown error' });
+      continue;
+    }
+    modules.push({ module: moduleName, fields: metadata.length });
+
+    const byName = new Map<string, CrmFieldMetadata>();
+    metadata.forEach(field => byName.set(field.api_name, field));
+
+    expected.forEach(({ type, forms }, field) => {
+      const actual = byName.get(field);
+      if (!actual) {
+        issues.push({
+          module: moduleName, field, forms, kind: 'missing', expected: type,
+          message: `${moduleName} has no field ${field}`
+        });
+      } else if (!COMPATIBLE_TYPES[type].includes(actual.data_type)) {
+        issues.push({
+          module: moduleName, field, forms, kind: 'type_mismatch', expected: type, actual: actual.data_type,
+          message: `${field} is ${actual.data_type} in the CRM, the mapping writes ${type}`
+        });
+      } else if (actual.read_only) {
+        issues.push({
+          module: moduleName, field, forms, kind: 'read_only', expected: type, actual: actual.data_type,
+          message: `${field} is read-only in the CRM`
+        });
+      }
+    });
+
+    // Mandatory CRM fields, with the forms that leave them out
+    const moduleMappings = mappings.filter(item => item.module === moduleName);
+    metadata
+      .filter(field => field.system_mandatory && !field.read_only)
+      .forEach(field => {
+        const forms = moduleMappings
+          .filter(mapping => !mapping.fields.some(entry => entry.field === field.api_name))
+          .map(mapping => mapping.form);
+        if (forms.length === 0) return;
+        issues.push({
+          module: moduleName, field: field.api_name, forms, kind: 'unmapped_required', actual: field.data_type,
+          message: `${field.api_name} is mandatory in the CRM but never set by the ${forms.join(', ')} form(s)`
+        });
+      });
+  }
+
+  const report: CrmFieldReport = {
+    checkedAt: Date.now(),
+    ok: issues.length === 0 && modules.every(entry => !entry.error),
+    modules,
+    mappedFields,
+    issues,
+  };
+  lastReport = report;
+  return report;
+}
+
+let lastReport: CrmFieldReport | null = null;
+
+/** Outcome of the most recent check in this process, if any */
+export function getCrmFieldReport(): CrmFieldReport | null {
+  return lastReport;
+}
+
+/**
+ * Startup check (instrumentation.ts), run when CRM_FIELD_CHECK=true. Only logs - a mapping problem
+ * should not stop the site from taking leads
+ */
+export async function checkCrmFieldMappingsOnStartup(): Promise<void> {
+  if (!process.env.ZOHO_CLIENT_ID || !process.env.ZOHO_CRM_REFRESH_TOKEN) {
+    console.log('⚠️ Zoho CRM is not configured - skipping the CRM field mapping check');
+    return;
+  }
+
+  try {
+    const report = await checkCrmFieldMappings();
+    report.modules
+      .filter(entry => entry.error)
+      .forEach(entry => console.error(`❌ Could not load CRM fields for ${entry.module}: ${entry.error}`));
+    report.issues.forEach(issue => {
+      console.error(`❌ CRM field mapping (${issue.forms.join(', ')}): ${issue.message}`);
+    });
+    if (report.ok) {
+      console.log(`✅ CRM field mappings verified (${report.mappedFields} fields)`);
+    }
+  } catch (error) {
+    console.error('❌ CRM field mapping check failed:', error);
+  }
+}
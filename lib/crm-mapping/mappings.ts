@@ -0,0 +1,198 @@
+/**
+ * Lead Form Mappings
+ * The Zoho CRM Leads record each public form creates. Field API names live here only, so a renamed
+ * CRM field is one edit and the startup check (see index.ts) can verify every one of them
+ */
+
+import type {
+  ConsultationLeadSource,
+  ContactLeadSource,
+  CrmFieldMapping,
+  CrmFieldRef,
+  CrmFormMapping,
+  LeadSourceBase,
+  NewsletterConsentSource,
+  NewsletterLeadSource,
+  QuoteLeadSource
+} from './types';
+
+/**
+ * First word as first name, the rest as last name; a single name fills both because the CRM
+ * requires a last name
+ */
+export function splitName(name: string | undefined): { firstName?: string; lastName?: string } {
+  const parts = (name || '').trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return {};
+  return { firstName: parts[0], lastName: parts.slice(1).join(' ') || parts[0] };
+}
+
+function firstName(source: LeadSourceBase) {
+  return source.firstName || splitName(source.name).firstName;
+}
+
+function lastName(source: LeadSourceBase) {
+  return source.lastName || splitName(source.name).lastName || source.email.split('@')[0];
+}
+
+/** Name, email, phone and company; `company` is the fallback for leads without one */
+function personFields(company?: string): CrmFieldMapping<LeadSourceBase>[] {
+  return [
+    { field: 'First_Name', type: 'text', value: firstName },
+    { field: 'Last_Name', type: 'text', required: true, value: lastName },
+    { field: 'Email', type: 'email', required: true, value: source => source.email },
+    { field: 'Phone', type: 'phone', value: source => source.phone },
+    { field: 'Company', type: 'text', value: source => source.company || company },
+  ];
+}
+
+function classificationFields(leadSource: string, status?: string, industry?: string): CrmFieldMapping<LeadSourceBase>[] {
+  return [
+    { field: 'Lead_Source', type: 'picklist', value: () => leadSource },
+    { field: 'Lead_Status', type: 'picklist', value: () => status },
+    { field: 'Industry', type: 'picklist', value: () => industry },
+  ];
+}
+
+const submissionFields: CrmFieldMapping<LeadSourceBase>[] = [
+  { field: 'Submission_ID_c', type: 'text', value: source => source.submissionId },
+  { field: 'Consent_c', type: 'boolean', value: source => source.consent },
+  // Only true after the email confirmation; lib/newsletter also keeps it current on unsubscribe
+  { field: 'Newsletter_Opt_In_c', type: 'boolean', value: source => source.newsletterOptIn },
+];
+
+const utmFields: CrmFieldMapping<LeadSourceBase>[] = [
+  { field: 'UTM_Source_c', type: 'text', value: source => source.tracking.utm_source },
+  { field: 'UTM_Medium_c', type: 'text', value: source => source.tracking.utm_medium },
+  { field: 'UTM_Campaign_c', type: 'text', value: source => source.tracking.utm_campaign },
+  { field: 'UTM_Term_c', type: 'text', value: source => source.tracking.utm_term },
+  { field: 'UTM_Content_c', type: 'text', value: source => source.tracking.utm_content },
+];
+
+const pageFields: CrmFieldMapping<LeadSourceBase>[] = [
+  { field: 'Website_Referrer_c', type: 'text', value: source => source.tracking.referrer },
+  { field: 'Page_Path_c', type: 'text', value: source => source.tracking.page },
+];
+
+// Rating, score and matched rules from lib/lead-scoring
+const scoreFields: CrmFieldMapping<LeadSourceBase>[] = [
+  { field: 'Rating', type: 'picklist', value: source => source.score?.rating },
+  { field: 'Lead_Score_c', type: 'integer', value: source => source.score?.score },
+  { field: 'Lead_Score_Rules_c', type: 'text', value: source => source.score?.matched.join(', ') },
+];
+
+/** Set on the quote's lead once its WorkDrive folder exists */
+export const WORKDRIVE_FOLDER_LINK: CrmFieldRef = { field: 'WorkDrive_Folder_Link_c', type: 'website' };
+
+export const QUOTE_LEAD_MAPPING: CrmFormMapping<QuoteLeadSource> = {
+  form: 'quote',
+  module: 'Leads',
+  fields: [
+    ...personFields('Individual'),
+    ...classificationFields('Quotation Request', 'Quote Requested', 'Manufacturing'),
+    ...submissionFields,
+    { field: 'Service_Type_c', type: 'picklist', value: source => source.service },
+    { field: 'Budget_Range_c', type: 'picklist', value: source => source.budget },
+    { field: 'Timeline_c', type: 'picklist', value: source => source.timeline },
+    { field: 'Scope_c', type: 'picklist', value: source => source.scope },
+    { field: 'Description', type: 'textarea', value: source => source.description },
+    ...utmFields,
+    ...pageFields,
+    // Attachment inspection verdicts (type check, archive check, malware scan)
+    { field: 'File_Inspection_Status_c', type: 'picklist', value: source => source.fileInspectionStatus },
+    { field: 'File_Inspection_c', type: 'textarea', value: source => source.fileInspection },
+    // CAD attachment metadata (previews are uploaded next to the files in WorkDrive)
+    { field: 'CAD_Metadata_c', type: 'textarea', value: source => source.cadMetadata },
+    { field: 'CAD_Volume_cm3_c', type: 'double', value: source => source.cadVolumeCm3 },
+    // Instant 3D printing estimate the visitor saw before requesting the quote
+    { field: 'Price_Estimate_c', type: 'textarea', value: source => source.priceEstimate?.summary },
+    { field: 'Price_Estimate_Min_c', type: 'currency', value: source => source.priceEstimate?.min },
+    { field: 'Price_Estimate_Max_c', type: 'currency', value: source => source.priceEstimate?.max },
+    // YYYY-MM-DD and HH:MM:SS in the office time zone
+    { field: 'Submission_Date_c', type: 'date', value: source => source.submittedAt.toISOString().split('T')[0] },
+    {
+      field: 'Submission_Time_c',
+      type: 'text',
+      value: source => source.submittedAt.toLocaleTimeString('en-GB', {
+        hour12: false,
+        timeZone: process.env.TIMEZONE || 'Europe/Berlin'
+      })
+    },
+    ...scoreFields,
+  ],
+  followUp: [WORKDRIVE_FOLDER_LINK],
+};
+
+export const CONTACT_LEAD_MAPPING: CrmFormMapping<ContactLeadSource> = {
+  form: 'contact',
+  module: 'Leads',
+  fields: [
+    ...personFields(),
+    ...classificationFields('Contact Form', 'New', 'Engineering Services'),
+    ...submissionFields,
+    {
+      field: 'Description',
+      type: 'textarea',
+      value: source => `Subject: ${source.subject || 'General Inquiry'}\n\nMessage: ${source.message}`
+    },
+    ...utmFields,
+    ...scoreFields,
+  ],
+};
+
+export const CONSULTATION_LEAD_MAPPING: CrmFormMapping<ConsultationLeadSource> = {
+  form: 'consultation',
+  module: 'Leads',
+  fields: [
+    ...personFields('Individual'),
+    ...classificationFields('Website - Consultation Form'),
+    ...submissionFields,
+    { field: 'Service_Type_c', type: 'picklist', value: source => source.service },
+    { field: 'Budget_Range_c', type: 'picklist', value: source => source.budget },
+    { field: 'Timeline_c', type: 'picklist', value: source => source.timeline },
+    { field: 'Scope_c', type: 'picklist', value: source => source.scope },
+    { field: 'Description', type: 'textarea', value: source => source.description },
+    { field: 'Consultation_Date_c', type: 'date', value: source => source.date },
+    { field: 'Consultation_Time_c', type: 'datetime', value: source => source.dateTime },
+    ...utmFields,
+    ...scoreFields,
+  ],
+};
+
+export const NEWSLETTER_LEAD_MAPPING: CrmFormMapping<NewsletterLeadSource> = {
+  form: 'newsletter',
+  module: 'Leads',
+  fields: [
+    ...personFields('Newsletter Subscriber'),
+    ...classificationFields('Newsletter Subscription'),
+    ...submissionFields,
+    {
+      field: 'Description',
+      type: 'textarea',
+      value: source => `Newsletter subscription from ${source.tracking.utm_source || 'website'}`
+    },
+    ...utmFields,
+  ],
+};
+
+/**
+ * Upserted by email when someone who opted in on a quote, contact or consultation form confirms,
+ * and on every unsubscribe
+ */
+export const NEWSLETTER_CONSENT_MAPPING: CrmFormMapping<NewsletterConsentSource> = {
+  form: 'newsletter_consent',
+  module: 'Leads',
+  fields: [
+    { field: 'First_Name', type: 'text', value: source => source.firstName },
+    { field: 'Last_Name', type: 'text', required: true, value: source => source.lastName || source.email.split('@')[0] },
+    { field: 'Email', type: 'email', required: true, value: source => source.email },
+    { field: 'Newsletter_Opt_In_c', type: 'boolean', value: source => source.optIn },
+  ],
+};
+
+export const LEAD_MAPPINGS: CrmFormMapping<any>[] = [
+  QUOTE_LEAD_MAPPING,
+  CONTACT_LEAD_MAPPING,
+  CONSULTATION_LEAD_MAPPING,
+  NEWSLETTER_LEAD_MAPPING,
+  NEWSLETTER_CONSENT_MAPPING,
+];
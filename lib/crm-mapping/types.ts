@@ -0,0 +1,146 @@
+/**
+ * CRM Field Mapping Types
+ * Per-form descriptions of the Zoho CRM record a lead form produces, and the report from checking
+ * them against the CRM's field metadata
+ */
+
+import type { LeadScore } from '@/lib/lead-scoring/types';
+
+export type CrmModule = 'Leads';
+
+export type MappedForm = 'quote' | 'contact' | 'consultation' | 'newsletter' | 'newsletter_consent';
+
+/** Zoho `data_type` values the mappings write */
+export type CrmFieldType =
+  | 'text'
+  | 'textarea'
+  | 'email'
+  | 'phone'
+  | 'picklist'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'integer'
+  | 'double'
+  | 'currency'
+  | 'website';
+
+export interface CrmFieldRef {
+  /** API name in the CRM module */
+  field: string;
+  type: CrmFieldType;
+}
+
+export interface CrmFieldMapping<TSource> extends CrmFieldRef {
+  /** The CRM refuses the record without it */
+  required?: boolean;
+  /** Value for the record; undefined, null and empty strings leave the field out */
+  value: (source: TSource) => unknown;
+}
+
+export interface CrmFormMapping<TSource> {
+  form: MappedForm;
+  module: CrmModule;
+  fields: CrmFieldMapping<TSource>[];
+  /** Written later by crm.updateLead outbox steps (e.g. the WorkDrive folder link) */
+  followUp?: CrmFieldRef[];
+}
+
+export interface LeadTracking {
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  utm_term?: string;
+  utm_content?: string;
+  referrer?: string;
+  page?: string;
+}
+
+/** What every lead form knows about the person */
+export interface LeadSourceBase {
+  submissionId: string;
+  /** Full name; split into first/last name unless those are given */
+  name?: string;
+  firstName?: string;
+  lastName?: string;
+  email: string;
+  phone?: string;
+  company?: string;
+  consent: boolean;
+  /** Only set once the address is confirmed (double opt-in, see lib/newsletter) */
+  newsletterOptIn?: boolean;
+  tracking: LeadTracking;
+  score?: LeadScore;
+}
+
+export interface QuoteLeadSource extends LeadSourceBase {
+  service: string;
+  budget: string;
+  timeline: string;
+  scope: string;
+  description: string;
+  submittedAt: Date;
+  fileInspectionStatus?: string;
+  fileInspection?: string;
+  cadMetadata?: string;
+  cadVolumeCm3?: number;
+  priceEstimate?: { summary: string; min: number; max: number };
+}
+
+export interface ContactLeadSource extends LeadSourceBase {
+  subject?: string;
+  message: string;
+}
+
+export interface ConsultationLeadSource extends LeadSourceBase {
+  service: string;
+  budget?: string;
+  timeline?: string;
+  scope?: string;
+  description: string;
+  date: string;
+  /** Already in the CRM datetime format */
+  dateTime: string;
+}
+
+export type NewsletterLeadSource = LeadSourceBase;
+
+/** Opt-in change on the lead of a confirmed or unsubscribed newsletter address */
+export interface NewsletterConsentSource {
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  optIn: boolean;
+}
+
+/** One entry of `crm.fields(module)` */
+export interface CrmFieldMetadata {
+  api_name: string;
+  data_type: string;
+  field_label?: string;
+  custom_field?: boolean;
+  system_mandatory?: boolean;
+  read_only?: boolean;
+  length?: number;
+}
+
+export type CrmFieldIssueKind = 'missing' | 'type_mismatch' | 'read_only' | 'unmapped_required';
+
+export interface CrmFieldIssue {
+  module: CrmModule;
+  field: string;
+  forms: MappedForm[];
+  kind: CrmFieldIssueKind;
+  expected?: CrmFieldType;
+  actual?: string;
+  message: string;
+}
+
+export interface CrmFieldReport {
+  checkedAt: number;
+  ok: boolean;
+  modules: Array<{ module: CrmModule; fields: number; error?: string }>;
+  /** Distinct CRM fields the mappings write */
+  mappedFields: number;
+  issues: CrmFieldIssue[];
+}
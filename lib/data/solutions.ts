@@ -0,0 +1,348 @@
+import {
+  Building2,
+  Clock,
+  DollarSign,
+  Globe,
+  Rocket,
+  Shield,
+  Target,
+  TrendingUp,
+  Users,
+  type LucideIcon,
+} from 'lucide-react';
+
+// Copy of the solutions pages. The pages render it and the site search indexes it, so whatever a
+// visitor reads there can be found
+
+export interface SolutionItem {
+  title: string;
+  description?: string;
+  /** A challenge's answer, shown under it */
+  solution?: string;
+  /** Badge, figure or duration shown with the item */
+  highlight?: string;
+  /** Bullet points, e.g. a phase's deliverables */
+  points?: string[];
+  href?: string;
+  /** Lucide icon, or an emoji on the cards that use one */
+  icon?: LucideIcon | string;
+}
+
+export interface SolutionSection {
+  heading?: string;
+  /** Small label above the heading */
+  subtitle?: string;
+  intro?: string;
+  items: SolutionItem[];
+  /** A list shown beside the items, e.g. what a program includes */
+  points?: string[];
+}
+
+export interface SolutionPage {
+  title: string;
+  /** Shown after the title in the hero's accent colour */
+  highlight?: string;
+  url: string;
+  tagline?: string;
+  description: string;
+  sections: Record<string, SolutionSection>;
+}
+
+export const solutionsOverview = {
+  title: 'Solutions for Every Stage',
+  url: '/solutions',
+  description: "Whether you're a startup bringing your first product to market or an established enterprise scaling operations, we have tailored solutions for your needs.",
+  sections: {
+    audiences: {
+      items: [
+        {
+          icon: Rocket,
+          title: 'For Startups',
+          highlight: 'Accelerate Your Innovation',
+          description: 'Fast-track your product development with our specialized startup package. From concept to production in 12-20 weeks with cost-effective solutions.',
+          points: ['Product Development Accelerator', 'MVP Design & Prototyping', 'Manufacturing Partner Qualification', 'Cost-Effective Indian Manufacturing'],
+          href: '/solutions/for-startups',
+        },
+        {
+          icon: Building2,
+          title: 'For Enterprises',
+          highlight: 'Scale Your Operations',
+          description: 'Advanced engineering solutions for established companies. Complex projects, compliance requirements, and large-scale manufacturing support.',
+          points: ['Advanced R&D Projects', 'Complex Engineering Analysis', 'Large-Scale Manufacturing', 'Compliance & Documentation'],
+          href: '/solutions/for-enterprises',
+        },
+      ],
+    },
+    advantages: {
+      heading: 'Why Choose IdEinstein?',
+      intro: 'Unique advantages that set us apart in the global engineering landscape',
+      items: [
+        { icon: Users, title: 'Cross-Cultural Bridge', description: '26+ years bridging German precision with Indian manufacturing efficiency' },
+        { icon: TrendingUp, title: 'Proven Track Record', description: '87% of our R&D projects successfully reach market with measurable ROI' },
+        { icon: Shield, title: 'Single Point of Contact', description: 'Simplified project management with one expert overseeing your entire process' },
+      ],
+    },
+  },
+} satisfies SolutionPage;
+
+export const startupSolutions = {
+  title: 'Solutions for Startups',
+  url: '/solutions/for-startups',
+  tagline: 'From Idea to Market in Record Time',
+  description: 'Specialized engineering solutions designed for startups. Fast, cost-effective, and built to scale with your growth.',
+  sections: {
+    challenges: {
+      heading: 'Startup Challenges I Solve',
+      intro: 'I understand the unique challenges startups face and have tailored solutions for each',
+      items: [
+        {
+          icon: DollarSign,
+          title: 'Limited Budget',
+          description: 'Traditional engineering services are expensive and designed for large enterprises',
+          solution: 'My startup approach offers 30-50% cost savings with flexible payment options',
+        },
+        {
+          icon: Clock,
+          title: 'Time Pressure',
+          description: 'Investors and market demands require rapid product development',
+          solution: 'Streamlined 12-20 week process from concept to production-ready',
+        },
+        {
+          icon: Users,
+          title: 'Expertise Gap',
+          description: 'Lack of in-house engineering expertise for complex product development',
+          solution: 'Experienced mechanical engineering expertise at your disposal',
+        },
+        {
+          icon: Target,
+          title: 'Manufacturing Complexity',
+          description: 'Finding reliable, cost-effective manufacturing partners is challenging',
+          solution: 'Carefully selected manufacturing partners with personal coordination support',
+        },
+      ],
+    },
+    accelerator: {
+      heading: 'Featured: Product Development Accelerator',
+      intro: 'My flagship startup solution - a complete 4-phase program designed specifically for early-stage companies',
+      items: [
+        { title: 'Concept & Feasibility', highlight: '1-2 months' },
+        { title: 'Design & Prototyping', highlight: '2-4 months' },
+        { title: 'Validation & Manufacturing Setup', highlight: '3-6 months' },
+        { title: 'Production & Ongoing Support', highlight: 'Ongoing' },
+      ],
+      points: [
+        'Comprehensive feasibility study',
+        'Functional prototype development',
+        'Manufacturing-ready design files',
+        'Qualified supplier identification',
+        'Quality control planning',
+        'Ongoing support and guidance',
+      ],
+    },
+    approach: {
+      heading: 'My Startup Approach',
+      intro: 'Focused on delivering results for startups with personal attention and proven methodology',
+      items: [
+        { highlight: '1-on-1', title: 'Personal Attention', description: 'Direct communication with engineer' },
+        { highlight: '12-20', title: 'Weeks', description: 'Concept to production timeline' },
+        { highlight: '30-50%', title: 'Cost Savings', description: 'vs. traditional methods' },
+        { highlight: '24h', title: 'Response Time', description: 'Quick decision making' },
+      ],
+    },
+    services: {
+      heading: 'Need Individual Services?',
+      intro: 'While my accelerator package offers the best value, I also provide individual services for specific needs',
+      items: [
+        { title: 'Research & Development', href: '/services/research-development', description: 'Concept validation and feasibility studies' },
+        { title: 'CAD Modeling', href: '/services/cad-modeling', description: 'Professional 3D modeling and design' },
+        { title: '3D Printing Services', href: '/services/3d-printing', description: 'Rapid prototyping and manufacturing' },
+        { title: 'FEA & CFD Analysis', href: '/services/finite-element-cfd', description: 'Advanced simulation and analysis' },
+        { title: 'Supplier Sourcing', href: '/services/supplier-sourcing', description: 'Manufacturing partner identification' },
+        { title: 'Technical Documentation', href: '/services/technical-documentation', description: 'Professional documentation services' },
+      ],
+    },
+  },
+} satisfies SolutionPage;
+
+export const enterpriseSolutions = {
+  title: 'Enterprise',
+  highlight: 'Solutions',
+  url: '/solutions/for-enterprises',
+  tagline: 'German Quality, Global Efficiency',
+  description: '26+ years of engineering excellence delivering enterprise-grade solutions. My Hub & Spoke model combines German quality standards with global cost efficiency for your most critical projects.',
+  sections: {
+    services: {
+      heading: 'Complete Engineering Services Portfolio',
+      subtitle: 'What We Deliver',
+      intro: 'Access our complete range of engineering services, scaled and customized for enterprise requirements. Each service backed by 26+ years of experience.',
+      items: [],
+    },
+    challenges: {
+      heading: 'Complex Problems, Proven Solutions',
+      intro: "After 26+ years working with enterprises, I understand your unique challenges. Here's how my experience and Hub & Spoke model addresses the most common obstacles.",
+      items: [
+        {
+          icon: Shield,
+          title: 'Regulatory Compliance Complexity',
+          description: 'Multiple regulatory requirements across different regions and industries create compliance nightmares',
+          solution: 'My 26+ years of experience includes deep regulatory knowledge and established compliance processes',
+        },
+        {
+          icon: Users,
+          title: 'Multi-Stakeholder Coordination',
+          description: 'Large projects involve multiple departments, vendors, and decision-makers causing delays and miscommunication',
+          solution: 'My Hub & Spoke model provides single-point coordination while leveraging specialized expertise',
+        },
+        {
+          icon: TrendingUp,
+          title: 'Cost vs. Quality Balance',
+          description: 'Pressure to reduce costs while maintaining quality standards and meeting tight deadlines',
+          solution: 'German quality standards with carefully selected global partners deliver 30-50% cost savings',
+        },
+        {
+          icon: Globe,
+          title: 'Global Supply Chain Complexity',
+          description: 'Managing international suppliers, quality standards, and cultural differences across multiple regions',
+          solution: 'My global network of pre-qualified partners with personal relationship management and quality oversight',
+        },
+      ],
+    },
+    hubSpoke: {
+      heading: 'My Hub & Spoke Model for Enterprises',
+      intro: 'How I deliver engineering standards with global efficiency for your complex enterprise projects.',
+      items: [
+        {
+          icon: '🏆',
+          title: 'Enterprise-Grade Quality',
+          description: 'Engineering standards applied to every aspect of your project, from planning to delivery.',
+          highlight: 'ISO 9001 Compliant',
+        },
+        {
+          icon: '💰',
+          title: 'Cost Optimization',
+          description: 'Strategic use of global resources while maintaining quality delivers significant cost savings.',
+          highlight: '30-50% Cost Reduction',
+        },
+        {
+          icon: '🤝',
+          title: 'Single Point of Contact',
+          description: 'Direct access to an experienced engineer who understands enterprise requirements and constraints.',
+          highlight: 'Executive-Level Access',
+        },
+      ],
+    },
+    partnership: {
+      heading: 'Featured: Enterprise Partnership Program',
+      intro: 'My comprehensive solution for complex enterprise projects - dedicated engineering partnership with German quality standards and global efficiency.',
+      items: [
+        { title: 'Strategic Assessment', highlight: '3-4 weeks', description: 'Comprehensive project analysis, stakeholder alignment, and strategic planning' },
+        { title: 'Solution Architecture', highlight: '3-5 months', description: 'Detailed engineering design, validation, regulatory compliance review, and prototyping' },
+        { title: 'Implementation', highlight: '4-8 months', description: 'Coordinated execution, manufacturing, testing, and quality oversight' },
+        { title: 'Optimization & Maintenance', highlight: 'Ongoing', description: 'Continuous improvement, maintenance, and performance optimization' },
+      ],
+      points: [
+        'Dedicated project management and coordination',
+        'German quality standards and compliance oversight',
+        'Multi-vendor management and integration',
+        'Risk assessment and mitigation strategies',
+        'Regular executive reporting and communication',
+        'Ongoing optimization and maintenance services',
+      ],
+    },
+  },
+} satisfies SolutionPage;
+
+export const acceleratorProgram = {
+  title: 'Product Development',
+  highlight: 'Accelerator',
+  url: '/services/product-development-accelerator',
+  tagline: 'From Idea to Manufacturing Readiness',
+  description: 'I guide startups from first idea through manufacturing readiness, with you at every stage. A comprehensive engineering program combining 26+ years of mechanical engineering expertise with cost-effective global partnerships.',
+  sections: {
+    challenges: {
+      heading: 'Common Product Development Challenges',
+      intro: 'From my experience working with startups, these are the most frequent obstacles that slow down product development and increase costs',
+      items: [
+        { icon: DollarSign, title: 'High Development Costs', description: 'Traditional engineering services are expensive and designed for large enterprises' },
+        { icon: Clock, title: 'Long Time-to-Market', description: 'Complex processes and multiple vendors slow down product development' },
+        { icon: Users, title: 'Expertise Gaps', description: 'Startups lack in-house engineering expertise for complex product development' },
+        { icon: Target, title: 'Manufacturing Complexity', description: 'Finding reliable, cost-effective manufacturing partners is challenging' },
+      ],
+    },
+    phases: {
+      heading: 'The 4-Phase IdEinstein Path',
+      subtitle: 'For Startups',
+      intro: "I guide startups from first idea through manufacturing readiness, with you at every stage. Here's exactly what you get in each phase:",
+      items: [
+        {
+          title: 'Concept & Feasibility',
+          highlight: '1-2 months',
+          points: [
+            "Personal consultation to clarify your idea's technical/commercial viability",
+            'Market/regulatory review to assess practical fit for EU/India',
+            'Preliminary design sketches or flow diagrams',
+            'Feasibility report: risks, recommendations, go/no-go factors',
+          ],
+        },
+        {
+          title: 'Design & Prototyping',
+          highlight: '2-4 months',
+          points: [
+            'Coordination of CAD modeling and detailed drawings',
+            'Sourcing of one or more prototype partners (manual or 3D printed, as fits your budget/stage)',
+            "Founder's review of prototype and test feedback",
+            'Step-by-step management of design iterations',
+          ],
+        },
+        {
+          title: 'Validation & Manufacturing Setup',
+          highlight: '3-6 months',
+          points: [
+            'GD&T/tolerance review for production readiness',
+            'Identification/search for potential Indian manufacturing partners',
+            'Introductions and cultural navigation for supplier discussions',
+            'Documentation and SOPs prepared for transfer to manufacturing',
+          ],
+        },
+        {
+          title: 'Production & Ongoing Support',
+          highlight: 'Ongoing',
+          points: [
+            'Ongoing founder-led communication and troubleshooting with suppliers',
+            'Coordination/review of first articles or pilot runs',
+            'Coaching/guidance on quality processes and scaling',
+            'Access to "phone-a-friend" support as needed as you grow',
+          ],
+        },
+      ],
+    },
+    benefits: {
+      heading: 'Why Startups Choose My Approach',
+      subtitle: 'Personal Partnership Model',
+      intro: 'Unlike large consultancies, I understand startup constraints and work within your budget and timeline with personal attention',
+      items: [
+        { icon: Users, title: 'Direct Founder Access', description: 'Work directly with me - no account managers or middlemen. Get technical decisions made quickly with personal attention.' },
+        { icon: DollarSign, title: 'Budget-Conscious Solutions', description: 'Flexible approach that fits your funding stage. Cost-efficient global partnerships without compromising quality.' },
+        { icon: Shield, title: 'Cultural Bridge Advantage', description: 'Navigate supplier discussions with cultural understanding. I handle introductions and communication barriers.' },
+        { icon: Target, title: 'Realistic Timeline Planning', description: 'Honest timelines based on 26+ years experience. No overpromising - just realistic expectations and delivery.' },
+        { icon: TrendingUp, title: 'Long-term Partnership', description: 'Phone-a-friend support as you grow. I stay with your project beyond initial development phases.' },
+        { icon: Globe, title: 'EU-India Manufacturing Bridge', description: 'Leverage my network spanning German precision and Indian cost-efficiency for optimal manufacturing solutions.' },
+      ],
+    },
+    approach: {
+      heading: 'My Founder-Focused Approach',
+      subtitle: 'Personal Engineering Partnership',
+      intro: 'What sets my methodology apart: combining deep technical expertise with the personal attention and cultural navigation startups need',
+      items: [
+        { icon: '👨‍💼', title: 'Founder-to-Founder Communication', description: "Direct access to me as the founder - understand your challenges because I've been there", highlight: 'Entrepreneurial empathy' },
+        { icon: '🌏', title: 'Cultural Navigation Support', description: 'Bridge communication gaps with suppliers - I handle cultural nuances and introductions', highlight: 'Cross-cultural expertise' },
+        { icon: '📞', title: 'Phone-a-Friend Support', description: "Ongoing access even after project completion - I'm here as you scale and grow", highlight: 'Long-term partnership' },
+        { icon: '💰', title: 'Budget-Stage Flexibility', description: 'Solutions that fit your funding stage - from bootstrap to Series A approaches', highlight: 'Startup-conscious pricing' },
+        { icon: '🔍', title: 'Honest Feasibility Assessment', description: 'Realistic go/no-go recommendations based on market and technical realities', highlight: 'Transparent evaluation' },
+        { icon: '🤝', title: 'Supplier Relationship Management', description: 'Personal coordination with manufacturing partners - I stay involved in supplier communications', highlight: 'Ongoing supplier support' },
+      ],
+    },
+  },
+} satisfies SolutionPage;
+
+export const solutionPages: SolutionPage[] = [solutionsOverview, startupSolutions, enterpriseSolutions, acceleratorProgram];
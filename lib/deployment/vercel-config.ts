@@ -276,12 +276,6 @@ function generateEnvironmentVariables(): VercelEnvironmentVariable[] {
       target: ['production', 'preview'],
       type: 'secret'
     },
-    {
-      key: 'NEXT_PUBLIC_HMAC_SECRET',
-      value: '', // To be set manually
-      target: ['production', 'preview'],
-      type: 'plain'
-    },
     {
       key: 'RATE_PER_MIN',
       value: '60',
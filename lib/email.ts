@@ -22,6 +22,14 @@ function getTransporter() {
   return transporter;
 }
 
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 // Email templates
 export const emailTemplates = {
   contactNotification: (data: unknown) => ({
@@ -120,9 +128,30 @@ export const emailTemplates = {
     `,
   }),
 
-  welcomeNewsletter: (data: unknown) => ({
+  newsletterConfirmation: (data: { email: string; name?: string; link: string; expiresInDays: number }) => ({
     from: process.env.SMTP_FROM || 'noreply@ideinstein.com',
-    to: (data as any).email,
+    to: data.email,
+    subject: 'Please confirm your IdEinstein newsletter subscription',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #1E40AF;">Confirm your subscription</h2>
+
+        <p>Dear ${escapeHtml(data.name || 'Subscriber')},</p>
+
+        <p>Someone, hopefully you, asked to receive the IdEinstein newsletter at this address. Please confirm that you want to subscribe.</p>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${data.link}" style="background: #1E40AF; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Confirm subscription</a>
+        </div>
+
+        <p style="color: #64748b; font-size: 14px;">The link is valid for ${data.expiresInDays} days. If you didn't ask for this, ignore this email and you won't hear from us again.</p>
+      </div>
+    `,
+  }),
+
+  welcomeNewsletter: (data: { email: string; name?: string; manageLink: string }) => ({
+    from: process.env.SMTP_FROM || 'noreply@ideinstein.com',
+    to: data.email,
     subject: 'Welcome to IdEinstein Newsletter!',
     html: `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
@@ -131,7 +160,7 @@ export const emailTemplates = {
           <p style="color: #64748b;">Where Ideas Take Shape</p>
         </div>
         
-        <p>Dear ${(data as any).name || 'Subscriber'},</p>
+        <p>Dear ${escapeHtml(data.name || 'Subscriber')},</p>
         
         <p>Thank you for subscribing to the IdEinstein newsletter! You'll now receive:</p>
         
@@ -153,13 +182,82 @@ export const emailTemplates = {
         The IdEinstein Team</p>
         
         <div style="border-top: 1px solid #e2e8f0; margin-top: 30px; padding-top: 20px; color: #64748b; font-size: 14px;">
-          <p>You can <a href="https://ideinstein.com/unsubscribe?email=${(data as any).email}">unsubscribe</a> at any time.</p>
+          <p>You can <a href="${data.manageLink}">change your preferences or unsubscribe</a> at any time.</p>
           <p>IdEinstein - Professional Engineering Services<br>
           Walter-Petri-Ring 49, 65232 Taunusstein, Germany</p>
         </div>
       </div>
     `,
   }),
+
+  accountInvite: (data: { email: string; name: string; link: string; expiresInDays: number }) => ({
+    from: process.env.SMTP_FROM || 'noreply@ideinstein.com',
+    to: data.email,
+    subject: 'Your IdEinstein Client Portal Invitation',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="text-align: center; padding: 20px 0;">
+          <h1 style="color: #1E40AF;">IdEinstein</h1>
+          <p style="color: #64748b;">Where Ideas Take Shape</p>
+        </div>
+
+        <p>Dear ${escapeHtml(data.name)},</p>
+
+        <p>You have been invited to the IdEinstein client portal, where you can follow your projects, exchange files and view invoices.</p>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${data.link}" style="background: #1E40AF; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Create your account</a>
+        </div>
+
+        <p style="color: #64748b; font-size: 14px;">This invitation expires in ${data.expiresInDays} days. If you weren't expecting it, you can ignore this email.</p>
+
+        <p>Best regards,<br>
+        The IdEinstein Team</p>
+      </div>
+    `,
+  }),
+
+  emailVerification: (data: { email: string; name: string; link: string }) => ({
+    from: process.env.SMTP_FROM || 'noreply@ideinstein.com',
+    to: data.email,
+    subject: 'Confirm your email address - IdEinstein',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #1E40AF;">Confirm your email address</h2>
+
+        <p>Dear ${escapeHtml(data.name)},</p>
+
+        <p>Please confirm your email address and choose a password to activate your IdEinstein client portal account.</p>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${data.link}" style="background: #1E40AF; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Confirm email and set password</a>
+        </div>
+
+        <p style="color: #64748b; font-size: 14px;">The link is valid for 24 hours. If you didn't sign up, you can ignore this email.</p>
+      </div>
+    `,
+  }),
+
+  passwordReset: (data: { email: string; name: string; link: string }) => ({
+    from: process.env.SMTP_FROM || 'noreply@ideinstein.com',
+    to: data.email,
+    subject: 'Reset your IdEinstein password',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #1E40AF;">Reset your password</h2>
+
+        <p>Dear ${escapeHtml(data.name)},</p>
+
+        <p>We received a request to reset the password of your IdEinstein client portal account.</p>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${data.link}" style="background: #1E40AF; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Choose a new password</a>
+        </div>
+
+        <p style="color: #64748b; font-size: 14px;">The link is valid for 1 hour. If you didn't request a reset, you can ignore this email; your password stays unchanged.</p>
+      </div>
+    `,
+  }),
 };
 
 // Send email function
@@ -191,5 +289,17 @@ export const sendConsultationNotification = (data: unknown) =>
 export const sendConsultationConfirmation = (data: unknown) => 
   sendEmail(emailTemplates.consultationConfirmation(data) as SendMailOptions);
 
-export const sendWelcomeEmail = (data: unknown) => 
-  sendEmail(emailTemplates.welcomeNewsletter(data) as SendMailOptions);
\ No newline at end of file
+export const sendNewsletterConfirmation = (data: Parameters<typeof emailTemplates.newsletterConfirmation>[0]) =>
+  sendEmail(emailTemplates.newsletterConfirmation(data));
+
+export const sendWelcomeEmail = (data: Parameters<typeof emailTemplates.welcomeNewsletter>[0]) =>
+  sendEmail(emailTemplates.welcomeNewsletter(data));
+
+export const sendAccountInvite = (data: Parameters<typeof emailTemplates.accountInvite>[0]) =>
+  sendEmail(emailTemplates.accountInvite(data));
+
+export const sendEmailVerification = (data: Parameters<typeof emailTemplates.emailVerification>[0]) =>
+  sendEmail(emailTemplates.emailVerification(data));
+
+export const sendPasswordReset = (data: Parameters<typeof emailTemplates.passwordReset>[0]) =>
+  sendEmail(emailTemplates.passwordReset(data));
@@ -1,14 +1,76 @@
-export async function sign(body: string, secret: string) {
-  const enc = new TextEncoder();
+/**
+ * Form request signing, shared by the browser forms and middleware.ts
+ * The client asks /api/forms/nonce for a single-use nonce and a signing key derived from it,
+ * then signs the exact request bytes (JSON or multipart) with a timestamp
+ */
+
+export const SIGNATURE_HEADER = "x-signature";
+export const NONCE_HEADER = "x-form-nonce";
+export const TIMESTAMP_HEADER = "x-form-timestamp";
+
+type Signable = string | ArrayBuffer | Uint8Array;
+
+function toBytes(data: Signable): Uint8Array {
+  if (typeof data === "string") return new TextEncoder().encode(data);
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+function toHex(buffer: ArrayBuffer) {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function sign(body: Signable, secret: string) {
   const key = await crypto.subtle.importKey(
     "raw",
-    enc.encode(secret),
+    toBytes(secret),
     { name: "HMAC", hash: "SHA-256" },
     false,
     ["sign"]
   );
-  const mac = await crypto.subtle.sign("HMAC", key, enc.encode(body));
-  return Array.from(new Uint8Array(mac))
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
+  const mac = await crypto.subtle.sign("HMAC", key, toBytes(body));
+  return toHex(mac);
+}
+
+export async function sha256Hex(data: Signable) {
+  return toHex(await crypto.subtle.digest("SHA-256", toBytes(data)));
+}
+
+/**
+ * The string that gets signed: binds the body to the nonce, time, method and path
+ */
+export function signingInput(method: string, path: string, timestamp: string, nonce: string, bodyHash: string) {
+  return [timestamp, nonce, method.toUpperCase(), path, bodyHash].join(".");
+}
+
+/**
+ * POST a form submission with a signature the middleware can verify.
+ * Falls back to an unsigned request when the server has signing turned off
+ */
+export async function signedFetch(url: string, init: { method?: "POST"; body: BodyInit; headers?: HeadersInit }) {
+  const nonceResponse = await fetch("/api/forms/nonce", {
+    method: "POST",
+    cache: "no-store",
+    credentials: "same-origin",
+  });
+  const { nonce, key } = nonceResponse.ok ? await nonceResponse.json() : { nonce: null, key: null };
+
+  if (!nonce || !key) {
+    return fetch(url, { method: "POST", body: init.body, headers: init.headers });
+  }
+
+  // Let the platform encode the body (multipart boundary included) so the exact bytes can be signed
+  const encoded = new Request(url, { method: "POST", body: init.body, headers: init.headers });
+  const bytes = await encoded.arrayBuffer();
+  const timestamp = Date.now().toString();
+  const path = new URL(url, window.location.origin).pathname;
+  const signature = await sign(signingInput("POST", path, timestamp, nonce, await sha256Hex(bytes)), key);
+
+  const headers = new Headers(encoded.headers);
+  headers.set(NONCE_HEADER, nonce);
+  headers.set(TIMESTAMP_HEADER, timestamp);
+  headers.set(SIGNATURE_HEADER, signature);
+
+  return fetch(url, { method: "POST", body: bytes, headers, credentials: "same-origin" });
 }
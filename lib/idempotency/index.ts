@@ -0,0 +1,199 @@
+/**
+ * Idempotent Form Submissions
+ * Keys each public form POST on its submission_id: the first request runs, replays get the stored
+ * response, and the same id sent with a different payload is refused
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { createIdempotencyStore } from './stores';
+import type { IdempotencyRecord, IdempotencyStore, IdempotentForm } from './types';
+
+export * from './types';
+export { MemoryIdempotencyStore, FileIdempotencyStore, RedisIdempotencyStore, createIdempotencyStore } from './stores';
+
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+
+/** How long a successful outcome is replayed */
+const COMPLETED_TTL_MS = parseInt(process.env.IDEMPOTENCY_TTL_HOURS || '24') * 60 * 60 * 1000;
+/**
+ * A claim left by a crashed request stops blocking retries after this. A running request renews its
+ * claim every quarter of this, so handlers that outlive it (slow CRM calls, self-hosted servers
+ * without a function time limit) are not run a second time by a retry
+ */
+const PENDING_TTL_MS = 2 * 60 * 1000;
+
+// Bot-guard fields are refreshed by the client and say nothing about the submission itself
+const IGNORED_FIELDS = new Set(['form_token', 'website']);
+
+export interface IdempotentSubmission {
+  form: IdempotentForm;
+  submissionId?: string | null;
+  /** Parsed body the route acts on */
+  payload: unknown;
+  files?: File[];
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    const sorted: Record<string, unknown> = {};
+    Object.keys(value as Record<string, unknown>)
+      .filter(key => !IGNORED_FIELDS.has(key))
+      .sort()
+      .forEach(key => {
+        sorted[key] = canonicalize((value as Record<string, unknown>)[key]);
+      });
+    return sorted;
+  }
+  return value;
+}
+
+/**
+ * sha256 over the payload with sorted keys; files contribute name, size and type
+ */
+export function fingerprintSubmission(payload: unknown, files: File[] = []): string {
+  const fileSummary = files.map(file => ({ name: file.name, size: file.size, type: file.type }));
+  return createHash('sha256')
+    .update(JSON.stringify(canonicalize({ payload, files: fileSummary })))
+    .digest('hex');
+}
+
+function replay(record: IdempotencyRecord) {
+  const response = record.response!;
+  return new NextResponse(response.body, {
+    status: response.status,
+    headers: { 'Content-Type': response.contentType, [IDEMPOTENT_REPLAY_HEADER]: 'true' },
+  });
+}
+
+/**
+ * Renew a pending claim until `stop()`; stop waits for a renewal in flight so it can't land after
+ * the outcome is saved
+ */
+function keepClaimed(store: IdempotencyStore, claim: IdempotencyRecord, ttlMs: number) {
+  let inFlight: Promise<unknown> = Promise.resolve();
+  const timer = setInterval(() => {
+    inFlight = store.refresh({ ...claim, expiresAt: Date.now() + ttlMs })
+      .then(renewed => {
+        if (!renewed) {
+          console.warn(`⚠️ Idempotency claim for ${claim.key} lapsed while the request was running`);
+          clearInterval(timer);
+        }
+      })
+      .catch(error => console.error(`❌ Failed to renew idempotency claim for ${claim.key}:`, error));
+  }, Math.max(1, Math.floor(ttlMs / 4)));
+  timer.unref?.();
+
+  return {
+    async stop() {
+      clearInterval(timer);
+      await inFlight;
+    },
+  };
+}
+
+export class IdempotencyGuard {
+  constructor(
+    private readonly store: IdempotencyStore,
+    private readonly completedTtlMs = COMPLETED_TTL_MS,
+    private readonly pendingTtlMs = PENDING_TTL_MS
+  ) {}
+
+  /**
+   * Run `handler` at most once per submission_id. Only 2xx outcomes are stored, so a submission
+   * that failed validation or hit a server error can be corrected and sent again under the same id
+   */
+  async run(submission: IdempotentSubmission, handler: () => Promise<NextResponse>): Promise<NextResponse> {
+    if (!submission.submissionId) {
+      return handler();
+    }
+
+    const key = `${submission.form}:${submission.submissionId}`;
+    const fingerprint = fingerprintSubmission(submission.payload, submission.files);
+    const now = Date.now();
+
+    const claim: IdempotencyRecord = {
+      key,
+      fingerprint,
+      state: 'pending',
+      createdAt: now,
+      expiresAt: now + this.pendingTtlMs,
+      claimId: randomUUID(),
+    };
+
+    let existing: IdempotencyRecord | null;
+    try {
+      existing = await this.store.claim(claim);
+    } catch (error) {
+      // Losing dedupe is better than losing the lead
+      console.error(`❌ Idempotency store unavailable, processing ${key} without dedupe:`, error);
+      return handler();
+    }
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        console.warn(`⚠️ submission_id reused with a different payload: ${key}`);
+        return NextResponse.json(
+          { error: 'This submission_id was already used for a different submission' },
+          { status: 422 }
+        );
+      }
+      if (existing.state === 'completed' && existing.response) {
+        console.log(`🔁 Replaying stored response for ${key}`);
+        return replay(existing);
+      }
+      return NextResponse.json(
+        { error: 'This submission is already being processed' },
+        { status: 409, headers: { 'Retry-After': String(Math.ceil((existing.expiresAt - now) / 1000)) } }
+      );
+    }
+
+    const heartbeat = keepClaimed(this.store, claim, this.pendingTtlMs);
+    let response: NextResponse;
+    try {
+      response = await handler();
+    } catch (error) {
+      await heartbeat.stop();
+      await this.store.release(key).catch(() => undefined);
+      throw error;
+    }
+    await heartbeat.stop();
+
+    try {
+      if (response.status >= 200 && response.status < 300) {
+        const completedAt = Date.now();
+        await this.store.save({
+          key,
+          fingerprint,
+          state: 'completed',
+          createdAt: now,
+          expiresAt: completedAt + this.completedTtlMs,
+          response: {
+            status: response.status,
+            body: await response.clone().text(),
+            contentType: response.headers.get('content-type') || 'application/json',
+          },
+        });
+      } else {
+        await this.store.release(key);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to record idempotent outcome for ${key}:`, error);
+    }
+    return response;
+  }
+}
+
+let guardInstance: IdempotencyGuard | null = null;
+
+export function getIdempotencyGuard(): IdempotencyGuard {
+  if (!guardInstance) {
+    guardInstance = new IdempotencyGuard(createIdempotencyStore());
+  }
+  return guardInstance;
+}
+
+export function withIdempotency(submission: IdempotentSubmission, handler: () => Promise<NextResponse>) {
+  return getIdempotencyGuard().run(submission, handler);
+}
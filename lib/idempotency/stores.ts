@@ -0,0 +1,192 @@
+/**
+ * Idempotency Stores
+ * Claims must be atomic so two concurrent requests with the same submission_id never both run:
+ * SET NX on Redis, exclusive file creation on disk, and a plain map in memory. Refreshing a claim
+ * checks and extends in one step (a Lua script on Redis)
+ */
+
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { RedisLike } from '@/lib/redis';
+import { resolveStoreBackend } from '@/lib/stores';
+import type { IdempotencyRecord, IdempotencyStore } from './types';
+
+function isLive(record: IdempotencyRecord | null | undefined, now = Date.now()): record is IdempotencyRecord {
+  return !!record && record.expiresAt > now;
+}
+
+function isOwnClaim(existing: IdempotencyRecord | null | undefined, record: IdempotencyRecord) {
+  return isLive(existing) && existing.state === 'pending' && !!record.claimId && existing.claimId === record.claimId;
+}
+
+/**
+ * In-memory idempotency store (tests and single-instance development)
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  readonly kind = 'memory' as const;
+  private records = new Map<string, IdempotencyRecord>();
+
+  async claim(record: IdempotencyRecord) {
+    const now = Date.now();
+    this.records.forEach((existing, key) => {
+      if (!isLive(existing, now)) this.records.delete(key);
+    });
+
+    const existing = this.records.get(record.key);
+    if (existing) return JSON.parse(JSON.stringify(existing)) as IdempotencyRecord;
+    this.records.set(record.key, JSON.parse(JSON.stringify(record)));
+    return null;
+  }
+
+  async refresh(record: IdempotencyRecord) {
+    if (!isOwnClaim(this.records.get(record.key), record)) return false;
+    this.records.set(record.key, JSON.parse(JSON.stringify(record)));
+    return true;
+  }
+
+  async save(record: IdempotencyRecord) {
+    this.records.set(record.key, JSON.parse(JSON.stringify(record)));
+  }
+
+  async release(key: string) {
+    this.records.delete(key);
+  }
+}
+
+/**
+ * One JSON file per key; claims use exclusive create ('wx') so only one writer wins
+ */
+export class FileIdempotencyStore implements IdempotencyStore {
+  readonly kind = 'file' as const;
+
+  constructor(private readonly baseDir: string) {}
+
+  private recordPath(key: string) {
+    return path.join(this.baseDir, `${key.replace(/[^a-zA-Z0-9._-]/g, '_').slice(0, 160)}.json`);
+  }
+
+  private async read(key: string): Promise<IdempotencyRecord | null> {
+    try {
+      return JSON.parse(await readFile(this.recordPath(key), 'utf-8')) as IdempotencyRecord;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async claim(record: IdempotencyRecord) {
+    await mkdir(this.baseDir, { recursive: true });
+
+    // Second attempt only after clearing an expired record
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        await writeFile(this.recordPath(record.key), JSON.stringify(record), { encoding: 'utf-8', flag: 'wx' });
+        return null;
+      } catch (error: any) {
+        if (error?.code !== 'EEXIST') throw error;
+      }
+
+      const existing = await this.read(record.key);
+      if (isLive(existing)) return existing;
+      await rm(this.recordPath(record.key), { force: true });
+    }
+    throw new Error(`idempotency:claim_contended:${record.key}`);
+  }
+
+  async refresh(record: IdempotencyRecord) {
+    if (!isOwnClaim(await this.read(record.key), record)) return false;
+    await this.save(record);
+    return true;
+  }
+
+  async save(record: IdempotencyRecord) {
+    await mkdir(this.baseDir, { recursive: true });
+    const target = this.recordPath(record.key);
+    const temp = `${target}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(record), 'utf-8');
+    await rename(temp, target);
+  }
+
+  async release(key: string) {
+    await rm(this.recordPath(key), { force: true });
+  }
+}
+
+// KEYS[1] record, ARGV[1] claimId, ARGV[2] new record, ARGV[3] ttl in ms
+const REFRESH_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+if not raw then return 0 end
+local existing = cjson.decode(raw)
+if existing.state ~= 'pending' or existing.claimId ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+return 1
+`;
+
+/**
+ * Redis keys `idempotency:<form>:<submission_id>` that expire with the record
+ */
+export class RedisIdempotencyStore implements IdempotencyStore {
+  readonly kind = 'redis' as const;
+
+  constructor(private readonly redis: RedisLike) {}
+
+  private redisKey(key: string) {
+    return `idempotency:${key}`;
+  }
+
+  async claim(record: IdempotencyRecord) {
+    const ttl = Math.max(1, record.expiresAt - Date.now());
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      if (await this.redis.set(this.redisKey(record.key), JSON.stringify(record), { px: ttl, nx: true })) {
+        return null;
+      }
+      const raw = await this.redis.get(this.redisKey(record.key));
+      // Expired between SET and GET: try to claim again
+      if (raw) return JSON.parse(raw) as IdempotencyRecord;
+    }
+    throw new Error(`idempotency:claim_contended:${record.key}`);
+  }
+
+  async refresh(record: IdempotencyRecord) {
+    if (!record.claimId) return false;
+    const result = await this.redis.command<number>([
+      'EVAL',
+      REFRESH_SCRIPT,
+      1,
+      this.redisKey(record.key),
+      record.claimId,
+      JSON.stringify(record),
+      Math.max(1, record.expiresAt - Date.now()),
+    ]);
+    return result === 1;
+  }
+
+  async save(record: IdempotencyRecord) {
+    await this.redis.set(this.redisKey(record.key), JSON.stringify(record), {
+      px: Math.max(1, record.expiresAt - Date.now()),
+    });
+  }
+
+  async release(key: string) {
+    await this.redis.del(this.redisKey(key));
+  }
+}
+
+/**
+ * Resolve the configured idempotency store
+ * IDEMPOTENCY_STORE=redis|file|memory (default: redis when configured, otherwise file outside
+ * production), IDEMPOTENCY_DIR overrides the directory
+ */
+export function createIdempotencyStore(): IdempotencyStore {
+  const backend = resolveStoreBackend({ name: 'idempotency', envVar: 'IDEMPOTENCY_STORE', dirEnvVar: 'IDEMPOTENCY_DIR' });
+
+  switch (backend.kind) {
+    case 'redis':
+      return new RedisIdempotencyStore(backend.redis);
+    case 'file':
+      return new FileIdempotencyStore(backend.dir);
+    case 'memory':
+      return new MemoryIdempotencyStore();
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Idempotency Types
+ * One record per form submission_id: claimed while the route runs, then holding the response to replay
+ */
+
+export type IdempotentForm = 'quote' | 'contact' | 'consultation' | 'newsletter';
+
+export interface StoredResponse {
+  status: number;
+  body: string;
+  contentType: string;
+}
+
+export interface IdempotencyRecord {
+  /** `<form>:<submission_id>` */
+  key: string;
+  /** sha256 over the canonical submission payload */
+  fingerprint: string;
+  state: 'pending' | 'completed';
+  createdAt: number;
+  /** Epoch ms after which the record is ignored and may be replaced */
+  expiresAt: number;
+  /** Random id of the request holding a pending claim, so only that request can extend it */
+  claimId?: string;
+  response?: StoredResponse;
+}
+
+export interface IdempotencyStore {
+  readonly kind: 'memory' | 'file' | 'redis';
+  /** Store the record unless a live one exists for its key; returns the existing record in that case */
+  claim(record: IdempotencyRecord): Promise<IdempotencyRecord | null>;
+  /**
+   * Move the expiry of a pending claim to `record.expiresAt`; false when the claim expired or now
+   * belongs to another request
+   */
+  refresh(record: IdempotencyRecord): Promise<boolean>;
+  /** Overwrite the record (pending -> completed) */
+  save(record: IdempotencyRecord): Promise<void>;
+  release(key: string): Promise<void>;
+}
@@ -0,0 +1,70 @@
+/**
+ * Default Lead Scoring Rules
+ * Used until a ruleset is saved from the admin area. Full projects and budgets from €50,000 are Hot
+ * on their own, design work and mid-size budgets are Warm, and the remaining signals add up
+ */
+
+import { BUDGET } from '@/lib/validations/forms';
+import type { ScoringRuleset } from './types';
+
+export const DEFAULT_SCORING_RULESET: ScoringRuleset = {
+  version: 0,
+  thresholds: { hot: 60, warm: 30 },
+  rules: [
+    {
+      id: 'scope-full-project',
+      description: 'Full project scope',
+      all: [{ field: 'scope', op: 'equals', value: 'project' }],
+      points: 60,
+    },
+    {
+      id: 'budget-large',
+      description: 'Budget of €50,000 or more',
+      all: [{ field: 'budget', op: 'in', value: [BUDGET[3], BUDGET[4]] }],
+      points: 60,
+    },
+    {
+      id: 'budget-medium',
+      description: 'Budget of €15,000-€50,000',
+      all: [{ field: 'budget', op: 'equals', value: BUDGET[2] }],
+      points: 30,
+    },
+    {
+      id: 'scope-design',
+      description: 'Design & engineering scope',
+      all: [{ field: 'scope', op: 'equals', value: 'design' }],
+      points: 30,
+    },
+    {
+      id: 'timeline-soon',
+      description: 'Needs to start within a month',
+      all: [{ field: 'timeline', op: 'in', value: ['urgent', 'short'] }],
+      points: 10,
+    },
+    {
+      id: 'company-named',
+      description: 'Submitted on behalf of a company',
+      all: [{ field: 'company', op: 'exists' }],
+      points: 10,
+    },
+    {
+      id: 'audience-enterprise',
+      description: 'Browsing the enterprise audience',
+      all: [{ field: 'audience', op: 'equals', value: 'enterprise' }],
+      points: 10,
+    },
+    {
+      id: 'has-attachments',
+      description: 'Sent drawings or models with the quote',
+      forms: ['quote'],
+      all: [{ field: 'attachments', op: 'gte', value: 1 }],
+      points: 10,
+    },
+    {
+      id: 'utm-linkedin',
+      description: 'Arrived from a LinkedIn campaign',
+      all: [{ field: 'utmSource', op: 'equals', value: 'linkedin' }],
+      points: 5,
+    },
+  ],
+};
@@ -0,0 +1,250 @@
+/**
+ * Lead Scoring
+ * Scores quote, contact and consultation leads with the declarative ruleset from the admin area and
+ * turns the total into the CRM Rating. Scoring never blocks a lead: a store outage falls back to
+ * the last loaded (or default) rules
+ */
+
+import { DEFAULT_SCORING_RULESET } from './defaults';
+import { createLeadScoringStore } from './stores';
+import type {
+  ConditionExplanation,
+  LeadFacts,
+  LeadForm,
+  LeadRating,
+  LeadScore,
+  LeadScoreExplanation,
+  LeadScoringStore,
+  RuleExplanation,
+  ScoringCondition,
+  ScoringRuleset
+} from './types';
+
+export * from './types';
+export { DEFAULT_SCORING_RULESET } from './defaults';
+export { MemoryLeadScoringStore, FileLeadScoringStore, RedisLeadScoringStore, createLeadScoringStore } from './stores';
+
+export class LeadScoringError extends Error {
+  constructor(public readonly code: string, message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'LeadScoringError';
+  }
+}
+
+/** How long an instance keeps using the loaded rules before reading the store again */
+const RULES_CACHE_MS = 30 * 1000;
+
+function normalize(value: unknown): string {
+  return String(value).trim().toLowerCase();
+}
+
+function isPresent(value: unknown) {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'number') return value > 0;
+  return String(value).trim() !== '';
+}
+
+export function evaluateCondition(condition: ScoringCondition, facts: LeadFacts): boolean {
+  const actual = facts[condition.field];
+  if (condition.op === 'exists') return isPresent(actual);
+  if (!isPresent(actual)) return false;
+
+  const expected = condition.value;
+  switch (condition.op) {
+    case 'equals':
+      return normalize(actual) === normalize(expected);
+    case 'in':
+      return Array.isArray(expected) && expected.some(item => normalize(item) === normalize(actual));
+    case 'contains':
+      return normalize(actual).includes(normalize(expected));
+    case 'matches':
+      try {
+        return new RegExp(String(expected), 'i').test(String(actual));
+      } catch {
+        return false;
+      }
+    case 'gte':
+    case 'lte': {
+      const left = Number(actual);
+      const right = Number(expected);
+      if (Number.isNaN(left) || Number.isNaN(right)) return false;
+      return condition.op === 'gte' ? left >= right : left <= right;
+    }
+    default:
+      return false;
+  }
+}
+
+export function ratingFor(score: number, thresholds: ScoringRuleset['thresholds']): LeadRating {
+  if (score >= thresholds.hot) return 'Hot';
+  if (score >= thresholds.warm) return 'Warm';
+  return 'Cold';
+}
+
+/**
+ * Evaluate every rule against the facts, keeping each condition's outcome for the dry-run view
+ */
+export function explainLeadScore(facts: LeadFacts, ruleset: ScoringRuleset): LeadScoreExplanation {
+  const rules: RuleExplanation[] = ruleset.rules.map(rule => {
+    const explain = (condition: ScoringCondition): ConditionExplanation => ({
+      ...condition,
+      actual: facts[condition.field],
+      passed: evaluateCondition(condition, facts),
+    });
+    const base = { id: rule.id, description: rule.description, points: rule.points };
+
+    if (rule.enabled === false) {
+      return { ...base, matched: false, skipped: 'disabled', conditions: [] };
+    }
+    if (rule.forms && rule.forms.length > 0 && !rule.forms.includes(facts.form)) {
+      return { ...base, matched: false, skipped: 'form', conditions: [] };
+    }
+
+    const all = (rule.all || []).map(explain);
+    const any = (rule.any || []).map(explain);
+    // A rule without conditions always matches (a flat bonus for its forms)
+    const matched = all.every(item => item.passed) && (any.length === 0 || any.some(item => item.passed));
+    return { ...base, matched, conditions: [...all, ...any] };
+  });
+
+  const score = rules.filter(rule => rule.matched).reduce((total, rule) => total + rule.points, 0);
+  return {
+    score,
+    rating: ratingFor(score, ruleset.thresholds),
+    matched: rules.filter(rule => rule.matched).map(rule => rule.id),
+    version: ruleset.version,
+    facts,
+    thresholds: ruleset.thresholds,
+    rules,
+  };
+}
+
+export function scoreLeadFacts(facts: LeadFacts, ruleset: ScoringRuleset): LeadScore {
+  const { score, rating, matched, version } = explainLeadScore(facts, ruleset);
+  return { score, rating, matched, version };
+}
+
+function optionalString(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+/**
+ * Facts from a lead form's parsed body. Field names are the form fields the routes receive;
+ * `audience` comes from the tracking data (lib/tracking)
+ */
+export function leadFactsFrom(form: LeadForm, data: Record<string, unknown>, attachments = 0): LeadFacts {
+  const audience = optionalString(data.audience);
+  return {
+    form,
+    service: optionalString(data.service),
+    budget: optionalString(data.budget),
+    timeline: optionalString(data.timeline),
+    scope: optionalString(data.scope),
+    company: optionalString(data.company),
+    utmSource: optionalString(data.utm_source),
+    utmMedium: optionalString(data.utm_medium),
+    utmCampaign: optionalString(data.utm_campaign),
+    attachments,
+    audience: audience === 'startup' || audience === 'enterprise' ? audience : undefined,
+  };
+}
+
+export class LeadScoringEngine {
+  private cached: { ruleset: ScoringRuleset; loadedAt: number } | null = null;
+
+  constructor(private readonly store: LeadScoringStore, private readonly cacheMs = RULES_CACHE_MS) {}
+
+  /**
+   * Ruleset in use: the saved one, otherwise the defaults
+   */
+  async rules(): Promise<ScoringRuleset> {
+    const now = Date.now();
+    if (this.cached && now - this.cached.loadedAt < this.cacheMs) {
+      return this.cached.ruleset;
+    }
+
+    try {
+      const ruleset = (await this.store.get()) || DEFAULT_SCORING_RULESET;
+      this.cached = { ruleset, loadedAt: now };
+      return ruleset;
+    } catch (error) {
+      console.error('❌ Could not load lead scoring rules, using the last known rules:', error);
+      return this.cached?.ruleset || DEFAULT_SCORING_RULESET;
+    }
+  }
+
+  /**
+   * Replace the ruleset. `expectedVersion` is the version the editor started from, so two admins
+   * editing at once don't silently overwrite each other
+   */
+  async save(
+    ruleset: Pick<ScoringRuleset, 'thresholds' | 'rules'>,
+    expectedVersion: number,
+    updatedBy: string
+  ): Promise<ScoringRuleset> {
+    if (ruleset.thresholds.warm > ruleset.thresholds.hot) {
+      throw new LeadScoringError('invalid_thresholds', 'The warm threshold cannot be above the hot threshold');
+    }
+    const ids = new Set<string>();
+    for (const rule of ruleset.rules) {
+      if (ids.has(rule.id)) {
+        throw new LeadScoringError('duplicate_rule', `Rule id "${rule.id}" is used more than once`);
+      }
+      ids.add(rule.id);
+    }
+
+    const saved: ScoringRuleset = {
+      version: expectedVersion + 1,
+      thresholds: ruleset.thresholds,
+      rules: ruleset.rules,
+      updatedAt: Date.now(),
+      updatedBy,
+    };
+    // The store checks the version and writes in one step, so of two concurrent saves one loses
+    if (!(await this.store.replace(saved, expectedVersion))) {
+      const current = await this.store.get();
+      throw new LeadScoringError(
+        'version_conflict',
+        `The rules were changed by ${current?.updatedBy || 'someone else'} in the meantime - reload and try again`,
+        409
+      );
+    }
+    this.cached = { ruleset: saved, loadedAt: Date.now() };
+    return saved;
+  }
+
+  async score(facts: LeadFacts): Promise<LeadScore> {
+    return scoreLeadFacts(facts, await this.rules());
+  }
+
+  async explain(facts: LeadFacts, ruleset?: ScoringRuleset): Promise<LeadScoreExplanation> {
+    return explainLeadScore(facts, ruleset || (await this.rules()));
+  }
+}
+
+let engineInstance: LeadScoringEngine | null = null;
+
+export function getLeadScoring(): LeadScoringEngine {
+  if (!engineInstance) {
+    engineInstance = new LeadScoringEngine(createLeadScoringStore());
+  }
+  return engineInstance;
+}
+
+/**
+ * Score a lead form submission for its CRM fields
+ */
+export async function scoreLead(form: LeadForm, data: Record<string, unknown>, attachments = 0): Promise<LeadScore> {
+  const facts = leadFactsFrom(form, data, attachments);
+  let result: LeadScore;
+  try {
+    result = await getLeadScoring().score(facts);
+  } catch (error) {
+    console.error('❌ Lead scoring unavailable, using the default rules:', error);
+    result = scoreLeadFacts(facts, DEFAULT_SCORING_RULESET);
+  }
+  console.log(`✅ Lead scored ${result.score} (${result.rating}) with rules v${result.version}: ${result.matched.join(', ') || 'none'}`);
+  return result;
+}
@@ -0,0 +1,144 @@
+/**
+ * Lead Scoring Stores
+ * A single ruleset document: in memory, as one JSON file, or under one Redis key. Saves are
+ * compare-and-set on the version: a Lua script on Redis, a lock file around the rename on disk
+ */
+
+import { mkdir, open, readFile, rename, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import type { RedisLike } from '@/lib/redis';
+import { resolveStoreBackend } from '@/lib/stores';
+import type { LeadScoringStore, ScoringRuleset } from './types';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * In-memory ruleset (tests and single-instance development)
+ */
+export class MemoryLeadScoringStore implements LeadScoringStore {
+  readonly kind = 'memory' as const;
+  private ruleset: ScoringRuleset | null = null;
+
+  async get() {
+    return this.ruleset ? (JSON.parse(JSON.stringify(this.ruleset)) as ScoringRuleset) : null;
+  }
+
+  async replace(ruleset: ScoringRuleset, expectedVersion: number) {
+    if ((this.ruleset?.version ?? 0) !== expectedVersion) return false;
+    this.ruleset = JSON.parse(JSON.stringify(ruleset));
+    return true;
+  }
+}
+
+/** A save holds the lock for one read and one rename; older locks were left by a crashed process */
+const FILE_LOCK_STALE_MS = 10 * 1000;
+const FILE_LOCK_WAIT_MS = 2 * 1000;
+
+/**
+ * `rules.json` in the store directory, replaced atomically on save. `rules.json.lock` keeps two
+ * processes from both passing the version check
+ */
+export class FileLeadScoringStore implements LeadScoringStore {
+  readonly kind = 'file' as const;
+
+  constructor(private readonly baseDir: string) {}
+
+  private get filePath() {
+    return path.join(this.baseDir, 'rules.json');
+  }
+
+  private async lock(): Promise<() => Promise<void>> {
+    await mkdir(this.baseDir, { recursive: true });
+    const lockFile = `${this.filePath}.lock`;
+    const deadline = Date.now() + FILE_LOCK_WAIT_MS;
+
+    for (;;) {
+      try {
+        const handle = await open(lockFile, 'wx');
+        await handle.close();
+        return () => rm(lockFile, { force: true });
+      } catch (error: any) {
+        if (error?.code !== 'EEXIST') throw error;
+      }
+
+      // Break locks left behind by a crashed holder
+      const info = await stat(lockFile).catch(() => null);
+      if (info && Date.now() - info.mtimeMs > FILE_LOCK_STALE_MS) {
+        await rm(lockFile, { force: true });
+        continue;
+      }
+      if (Date.now() >= deadline) throw new Error('lead-scoring:store_locked');
+      await sleep(25);
+    }
+  }
+
+  async get() {
+    try {
+      return JSON.parse(await readFile(this.filePath, 'utf-8')) as ScoringRuleset;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async replace(ruleset: ScoringRuleset, expectedVersion: number) {
+    const release = await this.lock();
+    try {
+      if (((await this.get())?.version ?? 0) !== expectedVersion) return false;
+      const temp = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(ruleset, null, 2), 'utf-8');
+      await rename(temp, this.filePath);
+      return true;
+    } finally {
+      await release();
+    }
+  }
+}
+
+// KEYS[1] ruleset, ARGV[1] expected version, ARGV[2] new ruleset
+const REPLACE_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+local version = 0
+if raw then version = cjson.decode(raw).version end
+if version ~= tonumber(ARGV[1]) then return 0 end
+redis.call('SET', KEYS[1], ARGV[2])
+return 1
+`;
+
+/**
+ * Redis key `lead-scoring:rules`
+ */
+export class RedisLeadScoringStore implements LeadScoringStore {
+  readonly kind = 'redis' as const;
+  private readonly key = 'lead-scoring:rules';
+
+  constructor(private readonly redis: RedisLike) {}
+
+  async get() {
+    const raw = await this.redis.get(this.key);
+    return raw ? (JSON.parse(raw) as ScoringRuleset) : null;
+  }
+
+  async replace(ruleset: ScoringRuleset, expectedVersion: number) {
+    const result = await this.redis.command<number>(['EVAL', REPLACE_SCRIPT, 1, this.key, expectedVersion, JSON.stringify(ruleset)]);
+    return result === 1;
+  }
+}
+
+/**
+ * Resolve the configured lead scoring store
+ * LEAD_SCORING_STORE=redis|file|memory (default: redis when configured, otherwise file outside
+ * production), LEAD_SCORING_DIR overrides the directory
+ */
+export function createLeadScoringStore(): LeadScoringStore {
+  const backend = resolveStoreBackend({ name: 'lead-scoring', envVar: 'LEAD_SCORING_STORE', dirEnvVar: 'LEAD_SCORING_DIR' });
+
+  switch (backend.kind) {
+    case 'redis':
+      return new RedisLeadScoringStore(backend.redis);
+    case 'file':
+      return new FileLeadScoringStore(backend.dir);
+    case 'memory':
+      return new MemoryLeadScoringStore();
+  }
+}
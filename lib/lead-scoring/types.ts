@@ -0,0 +1,100 @@
+/**
+ * Lead Scoring Types
+ * A ruleset is a list of point-scoring rules over the facts every lead form shares, plus the
+ * thresholds that turn the total into the CRM Rating
+ */
+
+export type LeadForm = 'quote' | 'contact' | 'consultation';
+
+export type LeadRating = 'Hot' | 'Warm' | 'Cold';
+
+/** What the rules can look at, normalised across the lead forms */
+export interface LeadFacts {
+  form: LeadForm;
+  service?: string;
+  budget?: string;
+  timeline?: string;
+  scope?: string;
+  company?: string;
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+  /** Direct files plus claimed chunked uploads */
+  attachments: number;
+  /** Startup / enterprise selection from the audience switcher (lib/contexts/AudienceContext) */
+  audience?: 'startup' | 'enterprise';
+}
+
+export type LeadFactField = keyof LeadFacts;
+
+export type ConditionOperator = 'equals' | 'in' | 'contains' | 'matches' | 'exists' | 'gte' | 'lte';
+
+export interface ScoringCondition {
+  field: LeadFactField;
+  op: ConditionOperator;
+  /** Unused for `exists`; a list for `in`; a number for `gte`/`lte`; a regex source for `matches` */
+  value?: string | number | string[];
+}
+
+export interface ScoringRule {
+  id: string;
+  description?: string;
+  /** Forms the rule applies to; all lead forms when omitted */
+  forms?: LeadForm[];
+  /** Every condition must hold */
+  all?: ScoringCondition[];
+  /** At least one condition must hold */
+  any?: ScoringCondition[];
+  /** Added when the rule matches; negative points demote a lead */
+  points: number;
+  enabled?: boolean;
+}
+
+export interface ScoringRuleset {
+  /** Incremented on every save; a save against an older version is refused */
+  version: number;
+  thresholds: { hot: number; warm: number };
+  rules: ScoringRule[];
+  updatedAt?: number;
+  updatedBy?: string;
+}
+
+export interface LeadScore {
+  score: number;
+  rating: LeadRating;
+  /** Ids of the rules that contributed points */
+  matched: string[];
+  version: number;
+}
+
+export interface ConditionExplanation extends ScoringCondition {
+  actual: LeadFacts[LeadFactField];
+  passed: boolean;
+}
+
+export interface RuleExplanation {
+  id: string;
+  description?: string;
+  points: number;
+  matched: boolean;
+  /** Why the rule was not evaluated (disabled, or not for this form) */
+  skipped?: 'disabled' | 'form';
+  conditions: ConditionExplanation[];
+}
+
+export interface LeadScoreExplanation extends LeadScore {
+  facts: LeadFacts;
+  thresholds: ScoringRuleset['thresholds'];
+  rules: RuleExplanation[];
+}
+
+export interface LeadScoringStore {
+  readonly kind: 'memory' | 'file' | 'redis';
+  /** The saved ruleset, or null when none was saved yet */
+  get(): Promise<ScoringRuleset | null>;
+  /**
+   * Store `ruleset` only if the saved version is still `expectedVersion` (0 when nothing was saved),
+   * checked and written in one step. False when another save got there first
+   */
+  replace(ruleset: ScoringRuleset, expectedVersion: number): Promise<boolean>;
+}
@@ -0,0 +1,19 @@
+/**
+ * Newsletter Consent Wording
+ * Every form shows the current text and sends its version along, so each consent record names the
+ * exact wording the person agreed to. Change the text by adding a new version; never edit an old one
+ */
+
+export const NEWSLETTER_CONSENT_WORDINGS: Record<string, string> = {
+  '2026-10': 'Yes, I would like to receive technical insights, industry updates and service announcements from IdEinstein by email. I will get a confirmation email first and can unsubscribe at any time.',
+};
+
+export const NEWSLETTER_CONSENT_VERSION = '2026-10';
+
+export const NEWSLETTER_CONSENT_TEXT = NEWSLETTER_CONSENT_WORDINGS[NEWSLETTER_CONSENT_VERSION];
+
+export const NEWSLETTER_TOPICS = [
+  { value: 'insights', label: 'Engineering insights and industry trends' },
+  { value: 'case-studies', label: 'Case studies from our projects' },
+  { value: 'service-updates', label: 'New services and capabilities' },
+] as const;
@@ -0,0 +1,440 @@
+/**
+ * Newsletter Subscriptions
+ * Double opt-in: a form only requests a subscription and emails a signed confirmation link; the
+ * address is added to Zoho Campaigns (and flagged in the CRM) once that link is confirmed. Every
+ * request, confirmation, preference change and unsubscribe is kept as a consent record
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { buildCrmRecord, NEWSLETTER_CONSENT_MAPPING, NEWSLETTER_LEAD_MAPPING, splitName } from '@/lib/crm-mapping';
+import { sendNewsletterConfirmation, sendWelcomeEmail } from '@/lib/email';
+import { getOutbox } from '@/lib/outbox';
+import type { EnqueueOptions } from '@/lib/outbox';
+import { signingKey } from '@/lib/security/keys';
+import { NEWSLETTER_CONSENT_VERSION, NEWSLETTER_CONSENT_WORDINGS, NEWSLETTER_TOPICS } from './consent';
+import { createNewsletterStore, emailKey } from './stores';
+import type {
+  ConsentAction,
+  ConsentContext,
+  NewsletterForm,
+  NewsletterStore,
+  NewsletterTopic,
+  Subscription
+} from './types';
+
+export * from './types';
+export * from './consent';
+export { MemoryNewsletterStore, FileNewsletterStore, RedisNewsletterStore, createNewsletterStore } from './stores';
+
+export class NewsletterError extends Error {
+  constructor(public readonly code: string, message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'NewsletterError';
+  }
+}
+
+export interface NewsletterOptions {
+  baseUrl: string;
+  /** Zoho Campaigns list; without it confirmations only update the CRM */
+  listKey?: string;
+  confirmTtlDays: number;
+  /** A pending address gets at most one confirmation email per interval */
+  resendIntervalMs: number;
+}
+
+export interface SubscriptionRequest {
+  email: string;
+  name?: string;
+  firstName?: string;
+  lastName?: string;
+  company?: string;
+  form: NewsletterForm;
+  /** Consent text version the form showed; unknown versions are recorded as the current one */
+  wordingVersion?: string;
+  topics?: NewsletterTopic[];
+  utm?: Record<string, string | undefined>;
+}
+
+type TokenPurpose = 'confirm' | 'manage';
+
+interface TokenPayload {
+  /** Email */
+  e: string;
+  p: TokenPurpose;
+  /** requestedAt of the subscription a confirmation link belongs to */
+  r?: number;
+  /** Expiry (confirmation links only) */
+  x?: number;
+}
+
+function resolveBaseUrl(): string {
+  const envUrl = process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_BASE_URL;
+  if (envUrl) return envUrl.replace(/\/$/, '');
+  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
+  return 'http://localhost:3000';
+}
+
+const DEFAULT_OPTIONS: NewsletterOptions = {
+  baseUrl: resolveBaseUrl(),
+  listKey: process.env.CAMPAIGNS_LIST_KEY || process.env.ZOHO_CAMPAIGNS_LIST_KEY,
+  confirmTtlDays: 7,
+  resendIntervalMs: 10 * 60 * 1000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ALL_TOPICS = NEWSLETTER_TOPICS.map(topic => topic.value) as NewsletterTopic[];
+
+function sign(body: string): string {
+  return createHmac('sha256', signingKey('newsletter-link')).update(body).digest('base64url');
+}
+
+function issueToken(payload: TokenPayload): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${body}.${sign(body)}`;
+}
+
+function readToken(token: string, purpose: TokenPurpose): TokenPayload {
+  const [body, signature] = (token || '').split('.');
+  const invalid = new NewsletterError('invalid_token', 'This link is invalid');
+  if (!body || !signature) throw invalid;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) throw invalid;
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf-8')) as TokenPayload;
+  } catch {
+    throw invalid;
+  }
+  if (payload.p !== purpose || !payload.e) throw invalid;
+  if (payload.x !== undefined && payload.x < Date.now()) {
+    throw new NewsletterError('link_expired', 'This confirmation link has expired - please subscribe again', 410);
+  }
+  return payload;
+}
+
+/**
+ * Keyed hash of the client IP for the consent record; the same IP hashes the same way, but the
+ * address can't be read back
+ */
+export function hashIp(ip: string | null | undefined): string | undefined {
+  if (!ip) return undefined;
+  return createHmac('sha256', signingKey('newsletter-ip-hash')).update(`ip:${ip.trim()}`).digest('hex').slice(0, 32);
+}
+
+function knownWording(version: string | undefined): string {
+  return version && NEWSLETTER_CONSENT_WORDINGS[version] ? version : NEWSLETTER_CONSENT_VERSION;
+}
+
+function knownTopics(topics: NewsletterTopic[] | undefined): NewsletterTopic[] {
+  const selected = (topics || []).filter(topic => ALL_TOPICS.includes(topic));
+  return selected.length > 0 ? selected : [...ALL_TOPICS];
+}
+
+function displayName(subscription: Subscription): string | undefined {
+  return [subscription.firstName, subscription.lastName].filter(Boolean).join(' ') || undefined;
+}
+
+export class NewsletterService {
+  private readonly options: NewsletterOptions;
+
+  constructor(private readonly store: NewsletterStore, options: Partial<NewsletterOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  confirmLink(subscription: Subscription): string {
+    const token = issueToken({
+      e: subscription.email,
+      p: 'confirm',
+      r: subscription.requestedAt,
+      x: subscription.requestedAt + this.options.confirmTtlDays * DAY_MS,
+    });
+    return `${this.options.baseUrl}/newsletter/confirm?token=${encodeURIComponent(token)}`;
+  }
+
+  /** Preferences and unsubscribe page; the link doesn't expire */
+  manageLink(email: string): string {
+    const token = issueToken({ e: email, p: 'manage' });
+    return `${this.options.baseUrl}/newsletter/preferences?token=${encodeURIComponent(token)}`;
+  }
+
+  private async recordConsent(subscription: Subscription, action: ConsentAction, context: ConsentContext) {
+    await this.store.appendConsent({
+      id: randomUUID(),
+      email: subscription.email,
+      action,
+      form: subscription.form,
+      wordingVersion: subscription.wordingVersion,
+      ipHash: hashIp(context.ip),
+      userAgent: context.userAgent || undefined,
+      topics: subscription.topics,
+      at: Date.now(),
+    });
+  }
+
+  /**
+   * Store a pending subscription and email the confirmation link. Subscribed addresses are left
+   * as they are, and a pending one isn't emailed again within the resend interval
+   */
+  async requestSubscription(request: SubscriptionRequest, context: ConsentContext = {}): Promise<Subscription> {
+    const email = request.email.trim().toLowerCase();
+    const existing = await this.store.get(email);
+    const now = Date.now();
+
+    if (existing?.status === 'subscribed') {
+      return existing;
+    }
+    if (existing?.status === 'pending' && now - existing.requestedAt < this.options.resendIntervalMs) {
+      return existing;
+    }
+
+    const names = request.firstName || request.lastName
+      ? { firstName: request.firstName, lastName: request.lastName }
+      : splitName(request.name);
+    const utm: Record<string, string> = {};
+    Object.keys(request.utm || {}).forEach(key => {
+      const value = request.utm?.[key];
+      if (value) utm[key] = value;
+    });
+
+    const subscription: Subscription = {
+      email,
+      status: 'pending',
+      firstName: names.firstName || existing?.firstName,
+      lastName: names.lastName || existing?.lastName,
+      company: request.company || existing?.company,
+      topics: knownTopics(request.topics || existing?.topics),
+      form: request.form,
+      wordingVersion: knownWording(request.wordingVersion),
+      requestedAt: now,
+      confirmedAt: existing?.confirmedAt,
+      unsubscribedAt: existing?.unsubscribedAt,
+      updatedAt: now,
+      utm: Object.keys(utm).length > 0 ? utm : existing?.utm,
+    };
+
+    await this.store.put(subscription);
+    await this.recordConsent(subscription, 'requested', context);
+
+    const result = await sendNewsletterConfirmation({
+      email,
+      name: displayName(subscription),
+      link: this.confirmLink(subscription),
+      expiresInDays: this.options.confirmTtlDays,
+    });
+    if (!result.success) {
+      console.error(`❌ Newsletter confirmation email to ${emailKey(email)} failed: ${result.error}`);
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Confirmation link clicked: subscribe in Campaigns and flag the CRM lead. Confirming twice is
+   * harmless
+   */
+  async confirm(token: string, context: ConsentContext = {}): Promise<Subscription> {
+    const payload = readToken(token, 'confirm');
+    const subscription = await this.store.get(payload.e);
+    if (!subscription) {
+      throw new NewsletterError('invalid_token', 'This link is invalid');
+    }
+    if (subscription.status === 'subscribed') {
+      return subscription;
+    }
+    // A newer request (or an unsubscribe since) supersedes this link
+    if (subscription.status !== 'pending' || subscription.requestedAt !== payload.r) {
+      throw new NewsletterError('link_superseded', 'This confirmation link is no longer valid - please use the most recent email', 410);
+    }
+
+    const now = Date.now();
+    const confirmed: Subscription = {
+      ...subscription,
+      status: 'subscribed',
+      confirmedAt: now,
+      unsubscribedAt: undefined,
+      updatedAt: now,
+    };
+    await this.store.put(confirmed);
+    await this.recordConsent(confirmed, 'confirmed', context);
+
+    const submissionId = `newsletter-${emailKey(confirmed.email)}-confirmed-${now}`;
+    const crmRecord = confirmed.form === 'newsletter'
+      ? buildCrmRecord(NEWSLETTER_LEAD_MAPPING, {
+        submissionId,
+        firstName: confirmed.firstName,
+        lastName: confirmed.lastName,
+        email: confirmed.email,
+        company: confirmed.company,
+        consent: true,
+        newsletterOptIn: true,
+        tracking: confirmed.utm || {},
+      })
+      : buildCrmRecord(NEWSLETTER_CONSENT_MAPPING, { ...confirmed, optIn: true });
+
+    const steps: EnqueueOptions['steps'] = [
+      { id: 'crm', kind: 'crm.upsertLead', input: { payload: { data: [crmRecord], duplicate_check_fields: ['Email'] } } },
+    ];
+    if (this.options.listKey) {
+      steps.push({
+        id: 'campaigns',
+        kind: 'campaigns.subscribe',
+        input: {
+          listKey: this.options.listKey,
+          contact: {
+            email: confirmed.email,
+            firstname: confirmed.firstName,
+            lastname: confirmed.lastName,
+            company: confirmed.company,
+          },
+        },
+      });
+    } else {
+      console.warn('⚠️ CAMPAIGNS_LIST_KEY is not set - confirmed newsletter subscriber only recorded in the CRM');
+    }
+    await this.sync(submissionId, confirmed, steps);
+
+    const result = await sendWelcomeEmail({
+      email: confirmed.email,
+      name: displayName(confirmed),
+      manageLink: this.manageLink(confirmed.email),
+    });
+    if (!result.success) {
+      console.error(`❌ Newsletter welcome email to ${emailKey(confirmed.email)} failed: ${result.error}`);
+    }
+
+    return confirmed;
+  }
+
+  /** Subscription behind a preferences link */
+  async preferences(token: string): Promise<Subscription> {
+    const payload = readToken(token, 'manage');
+    const subscription = await this.store.get(payload.e);
+    if (!subscription) {
+      throw new NewsletterError('not_found', 'No subscription found for this link', 404);
+    }
+    return subscription;
+  }
+
+  async updatePreferences(token: string, topics: NewsletterTopic[], context: ConsentContext = {}): Promise<Subscription> {
+    const subscription = await this.preferences(token);
+    if (subscription.status !== 'subscribed') {
+      throw new NewsletterError('not_subscribed', 'This address is not subscribed - subscribe again to choose topics', 409);
+    }
+
+    const updated: Subscription = { ...subscription, topics: knownTopics(topics), updatedAt: Date.now() };
+    await this.store.put(updated);
+    await this.recordConsent(updated, 'preferences_updated', context);
+    return updated;
+  }
+
+  /**
+   * Opt out: remove from Campaigns and clear the CRM flag. Works for pending addresses too, so a
+   * confirmation link arriving later no longer subscribes them
+   */
+  async unsubscribe(token: string, context: ConsentContext = {}): Promise<Subscription> {
+    const subscription = await this.preferences(token);
+    if (subscription.status === 'unsubscribed') {
+      return subscription;
+    }
+
+    const now = Date.now();
+    const unsubscribed: Subscription = { ...subscription, status: 'unsubscribed', unsubscribedAt: now, updatedAt: now };
+    await this.store.put(unsubscribed);
+    await this.recordConsent(unsubscribed, 'unsubscribed', context);
+
+    if (subscription.status === 'subscribed') {
+      const submissionId = `newsletter-${emailKey(unsubscribed.email)}-unsubscribed-${now}`;
+      const crmRecord = buildCrmRecord(NEWSLETTER_CONSENT_MAPPING, { ...unsubscribed, optIn: false });
+      const steps: EnqueueOptions['steps'] = [
+        { id: 'crm', kind: 'crm.upsertLead', input: { payload: { data: [crmRecord], duplicate_check_fields: ['Email'] } } },
+      ];
+      if (this.options.listKey) {
+        steps.push({
+          id: 'campaigns',
+          kind: 'campaigns.unsubscribe',
+          input: { listKey: this.options.listKey, email: unsubscribed.email },
+        });
+      }
+      await this.sync(submissionId, unsubscribed, steps);
+    }
+
+    return unsubscribed;
+  }
+
+  async consents(email: string) {
+    return this.store.listConsents(email.trim().toLowerCase());
+  }
+
+  /**
+   * Zoho updates go through the outbox so a Zoho outage is retried instead of losing the change
+   */
+  private async sync(submissionId: string, subscription: Subscription, steps: EnqueueOptions['steps']) {
+    try {
+      const outbox = getOutbox();
+      await outbox.enqueue({
+        submissionId,
+        form: 'newsletter',
+        summary: { email: subscription.email, status: subscription.status },
+        steps,
+      });
+      await outbox.dispatch(submissionId);
+    } catch (error) {
+      console.error(`❌ Could not sync newsletter ${subscription.status} to Zoho:`, error);
+    }
+  }
+}
+
+let serviceInstance: NewsletterService | null = null;
+
+export function getNewsletter(): NewsletterService {
+  if (!serviceInstance) {
+    serviceInstance = new NewsletterService(createNewsletterStore());
+  }
+  return serviceInstance;
+}
+
+/**
+ * Newsletter checkbox on a quote, contact or consultation form: starts the double opt-in. Never
+ * fails the lead itself
+ */
+export async function requestNewsletterOptIn(
+  request: Request,
+  form: Exclude<NewsletterForm, 'newsletter'>,
+  data: {
+    email: string;
+    name?: string;
+    company?: string;
+    newsletter_consent_version?: string;
+    utm_source?: string;
+    utm_medium?: string;
+    utm_campaign?: string;
+  }
+): Promise<'pending_confirmation' | 'failed'> {
+  try {
+    await getNewsletter().requestSubscription({
+      email: data.email,
+      name: data.name,
+      company: data.company,
+      form,
+      wordingVersion: data.newsletter_consent_version,
+      utm: { utm_source: data.utm_source, utm_medium: data.utm_medium, utm_campaign: data.utm_campaign },
+    }, consentContext(request));
+    return 'pending_confirmation';
+  } catch (error) {
+    console.error(`❌ Newsletter opt-in from the ${form} form failed:`, error);
+    return 'failed';
+  }
+}
+
+/** Client IP and user agent of a request, for the consent record */
+export function consentContext(request: Request): ConsentContext {
+  const forwarded = request.headers.get('x-forwarded-for');
+  return {
+    ip: forwarded ? forwarded.split(',')[0].trim() : request.headers.get('x-real-ip'),
+    userAgent: request.headers.get('user-agent'),
+  };
+}
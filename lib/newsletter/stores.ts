@@ -0,0 +1,133 @@
+/**
+ * Newsletter Stores
+ * One document per subscriber plus an append-only consent log, keyed by a hash of the email so
+ * addresses don't end up in file names or Redis keys
+ */
+
+import { createHash } from 'crypto';
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import type { RedisLike } from '@/lib/redis';
+import { resolveStoreBackend } from '@/lib/stores';
+import type { ConsentRecord, NewsletterStore, Subscription } from './types';
+
+export function emailKey(email: string): string {
+  return createHash('sha256').update(email.trim().toLowerCase()).digest('hex').slice(0, 32);
+}
+
+/**
+ * In-memory subscriptions (tests and single-instance development)
+ */
+export class MemoryNewsletterStore implements NewsletterStore {
+  readonly kind = 'memory' as const;
+  private subscriptions = new Map<string, Subscription>();
+  private consents = new Map<string, ConsentRecord[]>();
+
+  async get(email: string) {
+    const subscription = this.subscriptions.get(emailKey(email));
+    return subscription ? { ...subscription, topics: [...subscription.topics] } : null;
+  }
+
+  async put(subscription: Subscription) {
+    this.subscriptions.set(emailKey(subscription.email), { ...subscription, topics: [...subscription.topics] });
+  }
+
+  async appendConsent(record: ConsentRecord) {
+    const key = emailKey(record.email);
+    this.consents.set(key, [...(this.consents.get(key) || []), { ...record }]);
+  }
+
+  async listConsents(email: string) {
+    return (this.consents.get(emailKey(email)) || []).map(record => ({ ...record }));
+  }
+}
+
+/**
+ * `<hash>.json` per subscriber, replaced atomically, and `<hash>.consents.jsonl` appended to
+ */
+export class FileNewsletterStore implements NewsletterStore {
+  readonly kind = 'file' as const;
+
+  constructor(private readonly baseDir: string) {}
+
+  private filePath(email: string, suffix: string) {
+    return path.join(this.baseDir, `${emailKey(email)}${suffix}`);
+  }
+
+  async get(email: string) {
+    try {
+      return JSON.parse(await readFile(this.filePath(email, '.json'), 'utf-8')) as Subscription;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async put(subscription: Subscription) {
+    await mkdir(this.baseDir, { recursive: true });
+    const target = this.filePath(subscription.email, '.json');
+    const temp = `${target}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(subscription, null, 2), 'utf-8');
+    await rename(temp, target);
+  }
+
+  async appendConsent(record: ConsentRecord) {
+    await mkdir(this.baseDir, { recursive: true });
+    await appendFile(this.filePath(record.email, '.consents.jsonl'), `${JSON.stringify(record)}\n`, 'utf-8');
+  }
+
+  async listConsents(email: string) {
+    try {
+      const raw = await readFile(this.filePath(email, '.consents.jsonl'), 'utf-8');
+      return raw.split('\n').filter(Boolean).map(line => JSON.parse(line) as ConsentRecord);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
+
+/**
+ * Redis keys `newsletter:sub:<hash>` and the list `newsletter:consents:<hash>`
+ */
+export class RedisNewsletterStore implements NewsletterStore {
+  readonly kind = 'redis' as const;
+
+  constructor(private readonly redis: RedisLike) {}
+
+  async get(email: string) {
+    const raw = await this.redis.get(`newsletter:sub:${emailKey(email)}`);
+    return raw ? (JSON.parse(raw) as Subscription) : null;
+  }
+
+  async put(subscription: Subscription) {
+    await this.redis.set(`newsletter:sub:${emailKey(subscription.email)}`, JSON.stringify(subscription));
+  }
+
+  async appendConsent(record: ConsentRecord) {
+    await this.redis.command(['RPUSH', `newsletter:consents:${emailKey(record.email)}`, JSON.stringify(record)]);
+  }
+
+  async listConsents(email: string) {
+    const raw = await this.redis.command<string[] | null>(['LRANGE', `newsletter:consents:${emailKey(email)}`, 0, -1]);
+    return (raw || []).map(item => JSON.parse(item) as ConsentRecord);
+  }
+}
+
+/**
+ * Resolve the configured newsletter store
+ * NEWSLETTER_STORE=redis|file|memory (default: redis when configured, otherwise file outside
+ * production), NEWSLETTER_DIR overrides the directory
+ */
+export function createNewsletterStore(): NewsletterStore {
+  const backend = resolveStoreBackend({ name: 'newsletter', envVar: 'NEWSLETTER_STORE', dirEnvVar: 'NEWSLETTER_DIR' });
+
+  switch (backend.kind) {
+    case 'redis':
+      return new RedisNewsletterStore(backend.redis);
+    case 'file':
+      return new FileNewsletterStore(backend.dir);
+    case 'memory':
+      return new MemoryNewsletterStore();
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Newsletter Types
+ * Double opt-in subscriptions and the consent trail kept as proof of each opt-in and opt-out
+ */
+
+export type NewsletterForm = 'newsletter' | 'quote' | 'contact' | 'consultation';
+
+export type SubscriptionStatus = 'pending' | 'subscribed' | 'unsubscribed';
+
+export type NewsletterTopic = 'insights' | 'case-studies' | 'service-updates';
+
+export interface Subscription {
+  /** Always stored lower-cased */
+  email: string;
+  status: SubscriptionStatus;
+  firstName?: string;
+  lastName?: string;
+  company?: string;
+  topics: NewsletterTopic[];
+  /** Form the current opt-in was requested from */
+  form: NewsletterForm;
+  wordingVersion: string;
+  /** Confirmation links are tied to the latest request; older ones stop working */
+  requestedAt: number;
+  confirmedAt?: number;
+  unsubscribedAt?: number;
+  updatedAt: number;
+  utm?: Record<string, string>;
+}
+
+export type ConsentAction = 'requested' | 'confirmed' | 'preferences_updated' | 'unsubscribed';
+
+export interface ConsentRecord {
+  id: string;
+  email: string;
+  action: ConsentAction;
+  form: NewsletterForm;
+  /** Version of the consent text shown to the person (see consent.ts) */
+  wordingVersion: string;
+  /** Keyed hash of the client IP; the address itself is not stored */
+  ipHash?: string;
+  userAgent?: string;
+  topics?: NewsletterTopic[];
+  at: number;
+}
+
+export interface NewsletterStore {
+  readonly kind: 'memory' | 'file' | 'redis';
+  get(email: string): Promise<Subscription | null>;
+  put(subscription: Subscription): Promise<void>;
+  /** Consent records are append-only */
+  appendConsent(record: ConsentRecord): Promise<void>;
+  listConsents(email: string): Promise<ConsentRecord[]>;
+}
+
+/** Who asked, for the consent record */
+export interface ConsentContext {
+  ip?: string | null;
+  userAgent?: string | null;
+}
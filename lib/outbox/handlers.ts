@@ -0,0 +1,159 @@
+/**
+ * Outbox Step Handlers
+ * Each handler performs one Zoho side effect and returns the data later steps depend on
+ */
+
+import { campaigns, crm, workdrive, zohoFetch } from '@/lib/zoho/client';
+import { getUploads } from '@/lib/uploads';
+import type { CrmLeadUpsertResponse } from '@/library/types';
+import type { OutboxStepHandler, OutboxStepKind } from './types';
+
+interface UploadedFile {
+  ref: string;
+  filename: string;
+  fileId?: string;
+  link?: string;
+}
+
+/**
+ * Resolve "stepId.resultKey" references against dependency results
+ */
+function resolveResultFields(
+  mapping: Record<string, string> | undefined,
+  resultOf: (stepId: string) => Record<string, any> | undefined
+): Record<string, any> {
+  const fields: Record<string, any> = {};
+  if (!mapping) return fields;
+
+  Object.keys(mapping).forEach(field => {
+    const [stepId, key] = mapping[field].split('.');
+    const value = resultOf(stepId)?.[key];
+    if (value !== undefined && value !== null) {
+      fields[field] = value;
+    }
+  });
+
+  return fields;
+}
+
+const upsertLead: OutboxStepHandler = async ({ record, step }) => {
+  const response = await crm.upsertLead(step.input.payload, record.correlationId) as CrmLeadUpsertResponse;
+  const entry = response?.data?.[0];
+
+  if (!entry?.details?.id || entry.status === 'error') {
+    throw new Error(`zoho:crm:upsert_failed - ${entry?.message || 'no lead id returned'}`);
+  }
+
+  return { leadId: entry.details.id, action: entry.code };
+};
+
+const updateLead: OutboxStepHandler = async ({ record, step, resultOf }) => {
+  const leadId = resultOf(step.input.leadStep)?.leadId;
+  if (!leadId) {
+    throw new Error('outbox:lead_id_unavailable');
+  }
+
+  const fields = {
+    ...(step.input.fields || {}),
+    ...resolveResultFields(step.input.resultFields, resultOf),
+  };
+
+  if (Object.keys(fields).length === 0) {
+    return { leadId, skipped: true };
+  }
+
+  await zohoFetch('crm', `/Leads/${leadId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ data: [fields] }),
+    cid: record.correlationId,
+  });
+
+  return { leadId, fields: Object.keys(fields) };
+};
+
+const uploadFiles: OutboxStepHandler = async ({ record, step, checkpoint, readAttachment }) => {
+  const progress = step.result || {};
+  let folderId: string | undefined = progress.folderId;
+  let folderLink: string | undefined = progress.folderLink;
+  const uploaded: UploadedFile[] = progress.uploaded || [];
+
+  // Reuse the folder from an earlier attempt so retries don't create duplicates
+  if (!folderId) {
+    const folderResponse = await workdrive.createFolder(
+      step.input.folderName,
+      step.input.parentFolderId,
+      record.correlationId
+    ) as any;
+    folderId = folderResponse.data?.id;
+    folderLink = folderResponse.data?.attributes?.permalink;
+
+    if (!folderId) {
+      throw new Error('zoho:workdrive:folder_creation_failed');
+    }
+    await checkpoint({ folderId, folderLink, uploaded });
+  }
+
+  const failures: string[] = [];
+  for (const attachment of record.attachments) {
+    if (uploaded.some(file => file.ref === attachment.ref)) continue;
+
+    try {
+      let uploadResponse: any;
+      if (attachment.uploadId) {
+        // Chunked uploads can be 100MB; stream them instead of loading the whole file
+        uploadResponse = await workdrive.uploadStream(
+          folderId,
+          getUploads().stream(attachment.uploadId),
+          attachment.size,
+          attachment.filename,
+          attachment.type,
+          record.correlationId
+        );
+      } else {
+        const bytes = await readAttachment(attachment.ref);
+        const blob = new Blob([bytes], { type: attachment.type || 'application/octet-stream' });
+        uploadResponse = await workdrive.upload(folderId, blob, attachment.filename, record.correlationId);
+      }
+      const datum = Array.isArray(uploadResponse.data) ? uploadResponse.data[0] : uploadResponse.data;
+
+      uploaded.push({
+        ref: attachment.ref,
+        filename: attachment.filename,
+        fileId: datum?.id,
+        link: datum?.attributes?.permalink,
+      });
+      await checkpoint({ folderId, folderLink, uploaded });
+      if (attachment.uploadId) {
+        // Already in WorkDrive; a failed cleanup is left to the upload sweeper
+        await getUploads().remove(attachment.uploadId).catch(() => undefined);
+      }
+    } catch (error) {
+      failures.push(`${attachment.filename}: ${error instanceof Error ? error.message : 'upload failed'}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`zoho:workdrive:partial_upload - ${failures.join('; ')}`);
+  }
+
+  return { folderId, folderLink, uploaded };
+};
+
+const subscribe: OutboxStepHandler = async ({ record, step }) => {
+  const response = await campaigns.listSubscribe(step.input.listKey, step.input.contact, record.correlationId);
+  return { response };
+};
+
+const unsubscribe: OutboxStepHandler = async ({ record, step }) => {
+  const response = await campaigns.listUnsubscribe(step.input.listKey, step.input.email, record.correlationId);
+  return { response };
+};
+
+export const outboxHandlers: Record<OutboxStepKind, OutboxStepHandler> = {
+  'crm.upsertLead': upsertLead,
+  'crm.updateLead': updateLead,
+  'workdrive.uploadFiles': uploadFiles,
+  'campaigns.subscribe': subscribe,
+  'campaigns.unsubscribe': unsubscribe,
+};
@@ -0,0 +1,370 @@
+/**
+ * Durable Outbox for Form Submissions
+ * Records every submission keyed by submission_id and replays failed Zoho steps with backoff
+ */
+
+import { outboxHandlers } from './handlers';
+import { createOutboxStore } from './stores';
+import type {
+  OutboxForm,
+  OutboxListFilter,
+  OutboxQuarantine,
+  OutboxRecord,
+  OutboxRecordStatus,
+  OutboxStep,
+  OutboxStepDefinition,
+  OutboxStepHandler,
+  OutboxStepKind,
+  OutboxStore,
+  ReleaseOutboxLease,
+} from './types';
+
+export * from './types';
+export { MemoryOutboxStore, FileOutboxStore, RedisOutboxStore, createOutboxStore } from './stores';
+
+export interface OutboxOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  defaultMaxAttempts: number;
+  leaseMs: number;
+  /** How long appending steps waits for a running dispatch to finish */
+  leaseWaitMs: number;
+}
+
+export interface EnqueueOptions {
+  submissionId: string;
+  form: OutboxForm;
+  correlationId?: string;
+  summary?: OutboxRecord['summary'];
+  steps: OutboxStepDefinition[];
+  files?: File[];
+  /** Files already assembled by the chunked upload API; referenced, not copied */
+  uploads?: Array<{ uploadId: string; filename: string; size: number; type?: string }>;
+  /** Store the submission without running any step (suspected bot) */
+  quarantine?: Omit<OutboxQuarantine, 'at'>;
+}
+
+export interface DispatchOptions {
+  /** Ignore backoff and exhausted attempts (manual "retry now") */
+  force?: boolean;
+}
+
+export interface ProcessResult {
+  processed: number;
+  completed: number;
+  failed: number;
+  pending: number;
+}
+
+const DEFAULT_OPTIONS: OutboxOptions = {
+  baseDelayMs: parseInt(process.env.OUTBOX_RETRY_BASE_MS || '30000'),
+  maxDelayMs: 6 * 60 * 60 * 1000,
+  defaultMaxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '8'),
+  leaseMs: 2 * 60 * 1000,
+  leaseWaitMs: 10 * 1000,
+};
+
+function deriveStatus(steps: OutboxStep[]): OutboxRecordStatus {
+  if (steps.some(step => step.status === 'failed')) return 'failed';
+  if (steps.every(step => step.status === 'succeeded')) return 'completed';
+  return 'pending';
+}
+
+export class Outbox {
+  private readonly options: OutboxOptions;
+
+  constructor(
+    private readonly store: OutboxStore,
+    private readonly handlers: Record<OutboxStepKind, OutboxStepHandler> = outboxHandlers,
+    options: Partial<OutboxOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Persist a submission before any side effect runs
+   * Re-enqueueing an existing submission_id returns the stored record unchanged
+   */
+  async enqueue(options: EnqueueOptions): Promise<OutboxRecord> {
+    const existing = await this.store.get(options.submissionId);
+    if (existing) {
+      return existing;
+    }
+
+    const now = Date.now();
+    const attachments: OutboxRecord['attachments'] = [];
+    const files = options.files || [];
+
+    for (let index = 0; index < files.length; index++) {
+      const file = files[index];
+      const data = new Uint8Array(await file.arrayBuffer());
+      const ref = await this.store.saveAttachment(options.submissionId, index, file.name, data);
+      attachments.push({ ref, filename: file.name, size: file.size, type: file.type || undefined });
+    }
+
+    (options.uploads || []).forEach(upload => {
+      attachments.push({ ref: `upload:${upload.uploadId}`, ...upload });
+    });
+
+    const record: OutboxRecord = {
+      submissionId: options.submissionId,
+      form: options.form,
+      status: options.quarantine ? 'quarantined' : 'pending',
+      createdAt: now,
+      updatedAt: now,
+      correlationId: options.correlationId,
+      summary: options.summary || {},
+      quarantine: options.quarantine ? { ...options.quarantine, at: now } : undefined,
+      attachments,
+      steps: options.steps.map(step => ({
+        id: step.id,
+        kind: step.kind,
+        input: step.input,
+        dependsOn: step.dependsOn,
+        status: 'pending',
+        attempts: 0,
+        maxAttempts: step.maxAttempts ?? this.options.defaultMaxAttempts,
+        nextAttemptAt: now,
+      })),
+    };
+
+    await this.store.put(record);
+    return record;
+  }
+
+  /**
+   * Add follow-up steps once their inputs are known (e.g. a booking id)
+   * Steps whose id already exists on the record are ignored. Waits for a running dispatch so its
+   * final write can't drop the new steps
+   */
+  async appendSteps(submissionId: string, steps: OutboxStepDefinition[]): Promise<OutboxRecord | null> {
+    const release = await this.waitForLease(submissionId);
+    try {
+      return await this.addSteps(submissionId, steps);
+    } finally {
+      await release();
+    }
+  }
+
+  private async addSteps(submissionId: string, steps: OutboxStepDefinition[]): Promise<OutboxRecord | null> {
+    const record = await this.store.get(submissionId);
+    if (!record) return null;
+
+    const now = Date.now();
+    steps
+      .filter(step => !record.steps.some(existing => existing.id === step.id))
+      .forEach(step => {
+        record.steps.push({
+          id: step.id,
+          kind: step.kind,
+          input: step.input,
+          dependsOn: step.dependsOn,
+          status: 'pending',
+          attempts: 0,
+          maxAttempts: step.maxAttempts ?? this.options.defaultMaxAttempts,
+          nextAttemptAt: now,
+        });
+      });
+
+    record.status = record.quarantine ? 'quarantined' : deriveStatus(record.steps);
+    record.updatedAt = now;
+    await this.store.put(record);
+    return record;
+  }
+
+  /**
+   * Run every step of a record that is due, in declaration order
+   * Holds the record's lease in the store while it runs; when another request or instance already
+   * has it, returns the stored record without running anything
+   */
+  async dispatch(submissionId: string, options: DispatchOptions = {}): Promise<OutboxRecord | null> {
+    const release = await this.store.acquireLease(submissionId, this.options.leaseMs);
+    if (!release) {
+      return this.store.get(submissionId);
+    }
+
+    try {
+      const record = await this.store.get(submissionId);
+      if (!record || record.quarantine) return record;
+      return await this.runDue(record, options);
+    } finally {
+      await release();
+    }
+  }
+
+  /** Caller holds the lease */
+  private async runDue(record: OutboxRecord, options: DispatchOptions): Promise<OutboxRecord> {
+    for (const step of record.steps) {
+      if (step.status === 'succeeded') continue;
+      if (step.status === 'failed' && !options.force) continue;
+      if (step.nextAttemptAt > Date.now() && !options.force) continue;
+
+      const blocked = (step.dependsOn || []).some(depId =>
+        record.steps.find(candidate => candidate.id === depId)?.status !== 'succeeded'
+      );
+      if (blocked) continue;
+
+      await this.runStep(record, step);
+    }
+
+    record.status = deriveStatus(record.steps);
+    record.updatedAt = Date.now();
+
+    const uploadsDone = record.steps
+      .filter(step => step.kind === 'workdrive.uploadFiles')
+      .every(step => step.status === 'succeeded');
+    if (uploadsDone && record.attachments.length > 0) {
+      await this.store.deleteAttachments(record.submissionId);
+    }
+
+    await this.store.put(record);
+    return record;
+  }
+
+  private async waitForLease(submissionId: string): Promise<ReleaseOutboxLease> {
+    const deadline = Date.now() + this.options.leaseWaitMs;
+    for (;;) {
+      const release = await this.store.acquireLease(submissionId, this.options.leaseMs);
+      if (release) return release;
+      if (Date.now() >= deadline) {
+        throw new Error(`outbox:busy:${submissionId}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+  }
+
+  private async runStep(record: OutboxRecord, step: OutboxStep): Promise<void> {
+    const handler = this.handlers[step.kind];
+    step.attempts += 1;
+
+    try {
+      const result = await handler({
+        record,
+        step,
+        resultOf: (stepId: string) => record.steps.find(candidate => candidate.id === stepId)?.result,
+        checkpoint: async (partial) => {
+          step.result = partial;
+          record.updatedAt = Date.now();
+          await this.store.put(record);
+        },
+        readAttachment: (ref: string) => this.store.readAttachment(ref),
+      });
+
+      step.status = 'succeeded';
+      step.result = result;
+      step.lastError = undefined;
+      step.completedAt = Date.now();
+      console.log(`✅ Outbox step ${step.kind} succeeded for ${record.submissionId}`);
+    } catch (error) {
+      step.lastError = error instanceof Error ? error.message : String(error);
+
+      if (step.attempts >= step.maxAttempts) {
+        step.status = 'failed';
+        console.error(`❌ Outbox step ${step.kind} failed permanently for ${record.submissionId}:`, step.lastError);
+      } else {
+        step.status = 'pending';
+        step.nextAttemptAt = Date.now() + this.backoff(step.attempts);
+        console.warn(`⚠️ Outbox step ${step.kind} failed for ${record.submissionId}, retry #${step.attempts} scheduled:`, step.lastError);
+      }
+    }
+
+    record.updatedAt = Date.now();
+    await this.store.put(record);
+  }
+
+  /**
+   * Exponential backoff with ±10% jitter
+   */
+  private backoff(attempts: number): number {
+    const delay = Math.min(this.options.baseDelayMs * 2 ** (attempts - 1), this.options.maxDelayMs);
+    const jitter = delay * 0.1 * (Math.random() * 2 - 1);
+    return Math.round(delay + jitter);
+  }
+
+  /**
+   * Drain all pending records whose next step is due
+   */
+  async processDue(limit = 25): Promise<ProcessResult> {
+    const due = await this.store.listDue(Date.now(), limit);
+
+    const result: ProcessResult = { processed: 0, completed: 0, failed: 0, pending: 0 };
+
+    for (const record of due) {
+      const updated = await this.dispatch(record.submissionId);
+      if (!updated) continue;
+
+      result.processed += 1;
+      result[updated.status === 'completed' ? 'completed' : updated.status === 'failed' ? 'failed' : 'pending'] += 1;
+    }
+
+    return result;
+  }
+
+  /**
+   * Manual retry from the admin area: re-arms failed steps and dispatches immediately.
+   * Also releases a quarantined submission once an admin has judged it genuine. While a dispatch is
+   * running the stored record is returned unchanged
+   */
+  async retryNow(submissionId: string): Promise<OutboxRecord | null> {
+    const release = await this.store.acquireLease(submissionId, this.options.leaseMs);
+    if (!release) {
+      return this.store.get(submissionId);
+    }
+
+    try {
+      const record = await this.store.get(submissionId);
+      if (!record) return null;
+
+      const now = Date.now();
+      record.quarantine = undefined;
+      record.steps.forEach(step => {
+        if (step.status === 'failed') {
+          step.status = 'pending';
+          step.maxAttempts = Math.max(step.maxAttempts, step.attempts + 1);
+        }
+        if (step.status === 'pending') {
+          step.nextAttemptAt = now;
+        }
+      });
+      record.status = deriveStatus(record.steps);
+
+      return await this.runDue(record, { force: true });
+    } finally {
+      await release();
+    }
+  }
+
+  get(submissionId: string): Promise<OutboxRecord | null> {
+    return this.store.get(submissionId);
+  }
+
+  list(filter?: OutboxListFilter): Promise<OutboxRecord[]> {
+    return this.store.list(filter);
+  }
+}
+
+export interface IntegrationStatus {
+  status: 'success' | 'queued' | 'failed' | 'skipped';
+  /** Error of the last attempt, for steps waiting on a retry or given up on */
+  lastError?: string;
+}
+
+/**
+ * Summarize a step's outcome for API responses: "queued" while retries remain, "failed" once they
+ * are exhausted
+ */
+export function integrationStatus(record: OutboxRecord | null, stepId: string): IntegrationStatus {
+  const step = record?.steps.find(candidate => candidate.id === stepId);
+  if (!step) return { status: 'skipped' };
+  if (step.status === 'succeeded') return { status: 'success' };
+  return { status: step.status === 'failed' ? 'failed' : 'queued', lastError: step.lastError };
+}
+
+let outboxInstance: Outbox | null = null;
+
+export function getOutbox(): Outbox {
+  if (!outboxInstance) {
+    outboxInstance = new Outbox(createOutboxStore());
+  }
+  return outboxInstance;
+}
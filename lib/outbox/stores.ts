@@ -0,0 +1,377 @@
+/**
+ * Outbox Stores
+ * Redis records with attachments in object storage (shared by every instance and the cron drain),
+ * a file store for a single host, and an in-memory store for tests
+ */
+
+import { mkdir, open, readFile, readdir, rename, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import type { RedisLike } from '@/lib/redis';
+import { requireBlobClient, type BlobLike } from '@/lib/blob';
+import { resolveStoreBackend } from '@/lib/stores';
+import type { OutboxListFilter, OutboxRecord, OutboxStore, ReleaseOutboxLease } from './types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function applyFilter(records: OutboxRecord[], filter: OutboxListFilter = {}): OutboxRecord[] {
+  const filtered = records
+    .filter(record => !filter.status || record.status === filter.status)
+    .filter(record => !filter.form || record.form === filter.form)
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  return filter.limit ? filtered.slice(0, filter.limit) : filtered;
+}
+
+/**
+ * When the next runnable step of a record is due, or null when nothing can run. Steps still waiting
+ * on a dependency don't count: they become runnable when the dependency succeeds, which writes the
+ * record again
+ */
+function dueAt(record: OutboxRecord): number | null {
+  if (record.status !== 'pending') return null;
+  const succeeded = new Set(record.steps.filter(step => step.status === 'succeeded').map(step => step.id));
+  const times = record.steps
+    .filter(step => step.status === 'pending' && (step.dependsOn || []).every(id => succeeded.has(id)))
+    .map(step => step.nextAttemptAt);
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+function applyDue(records: OutboxRecord[], now: number, limit: number): OutboxRecord[] {
+  return records
+    .filter(record => (dueAt(record) ?? Infinity) <= now)
+    .sort((a, b) => dueAt(a)! - dueAt(b)!)
+    .slice(0, limit);
+}
+
+function safeSegment(value: string): string {
+  return value.replace(/[^a-zA-Z0-9._-]/g, '_').slice(0, 120);
+}
+
+function lockOwner(): string {
+  return `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * In-memory outbox store (tests and local development without a writable disk)
+ */
+export class MemoryOutboxStore implements OutboxStore {
+  private records = new Map<string, OutboxRecord>();
+  private attachments = new Map<string, Uint8Array>();
+  private leases = new Map<string, { owner: string; until: number }>();
+
+  async get(submissionId: string): Promise<OutboxRecord | null> {
+    const record = this.records.get(submissionId);
+    return record ? JSON.parse(JSON.stringify(record)) : null;
+  }
+
+  async put(record: OutboxRecord): Promise<void> {
+    this.records.set(record.submissionId, JSON.parse(JSON.stringify(record)));
+  }
+
+  async list(filter?: OutboxListFilter): Promise<OutboxRecord[]> {
+    const records: OutboxRecord[] = [];
+    this.records.forEach(record => records.push(JSON.parse(JSON.stringify(record))));
+    return applyFilter(records, filter);
+  }
+
+  async listDue(now: number, limit: number): Promise<OutboxRecord[]> {
+    return applyDue(await this.list({ status: 'pending' }), now, limit);
+  }
+
+  async acquireLease(submissionId: string, ttlMs: number): Promise<ReleaseOutboxLease | null> {
+    const now = Date.now();
+    const held = this.leases.get(submissionId);
+    if (held && held.until > now) return null;
+
+    const owner = lockOwner();
+    this.leases.set(submissionId, { owner, until: now + ttlMs });
+    return async () => {
+      if (this.leases.get(submissionId)?.owner === owner) this.leases.delete(submissionId);
+    };
+  }
+
+  async saveAttachment(submissionId: string, index: number, filename: string, data: Uint8Array): Promise<string> {
+    const ref = `${submissionId}/${index}-${safeSegment(filename)}`;
+    this.attachments.set(ref, data);
+    return ref;
+  }
+
+  async readAttachment(ref: string): Promise<Uint8Array> {
+    const data = this.attachments.get(ref);
+    if (!data) {
+      throw new Error(`outbox:attachment_missing:${ref}`);
+    }
+    return data;
+  }
+
+  async deleteAttachments(submissionId: string): Promise<void> {
+    const prefix = `${submissionId}/`;
+    const refs: string[] = [];
+    this.attachments.forEach((_data, ref) => {
+      if (ref.startsWith(prefix)) refs.push(ref);
+    });
+    refs.forEach(ref => this.attachments.delete(ref));
+  }
+
+  clear(): void {
+    this.records.clear();
+    this.attachments.clear();
+    this.leases.clear();
+  }
+}
+
+/**
+ * File-backed outbox store
+ * One JSON document per submission plus a directory of attachment blobs and one of lease files
+ */
+export class FileOutboxStore implements OutboxStore {
+  private readonly recordsDir: string;
+  private readonly attachmentsDir: string;
+  private readonly leasesDir: string;
+
+  constructor(private readonly baseDir: string) {
+    this.recordsDir = path.join(baseDir, 'records');
+    this.attachmentsDir = path.join(baseDir, 'attachments');
+    this.leasesDir = path.join(baseDir, 'leases');
+  }
+
+  private recordPath(submissionId: string): string {
+    return path.join(this.recordsDir, `${safeSegment(submissionId)}.json`);
+  }
+
+  async get(submissionId: string): Promise<OutboxRecord | null> {
+    try {
+      const raw = await readFile(this.recordPath(submissionId), 'utf-8');
+      return JSON.parse(raw) as OutboxRecord;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async put(record: OutboxRecord): Promise<void> {
+    await mkdir(this.recordsDir, { recursive: true });
+    const target = this.recordPath(record.submissionId);
+    const temp = `${target}.${process.pid}.tmp`;
+
+    // Write-then-rename so a crash never leaves a half-written record
+    await writeFile(temp, JSON.stringify(record, null, 2), 'utf-8');
+    await rename(temp, target);
+  }
+
+  async list(filter?: OutboxListFilter): Promise<OutboxRecord[]> {
+    let entries: string[];
+    try {
+      entries = await readdir(this.recordsDir);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: OutboxRecord[] = [];
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) continue;
+      try {
+        const raw = await readFile(path.join(this.recordsDir, entry), 'utf-8');
+        records.push(JSON.parse(raw));
+      } catch (error) {
+        console.error(`⚠️ Skipping unreadable outbox record ${entry}:`, error);
+      }
+    }
+
+    return applyFilter(records, filter);
+  }
+
+  async listDue(now: number, limit: number): Promise<OutboxRecord[]> {
+    return applyDue(await this.list({ status: 'pending' }), now, limit);
+  }
+
+  async acquireLease(submissionId: string, ttlMs: number): Promise<ReleaseOutboxLease | null> {
+    await mkdir(this.leasesDir, { recursive: true });
+    const leaseFile = path.join(this.leasesDir, `${safeSegment(submissionId)}.lock`);
+
+    // Break leases left behind by a crashed dispatcher
+    try {
+      const info = await stat(leaseFile);
+      if (Date.now() - info.mtimeMs > ttlMs) await rm(leaseFile, { force: true });
+    } catch {
+      // no existing lease
+    }
+
+    try {
+      const handle = await open(leaseFile, 'wx');
+      await handle.close();
+    } catch (error: any) {
+      if (error?.code === 'EEXIST') return null;
+      throw error;
+    }
+
+    let released = false;
+    return async () => {
+      if (released) return;
+      released = true;
+      await rm(leaseFile, { force: true });
+    };
+  }
+
+  async saveAttachment(submissionId: string, index: number, filename: string, data: Uint8Array): Promise<string> {
+    const ref = path.join(safeSegment(submissionId), `${index}-${safeSegment(filename)}`);
+    const target = path.join(this.attachmentsDir, ref);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, data);
+    return ref;
+  }
+
+  async readAttachment(ref: string): Promise<Uint8Array> {
+    const target = path.resolve(this.attachmentsDir, ref);
+    if (!target.startsWith(path.resolve(this.attachmentsDir) + path.sep)) {
+      throw new Error(`outbox:attachment_ref_invalid:${ref}`);
+    }
+    return new Uint8Array(await readFile(target));
+  }
+
+  async deleteAttachments(submissionId: string): Promise<void> {
+    await rm(path.join(this.attachmentsDir, safeSegment(submissionId)), { recursive: true, force: true });
+  }
+}
+
+const RELEASE_SCRIPT = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end";
+
+/** How long completed records stay listed in the admin area before Redis expires them */
+const COMPLETED_RETENTION_MS = parseInt(process.env.OUTBOX_RETENTION_DAYS || '30') * DAY;
+
+/**
+ * Redis keys `outbox:record:<id>` indexed by the sorted set `outbox:index` (score: createdAt);
+ * pending records are also in `outbox:due` (score: when their next step is due) so the cron drain
+ * never reads the whole history. Completed records expire after the retention period and drop out
+ * of the index the next time it is listed. Dispatch leases are `outbox:lease:<id>` (SET NX PX,
+ * released only by their owner); attachment bytes go to object storage under `outbox/<id>/`
+ */
+export class RedisOutboxStore implements OutboxStore {
+  constructor(
+    private readonly redis: RedisLike,
+    private readonly blobs: BlobLike,
+    private readonly prefix = 'outbox',
+    private readonly retentionMs = COMPLETED_RETENTION_MS
+  ) {}
+
+  private recordKey(submissionId: string) {
+    return `${this.prefix}:record:${submissionId}`;
+  }
+
+  async get(submissionId: string): Promise<OutboxRecord | null> {
+    const raw = await this.redis.get(this.recordKey(submissionId));
+    return raw ? (JSON.parse(raw) as OutboxRecord) : null;
+  }
+
+  async put(record: OutboxRecord): Promise<void> {
+    const id = record.submissionId;
+    await this.redis.set(
+      this.recordKey(id),
+      JSON.stringify(record),
+      record.status === 'completed' ? { px: this.retentionMs } : undefined
+    );
+    await this.redis.command(['ZADD', `${this.prefix}:index`, record.createdAt, id]);
+
+    const due = dueAt(record);
+    await this.redis.command(due === null
+      ? ['ZREM', `${this.prefix}:due`, id]
+      : ['ZADD', `${this.prefix}:due`, due, id]);
+  }
+
+  /**
+   * Records for the given ids in the same order; ids whose record has expired are removed from the
+   * indexes
+   */
+  private async load(ids: string[]): Promise<OutboxRecord[]> {
+    if (ids.length === 0) return [];
+
+    const values = await this.redis.command<Array<string | null>>(['MGET', ...ids.map(id => this.recordKey(id))]);
+    const expired = ids.filter((_id, index) => !values[index]);
+    if (expired.length > 0) {
+      await this.redis.command(['ZREM', `${this.prefix}:index`, ...expired]);
+      await this.redis.command(['ZREM', `${this.prefix}:due`, ...expired]);
+    }
+    return values.filter((raw): raw is string => !!raw).map(raw => JSON.parse(raw) as OutboxRecord);
+  }
+
+  async list(filter: OutboxListFilter = {}): Promise<OutboxRecord[]> {
+    // Pending records come from the much smaller due index
+    const source = filter.status === 'pending' ? 'due' : 'index';
+    const records: OutboxRecord[] = [];
+
+    // Newest first in pages of 100 (MGET stays small), stopping once the limit is filled. Expired
+    // ids leave the index as they are found, so the next page starts after the records kept
+    let start = 0;
+    for (;;) {
+      const ids = await this.redis.command<string[] | null>(
+        [source === 'due' ? 'ZRANGE' : 'ZREVRANGE', `${this.prefix}:${source}`, start, start + 99]
+      );
+      const page = await this.load(ids || []);
+      records.push(...applyFilter(page, { ...filter, limit: undefined }));
+      start += page.length;
+
+      if (!ids || ids.length < 100 || (source === 'index' && filter.limit && records.length >= filter.limit)) break;
+    }
+    return applyFilter(records, filter);
+  }
+
+  async listDue(now: number, limit: number): Promise<OutboxRecord[]> {
+    const ids = await this.redis.command<string[] | null>(
+      ['ZRANGEBYSCORE', `${this.prefix}:due`, '-inf', now, 'LIMIT', 0, limit]
+    );
+    return applyDue(await this.load(ids || []), now, limit);
+  }
+
+  async acquireLease(submissionId: string, ttlMs: number): Promise<ReleaseOutboxLease | null> {
+    const key = `${this.prefix}:lease:${submissionId}`;
+    const owner = lockOwner();
+    const acquired = await this.redis.set(key, owner, { px: ttlMs, nx: true });
+    if (!acquired) return null;
+
+    return async () => {
+      // Compare-and-delete so we never drop a lease that expired and was re-taken
+      await this.redis.command(['EVAL', RELEASE_SCRIPT, 1, key, owner]);
+    };
+  }
+
+  async saveAttachment(submissionId: string, index: number, filename: string, data: Uint8Array): Promise<string> {
+    const ref = `${safeSegment(submissionId)}/${index}-${safeSegment(filename)}`;
+    await this.blobs.put(`${this.prefix}/${ref}`, data);
+    await this.redis.command(['SADD', `${this.prefix}:attachments:${submissionId}`, ref]);
+    return ref;
+  }
+
+  async readAttachment(ref: string): Promise<Uint8Array> {
+    const data = await this.blobs.get(`${this.prefix}/${ref}`);
+    if (!data) {
+      throw new Error(`outbox:attachment_missing:${ref}`);
+    }
+    return data;
+  }
+
+  async deleteAttachments(submissionId: string): Promise<void> {
+    const setKey = `${this.prefix}:attachments:${submissionId}`;
+    const refs = await this.redis.command<string[] | null>(['SMEMBERS', setKey]);
+    await Promise.all((refs || []).map(ref => this.blobs.delete(`${this.prefix}/${ref}`)));
+    await this.redis.del(setKey);
+  }
+}
+
+/**
+ * Resolve the configured outbox store
+ * OUTBOX_STORE=redis|file|memory (default: redis when configured; files under OUTBOX_DIR outside
+ * production). Redis needs S3-compatible object storage for attachments
+ */
+export function createOutboxStore(): OutboxStore {
+  const backend = resolveStoreBackend({ name: 'outbox', envVar: 'OUTBOX_STORE', dirEnvVar: 'OUTBOX_DIR' });
+
+  switch (backend.kind) {
+    case 'memory':
+      return new MemoryOutboxStore();
+    case 'file':
+      return new FileOutboxStore(backend.dir);
+    case 'redis':
+      return new RedisOutboxStore(backend.redis, requireBlobClient('outbox'));
+  }
+}
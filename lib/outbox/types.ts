@@ -0,0 +1,112 @@
+/**
+ * Outbox Types
+ * Shared shapes for durable form-submission side effects (CRM, WorkDrive, Campaigns)
+ */
+
+export type OutboxForm = 'quote' | 'contact' | 'consultation' | 'newsletter';
+
+export type OutboxStepKind =
+  | 'crm.upsertLead'
+  | 'crm.updateLead'
+  | 'workdrive.uploadFiles'
+  | 'campaigns.subscribe'
+  | 'campaigns.unsubscribe';
+
+export type OutboxStepStatus = 'pending' | 'succeeded' | 'failed';
+
+export type OutboxRecordStatus = 'pending' | 'completed' | 'failed' | 'quarantined';
+
+export interface OutboxAttachmentRef {
+  /** Store-local reference used to read the bytes back on replay */
+  ref: string;
+  filename: string;
+  size: number;
+  type?: string;
+  /** Set when the bytes live in the chunked-upload store (lib/uploads) and are streamed from there */
+  uploadId?: string;
+}
+
+export interface OutboxStep {
+  id: string;
+  kind: OutboxStepKind;
+  input: Record<string, any>;
+  /** Step ids whose results this step needs before it can run */
+  dependsOn?: string[];
+  status: OutboxStepStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  /** Final result on success, or partial progress saved through `checkpoint` */
+  result?: Record<string, any>;
+  completedAt?: number;
+}
+
+export interface OutboxRecord {
+  submissionId: string;
+  form: OutboxForm;
+  status: OutboxRecordStatus;
+  createdAt: number;
+  updatedAt: number;
+  correlationId?: string;
+  /** Non-sensitive summary shown in the admin area */
+  summary: Record<string, string | number | boolean | undefined>;
+  /** Held back by the submission guard; nothing runs until an admin retries (releases) it */
+  quarantine?: OutboxQuarantine;
+  steps: OutboxStep[];
+  attachments: OutboxAttachmentRef[];
+}
+
+export interface OutboxQuarantine {
+  score: number;
+  reasons: string[];
+  at: number;
+}
+
+export interface OutboxStepDefinition {
+  id: string;
+  kind: OutboxStepKind;
+  input: Record<string, any>;
+  dependsOn?: string[];
+  maxAttempts?: number;
+}
+
+export interface OutboxListFilter {
+  status?: OutboxRecordStatus;
+  form?: OutboxForm;
+  limit?: number;
+}
+
+/** Releases a dispatch lease; safe to call more than once */
+export type ReleaseOutboxLease = () => Promise<void>;
+
+/**
+ * Persistence backend for outbox records and their attachments
+ */
+export interface OutboxStore {
+  get(submissionId: string): Promise<OutboxRecord | null>;
+  put(record: OutboxRecord): Promise<void>;
+  list(filter?: OutboxListFilter): Promise<OutboxRecord[]>;
+  /** Pending records with a step due at or before `now`, earliest due first */
+  listDue(now: number, limit: number): Promise<OutboxRecord[]>;
+  /**
+   * Take the dispatch lease on one record for every process sharing the store, or null while
+   * another holder has it. Expires after `ttlMs` so a crashed dispatcher can't block the record
+   */
+  acquireLease(submissionId: string, ttlMs: number): Promise<ReleaseOutboxLease | null>;
+  saveAttachment(submissionId: string, index: number, filename: string, data: Uint8Array): Promise<string>;
+  readAttachment(ref: string): Promise<Uint8Array>;
+  deleteAttachments(submissionId: string): Promise<void>;
+}
+
+export interface OutboxStepContext {
+  record: OutboxRecord;
+  step: OutboxStep;
+  /** Result of a dependency step, by step id */
+  resultOf(stepId: string): Record<string, any> | undefined;
+  /** Persist partial progress so a retry can resume instead of starting over */
+  checkpoint(partial: Record<string, any>): Promise<void>;
+  readAttachment(ref: string): Promise<Uint8Array>;
+}
+
+export type OutboxStepHandler = (ctx: OutboxStepContext) => Promise<Record<string, any>>;
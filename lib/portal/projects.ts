@@ -0,0 +1,111 @@
+/**
+ * Customer Portal Project Access
+ * Resolves which Zoho Projects a signed-in user may see and where their files live in WorkDrive
+ */
+
+import { getProjectScope, type UserRole } from '@/lib/rbac';
+import { crm, type CrmContact } from '@/lib/zoho/client';
+import { listAll, listProjects, type ZohoProject } from '@/lib/zoho/projects';
+import { ensureFolder } from '@/lib/zoho/workdrive';
+
+export interface PortalUser {
+  id?: string;
+  email?: string;
+  name?: string;
+}
+
+export interface PortalAccess {
+  scope: 'all' | 'account' | 'own';
+  contact: CrmContact | null;
+  projects: ZohoProject[];
+}
+
+// Projects are tagged with the customer via custom fields on the Zoho Projects side
+const ACCOUNT_FIELD = process.env.ZOHO_PROJECTS_ACCOUNT_FIELD || 'CRM Account ID';
+const CONTACT_FIELD = process.env.ZOHO_PROJECTS_CONTACT_FIELD || 'Client Email';
+
+function customFieldValue(project: ZohoProject, label: string): string | undefined {
+  const field = project.custom_fields?.find(f => f.label_name === label || f.column_name === label);
+  return typeof field?.value === 'string' ? field.value.trim() : undefined;
+}
+
+function belongsToContact(project: ZohoProject, email: string): boolean {
+  const value = customFieldValue(project, CONTACT_FIELD);
+  if (!value) return false;
+  return value.split(/[,;]/).some(entry => entry.trim().toLowerCase() === email.toLowerCase());
+}
+
+function belongsToAccount(project: ZohoProject, accountId: string): boolean {
+  return customFieldValue(project, ACCOUNT_FIELD) === accountId;
+}
+
+export class PortalAccessError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'PortalAccessError';
+  }
+}
+
+/**
+ * Load the projects visible to the user: everything for internal roles,
+ * the CRM account's projects for client admins, their own for client users
+ */
+export async function getPortalAccess(user: PortalUser, userRole: UserRole, cid?: string): Promise<PortalAccess> {
+  const scope = getProjectScope(userRole);
+  if (!scope) {
+    throw new PortalAccessError('Insufficient permissions', 403);
+  }
+  if (!user.email) {
+    throw new PortalAccessError('Unauthorized', 401);
+  }
+
+  const contact = scope === 'all' ? null : await crm.findContactByEmail(user.email, cid);
+  if (scope !== 'all' && !contact) {
+    // Signed-in but not (yet) a CRM contact: nothing to show
+    return { scope, contact: null, projects: [] };
+  }
+
+  const all = await listAll(page => listProjects({ page, perPage: 200 }, { cid }), 5);
+  const accountId = contact?.Account_Name?.id;
+
+  const projects = all.filter(project => {
+    if (scope === 'all') return true;
+    if (scope === 'account' && accountId && belongsToAccount(project, accountId)) return true;
+    return belongsToContact(project, user.email!);
+  });
+
+  return { scope, contact, projects };
+}
+
+export function findProject(access: PortalAccess, projectId: string): ZohoProject {
+  const project = access.projects.find(p => p.id_string === projectId || String(p.id) === projectId);
+  if (!project) {
+    // Same answer for "missing" and "not yours" so ids can't be probed
+    throw new PortalAccessError('Project not found', 404);
+  }
+  return project;
+}
+
+// === WorkDrive folders ===
+const folderCache = new Map<string, string>();
+
+function projectsRootFolder(): string {
+  const root = process.env.WORKDRIVE_PROJECTS_FOLDER_ID || process.env.WORKDRIVE_PARENT_FOLDER_ID;
+  if (!root) {
+    throw new Error('zoho:workdrive:projects_folder_missing - Please set WORKDRIVE_PROJECTS_FOLDER_ID');
+  }
+  return root;
+}
+
+/**
+ * WorkDrive folder holding a project's files, named after the project id so renames don't orphan it
+ */
+export async function getProjectFolderId(project: ZohoProject, cid?: string): Promise<string> {
+  const projectId = project.id_string || String(project.id);
+  const cached = folderCache.get(projectId);
+  if (cached) return cached;
+
+  const folder = await ensureFolder(projectsRootFolder(), `project-${projectId}`, cid);
+  folderCache.set(projectId, folder.id);
+  return folder.id;
+}
@@ -0,0 +1,219 @@
+/**
+ * 3D Printing Price Estimator
+ * Indicative price range from an STL's volume, surface area and height plus the rate tables.
+ * Estimates are handed to the browser as signed tokens so a quotation can carry one without the
+ * figures being editable on the way back
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { parseStl } from '@/lib/cad';
+import { getUploads } from '@/lib/uploads';
+import { signingKey } from '@/lib/security/keys';
+import { getPrintRates } from './rates';
+import type {
+  PrintEstimate,
+  PrintEstimateInput,
+  PrintEstimateWarning,
+  PrintGeometry,
+  PrintRateTable
+} from './types';
+
+export * from './types';
+export { DEFAULT_PRINT_RATES, PrintRateTableSchema, getPrintRates } from './rates';
+
+export class EstimateError extends Error {
+  constructor(public readonly code: string, message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'EstimateError';
+  }
+}
+
+function roundTo(value: number, digits: number) {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function fitsBuildVolume(size: PrintGeometry['size'], buildVolume: [number, number, number]) {
+  // Parts can be reoriented, so compare the sorted dimensions
+  const part = size.slice().sort((a, b) => a - b);
+  const build = buildVolume.slice().sort((a, b) => a - b);
+  return part.every((value, index) => value <= build[index]);
+}
+
+/**
+ * Price one configuration. Pure: the same geometry, input and rates always give the same estimate
+ */
+export function estimatePrintPrice(
+  geometry: PrintGeometry,
+  input: PrintEstimateInput,
+  rates: PrintRateTable = getPrintRates(),
+  now = Date.now()
+): PrintEstimate {
+  const process = rates.processes.find(item => item.id === input.process);
+  if (!process) {
+    throw new EstimateError('unknown_process', `Unknown process: ${input.process}`);
+  }
+  const material = rates.materials.find(item => item.id === input.material);
+  if (!material || !material.processes.includes(process.id)) {
+    throw new EstimateError('unknown_material', `${input.material} is not available for ${process.name}`);
+  }
+  if (!Number.isInteger(input.quantity) || input.quantity < 1 || input.quantity > rates.maxQuantity) {
+    throw new EstimateError('invalid_quantity', `Quantity must be between 1 and ${rates.maxQuantity}`);
+  }
+  if (geometry.volume <= 0) {
+    throw new EstimateError('empty_model', 'The model has no enclosed volume to price', 422);
+  }
+
+  const warnings: PrintEstimateWarning[] = [];
+  const infill = process.supportsInfill ? Math.min(Math.max(input.infill, 0), 100) : 100;
+
+  // Solid walls plus the chosen infill for the interior (mm³)
+  const shell = Math.min(geometry.volume, geometry.surfaceArea * process.wallThicknessMm);
+  const partVolume = process.supportsInfill
+    ? shell + (geometry.volume - shell) * (infill / 100)
+    : geometry.volume;
+  const printedVolumeCm3 = (partVolume + geometry.volume * process.supportFactor) / 1000;
+
+  const layers = Math.ceil(geometry.size[2] / process.layerHeightMm);
+  const buildHours = printedVolumeCm3 / process.buildRateCm3PerHour + (layers * process.secondsPerLayer) / 3600;
+
+  const discount = rates.quantityDiscounts
+    .filter(tier => input.quantity >= tier.minQuantity)
+    .reduce((best, tier) => Math.max(best, tier.discount), 0);
+  const unitPrice = (printedVolumeCm3 * material.pricePerCm3 + buildHours * process.machineRatePerHour)
+    * rates.markup * (1 - discount);
+
+  let total = process.setupFee + unitPrice * input.quantity;
+  if (total < rates.minimumOrder) {
+    total = rates.minimumOrder;
+    warnings.push('minimum_order_applied');
+  }
+
+  if (!fitsBuildVolume(geometry.size, process.buildVolumeMm)) warnings.push('exceeds_build_volume');
+  if (!geometry.watertight) warnings.push('open_mesh');
+  // STL has no units; a part under 1mm or over 2m was most likely exported in metres or inches
+  const longest = Math.max(...geometry.size);
+  if (longest < 1 || longest > 2000) warnings.push('units_suspect');
+
+  return {
+    process: process.id,
+    material: material.id,
+    infill,
+    quantity: input.quantity,
+    currency: rates.currency,
+    geometry,
+    printedVolumeCm3: roundTo(printedVolumeCm3, 2),
+    weightGrams: roundTo(printedVolumeCm3 * material.density, 1),
+    buildHours: roundTo(buildHours, 2),
+    unitPrice: roundTo(unitPrice, 2),
+    priceRange: {
+      min: Math.floor(total * rates.range.low),
+      max: Math.ceil(total * rates.range.high),
+    },
+    warnings,
+    createdAt: now,
+  };
+}
+
+// ============================================================================
+// GEOMETRY FROM UPLOADS
+// ============================================================================
+
+const GEOMETRY_CACHE_LIMIT = 100;
+// Keyed by the file's sha256, so re-pricing with other options doesn't re-read the STL
+const geometryCache = new Map<string, PrintGeometry>();
+
+/**
+ * Geometry of a completed STL upload (see lib/uploads)
+ */
+export async function geometryForUpload(uploadId: string): Promise<PrintGeometry> {
+  const uploads = getUploads();
+  const session = await uploads.get(uploadId);
+  if (session.status !== 'complete' || !session.sha256) {
+    throw new EstimateError('upload_incomplete', 'The upload has not finished', 409);
+  }
+  if (!/\.stl$/i.test(session.filename)) {
+    throw new EstimateError('unsupported_file', 'Instant estimates need an STL file');
+  }
+
+  const cached = geometryCache.get(session.sha256);
+  if (cached) return cached;
+
+  let metadata;
+  try {
+    ({ metadata } = await parseStl(uploads.stream(uploadId), session.size, 1));
+  } catch {
+    throw new EstimateError('unreadable_model', 'The STL file could not be read', 422);
+  }
+
+  const geometry: PrintGeometry = {
+    volume: metadata.volume,
+    surfaceArea: metadata.surfaceArea,
+    size: metadata.boundingBox.size,
+    triangles: metadata.triangles,
+    watertight: metadata.watertight,
+  };
+
+  if (geometryCache.size >= GEOMETRY_CACHE_LIMIT) {
+    const oldest = geometryCache.keys().next().value;
+    if (oldest) geometryCache.delete(oldest);
+  }
+  geometryCache.set(session.sha256, geometry);
+  return geometry;
+}
+
+// ============================================================================
+// SIGNED ESTIMATE TOKENS
+// ============================================================================
+
+export interface SignedEstimate extends PrintEstimate {
+  uploadId: string;
+  expiresAt: number;
+}
+
+const TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function sign(body: string): string {
+  return createHmac('sha256', signingKey('estimate-token')).update(body).digest('base64url');
+}
+
+/**
+ * `<base64url(estimate)>.<signature>`, attached to the quotation as `estimate_token`
+ */
+export function issueEstimateToken(estimate: PrintEstimate, uploadId: string, now = Date.now()): string {
+  const signed: SignedEstimate = { ...estimate, uploadId, expiresAt: now + TOKEN_TTL_MS };
+  const body = Buffer.from(JSON.stringify(signed)).toString('base64url');
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * The estimate behind a token, or null when it was tampered with or has expired
+ */
+export function verifyEstimateToken(token: string, now = Date.now()): SignedEstimate | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const estimate = JSON.parse(Buffer.from(body, 'base64url').toString('utf-8')) as SignedEstimate;
+    return estimate.expiresAt > now ? estimate : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One line for the CRM lead, e.g. "FDM / PETG, 20% infill, 10 pcs: 180-276 EUR (3.2h per part, 41.5 g)"
+ */
+export function summarizeEstimate(estimate: PrintEstimate, rates: PrintRateTable = getPrintRates()): string {
+  const process = rates.processes.find(item => item.id === estimate.process);
+  const material = rates.materials.find(item => item.id === estimate.material)?.name || estimate.material;
+  const infill = process?.supportsInfill === false ? 'solid' : `${estimate.infill}% infill`;
+  const warnings = estimate.warnings.length > 0 ? ` [${estimate.warnings.join(', ')}]` : '';
+  return `${process?.name || estimate.process} / ${material}, ${infill}, ${estimate.quantity} pcs: `
+    + `${estimate.priceRange.min}-${estimate.priceRange.max} ${estimate.currency} `
+    + `(${estimate.buildHours}h per part, ${estimate.weightGrams} g)${warnings}`;
+}
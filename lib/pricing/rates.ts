@@ -0,0 +1,137 @@
+/**
+ * 3D Printing Rate Tables
+ * Defaults match the equipment listed in lib/services/3d-printing.ts. Operations can replace the
+ * whole table with PRINT_RATES_FILE (a JSON file in the same shape) without a deploy
+ */
+
+import fs from 'fs';
+import { z } from 'zod';
+import type { PrintRateTable } from './types';
+
+const PrintProcessSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string(),
+  machineRatePerHour: z.number().nonnegative(),
+  buildRateCm3PerHour: z.number().positive(),
+  layerHeightMm: z.number().positive(),
+  secondsPerLayer: z.number().nonnegative(),
+  supportFactor: z.number().min(0).max(2),
+  supportsInfill: z.boolean(),
+  wallThicknessMm: z.number().nonnegative(),
+  buildVolumeMm: z.tuple([z.number().positive(), z.number().positive(), z.number().positive()]),
+  setupFee: z.number().nonnegative()
+});
+
+const PrintMaterialSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  processes: z.array(z.string()).min(1),
+  pricePerCm3: z.number().positive(),
+  density: z.number().positive()
+});
+
+export const PrintRateTableSchema = z.object({
+  currency: z.string().length(3),
+  processes: z.array(PrintProcessSchema).min(1),
+  materials: z.array(PrintMaterialSchema).min(1),
+  markup: z.number().positive(),
+  minimumOrder: z.number().nonnegative(),
+  quantityDiscounts: z.array(z.object({
+    minQuantity: z.number().int().positive(),
+    discount: z.number().min(0).max(0.9)
+  })),
+  range: z.object({ low: z.number().positive().max(1), high: z.number().min(1) }),
+  maxQuantity: z.number().int().positive()
+});
+
+export const DEFAULT_PRINT_RATES: PrintRateTable = {
+  currency: 'EUR',
+  processes: [
+    {
+      id: 'fdm',
+      name: 'FDM',
+      description: 'Fused deposition modeling - functional prototypes and fixtures',
+      machineRatePerHour: 12,
+      buildRateCm3PerHour: 15,
+      layerHeightMm: 0.2,
+      secondsPerLayer: 4,
+      supportFactor: 0.1,
+      supportsInfill: true,
+      wallThicknessMm: 1.2,
+      buildVolumeMm: [300, 300, 300],
+      setupFee: 15,
+    },
+    {
+      id: 'sla',
+      name: 'SLA',
+      description: 'Stereolithography resin - fine detail and smooth surfaces',
+      machineRatePerHour: 18,
+      buildRateCm3PerHour: 20,
+      layerHeightMm: 0.05,
+      secondsPerLayer: 8,
+      supportFactor: 0.15,
+      supportsInfill: false,
+      wallThicknessMm: 0,
+      buildVolumeMm: [145, 145, 175],
+      setupFee: 25,
+    },
+    {
+      id: 'sls',
+      name: 'SLS',
+      description: 'Selective laser sintering nylon - durable parts without supports',
+      machineRatePerHour: 25,
+      buildRateCm3PerHour: 40,
+      layerHeightMm: 0.1,
+      secondsPerLayer: 10,
+      supportFactor: 0,
+      supportsInfill: false,
+      wallThicknessMm: 0,
+      buildVolumeMm: [300, 300, 300],
+      setupFee: 35,
+    },
+  ],
+  materials: [
+    { id: 'pla', name: 'PLA', processes: ['fdm'], pricePerCm3: 0.05, density: 1.24 },
+    { id: 'abs', name: 'ABS', processes: ['fdm'], pricePerCm3: 0.06, density: 1.04 },
+    { id: 'petg', name: 'PETG', processes: ['fdm'], pricePerCm3: 0.06, density: 1.27 },
+    { id: 'tpu', name: 'TPU (flexible)', processes: ['fdm'], pricePerCm3: 0.12, density: 1.21 },
+    { id: 'resin-standard', name: 'Standard resin', processes: ['sla'], pricePerCm3: 0.15, density: 1.15 },
+    { id: 'resin-tough', name: 'Tough resin', processes: ['sla'], pricePerCm3: 0.22, density: 1.17 },
+    { id: 'pa12', name: 'Nylon PA12', processes: ['sls'], pricePerCm3: 0.2, density: 1.01 },
+  ],
+  markup: 1.35,
+  minimumOrder: 25,
+  quantityDiscounts: [
+    { minQuantity: 10, discount: 0.1 },
+    { minQuantity: 50, discount: 0.2 },
+  ],
+  range: { low: 0.85, high: 1.3 },
+  maxQuantity: 1000,
+};
+
+let ratesInstance: PrintRateTable | null = null;
+
+/**
+ * Rate table in use: PRINT_RATES_FILE when it parses, otherwise the defaults
+ */
+export function getPrintRates(): PrintRateTable {
+  if (ratesInstance) return ratesInstance;
+
+  const file = process.env.PRINT_RATES_FILE;
+  if (file) {
+    try {
+      const parsed = PrintRateTableSchema.safeParse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+      if (parsed.success) {
+        ratesInstance = parsed.data;
+        return ratesInstance;
+      }
+      console.error('❌ PRINT_RATES_FILE is invalid, using default rates:', parsed.error.flatten());
+    } catch (error) {
+      console.error('❌ Could not read PRINT_RATES_FILE, using default rates:', error);
+    }
+  }
+
+  ratesInstance = DEFAULT_PRINT_RATES;
+  return ratesInstance;
+}
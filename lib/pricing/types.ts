@@ -0,0 +1,100 @@
+/**
+ * 3D Printing Price Estimate Types
+ * Rate tables and the indicative estimate built from an STL's geometry
+ */
+
+export interface PrintProcess {
+  id: string;
+  name: string;
+  description: string;
+  /** Machine time, EUR per hour */
+  machineRatePerHour: number;
+  /** Material deposited or cured per hour of build time */
+  buildRateCm3PerHour: number;
+  layerHeightMm: number;
+  /** Recoat / travel overhead per layer, independent of the part's volume */
+  secondsPerLayer: number;
+  /** Extra material for supports as a fraction of the part volume */
+  supportFactor: number;
+  /** Infill only applies to extrusion; resin and powder parts print solid */
+  supportsInfill: boolean;
+  /** Outer walls printed solid before infill starts */
+  wallThicknessMm: number;
+  /** Largest part that fits, in mm */
+  buildVolumeMm: [number, number, number];
+  setupFee: number;
+}
+
+export interface PrintMaterial {
+  id: string;
+  name: string;
+  /** Process ids the material can be printed with */
+  processes: string[];
+  /** EUR per cm³ of printed material */
+  pricePerCm3: number;
+  /** g/cm³, for the part weight */
+  density: number;
+}
+
+export interface QuantityDiscount {
+  minQuantity: number;
+  /** 0-1 off the per-part price */
+  discount: number;
+}
+
+export interface PrintRateTable {
+  currency: string;
+  processes: PrintProcess[];
+  materials: PrintMaterial[];
+  /** Multiplier on material + machine cost (overheads, post-processing, margin) */
+  markup: number;
+  minimumOrder: number;
+  quantityDiscounts: QuantityDiscount[];
+  /** Estimate range around the computed price, e.g. 0.85 - 1.3 */
+  range: { low: number; high: number };
+  maxQuantity: number;
+}
+
+/** What the estimator needs from the mesh (see lib/cad) */
+export interface PrintGeometry {
+  /** mm³ */
+  volume: number;
+  /** mm² */
+  surfaceArea: number;
+  /** Bounding box size in mm */
+  size: [number, number, number];
+  triangles: number;
+  watertight: boolean;
+}
+
+export interface PrintEstimateInput {
+  process: string;
+  material: string;
+  /** 0-100, ignored for processes that print solid */
+  infill: number;
+  quantity: number;
+}
+
+export type PrintEstimateWarning =
+  | 'exceeds_build_volume'
+  | 'open_mesh'
+  | 'units_suspect'
+  | 'minimum_order_applied';
+
+export interface PrintEstimate {
+  process: string;
+  material: string;
+  infill: number;
+  quantity: number;
+  currency: string;
+  geometry: PrintGeometry;
+  /** Material actually printed per part (shell + infill + supports), cm³ */
+  printedVolumeCm3: number;
+  weightGrams: number;
+  /** Build time per part */
+  buildHours: number;
+  unitPrice: number;
+  priceRange: { min: number; max: number };
+  warnings: PrintEstimateWarning[];
+  createdAt: number;
+}
@@ -3,6 +3,7 @@ import { NextRequest } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { AuditLogger } from '@/lib/audit'
+import { verifyAdminAuth } from '@/lib/auth/admin-auth'
 
 export enum Permission {
   // Project Permissions
@@ -84,6 +85,12 @@ export const RolePermissions: Record<UserRole, Permission[]> = {
   ]
 }
 
+// Session users without an explicit role are treated as plain client users
+export function resolveUserRole(user: unknown): UserRole {
+  const role = (user as { userRole?: string } | undefined)?.userRole
+  return role && role in RolePermissions ? role as UserRole : UserRole.CLIENT_USER
+}
+
 export class RBACService {
   static hasPermission(userRole: UserRole, permission: Permission): boolean {
     const permissions = RolePermissions[userRole] || []
@@ -93,7 +100,7 @@ export class RBACService {
   static async checkPermission(
     request: NextRequest, 
     requiredPermission: Permission
-  ): Promise<{ hasPermission: boolean; user?: { email?: string; id?: string; name?: string } }> {
+  ): Promise<{ hasPermission: boolean; user?: { email?: string; id?: string; name?: string }; userRole?: UserRole }> {
     try {
       const session = await getServerSession(authOptions)
       if (!session?.user) {
@@ -101,7 +108,7 @@ export class RBACService {
       }
       
       // Get user role from session or database
-      const userRole = (session.user as any).userRole || UserRole.CLIENT_USER
+      const userRole = resolveUserRole(session.user)
       const hasPermission = this.hasPermission(userRole, requiredPermission)
       
       // Log permission check (optional if database available)
@@ -122,7 +129,7 @@ export class RBACService {
         console.warn('⚠️ Audit logging failed (continuing):', auditError instanceof Error ? auditError.message : String(auditError))
       }
       
-      return { hasPermission, user: session.user }
+      return { hasPermission, user: session.user, userRole }
     } catch (error) {
       console.error('RBAC permission check error:', error)
       return { hasPermission: false }
@@ -174,8 +181,8 @@ export class RBACService {
 export async function requirePermission(
   request: NextRequest,
   permission: Permission
-): Promise<{ user: { email?: string; id?: string; name?: string } } | Response> {
-  const { hasPermission, user } = await RBACService.checkPermission(request, permission)
+): Promise<{ user: { email?: string; id?: string; name?: string }; userRole: UserRole } | Response> {
+  const { hasPermission, user, userRole } = await RBACService.checkPermission(request, permission)
   
   if (!hasPermission) {
     return new Response(
@@ -190,7 +197,28 @@ export async function requirePermission(
     )
   }
   
-  return { user: user! }
+  return { user: user!, userRole: userRole! }
+}
+
+// For /api/admin routes used from both the admin dashboard and the portal: a valid admin session
+// token acts as the ADMIN role, otherwise the signed-in user's role must grant every permission
+export async function requireAdminOrPermissions(
+  request: NextRequest,
+  permissions: Permission[]
+): Promise<{ actor: string; userRole: UserRole } | Response> {
+  const adminAuth = await verifyAdminAuth(request)
+  if (adminAuth.isAuthenticated) {
+    return { actor: `admin:${adminAuth.adminId}`, userRole: UserRole.ADMIN }
+  }
+
+  let result: { user: { email?: string; id?: string }; userRole: UserRole } | undefined
+  for (const permission of permissions) {
+    const check = await requirePermission(request, permission)
+    if (check instanceof Response) return check
+    result = check
+  }
+
+  return { actor: result?.user.id || result?.user.email || 'unknown', userRole: result!.userRole }
 }
 
 // Helper function to get user permissions
@@ -226,4 +254,12 @@ export function canAccessResource(
   }
   
   return false
-}
\ No newline at end of file
+}
+
+// Highest project visibility a role grants, or null when it can't see projects
+export function getProjectScope(userRole: UserRole): 'all' | 'account' | 'own' | null {
+  if (RBACService.hasPermission(userRole, Permission.READ_ALL_PROJECTS)) return 'all'
+  if (RBACService.hasPermission(userRole, Permission.READ_ACCOUNT_PROJECTS)) return 'account'
+  if (RBACService.hasPermission(userRole, Permission.READ_OWN_PROJECTS)) return 'own'
+  return null
+}
@@ -0,0 +1,67 @@
+/**
+ * Minimal Redis-compatible client
+ * Speaks the Upstash/Vercel KV REST protocol over fetch so it works in both
+ * Node and Edge runtimes without a native driver
+ */
+
+export interface RedisSetOptions {
+  /** Expiry in milliseconds */
+  px?: number;
+  /** Only set when the key does not exist */
+  nx?: boolean;
+}
+
+export interface RedisLike {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options?: RedisSetOptions): Promise<boolean>;
+  del(key: string): Promise<number>;
+  /** Run a raw command, e.g. ['INCR', 'key'] */
+  command<T = unknown>(args: Array<string | number>): Promise<T>;
+}
+
+export interface RedisRestConfig {
+  url: string;
+  token: string;
+}
+
+/**
+ * Resolve REST credentials from Upstash or Vercel KV environment variables
+ */
+export function getRedisRestConfig(): RedisRestConfig | null {
+  const url = process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN;
+  return url && token ? { url: url.replace(/\/$/, ''), token } : null;
+}
+
+export function createRedisRestClient(config: RedisRestConfig): RedisLike {
+  const command = async <T = unknown>(args: Array<string | number>): Promise<T> => {
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${config.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(args.map(String)),
+      cache: 'no-store',
+    });
+
+    const json: any = await response.json().catch(() => ({}));
+    if (!response.ok || json?.error) {
+      throw new Error(`redis:${String(args[0]).toLowerCase()}:${json?.error || response.status}`);
+    }
+    return json.result as T;
+  };
+
+  return {
+    command,
+    get: (key) => command<string | null>(['GET', key]),
+    set: async (key, value, options = {}) => {
+      const args: Array<string | number> = ['SET', key, value];
+      if (options.px) args.push('PX', options.px);
+      if (options.nx) args.push('NX');
+      const result = await command<string | null>(args);
+      return result === 'OK';
+    },
+    del: (key) => command<number>(['DEL', key]),
+  };
+}
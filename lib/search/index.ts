@@ -0,0 +1,216 @@
+/**
+ * Site Search
+ * Inverted index over services, blog posts, FAQ entries and solutions pages (see ./sources)
+ *
+ * - Terms are stemmed (Porter) so "printing", "prints" and "printed" find each other
+ * - Title matches outweigh keyword (category, tags, headings), description and body matches
+ * - The last word of a query also matches as a prefix, for search-as-you-type
+ * - Words that match nothing are corrected to the closest indexed words (1 edit, 2 for long words)
+ * - Every word has to match; when no document matches all of them, documents matching some are
+ *   returned with `partial: true`
+ *
+ * `npm run search:index` (run before every build) writes the index to .content/search-index.json;
+ * production reads it, development indexes the sources on each request
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { collectSearchDocuments } from './sources';
+import { editDistance, isStopWord, stem, tokenize } from './text';
+import type {
+  SearchDocument,
+  SearchField,
+  SearchIndex,
+  SearchOptions,
+  SearchResponse,
+  SearchResult,
+  StoredDocument,
+} from './types';
+
+export * from './types';
+
+export const SEARCH_INDEX_PATH = path.join(process.cwd(), '.content', 'search-index.json');
+
+const SEARCH_INDEX_VERSION = 1;
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 10, keywords: 5, description: 3, body: 1 };
+const PREFIX_FACTOR = 0.7;
+const TYPO_FACTORS = [1, 0.5, 0.3];
+const DEFAULT_LIMIT = 10;
+
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const postings: SearchIndex['postings'] = {};
+  const words: SearchIndex['words'] = {};
+
+  documents.forEach((document, documentIndex) => {
+    const frequencies = new Map<string, number>();
+    const fields: Record<SearchField, string> = {
+      title: document.title,
+      keywords: document.keywords.join('\n'),
+      description: document.description,
+      body: document.body,
+    };
+    for (const field of Object.keys(fields) as SearchField[]) {
+      for (const word of tokenize(fields[field]).filter(token => !isStopWord(token))) {
+        const term = stem(word);
+        words[word] = term;
+        frequencies.set(term, (frequencies.get(term) || 0) + FIELD_WEIGHTS[field]);
+      }
+    }
+    frequencies.forEach((frequency, term) => {
+      (postings[term] ||= []).push([documentIndex, frequency]);
+    });
+  });
+
+  const stored: StoredDocument[] = documents.map(({ keywords: _keywords, body: _body, ...document }) => document);
+  return { version: SEARCH_INDEX_VERSION, generatedAt: new Date().toISOString(), documents: stored, postings, words };
+}
+
+// Only needed for prefix and typo matching, so worked out on first use
+const vocabularies = new WeakMap<SearchIndex, { terms: string[]; words: Array<[string, string]> }>();
+
+function vocabulary(index: SearchIndex): { terms: string[]; words: Array<[string, string]> } {
+  let entry = vocabularies.get(index);
+  if (!entry) {
+    entry = { terms: Object.keys(index.postings), words: Object.entries(index.words) };
+    vocabularies.set(index, entry);
+  }
+  return entry;
+}
+
+/**
+ * Indexed terms a query word stands for, with how much a match on each counts
+ */
+function expandWord(index: SearchIndex, word: string, isPrefix: boolean): { matches: Map<string, number>; correction?: string } {
+  const matches = new Map<string, number>();
+  const stemmed = stem(word);
+  for (const term of [stemmed, word]) {
+    if (index.postings[term]) matches.set(term, 1);
+  }
+
+  if (isPrefix && word.length >= 2) {
+    for (const term of vocabulary(index).terms) {
+      if (!matches.has(term) && (term.startsWith(word) || term.startsWith(stemmed))) matches.set(term, PREFIX_FACTOR);
+    }
+  }
+
+  if (matches.size > 0 || word.length < 4 || /\d/.test(word)) return { matches };
+
+  // Typos are measured against the indexed words as written, then matched through their stems
+  const maxDistance = word.length >= 8 ? 2 : 1;
+  let best: { word: string; distance: number; documents: number } | null = null;
+  for (const [indexed, term] of vocabulary(index).words) {
+    const distance = editDistance(word, indexed, maxDistance);
+    if (distance > maxDistance) continue;
+    matches.set(term, Math.max(matches.get(term) || 0, TYPO_FACTORS[distance]));
+    const documents = index.postings[term].length;
+    if (!best || distance < best.distance || (distance === best.distance && documents > best.documents)) {
+      best = { word: indexed, distance, documents };
+    }
+  }
+  return { matches, correction: best?.word };
+}
+
+function isVisible(document: StoredDocument, options: SearchOptions, now: Date): boolean {
+  if (options.types && !options.types.includes(document.type)) return false;
+  if (document.draft) return false;
+  return !document.publishedAt || Date.parse(document.publishedAt) <= now.getTime();
+}
+
+export function searchIndex(index: SearchIndex, query: string, options: SearchOptions = {}): SearchResponse {
+  const now = options.now || new Date();
+  const limit = options.limit || DEFAULT_LIMIT;
+  const tokens = Array.from(new Set(tokenize(query)));
+  const words = tokens.filter(token => !isStopWord(token)).length > 0
+    ? tokens.filter(token => !isStopWord(token))
+    : tokens;
+  const empty: SearchResponse = { query, results: [], total: 0, corrections: {}, partial: false };
+  if (words.length === 0) return empty;
+
+  const documentCount = index.documents.length;
+  const corrections: Record<string, string> = {};
+  // Score per document for each query word
+  const wordScores: Array<Map<number, number>> = [];
+  const endsInWord = !/\s$/.test(query);
+
+  words.forEach((word, position) => {
+    const isPrefix = endsInWord && position === words.length - 1;
+    const { matches, correction } = expandWord(index, word, isPrefix);
+    if (correction) corrections[word] = correction;
+
+    const scores = new Map<number, number>();
+    matches.forEach((factor, term) => {
+      const postings = index.postings[term];
+      const idf = Math.log(1 + documentCount / postings.length);
+      for (const [documentIndex, frequency] of postings) {
+        const score = factor * idf * (1 + Math.log(frequency));
+        scores.set(documentIndex, Math.max(scores.get(documentIndex) || 0, score));
+      }
+    });
+    wordScores.push(scores);
+  });
+
+  const visible = (documentIndex: number) => isVisible(index.documents[documentIndex], options, now);
+  const candidates = new Set<number>();
+  wordScores.forEach(scores => scores.forEach((_, documentIndex) => candidates.add(documentIndex)));
+
+  const ranked = (requireAll: boolean) => Array.from(candidates)
+    .filter(visible)
+    .filter(documentIndex => !requireAll || wordScores.every(scores => scores.has(documentIndex)))
+    .map(documentIndex => ({
+      documentIndex,
+      score: wordScores.reduce((sum, scores) => sum + (scores.get(documentIndex) || 0), 0),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  let matches = ranked(true);
+  const partial = matches.length === 0 && words.length > 1;
+  if (partial) matches = ranked(false);
+
+  const results: SearchResult[] = matches.slice(0, limit).map(({ documentIndex, score }) => {
+    const { id, type, title, url, description } = index.documents[documentIndex];
+    return { id, type, title, url, description, score: Math.round(score * 100) / 100 };
+  });
+
+  return { query, results, total: matches.length, corrections, partial: partial && matches.length > 0 };
+}
+
+/**
+ * Indexes all sources and writes the index for production to read
+ */
+export async function writeSearchIndex(indexPath = SEARCH_INDEX_PATH): Promise<SearchIndex> {
+  const index = buildSearchIndex(await collectSearchDocuments());
+  await mkdir(path.dirname(indexPath), { recursive: true });
+  const temporary = `${indexPath}.${process.pid}.tmp`;
+  await writeFile(temporary, JSON.stringify(index), 'utf-8');
+  await rename(temporary, indexPath);
+  return index;
+}
+
+async function readSearchIndex(indexPath = SEARCH_INDEX_PATH): Promise<SearchIndex | null> {
+  try {
+    const index = JSON.parse(await readFile(indexPath, 'utf-8')) as SearchIndex;
+    return index.version === SEARCH_INDEX_VERSION ? index : null;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+let cachedIndex: SearchIndex | null = null;
+
+/**
+ * The prebuilt index in production (read once per process), a fresh one in development
+ */
+export async function getSearchIndex(): Promise<SearchIndex> {
+  if (process.env.NODE_ENV !== 'production') {
+    return buildSearchIndex(await collectSearchDocuments());
+  }
+  if (!cachedIndex) {
+    cachedIndex = await readSearchIndex() || buildSearchIndex(await collectSearchDocuments());
+  }
+  return cachedIndex;
+}
+
+export async function search(query: string, options: SearchOptions = {}): Promise<SearchResponse> {
+  return searchIndex(await getSearchIndex(), query, options);
+}
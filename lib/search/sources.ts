@@ -0,0 +1,99 @@
+/**
+ * Search Sources
+ * Collects the documents the site search covers: service pages, blog posts (drafts and scheduled
+ * ones included, they are filtered at query time), FAQ entries and the solutions pages
+ */
+
+import { servicesData } from '@/lib/services';
+import { faqItems } from '@/lib/data/faq';
+import { solutionPages } from '@/lib/data/solutions';
+import { getBlogPosts } from '@/lib/blog-data';
+import { BLOG_EMBEDS } from '@/lib/blog/embeds';
+import { plainText, renderMarkdown } from '@/lib/blog/markdown';
+import type { SearchDocument } from './types';
+
+export function serviceDocuments(): SearchDocument[] {
+  return Object.values(servicesData).map(service => ({
+    id: `service:${service.slug}`,
+    type: 'service' as const,
+    title: service.title,
+    url: `/services/${service.slug}`,
+    description: service.description,
+    keywords: [...service.category, ...service.features],
+    body: [
+      ...(service.details?.specifications || []).flatMap(spec => [
+        spec.category,
+        ...spec.items.map(item => `${item.label} ${item.value}`),
+      ]),
+      ...(service.details?.process || []).flatMap(step => [
+        step.title,
+        step.description,
+        ...(step.keyPoints || []),
+        ...(step.tools || []),
+        ...(step.deliverables || []),
+      ]),
+    ].join('\n'),
+  }));
+}
+
+export async function blogDocuments(): Promise<SearchDocument[]> {
+  const posts = await getBlogPosts({ includeUnpublished: true });
+  return posts.map(post => {
+    const { html, headings } = renderMarkdown(post.content, { embeds: BLOG_EMBEDS });
+    return {
+      id: `blog:${post.slug}`,
+      type: 'blog' as const,
+      title: post.title,
+      url: `/blog/${post.slug}`,
+      description: post.excerpt,
+      keywords: [post.category, ...post.tags, ...headings.map(heading => heading.text)],
+      body: plainText(html),
+      publishedAt: post.date,
+      draft: post.draft,
+    };
+  });
+}
+
+export function faqDocuments(): SearchDocument[] {
+  return faqItems.map(item => ({
+    id: `faq:${item.id}`,
+    type: 'faq' as const,
+    title: item.question,
+    url: `/faq#${item.id}`,
+    description: item.answer,
+    keywords: [item.category],
+    body: '',
+  }));
+}
+
+export function solutionDocuments(): SearchDocument[] {
+  return solutionPages.map(page => {
+    const sections = Object.values(page.sections);
+    return {
+      id: `solution:${page.url}`,
+      type: 'solution' as const,
+      title: page.highlight ? `${page.title} ${page.highlight}` : page.title,
+      url: page.url,
+      description: page.description,
+      keywords: [
+        ...(page.tagline ? [page.tagline] : []),
+        ...sections.flatMap(section => section.heading ? [section.heading] : []),
+        ...sections.flatMap(section => section.items.map(item => item.title)),
+      ],
+      body: sections.flatMap(section => [
+        section.intro,
+        ...section.items.flatMap(item => [item.highlight, item.description, item.solution, ...(item.points || [])]),
+        ...(section.points || []),
+      ]).filter(Boolean).join('\n'),
+    };
+  });
+}
+
+export async function collectSearchDocuments(): Promise<SearchDocument[]> {
+  return [
+    ...serviceDocuments(),
+    ...solutionDocuments(),
+    ...faqDocuments(),
+    ...(await blogDocuments()),
+  ];
+}
@@ -0,0 +1,186 @@
+/**
+ * Search Text
+ * Tokenizing, stop words, the Porter stemmer and edit distance shared by the index build and queries
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the',
+  'their', 'then', 'there', 'these', 'this', 'to', 'was', 'we', 'what', 'when', 'which', 'who', 'will',
+  'with', 'you', 'your',
+]);
+
+export function normalize(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/** Words of the text, lowercased and without accents; "GD&T" and "FEA/CFD" stay searchable */
+export function tokenize(text: string): string[] {
+  return normalize(text)
+    .replace(/([a-z0-9])&([a-z0-9])/g, '$1$2')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+export function isStopWord(token: string): boolean {
+  return STOP_WORDS.has(token);
+}
+
+// ---------------------------------------------------------------------------
+// Porter stemmer (M.F. Porter, 1980)
+// ---------------------------------------------------------------------------
+
+function isConsonant(word: string, index: number): boolean {
+  const char = word[index];
+  if ('aeiou'.includes(char)) return false;
+  if (char === 'y') return index === 0 || !isConsonant(word, index - 1);
+  return true;
+}
+
+/** m in [C](VC)^m[V] for the stem */
+function measure(stem: string): number {
+  let count = 0;
+  let index = 0;
+  const length = stem.length;
+  while (index < length && isConsonant(stem, index)) index++;
+  while (index < length) {
+    while (index < length && !isConsonant(stem, index)) index++;
+    if (index >= length) break;
+    while (index < length && isConsonant(stem, index)) index++;
+    count++;
+  }
+  return count;
+}
+
+function hasVowel(stem: string): boolean {
+  for (let index = 0; index < stem.length; index++) {
+    if (!isConsonant(stem, index)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const length = word.length;
+  return length >= 2 && word[length - 1] === word[length - 2] && isConsonant(word, length - 1);
+}
+
+/** consonant-vowel-consonant ending, where the last consonant is not w, x or y */
+function endsCvc(word: string): boolean {
+  const length = word.length;
+  if (length < 3) return false;
+  return isConsonant(word, length - 3) && !isConsonant(word, length - 2) && isConsonant(word, length - 1) &&
+    !'wxy'.includes(word[length - 1]);
+}
+
+/** Steps 2 and 3: swap the first matching suffix when the remaining stem has m > 0 */
+function replaceSuffix(word: string, rules: Array<[string, string]>): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return measure(stem) > 0 ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+const STEP2: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'], ['bli', 'ble'],
+  ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'], ['ization', 'ize'], ['ation', 'ate'],
+  ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'], ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'],
+  ['iviti', 'ive'], ['biliti', 'ble'], ['logi', 'log'],
+];
+
+const STEP3: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', ''],
+];
+
+const STEP4 = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent', 'ion', 'ou', 'ism', 'ate',
+  'iti', 'ous', 'ive', 'ize',
+];
+
+// Longest suffixes first so e.g. "ational" wins over "tional"
+const byLength = (a: [string, string], b: [string, string]) => b[0].length - a[0].length;
+STEP2.sort(byLength);
+STEP3.sort(byLength);
+STEP4.sort((a, b) => b.length - a.length);
+
+export function stem(token: string): string {
+  if (token.length <= 2 || /\d/.test(token)) return token;
+  let word = token;
+
+  // Step 1a: plurals
+  if (word.endsWith('sses')) word = word.slice(0, -2);
+  else if (word.endsWith('ies')) word = word.slice(0, -2);
+  else if (!word.endsWith('ss') && word.endsWith('s')) word = word.slice(0, -1);
+
+  // Step 1b: -eed, -ed, -ing
+  if (word.endsWith('eed')) {
+    if (measure(word.slice(0, -3)) > 0) word = word.slice(0, -1);
+  } else {
+    const suffix = word.endsWith('ed') ? 'ed' : word.endsWith('ing') ? 'ing' : null;
+    if (suffix && hasVowel(word.slice(0, -suffix.length))) {
+      word = word.slice(0, -suffix.length);
+      if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) {
+        word += 'e';
+      } else if (endsWithDoubleConsonant(word) && !'lsz'.includes(word[word.length - 1])) {
+        word = word.slice(0, -1);
+      } else if (measure(word) === 1 && endsCvc(word)) {
+        word += 'e';
+      }
+    }
+  }
+
+  // Step 1c: y -> i
+  if (word.endsWith('y') && hasVowel(word.slice(0, -1))) word = `${word.slice(0, -1)}i`;
+
+  word = replaceSuffix(word, STEP2);
+  word = replaceSuffix(word, STEP3);
+
+  // Step 4: drop suffixes of longer stems
+  for (const suffix of STEP4) {
+    if (word.endsWith(suffix)) {
+      const base = word.slice(0, -suffix.length);
+      if (measure(base) > 1 && (suffix !== 'ion' || /[st]$/.test(base))) word = base;
+      break;
+    }
+  }
+
+  // Step 5: trailing e and double l
+  if (word.endsWith('e')) {
+    const base = word.slice(0, -1);
+    const m = measure(base);
+    if (m > 1 || (m === 1 && !endsCvc(base))) word = base;
+  }
+  if (measure(word) > 1 && endsWithDoubleConsonant(word) && word.endsWith('l')) word = word.slice(0, -1);
+
+  return word;
+}
+
+/**
+ * Damerau-Levenshtein distance (adjacent swaps count as one edit), giving up above `max`
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
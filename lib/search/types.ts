@@ -0,0 +1,66 @@
+/**
+ * Site Search Types
+ */
+
+export type SearchDocumentType = 'service' | 'blog' | 'faq' | 'solution';
+
+export type SearchField = 'title' | 'keywords' | 'description' | 'body';
+
+/** A page (or part of one) before indexing */
+export interface SearchDocument {
+  id: string;
+  type: SearchDocumentType;
+  title: string;
+  url: string;
+  /** Shown under the title in results */
+  description: string;
+  /** Category, tags or section headings */
+  keywords: string[];
+  body: string;
+  /** Blog posts only: hidden before this date */
+  publishedAt?: string;
+  /** Blog posts only: never shown */
+  draft?: boolean;
+}
+
+/** What the index keeps of a document to show it in results */
+export type StoredDocument = Omit<SearchDocument, 'keywords' | 'body'>;
+
+/**
+ * Inverted index: every stemmed term maps to the documents containing it with a field-weighted
+ * term frequency. Built by `npm run search:index` before each build
+ */
+export interface SearchIndex {
+  version: number;
+  generatedAt: string;
+  documents: StoredDocument[];
+  /** term -> [document index, weighted frequency][] */
+  postings: Record<string, Array<[number, number]>>;
+  /** Indexed word as written -> its term, for typo correction */
+  words: Record<string, string>;
+}
+
+export interface SearchOptions {
+  types?: SearchDocumentType[];
+  limit?: number;
+  now?: Date;
+}
+
+export interface SearchResult {
+  id: string;
+  type: SearchDocumentType;
+  title: string;
+  url: string;
+  description: string;
+  score: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+  total: number;
+  /** Query words that matched only after correcting a typo, e.g. { "aluminim": "aluminum" } */
+  corrections: Record<string, string>;
+  /** True when no document matched every term and results match only some of them */
+  partial: boolean;
+}
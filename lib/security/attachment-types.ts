@@ -0,0 +1,30 @@
+/**
+ * Attachment Types
+ * Extensions accepted for quote attachments, keyed by the format their content has to match.
+ * Server-side inspection and the upload form's accept list both read this, so the browser never
+ * offers a file the server refuses
+ */
+
+export const ATTACHMENT_FORMATS = {
+  pdf: ['pdf'],
+  step: ['step', 'stp'],
+  iges: ['iges', 'igs'],
+  stl: ['stl'],
+  dwg: ['dwg'],
+  dxf: ['dxf'],
+  zip: ['zip', 'docx', 'xlsx'],
+  ole: ['doc', 'xls'],
+  rar: ['rar'],
+  png: ['png'],
+  jpeg: ['jpg', 'jpeg'],
+  gif: ['gif'],
+  webp: ['webp'],
+  text: ['txt'],
+} as const;
+
+export type AttachmentFormat = keyof typeof ATTACHMENT_FORMATS;
+
+/** For `<input accept>`: every accepted extension with its leading dot */
+export const ATTACHMENT_ACCEPT: string[] = Object.values(ATTACHMENT_FORMATS).flatMap(extensions =>
+  extensions.map(extension => `.${extension}`)
+);
@@ -0,0 +1,154 @@
+/**
+ * Public Form Submission Guard
+ * Scores a submission from the bot-prevention signals (user agent, headers, honeypot) plus a signed
+ * "form rendered at" token, then allows, quarantines or rejects it. Every decision is logged to
+ * securityLogger so the thresholds can be tuned from real traffic
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { botPrevention } from './bot-prevention';
+import { signingKey } from './keys';
+import { securityLogger } from './logging';
+
+export type GuardedForm = 'quote' | 'contact' | 'consultation' | 'newsletter';
+
+export type SubmissionDecision = 'allow' | 'quarantine' | 'reject';
+
+export interface SubmissionVerdict {
+  decision: SubmissionDecision;
+  /** 0-100, higher is more bot-like */
+  score: number;
+  reasons: string[];
+  /** Time between the form rendering and the submission, when the token was valid */
+  fillTimeMs?: number;
+}
+
+export interface IssuedFormToken {
+  token: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+/** Field the client forms send the token in */
+export const FORM_TOKEN_FIELD = 'form_token';
+
+const TOKEN_TTL_MS = 2 * 60 * 60 * 1000;
+
+const QUARANTINE_SCORE = parseInt(process.env.FORM_GUARD_QUARANTINE_SCORE || '50');
+const REJECT_SCORE = parseInt(process.env.FORM_GUARD_REJECT_SCORE || '80');
+
+// Token signals; the rest of the score comes from AdvancedBotPrevention
+const TOKEN_WEIGHTS = {
+  form_token_missing: 25,
+  form_token_invalid: 40,
+  form_token_expired: 20,
+  form_filled_too_quickly: 40,
+  form_filled_too_slowly: 10,
+  suspicious_timing_pattern: 10,
+} as const;
+
+function sign(body: string): string {
+  return createHmac('sha256', signingKey('form-guard-token')).update(body).digest('base64url');
+}
+
+/**
+ * Token the client gets when a form renders: `<form>.<issuedAt>.<nonce>.<signature>`
+ */
+export function issueFormToken(form: GuardedForm, now = Date.now()): IssuedFormToken {
+  const body = `${form}.${now}.${randomBytes(9).toString('base64url')}`;
+  return {
+    token: `${body}.${sign(body)}`,
+    issuedAt: now,
+    expiresAt: now + TOKEN_TTL_MS,
+  };
+}
+
+export function verifyFormToken(
+  token: string,
+  form: GuardedForm,
+  now = Date.now()
+): { valid: true; renderedAt: number } | { valid: false; reason: 'form_token_invalid' | 'form_token_expired' } {
+  const parts = token.split('.');
+  if (parts.length !== 4) {
+    return { valid: false, reason: 'form_token_invalid' };
+  }
+
+  const body = parts.slice(0, 3).join('.');
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(parts[3]);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'form_token_invalid' };
+  }
+
+  const renderedAt = Number(parts[1]);
+  if (parts[0] !== form || !Number.isFinite(renderedAt) || renderedAt > now) {
+    return { valid: false, reason: 'form_token_invalid' };
+  }
+  if (now - renderedAt > TOKEN_TTL_MS) {
+    return { valid: false, reason: 'form_token_expired' };
+  }
+  return { valid: true, renderedAt };
+}
+
+/**
+ * Score a parsed submission. `data` is the raw body, before schema validation strips the
+ * honeypot and token fields
+ */
+export function guardSubmission(request: Request, form: GuardedForm, data: Record<string, any>): SubmissionVerdict {
+  const now = Date.now();
+
+  // Honeypot checks call .trim(), so only hand them string fields
+  const fields: Record<string, string> = {};
+  Object.keys(data || {}).forEach(key => {
+    if (typeof data[key] === 'string') fields[key] = data[key];
+  });
+
+  const analysis = botPrevention.analyzeRequest(request, fields);
+  const reasons = [...analysis.reasons];
+  let score = analysis.confidence;
+  let fillTimeMs: number | undefined;
+
+  const token = fields[FORM_TOKEN_FIELD];
+  if (!token) {
+    score += TOKEN_WEIGHTS.form_token_missing;
+    reasons.push('form_token_missing');
+  } else {
+    const verification = verifyFormToken(token, form, now);
+    if (!verification.valid) {
+      score += TOKEN_WEIGHTS[verification.reason];
+      reasons.push(verification.reason);
+    } else {
+      fillTimeMs = now - verification.renderedAt;
+      const timing = botPrevention.analyzeSubmissionTiming(now, verification.renderedAt);
+      if (!timing.isHuman) {
+        score += TOKEN_WEIGHTS[timing.reason as keyof typeof TOKEN_WEIGHTS] || 0;
+        reasons.push(timing.reason);
+      }
+    }
+  }
+
+  score = Math.min(score, 100);
+  const decision: SubmissionDecision =
+    score >= REJECT_SCORE ? 'reject' : score >= QUARANTINE_SCORE ? 'quarantine' : 'allow';
+
+  const ip = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
+  securityLogger.logEvent({
+    type: 'bot_detection',
+    severity: decision === 'reject' ? 'high' : decision === 'quarantine' ? 'medium' : 'low',
+    ip,
+    userAgent: request.headers.get('user-agent') || undefined,
+    url: request.url,
+    method: request.method,
+    details: { form, decision, score, reasons, fillTimeMs }
+  });
+  botPrevention.logDetection(analysis, ip);
+
+  return { decision, score, reasons, fillTimeMs };
+}
+
+/**
+ * Outbox quarantine marker for a verdict, or undefined when the submission can go straight through
+ */
+export function quarantineFor(verdict: SubmissionVerdict): { score: number; reasons: string[] } | undefined {
+  return verdict.decision === 'quarantine' ? { score: verdict.score, reasons: verdict.reasons } : undefined;
+}
@@ -0,0 +1,179 @@
+/**
+ * Signed Form Submissions
+ * Issues single-use nonces bound to a browser session and verifies the signatures the public forms
+ * attach to their POSTs (see lib/helpers/sign.ts). Web APIs only, so middleware.ts can run it on Edge
+ */
+
+import type { NextRequest } from 'next/server';
+import type { RedisLike } from '@/lib/redis';
+import { resolveStoreBackend } from '@/lib/stores';
+import {
+  NONCE_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  sha256Hex,
+  sign,
+  signingInput,
+} from '@/lib/helpers/sign';
+
+export const FORM_SESSION_COOKIE = 'form_session';
+
+/** How long a nonce can be used after it was issued */
+export const NONCE_TTL_MS = 5 * 60 * 1000;
+/** Allowed difference between the client's signing time and ours */
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export type FormSignatureFailure =
+  | 'signature_missing'
+  | 'nonce_invalid'
+  | 'nonce_expired'
+  | 'session_mismatch'
+  | 'timestamp_skew'
+  | 'signature_invalid'
+  | 'nonce_replayed';
+
+export type FormSignatureVerification = { valid: true } | { valid: false; reason: FormSignatureFailure };
+
+export interface IssuedFormNonce {
+  nonce: string;
+  /** Per-nonce HMAC key the client signs with; useless once the nonce is spent */
+  key: string;
+  expiresAt: number;
+}
+
+/**
+ * Remembers spent nonces until they would have expired anyway
+ */
+export interface FormNonceStore {
+  readonly kind: 'memory' | 'redis';
+  /** True the first time a nonce is claimed, false on every replay */
+  claim(nonce: string, ttlMs: number): Promise<boolean>;
+}
+
+export class MemoryFormNonceStore implements FormNonceStore {
+  readonly kind = 'memory' as const;
+  private spent = new Map<string, number>();
+
+  async claim(nonce: string, ttlMs: number) {
+    const now = Date.now();
+    this.spent.forEach((expiresAt, key) => {
+      if (expiresAt <= now) this.spent.delete(key);
+    });
+
+    if (this.spent.has(nonce)) return false;
+    this.spent.set(nonce, now + ttlMs);
+    return true;
+  }
+}
+
+export class RedisFormNonceStore implements FormNonceStore {
+  readonly kind = 'redis' as const;
+
+  constructor(private readonly redis: RedisLike) {}
+
+  claim(nonce: string, ttlMs: number) {
+    return this.redis.set(`form:nonce:${nonce}`, '1', { px: ttlMs, nx: true });
+  }
+}
+
+/**
+ * Resolve the configured nonce store
+ * FORM_NONCE_STORE=redis|memory (default: redis when configured, otherwise memory outside
+ * production). Spent nonces in memory are only known to one instance, where a replay to another
+ * instance would pass, so production requires Redis
+ */
+export function createFormNonceStore(): FormNonceStore {
+  const backend = resolveStoreBackend({ name: 'form-nonces', envVar: 'FORM_NONCE_STORE' });
+  return backend.kind === 'redis' ? new RedisFormNonceStore(backend.redis) : new MemoryFormNonceStore();
+}
+
+function getFormNonceStore(): FormNonceStore {
+  const globalKey = '__formNonceStore';
+  if (!(globalThis as any)[globalKey]) {
+    (globalThis as any)[globalKey] = createFormNonceStore();
+  }
+  return (globalThis as any)[globalKey];
+}
+
+function randomToken(bytes: number) {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function constantTimeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export function newFormSessionId() {
+  return randomToken(16);
+}
+
+/**
+ * Nonce format: `<sessionId>.<issuedAt>.<random>.<mac>`; the signing key is derived from it,
+ * so nothing needs to be stored until the nonce is spent
+ */
+export async function issueFormNonce(secret: string, sessionId: string, now = Date.now()): Promise<IssuedFormNonce> {
+  const body = `${sessionId}.${now}.${randomToken(12)}`;
+  const nonce = `${body}.${await sign(`nonce.${body}`, secret)}`;
+  return {
+    nonce,
+    key: await sign(`key.${nonce}`, secret),
+    expiresAt: now + NONCE_TTL_MS,
+  };
+}
+
+/**
+ * Check a signed form POST: nonce authenticity and age, session binding, timestamp skew,
+ * body signature, then single use. The nonce is only spent once everything else passed
+ */
+export async function verifyFormSignature(
+  request: NextRequest,
+  secret: string,
+  now = Date.now()
+): Promise<FormSignatureVerification> {
+  const nonce = request.headers.get(NONCE_HEADER) || '';
+  const timestamp = request.headers.get(TIMESTAMP_HEADER) || '';
+  const signature = request.headers.get(SIGNATURE_HEADER) || '';
+  if (!nonce || !timestamp || !signature) {
+    return { valid: false, reason: 'signature_missing' };
+  }
+
+  const parts = nonce.split('.');
+  if (parts.length !== 4) {
+    return { valid: false, reason: 'nonce_invalid' };
+  }
+  const [sessionId, issuedAt, random, mac] = parts;
+  if (!constantTimeEqual(mac, await sign(`nonce.${sessionId}.${issuedAt}.${random}`, secret))) {
+    return { valid: false, reason: 'nonce_invalid' };
+  }
+  if (!(now - Number(issuedAt) <= NONCE_TTL_MS)) {
+    return { valid: false, reason: 'nonce_expired' };
+  }
+  if (request.cookies.get(FORM_SESSION_COOKIE)?.value !== sessionId) {
+    return { valid: false, reason: 'session_mismatch' };
+  }
+  if (!(Math.abs(now - Number(timestamp)) <= MAX_CLOCK_SKEW_MS)) {
+    return { valid: false, reason: 'timestamp_skew' };
+  }
+
+  const body = await request.clone().arrayBuffer();
+  const key = await sign(`key.${nonce}`, secret);
+  const expected = await sign(
+    signingInput(request.method, request.nextUrl.pathname, timestamp, nonce, await sha256Hex(body)),
+    key
+  );
+  if (!constantTimeEqual(signature, expected)) {
+    return { valid: false, reason: 'signature_invalid' };
+  }
+
+  if (!(await getFormNonceStore().claim(nonce, NONCE_TTL_MS))) {
+    return { valid: false, reason: 'nonce_replayed' };
+  }
+  return { valid: true };
+}
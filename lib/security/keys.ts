@@ -0,0 +1,48 @@
+/**
+ * Signing Keys
+ * Derives one HMAC key per purpose (estimate tokens, newsletter links, form tokens, ...) from the
+ * single SIGNING_SECRET, so a key leaked or rotated for one feature can't sign for another
+ */
+
+import { hkdfSync, randomBytes } from 'crypto';
+
+export type KeyPurpose =
+  | 'estimate-token'
+  | 'newsletter-link'
+  | 'newsletter-ip-hash'
+  | 'form-guard-token';
+
+const SALT = 'ideinstein:signing-keys:v1';
+
+const derived = new Map<KeyPurpose, { secret: string; key: Buffer }>();
+
+let fallbackSecret: string | null = null;
+
+function signingSecret(): string {
+  const secret = process.env.SIGNING_SECRET;
+  if (secret && secret.length >= 32) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('security:signing_secret_missing - set SIGNING_SECRET (at least 32 characters)');
+  }
+
+  // Development and tests only: keys then only verify on the process that derived them
+  if (!fallbackSecret) {
+    console.warn('⚠️ SIGNING_SECRET is not set - tokens and links are signed with a per-process key');
+    fallbackSecret = randomBytes(32).toString('hex');
+  }
+  return fallbackSecret;
+}
+
+/**
+ * 32-byte key for `purpose`, derived with HKDF-SHA256 from SIGNING_SECRET
+ */
+export function signingKey(purpose: KeyPurpose): Buffer {
+  const secret = signingSecret();
+  const cached = derived.get(purpose);
+  if (cached?.secret === secret) return cached.key;
+
+  const key = Buffer.from(hkdfSync('sha256', secret, SALT, purpose, 32));
+  derived.set(purpose, { secret, key });
+  return key;
+}
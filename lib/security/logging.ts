@@ -5,7 +5,7 @@
 
 export interface SecurityEvent {
   id: string;
-  type: 'csp_violation' | 'rate_limit' | 'auth_failure' | 'suspicious_request' | 'middleware_error';
+  type: 'csp_violation' | 'rate_limit' | 'auth_failure' | 'suspicious_request' | 'middleware_error' | 'mfa_event' | 'bot_detection';
   severity: 'low' | 'medium' | 'high' | 'critical';
   timestamp: Date;
   ip?: string;
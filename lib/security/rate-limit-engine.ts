@@ -0,0 +1,338 @@
+/**
+ * Rate Limit Engine
+ * The algorithms and stores behind applyRateLimit. Only Web APIs are used, so the same engine runs
+ * in Edge middleware and Node routes; point both at Redis and they share one set of counters
+ */
+
+import type { RedisLike } from '@/lib/redis';
+import { resolveStoreBackend } from '@/lib/stores';
+
+export type RateLimitAlgorithm = 'sliding_window' | 'token_bucket' | 'gcra';
+
+export interface RateLimitPolicy {
+  algorithm: RateLimitAlgorithm;
+  /** Requests allowed per window (bucket capacity / burst size for token_bucket and gcra) */
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  /** Epoch ms when the key is back to its full allowance */
+  resetAt: number;
+  /** Ms until the next request would be allowed, 0 when this one was */
+  retryAfterMs: number;
+}
+
+export interface RateLimitStore {
+  readonly kind: 'memory' | 'redis';
+  /** Count one request against `key` and decide whether it may proceed */
+  consume(key: string, policy: RateLimitPolicy, now?: number): Promise<RateLimitDecision>;
+  reset(key: string): Promise<void>;
+  /** Drop every key the predicate matches, returns how many were dropped */
+  resetWhere(match: (key: string) => boolean): Promise<number>;
+  stats(): Promise<{ totalKeys: number }>;
+}
+
+const ALGORITHMS: RateLimitAlgorithm[] = ['sliding_window', 'token_bucket', 'gcra'];
+
+interface Transition<S> {
+  state: S;
+  decision: RateLimitDecision;
+  /** When the state can be forgotten without changing any future decision */
+  expiresAt: number;
+}
+
+/**
+ * Exact sliding window over request timestamps. Rejected requests are not recorded
+ */
+function slidingWindow(hits: number[] | undefined, policy: RateLimitPolicy, now: number): Transition<number[]> {
+  const { limit, windowMs } = policy;
+  const live = (hits || []).filter(timestamp => timestamp > now - windowMs);
+
+  if (live.length >= limit) {
+    const resetAt = live[live.length - 1] + windowMs;
+    return {
+      state: live,
+      decision: {
+        allowed: false,
+        remaining: 0,
+        resetAt,
+        retryAfterMs: live[live.length - limit] + windowMs - now,
+      },
+      expiresAt: resetAt,
+    };
+  }
+
+  live.push(now);
+  return {
+    state: live,
+    decision: { allowed: true, remaining: limit - live.length, resetAt: now + windowMs, retryAfterMs: 0 },
+    expiresAt: now + windowMs,
+  };
+}
+
+/**
+ * Bucket of `limit` tokens refilled evenly over the window; allows bursts up to the capacity
+ */
+function tokenBucket(
+  bucket: { tokens: number; updatedAt: number } | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): Transition<{ tokens: number; updatedAt: number }> {
+  const { limit, windowMs } = policy;
+  const rate = limit / windowMs;
+  let tokens = bucket ? Math.min(limit, bucket.tokens + Math.max(0, now - bucket.updatedAt) * rate) : limit;
+
+  const allowed = tokens >= 1;
+  if (allowed) tokens -= 1;
+
+  const resetAt = Math.ceil(now + (limit - tokens) / rate);
+  return {
+    state: { tokens, updatedAt: now },
+    decision: {
+      allowed,
+      remaining: Math.floor(tokens),
+      resetAt,
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / rate),
+    },
+    expiresAt: resetAt,
+  };
+}
+
+/**
+ * Generic cell rate algorithm: one theoretical arrival time per key, requests spaced
+ * windowMs / limit apart with a burst allowance of the whole window
+ */
+function gcra(tat: number | undefined, policy: RateLimitPolicy, now: number): Transition<number> {
+  const { limit, windowMs } = policy;
+  const interval = windowMs / limit;
+  const arrival = Math.max(tat || now, now);
+
+  if (arrival - now > windowMs - interval) {
+    return {
+      state: arrival,
+      decision: {
+        allowed: false,
+        remaining: 0,
+        resetAt: Math.ceil(arrival),
+        retryAfterMs: Math.ceil(arrival - now - (windowMs - interval)),
+      },
+      expiresAt: arrival,
+    };
+  }
+
+  const next = arrival + interval;
+  return {
+    state: next,
+    decision: {
+      allowed: true,
+      remaining: Math.floor((windowMs - (next - now)) / interval),
+      resetAt: Math.ceil(next),
+      retryAfterMs: 0,
+    },
+    expiresAt: next,
+  };
+}
+
+function transition(state: unknown, policy: RateLimitPolicy, now: number): Transition<unknown> {
+  switch (policy.algorithm) {
+    case 'token_bucket':
+      return tokenBucket(state as { tokens: number; updatedAt: number } | undefined, policy, now);
+    case 'gcra':
+      return gcra(state as number | undefined, policy, now);
+    default:
+      return slidingWindow(state as number[] | undefined, policy, now);
+  }
+}
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Per-process store. Edge middleware and Node routes each get their own copy, so use Redis
+ * when both need to see the same counts
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly kind = 'memory' as const;
+  private entries = new Map<string, { key: string; state: unknown; expiresAt: number }>();
+  private lastSweep = Date.now();
+
+  // No timers: Edge isolates don't keep them alive, so expired entries are swept on access
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+
+    const expired: string[] = [];
+    this.entries.forEach((entry, id) => {
+      if (entry.expiresAt <= now) expired.push(id);
+    });
+    expired.forEach(id => this.entries.delete(id));
+  }
+
+  async consume(key: string, policy: RateLimitPolicy, now = Date.now()) {
+    this.sweep(now);
+
+    const id = `${policy.algorithm}:${key}`;
+    const current = this.entries.get(id);
+    const result = transition(current && current.expiresAt > now ? current.state : undefined, policy, now);
+
+    this.entries.set(id, { key, state: result.state, expiresAt: result.expiresAt });
+    return result.decision;
+  }
+
+  async reset(key: string) {
+    ALGORITHMS.forEach(algorithm => this.entries.delete(`${algorithm}:${key}`));
+  }
+
+  async resetWhere(match: (key: string) => boolean) {
+    const matched: string[] = [];
+    this.entries.forEach((entry, id) => {
+      if (match(entry.key)) matched.push(id);
+    });
+    matched.forEach(id => this.entries.delete(id));
+    return matched.length;
+  }
+
+  async stats() {
+    this.sweep(Date.now());
+    return { totalKeys: this.entries.size };
+  }
+}
+
+// Each script mirrors the matching function above and returns {allowed, remaining, resetAt, retryAfterMs}.
+// KEYS[1] = key, ARGV = now, windowMs, limit[, member]
+const REDIS_SCRIPTS: Record<RateLimitAlgorithm, string> = {
+  sliding_window: `
+local now, window, limit = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+if count >= limit then
+  local first = redis.call('ZRANGE', KEYS[1], count - limit, count - limit, 'WITHSCORES')
+  local last = redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')
+  return {0, 0, tonumber(last[2]) + window, tonumber(first[2]) + window - now}
+end
+redis.call('ZADD', KEYS[1], now, ARGV[4])
+redis.call('PEXPIRE', KEYS[1], window)
+return {1, limit - count - 1, now + window, 0}
+`,
+  token_bucket: `
+local now, window, limit = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+local rate = limit / window
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = limit
+if bucket[1] then
+  tokens = math.min(limit, tonumber(bucket[1]) + math.max(0, now - tonumber(bucket[2])) * rate)
+end
+local allowed, retry = 0, 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+else
+  retry = math.ceil((1 - tokens) / rate)
+end
+local resetAt = math.ceil(now + (limit - tokens) / rate)
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.max(1, resetAt - now))
+return {allowed, math.floor(tokens), resetAt, retry}
+`,
+  gcra: `
+local now, window, limit = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+local interval = window / limit
+local tat = math.max(tonumber(redis.call('GET', KEYS[1])) or now, now)
+if tat - now > window - interval then
+  return {0, 0, math.ceil(tat), math.ceil(tat - now - (window - interval))}
+end
+local nextTat = tat + interval
+redis.call('SET', KEYS[1], tostring(nextTat), 'PX', math.max(1, math.ceil(nextTat - now)))
+return {1, math.floor((window - (nextTat - now)) / interval), math.ceil(nextTat), 0}
+`,
+};
+
+/**
+ * Redis-backed store; each decision is one atomic EVAL. While Redis is unreachable requests are
+ * counted in memory instead, so an outage degrades to per-instance limits rather than blocking traffic
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly kind = 'redis' as const;
+
+  constructor(
+    private readonly redis: RedisLike,
+    private readonly fallback: RateLimitStore = new MemoryRateLimitStore(),
+    private readonly prefix = 'ratelimit:'
+  ) {}
+
+  private redisKey(algorithm: RateLimitAlgorithm, key: string) {
+    return `${this.prefix}${algorithm}:${key}`;
+  }
+
+  private async scanKeys(): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, page] = await this.redis.command<[string, string[]]>([
+        'SCAN', cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 500,
+      ]);
+      keys.push(...page);
+      cursor = next;
+    } while (cursor !== '0');
+    return keys;
+  }
+
+  async consume(key: string, policy: RateLimitPolicy, now = Date.now()) {
+    try {
+      const [allowed, remaining, resetAt, retryAfterMs] = await this.redis.command<number[]>([
+        'EVAL',
+        REDIS_SCRIPTS[policy.algorithm],
+        1,
+        this.redisKey(policy.algorithm, key),
+        now,
+        policy.windowMs,
+        policy.limit,
+        `${now}:${crypto.randomUUID()}`,
+      ]);
+      return { allowed: allowed === 1, remaining, resetAt, retryAfterMs };
+    } catch (error) {
+      console.error('Rate limit store unavailable, counting in memory:', error);
+      return this.fallback.consume(key, policy, now);
+    }
+  }
+
+  async reset(key: string) {
+    await this.redis.command(['DEL', ...ALGORITHMS.map(algorithm => this.redisKey(algorithm, key))]);
+    await this.fallback.reset(key);
+  }
+
+  async resetWhere(match: (key: string) => boolean) {
+    const matched = (await this.scanKeys()).filter(redisKey => {
+      const logical = redisKey.slice(this.prefix.length).replace(/^[a-z_]+:/, '');
+      return match(logical);
+    });
+
+    // Delete in batches to keep each command small
+    for (let i = 0; i < matched.length; i += 100) {
+      await this.redis.command(['DEL', ...matched.slice(i, i + 100)]);
+    }
+    await this.fallback.resetWhere(match);
+    return matched.length;
+  }
+
+  async stats() {
+    return { totalKeys: (await this.scanKeys()).length };
+  }
+}
+
+/**
+ * Resolve the configured rate limit store
+ * RATE_LIMIT_STORE=redis|memory (default: redis when configured, otherwise memory). Memory is
+ * accepted in production so the site stays up without Redis, but then every instance and runtime
+ * (Edge middleware and each Node function) counts separately and the limits are per instance
+ */
+export function createRateLimitStore(): RateLimitStore {
+  const backend = resolveStoreBackend({
+    name: 'rate-limit',
+    envVar: 'RATE_LIMIT_STORE',
+    allowMemoryInProduction: 'limits are per instance; set UPSTASH_REDIS_REST_URL to share counters',
+  });
+  return backend.kind === 'redis' ? new RedisRateLimitStore(backend.redis) : new MemoryRateLimitStore();
+}
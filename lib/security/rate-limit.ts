@@ -1,15 +1,20 @@
 /**
  * Production-Grade Rate Limiting System
- * Implements sliding window rate limiting with Redis-like in-memory store
+ * Per-route policies on top of the rate limit engine (sliding window, token bucket or GCRA,
+ * memory or Redis store). Safe to import from Edge middleware as well as Node routes
  */
 
 import { NextRequest } from 'next/server';
 import { securityLogger } from './logging';
 import { recordRateLimitAttempt } from './rate-limit-monitor';
+import { createRateLimitStore, type RateLimitAlgorithm, type RateLimitStore } from './rate-limit-engine';
+
+export type { RateLimitAlgorithm, RateLimitStore } from './rate-limit-engine';
 
 export interface RateLimitConfig {
   windowMs: number; // Time window in milliseconds
   maxRequests: number; // Maximum requests per window
+  algorithm?: RateLimitAlgorithm; // Defaults to sliding_window
   skipSuccessfulRequests?: boolean; // Don't count successful requests
   skipFailedRequests?: boolean; // Don't count failed requests
   keyGenerator?: (request: NextRequest) => string; // Custom key generator
@@ -26,140 +31,19 @@ export interface RateLimitResult {
   retryAfter?: number; // Seconds until next request allowed
 }
 
-export interface RateLimitStore {
-  key: string;
-  requests: number[];
-  resetTime: number;
-}
-
 /**
- * In-memory rate limit store (Redis-like functionality)
+ * Shared store, kept on globalThis so hot reloads and every route in the process reuse it
  */
-class RateLimitMemoryStore {
-  private store = new Map<string, RateLimitStore>();
-  private cleanupInterval: NodeJS.Timeout;
-
-  constructor() {
-    // Clean up expired entries every 5 minutes
-    this.cleanupInterval = setInterval(() => {
-      this.cleanup();
-    }, 5 * 60 * 1000);
-  }
-
-  /**
-   * Get current request count for a key
-   */
-  get(key: string, windowMs: number): RateLimitStore {
-    const now = Date.now();
-    const windowStart = now - windowMs;
-    
-    let store = this.store.get(key);
-    
-    if (!store) {
-      store = {
-        key,
-        requests: [],
-        resetTime: now + windowMs
-      };
-      this.store.set(key, store);
-    }
-
-    // Remove requests outside the current window (sliding window)
-    store.requests = store.requests.filter(timestamp => timestamp > windowStart);
-    
-    return store;
-  }
-
-  /**
-   * Increment request count for a key
-   */
-  increment(key: string, windowMs: number): RateLimitStore {
-    const store = this.get(key, windowMs);
-    const now = Date.now();
-    
-    store.requests.push(now);
-    store.resetTime = Math.max(store.resetTime, now + windowMs);
-    
-    this.store.set(key, store);
-    return store;
-  }
-
-  /**
-   * Reset rate limit for a key
-   */
-  reset(key: string): void {
-    this.store.delete(key);
-  }
-
-  /**
-   * Clean up expired entries
-   */
-  private cleanup(): void {
-    const now = Date.now();
-    const keysToDelete: string[] = [];
-    
-    this.store.forEach((store, key) => {
-      if (store.resetTime < now && store.requests.length === 0) {
-        keysToDelete.push(key);
-      }
-    });
-    
-    keysToDelete.forEach(key => {
-      this.store.delete(key);
-    });
-  }
-
-  /**
-   * Get store statistics
-   */
-  getStats(): { totalKeys: number; totalRequests: number } {
-    let totalRequests = 0;
-    
-    this.store.forEach((store) => {
-      totalRequests += store.requests.length;
-    });
-
-    return {
-      totalKeys: this.store.size,
-      totalRequests
-    };
-  }
-
-  /**
-   * Reset all rate limits (admin function)
-   */
-  resetAll(): void {
-    this.store.clear();
-  }
-
-  /**
-   * Cleanup rate limit store (for testing or shutdown)
-   */
-  destroy(): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-    }
-    this.store.clear();
-  }
-}
-
-/**
- * Global rate limit store instance with singleton pattern
- * This ensures the same instance is used across middleware and API routes
- */
-const getRateLimitStore = (): RateLimitMemoryStore => {
+const getRateLimitStore = (): RateLimitStore => {
   const globalKey = '__rateLimitStore';
-  
+
   if (!(globalThis as any)[globalKey]) {
-    console.log('🔄 STORE: Creating new rate limit store instance');
-    (globalThis as any)[globalKey] = new RateLimitMemoryStore();
+    (globalThis as any)[globalKey] = createRateLimitStore();
   }
-  
+
   return (globalThis as any)[globalKey];
 };
 
-const rateLimitStore = getRateLimitStore();
-
 /**
  * Default rate limit configurations for different endpoints
  */
@@ -168,6 +52,7 @@ export const DEFAULT_RATE_LIMITS: Record<string, RateLimitConfig> = {
   api: {
     windowMs: 15 * 60 * 1000, // 15 minutes
     maxRequests: 100, // 100 requests per 15 minutes
+    algorithm: 'gcra', // Spreads the allowance evenly instead of resetting in one go
     message: 'Too many API requests, please try again later.'
   },
   
@@ -175,6 +60,7 @@ export const DEFAULT_RATE_LIMITS: Record<string, RateLimitConfig> = {
   admin: {
     windowMs: 1 * 60 * 1000, // 1 minute
     maxRequests: 100, // 100 requests per minute (very generous for testing)
+    algorithm: 'token_bucket',
     message: 'Too many admin requests, please try again later.'
   },
   
@@ -182,6 +68,7 @@ export const DEFAULT_RATE_LIMITS: Record<string, RateLimitConfig> = {
   nextauth: {
     windowMs: 5 * 60 * 1000, // 5 minutes
     maxRequests: 20, // 20 requests per 5 minutes (allows for auth flow complexity)
+    algorithm: 'token_bucket', // Sign-in bursts several calls at once
     message: 'Authentication service temporarily unavailable, please try again in a few minutes.'
   },
   
@@ -189,6 +76,7 @@ export const DEFAULT_RATE_LIMITS: Record<string, RateLimitConfig> = {
   auth_login: {
     windowMs: 15 * 60 * 1000, // 15 minutes
     maxRequests: 5, // 5 login attempts per 15 minutes
+    algorithm: 'sliding_window',
     message: 'Too many login attempts, please try again later.'
   },
   
@@ -196,13 +84,15 @@ export const DEFAULT_RATE_LIMITS: Record<string, RateLimitConfig> = {
   contact: {
     windowMs: 60 * 60 * 1000, // 1 hour
     maxRequests: 3, // 3 submissions per hour
+    algorithm: 'sliding_window',
     message: 'Too many form submissions, please try again later.'
   },
   
   // General pages - generous limits
   general: {
     windowMs: 1 * 60 * 1000, // 1 minute
-    maxRequests: 60, // 60 requests per minute
+    maxRequests: Number(process.env.RATE_PER_MIN || 60), // 60 requests per minute
+    algorithm: 'token_bucket', // A page load fetches several assets at once
     message: 'Too many requests, please slow down.'
   },
   
@@ -210,7 +100,33 @@ export const DEFAULT_RATE_LIMITS: Record<string, RateLimitConfig> = {
   upload: {
     windowMs: 60 * 60 * 1000, // 1 hour
     maxRequests: 10, // 10 uploads per hour
+    algorithm: 'sliding_window',
     message: 'Too many file uploads, please try again later.'
+  },
+
+  // Site search is queried as the visitor types
+  search: {
+    windowMs: 1 * 60 * 1000, // 1 minute
+    maxRequests: 60,
+    algorithm: 'token_bucket',
+    message: 'Too many search requests, please slow down.'
+  },
+
+  // Confirmation and preference links from newsletter emails; the signed token in the link is the
+  // credential, so this only has to keep a link from being hammered
+  newsletter_link: {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 30, // loading preferences, a few saves and an unsubscribe
+    algorithm: 'token_bucket',
+    message: 'Too many newsletter requests, please try again later.'
+  },
+
+  // Chunks, status and completion of an upload already counted against `upload` at init
+  upload_chunk: {
+    windowMs: 1 * 60 * 1000, // 1 minute
+    maxRequests: 120, // a 100MB file is 25 chunks of 4MB
+    algorithm: 'token_bucket',
+    message: 'Too many upload requests, please slow down.'
   }
 };
 
@@ -277,11 +193,11 @@ function isWhitelisted(ip: string, whitelist?: string[]): boolean {
 /**
  * Apply rate limiting to a request
  */
-export function applyRateLimit(
+export async function applyRateLimit(
   request: NextRequest,
   config: RateLimitConfig,
   keyPrefix?: string
-): RateLimitResult {
+): Promise<RateLimitResult> {
   const key = config.keyGenerator 
     ? config.keyGenerator(request)
     : generateRateLimitKey(request, keyPrefix);
@@ -299,63 +215,57 @@ export function applyRateLimit(
     };
   }
 
-  // Get current state
-  const store = rateLimitStore.get(key, config.windowMs);
-  const currentRequests = store.requests.length;
+  const decision = await getRateLimitStore().consume(key, {
+    algorithm: config.algorithm || 'sliding_window',
+    limit: config.maxRequests,
+    windowMs: config.windowMs
+  });
   
-  // Check if limit exceeded
-  if (currentRequests >= config.maxRequests) {
+  // Record monitoring data for the attempt
+  recordRateLimitAttempt(
+    ip,
+    request.url,
+    !decision.allowed,
+    request.headers.get('user-agent') || undefined,
+    config.maxRequests,
+    config.maxRequests - decision.remaining
+  );
+
+  if (!decision.allowed) {
     // Log rate limit violation
     securityLogger.logRateLimitViolation(ip, request.url, config.maxRequests, request);
     
-    // Record monitoring data for violation
-    recordRateLimitAttempt(
-      ip,
-      request.url,
-      true, // isViolation
-      request.headers.get('user-agent') || undefined,
-      config.maxRequests,
-      currentRequests + 1
-    );
-    
     // Call callback if provided
     if (config.onLimitReached) {
       config.onLimitReached(key, request);
     }
     
-    const resetTime = new Date(store.resetTime);
-    const retryAfter = Math.ceil((store.resetTime - Date.now()) / 1000);
-    
     return {
       allowed: false,
       limit: config.maxRequests,
       remaining: 0,
-      resetTime,
-      retryAfter: Math.max(retryAfter, 1)
+      resetTime: new Date(decision.resetAt),
+      retryAfter: Math.max(Math.ceil(decision.retryAfterMs / 1000), 1)
     };
   }
-
-  // Increment counter
-  const updatedStore = rateLimitStore.increment(key, config.windowMs);
-  
-  // Record monitoring data for successful request
-  recordRateLimitAttempt(
-    ip,
-    request.url,
-    false, // not a violation
-    request.headers.get('user-agent') || undefined,
-    config.maxRequests,
-    updatedStore.requests.length
-  );
   
   return {
     allowed: true,
     limit: config.maxRequests,
-    remaining: Math.max(0, config.maxRequests - updatedStore.requests.length),
-    resetTime: new Date(updatedStore.resetTime)
+    remaining: decision.remaining,
+    resetTime: new Date(decision.resetAt)
   };
 }
 
+// POST routes that submit a public form
+const FORM_SUBMISSION_ROUTES = new Set(['/api/contact', '/api/consultation', '/api/newsletter']);
+
+// POST routes that start an upload
+const UPLOAD_ROUTES = new Set(['/api/files', '/api/uploads']);
+
+// Routes opened from the links in newsletter emails, any method
+const NEWSLETTER_LINK_ROUTES = new Set(['/api/newsletter/confirm', '/api/newsletter/preferences']);
+
 /**
  * Get rate limit configuration for a specific endpoint
  */
@@ -394,13 +304,28 @@ export function getRateLimitConfig(request: NextRequest): { config: RateLimitCon
     return { config: DEFAULT_RATE_LIMITS.nextauth, type: 'auth_pages' };
   }
   
-  // Contact/form endpoints
-  if (pathname.includes('/contact') || pathname.includes('/consultation') || pathname.includes('/newsletter')) {
+  // Form and upload policies are per route and method: only the request that submits the form or
+  // starts the upload spends those small allowances, reads of the same path fall through to api
+  if (method === 'POST' && FORM_SUBMISSION_ROUTES.has(pathname)) {
     return { config: DEFAULT_RATE_LIMITS.contact, type: 'contact' };
   }
   
+  if (NEWSLETTER_LINK_ROUTES.has(pathname)) {
+    return { config: DEFAULT_RATE_LIMITS.newsletter_link, type: 'newsletter_link' };
+  }
+
+  // Search-as-you-type
+  if (pathname === '/api/search') {
+    return { config: DEFAULT_RATE_LIMITS.search, type: 'search' };
+  }
+
+  // Follow-up requests of a chunked upload (/api/uploads/{id}/...)
+  if (pathname.startsWith('/api/uploads/')) {
+    return { config: DEFAULT_RATE_LIMITS.upload_chunk, type: 'upload_chunk' };
+  }
+
   // File upload endpoints
-  if (pathname.includes('/upload') || pathname.includes('/files')) {
+  if (method === 'POST' && UPLOAD_ROUTES.has(pathname)) {
     return { config: DEFAULT_RATE_LIMITS.upload, type: 'upload' };
   }
   
@@ -433,28 +358,19 @@ export function createRateLimitHeaders(result: RateLimitResult): Record<string,
 /**
  * Reset rate limit for a specific key (admin function)
  */
-export function resetRateLimit(key: string): void {
-  rateLimitStore.reset(key);
+export async function resetRateLimit(key: string): Promise<void> {
+  await getRateLimitStore().reset(key);
 }
 
 /**
  * Reset rate limits for authentication-related keys (system recovery)
  */
-export function resetAuthRateLimits(): void {
-  const store = (rateLimitStore as any).store as Map<string, RateLimitStore>;
-  const keysToReset: string[] = [];
-  
-  store.forEach((_, key) => {
-    if (key.includes('nextauth') || key.includes('auth_login') || key.includes('auth_pages')) {
-      keysToReset.push(key);
-    }
-  });
-  
-  keysToReset.forEach(key => {
-    rateLimitStore.reset(key);
-  });
+export async function resetAuthRateLimits(): Promise<void> {
+  const resetCount = await getRateLimitStore().resetWhere(key =>
+    key.includes('nextauth') || key.includes('auth_login') || key.includes('auth_pages')
+  );
   
-  console.log(`🔄 Reset ${keysToReset.length} authentication rate limit keys for system recovery`);
+  console.log(`🔄 Reset ${resetCount} authentication rate limit keys for system recovery`);
 }
 
 /**
@@ -478,27 +394,16 @@ export function shouldBypassRateLimit(request: NextRequest, errorContext?: strin
 /**
  * Get rate limit store statistics
  */
-export function getRateLimitStats(): { totalKeys: number; totalRequests: number } {
-  return rateLimitStore.getStats();
+export async function getRateLimitStats(): Promise<{ store: RateLimitStore['kind']; totalKeys: number }> {
+  const store = getRateLimitStore();
+  return { store: store.kind, ...(await store.stats()) };
 }
 
 /**
  * Reset all rate limits (admin function)
  */
-export function resetAllRateLimits(): void {
-  console.log('🔄 RESET: Calling resetAllRateLimits()');
-  const statsBefore = rateLimitStore.getStats();
-  console.log('🔄 RESET: Stats before reset:', statsBefore);
-  
-  (rateLimitStore as any).resetAll();
-  
-  const statsAfter = rateLimitStore.getStats();
-  console.log('🔄 RESET: Stats after reset:', statsAfter);
-}
-
-/**
- * Cleanup rate limit store (for testing or shutdown)
- */
-export function cleanupRateLimitStore(): void {
-  rateLimitStore.destroy();
+export async function resetAllRateLimits(): Promise<number> {
+  const resetCount = await getRateLimitStore().resetWhere(() => true);
+  console.log(`🔄 RESET: Cleared ${resetCount} rate limit keys`);
+  return resetCount;
 }
@@ -0,0 +1,105 @@
+/**
+ * Store Backends
+ * Decides where a module keeps its state: Redis (Upstash/Vercel KV REST), a directory on disk, or
+ * process memory. Every store factory resolves its backend here so the production rules live in one
+ * place:
+ *
+ * - memory is refused in production: it is lost on restart and invisible to other instances
+ * - files are refused in production on serverless hosts, where the only writable directory is a
+ *   per-instance /tmp that is wiped on cold start
+ * - without an explicit choice, Redis is used when configured, otherwise files (or memory for stores
+ *   without a file backend) outside production
+ *
+ * Factories are called on first use, so a misconfigured store fails the requests that need it with a
+ * StoreConfigurationError instead of crashing every route that imports the module.
+ *
+ * No Node.js-only imports: the rate limiter and admin sessions resolve their stores in middleware
+ */
+
+import { createRedisRestClient, getRedisRestConfig, type RedisLike } from '@/lib/redis';
+
+export type StoreBackendKind = 'memory' | 'file' | 'redis';
+
+export type StoreBackend =
+  | { kind: 'memory' }
+  | { kind: 'file'; dir: string }
+  | { kind: 'redis'; redis: RedisLike };
+
+export interface StoreBackendOptions {
+  /** Names the store in errors and its default directory (.data/<name>) */
+  name: string;
+  /** Env var selecting the backend, e.g. OUTBOX_STORE */
+  envVar: string;
+  /** Env var overriding the directory; stores without one have no file backend */
+  dirEnvVar?: string;
+  /**
+   * Accept memory in production, for state that only needs to be approximately right (rate limit
+   * counters). The reason is logged once so the trade-off is visible
+   */
+  allowMemoryInProduction?: string;
+}
+
+export class StoreConfigurationError extends Error {
+  constructor(public readonly store: string, message: string) {
+    super(`${store}:store_misconfigured - ${message}`);
+    this.name = 'StoreConfigurationError';
+  }
+}
+
+const REDIS_HINT = 'set UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN (or KV_REST_API_URL and KV_REST_API_TOKEN)';
+
+export function requiresDurableStores(): boolean {
+  return process.env.NODE_ENV === 'production';
+}
+
+/** Hosts whose filesystem is per instance and discarded between invocations */
+export function isServerlessHost(): boolean {
+  return !!(process.env.VERCEL || process.env.AWS_LAMBDA_FUNCTION_NAME || process.env.NETLIFY);
+}
+
+const warned = new Set<string>();
+
+export function resolveStoreBackend(options: StoreBackendOptions): StoreBackend {
+  const redisConfig = getRedisRestConfig();
+  const production = requiresDurableStores();
+  const fileAllowed = !!options.dirEnvVar && !(production && isServerlessHost());
+  const memoryAllowed = !production || !!options.allowMemoryInProduction;
+  const requested = process.env[options.envVar]
+    || (redisConfig ? 'redis' : fileAllowed ? 'file' : memoryAllowed ? 'memory' : 'redis');
+
+  switch (requested) {
+    case 'redis':
+      if (!redisConfig) {
+        throw new StoreConfigurationError(options.name, `no durable store configured: ${REDIS_HINT}`);
+      }
+      return { kind: 'redis', redis: createRedisRestClient(redisConfig) };
+
+    case 'file':
+      if (!options.dirEnvVar) {
+        throw new StoreConfigurationError(options.name, `${options.envVar}=file is not supported, use redis`);
+      }
+      if (!fileAllowed) {
+        throw new StoreConfigurationError(
+          options.name,
+          `${options.envVar}=file on a serverless host keeps data in a per-instance /tmp that is lost on cold start: ${REDIS_HINT}`
+        );
+      }
+      return { kind: 'file', dir: process.env[options.dirEnvVar] || `${process.cwd()}/.data/${options.name}` };
+
+    case 'memory':
+      if (!memoryAllowed) {
+        throw new StoreConfigurationError(
+          options.name,
+          `${options.envVar}=memory is lost on restart and not shared between instances: ${REDIS_HINT}`
+        );
+      }
+      if (production && !warned.has(options.name)) {
+        warned.add(options.name);
+        console.warn(`⚠️ ${options.name}: using per-instance memory in production (${options.allowMemoryInProduction})`);
+      }
+      return { kind: 'memory' };
+
+    default:
+      throw new StoreConfigurationError(options.name, `unknown ${options.envVar} "${requested}"`);
+  }
+}
@@ -9,6 +9,8 @@ export type Tracking = {
   utm_content?: string;
   referrer?: string; 
   page?: string;
+  /** Audience picked on the site (lib/contexts/AudienceContext), used for lead scoring */
+  audience?: 'startup' | 'enterprise';
 };
 
 function uuidv4() {
@@ -51,11 +53,30 @@ export function getTracking(lead_source: Tracking['lead_source']): Tracking {
   sessionStorage.setItem(sidKey, submission_id);
   localStorage.setItem(sidKey, submission_id);
 
+  let audience: Tracking['audience'];
+  try {
+    const selected = JSON.parse(sessionStorage.getItem('audience-selection') || 'null')?.selectedAudience;
+    if (selected === 'startup' || selected === 'enterprise') audience = selected;
+  } catch {
+    // A malformed selection just leaves the audience out
+  }
+
   return { 
     submission_id, 
     lead_source, 
     ...utm, 
     referrer: document.referrer || undefined, 
-    page: window.location.pathname 
+    page: window.location.pathname,
+    audience
   };
 }
+
+/**
+ * Forget the stored submission_id once a submission succeeded, so the next form gets a fresh one.
+ * The API replays the first outcome for a reused id and refuses it for a different payload
+ */
+export function clearSubmissionId() {
+  if (typeof window === 'undefined') return;
+  sessionStorage.removeItem('submission_id');
+  localStorage.removeItem('submission_id');
+}
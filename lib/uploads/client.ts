@@ -0,0 +1,179 @@
+/**
+ * Browser side of the chunked upload protocol (see lib/uploads/index.ts)
+ * Sends a File in checksummed chunks, can be paused and resumed, and picks up an interrupted
+ * upload of the same file after a reload
+ */
+
+import { sha256Hex } from '@/lib/helpers/sign';
+import type { UploadState } from './types';
+
+export type UploadPhase = 'pending' | 'uploading' | 'paused' | 'complete' | 'error';
+
+export interface UploadSnapshot {
+  phase: UploadPhase;
+  uploadedBytes: number;
+  /** 0-100 */
+  progress: number;
+  uploadId?: string;
+  error?: string;
+}
+
+const CHUNK_ATTEMPTS = 3;
+
+function resumeKey(file: File) {
+  return `resumable-upload:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+async function readError(response: Response, fallback: string) {
+  const body = await response.json().catch(() => null);
+  return body?.error || fallback;
+}
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+export class ResumableUpload {
+  private controller: AbortController | null = null;
+  private snapshot: UploadSnapshot = { phase: 'pending', uploadedBytes: 0, progress: 0 };
+
+  constructor(readonly file: File, private readonly onChange: (snapshot: UploadSnapshot) => void) {}
+
+  get state() {
+    return this.snapshot;
+  }
+
+  private update(patch: Partial<UploadSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...patch };
+    this.snapshot.progress = this.file.size
+      ? Math.round((this.snapshot.uploadedBytes / this.file.size) * 100)
+      : 100;
+    this.onChange(this.snapshot);
+  }
+
+  /**
+   * Reuse the session stored for this file if the server still has it, otherwise open a new one
+   */
+  private async session(signal: AbortSignal): Promise<UploadState> {
+    const storedId = this.snapshot.uploadId || localStorage.getItem(resumeKey(this.file));
+    if (storedId) {
+      const response = await fetch(`/api/uploads/${storedId}`, { cache: 'no-store', signal });
+      if (response.ok) return response.json();
+    }
+
+    const response = await fetch('/api/uploads', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ filename: this.file.name, size: this.file.size, type: this.file.type || undefined }),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(await readError(response, 'Could not start the upload'));
+    }
+    const state: UploadState = await response.json();
+    localStorage.setItem(resumeKey(this.file), state.uploadId);
+    return state;
+  }
+
+  private async putChunk(uploadId: string, index: number, chunk: ArrayBuffer, digest: string, signal: AbortSignal) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await fetch(`/api/uploads/${uploadId}/chunks/${index}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/octet-stream', 'x-chunk-sha256': digest },
+          body: chunk,
+          signal,
+        });
+        if (response.ok) return;
+        // Client errors won't get better by resending
+        if (response.status < 500 && response.status !== 429) {
+          throw Object.assign(new Error(await readError(response, 'Chunk rejected')), { permanent: true });
+        }
+        if (attempt >= CHUNK_ATTEMPTS) throw new Error(await readError(response, 'Chunk upload failed'));
+      } catch (error: any) {
+        if (error?.name === 'AbortError' || error?.permanent || attempt >= CHUNK_ATTEMPTS) throw error;
+      }
+      await wait(1000 * 2 ** (attempt - 1), signal);
+    }
+  }
+
+  /**
+   * Upload (or continue uploading) the file. Resolves with the upload id once the server
+   * verified it, or null when paused
+   */
+  async start(): Promise<string | null> {
+    if (this.snapshot.phase === 'uploading') return null;
+    if (this.snapshot.phase === 'complete') return this.snapshot.uploadId || null;
+
+    const controller = new AbortController();
+    this.controller = controller;
+    this.update({ phase: 'uploading', error: undefined });
+
+    try {
+      const state = await this.session(controller.signal);
+      const received = new Set(state.receivedChunks);
+      const digests: string[] = [];
+      let uploadedBytes = 0;
+      this.update({ uploadId: state.uploadId });
+
+      if (state.status !== 'complete') {
+        for (let index = 0; index < state.totalChunks; index++) {
+          const chunk = await this.file
+            .slice(index * state.chunkSize, Math.min(this.file.size, (index + 1) * state.chunkSize))
+            .arrayBuffer();
+          digests[index] = await sha256Hex(chunk);
+
+          if (!received.has(index)) {
+            await this.putChunk(state.uploadId, index, chunk, digests[index], controller.signal);
+          }
+          uploadedBytes += chunk.byteLength;
+          this.update({ uploadedBytes });
+        }
+
+        const response = await fetch(`/api/uploads/${state.uploadId}/complete`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ checksum: await sha256Hex(digests.join('')) }),
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(await readError(response, 'Upload could not be verified'));
+        }
+      }
+
+      localStorage.removeItem(resumeKey(this.file));
+      this.update({ phase: 'complete', uploadedBytes: this.file.size });
+      return state.uploadId;
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        this.update({ phase: 'paused' });
+      } else {
+        this.update({ phase: 'error', error: error?.message || 'Upload failed' });
+      }
+      return null;
+    } finally {
+      if (this.controller === controller) this.controller = null;
+    }
+  }
+
+  pause() {
+    this.controller?.abort();
+  }
+
+  /**
+   * Stop and tell the server to drop what it received
+   */
+  async discard() {
+    this.pause();
+    localStorage.removeItem(resumeKey(this.file));
+    if (this.snapshot.uploadId) {
+      await fetch(`/api/uploads/${this.snapshot.uploadId}`, { method: 'DELETE' }).catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,403 @@
+/**
+ * Resumable Chunked Uploads
+ * init -> PUT each chunk with its sha256 -> complete with the composite checksum. The assembled file
+ * is never buffered whole: it is read back chunk by chunk when the outbox streams it to WorkDrive
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getFileInspector, type FileInspector, type InspectableFile } from '@/lib/security/file-inspection';
+import { createUploadStore } from './stores';
+import type { UploadInit, UploadSession, UploadState, UploadStore } from './types';
+
+export * from './types';
+export { MemoryUploadStore, FileUploadStore, RedisUploadStore, createUploadStore } from './stores';
+
+export const CHUNK_CHECKSUM_HEADER = 'x-chunk-sha256';
+
+export class UploadError extends Error {
+  constructor(public readonly code: string, message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export interface UploadOptions {
+  maxFileBytes: number;
+  defaultChunkBytes: number;
+  minChunkBytes: number;
+  /** Serverless request bodies are capped around 4.5MB */
+  maxChunkBytes: number;
+  /** Incomplete or unclaimed uploads are swept after this */
+  unclaimedTtlMs: number;
+  /** Backstop for uploads attached to a submission the outbox never finished */
+  claimedTtlMs: number;
+}
+
+const MB = 1024 * 1024;
+const HOUR = 60 * 60 * 1000;
+
+const DEFAULT_OPTIONS: UploadOptions = {
+  maxFileBytes: parseInt(process.env.UPLOAD_MAX_MB || '100') * MB,
+  defaultChunkBytes: 4 * MB,
+  minChunkBytes: 256 * 1024,
+  maxChunkBytes: 4 * MB,
+  unclaimedTtlMs: parseInt(process.env.UPLOAD_TTL_HOURS || '24') * HOUR,
+  claimedTtlMs: 30 * 24 * HOUR,
+};
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+/** Chunk writes and claims hold an upload's lock briefly; completion reads back the whole file */
+const LOCK_TTL_MS = 60 * 1000;
+const COMPLETE_LOCK_TTL_MS = 5 * 60 * 1000;
+/** How long a request waits for another request's lock before asking the client to retry */
+const LOCK_WAIT_MS = 10 * 1000;
+const LOCK_POLL_MS = 50;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function sha256(data: Uint8Array | string) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Checksum the client sends on completion: sha256 over the chunk digests joined in order.
+ * Lets the browser checksum a 100MB file without holding it in memory
+ */
+export function compositeChecksum(chunkDigests: string[]) {
+  return sha256(chunkDigests.join(''));
+}
+
+function toState(session: UploadSession): UploadState {
+  const receivedChunks: number[] = [];
+  session.chunks.forEach((digest, index) => {
+    if (digest) receivedChunks.push(index);
+  });
+  return {
+    uploadId: session.id,
+    chunkSize: session.chunkSize,
+    totalChunks: session.totalChunks,
+    receivedChunks,
+    status: session.status,
+    expiresAt: session.expiresAt,
+    inspection: session.inspection,
+  };
+}
+
+export class ChunkedUploads {
+  private readonly options: UploadOptions;
+  private readonly locks = new Map<string, Promise<unknown>>();
+  private lastSweep = 0;
+
+  constructor(
+    private readonly store: UploadStore,
+    options: Partial<UploadOptions> = {},
+    private readonly inspector: FileInspector | null = null
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Serialize session updates per upload so concurrent chunk PUTs don't overwrite each other's digest.
+   * Requests in this process queue up locally; across instances the store lock decides
+   */
+  private async withLock<T>(id: string, task: () => Promise<T>, ttlMs = LOCK_TTL_MS): Promise<T> {
+    const previous = this.locks.get(id) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(() => this.withStoreLock(id, task, ttlMs));
+    this.locks.set(id, next);
+    try {
+      return await next;
+    } finally {
+      if (this.locks.get(id) === next) this.locks.delete(id);
+    }
+  }
+
+  private async withStoreLock<T>(id: string, task: () => Promise<T>, ttlMs: number): Promise<T> {
+    const deadline = Date.now() + LOCK_WAIT_MS;
+    let release = await this.store.acquireLock(id, ttlMs);
+    while (!release) {
+      if (Date.now() >= deadline) {
+        throw new UploadError('upload_busy', 'The upload is being updated by another request, please retry', 503);
+      }
+      await sleep(LOCK_POLL_MS);
+      release = await this.store.acquireLock(id, ttlMs);
+    }
+
+    try {
+      return await task();
+    } finally {
+      await release().catch(error => console.error(`❌ Failed to release the lock on upload ${id}:`, error));
+    }
+  }
+
+  private async load(id: string): Promise<UploadSession> {
+    const session = /^[a-f0-9]{32}$/.test(id) ? await this.store.get(id) : null;
+    if (!session || session.expiresAt <= Date.now()) {
+      throw new UploadError('not_found', 'Upload not found or expired', 404);
+    }
+    return session;
+  }
+
+  private expectedChunkLength(session: UploadSession, index: number) {
+    return index === session.totalChunks - 1
+      ? session.size - session.chunkSize * (session.totalChunks - 1)
+      : session.chunkSize;
+  }
+
+  async init(input: UploadInit): Promise<UploadState> {
+    await this.sweep();
+
+    if (input.size <= 0 || input.size > this.options.maxFileBytes) {
+      throw new UploadError('file_too_large', `Files must be between 1 byte and ${this.options.maxFileBytes / MB}MB`);
+    }
+
+    const requested = input.chunkSize || this.options.defaultChunkBytes;
+    const chunkSize = Math.min(Math.max(requested, this.options.minChunkBytes), this.options.maxChunkBytes);
+    const totalChunks = Math.ceil(input.size / chunkSize);
+    const now = Date.now();
+
+    const session: UploadSession = {
+      id: randomBytes(16).toString('hex'),
+      filename: input.filename.replace(/[\\/\r\n]/g, '_'),
+      size: input.size,
+      type: input.type || undefined,
+      chunkSize,
+      totalChunks,
+      chunks: new Array(totalChunks).fill(null),
+      status: 'uploading',
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: now + this.options.unclaimedTtlMs,
+    };
+
+    await this.store.put(session);
+    return toState(session);
+  }
+
+  async state(id: string): Promise<UploadState> {
+    return toState(await this.load(id));
+  }
+
+  /**
+   * Full session (filename, size, sha256, inspection) for server-side consumers of an upload
+   */
+  async get(id: string): Promise<UploadSession> {
+    return this.load(id);
+  }
+
+  /**
+   * Store one chunk after checking its length and digest. Re-sending a chunk replaces it
+   */
+  async writeChunk(id: string, index: number, data: Uint8Array, digest: string): Promise<UploadState> {
+    return this.withLock(id, async () => {
+      const session = await this.load(id);
+      if (session.status === 'complete') {
+        throw new UploadError('already_complete', 'Upload is already complete', 409);
+      }
+      if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+        throw new UploadError('chunk_out_of_range', `Chunk index must be between 0 and ${session.totalChunks - 1}`);
+      }
+      if (data.byteLength !== this.expectedChunkLength(session, index)) {
+        throw new UploadError('chunk_size_mismatch', `Chunk ${index} must be ${this.expectedChunkLength(session, index)} bytes`);
+      }
+
+      const actual = sha256(data);
+      if (actual !== digest.toLowerCase()) {
+        throw new UploadError('checksum_mismatch', `Chunk ${index} failed its checksum`, 422);
+      }
+
+      await this.store.writeChunk(id, index, data);
+      session.chunks[index] = actual;
+      session.updatedAt = Date.now();
+      await this.store.put(session);
+      return toState(session);
+    });
+  }
+
+  /**
+   * Re-read every chunk, verify it against its stored digest and the client's composite checksum,
+   * and record the whole-file sha256. Completing twice returns the same state
+   */
+  async complete(id: string, checksum: string): Promise<UploadState & { sha256: string; size: number }> {
+    return this.withLock(id, async () => {
+      const session = await this.load(id);
+      if (session.status === 'complete' && session.sha256) {
+        return { ...toState(session), sha256: session.sha256, size: session.size };
+      }
+
+      const missing = session.chunks
+        .map((digest, index) => (digest ? -1 : index))
+        .filter(index => index >= 0);
+      if (missing.length > 0) {
+        throw new UploadError('incomplete', `Missing chunks: ${missing.slice(0, 20).join(', ')}`, 409);
+      }
+
+      const digests = session.chunks as string[];
+      if (compositeChecksum(digests) !== checksum.toLowerCase()) {
+        throw new UploadError('checksum_mismatch', 'File checksum does not match the uploaded chunks', 422);
+      }
+
+      const whole = createHash('sha256');
+      for (let index = 0; index < session.totalChunks; index++) {
+        const data = await this.store.readChunk(id, index);
+        if (sha256(data) !== digests[index]) {
+          // Chunk changed on disk since it was accepted; the client resends it
+          session.chunks[index] = null;
+          await this.store.put(session);
+          throw new UploadError('chunk_corrupt', `Chunk ${index} is corrupt, please resend it`, 409);
+        }
+        whole.update(data);
+      }
+
+      // Content checks run before the upload becomes claimable; a rejected file is dropped outright
+      if (this.inspector) {
+        const inspection = await this.inspector.inspect(this.inspectable(session));
+        if (inspection.verdict === 'rejected') {
+          await this.store.remove(id);
+          throw new UploadError('file_rejected', `${session.filename} was rejected: ${inspection.reasons.join(', ')}`, 422);
+        }
+        session.inspection = inspection;
+      }
+
+      const now = Date.now();
+      session.status = 'complete';
+      session.sha256 = whole.digest('hex');
+      session.updatedAt = now;
+      session.expiresAt = now + this.options.unclaimedTtlMs;
+      await this.store.put(session);
+
+      return { ...toState(session), sha256: session.sha256, size: session.size };
+    }, COMPLETE_LOCK_TTL_MS);
+  }
+
+  /**
+   * Attach completed uploads to a submission so they survive until the outbox has sent them
+   */
+  async claim(ids: string[], submissionId: string): Promise<UploadSession[]> {
+    const sessions: UploadSession[] = [];
+    for (const id of ids) {
+      const session = await this.withLock(id, async () => {
+        const current = await this.load(id);
+        if (current.status !== 'complete') {
+          throw new UploadError('not_complete', `Upload ${current.filename} has not finished`, 409);
+        }
+        if (current.inspection?.verdict === 'rejected') {
+          throw new UploadError('file_rejected', `Upload ${current.filename} failed inspection`, 422);
+        }
+        if (current.submissionId && current.submissionId !== submissionId) {
+          throw new UploadError('already_attached', `Upload ${current.filename} belongs to another submission`, 409);
+        }
+        current.submissionId = submissionId;
+        current.expiresAt = Date.now() + this.options.claimedTtlMs;
+        await this.store.put(current);
+        return current;
+      });
+      sessions.push(session);
+    }
+    return sessions;
+  }
+
+  /**
+   * Read the assembled file chunk by chunk
+   */
+  stream(id: string): ReadableStream<Uint8Array> {
+    let index = 0;
+    let total = -1;
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        if (total < 0) {
+          const session = await this.load(id);
+          if (session.status !== 'complete') {
+            throw new UploadError('not_complete', 'Upload has not finished', 409);
+          }
+          total = session.totalChunks;
+        }
+        if (index >= total) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(await this.store.readChunk(id, index));
+        index++;
+      },
+    });
+  }
+
+  /**
+   * Byte range [start, end) of the assembled file, read from the chunks that cover it
+   */
+  async read(session: UploadSession, start: number, end: number): Promise<Uint8Array> {
+    const from = Math.max(0, start);
+    const to = Math.min(end, session.size);
+    if (to <= from) return new Uint8Array(0);
+
+    const result = new Uint8Array(to - from);
+    const first = Math.floor(from / session.chunkSize);
+    const last = Math.floor((to - 1) / session.chunkSize);
+    for (let index = first; index <= last; index++) {
+      const chunk = await this.store.readChunk(session.id, index);
+      const chunkStart = index * session.chunkSize;
+      const slice = chunk.subarray(Math.max(from - chunkStart, 0), Math.min(to - chunkStart, chunk.byteLength));
+      result.set(slice, chunkStart + Math.max(from - chunkStart, 0) - from);
+    }
+    return result;
+  }
+
+  private inspectable(session: UploadSession): InspectableFile {
+    return {
+      filename: session.filename,
+      size: session.size,
+      read: (start, end) => this.read(session, start, end),
+      // Not this.stream(): the session is still marked as uploading while it is inspected
+      stream: () => {
+        let index = 0;
+        return new ReadableStream<Uint8Array>({
+          pull: async (controller) => {
+            if (index >= session.totalChunks) {
+              controller.close();
+              return;
+            }
+            controller.enqueue(await this.store.readChunk(session.id, index));
+            index++;
+          },
+        });
+      },
+    };
+  }
+
+  /**
+   * Abort an upload the client gave up on. Uploads attached to a submission stay until sent
+   */
+  async abort(id: string): Promise<void> {
+    const session = await this.load(id);
+    if (session.submissionId) {
+      throw new UploadError('already_attached', 'Upload belongs to a submission', 409);
+    }
+    await this.store.remove(id);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.store.remove(id);
+  }
+
+  /**
+   * Drop expired sessions; runs at most once a minute from init
+   */
+  async sweep(now = Date.now()): Promise<number> {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return 0;
+    this.lastSweep = now;
+
+    const expired = (await this.store.list()).filter(session => session.expiresAt <= now);
+    for (const session of expired) {
+      await this.store.remove(session.id);
+    }
+    return expired.length;
+  }
+}
+
+let uploadsInstance: ChunkedUploads | null = null;
+
+export function getUploads(): ChunkedUploads {
+  if (!uploadsInstance) {
+    uploadsInstance = new ChunkedUploads(createUploadStore(), {}, getFileInspector());
+  }
+  return uploadsInstance;
+}
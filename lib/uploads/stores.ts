@@ -0,0 +1,275 @@
+/**
+ * Upload Stores
+ * Chunks are binary and up to several MB each: on a shared deployment sessions live in Redis and chunk
+ * bytes in object storage; a single host keeps both on disk, tests in memory
+ */
+
+import { mkdir, open, readFile, readdir, rename, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import type { RedisLike } from '@/lib/redis';
+import { requireBlobClient, type BlobLike } from '@/lib/blob';
+import { resolveStoreBackend } from '@/lib/stores';
+import type { ReleaseUploadLock, UploadSession, UploadStore } from './types';
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function lockOwner(): string {
+  return `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * In-memory upload store (tests and local development without a writable disk)
+ */
+export class MemoryUploadStore implements UploadStore {
+  readonly kind = 'memory' as const;
+  private sessions = new Map<string, UploadSession>();
+  private chunks = new Map<string, Uint8Array>();
+  private locks = new Map<string, { owner: string; until: number }>();
+
+  async get(id: string) {
+    const session = this.sessions.get(id);
+    return session ? clone(session) : null;
+  }
+
+  async put(session: UploadSession) {
+    this.sessions.set(session.id, clone(session));
+  }
+
+  async list() {
+    const sessions: UploadSession[] = [];
+    this.sessions.forEach(session => sessions.push(clone(session)));
+    return sessions;
+  }
+
+  async writeChunk(id: string, index: number, data: Uint8Array) {
+    this.chunks.set(`${id}/${index}`, data);
+  }
+
+  async readChunk(id: string, index: number) {
+    const data = this.chunks.get(`${id}/${index}`);
+    if (!data) {
+      throw new Error(`upload:chunk_missing:${id}/${index}`);
+    }
+    return data;
+  }
+
+  async remove(id: string) {
+    this.sessions.delete(id);
+    const prefix = `${id}/`;
+    const keys: string[] = [];
+    this.chunks.forEach((_data, key) => {
+      if (key.startsWith(prefix)) keys.push(key);
+    });
+    keys.forEach(key => this.chunks.delete(key));
+  }
+
+  async acquireLock(id: string, ttlMs: number): Promise<ReleaseUploadLock | null> {
+    const now = Date.now();
+    const held = this.locks.get(id);
+    if (held && held.until > now) return null;
+
+    const owner = lockOwner();
+    this.locks.set(id, { owner, until: now + ttlMs });
+    return async () => {
+      if (this.locks.get(id)?.owner === owner) this.locks.delete(id);
+    };
+  }
+}
+
+/**
+ * One directory per upload: session.json plus one file per chunk
+ */
+export class FileUploadStore implements UploadStore {
+  readonly kind = 'file' as const;
+
+  constructor(private readonly baseDir: string) {}
+
+  private dir(id: string) {
+    // Upload ids are generated hex, anything else never resolves to a directory
+    return path.join(this.baseDir, id.replace(/[^a-f0-9]/g, '_'));
+  }
+
+  async get(id: string): Promise<UploadSession | null> {
+    try {
+      return JSON.parse(await readFile(path.join(this.dir(id), 'session.json'), 'utf-8')) as UploadSession;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async put(session: UploadSession) {
+    const dir = this.dir(session.id);
+    await mkdir(dir, { recursive: true });
+    const target = path.join(dir, 'session.json');
+    const temp = `${target}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(session, null, 2), 'utf-8');
+    await rename(temp, target);
+  }
+
+  async list() {
+    let entries: string[];
+    try {
+      entries = await readdir(this.baseDir);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const sessions: UploadSession[] = [];
+    for (const entry of entries) {
+      const session = await this.get(entry).catch(() => null);
+      if (session) sessions.push(session);
+    }
+    return sessions;
+  }
+
+  async writeChunk(id: string, index: number, data: Uint8Array) {
+    const dir = this.dir(id);
+    await mkdir(dir, { recursive: true });
+    const target = path.join(dir, `chunk-${index}`);
+    const temp = `${target}.${process.pid}.tmp`;
+    await writeFile(temp, data);
+    await rename(temp, target);
+  }
+
+  async readChunk(id: string, index: number) {
+    return new Uint8Array(await readFile(path.join(this.dir(id), `chunk-${index}`)));
+  }
+
+  async remove(id: string) {
+    await rm(this.dir(id), { recursive: true, force: true });
+  }
+
+  /** Lock files sit next to the upload directories, so removing an upload keeps its lock */
+  async acquireLock(id: string, ttlMs: number): Promise<ReleaseUploadLock | null> {
+    await mkdir(this.baseDir, { recursive: true });
+    const lockFile = `${this.dir(id)}.lock`;
+
+    // Break locks left behind by a crashed holder
+    try {
+      const info = await stat(lockFile);
+      if (Date.now() - info.mtimeMs > ttlMs) await rm(lockFile, { force: true });
+    } catch {
+      // no existing lock
+    }
+
+    try {
+      const handle = await open(lockFile, 'wx');
+      await handle.close();
+    } catch (error: any) {
+      if (error?.code === 'EEXIST') return null;
+      throw error;
+    }
+
+    let released = false;
+    return async () => {
+      if (released) return;
+      released = true;
+      await rm(lockFile, { force: true });
+    };
+  }
+}
+
+const RELEASE_SCRIPT = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end";
+
+/**
+ * Redis keys `uploads:session:<id>` indexed by the set `uploads:index`; chunk bytes go to object
+ * storage under `uploads/<id>/chunk-<index>`. Locks are `uploads:lock:<id>` (SET NX PX, released
+ * only by their owner)
+ */
+export class RedisUploadStore implements UploadStore {
+  readonly kind = 'redis' as const;
+
+  constructor(
+    private readonly redis: RedisLike,
+    private readonly blobs: BlobLike,
+    private readonly prefix = 'uploads'
+  ) {}
+
+  private sessionKey(id: string) {
+    return `${this.prefix}:session:${id}`;
+  }
+
+  private chunkKey(id: string, index: number) {
+    return `${this.prefix}/${id}/chunk-${index}`;
+  }
+
+  async get(id: string): Promise<UploadSession | null> {
+    const raw = await this.redis.get(this.sessionKey(id));
+    return raw ? (JSON.parse(raw) as UploadSession) : null;
+  }
+
+  async put(session: UploadSession) {
+    await this.redis.set(this.sessionKey(session.id), JSON.stringify(session));
+    await this.redis.command(['SADD', `${this.prefix}:index`, session.id]);
+  }
+
+  async list() {
+    const ids = await this.redis.command<string[] | null>(['SMEMBERS', `${this.prefix}:index`]);
+    const sessions: UploadSession[] = [];
+
+    // MGET in batches to keep each command small
+    for (let i = 0; i < (ids || []).length; i += 100) {
+      const batch = ids!.slice(i, i + 100);
+      const values = await this.redis.command<Array<string | null>>(['MGET', ...batch.map(id => this.sessionKey(id))]);
+      values.forEach(raw => {
+        if (raw) sessions.push(JSON.parse(raw));
+      });
+    }
+    return sessions;
+  }
+
+  async writeChunk(id: string, index: number, data: Uint8Array) {
+    await this.blobs.put(this.chunkKey(id, index), data);
+  }
+
+  async readChunk(id: string, index: number) {
+    const data = await this.blobs.get(this.chunkKey(id, index));
+    if (!data) {
+      throw new Error(`upload:chunk_missing:${id}/${index}`);
+    }
+    return data;
+  }
+
+  async remove(id: string) {
+    const session = await this.get(id);
+    if (session) {
+      await Promise.all(session.chunks.map((_digest, index) => this.blobs.delete(this.chunkKey(id, index))));
+    }
+    await this.redis.del(this.sessionKey(id));
+    await this.redis.command(['SREM', `${this.prefix}:index`, id]);
+  }
+
+  async acquireLock(id: string, ttlMs: number): Promise<ReleaseUploadLock | null> {
+    const key = `${this.prefix}:lock:${id}`;
+    const owner = lockOwner();
+    const acquired = await this.redis.set(key, owner, { px: ttlMs, nx: true });
+    if (!acquired) return null;
+
+    return async () => {
+      // Compare-and-delete so we never drop a lock that expired and was re-taken
+      await this.redis.command(['EVAL', RELEASE_SCRIPT, 1, key, owner]);
+    };
+  }
+}
+
+/**
+ * Resolve the configured upload store
+ * UPLOAD_STORE=redis|file|memory (default: redis when configured; files under UPLOAD_DIR outside
+ * production). Redis needs S3-compatible object storage for the chunks
+ */
+export function createUploadStore(): UploadStore {
+  const backend = resolveStoreBackend({ name: 'uploads', envVar: 'UPLOAD_STORE', dirEnvVar: 'UPLOAD_DIR' });
+
+  switch (backend.kind) {
+    case 'memory':
+      return new MemoryUploadStore();
+    case 'file':
+      return new FileUploadStore(backend.dir);
+    case 'redis':
+      return new RedisUploadStore(backend.redis, requireBlobClient('uploads'));
+  }
+}
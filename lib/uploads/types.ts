@@ -0,0 +1,71 @@
+/**
+ * Chunked Upload Types
+ * Resumable uploads: the browser sends a file in checksummed chunks, the server assembles
+ * them on demand and streams the result to WorkDrive
+ */
+
+import type { FileVerdict } from '@/lib/security/file-inspection';
+
+export type UploadStatus = 'uploading' | 'complete';
+
+export interface UploadSession {
+  id: string;
+  filename: string;
+  size: number;
+  type?: string;
+  chunkSize: number;
+  totalChunks: number;
+  /** sha256 of each received chunk, by chunk index (null until received) */
+  chunks: Array<string | null>;
+  status: UploadStatus;
+  /** sha256 over the whole assembled file, set on completion */
+  sha256?: string;
+  /** Server-side inspection result, set on completion */
+  inspection?: FileVerdict;
+  /** Submission the upload was attached to; claimed uploads are never swept */
+  submissionId?: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Unclaimed sessions are removed after this */
+  expiresAt: number;
+}
+
+export interface UploadInit {
+  filename: string;
+  size: number;
+  type?: string;
+  chunkSize?: number;
+}
+
+/** What the client needs to (re)start an upload */
+export interface UploadState {
+  uploadId: string;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  status: UploadStatus;
+  expiresAt: number;
+  inspection?: FileVerdict;
+}
+
+/** Releases an upload lock; safe to call more than once */
+export type ReleaseUploadLock = () => Promise<void>;
+
+/**
+ * Persistence for sessions and their chunk bytes
+ */
+export interface UploadStore {
+  readonly kind: 'memory' | 'file' | 'redis';
+  get(id: string): Promise<UploadSession | null>;
+  put(session: UploadSession): Promise<void>;
+  list(): Promise<UploadSession[]>;
+  writeChunk(id: string, index: number, data: Uint8Array): Promise<void>;
+  readChunk(id: string, index: number): Promise<Uint8Array>;
+  /** Remove the session and all of its chunks */
+  remove(id: string): Promise<void>;
+  /**
+   * Take the lock on one upload for every process sharing the store, or null while another holder
+   * has it. Expires after `ttlMs` so a crashed holder can't block the upload for good
+   */
+  acquireLock(id: string, ttlMs: number): Promise<ReleaseUploadLock | null>;
+}
@@ -0,0 +1,379 @@
+/**
+ * Customer Accounts
+ * Invite-based signup from CRM contacts, bcrypt passwords, email verification and password resets
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import bcrypt from 'bcryptjs';
+import { UserRole } from '@/lib/rbac';
+import { crm, type CrmContact } from '@/lib/zoho/client';
+import { sendAccountInvite, sendEmailVerification, sendPasswordReset } from '@/lib/email';
+import { createUserStore } from './stores';
+import type { CustomerUser, UserStore, UserToken, UserTokenPurpose } from './types';
+
+export * from './types';
+export { MemoryUserStore, FileUserStore, RedisUserStore, createUserStore } from './stores';
+
+export interface AccountOptions {
+  bcryptRounds: number;
+  /** Token lifetimes in milliseconds */
+  ttl: Record<UserTokenPurpose, number>;
+  baseUrl: string;
+}
+
+export interface InviteOptions {
+  email: string;
+  role?: UserRole;
+  /** Used when the CRM isn't configured (local development) */
+  name?: string;
+  invitedBy?: string;
+}
+
+export interface SignupInput {
+  email: string;
+  /** Invite signups only; self-signup chooses the password on the page the verification email opens */
+  password?: string;
+  firstName?: string;
+  lastName?: string;
+  company?: string;
+  /** Invite token from the invitation email */
+  token?: string;
+}
+
+export type PublicUser = Omit<CustomerUser, 'passwordHash'>;
+
+export class AccountError extends Error {
+  constructor(public readonly code: string, message: string, public readonly status = 400) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function resolveBaseUrl(): string {
+  const envUrl = process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_BASE_URL;
+  if (envUrl) return envUrl.replace(/\/$/, '');
+  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
+  return 'http://localhost:3000';
+}
+
+const DEFAULT_OPTIONS: AccountOptions = {
+  bcryptRounds: 12,
+  ttl: {
+    invite: 7 * DAY,
+    verify_email: DAY,
+    password_reset: 60 * 60 * 1000,
+  },
+  baseUrl: resolveBaseUrl(),
+};
+
+// Compared against when the email is unknown so response timing doesn't reveal accounts
+const DUMMY_HASH = '$2b$12$xaLFQVnn4Jpm2o3MmAjO4OHSbPv/sSjCV4wGZcjhm4Fcddi9P0RHK';
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function zohoConfigured(): boolean {
+  return !!(process.env.ZOHO_CLIENT_ID && process.env.ZOHO_CLIENT_SECRET && process.env.ZOHO_CRM_REFRESH_TOKEN);
+}
+
+function contactName(contact: CrmContact): string {
+  return contact.Full_Name || [contact.First_Name, contact.Last_Name].filter(Boolean).join(' ') || contact.Email;
+}
+
+export function toPublicUser(user: CustomerUser): PublicUser {
+  const { passwordHash: _passwordHash, ...rest } = user;
+  return rest;
+}
+
+export function validatePassword(password: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`;
+  }
+  if (!/[a-zA-Z]/.test(password) || !/[0-9]/.test(password)) {
+    return 'Password must contain letters and numbers';
+  }
+  return null;
+}
+
+export class CustomerAccounts {
+  private readonly options: AccountOptions;
+
+  constructor(
+    private readonly store: UserStore,
+    options: Partial<AccountOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options, ttl: { ...DEFAULT_OPTIONS.ttl, ...options.ttl } };
+  }
+
+  private async issueToken(user: CustomerUser, purpose: UserTokenPurpose): Promise<string> {
+    // Only the newest link of each kind stays valid
+    await this.store.deleteTokens(user.id, purpose);
+
+    const token = randomBytes(32).toString('base64url');
+    const now = Date.now();
+    await this.store.putToken({
+      hash: hashToken(token),
+      userId: user.id,
+      purpose,
+      createdAt: now,
+      expiresAt: now + this.options.ttl[purpose],
+    });
+    return token;
+  }
+
+  private async redeemToken(token: string, purpose: UserTokenPurpose): Promise<{ user: CustomerUser; record: UserToken }> {
+    const record = await this.store.consumeToken(hashToken(token));
+    if (!record || record.purpose !== purpose || record.expiresAt < Date.now()) {
+      throw new AccountError('invalid_token', 'This link is invalid or has expired');
+    }
+
+    const user = await this.store.getById(record.userId);
+    if (!user || user.status === 'disabled') {
+      throw new AccountError('invalid_token', 'This link is invalid or has expired');
+    }
+    return { user, record };
+  }
+
+  private link(pathname: string, token: string): string {
+    return `${this.options.baseUrl}${pathname}?token=${encodeURIComponent(token)}`;
+  }
+
+  private async save(user: CustomerUser): Promise<CustomerUser> {
+    user.updatedAt = Date.now();
+    await this.store.put(user);
+    return user;
+  }
+
+  getByEmail(email: string) {
+    return this.store.getByEmail(normalizeEmail(email));
+  }
+
+  getById(id: string) {
+    return this.store.getById(id);
+  }
+
+  async list(): Promise<PublicUser[]> {
+    const users = await this.store.list();
+    return users.sort((a, b) => b.createdAt - a.createdAt).map(toPublicUser);
+  }
+
+  /**
+   * Invite a CRM contact to the portal. The contact's account decides which projects they see
+   */
+  async invite(options: InviteOptions): Promise<{ user: PublicUser; link: string; emailSent: boolean }> {
+    const email = normalizeEmail(options.email);
+    const existing = await this.store.getByEmail(email);
+    if (existing && existing.status !== 'invited') {
+      throw new AccountError('already_registered', 'This email already has an account', 409);
+    }
+
+    let contact: CrmContact | null = null;
+    if (zohoConfigured()) {
+      contact = await crm.findContactByEmail(email);
+      if (!contact) {
+        throw new AccountError('contact_not_found', 'No CRM contact exists for this email', 404);
+      }
+    } else if (!options.name) {
+      throw new AccountError('name_required', 'Name is required while the CRM is not configured');
+    }
+
+    const now = Date.now();
+    const user = await this.save({
+      ...(existing || { id: randomBytes(12).toString('hex'), createdAt: now }),
+      email,
+      name: contact ? contactName(contact) : options.name!,
+      role: options.role || existing?.role || UserRole.CLIENT_USER,
+      status: 'invited',
+      crmContactId: contact?.id ?? existing?.crmContactId,
+      crmAccountId: contact?.Account_Name?.id ?? existing?.crmAccountId,
+      company: contact?.Account_Name?.name ?? existing?.company,
+      invitedBy: options.invitedBy,
+      updatedAt: now,
+    } as CustomerUser);
+
+    const token = await this.issueToken(user, 'invite');
+    const link = this.link('/auth/signup', token);
+    const result = await sendAccountInvite({
+      email,
+      name: user.name,
+      link,
+      expiresInDays: Math.round(this.options.ttl.invite / DAY),
+    });
+
+    return { user: toPublicUser(user), link, emailSent: result.success };
+  }
+
+  /**
+   * Complete signup. With an invite token the email is proven and the account is active right away
+   * with the given password. Without one the email must belong to a CRM contact and only gets a
+   * verification link: the password is chosen on the page that link opens, so nobody can set the
+   * credentials of an account for an email they can't read
+   */
+  async signup(input: SignupInput): Promise<{ user: PublicUser; requiresVerification: boolean }> {
+    const now = Date.now();
+
+    if (input.token) {
+      const password = input.password || '';
+      const passwordError = validatePassword(password);
+      if (passwordError) {
+        throw new AccountError('weak_password', passwordError);
+      }
+      const passwordHash = await bcrypt.hash(password, this.options.bcryptRounds);
+
+      const { user } = await this.redeemToken(input.token, 'invite');
+      if (normalizeEmail(input.email) !== user.email) {
+        throw new AccountError('email_mismatch', 'Please sign up with the email address the invitation was sent to');
+      }
+
+      const activated = await this.save({
+        ...user,
+        passwordHash,
+        status: 'active',
+        emailVerifiedAt: now,
+        passwordChangedAt: now,
+      });
+      return { user: toPublicUser(activated), requiresVerification: false };
+    }
+
+    const email = normalizeEmail(input.email);
+    const existing = await this.store.getByEmail(email);
+    if (existing && existing.status !== 'pending_verification') {
+      throw new AccountError(
+        existing.status === 'invited' ? 'invite_pending' : 'already_registered',
+        existing.status === 'invited'
+          ? 'An invitation was sent to this email. Please use the link in that email'
+          : 'This email already has an account',
+        409
+      );
+    }
+
+    let contact: CrmContact | null = null;
+    if (zohoConfigured()) {
+      contact = await crm.findContactByEmail(email);
+      if (!contact) {
+        // Portal access is for existing clients only
+        throw new AccountError('contact_not_found', 'We could not find a client record for this email. Please contact us for an invitation', 403);
+      }
+    }
+
+    const name = contact
+      ? contactName(contact)
+      : [input.firstName, input.lastName].filter(Boolean).join(' ') || email;
+
+    // An unverified account keeps its details until the owner of the email proves it
+    const user = existing || await this.save({
+      id: randomBytes(12).toString('hex'),
+      createdAt: now,
+      updatedAt: now,
+      email,
+      name,
+      role: UserRole.CLIENT_USER,
+      status: 'pending_verification',
+      crmContactId: contact?.id,
+      crmAccountId: contact?.Account_Name?.id,
+      company: contact?.Account_Name?.name || input.company,
+    });
+
+    const token = await this.issueToken(user, 'verify_email');
+    await sendEmailVerification({ email, name: user.name, link: this.link('/auth/verify-email', token) });
+
+    return { user: toPublicUser(user), requiresVerification: true };
+  }
+
+  /**
+   * Confirm a self-signup and set its first password. The password is checked before the link is
+   * spent, so a rejected one can be retried with the same link
+   */
+  async verifyEmail(token: string, password: string): Promise<PublicUser> {
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      throw new AccountError('weak_password', passwordError);
+    }
+    const passwordHash = await bcrypt.hash(password, this.options.bcryptRounds);
+
+    const { user } = await this.redeemToken(token, 'verify_email');
+    const now = Date.now();
+    return toPublicUser(await this.save({
+      ...user,
+      passwordHash,
+      status: 'active',
+      emailVerifiedAt: now,
+      passwordChangedAt: now,
+    }));
+  }
+
+  /**
+   * Always resolves so callers can't probe which emails have accounts
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.store.getByEmail(normalizeEmail(email));
+    if (!user || user.status !== 'active') return;
+
+    const token = await this.issueToken(user, 'password_reset');
+    await sendPasswordReset({ email: user.email, name: user.name, link: this.link('/auth/reset-password', token) });
+  }
+
+  async resetPassword(token: string, password: string): Promise<PublicUser> {
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      throw new AccountError('weak_password', passwordError);
+    }
+
+    const { user } = await this.redeemToken(token, 'password_reset');
+    const now = Date.now();
+    return toPublicUser(await this.save({
+      ...user,
+      passwordHash: await bcrypt.hash(password, this.options.bcryptRounds),
+      passwordChangedAt: now,
+    }));
+  }
+
+  /**
+   * Check credentials for the NextAuth credentials provider
+   */
+  async authenticate(email: string, password: string): Promise<PublicUser | null> {
+    const user = await this.store.getByEmail(normalizeEmail(email));
+    const valid = await bcrypt.compare(password, user?.passwordHash || DUMMY_HASH);
+
+    if (!user || !valid || user.status !== 'active' || !user.emailVerifiedAt) {
+      return null;
+    }
+
+    return toPublicUser(await this.save({ ...user, lastLoginAt: Date.now() }));
+  }
+
+  async setRole(userId: string, role: UserRole): Promise<PublicUser> {
+    const user = await this.store.getById(userId);
+    if (!user) {
+      throw new AccountError('not_found', 'User not found', 404);
+    }
+    return toPublicUser(await this.save({ ...user, role }));
+  }
+
+  async setDisabled(userId: string, disabled: boolean): Promise<PublicUser> {
+    const user = await this.store.getById(userId);
+    if (!user) {
+      throw new AccountError('not_found', 'User not found', 404);
+    }
+    const status = disabled ? 'disabled' : (user.passwordHash && user.emailVerifiedAt ? 'active' : 'invited');
+    return toPublicUser(await this.save({ ...user, status }));
+  }
+}
+
+let accountsInstance: CustomerAccounts | null = null;
+
+export function getCustomerAccounts(): CustomerAccounts {
+  if (!accountsInstance) {
+    accountsInstance = new CustomerAccounts(createUserStore());
+  }
+  return accountsInstance;
+}
@@ -0,0 +1,260 @@
+/**
+ * User Stores
+ * Redis for deployments, a file-backed store so accounts work locally without Zoho or a database,
+ * in-memory store for tests
+ */
+
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { RedisLike } from '@/lib/redis';
+import { resolveStoreBackend } from '@/lib/stores';
+import type { CustomerUser, UserStore, UserToken, UserTokenPurpose } from './types';
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * In-memory user store (tests and local development without a writable disk)
+ */
+export class MemoryUserStore implements UserStore {
+  private users = new Map<string, CustomerUser>();
+  private tokens = new Map<string, UserToken>();
+
+  async getById(id: string): Promise<CustomerUser | null> {
+    const user = this.users.get(id);
+    return user ? clone(user) : null;
+  }
+
+  async getByEmail(email: string): Promise<CustomerUser | null> {
+    const needle = email.toLowerCase();
+    let found: CustomerUser | null = null;
+    this.users.forEach(user => {
+      if (user.email === needle) found = user;
+    });
+    return found ? clone(found) : null;
+  }
+
+  async put(user: CustomerUser): Promise<void> {
+    this.users.set(user.id, clone(user));
+  }
+
+  async list(): Promise<CustomerUser[]> {
+    const users: CustomerUser[] = [];
+    this.users.forEach(user => users.push(clone(user)));
+    return users;
+  }
+
+  async putToken(token: UserToken): Promise<void> {
+    this.tokens.set(token.hash, clone(token));
+  }
+
+  async consumeToken(hash: string): Promise<UserToken | null> {
+    const token = this.tokens.get(hash);
+    if (!token) return null;
+    this.tokens.delete(hash);
+    return clone(token);
+  }
+
+  async deleteTokens(userId: string, purpose: UserTokenPurpose): Promise<void> {
+    const stale: string[] = [];
+    this.tokens.forEach(token => {
+      if (token.userId === userId && token.purpose === purpose) stale.push(token.hash);
+    });
+    stale.forEach(hash => this.tokens.delete(hash));
+  }
+}
+
+/**
+ * One JSON file per user and per token under the base directory
+ */
+export class FileUserStore implements UserStore {
+  constructor(private readonly baseDir: string) {}
+
+  private userPath(id: string) {
+    return path.join(this.baseDir, 'users', `${id.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+
+  private tokenPath(hash: string) {
+    return path.join(this.baseDir, 'tokens', `${hash.replace(/[^a-f0-9]/g, '')}.json`);
+  }
+
+  private async writeJson(target: string, value: unknown) {
+    await mkdir(path.dirname(target), { recursive: true });
+    const temp = `${target}.${process.pid}.tmp`;
+    // Password hashes and token digests: owner-only permissions
+    await writeFile(temp, JSON.stringify(value, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    await rename(temp, target);
+  }
+
+  private async readJson<T>(target: string): Promise<T | null> {
+    try {
+      return JSON.parse(await readFile(target, 'utf-8')) as T;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async readDir<T>(dir: string): Promise<T[]> {
+    let entries: string[];
+    try {
+      entries = await readdir(path.join(this.baseDir, dir));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const items = await Promise.all(
+      entries
+        .filter(name => name.endsWith('.json'))
+        .map(name => this.readJson<T>(path.join(this.baseDir, dir, name)))
+    );
+    return items.filter(item => item !== null) as T[];
+  }
+
+  getById(id: string): Promise<CustomerUser | null> {
+    return this.readJson<CustomerUser>(this.userPath(id));
+  }
+
+  async getByEmail(email: string): Promise<CustomerUser | null> {
+    const needle = email.toLowerCase();
+    const users = await this.list();
+    return users.find(user => user.email === needle) || null;
+  }
+
+  put(user: CustomerUser): Promise<void> {
+    return this.writeJson(this.userPath(user.id), user);
+  }
+
+  list(): Promise<CustomerUser[]> {
+    return this.readDir<CustomerUser>('users');
+  }
+
+  putToken(token: UserToken): Promise<void> {
+    return this.writeJson(this.tokenPath(token.hash), token);
+  }
+
+  async consumeToken(hash: string): Promise<UserToken | null> {
+    const target = this.tokenPath(hash);
+    const token = await this.readJson<UserToken>(target);
+    if (!token) return null;
+
+    // Claim by rename so two concurrent requests can't both use the token
+    const claimed = `${target}.${process.pid}.${Date.now()}.used`;
+    try {
+      await rename(target, claimed);
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+    await rm(claimed, { force: true });
+    return token;
+  }
+
+  async deleteTokens(userId: string, purpose: UserTokenPurpose): Promise<void> {
+    const tokens = await this.readDir<UserToken>('tokens');
+    await Promise.all(
+      tokens
+        .filter(token => token.userId === userId && token.purpose === purpose)
+        .map(token => rm(this.tokenPath(token.hash), { force: true }))
+    );
+  }
+}
+
+/**
+ * Users as JSON strings with an email -> id index; tokens expire with their links
+ */
+export class RedisUserStore implements UserStore {
+  constructor(private readonly redis: RedisLike, private readonly prefix = 'users') {}
+
+  private userKey(id: string) {
+    return `${this.prefix}:user:${id}`;
+  }
+
+  private emailKey(email: string) {
+    return `${this.prefix}:email:${email}`;
+  }
+
+  private tokenKey(hash: string) {
+    return `${this.prefix}:token:${hash}`;
+  }
+
+  private userTokensKey(userId: string, purpose: UserTokenPurpose) {
+    return `${this.prefix}:tokens:${userId}:${purpose}`;
+  }
+
+  async getById(id: string): Promise<CustomerUser | null> {
+    const raw = await this.redis.get(this.userKey(id));
+    return raw ? (JSON.parse(raw) as CustomerUser) : null;
+  }
+
+  async getByEmail(email: string): Promise<CustomerUser | null> {
+    const id = await this.redis.get(this.emailKey(email.toLowerCase()));
+    return id ? this.getById(id) : null;
+  }
+
+  async put(user: CustomerUser): Promise<void> {
+    const previous = await this.getById(user.id);
+    await this.redis.set(this.userKey(user.id), JSON.stringify(user));
+    await this.redis.set(this.emailKey(user.email), user.id);
+    await this.redis.command(['SADD', `${this.prefix}:index`, user.id]);
+    if (previous && previous.email !== user.email) {
+      await this.redis.del(this.emailKey(previous.email));
+    }
+  }
+
+  async list(): Promise<CustomerUser[]> {
+    const ids = await this.redis.command<string[] | null>(['SMEMBERS', `${this.prefix}:index`]);
+    const users: CustomerUser[] = [];
+
+    // MGET in batches to keep each command small
+    for (let i = 0; i < (ids || []).length; i += 100) {
+      const batch = ids!.slice(i, i + 100);
+      const values = await this.redis.command<Array<string | null>>(['MGET', ...batch.map(id => this.userKey(id))]);
+      values.forEach(raw => {
+        if (raw) users.push(JSON.parse(raw));
+      });
+    }
+    return users;
+  }
+
+  async putToken(token: UserToken): Promise<void> {
+    const ttlMs = Math.max(1000, token.expiresAt - Date.now());
+    await this.redis.set(this.tokenKey(token.hash), JSON.stringify(token), { px: ttlMs });
+    await this.redis.command(['SADD', this.userTokensKey(token.userId, token.purpose), token.hash]);
+    await this.redis.command(['PEXPIRE', this.userTokensKey(token.userId, token.purpose), ttlMs]);
+  }
+
+  async consumeToken(hash: string): Promise<UserToken | null> {
+    // GETDEL claims the token atomically, so two concurrent requests can't both use it
+    const raw = await this.redis.command<string | null>(['GETDEL', this.tokenKey(hash)]);
+    return raw ? (JSON.parse(raw) as UserToken) : null;
+  }
+
+  async deleteTokens(userId: string, purpose: UserTokenPurpose): Promise<void> {
+    const setKey = this.userTokensKey(userId, purpose);
+    const hashes = await this.redis.command<string[] | null>(['SMEMBERS', setKey]);
+    if (hashes?.length) {
+      await this.redis.command(['DEL', ...hashes.map(hash => this.tokenKey(hash))]);
+    }
+    await this.redis.del(setKey);
+  }
+}
+
+/**
+ * Pick the user store from USER_STORE (redis | file | memory). Defaults to redis when configured,
+ * otherwise files under USER_STORE_DIR outside production
+ */
+export function createUserStore(): UserStore {
+  const backend = resolveStoreBackend({ name: 'users', envVar: 'USER_STORE', dirEnvVar: 'USER_STORE_DIR' });
+
+  switch (backend.kind) {
+    case 'memory':
+      return new MemoryUserStore();
+    case 'file':
+      return new FileUserStore(backend.dir);
+    case 'redis':
+      return new RedisUserStore(backend.redis);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Customer Account Types
+ * Portal users are created from CRM contacts and sign in with email + password
+ */
+
+import type { UserRole } from '@/lib/rbac';
+
+export type CustomerUserStatus = 'invited' | 'pending_verification' | 'active' | 'disabled';
+
+export interface CustomerUser {
+  id: string;
+  /** Always stored lower-cased */
+  email: string;
+  name: string;
+  role: UserRole;
+  status: CustomerUserStatus;
+  /** bcrypt hash; absent until the invite is accepted */
+  passwordHash?: string;
+  emailVerifiedAt?: number;
+  crmContactId?: string;
+  crmAccountId?: string;
+  company?: string;
+  invitedBy?: string;
+  createdAt: number;
+  updatedAt: number;
+  lastLoginAt?: number;
+  /** Bumped on password change so older reset links stop working */
+  passwordChangedAt?: number;
+}
+
+export type UserTokenPurpose = 'invite' | 'verify_email' | 'password_reset';
+
+export interface UserToken {
+  /** sha256 of the token sent by email; the raw token is never stored */
+  hash: string;
+  userId: string;
+  purpose: UserTokenPurpose;
+  expiresAt: number;
+  createdAt: number;
+}
+
+export interface UserStore {
+  getById(id: string): Promise<CustomerUser | null>;
+  getByEmail(email: string): Promise<CustomerUser | null>;
+  put(user: CustomerUser): Promise<void>;
+  list(): Promise<CustomerUser[]>;
+  putToken(token: UserToken): Promise<void>;
+  /** Returns and deletes the token (single use) */
+  consumeToken(hash: string): Promise<UserToken | null>;
+  deleteTokens(userId: string, purpose: UserTokenPurpose): Promise<void>;
+}
@@ -10,13 +10,76 @@ import { z } from 'zod';
 // ============================================================================
 
 export const AdminValidateSchema = z.object({
-  password: z.string().min(1, 'Password is required')
+  /** Optional while only the legacy single admin password is configured */
+  username: z.string().trim().min(1).max(64).optional(),
+  password: z.string().min(1, 'Password is required'),
+  /** Second step once the password is accepted, for admins with 2FA enabled */
+  otp: z.string().regex(/^\d{6}$/, 'Code must be 6 digits').optional(),
+  recoveryCode: z.string().trim().min(8).max(32).optional()
+});
+
+export const AdminMfaCodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits')
+});
+
+export const AdminSessionRefreshSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required')
+});
+
+export const AdminSessionRevokeSchema = z.object({
+  /** Identifies the session when the access token has already expired */
+  refreshToken: z.string().min(1).optional(),
+  /** Revoke every session of the current admin, not just this one */
+  all: z.boolean().optional()
 });
 
 export const AdminVerifyTokenSchema = z.object({
   token: z.string().min(1, 'Token is required')
 });
 
+// ============================================================================
+// CUSTOMER ACCOUNT SCHEMAS
+// ============================================================================
+
+// Self-signup only proves the email; the password is set from the verification link
+export const SignupSchema = z.object({
+  email: z.string().email('Valid email is required'),
+  password: z.string().min(1, 'Password is required').max(200).optional(),
+  firstName: z.string().max(100).optional(),
+  lastName: z.string().max(100).optional(),
+  company: z.string().max(200).optional(),
+  token: z.string().max(200).optional()
+}).refine(data => !data.token || data.password, {
+  message: 'Password is required',
+  path: ['password']
+});
+
+export const EmailVerificationSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: z.string().min(1, 'Password is required').max(200)
+});
+
+export const PasswordResetRequestSchema = z.object({
+  email: z.string().email('Valid email is required')
+});
+
+export const PasswordResetSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: z.string().min(1, 'Password is required').max(200)
+});
+
+export const UserInviteSchema = z.object({
+  email: z.string().email('Valid email is required'),
+  role: z.enum(['CLIENT_USER', 'CLIENT_ADMIN', 'INTERNAL_ENGINEER', 'INTERNAL_PM', 'ADMIN']).optional(),
+  name: z.string().max(200).optional()
+});
+
+export const UserUpdateSchema = z.object({
+  userId: z.string().min(1, 'User ID is required'),
+  role: z.enum(['CLIENT_USER', 'CLIENT_ADMIN', 'INTERNAL_ENGINEER', 'INTERNAL_PM', 'ADMIN']).optional(),
+  disabled: z.boolean().optional()
+});
+
 // ============================================================================
 // SECURITY API SCHEMAS  
 // ============================================================================
@@ -146,12 +209,28 @@ export const InvoiceQuerySchema = z.object({
 // ============================================================================
 
 export const BlogPostQuerySchema = z.object({
-  category: z.string().optional(),
-  tag: z.string().optional(),
+  category: z.string().max(60).optional(),
+  tag: z.string().max(40).optional(),
+  // published=false also lists drafts and scheduled posts (admins only)
   published: z.string().transform(val => val === 'true').pipe(z.boolean()).optional(),
-  limit: z.string().transform(Number).pipe(z.number().min(1).max(50)).default('10'),
-  page: z.string().transform(Number).pipe(z.number().min(1)).default('1'),
-  search: z.string().optional()
+  limit: z.string().transform(Number).pipe(z.number().int().min(1).max(50)).default('10'),
+  page: z.string().transform(Number).pipe(z.number().int().min(1)).default('1'),
+  search: z.string().trim().max(100).optional(),
+  sort: z.enum(['newest', 'oldest', 'relevance', 'title']).optional()
+});
+
+// ============================================================================
+// SITE SEARCH SCHEMAS
+// ============================================================================
+
+export const SiteSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Query is required').max(100),
+  // Comma-separated subset of service, blog, faq, solution
+  type: z.string()
+    .transform(value => value.split(',').map(type => type.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(['service', 'blog', 'faq', 'solution'])).min(1))
+    .optional(),
+  limit: z.string().transform(Number).pipe(z.number().int().min(1).max(20)).default('8')
 });
 
 // ============================================================================
@@ -241,12 +320,148 @@ export const TimestampQuerySchema = z.object({
   timezone: z.string().optional().default('Europe/Berlin')
 });
 
+// Signed "form rendered at" token for the public forms (/api/forms/token)
+export const FormTokenQuerySchema = z.object({
+  form: z.enum(['quote', 'contact', 'consultation', 'newsletter'])
+});
+
+// Resumable chunked uploads (/api/uploads)
+export const UploadInitSchema = z.object({
+  filename: z.string().min(1).max(255),
+  size: z.number().int().positive(),
+  type: z.string().max(255).optional(),
+  chunkSize: z.number().int().positive().optional()
+});
+
+export const UploadCompleteSchema = z.object({
+  checksum: z.string().regex(/^[a-fA-F0-9]{64}$/, 'checksum must be a sha256 hex digest')
+});
+
+// Instant 3D printing estimate for a completed STL upload (/api/estimates/3d-printing)
+export const PrintEstimateRequestSchema = z.object({
+  uploadId: z.string().regex(/^[a-f0-9]{32}$/, 'uploadId must be an upload id'),
+  process: z.string().min(1).max(50),
+  material: z.string().min(1).max(50),
+  infill: z.number().int().min(0).max(100).default(20),
+  quantity: z.number().int().min(1).max(10000).default(1)
+});
+
+const LeadFormEnum = z.enum(['quote', 'contact', 'consultation']);
+
+const ScoringConditionSchema = z.object({
+  field: z.enum([
+    'form', 'service', 'budget', 'timeline', 'scope', 'company',
+    'utmSource', 'utmMedium', 'utmCampaign', 'attachments', 'audience'
+  ]),
+  op: z.enum(['equals', 'in', 'contains', 'matches', 'exists', 'gte', 'lte']),
+  value: z.union([z.string().max(500), z.number(), z.array(z.string().max(200)).max(50)]).optional()
+}).superRefine((condition, ctx) => {
+  if (condition.op === 'exists') return;
+  if (condition.value === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${condition.op} needs a value`, path: ['value'] });
+  } else if (condition.op === 'in' && !Array.isArray(condition.value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'in needs a list of values', path: ['value'] });
+  } else if ((condition.op === 'gte' || condition.op === 'lte') && typeof condition.value !== 'number') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${condition.op} needs a number`, path: ['value'] });
+  } else if (condition.op === 'matches') {
+    try {
+      new RegExp(String(condition.value));
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid regular expression', path: ['value'] });
+    }
+  }
+});
+
+const ScoringRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]{0,63}$/, 'Rule ids are lowercase letters, digits and dashes'),
+  description: z.string().max(200).optional(),
+  forms: z.array(LeadFormEnum).optional(),
+  all: z.array(ScoringConditionSchema).max(20).optional(),
+  any: z.array(ScoringConditionSchema).max(20).optional(),
+  points: z.number().int().min(-1000).max(1000),
+  enabled: z.boolean().optional()
+});
+
+// Lead scoring ruleset (/api/admin/lead-scoring); version is the one the editor loaded
+export const LeadScoringRulesetSchema = z.object({
+  version: z.number().int().min(0),
+  thresholds: z.object({
+    hot: z.number().int(),
+    warm: z.number().int()
+  }),
+  rules: z.array(ScoringRuleSchema).max(200)
+});
+
+// Dry run of a sample lead payload (/api/admin/lead-scoring/dry-run); an unsaved ruleset can be tried out
+export const LeadScoringDryRunSchema = z.object({
+  form: LeadFormEnum,
+  payload: z.record(z.unknown()),
+  attachments: z.number().int().min(0).max(100).default(0),
+  ruleset: LeadScoringRulesetSchema.optional()
+});
+
+const NewsletterTopicEnum = z.enum(['insights', 'case-studies', 'service-updates']);
+
+// Newsletter confirmation link (/api/newsletter/confirm)
+export const NewsletterConfirmSchema = z.object({
+  token: z.string().min(1).max(2000)
+});
+
+// Newsletter preferences link (/api/newsletter/preferences)
+export const NewsletterPreferencesQuerySchema = NewsletterConfirmSchema;
+
+// Topic change or unsubscribe from the preferences page
+export const NewsletterPreferencesSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('update'),
+    token: z.string().min(1).max(2000),
+    topics: z.array(NewsletterTopicEnum).min(1).max(10)
+  }),
+  z.object({
+    action: z.literal('unsubscribe'),
+    token: z.string().min(1).max(2000)
+  })
+]);
+
 // ============================================================================
 // TYPE EXPORTS
 // ============================================================================
 
+// Audit log query (/api/admin/audit); from/to accept ISO dates or epoch milliseconds
+const auditTimeBound = z.union([
+  z.coerce.number().int().nonnegative(),
+  z.string().datetime({ offset: true }).transform(value => Date.parse(value))
+]);
+
+export const AuditQuerySchema = z.object({
+  userId: z.string().max(200).optional(),
+  action: z.string().max(100).optional(),
+  entity: z.string().max(100).optional(),
+  entityId: z.string().max(200).optional(),
+  from: auditTimeBound.optional(),
+  to: auditTimeBound.optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+export const AuditExportSchema = AuditQuerySchema.extend({
+  format: z.enum(['csv', 'json']).default('csv'),
+  limit: z.coerce.number().int().min(1).max(50000).default(10000)
+});
+
 export type AdminValidateInput = z.infer<typeof AdminValidateSchema>;
 export type AdminVerifyTokenInput = z.infer<typeof AdminVerifyTokenSchema>;
+export type AdminSessionRefreshInput = z.infer<typeof AdminSessionRefreshSchema>;
+export type AdminSessionRevokeInput = z.infer<typeof AdminSessionRevokeSchema>;
+export type AdminMfaCodeInput = z.infer<typeof AdminMfaCodeSchema>;
+export type AuditQueryInput = z.infer<typeof AuditQuerySchema>;
+export type AuditExportInput = z.infer<typeof AuditExportSchema>;
+export type SignupInput = z.infer<typeof SignupSchema>;
+export type PasswordResetRequestInput = z.infer<typeof PasswordResetRequestSchema>;
+export type EmailVerificationInput = z.infer<typeof EmailVerificationSchema>;
+export type PasswordResetInput = z.infer<typeof PasswordResetSchema>;
+export type UserInviteInput = z.infer<typeof UserInviteSchema>;
+export type UserUpdateInput = z.infer<typeof UserUpdateSchema>;
 export type CSPReportInput = z.infer<typeof CSPReportSchema>;
 export type SecurityDashboardTestInput = z.infer<typeof SecurityDashboardTestSchema>;
 export type SecurityEventInput = z.infer<typeof SecurityEventSchema>;
@@ -257,6 +472,7 @@ export type ZohoHealthQuery = z.infer<typeof ZohoHealthQuerySchema>;
 export type ZohoOAuthInput = z.infer<typeof ZohoOAuthSchema>;
 export type InvoiceQuery = z.infer<typeof InvoiceQuerySchema>;
 export type BlogPostQuery = z.infer<typeof BlogPostQuerySchema>;
+export type SiteSearchQuery = z.infer<typeof SiteSearchQuerySchema>;
 export type BookingAvailabilityQuery = z.infer<typeof BookingAvailabilityQuerySchema>;
 export type ValidateEnvQuery = z.infer<typeof ValidateEnvQuerySchema>;
 export type DatabaseConfigQuery = z.infer<typeof DatabaseConfigQuerySchema>;
@@ -267,6 +483,15 @@ export type RateLimitQuery = z.infer<typeof RateLimitQuerySchema>;
 export type RateLimitResetInput = z.infer<typeof RateLimitResetSchema>;
 export type PaginationQuery = z.infer<typeof PaginationSchema>;
 export type TimestampQuery = z.infer<typeof TimestampQuerySchema>;
+export type FormTokenQuery = z.infer<typeof FormTokenQuerySchema>;
+export type UploadInitInput = z.infer<typeof UploadInitSchema>;
+export type UploadCompleteInput = z.infer<typeof UploadCompleteSchema>;
+export type PrintEstimateRequestInput = z.infer<typeof PrintEstimateRequestSchema>;
+export type LeadScoringRulesetInput = z.infer<typeof LeadScoringRulesetSchema>;
+export type LeadScoringDryRunInput = z.infer<typeof LeadScoringDryRunSchema>;
+export type NewsletterConfirmInput = z.infer<typeof NewsletterConfirmSchema>;
+export type NewsletterPreferencesQuery = z.infer<typeof NewsletterPreferencesQuerySchema>;
+export type NewsletterPreferencesInput = z.infer<typeof NewsletterPreferencesSchema>;
 
 // ============================================================================
 // VALIDATION HELPERS
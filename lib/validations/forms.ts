@@ -63,6 +63,7 @@ export const ConsultationSchema = z.object({
   time: z.string().min(1, "Pick a time"),
   consent: z.boolean().refine(val => val === true, "You must agree to the Privacy Policy"),
   newsletter_opt_in: z.coerce.boolean().optional(),
+  newsletter_consent_version: z.string().optional(),  // lib/newsletter/consent
 
   // Extra attributes
   budget: z.string().optional(),                   // Budget_Range__c
@@ -100,6 +101,7 @@ export const QuoteSchema = z.object({
   description: z.string().min(10, "Please add a brief description"),
   consent: z.coerce.boolean(),                     // Coerce string to boolean
   newsletter_opt_in: z.coerce.boolean().optional(),
+  newsletter_consent_version: z.string().optional(),  // lib/newsletter/consent
 
   // UTM tracking
   utm_source: z.string().optional(),
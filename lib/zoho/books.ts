@@ -1,44 +1,415 @@
 // lib/zoho/books.ts
-// Zoho Books integration placeholder
+// Typed Zoho Books v3 API — invoices, estimates, customer payments, contacts
+import { zohoFetch, zohoFetchRaw } from "@/lib/zoho/client";
 
-// Base URLs for books
-const DCX = process.env.ZOHO_DC || "in"
-const domain = DCX === "in" ? "zoho.in" : DCX === "eu" ? "zoho.eu" : "zoho.com"
-const booksBase = `https://www.zohoapis.${domain}/books/v3`
+// === Types ===
+export interface BooksPageContext {
+  page: number;
+  per_page: number;
+  has_more_page: boolean;
+  report_name?: string;
+  sort_column?: string;
+  sort_order?: "A" | "D";
+  total?: number;
+}
+
+export interface BooksListResult<T> {
+  items: T[];
+  pageContext: BooksPageContext;
+}
+
+export type InvoiceStatus =
+  | "draft" | "sent" | "overdue" | "paid" | "void"
+  | "unpaid" | "partially_paid" | "viewed";
+
+export interface BooksInvoice {
+  invoice_id: string;
+  invoice_number: string;
+  customer_id: string;
+  customer_name: string;
+  status: InvoiceStatus | string;
+  date: string;
+  due_date: string;
+  currency_code: string;
+  total: number;
+  balance: number;
+  reference_number?: string;
+  email?: string;
+  last_payment_date?: string;
+  created_time?: string;
+}
+
+export interface BooksLineItem {
+  line_item_id: string;
+  item_id?: string;
+  name: string;
+  description?: string;
+  quantity: number;
+  rate: number;
+  item_total: number;
+}
+
+export interface BooksInvoicePayment {
+  payment_id: string;
+  payment_mode: string;
+  date: string;
+  amount: number;
+  reference_number?: string;
+}
+
+export interface BooksInvoiceDetail extends BooksInvoice {
+  line_items: BooksLineItem[];
+  sub_total: number;
+  tax_total: number;
+  payment_made: number;
+  credits_applied?: number;
+  write_off_amount?: number;
+  payments?: BooksInvoicePayment[];
+  invoice_url?: string;
+  notes?: string;
+  terms?: string;
+}
+
+export interface InvoicePaymentStatus {
+  invoiceId: string;
+  status: string;
+  currency: string;
+  total: number;
+  paid: number;
+  balance: number;
+  dueDate: string;
+  isOverdue: boolean;
+  lastPaymentDate?: string;
+  payments: BooksInvoicePayment[];
+}
+
+export type EstimateStatus = "draft" | "sent" | "invoiced" | "accepted" | "declined" | "expired";
+
+export interface BooksEstimate {
+  estimate_id: string;
+  estimate_number: string;
+  customer_id: string;
+  customer_name: string;
+  status: EstimateStatus | string;
+  date: string;
+  expiry_date?: string;
+  currency_code: string;
+  total: number;
+  reference_number?: string;
+}
+
+export interface BooksEstimateDetail extends BooksEstimate {
+  line_items: BooksLineItem[];
+  sub_total: number;
+  tax_total: number;
+  notes?: string;
+  terms?: string;
+}
+
+export interface BooksCustomerPayment {
+  payment_id: string;
+  payment_number: string;
+  customer_id: string;
+  customer_name: string;
+  payment_mode: string;
+  date: string;
+  amount: number;
+  unused_amount?: number;
+  currency_code?: string;
+  reference_number?: string;
+  invoices?: Array<{ invoice_id: string; invoice_number: string; amount_applied: number }>;
+}
+
+export interface BooksContact {
+  contact_id: string;
+  contact_name: string;
+  company_name?: string;
+  contact_type: "customer" | "vendor" | string;
+  status: "active" | "inactive" | string;
+  email?: string;
+  phone?: string;
+  currency_code?: string;
+  outstanding_receivable_amount?: number;
+  unused_credits_receivable_amount?: number;
+  crm_account_id?: string;
+}
+
+export interface BooksPaging {
+  page?: number;
+  perPage?: number;
+  sortColumn?: string;
+  sortOrder?: "A" | "D";
+}
+
+export interface InvoiceFilters extends BooksPaging {
+  status?: InvoiceStatus;
+  customerId?: string;
+  /** YYYY-MM-DD */
+  dateFrom?: string;
+  /** YYYY-MM-DD */
+  dateTo?: string;
+  search?: string;
+}
+
+export interface EstimateFilters extends BooksPaging {
+  status?: EstimateStatus;
+  customerId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  search?: string;
+}
+
+export interface PaymentFilters extends BooksPaging {
+  customerId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  search?: string;
+}
+
+export interface ContactFilters extends BooksPaging {
+  email?: string;
+  contactType?: "customer" | "vendor";
+  status?: "active" | "inactive";
+  search?: string;
+}
+
+interface CallOptions {
+  organizationId?: string;
+  cid?: string;
+}
+
+// === Helpers ===
+function organizationId(override?: string): string {
+  const id = override || process.env.ZOHO_BOOKS_ORG_ID || process.env.ZOHO_ORG_ID;
+  if (!id) {
+    throw new Error("zoho:books:organization_missing - Please set ZOHO_ORG_ID");
+  }
+  return id;
+}
+
+/** Zoho Books expects dates as YYYY-MM-DD; accept ISO timestamps too */
+function toBooksDate(value?: string): string | undefined {
+  return value ? value.slice(0, 10) : undefined;
+}
+
+function buildQuery(orgId: string, params: Record<string, string | number | undefined>): string {
+  const query = new URLSearchParams({ organization_id: orgId });
+  Object.keys(params).forEach(key => {
+    const value = params[key];
+    if (value !== undefined && value !== "") query.set(key, String(value));
+  });
+  return query.toString();
+}
+
+function pagingParams(paging: BooksPaging) {
+  return {
+    page: paging.page ?? 1,
+    per_page: Math.min(paging.perPage ?? 25, 200),
+    sort_column: paging.sortColumn,
+    sort_order: paging.sortOrder,
+  };
+}
+
+function normalizePageContext(raw: Partial<BooksPageContext> | undefined, paging: BooksPaging): BooksPageContext {
+  const requested = pagingParams(paging);
+  return {
+    page: raw?.page ?? requested.page,
+    per_page: raw?.per_page ?? requested.per_page,
+    has_more_page: raw?.has_more_page ?? false,
+    sort_column: raw?.sort_column,
+    sort_order: raw?.sort_order,
+    report_name: raw?.report_name,
+    total: raw?.total,
+  };
+}
+
+async function list<T>(
+  resource: string,
+  key: string,
+  params: Record<string, string | number | undefined>,
+  paging: BooksPaging,
+  opts: CallOptions
+): Promise<BooksListResult<T>> {
+  const query = buildQuery(organizationId(opts.organizationId), { ...pagingParams(paging), ...params });
+  const json = await zohoFetch<Record<string, any>>("books", `/${resource}?${query}`, { cid: opts.cid });
+  const items: T[] = json?.[key] || [];
+  return { items, pageContext: normalizePageContext(json?.page_context, paging) };
+}
+
+async function get<T>(resource: string, id: string, key: string, opts: CallOptions): Promise<T> {
+  const query = buildQuery(organizationId(opts.organizationId), {});
+  const json = await zohoFetch<Record<string, any>>("books", `/${resource}/${encodeURIComponent(id)}?${query}`, { cid: opts.cid });
+  if (!json?.[key]) {
+    throw new Error(`zoho:books:${resource}_not_found`);
+  }
+  return json[key] as T;
+}
+
+/**
+ * Follow page_context.has_more_page until exhausted (bounded by maxPages)
+ */
+export async function listAll<T>(
+  fetchPage: (page: number) => Promise<BooksListResult<T>>,
+  maxPages = 20
+): Promise<T[]> {
+  const items: T[] = [];
+  for (let page = 1; page <= maxPages; page++) {
+    const result = await fetchPage(page);
+    items.push(...result.items);
+    if (!result.pageContext.has_more_page) break;
+  }
+  return items;
+}
 
-export async function getInvoices() {
-  // Placeholder implementation
-  return []
+// === Invoices ===
+export function listInvoices(filters: InvoiceFilters = {}, opts: CallOptions = {}) {
+  return list<BooksInvoice>("invoices", "invoices", {
+    status: filters.status,
+    customer_id: filters.customerId,
+    date_start: toBooksDate(filters.dateFrom),
+    date_end: toBooksDate(filters.dateTo),
+    search_text: filters.search,
+  }, filters, opts);
 }
 
-export async function getInvoice(id: string) {
-  // Placeholder implementation
-  return null
+export function getInvoice(invoiceId: string, opts: CallOptions = {}) {
+  return get<BooksInvoiceDetail>("invoices", invoiceId, "invoice", opts);
 }
 
-export async function createInvoice(data: any) {
-  // Placeholder implementation
-  return { id: 'placeholder' }
+export async function getInvoicePdf(invoiceId: string, opts: CallOptions = {}): Promise<ArrayBuffer> {
+  const query = buildQuery(organizationId(opts.organizationId), { accept: "pdf" });
+  const resp = await zohoFetchRaw("books", `/invoices/${encodeURIComponent(invoiceId)}?${query}`, {
+    headers: { Accept: "application/pdf" },
+    cid: opts.cid,
+  });
+  return resp.arrayBuffer();
 }
 
-export async function request(endpoint: string, options?: RequestInit) {
-  // Placeholder implementation for generic API requests
-  console.log(`Books API request to: ${endpoint}`, options);
+export async function getInvoicePaymentStatus(invoiceId: string, opts: CallOptions = {}): Promise<InvoicePaymentStatus> {
+  const invoice = await getInvoice(invoiceId, opts);
+  const today = new Date().toISOString().slice(0, 10);
+
   return {
-    invoices: [],
-    page_context: {
-      total: 0,
-      page: 1,
-      per_page: 20
-    }
+    invoiceId: invoice.invoice_id,
+    status: invoice.status,
+    currency: invoice.currency_code,
+    total: invoice.total,
+    paid: invoice.payment_made ?? invoice.total - invoice.balance,
+    balance: invoice.balance,
+    dueDate: invoice.due_date,
+    isOverdue: invoice.status === "overdue" || (invoice.balance > 0 && !!invoice.due_date && invoice.due_date < today),
+    lastPaymentDate: invoice.last_payment_date,
+    payments: invoice.payments || [],
   };
 }
 
+export async function createInvoice(data: Record<string, unknown>, opts: CallOptions = {}) {
+  const query = buildQuery(organizationId(opts.organizationId), {});
+  const json = await zohoFetch<{ invoice?: BooksInvoiceDetail; message?: string }>("books", `/invoices?${query}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+    cid: opts.cid,
+  });
+  if (!json.invoice) {
+    throw new Error(`zoho:books:invoice_create_failed - ${json.message || "no invoice returned"}`);
+  }
+  return json.invoice;
+}
+
+export async function updateInvoice(invoiceId: string, data: Record<string, unknown>, opts: CallOptions = {}) {
+  const query = buildQuery(organizationId(opts.organizationId), {});
+  const json = await zohoFetch<{ invoice?: BooksInvoiceDetail; message?: string }>("books", `/invoices/${encodeURIComponent(invoiceId)}?${query}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+    cid: opts.cid,
+  });
+  if (!json.invoice) {
+    throw new Error(`zoho:books:invoice_update_failed - ${json.message || "no invoice returned"}`);
+  }
+  return json.invoice;
+}
+
+// === Estimates ===
+export function listEstimates(filters: EstimateFilters = {}, opts: CallOptions = {}) {
+  return list<BooksEstimate>("estimates", "estimates", {
+    status: filters.status,
+    customer_id: filters.customerId,
+    date_start: toBooksDate(filters.dateFrom),
+    date_end: toBooksDate(filters.dateTo),
+    search_text: filters.search,
+  }, filters, opts);
+}
+
+export function getEstimate(estimateId: string, opts: CallOptions = {}) {
+  return get<BooksEstimateDetail>("estimates", estimateId, "estimate", opts);
+}
+
+// === Customer payments ===
+export function listCustomerPayments(filters: PaymentFilters = {}, opts: CallOptions = {}) {
+  return list<BooksCustomerPayment>("customerpayments", "customerpayments", {
+    customer_id: filters.customerId,
+    date_start: toBooksDate(filters.dateFrom),
+    date_end: toBooksDate(filters.dateTo),
+    search_text: filters.search,
+  }, filters, opts);
+}
+
+export function getCustomerPayment(paymentId: string, opts: CallOptions = {}) {
+  return get<BooksCustomerPayment>("customerpayments", paymentId, "payment", opts);
+}
+
+// === Contacts ===
+export function listContacts(filters: ContactFilters = {}, opts: CallOptions = {}) {
+  return list<BooksContact>("contacts", "contacts", {
+    email: filters.email,
+    contact_type: filters.contactType,
+    filter_by: filters.status ? `Status.${filters.status === "active" ? "Active" : "Inactive"}` : undefined,
+    search_text: filters.search,
+  }, filters, opts);
+}
+
+export function getContact(contactId: string, opts: CallOptions = {}) {
+  return get<BooksContact>("contacts", contactId, "contact", opts);
+}
+
+/** Books matches the email filter loosely (substring), so only an exact, case-insensitive match counts */
+export async function findContactByEmail(email: string, opts: CallOptions = {}): Promise<BooksContact | null> {
+  const wanted = email.trim().toLowerCase();
+  if (!wanted) return null;
+  const { items } = await listContacts({ email: wanted, contactType: "customer", perPage: 25 }, opts);
+  return items.find(contact => contact.email?.trim().toLowerCase() === wanted) ?? null;
+}
+
+// === Generic ===
+export function request<T = any>(endpoint: string, options?: RequestInit & { cid?: string }) {
+  return zohoFetch<T>("books", endpoint, options);
+}
+
+/** @deprecated use listInvoices */
+export async function getInvoices(filters: InvoiceFilters = {}) {
+  const { items } = await listInvoices(filters);
+  return items;
+}
+
 const booksAPI = {
-  getInvoices,
+  listInvoices,
   getInvoice,
+  getInvoices,
+  getInvoicePdf,
+  getInvoicePaymentStatus,
   createInvoice,
-  request
+  updateInvoice,
+  listEstimates,
+  getEstimate,
+  listCustomerPayments,
+  getCustomerPayment,
+  listContacts,
+  getContact,
+  findContactByEmail,
+  listAll,
+  request,
 }
 
 export default booksAPI
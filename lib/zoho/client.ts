@@ -1,5 +1,6 @@
 // lib/zoho/client.ts — Per-service OAuth, retries, correlation IDs
 import { logger } from "@/library/logger";
+import { createTokenStore, type TokenStore } from "@/lib/zoho/token-store";
 
 // Fallback UUID generation for environments where crypto.randomUUID is not available
 function generateUUID(): string {
@@ -22,7 +23,17 @@ export interface CampaignSubscriber {
   company?: string;
 }
 
-type Service = "crm" | "bookings" | "workdrive" | "campaigns" | "projects" | "books";
+export interface CrmContact {
+  id: string;
+  Email: string;
+  First_Name?: string | null;
+  Last_Name?: string;
+  Full_Name?: string;
+  Account_Name?: { id: string; name: string } | null;
+  [key: string]: unknown;
+}
+
+export type Service = "crm" | "bookings" | "workdrive" | "campaigns" | "projects" | "books";
 type DC = "in" | "eu" | "com" | "com.au" | "jp";
 
 const DC_ENV = (process.env.ZOHO_DC as DC) || "in";
@@ -76,7 +87,40 @@ const CREDS: Record<Service, { id: string; secret: string; refresh: string }> =
   },
 };
 
-const cache = new Map<Service, { token: string; exp: number }>();
+// Shared across instances when backed by redis; see lib/zoho/token-store. Created on first use so a
+// missing store fails Zoho calls with a clear error instead of every route importing this module
+let tokenStore: TokenStore | null = null;
+// Single-flight: concurrent callers in this process share one refresh per service
+const inflight = new Map<Service, Promise<string>>();
+
+const REFRESH_LOCK_TTL_MS = 15_000;
+const LOCK_POLL_MS = 250;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+/** Swap the token store (tests, scripts) */
+export function setZohoTokenStore(store: TokenStore) {
+  tokenStore = store;
+  inflight.clear();
+}
+
+/** Throws StoreConfigurationError when no token store is configured; not swallowed like store I/O errors */
+function getTokenStore(): TokenStore {
+  if (!tokenStore) tokenStore = createTokenStore();
+  return tokenStore;
+}
+
+async function readCachedToken(svc: Service): Promise<string | null> {
+  const store = getTokenStore();
+  try {
+    const hit = await store.get(svc);
+    return hit && hit.exp > nowSeconds() ? hit.token : null;
+  } catch (err: any) {
+    logger.warn("zoho.token.store.read_failed", { svc, store: store.kind, error: err?.message });
+    return null;
+  }
+}
 
 // Export for status checks and scripts
 export async function zohoAccessToken(svc: Service): Promise<string> {
@@ -129,33 +173,85 @@ async function refreshToken(svc: Service) {
     throw new Error(errorMsg);
   }
   
-  const now = Math.floor(Date.now() / 1000);
-  cache.set(svc, { token: json.access_token, exp: now + ((json.expires_in ?? 3600) - 60) });
-  logger.info("zoho.token.refreshed", { svc, expiresIn: json.expires_in });
+  const exp = nowSeconds() + ((json.expires_in ?? 3600) - 60);
+  const store = getTokenStore();
+  try {
+    await store.set(svc, { token: json.access_token, exp });
+  } catch (err: any) {
+    logger.warn("zoho.token.store.write_failed", { svc, store: store.kind, error: err?.message });
+  }
+  logger.info("zoho.token.refreshed", { svc, expiresIn: json.expires_in, store: store.kind });
   return json.access_token as string;
 }
 
+async function refreshWithLock(svc: Service): Promise<string> {
+  const store = getTokenStore();
+  let release: (() => Promise<void>) | null = null;
+  try {
+    release = await store.acquireLock(svc, REFRESH_LOCK_TTL_MS);
+  } catch (err: any) {
+    // Lock backend unavailable: refresh anyway rather than failing the request
+    logger.warn("zoho.token.lock.unavailable", { svc, store: store.kind, error: err?.message });
+    return refreshToken(svc);
+  }
+
+  if (!release) {
+    // Another instance is refreshing — wait for it to publish the new token
+    const deadline = Date.now() + REFRESH_LOCK_TTL_MS;
+    while (Date.now() < deadline) {
+      await sleep(LOCK_POLL_MS);
+      const token = await readCachedToken(svc);
+      if (token) return token;
+    }
+    logger.warn("zoho.token.lock.timeout", { svc, store: store.kind });
+    return refreshToken(svc);
+  }
+
+  try {
+    // Re-check: the previous lock holder may have just stored a fresh token
+    const token = await readCachedToken(svc);
+    if (token) return token;
+    return await refreshToken(svc);
+  } finally {
+    await release().catch(() => undefined);
+  }
+}
+
 async function getAccessToken(svc: Service) {
-  const hit = cache.get(svc);
-  const now = Math.floor(Date.now() / 1000);
-  if (hit && hit.exp > now) return hit.token;
-  return refreshToken(svc);
+  const cached = await readCachedToken(svc);
+  if (cached) return cached;
+
+  const pending = inflight.get(svc);
+  if (pending) return pending;
+
+  const refresh = refreshWithLock(svc).finally(() => inflight.delete(svc));
+  inflight.set(svc, refresh);
+  return refresh;
 }
 
-export async function zohoFetch<T>(
+/** Drop a rejected token, unless another caller already replaced it */
+async function invalidateToken(svc: Service, token: string) {
+  const store = getTokenStore();
+  try {
+    const hit = await store.get(svc);
+    if (hit?.token === token) await store.delete(svc);
+  } catch (err: any) {
+    logger.warn("zoho.token.store.invalidate_failed", { svc, store: store.kind, error: err?.message });
+  }
+}
+
+/**
+ * Authenticated request returning the raw Response (binary downloads such as PDFs)
+ */
+export async function zohoFetchRaw(
   svc: Service,
   path: string,
   init: RequestInit & { retry?: number; cid?: string } = {}
-): Promise<T> {
+): Promise<Response> {
   const url = `${BASES[svc]}${path.startsWith("/") ? "" : "/"}${path}`;
   const cid = init.cid || generateUUID();
   
-  // Clear cache for bookings to force fresh token
-  if (svc === 'bookings') {
-    cache.delete(svc);
-  }
-  
-  const attempt = async (retries: number): Promise<T> => {
+  const attempt = async (retries: number): Promise<Response> => {
     const token = await getAccessToken(svc);
     const headers = new Headers(init.headers);
     headers.set("Authorization", `Zoho-oauthtoken ${token}`);
@@ -165,7 +261,7 @@ export async function zohoFetch<T>(
     const resp = await fetch(url, { ...init, headers });
 
     if (resp.status === 401 && retries > 0) {
-      cache.delete(svc);
+      await invalidateToken(svc, token);
       return attempt(retries - 1);
     }
     if (resp.status === 429 && retries > 0) {
@@ -177,11 +273,20 @@ export async function zohoFetch<T>(
       logger.error("zoho.api.error", { svc, url, status: resp.status, cid, body: text?.slice(0, 500) });
       throw new Error(`zoho:${svc}:${resp.status}`);
     }
-    return (await resp.json()) as T;
+    return resp;
   };
   return attempt(init.retry ?? 2);
 }
 
+export async function zohoFetch<T>(
+  svc: Service,
+  path: string,
+  init: RequestInit & { retry?: number; cid?: string } = {}
+): Promise<T> {
+  const resp = await zohoFetchRaw(svc, path, init);
+  return (await resp.json()) as T;
+}
+
 // === CRM ===
 export const crm = {
   upsertLead: (payload: unknown, cid?: string) =>
@@ -193,6 +298,13 @@ export const crm = {
     }),
   fields: (moduleName: string, cid?: string) =>
     zohoFetch("crm", `/settings/fields?module=${encodeURIComponent(moduleName)}`, { cid }),
+  findContactByEmail: async (email: string, cid?: string): Promise<CrmContact | null> => {
+    const resp = await zohoFetchRaw("crm", `/Contacts/search?email=${encodeURIComponent(email)}`, { cid });
+    // CRM search answers 204 No Content when nothing matches
+    if (resp.status === 204) return null;
+    const json = await resp.json() as { data?: CrmContact[] };
+    return json.data?.[0] ?? null;
+  },
 };
 
 // === Bookings ===
@@ -245,6 +357,68 @@ export const workdrive = {
       throw new Error(`zoho:workdrive:${response.status}`);
     }
     
+    return await response.json();
+  },
+  /**
+   * Same upload, but the multipart body is streamed so large files never sit in memory.
+   * `size` must be the exact byte length of `content`
+   */
+  uploadStream: async (
+    parentId: string,
+    content: ReadableStream<Uint8Array>,
+    size: number,
+    filename: string,
+    type = "application/octet-stream",
+    cid?: string
+  ) => {
+    const token = await getAccessToken("workdrive");
+    const boundary = `----ideinstein-${generateUUID()}`;
+    const encoder = new TextEncoder();
+    const head = encoder.encode(
+      `--${boundary}\r\nContent-Disposition: form-data; name="parent_id"\r\n\r\n${parentId}\r\n` +
+      `--${boundary}\r\nContent-Disposition: form-data; name="content"; filename="${filename.replace(/["\r\n]/g, "_")}"\r\n` +
+      `Content-Type: ${type}\r\n\r\n`
+    );
+    const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+    const reader = content.getReader();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(head);
+      },
+      async pull(controller) {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.enqueue(tail);
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    });
+
+    const response = await fetch(`${BASES.workdrive}/upload`, {
+      method: "POST",
+      headers: {
+        Authorization: `Zoho-oauthtoken ${token}`,
+        "X-Correlation-ID": cid || generateUUID(),
+        "Content-Type": `multipart/form-data; boundary=${boundary}`,
+        "Content-Length": String(head.byteLength + size + tail.byteLength),
+      },
+      body,
+      // Required by Node's fetch for streamed request bodies
+      duplex: "half",
+    } as RequestInit & { duplex: "half" });
+
+    if (!response.ok) {
+      const text = await response.text();
+      logger.error("zoho.workdrive.upload.error", { status: response.status, body: text?.slice(0, 500), cid });
+      throw new Error(`zoho:workdrive:${response.status}`);
+    }
+
     return await response.json();
   },
 };
@@ -280,14 +454,38 @@ export const campaigns = {
     }
     return json;
   },
+  listUnsubscribe: async (listKey: string, email: string, cid?: string) => {
+    const token = await getAccessToken("campaigns");
+    const url = `${BASES.campaigns}/json/listunsubscribe`;
+    const body = new URLSearchParams({
+      listkey: listKey,
+      contactinfo: JSON.stringify({ email }),
+    });
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Zoho-oauthtoken ${token}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+        Accept: "application/json",
+        "X-Correlation-ID": cid || generateUUID(),
+      },
+      body,
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      logger.error("zoho.campaigns.error", { status: res.status, json, cid });
+      throw new Error(`zoho:campaigns:${res.status}`);
+    }
+    return json;
+  },
 };
 
 // === Projects ===
 export const projects = {
   listProjects: (portalId: string, cid?: string) =>
-    zohoFetch("projects", `/${portalId}/projects/`, { cid }),
+    zohoFetch("projects", `/portal/${portalId}/projects/`, { cid }),
   getProject: (portalId: string, projectId: string, cid?: string) =>
-    zohoFetch("projects", `/${portalId}/projects/${projectId}/`, { cid }),
+    zohoFetch("projects", `/portal/${portalId}/projects/${projectId}/`, { cid }),
   request: <T = any>(endpoint: string, options?: RequestInit & { cid?: string }) =>
     zohoFetch<T>("projects", endpoint, options),
 };
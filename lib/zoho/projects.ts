@@ -1,38 +1,476 @@
 // lib/zoho/projects.ts
-// Zoho Projects integration placeholder
+// Typed Zoho Projects REST API — portals, projects, milestones, task lists, tasks, time logs
+import { zohoFetch, zohoFetchRaw } from "@/lib/zoho/client";
 
-// Base URLs for projects
-const DCX = process.env.ZOHO_DC || "in"
-const domain = DCX === "in" ? "zoho.in" : DCX === "eu" ? "zoho.eu" : "zoho.com"
-const projectsBase = `https://www.zohoapis.${domain}/projects/v3`
+// === Types ===
+export interface ProjectsPortal {
+  id: string;
+  id_string: string;
+  name: string;
+  default?: boolean;
+  role?: string;
+  project_count?: { active?: number; archived?: number; template?: number };
+}
+
+export interface ProjectsCount {
+  open: number;
+  closed: number;
+}
+
+export interface ProjectsCustomField {
+  label_name?: string;
+  column_name?: string;
+  value?: string;
+  [key: string]: unknown;
+}
+
+export interface ZohoProject {
+  id: string;
+  id_string: string;
+  name: string;
+  description?: string;
+  status: "active" | "archived" | "template" | string;
+  custom_status_name?: string;
+  owner_name?: string;
+  owner_id?: string;
+  created_date?: string;
+  created_date_long?: number;
+  start_date?: string;
+  start_date_long?: number;
+  end_date?: string;
+  end_date_long?: number;
+  task_count?: ProjectsCount;
+  milestone_count?: ProjectsCount;
+  bug_count?: ProjectsCount;
+  group_name?: string;
+  custom_fields?: ProjectsCustomField[];
+  link?: { self?: { url: string }; [key: string]: unknown };
+}
+
+export interface ProjectsMilestone {
+  id: string;
+  id_string?: string;
+  name: string;
+  owner_name?: string;
+  start_date?: string;
+  start_date_long?: number;
+  end_date?: string;
+  end_date_long?: number;
+  /** "notcompleted" | "completed" */
+  status: string;
+  completed_date?: string;
+  completed_date_long?: number;
+  flag?: "internal" | "external" | string;
+  sequence?: number;
+}
+
+export interface ProjectsTaskList {
+  id: string;
+  id_string?: string;
+  name: string;
+  completed: boolean;
+  milestone?: { id: string; name: string };
+  flag?: string;
+  created_time?: string;
+  sequence?: number;
+}
+
+export interface ProjectsTask {
+  id: string;
+  id_string?: string;
+  key?: string;
+  name: string;
+  completed: boolean;
+  status?: { name: string; type: string; color_code?: string };
+  percent_complete?: string;
+  priority?: string;
+  start_date?: string;
+  end_date?: string;
+  end_date_long?: number;
+  details?: { owners?: Array<{ id?: string; name: string }> };
+  tasklist?: { id: string; name: string };
+  log_hours?: { billable_hours?: string; non_billable_hours?: string };
+}
+
+export interface ProjectsTimeLog {
+  id: string;
+  id_string?: string;
+  log_date?: string;
+  log_date_long?: number;
+  hours: number;
+  minutes: number;
+  hours_display?: string;
+  total_minutes?: number;
+  bill_status?: "Billable" | "Non Billable" | string;
+  owner_name?: string;
+  notes?: string;
+  task?: { id: string; name: string };
+}
+
+export interface ProjectsTimeLogDay {
+  date: string;
+  display_format?: string;
+  total_hours?: string;
+  tasklogs?: ProjectsTimeLog[];
+  generallogs?: ProjectsTimeLog[];
+}
+
+export interface ProjectsListResult<T> {
+  items: T[];
+  /** 1-based index of the first item returned */
+  index: number;
+  range: number;
+  hasMore: boolean;
+}
+
+export interface ProjectsPaging {
+  page?: number;
+  perPage?: number;
+}
+
+export interface ProjectFilters extends ProjectsPaging {
+  status?: "active" | "archived" | "template";
+  sortColumn?: "created_time" | "last_modified_time";
+  sortOrder?: "ascending" | "descending";
+}
+
+export interface MilestoneFilters extends ProjectsPaging {
+  status?: "completed" | "notcompleted" | "all";
+  displayType?: "upcoming" | "delayed" | "all";
+  flag?: "internal" | "allflag";
+}
+
+export interface TaskListFilters extends ProjectsPaging {
+  flag?: "internal" | "external" | "allflag";
+  milestoneId?: string;
+}
+
+export interface TaskFilters extends ProjectsPaging {
+  status?: "all" | "completed" | "notcompleted";
+  tasklistId?: string;
+  owner?: string;
+  priority?: "none" | "low" | "medium" | "high";
+}
+
+export interface TimeLogFilters extends ProjectsPaging {
+  usersList?: string;
+  viewType?: "day" | "week" | "month";
+  /** MM-DD-YYYY */
+  date?: string;
+  billStatus?: "All" | "Billable" | "Non Billable";
+  componentType?: "task" | "bug" | "general";
+}
+
+export interface ProjectOverview {
+  id: string;
+  name: string;
+  description: string;
+  status: string;
+  created_date: string;
+  start_date?: string;
+  end_date?: string;
+  owner?: string;
+  progress: number;
+  tasks: ProjectsCount;
+  milestones: Array<{ id: string; name: string; end_date?: string; completed: boolean }>;
+  nextMilestone?: { id: string; name: string; end_date?: string; overdue: boolean };
+}
+
+interface CallOptions {
+  portalId?: string;
+  cid?: string;
+}
+
+// === Helpers ===
+const MAX_RANGE = 200;
+
+function portalId(override?: string): string {
+  const id = override || process.env.ZOHO_PROJECTS_PORTAL_ID;
+  if (!id) {
+    throw new Error("zoho:projects:portal_missing - Please set ZOHO_PROJECTS_PORTAL_ID");
+  }
+  return id;
+}
+
+function buildQuery(params: Record<string, string | number | undefined>): string {
+  const query = new URLSearchParams();
+  Object.keys(params).forEach(key => {
+    const value = params[key];
+    if (value !== undefined && value !== "") query.set(key, String(value));
+  });
+  const str = query.toString();
+  return str ? `?${str}` : "";
+}
+
+/** Zoho Projects pages with a 1-based `index` and a `range` (max 200) */
+function pagingParams(paging: ProjectsPaging) {
+  const range = Math.min(paging.perPage ?? 50, MAX_RANGE);
+  const page = paging.page ?? 1;
+  return { index: (page - 1) * range + 1, range };
+}
 
-export async function getProjects() {
-  // Placeholder implementation
-  return []
+async function list<T>(
+  path: string,
+  key: string,
+  params: Record<string, string | number | undefined>,
+  paging: ProjectsPaging,
+  opts: CallOptions
+): Promise<ProjectsListResult<T>> {
+  const { index, range } = pagingParams(paging);
+  const resp = await zohoFetchRaw("projects", `${path}${buildQuery({ index, range, ...params })}`, { cid: opts.cid });
+  // Zoho Projects answers 204 No Content for empty lists
+  const json: Record<string, any> | null = resp.status === 204 ? null : await resp.json();
+  const items: T[] = json?.[key] || [];
+  return { items, index, range, hasMore: items.length === range };
 }
 
-export async function getProject(id: string) {
-  // Placeholder implementation
-  return null
+function portalPath(opts: CallOptions) {
+  return `/portal/${encodeURIComponent(portalId(opts.portalId))}`;
 }
 
-export async function request(endpoint: string, options?: RequestInit) {
-  // Placeholder implementation for generic API requests
-  console.log(`Projects API request to: ${endpoint}`, options);
+function projectPath(projectId: string, opts: CallOptions) {
+  return `${portalPath(opts)}/projects/${encodeURIComponent(projectId)}`;
+}
+
+/**
+ * Follow index/range paging until a short page comes back (bounded by maxPages)
+ */
+export async function listAll<T>(
+  fetchPage: (page: number) => Promise<ProjectsListResult<T>>,
+  maxPages = 20
+): Promise<T[]> {
+  const items: T[] = [];
+  for (let page = 1; page <= maxPages; page++) {
+    const result = await fetchPage(page);
+    items.push(...result.items);
+    if (!result.hasMore) break;
+  }
+  return items;
+}
+
+// === Portals ===
+export async function listPortals(cid?: string): Promise<ProjectsPortal[]> {
+  const json = await zohoFetch<{ portals?: ProjectsPortal[] }>("projects", "/portals/", { cid });
+  return json.portals || [];
+}
+
+// === Projects ===
+export function listProjects(filters: ProjectFilters = {}, opts: CallOptions = {}) {
+  return list<ZohoProject>(`${portalPath(opts)}/projects/`, "projects", {
+    status: filters.status,
+    sort_column: filters.sortColumn,
+    sort_order: filters.sortOrder,
+  }, filters, opts);
+}
+
+export async function getProject(projectId: string, opts: CallOptions = {}): Promise<ZohoProject> {
+  const json = await zohoFetch<{ projects?: ZohoProject[] }>("projects", `${projectPath(projectId, opts)}/`, { cid: opts.cid });
+  const project = json.projects?.[0];
+  if (!project) {
+    throw new Error("zoho:projects:project_not_found");
+  }
+  return project;
+}
+
+export interface ProjectInput {
+  name?: string;
+  description?: string;
+  owner?: string;
+  /** MM-DD-YYYY */
+  start_date?: string;
+  /** MM-DD-YYYY */
+  end_date?: string;
+  status?: "active" | "archived";
+  template_id?: string;
+  group_id?: string;
+  [key: string]: string | undefined;
+}
+
+/** Zoho Projects takes form-encoded parameters on create/update */
+function formBody(input: ProjectInput): URLSearchParams {
+  const body = new URLSearchParams();
+  Object.keys(input).forEach(key => {
+    const value = input[key];
+    if (value !== undefined) body.set(key, value);
+  });
+  return body;
+}
+
+export async function createProject(input: ProjectInput & { name: string }, opts: CallOptions = {}): Promise<ZohoProject> {
+  const json = await zohoFetch<{ projects?: ZohoProject[] }>("projects", `${portalPath(opts)}/projects/`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: formBody(input),
+    cid: opts.cid,
+  });
+  const project = json.projects?.[0];
+  if (!project) {
+    throw new Error("zoho:projects:create_failed");
+  }
+  return project;
+}
+
+/** Zoho Projects uses POST for updates */
+export async function updateProject(projectId: string, input: ProjectInput, opts: CallOptions = {}): Promise<ZohoProject> {
+  const json = await zohoFetch<{ projects?: ZohoProject[] }>("projects", `${projectPath(projectId, opts)}/`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: formBody(input),
+    cid: opts.cid,
+  });
+  const project = json.projects?.[0];
+  if (!project) {
+    throw new Error("zoho:projects:update_failed");
+  }
+  return project;
+}
+
+// === Milestones ===
+export function listMilestones(projectId: string, filters: MilestoneFilters = {}, opts: CallOptions = {}) {
+  return list<ProjectsMilestone>(`${projectPath(projectId, opts)}/milestones/`, "milestones", {
+    status: filters.status ?? "all",
+    display_type: filters.displayType ?? "all",
+    flag: filters.flag ?? "allflag",
+  }, filters, opts);
+}
+
+// === Task lists ===
+export function listTaskLists(projectId: string, filters: TaskListFilters = {}, opts: CallOptions = {}) {
+  return list<ProjectsTaskList>(`${projectPath(projectId, opts)}/tasklists/`, "tasklists", {
+    flag: filters.flag ?? "allflag",
+    milestone_id: filters.milestoneId,
+  }, filters, opts);
+}
+
+// === Tasks ===
+export function listTasks(projectId: string, filters: TaskFilters = {}, opts: CallOptions = {}) {
+  const path = filters.tasklistId
+    ? `${projectPath(projectId, opts)}/tasklists/${encodeURIComponent(filters.tasklistId)}/tasks/`
+    : `${projectPath(projectId, opts)}/tasks/`;
+
+  return list<ProjectsTask>(path, "tasks", {
+    status: filters.status,
+    owner: filters.owner,
+    priority: filters.priority,
+  }, filters, opts);
+}
+
+export async function getTask(projectId: string, taskId: string, opts: CallOptions = {}): Promise<ProjectsTask> {
+  const json = await zohoFetch<{ tasks?: ProjectsTask[] }>(
+    "projects",
+    `${projectPath(projectId, opts)}/tasks/${encodeURIComponent(taskId)}/`,
+    { cid: opts.cid }
+  );
+  const task = json.tasks?.[0];
+  if (!task) {
+    throw new Error("zoho:projects:task_not_found");
+  }
+  return task;
+}
+
+// === Time logs ===
+export async function listTimeLogs(projectId: string, filters: TimeLogFilters = {}, opts: CallOptions = {}) {
+  const { index, range } = pagingParams(filters);
+  const json = await zohoFetch<{ timelogs?: { date?: ProjectsTimeLogDay[]; grandtotal?: string } }>(
+    "projects",
+    `${projectPath(projectId, opts)}/logs/${buildQuery({
+      index,
+      range,
+      users_list: filters.usersList ?? "all",
+      view_type: filters.viewType ?? "month",
+      date: filters.date ?? formatProjectsDate(new Date()),
+      bill_status: filters.billStatus ?? "All",
+      component_type: filters.componentType ?? "task",
+    })}`,
+    { cid: opts.cid }
+  );
+
   return {
-    projects: [],
-    page_context: {
-      total: 0,
-      page: 1,
-      per_page: 20
-    }
+    days: json.timelogs?.date || [],
+    grandTotal: json.timelogs?.grandtotal || "00:00",
   };
 }
 
+/** Zoho Projects expects MM-DD-YYYY in query parameters */
+export function formatProjectsDate(date: Date): string {
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  const dd = String(date.getDate()).padStart(2, "0");
+  return `${mm}-${dd}-${date.getFullYear()}`;
+}
+
+// === Portal cards ===
+export function projectProgress(project: ZohoProject): number {
+  const open = project.task_count?.open ?? 0;
+  const closed = project.task_count?.closed ?? 0;
+  const total = open + closed;
+  return total === 0 ? 0 : Math.round((closed / total) * 100);
+}
+
+/**
+ * Project plus milestones in the shape the customer portal renders
+ */
+export async function getProjectOverview(project: ZohoProject, opts: CallOptions = {}): Promise<ProjectOverview> {
+  const milestones = await listAll(page => listMilestones(project.id_string || project.id, { page, perPage: 100 }, opts), 3)
+    .catch(() => [] as ProjectsMilestone[]);
+
+  const sorted = milestones
+    .slice()
+    .sort((a, b) => (a.end_date_long ?? Number.MAX_SAFE_INTEGER) - (b.end_date_long ?? Number.MAX_SAFE_INTEGER));
+  const next = sorted.find(milestone => milestone.status !== "completed");
+
+  return {
+    id: project.id_string || String(project.id),
+    name: project.name,
+    description: project.description || "",
+    status: project.custom_status_name || project.status,
+    created_date: project.created_date_long ? new Date(project.created_date_long).toISOString() : project.created_date || "",
+    start_date: project.start_date,
+    end_date: project.end_date,
+    owner: project.owner_name,
+    progress: projectProgress(project),
+    tasks: { open: project.task_count?.open ?? 0, closed: project.task_count?.closed ?? 0 },
+    milestones: sorted.map(milestone => ({
+      id: milestone.id_string || String(milestone.id),
+      name: milestone.name,
+      end_date: milestone.end_date,
+      completed: milestone.status === "completed",
+    })),
+    nextMilestone: next ? {
+      id: next.id_string || String(next.id),
+      name: next.name,
+      end_date: next.end_date,
+      overdue: !!next.end_date_long && next.end_date_long < Date.now(),
+    } : undefined,
+  };
+}
+
+// === Generic ===
+export function request<T = any>(endpoint: string, options?: RequestInit & { cid?: string }) {
+  return zohoFetch<T>("projects", endpoint, options);
+}
+
+/** @deprecated use listProjects */
+export async function getProjects(filters: ProjectFilters = {}) {
+  const { items } = await listProjects(filters);
+  return items;
+}
+
 const projectsAPI = {
+  listPortals,
+  listProjects,
   getProjects,
   getProject,
-  request
+  createProject,
+  updateProject,
+  listMilestones,
+  listTaskLists,
+  listTasks,
+  getTask,
+  listTimeLogs,
+  getProjectOverview,
+  projectProgress,
+  listAll,
+  request,
 }
 
 export default projectsAPI
@@ -0,0 +1,182 @@
+// lib/zoho/token-store.ts — Shared access-token cache + refresh locks for lib/zoho/client
+import { mkdir, open, readFile, rm, stat, writeFile, rename } from "fs/promises";
+import path from "path";
+import type { RedisLike } from "@/lib/redis";
+import { resolveStoreBackend } from "@/lib/stores";
+
+export interface CachedToken {
+  token: string;
+  /** Expiry as epoch seconds (already includes the refresh safety margin) */
+  exp: number;
+}
+
+/** Releases a refresh lock; safe to call more than once */
+export type ReleaseLock = () => Promise<void>;
+
+export interface TokenStore {
+  readonly kind: "memory" | "file" | "redis";
+  get(svc: string): Promise<CachedToken | null>;
+  set(svc: string, value: CachedToken): Promise<void>;
+  delete(svc: string): Promise<void>;
+  /** Take the per-service refresh lock, or null when another holder has it */
+  acquireLock(svc: string, ttlMs: number): Promise<ReleaseLock | null>;
+}
+
+function lockOwner(): string {
+  return `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// === Memory (single instance / tests) ===
+export class MemoryTokenStore implements TokenStore {
+  readonly kind = "memory" as const;
+  private tokens = new Map<string, CachedToken>();
+  private locks = new Map<string, { owner: string; until: number }>();
+
+  async get(svc: string) {
+    return this.tokens.get(svc) ?? null;
+  }
+
+  async set(svc: string, value: CachedToken) {
+    this.tokens.set(svc, value);
+  }
+
+  async delete(svc: string) {
+    this.tokens.delete(svc);
+  }
+
+  async acquireLock(svc: string, ttlMs: number): Promise<ReleaseLock | null> {
+    const now = Date.now();
+    const held = this.locks.get(svc);
+    if (held && held.until > now) return null;
+
+    const owner = lockOwner();
+    this.locks.set(svc, { owner, until: now + ttlMs });
+    return async () => {
+      if (this.locks.get(svc)?.owner === owner) this.locks.delete(svc);
+    };
+  }
+}
+
+// === Filesystem (several processes on one host) ===
+export class FileTokenStore implements TokenStore {
+  readonly kind = "file" as const;
+
+  constructor(private readonly dir: string) {}
+
+  private tokenPath(svc: string) {
+    return path.join(this.dir, `${svc}.json`);
+  }
+
+  private lockPath(svc: string) {
+    return path.join(this.dir, `${svc}.lock`);
+  }
+
+  async get(svc: string) {
+    try {
+      return JSON.parse(await readFile(this.tokenPath(svc), "utf-8")) as CachedToken;
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async set(svc: string, value: CachedToken) {
+    await mkdir(this.dir, { recursive: true });
+    const target = this.tokenPath(svc);
+    const temp = `${target}.${process.pid}.tmp`;
+    // Tokens are credentials: owner-only permissions
+    await writeFile(temp, JSON.stringify(value), { encoding: "utf-8", mode: 0o600 });
+    await rename(temp, target);
+  }
+
+  async delete(svc: string) {
+    await rm(this.tokenPath(svc), { force: true });
+  }
+
+  async acquireLock(svc: string, ttlMs: number): Promise<ReleaseLock | null> {
+    await mkdir(this.dir, { recursive: true });
+    const lockFile = this.lockPath(svc);
+
+    // Break locks left behind by a crashed holder
+    try {
+      const info = await stat(lockFile);
+      if (Date.now() - info.mtimeMs > ttlMs) await rm(lockFile, { force: true });
+    } catch {
+      // no existing lock
+    }
+
+    try {
+      const handle = await open(lockFile, "wx", 0o600);
+      await handle.close();
+    } catch (err: any) {
+      if (err?.code === "EEXIST") return null;
+      throw err;
+    }
+
+    let released = false;
+    return async () => {
+      if (released) return;
+      released = true;
+      await rm(lockFile, { force: true });
+    };
+  }
+}
+
+// === Redis-compatible (serverless, many instances) ===
+const RELEASE_SCRIPT = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end";
+
+export class RedisTokenStore implements TokenStore {
+  readonly kind = "redis" as const;
+
+  constructor(private readonly redis: RedisLike, private readonly prefix = "zoho:token") {}
+
+  async get(svc: string) {
+    const raw = await this.redis.get(`${this.prefix}:${svc}`);
+    return raw ? (JSON.parse(raw) as CachedToken) : null;
+  }
+
+  async set(svc: string, value: CachedToken) {
+    const ttlMs = Math.max(1000, value.exp * 1000 - Date.now());
+    await this.redis.set(`${this.prefix}:${svc}`, JSON.stringify(value), { px: ttlMs });
+  }
+
+  async delete(svc: string) {
+    await this.redis.del(`${this.prefix}:${svc}`);
+  }
+
+  async acquireLock(svc: string, ttlMs: number): Promise<ReleaseLock | null> {
+    const key = `${this.prefix}:lock:${svc}`;
+    const owner = lockOwner();
+    const acquired = await this.redis.set(key, owner, { px: ttlMs, nx: true });
+    if (!acquired) return null;
+
+    return async () => {
+      // Compare-and-delete so we never drop a lock that expired and was re-taken
+      await this.redis.command(["EVAL", RELEASE_SCRIPT, 1, key, owner]);
+    };
+  }
+}
+
+/**
+ * Pick the token store from ZOHO_TOKEN_STORE (redis | file | memory). Defaults to redis when
+ * Upstash/Vercel KV credentials exist, otherwise files under ZOHO_TOKEN_STORE_DIR where the disk
+ * outlives the instance, otherwise memory. Memory is accepted in production because the cache can
+ * always be rebuilt from the refresh token; it only costs one refresh per instance
+ */
+export function createTokenStore(): TokenStore {
+  const backend = resolveStoreBackend({
+    name: "zoho-tokens",
+    envVar: "ZOHO_TOKEN_STORE",
+    dirEnvVar: "ZOHO_TOKEN_STORE_DIR",
+    allowMemoryInProduction: "each instance refreshes its own access token; set UPSTASH_REDIS_REST_URL to share them",
+  });
+
+  switch (backend.kind) {
+    case "redis":
+      return new RedisTokenStore(backend.redis);
+    case "file":
+      return new FileTokenStore(backend.dir);
+    case "memory":
+      return new MemoryTokenStore();
+  }
+}
@@ -0,0 +1,158 @@
+// lib/zoho/workdrive.ts
+// Typed Zoho WorkDrive REST API — folder listing, lookup, download and trash
+import { workdrive, zohoFetch, zohoFetchRaw } from "@/lib/zoho/client";
+
+// === Types ===
+export interface WorkDriveFileAttributes {
+  name: string;
+  type: string;
+  extn?: string;
+  is_folder: boolean;
+  parent_id: string;
+  permalink?: string;
+  download_url?: string;
+  created_time_in_millisecond?: number;
+  modified_time_in_millisecond?: number;
+  created_by?: string;
+  storage_info?: { size_in_bytes?: number; size?: string };
+  /** "1" active, "51" trashed */
+  status?: string | number;
+  [key: string]: unknown;
+}
+
+export interface WorkDriveFile {
+  id: string;
+  type: "files";
+  attributes: WorkDriveFileAttributes;
+}
+
+export interface WorkDriveListResult {
+  items: WorkDriveFile[];
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+export interface WorkDrivePaging {
+  page?: number;
+  perPage?: number;
+}
+
+// === Helpers ===
+const JSON_API = "application/vnd.api+json";
+const MAX_LIMIT = 50;
+
+function pagingParams(paging: WorkDrivePaging) {
+  const limit = Math.min(paging.perPage ?? MAX_LIMIT, MAX_LIMIT);
+  return { offset: ((paging.page ?? 1) - 1) * limit, limit };
+}
+
+// === Files ===
+export async function listFolder(folderId: string, paging: WorkDrivePaging = {}, cid?: string): Promise<WorkDriveListResult> {
+  const { offset, limit } = pagingParams(paging);
+  const query = `page%5Blimit%5D=${limit}&page%5Boffset%5D=${offset}`;
+  const json = await zohoFetch<{ data?: WorkDriveFile[] }>(
+    "workdrive",
+    `/files/${encodeURIComponent(folderId)}/files?${query}`,
+    { headers: { Accept: JSON_API }, cid }
+  );
+  const items = json.data || [];
+  return { items, offset, limit, hasMore: items.length === limit };
+}
+
+export async function listAll(
+  fetchPage: (page: number) => Promise<WorkDriveListResult>,
+  maxPages = 10
+): Promise<WorkDriveFile[]> {
+  const items: WorkDriveFile[] = [];
+  for (let page = 1; page <= maxPages; page++) {
+    const result = await fetchPage(page);
+    items.push(...result.items);
+    if (!result.hasMore) break;
+  }
+  return items;
+}
+
+export async function getFile(fileId: string, cid?: string): Promise<WorkDriveFile> {
+  const json = await zohoFetch<{ data?: WorkDriveFile }>(
+    "workdrive",
+    `/files/${encodeURIComponent(fileId)}`,
+    { headers: { Accept: JSON_API }, cid }
+  );
+  if (!json.data) {
+    throw new Error("zoho:workdrive:file_not_found");
+  }
+  return json.data;
+}
+
+/**
+ * Find a direct subfolder by exact name, creating it when missing
+ */
+export async function ensureFolder(parentId: string, name: string, cid?: string): Promise<WorkDriveFile> {
+  const children = await listAll(page => listFolder(parentId, { page }, cid));
+  const existing = children.find(file => file.attributes.is_folder && file.attributes.name === name);
+  if (existing) return existing;
+
+  const created = await workdrive.createFolder(name, parentId, cid) as { data?: WorkDriveFile };
+  if (!created.data?.id) {
+    throw new Error("zoho:workdrive:folder_creation_failed");
+  }
+  return created.data;
+}
+
+/**
+ * Upload into a folder. The upload endpoint answers with its own attribute names
+ * (resource_id, FileName, Permalink), normalised here to the usual file shape
+ */
+export async function uploadFile(folderId: string, file: Blob, filename: string, cid?: string): Promise<WorkDriveFile> {
+  type UploadDatum = { id?: string; attributes?: Record<string, any> };
+  const json = await workdrive.upload(folderId, file, filename, cid) as { data?: UploadDatum | UploadDatum[] };
+  const datum = Array.isArray(json.data) ? json.data[0] : json.data;
+  const attributes = datum?.attributes || {};
+  const id = datum?.id || attributes.resource_id;
+  if (!id) {
+    throw new Error("zoho:workdrive:upload_failed");
+  }
+
+  return {
+    id,
+    type: "files",
+    attributes: {
+      ...attributes,
+      name: attributes.name || attributes.FileName || filename,
+      type: attributes.type || "file",
+      is_folder: false,
+      parent_id: attributes.parent_id || folderId,
+      permalink: attributes.permalink || attributes.Permalink,
+      created_time_in_millisecond: attributes.created_time_in_millisecond || Date.now(),
+      storage_info: attributes.storage_info || { size_in_bytes: file.size },
+    },
+  };
+}
+
+/** Raw download response so callers can stream the body through */
+export function downloadFile(fileId: string, cid?: string): Promise<Response> {
+  return zohoFetchRaw("workdrive", `/download/${encodeURIComponent(fileId)}`, { cid });
+}
+
+/** Moves the file to the WorkDrive trash (recoverable by admins) */
+export async function trashFile(fileId: string, cid?: string): Promise<void> {
+  await zohoFetch("workdrive", `/files/${encodeURIComponent(fileId)}`, {
+    method: "PATCH",
+    headers: { "Content-Type": JSON_API, Accept: JSON_API },
+    body: JSON.stringify({ data: { type: "files", attributes: { status: "51" } } }),
+    cid,
+  });
+}
+
+const workdriveAPI = {
+  listFolder,
+  listAll,
+  getFile,
+  ensureFolder,
+  uploadFile,
+  downloadFile,
+  trashFile,
+}
+
+export default workdriveAPI
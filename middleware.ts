@@ -4,43 +4,16 @@ import type { NextRequest } from "next/server";
 import { createCSPConfig, buildCSPHeader } from '@/lib/security/csp';
 import { applySecurityHeaders, getSecurityHeadersConfig } from '@/lib/security/headers';
 import { securityLogger } from '@/lib/security/logging';
+import { applyRateLimit, createRateLimitHeaders, getRateLimitConfig } from '@/lib/security/rate-limit';
+import { verifyFormSignature } from '@/lib/security/form-signature';
 
 const HMAC_SECRET = process.env.FORM_HMAC_SECRET || "";
-const RATE_PER_MIN = Number(process.env.RATE_PER_MIN || 60);
 const IS_PRODUCTION = process.env.NODE_ENV === 'production';
 
 
-// Rate limiting buckets
-const buckets = new Map<string, { count: number; ts: number }>();
-
-function applyRateLimit(key: string, max = RATE_PER_MIN, windowMs = 60_000) {
-  const now = Date.now();
-  const b = buckets.get(key) || { count: 0, ts: now };
-  if (now - b.ts > windowMs) { b.count = 0; b.ts = now; }
-  b.count += 1; buckets.set(key, b);
-  return { allowed: b.count <= max, remaining: Math.max(0, max - b.count) };
-}
-
-
 async function verifyHmac(req: NextRequest) {
-  // TEMPORARY FIX: Disable HMAC validation to restore functionality
-  // TODO: Implement proper HMAC signature generation in frontend
-  console.log('🔧 HMAC validation temporarily disabled for:', req.nextUrl.pathname);
-  return true;
-  
-  // Original HMAC validation (commented out for now)
-  /*
-  if (!HMAC_SECRET) return true; // allow in dev
-  if (req.method !== "POST") return true;
-  
-  const sig = req.headers.get("x-signature") || "";
-  const body = await req.clone().text();
-  const enc = new TextEncoder();
-  const key = await crypto.subtle.importKey("raw", enc.encode(HMAC_SECRET), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
-  const mac = await crypto.subtle.sign("HMAC", key, enc.encode(body));
-  const digest = Buffer.from(new Uint8Array(mac)).toString("hex");
-  return sig === digest;
-  */
+  if (!HMAC_SECRET) return { valid: true as const }; // allow in dev
+  return verifyFormSignature(req, HMAC_SECRET);
 }
 
 function logSecurityEvent(type: string, details: any, request: NextRequest) {
@@ -73,35 +46,39 @@ export async function middleware(req: NextRequest) {
   const cspConfig = createCSPConfig(req);
   const cspHeader = buildCSPHeader(cspConfig.directives, cspConfig.reportUri);
   
-  // Apply rate limiting
-  const { allowed, remaining } = applyRateLimit(`ip:${ip}`, RATE_PER_MIN);
-  if (!allowed) {
-    logSecurityEvent('rate_limit_exceeded', { ip, path, remaining: 0 }, req);
+  // Apply the route's rate limit policy (same engine and store as the API routes)
+  const { config: rateLimitConfig, type: rateLimitType } = getRateLimitConfig(req);
+  const rateLimit = await applyRateLimit(req, rateLimitConfig, rateLimitType);
+  const rateLimitHeaders = createRateLimitHeaders(rateLimit);
+  if (!rateLimit.allowed) {
+    logSecurityEvent('rate_limit_exceeded', { ip, path, policy: rateLimitType, remaining: 0 }, req);
     return new NextResponse(
       JSON.stringify({ ok: false, cid, error: "rate_limited" }), 
       { 
         status: 429, 
         headers: { 
+          ...rateLimitHeaders,
           "Content-Type": "application/json", 
-          "x-correlation-id": cid,
-          "Retry-After": "60"
+          "x-correlation-id": cid
         }
       }
     );
   }
 
-  // HMAC verification for FORM POST endpoints (excluding admin endpoints)
+  // HMAC verification for FORM POST endpoints (excluding admin endpoints). Only the newsletter
+  // signup itself: confirm and preferences are opened from email links and carry a signed token
   const protectedPost = req.method === "POST" && (
     path.startsWith("/api/consultation") || 
-    path.startsWith("/api/newsletter") ||
+    path === "/api/newsletter" ||
     path.startsWith("/api/contact") ||
     path.startsWith("/api/quotes")
   ) && !path.startsWith("/api/admin"); // Exclude admin endpoints from HMAC validation
   
   if (protectedPost) {
-    const hmacValid = await verifyHmac(req);
-    if (!hmacValid) {
-      logSecurityEvent('hmac_validation_failed', { ip, path }, req);
+    // Signature, timestamp skew and nonce replay, checked before the route reads the body
+    const hmac = await verifyHmac(req);
+    if (!hmac.valid) {
+      logSecurityEvent('hmac_validation_failed', { ip, path, reason: hmac.reason }, req);
       return new NextResponse(
         JSON.stringify({ ok: false, cid, error: "invalid_signature" }), 
         { 
@@ -136,9 +113,7 @@ export async function middleware(req: NextRequest) {
   applySecurityHeaders(res, securityConfig, IS_PRODUCTION);
   
   // Rate limiting headers
-  res.headers.set("X-RateLimit-Limit", RATE_PER_MIN.toString());
-  res.headers.set("X-RateLimit-Remaining", remaining.toString());
-  res.headers.set("X-RateLimit-Reset", new Date(Date.now() + 60000).toISOString());
+  Object.entries(rateLimitHeaders).forEach(([name, value]) => res.headers.set(name, value));
   
   // Security response headers
   res.headers.set("X-Content-Type-Options", "nosniff");
@@ -0,0 +1,40 @@
+#!/usr/bin/env tsx
+/**
+ * Blog Index Build Script
+ * Validates every post in content/blog and writes .content/blog-index.json; runs before each build
+ *
+ *   npm run content:index            build the index
+ *   npm run content:check            validate only, list drafts and scheduled posts
+ */
+
+import { BLOG_INDEX_PATH, BlogContentError, buildBlogIndex, getPostStatus, loadBlogContent } from '@/lib/blog/content';
+
+async function main(): Promise<void> {
+  const checkOnly = process.argv.includes('--check');
+
+  try {
+    if (checkOnly) {
+      const { posts, issues } = await loadBlogContent();
+      for (const post of posts) {
+        const status = getPostStatus(post);
+        console.log(`${status === 'published' ? '✅' : '📝'} ${post.slug} (${status}, ${post.readTime})`);
+      }
+      if (issues.length > 0) throw new BlogContentError(issues);
+      console.log(`\n✅ ${posts.length} blog post(s) valid`);
+      return;
+    }
+
+    const index = await buildBlogIndex();
+    const published = index.posts.filter(post => getPostStatus(post) === 'published').length;
+    console.log(`✅ Blog index written to ${BLOG_INDEX_PATH}: ${index.posts.length} post(s), ${published} published`);
+  } catch (error) {
+    if (error instanceof BlogContentError) {
+      console.error(`❌ ${error.message}`);
+    } else {
+      console.error('❌ Blog index build failed:', error);
+    }
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,25 @@
+#!/usr/bin/env tsx
+/**
+ * Search Index Build Script
+ * Indexes services, blog posts, FAQ entries and solutions pages into .content/search-index.json;
+ * runs before each build, after the blog index
+ */
+
+import { SEARCH_INDEX_PATH, writeSearchIndex } from '@/lib/search';
+
+async function main(): Promise<void> {
+  try {
+    const index = await writeSearchIndex();
+    const counts = index.documents.reduce<Record<string, number>>((totals, document) => {
+      totals[document.type] = (totals[document.type] || 0) + 1;
+      return totals;
+    }, {});
+    const summary = Object.entries(counts).map(([type, count]) => `${count} ${type}`).join(', ');
+    console.log(`✅ Search index written to ${SEARCH_INDEX_PATH}: ${summary}, ${Object.keys(index.postings).length} terms`);
+  } catch (error) {
+    console.error('❌ Search index build failed:', error);
+    process.exit(1);
+  }
+}
+
+main();